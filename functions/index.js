@@ -427,6 +427,7 @@ exports.returnChangeSetToDraft = changeSetAPI.returnChangeSetToDraft;
 exports.approveChangeSet = changeSetAPI.approveChangeSet;
 exports.rejectChangeSet = changeSetAPI.rejectChangeSet;
 exports.publishChangeSet = changeSetAPI.publishChangeSet;
+exports.revertChangeSet = changeSetAPI.revertChangeSet;
 exports.removeChangeSetItem = changeSetAPI.removeChangeSetItem;
 exports.getPublishPreflight = changeSetAPI.getPublishPreflight;
 
@@ -441,6 +442,14 @@ exports.onRateProgramWrite   = searchIndex.onRateProgramWrite;
 exports.onTableWrite         = searchIndex.onTableWrite;
 exports.onChangeSetWrite     = searchIndex.onChangeSetWrite;
 exports.onStateProgramWrite  = searchIndex.onStateProgramWrite;
+exports.onClauseWrite        = searchIndex.onClauseWrite;
+exports.onClauseVersionWrite = searchIndex.onClauseVersionWrite;
+exports.onDataDictionaryFieldWrite = searchIndex.onDataDictionaryFieldWrite;
+exports.onScenarioWrite      = searchIndex.onScenarioWrite;
+exports.onFilingPackageWrite = searchIndex.onFilingPackageWrite;
+exports.onEndorsementWrite   = searchIndex.onEndorsementWrite;
+exports.onCoverageTemplateWrite = searchIndex.onCoverageTemplateWrite;
+exports.reindexSearch        = searchIndex.reindexSearch;
 
 // Collaboration – comment notifications + change-set transition notifications
 const collaboration = require('./src/api/collaboration');
@@ -455,3 +464,12 @@ exports.onStateProgramFiling = taskAutomation.onStateProgramFiling;
 // Filing Packages – generate filing-ready export bundles
 const filingPackage = require('./src/api/filingPackage');
 exports.buildFilingPackage = filingPackage.buildFilingPackage;
+
+// Scheduled Publishing – effective-dated go-lives, scheduler + callable runner
+const scheduledPublish = require('./src/api/scheduledPublish');
+exports.schedulePublish          = scheduledPublish.schedulePublish;
+exports.postponeScheduledPublish = scheduledPublish.postponeScheduledPublish;
+exports.cancelScheduledPublish   = scheduledPublish.cancelScheduledPublish;
+exports.runScheduledPublishes    = scheduledPublish.runScheduledPublishes;
+exports.runScheduledPublishesNow = scheduledPublish.runScheduledPublishesNow;
+exports.onBlockingTaskReopened   = scheduledPublish.onBlockingTaskReopened;
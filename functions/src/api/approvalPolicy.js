@@ -0,0 +1,301 @@
+/**
+ * Approval Policy
+ *
+ * Server-side evaluation of an org's approval policy
+ * (orgs/{orgId}/settings/approvalPolicy) for the change set workflow.
+ * Mirrors src/engine/approvalPolicy.ts; keep the two in step.
+ */
+
+const admin = require('firebase-admin');
+
+const db = admin.firestore();
+
+// Approval rules by artifact type (mirrors client-side APPROVAL_RULES)
+const APPROVAL_RULES = {
+  product: ['product_manager'],
+  coverage: ['product_manager'],
+  form: ['compliance'],
+  rule: ['underwriter', 'compliance'],
+  rateProgram: ['actuary'],
+  table: ['actuary'],
+  dataDictionary: ['product_manager'],
+  stateProgram: ['compliance'],
+};
+
+const ROLE_LABELS = {
+  actuary: 'Actuary',
+  compliance: 'Compliance',
+  underwriter: 'Underwriter',
+  admin: 'Admin',
+  product_manager: 'Product Manager',
+};
+
+const FACT_LABELS = {
+  'item.artifactType': 'artifact type',
+  'item.action': 'item action',
+  'item.states': 'item states',
+  'item.priorApproval': 'item is in a prior-approval state',
+  'changeSet.itemCount': 'item count',
+  'changeSet.artifactTypes': 'artifact types in the change set',
+  'changeSet.states': 'states in the change set',
+  'changeSet.priorApproval': 'change set touches a prior-approval state',
+  'changeSet.premiumImpactPct': 'premium impact %',
+};
+
+const BOOLEAN_FACTS = new Set(['item.priorApproval', 'changeSet.priorApproval']);
+
+const OPERATOR_TEXT = {
+  equals: 'is', notEquals: 'is not', in: 'is one of', notIn: 'is not one of',
+  gt: '>', gte: '≥', lt: '<', lte: '≤', contains: 'includes',
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// Policy
+// ════════════════════════════════════════════════════════════════════════
+
+function defaultApprovalPolicy() {
+  const typesByRole = new Map();
+  for (const [type, roles] of Object.entries(APPROVAL_RULES)) {
+    for (const role of roles) typesByRole.set(role, [...(typesByRole.get(role) || []), type]);
+  }
+  return {
+    version: 1,
+    rules: [...typesByRole.entries()].map(([role, types]) => ({
+      id: `default-${role}`,
+      name: `${ROLE_LABELS[role]} sign-off`,
+      enabled: true,
+      when: { op: 'AND', conditions: [{ fact: 'item.artifactType', operator: 'in', value: types }] },
+      require: { role, quorum: 1 },
+    })),
+    priorApprovalStates: [],
+    segregation: { noSelfApproval: false, distinctApprovers: false },
+  };
+}
+
+/** The org's saved policy, or the default when none is saved */
+async function loadApprovalPolicy(orgId) {
+  const snap = await db.doc(`orgs/${orgId}/settings/approvalPolicy`).get();
+  const policy = snap.exists ? snap.data() : null;
+  if (!policy || !Array.isArray(policy.rules)) return defaultApprovalPolicy();
+  return {
+    ...policy,
+    priorApprovalStates: policy.priorApprovalStates || [],
+    segregation: { noSelfApproval: false, distinctApprovers: false, ...(policy.segregation || {}) },
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Inputs
+// ════════════════════════════════════════════════════════════════════════
+
+function extractItemStates(item, version) {
+  if (item.artifactType === 'stateProgram') {
+    const state = (item.artifactId || '').split('__')[1];
+    return state ? [state] : [];
+  }
+  const data = (version && version.data) || {};
+  const lists = [version?.jurisdiction, version?.states, data.jurisdiction, data.states, data.availableStates];
+  return [...new Set(lists.filter(Array.isArray).flat().filter(s => typeof s === 'string'))].sort();
+}
+
+/**
+ * Gather policy facts for a change set: item states from each item's
+ * version document and the largest premium change across its exhibits.
+ */
+async function buildPolicyInput(orgId, changeSetId, items, buildVersionPath) {
+  const policyItems = await Promise.all(items.map(async (item) => {
+    const path = buildVersionPath(orgId, item);
+    const snap = path ? await db.doc(path).get() : null;
+    return {
+      id: item.id,
+      name: item.artifactName || item.artifactId,
+      artifactType: item.artifactType,
+      action: item.action,
+      states: extractItemStates(item, snap && snap.exists ? snap.data() : null),
+    };
+  }));
+
+  const exhibitsSnap = await db.collection(`orgs/${orgId}/rateImpactExhibits`)
+    .where('changeSetId', '==', changeSetId)
+    .get();
+  const pcts = exhibitsSnap.docs
+    .map(d => d.data().summary?.changePct)
+    .filter(p => typeof p === 'number');
+
+  return {
+    itemCount: items.length,
+    items: policyItems,
+    premiumImpactPct: pcts.length ? Math.max(...pcts.map(Math.abs)) : null,
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Evaluation
+// ════════════════════════════════════════════════════════════════════════
+
+function isGroup(node) {
+  return Array.isArray(node && node.conditions);
+}
+
+function evaluateCondition(cond, facts) {
+  let actual = facts[cond.fact];
+  if (cond.fact === 'changeSet.premiumImpactPct' && typeof actual === 'number') actual = Math.abs(actual);
+  const expected = cond.value;
+  const missing = actual === null || actual === undefined;
+
+  if (cond.operator === 'exists') return !missing && !(Array.isArray(actual) && actual.length === 0);
+  if (cond.operator === 'notExists') return missing || (Array.isArray(actual) && actual.length === 0);
+  if (missing) return cond.operator === 'notEquals' || cond.operator === 'notIn';
+
+  const list = Array.isArray(actual) ? actual : null;
+  const values = Array.isArray(expected) ? expected : [expected];
+
+  switch (cond.operator) {
+    case 'equals': return list ? list.includes(expected) : actual === expected;
+    case 'notEquals': return list ? !list.includes(expected) : actual !== expected;
+    case 'in': return list ? list.some(v => values.includes(v)) : values.includes(actual);
+    case 'notIn': return list ? !list.some(v => values.includes(v)) : !values.includes(actual);
+    case 'contains': return list ? list.includes(expected) : String(actual).includes(String(expected));
+    case 'gt': return typeof actual === 'number' && actual > expected;
+    case 'gte': return typeof actual === 'number' && actual >= expected;
+    case 'lt': return typeof actual === 'number' && actual < expected;
+    case 'lte': return typeof actual === 'number' && actual <= expected;
+    default: return false;
+  }
+}
+
+function evaluateGroup(group, facts) {
+  const results = (group.conditions || []).map(node =>
+    isGroup(node) ? evaluateGroup(node, facts) : evaluateCondition(node, facts));
+  return group.op === 'OR' ? results.some(Boolean) : results.every(Boolean);
+}
+
+function referencesItemFacts(group) {
+  return (group.conditions || []).some(node =>
+    isGroup(node) ? referencesItemFacts(node) : String(node.fact).startsWith('item.'));
+}
+
+function describeCondition(cond) {
+  const label = FACT_LABELS[cond.fact] || cond.fact;
+  if (cond.operator === 'exists') return `${label} is set`;
+  if (cond.operator === 'notExists') return `${label} is not set`;
+  if (BOOLEAN_FACTS.has(cond.fact) && cond.operator === 'equals') return cond.value ? label : `not (${label})`;
+  const value = Array.isArray(cond.value) ? cond.value.join(', ') : String(cond.value);
+  const suffix = cond.fact === 'changeSet.premiumImpactPct' ? '%' : '';
+  return `${label} ${OPERATOR_TEXT[cond.operator] || cond.operator} ${value}${suffix}`;
+}
+
+function describeGroup(group) {
+  if (!group.conditions || group.conditions.length === 0) return 'always';
+  const parts = group.conditions.map(node =>
+    isGroup(node) && node.conditions.length > 1 ? `(${describeGroup(node)})`
+      : isGroup(node) ? describeGroup(node) : describeCondition(node));
+  return parts.join(group.op === 'OR' ? ' or ' : ' and ');
+}
+
+/** Merged requirements (one per role) with the reasons each was raised */
+function evaluateApprovalPolicy(policy, input) {
+  const prior = new Set(policy.priorApprovalStates || []);
+  const states = [...new Set(input.items.flatMap(i => i.states))].sort();
+  const csFacts = {
+    'changeSet.itemCount': input.itemCount,
+    'changeSet.artifactTypes': [...new Set(input.items.map(i => i.artifactType))],
+    'changeSet.states': states,
+    'changeSet.priorApproval': states.some(s => prior.has(s)),
+    'changeSet.premiumImpactPct': input.premiumImpactPct,
+  };
+
+  const byRole = new Map();
+  for (const rule of policy.rules) {
+    if (!rule.enabled || !rule.when || !rule.require) continue;
+
+    let matched;
+    if (referencesItemFacts(rule.when)) {
+      matched = input.items.filter(item => evaluateGroup(rule.when, {
+        ...csFacts,
+        'item.artifactType': item.artifactType,
+        'item.action': item.action,
+        'item.states': item.states,
+        'item.priorApproval': item.states.some(s => prior.has(s)),
+      }));
+      if (matched.length === 0) continue;
+    } else {
+      if (!evaluateGroup(rule.when, csFacts)) continue;
+      matched = [];
+    }
+
+    const reason = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      explanation: describeGroup(rule.when),
+      itemIds: matched.map(i => i.id),
+      itemNames: matched.map(i => i.name),
+    };
+    const role = rule.require.role;
+    const quorum = Math.max(1, rule.require.quorum || 1);
+    const noSelfApproval = !!rule.require.noSelfApproval || policy.segregation?.noSelfApproval === true;
+    const existing = byRole.get(role);
+    if (existing) {
+      existing.quorum = Math.max(existing.quorum, quorum);
+      existing.noSelfApproval = existing.noSelfApproval || noSelfApproval;
+      existing.reasons.push(reason);
+    } else {
+      byRole.set(role, { key: role, role, quorum, noSelfApproval, reasons: [reason] });
+    }
+  }
+  return [...byRole.values()];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Eligibility
+// ════════════════════════════════════════════════════════════════════════
+
+function slotKey(approval) {
+  return approval.requirementKey || approval.roleRequired;
+}
+
+/**
+ * Null when `userId` may approve a slot of `requirementKey`, otherwise
+ * the reason they may not. `approvals` are all slots on the change set.
+ */
+function approvalBlockReason({ requirementKey, approvals, userId, userRole, authorUserIds, segregation }) {
+  const slots = approvals.filter(a => slotKey(a) === requirementKey);
+  const first = slots[0];
+  if (!first) return `No ${requirementKey} approval is required`;
+
+  const quorum = first.quorum || slots.length;
+  const approvedByUser = approvals.filter(a => a.status === 'approved' && a.approverUserId === userId);
+
+  if (slots.filter(a => a.status === 'approved').length >= quorum) {
+    return 'This requirement already has its approvals';
+  }
+  if (userRole !== first.roleRequired && userRole !== 'admin') {
+    return `Requires the ${ROLE_LABELS[first.roleRequired] || first.roleRequired} role`;
+  }
+  if ((first.noSelfApproval || segregation?.noSelfApproval) && authorUserIds.includes(userId)) {
+    return 'Authors of this change set cannot approve it';
+  }
+  if (approvedByUser.some(a => slotKey(a) === requirementKey)) {
+    return `Needs ${quorum} different approvers; you have already approved`;
+  }
+  const other = approvedByUser.find(a => slotKey(a) !== requirementKey);
+  if (segregation?.distinctApprovers && other) {
+    return `You already approved as ${ROLE_LABELS[other.roleRequired] || other.roleRequired}; each requirement needs a different approver`;
+  }
+  return null;
+}
+
+function changeSetAuthors(changeSet, items) {
+  return [...new Set([changeSet.ownerUserId, changeSet.createdBy, ...items.map(i => i.addedBy)].filter(Boolean))];
+}
+
+module.exports = {
+  APPROVAL_RULES,
+  defaultApprovalPolicy,
+  loadApprovalPolicy,
+  buildPolicyInput,
+  evaluateApprovalPolicy,
+  approvalBlockReason,
+  changeSetAuthors,
+  slotKey,
+};
@@ -7,6 +7,14 @@ const { onCall } = require('firebase-functions/v2/https');
 const { https } = require('firebase-functions');
 const admin = require('firebase-admin');
 const { requireAuth } = require('../middleware/auth');
+const {
+  loadApprovalPolicy,
+  buildPolicyInput,
+  evaluateApprovalPolicy,
+  approvalBlockReason,
+  changeSetAuthors,
+  slotKey,
+} = require('./approvalPolicy');
 
 const db = admin.firestore();
 
@@ -21,18 +29,6 @@ const ALLOWED_TRANSITIONS = {
   rejected: ['draft'],
 };
 
-// Approval rules by artifact type
-const APPROVAL_RULES = {
-  product: ['product_manager'],
-  coverage: ['product_manager'],
-  form: ['compliance'],
-  rule: ['underwriter', 'compliance'],
-  rateProgram: ['actuary'],
-  table: ['actuary'],
-  dataDictionary: ['product_manager'],
-  stateProgram: ['compliance'],
-};
-
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -91,6 +87,110 @@ function buildVersionPath(orgId, item) {
   }
 }
 
+const OPEN_CHANGESET_STATUSES = ['draft', 'ready_for_review', 'approved', 'filed'];
+
+// Scheduled publishes that still own the change set's go-live
+const ACTIVE_SCHEDULE_STATUSES = ['scheduled', 'held', 'publishing'];
+
+/**
+ * Whether a draft was branched from something other than the latest
+ * published version (mirrors findStaleBase in src/engine/changeSetRebase.ts)
+ */
+function findStaleBase(draft, versions) {
+  const published = versions
+    .filter(v => v.id !== draft.id && v.status === 'published')
+    .sort((a, b) => b.versionNumber - a.versionNumber);
+  const latest = published[0] || null;
+
+  const baseInferred = !draft.clonedFromVersionId;
+  const base = baseInferred
+    ? published.find(v => v.versionNumber < draft.versionNumber) || null
+    : versions.find(v => v.id === draft.clonedFromVersionId) || null;
+  const baseVersionId = draft.clonedFromVersionId || (base && base.id) || null;
+
+  return {
+    stale: draft.status !== 'published' && latest !== null && latest.id !== baseVersionId,
+    baseVersionId,
+    baseVersionNumber: base ? base.versionNumber : null,
+    baseInferred,
+    latestPublishedVersionId: latest ? latest.id : null,
+    latestPublishedVersionNumber: latest ? latest.versionNumber : null,
+  };
+}
+
+/**
+ * Items another open change set also holds, and drafts branched from a
+ * version that has since been superseded by a newer published one
+ */
+async function detectChangeSetConflicts(orgId, changeSetId, items) {
+  const staleItems = [];
+  for (const item of items) {
+    const versionPath = buildVersionPath(orgId, item);
+    if (!versionPath) continue;
+
+    const versionsSnap = await db.collection(versionPath.slice(0, versionPath.lastIndexOf('/'))).get();
+    const versions = versionsSnap.docs.map(doc => {
+      const v = doc.data();
+      return {
+        id: doc.id,
+        versionNumber: v.versionNumber || 0,
+        status: v.status,
+        clonedFromVersionId: v.clonedFromVersionId || v.clonedFrom || undefined,
+      };
+    });
+    const draft = versions.find(v => v.id === item.versionId);
+    if (!draft) continue;
+
+    const result = findStaleBase(draft, versions);
+    if (result.stale) {
+      staleItems.push({
+        itemId: item.id,
+        artifactType: item.artifactType,
+        artifactId: item.artifactId,
+        ...(item.artifactName ? { artifactName: item.artifactName } : {}),
+        versionId: item.versionId,
+        ...result,
+      });
+    }
+  }
+
+  const byArtifact = new Map(items.map(i => [`${i.artifactType}:${i.artifactId}`, i]));
+  const openSnap = await db.collection('orgs').doc(orgId).collection('changeSets')
+    .where('status', 'in', OPEN_CHANGESET_STATUSES)
+    .get();
+
+  const overlaps = [];
+  for (const csDoc of openSnap.docs) {
+    if (csDoc.id === changeSetId) continue;
+    const other = csDoc.data();
+    const otherItemsSnap = await csDoc.ref.collection('items').get();
+    for (const otherDoc of otherItemsSnap.docs) {
+      const otherItem = otherDoc.data();
+      const item = byArtifact.get(`${otherItem.artifactType}:${otherItem.artifactId}`);
+      if (!item) continue;
+      overlaps.push({
+        itemId: item.id,
+        artifactType: item.artifactType,
+        artifactId: item.artifactId,
+        ...(item.artifactName ? { artifactName: item.artifactName } : {}),
+        versionId: item.versionId,
+        otherChangeSetId: csDoc.id,
+        otherChangeSetName: other.name || csDoc.id,
+        otherChangeSetStatus: other.status,
+        otherVersionId: otherItem.versionId,
+        sameVersion: otherItem.versionId === item.versionId,
+      });
+    }
+  }
+
+  return { overlaps, staleItems };
+}
+
+function describeStaleItem(s) {
+  const base = s.baseVersionNumber ? `v${s.baseVersionNumber}` : 'an older version';
+  return `${s.artifactName || s.artifactId} was branched from ${base} but v${s.latestPublishedVersionNumber} has since been published`;
+}
+
 // ============================================================================
 // ChangeSet Functions
 // ============================================================================
@@ -128,29 +228,40 @@ exports.submitChangeSetForReview = onCall({ cors: true }, async (request) => {
     throw new https.HttpsError('failed-precondition', 'ChangeSet has no items');
   }
 
-  const requiredRoles = new Set();
-  itemsSnap.docs.forEach(doc => {
-    const item = doc.data();
-    const rules = APPROVAL_RULES[item.artifactType] || [];
-    rules.forEach(role => requiredRoles.add(role));
-  });
+  // Evaluate the org's approval policy against the items
+  const items = itemsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  const policy = await loadApprovalPolicy(orgId);
+  const requirements = evaluateApprovalPolicy(
+    policy,
+    await buildPolicyInput(orgId, changeSetId, items, buildVersionPath),
+  );
+  const requiredRoles = requirements.map(r => r.role);
 
-  // Create pending approval records
+  // Create one pending approval slot per required approver
   const batch = db.batch();
   const now = admin.firestore.FieldValue.serverTimestamp();
-  
-  for (const role of requiredRoles) {
-    const approvalRef = changeSetRef.collection('approvals').doc();
-    batch.set(approvalRef, {
-      roleRequired: role,
-      status: 'pending',
-      createdAt: now,
-    });
+  let slotCount = 0;
+
+  for (const requirement of requirements) {
+    for (let slot = 1; slot <= requirement.quorum; slot++) {
+      const approvalRef = changeSetRef.collection('approvals').doc();
+      batch.set(approvalRef, {
+        roleRequired: requirement.role,
+        requirementKey: requirement.key,
+        slot,
+        quorum: requirement.quorum,
+        noSelfApproval: requirement.noSelfApproval,
+        reasons: requirement.reasons,
+        status: 'pending',
+        createdAt: now,
+      });
+      slotCount++;
+    }
   }
 
   batch.update(changeSetRef, {
     status: 'ready_for_review',
-    pendingApprovalCount: requiredRoles.size,
+    pendingApprovalCount: slotCount,
     updatedAt: now,
     updatedBy: auth.uid,
   });
@@ -164,10 +275,14 @@ exports.submitChangeSetForReview = onCall({ cors: true }, async (request) => {
     entityType: 'changeSet',
     entityId: changeSetId,
     changeSetId,
-    metadata: { requiredRoles: Array.from(requiredRoles) },
+    metadata: {
+      requiredRoles,
+      quorums: Object.fromEntries(requirements.map(r => [r.key, r.quorum])),
+      ruleIds: [...new Set(requirements.flatMap(r => r.reasons.map(x => x.ruleId)))],
+    },
   });
 
-  return { success: true, requiredRoles: Array.from(requiredRoles) };
+  return { success: true, requiredRoles, requirements };
 });
 
 /**
@@ -225,67 +340,92 @@ exports.returnChangeSetToDraft = onCall({ cors: true }, async (request) => {
 
 /**
  * Approve a ChangeSet (as a specific role)
+ *
+ * `requirementKey` picks the policy requirement being approved; older
+ * clients send only `role`, which is the key for role-merged requirements.
+ * Role, self-approval, quorum and segregation checks follow the org policy.
  */
 exports.approveChangeSet = onCall({ cors: true }, async (request) => {
   const auth = requireAuth(request);
-  const { orgId, changeSetId, role, notes } = request.data;
+  const { orgId, changeSetId, role, requirementKey, notes } = request.data;
+  const key = requirementKey || role;
 
-  if (!orgId || !changeSetId || !role) {
-    throw new https.HttpsError('invalid-argument', 'orgId, changeSetId, and role are required');
+  if (!orgId || !changeSetId || !key) {
+    throw new https.HttpsError('invalid-argument', 'orgId, changeSetId, and role or requirementKey are required');
   }
 
-  if (!(await hasApprovalRole(orgId, auth.uid, role))) {
-    throw new https.HttpsError('permission-denied', `You do not have the ${role} role`);
+  const userRole = await getMemberRole(orgId, auth.uid);
+  if (!userRole) {
+    throw new https.HttpsError('permission-denied', 'You are not an active member of this organization');
   }
 
   const changeSetRef = db.collection('orgs').doc(orgId).collection('changeSets').doc(changeSetId);
-  const changeSetDoc = await changeSetRef.get();
+  const policy = await loadApprovalPolicy(orgId);
+  const now = admin.firestore.FieldValue.serverTimestamp();
 
-  if (!changeSetDoc.exists) {
-    throw new https.HttpsError('not-found', 'ChangeSet not found');
-  }
+  // Read, eligibility checks and the slot claim happen in one transaction so
+  // concurrent approvers cannot claim the same slot or both pass the
+  // duplicate-approver check
+  const { claimed, allApproved, pendingCount } = await db.runTransaction(async (tx) => {
+    const changeSetDoc = await tx.get(changeSetRef);
+    if (!changeSetDoc.exists) {
+      throw new https.HttpsError('not-found', 'ChangeSet not found');
+    }
 
-  const changeSet = changeSetDoc.data();
-  if (changeSet.status !== 'ready_for_review') {
-    throw new https.HttpsError('failed-precondition', 'ChangeSet is not ready for review');
-  }
+    const changeSet = changeSetDoc.data();
+    if (changeSet.status !== 'ready_for_review') {
+      throw new https.HttpsError('failed-precondition', 'ChangeSet is not ready for review');
+    }
 
-  // Find the pending approval for this role
-  const approvalsSnap = await changeSetRef.collection('approvals')
-    .where('roleRequired', '==', role)
-    .where('status', '==', 'pending')
-    .get();
+    const [approvalsSnap, itemsSnap] = await Promise.all([
+      tx.get(changeSetRef.collection('approvals')),
+      tx.get(changeSetRef.collection('items')),
+    ]);
+    const approvals = approvalsSnap.docs.map(doc => ({ id: doc.id, ref: doc.ref, ...doc.data() }));
+
+    const blockReason = approvalBlockReason({
+      requirementKey: key,
+      approvals,
+      userId: auth.uid,
+      userRole,
+      authorUserIds: changeSetAuthors(changeSet, itemsSnap.docs.map(doc => doc.data())),
+      segregation: policy.segregation,
+    });
+    if (blockReason) {
+      throw new https.HttpsError('permission-denied', blockReason);
+    }
 
-  if (approvalsSnap.empty) {
-    throw new https.HttpsError('not-found', `No pending ${role} approval found`);
-  }
+    const pending = approvals
+      .filter(a => slotKey(a) === key && a.status === 'pending')
+      .sort((a, b) => (a.slot || 1) - (b.slot || 1));
 
-  const approvalRef = approvalsSnap.docs[0].ref;
-  const now = admin.firestore.FieldValue.serverTimestamp();
-
-  await approvalRef.update({
-    status: 'approved',
-    approverUserId: auth.uid,
-    decidedAt: now,
-    notes: notes || null,
-  });
+    if (pending.length === 0) {
+      throw new https.HttpsError('not-found', `No pending ${key} approval found`);
+    }
 
-  // Check if all approvals are complete
-  const allApprovalsSnap = await changeSetRef.collection('approvals').get();
-  const allApproved = allApprovalsSnap.docs.every(doc => doc.data().status === 'approved');
-  const pendingCount = allApprovalsSnap.docs.filter(doc => doc.data().status === 'pending').length;
+    const slot = pending[0];
+    tx.update(slot.ref, {
+      status: 'approved',
+      approverUserId: auth.uid,
+      approverName: auth.token?.name || auth.token?.email || null,
+      decidedAt: now,
+      notes: notes || null,
+    });
 
-  const updateData = {
-    pendingApprovalCount: pendingCount,
-    updatedAt: now,
-    updatedBy: auth.uid,
-  };
+    // Counts as they will be once this slot is approved
+    const statuses = approvals.map(a => (a.id === slot.id ? 'approved' : a.status));
+    const remaining = statuses.filter(status => status === 'pending').length;
+    const complete = statuses.every(status => status === 'approved');
 
-  if (allApproved) {
-    updateData.status = 'approved';
-  }
+    tx.update(changeSetRef, {
+      pendingApprovalCount: remaining,
+      updatedAt: now,
+      updatedBy: auth.uid,
+      ...(complete ? { status: 'approved' } : {}),
+    });
 
-  await changeSetRef.update(updateData);
+    return { claimed: slot, allApproved: complete, pendingCount: remaining };
+  });
 
   await logAuditEvent(orgId, {
     actorUserId: auth.uid,
@@ -293,7 +433,7 @@ exports.approveChangeSet = onCall({ cors: true }, async (request) => {
     entityType: 'changeSet',
     entityId: changeSetId,
     changeSetId,
-    metadata: { role, notes, allApproved },
+    metadata: { role: claimed.roleRequired, requirementKey: key, notes, allApproved },
   });
 
   return { success: true, allApproved, pendingCount };
@@ -362,25 +502,24 @@ exports.rejectChangeSet = onCall({ cors: true }, async (request) => {
 });
 
 /**
- * Publish a ChangeSet (publishes all draft versions)
+ * The active scheduled publish of a change set, if any
  */
-exports.publishChangeSet = onCall({ cors: true }, async (request) => {
-  const auth = requireAuth(request);
-  const { orgId, changeSetId } = request.data;
-
-  if (!orgId || !changeSetId) {
-    throw new https.HttpsError('invalid-argument', 'orgId and changeSetId are required');
-  }
-
-  // Verify user belongs to the org and has elevated permissions (admin or product_manager)
-  const memberRole = await getMemberRole(orgId, auth.uid);
-  if (!memberRole) {
-    throw new https.HttpsError('permission-denied', 'You are not a member of this organization');
-  }
-  if (!['admin', 'product_manager'].includes(memberRole)) {
-    throw new https.HttpsError('permission-denied', 'Publishing requires admin or product_manager role');
-  }
+async function findActiveSchedule(orgId, changeSetId) {
+  const snap = await db.collection(`orgs/${orgId}/scheduledPublishes`)
+    .where('changeSetId', '==', changeSetId)
+    .where('status', 'in', ACTIVE_SCHEDULE_STATUSES)
+    .limit(1)
+    .get();
+  return snap.empty ? null : { id: snap.docs[0].id, ...snap.docs[0].data() };
+}
 
+/**
+ * Publish every draft version in a change set and mark it published in one
+ * batch. Shared by the publishChangeSet callable and the publish scheduler;
+ * callers check the actor may publish. `beforeCommit(batch, now)` adds the
+ * caller's own writes to the same batch.
+ */
+async function publishChangeSetCore(orgId, changeSetId, actorUserId, { beforeCommit, auditMetadata } = {}) {
   const changeSetRef = db.collection('orgs').doc(orgId).collection('changeSets').doc(changeSetId);
   const changeSetDoc = await changeSetRef.get();
 
@@ -425,49 +564,30 @@ exports.publishChangeSet = onCall({ cors: true }, async (request) => {
     }
   }
 
+  // Refuse to overwrite versions published since these drafts were branched
+  const { staleItems } = await detectChangeSetConflicts(
+    orgId, changeSetId, itemsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() })),
+  );
+  if (staleItems.length > 0) {
+    throw new https.HttpsError(
+      'failed-precondition',
+      `Rebase before publishing: ${staleItems.map(describeStaleItem).join('; ')}`
+    );
+  }
+
   const batch = db.batch();
   const publishedItems = [];
 
   // Publish each version
   for (const itemDoc of itemsSnap.docs) {
     const item = itemDoc.data();
+    const versionPath = buildVersionPath(orgId, item);
+    if (!versionPath) continue;
 
-    // Build the version path based on artifact type
-    let versionPath;
-    switch (item.artifactType) {
-      case 'product':
-        versionPath = `orgs/${orgId}/products/${item.artifactId}/versions/${item.versionId}`;
-        break;
-      case 'coverage':
-        // Coverage items should include productId in artifactId as "productId:coverageId"
-        const [productId, coverageId] = item.artifactId.split(':');
-        versionPath = `orgs/${orgId}/products/${productId}/coverages/${coverageId}/versions/${item.versionId}`;
-        break;
-      case 'form':
-        versionPath = `orgs/${orgId}/forms/${item.artifactId}/versions/${item.versionId}`;
-        break;
-      case 'rule':
-        versionPath = `orgs/${orgId}/rules/${item.artifactId}/versions/${item.versionId}`;
-        break;
-      case 'rateProgram':
-        versionPath = `orgs/${orgId}/ratePrograms/${item.artifactId}/versions/${item.versionId}`;
-        break;
-      case 'table':
-        versionPath = `orgs/${orgId}/tables/${item.artifactId}/versions/${item.versionId}`;
-        break;
-      case 'dataDictionary':
-        const [prodId, fieldId] = item.artifactId.split(':');
-        versionPath = `orgs/${orgId}/products/${prodId}/dataDictionary/${fieldId}/versions/${item.versionId}`;
-        break;
-      default:
-        continue;
-    }
-
-    const versionRef = db.doc(versionPath);
-    batch.update(versionRef, {
+    batch.update(db.doc(versionPath), {
       status: 'published',
       publishedAt: now,
-      publishedBy: auth.uid,
+      publishedBy: actorUserId,
     });
 
     publishedItems.push({
@@ -481,15 +601,17 @@ exports.publishChangeSet = onCall({ cors: true }, async (request) => {
   batch.update(changeSetRef, {
     status: 'published',
     updatedAt: now,
-    updatedBy: auth.uid,
+    updatedBy: actorUserId,
   });
 
+  if (beforeCommit) beforeCommit(batch, now, publishedItems);
+
   await batch.commit();
 
   // Log audit for each published item
   for (const item of publishedItems) {
     await logAuditEvent(orgId, {
-      actorUserId: auth.uid,
+      actorUserId,
       action: 'PUBLISH',
       entityType: item.artifactType,
       entityId: item.artifactId,
@@ -499,15 +621,333 @@ exports.publishChangeSet = onCall({ cors: true }, async (request) => {
   }
 
   await logAuditEvent(orgId, {
-    actorUserId: auth.uid,
+    actorUserId,
     action: 'PUBLISH',
     entityType: 'changeSet',
     entityId: changeSetId,
     changeSetId,
-    metadata: { itemCount: publishedItems.length },
+    metadata: { itemCount: publishedItems.length, ...(auditMetadata || {}) },
   });
 
-  return { success: true, publishedCount: publishedItems.length };
+  return { publishedCount: publishedItems.length };
+}
+
+/**
+ * Publish a ChangeSet (publishes all draft versions)
+ */
+exports.publishChangeSet = onCall({ cors: true }, async (request) => {
+  const auth = requireAuth(request);
+  const { orgId, changeSetId } = request.data;
+
+  if (!orgId || !changeSetId) {
+    throw new https.HttpsError('invalid-argument', 'orgId and changeSetId are required');
+  }
+
+  // Verify user belongs to the org and has elevated permissions (admin or product_manager)
+  const memberRole = await getMemberRole(orgId, auth.uid);
+  if (!memberRole) {
+    throw new https.HttpsError('permission-denied', 'You are not a member of this organization');
+  }
+  if (!['admin', 'product_manager'].includes(memberRole)) {
+    throw new https.HttpsError('permission-denied', 'Publishing requires admin or product_manager role');
+  }
+
+  // A scheduled go-live owns the publish; cancel it first to publish now
+  const schedule = await findActiveSchedule(orgId, changeSetId);
+  if (schedule) {
+    throw new https.HttpsError(
+      'failed-precondition',
+      `Scheduled to publish ${schedule.effectiveDate} ${schedule.effectiveTime} (${schedule.timeZone}); cancel the schedule to publish now`
+    );
+  }
+
+  const { publishedCount } = await publishChangeSetCore(orgId, changeSetId, auth.uid);
+  return { success: true, publishedCount };
+});
+
+// ============================================================================
+// Revert (mirrors src/engine/changeSetRevert.ts)
+// ============================================================================
+
+/** Version fields that describe the old version rather than its content */
+const REVERT_METADATA_FIELDS = [
+  'id', 'versionNumber', 'status',
+  'createdAt', 'createdBy', 'updatedAt', 'updatedBy',
+  'publishedAt', 'publishedBy',
+  'summary', 'notes',
+  'clonedFrom', 'clonedFromVersionId', 'restoredFromVersionId',
+];
+
+const REVERT_SKIP_REASON_LABELS = {
+  not_versioned: 'has no version history to restore',
+  not_published: 'was not published by this change set',
+  superseded: 'has been published again since',
+  first_version: 'was first published by this change set; deprecate it instead',
+};
+
+const wasPublished = (v) => v.status === 'published' || v.publishedAtMs !== null;
+
+function byPublishOrder(a, b) {
+  if (a.publishedAtMs !== null && b.publishedAtMs !== null && a.publishedAtMs !== b.publishedAtMs) {
+    return b.publishedAtMs - a.publishedAtMs;
+  }
+  return b.versionNumber - a.versionNumber;
+}
+
+/** The version live before `publishedVersionId` was published, or why there is none */
+function findRevertTarget(publishedVersionId, versions) {
+  const current = versions.find(v => v.id === publishedVersionId);
+  if (!current || !wasPublished(current)) return { restore: null, skipReason: 'not_published' };
+
+  const published = versions.filter(wasPublished).sort(byPublishOrder);
+  const latest = published.find(v => v.status === 'published') || published[0];
+  if (latest.id !== current.id) {
+    return { restore: null, skipReason: 'superseded', skipDetail: `v${latest.versionNumber}` };
+  }
+
+  const prior = published.slice(published.indexOf(current) + 1)[0] || null;
+  if (!prior) return { restore: null, skipReason: 'first_version' };
+  return { restore: prior };
+}
+
+function revertVersionPayload(source) {
+  return Object.fromEntries(Object.entries(source).filter(([key]) => !REVERT_METADATA_FIELDS.includes(key)));
+}
+
+/** Version subcollections that hold part of the content, by artifact type */
+const REVERT_VERSION_SUBCOLLECTIONS = {
+  rateProgram: ['steps'],
+};
+
+/** A subcollection document of the restored version, pointed at the new draft */
+function revertSubcollectionPayload(artifactType, source, versionId) {
+  return artifactType === 'rateProgram' ? { ...source, rateProgramVersionId: versionId } : { ...source };
+}
+
+function describeSkippedItem(item) {
+  const label = REVERT_SKIP_REASON_LABELS[item.skipReason] || REVERT_SKIP_REASON_LABELS.not_published;
+  return `${item.artifactName || item.artifactId} ${label}${item.skipDetail ? ` (${item.skipDetail})` : ''}`;
+}
+
+function describeRevertPlan(original, restorable, skipped) {
+  const lines = [`Reverts "${original.name}".`];
+  for (const item of restorable) {
+    lines.push(`- ${item.artifactName || item.artifactId}: restore v${item.restore.versionNumber}`);
+  }
+  if (skipped.length > 0) {
+    lines.push('Not reverted:');
+    for (const item of skipped) lines.push(`- ${describeSkippedItem(item)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Revert a published ChangeSet: create a draft change set whose items
+ * restore each artifact's previously published version as a new draft.
+ * The revert then follows the normal approval and publish workflow.
+ */
+exports.revertChangeSet = onCall({ cors: true }, async (request) => {
+  const auth = requireAuth(request);
+  const { orgId, changeSetId } = request.data;
+
+  if (!orgId || !changeSetId) {
+    throw new https.HttpsError('invalid-argument', 'orgId and changeSetId are required');
+  }
+
+  if (!(await canWriteInOrg(orgId, auth.uid))) {
+    throw new https.HttpsError('permission-denied', 'You do not have permission');
+  }
+
+  const changeSetsRef = db.collection('orgs').doc(orgId).collection('changeSets');
+  const originalRef = changeSetsRef.doc(changeSetId);
+  const originalDoc = await originalRef.get();
+
+  if (!originalDoc.exists) {
+    throw new https.HttpsError('not-found', 'ChangeSet not found');
+  }
+
+  const original = originalDoc.data();
+  if (original.status !== 'published') {
+    throw new https.HttpsError('failed-precondition', 'Only published change sets can be reverted');
+  }
+
+  // One live revert per change set; a rejected revert can be retried
+  if (original.revertedByChangeSetId) {
+    const existing = await changeSetsRef.doc(original.revertedByChangeSetId).get();
+    if (existing.exists && existing.data().status !== 'rejected') {
+      throw new https.HttpsError(
+        'already-exists',
+        `Already reverted by change set "${existing.data().name}" (${existing.data().status})`
+      );
+    }
+  }
+
+  const itemsSnap = await originalRef.collection('items').get();
+  if (itemsSnap.size > 200) {
+    throw new https.HttpsError(
+      'failed-precondition',
+      `Change set has ${itemsSnap.size} items; revert supports at most 200. Revert it in parts by hand.`
+    );
+  }
+
+  // Plan each item against its artifact's version history
+  const restorable = [];
+  const skipped = [];
+  for (const itemDoc of itemsSnap.docs) {
+    const item = { id: itemDoc.id, ...itemDoc.data() };
+    const base = {
+      item,
+      artifactType: item.artifactType,
+      artifactId: item.artifactId,
+      artifactName: item.artifactName,
+    };
+
+    const versionPath = buildVersionPath(orgId, item);
+    if (!versionPath) {
+      skipped.push({ ...base, skipReason: 'not_versioned' });
+      continue;
+    }
+
+    const versionsRef = db.doc(versionPath).parent;
+    const versionsSnap = await versionsRef.get();
+    const versions = versionsSnap.docs.map(d => ({
+      id: d.id,
+      versionNumber: d.data().versionNumber || 0,
+      status: d.data().status,
+      publishedAtMs: d.data().publishedAt ? d.data().publishedAt.toMillis() : null,
+      doc: d,
+    }));
+
+    const { restore, skipReason, skipDetail } = findRevertTarget(item.versionId, versions);
+    if (!restore) {
+      skipped.push({ ...base, skipReason, ...(skipDetail ? { skipDetail } : {}) });
+      continue;
+    }
+
+    restorable.push({
+      ...base,
+      restore,
+      versionsRef,
+      nextVersionNumber: Math.max(0, ...versions.map(v => v.versionNumber)) + 1,
+    });
+  }
+
+  if (restorable.length === 0) {
+    throw new https.HttpsError(
+      'failed-precondition',
+      `Nothing to revert: ${skipped.map(describeSkippedItem).join('; ')}`
+    );
+  }
+
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  for (const entry of restorable) entry.versionRef = entry.versionsRef.doc();
+
+  // Copy content subcollections (rate program steps) under their own IDs
+  // before the drafts exist, so no draft is ever seen without its content.
+  const subcollectionWrites = [];
+  for (const entry of restorable) {
+    for (const name of REVERT_VERSION_SUBCOLLECTIONS[entry.artifactType] || []) {
+      const snap = await entry.restore.doc.ref.collection(name).get();
+      for (const d of snap.docs) {
+        subcollectionWrites.push([
+          entry.versionRef.collection(name).doc(d.id),
+          { ...revertSubcollectionPayload(entry.artifactType, d.data(), entry.versionRef.id), createdAt: now, updatedAt: now },
+        ]);
+      }
+    }
+  }
+  for (let i = 0; i < subcollectionWrites.length; i += 400) {
+    const stepBatch = db.batch();
+    for (const [ref, payload] of subcollectionWrites.slice(i, i + 400)) stepBatch.set(ref, payload);
+    await stepBatch.commit();
+  }
+
+  const batch = db.batch();
+  const revertRef = changeSetsRef.doc();
+
+  batch.set(revertRef, {
+    name: `Revert: ${original.name}`,
+    description: describeRevertPlan(original, restorable, skipped),
+    targetEffectiveStart: null,
+    targetEffectiveEnd: null,
+    status: 'draft',
+    ownerUserId: auth.uid,
+    createdAt: now,
+    createdBy: auth.uid,
+    updatedAt: now,
+    updatedBy: auth.uid,
+    itemCount: restorable.length,
+    pendingApprovalCount: 0,
+    revertOfChangeSetId: changeSetId,
+  });
+
+  for (const entry of restorable) {
+    const source = entry.restore.doc.data();
+    const { versionRef } = entry;
+
+    // Branch from the version being replaced so the draft is not reported stale
+    batch.set(versionRef, {
+      ...revertVersionPayload(source),
+      versionNumber: entry.nextVersionNumber,
+      status: 'draft',
+      summary: `Revert to v${entry.restore.versionNumber}`,
+      notes: `Restores v${entry.restore.versionNumber}; reverts change set "${original.name}"`,
+      clonedFromVersionId: entry.item.versionId,
+      restoredFromVersionId: entry.restore.id,
+      createdAt: now,
+      createdBy: auth.uid,
+      updatedAt: now,
+      updatedBy: auth.uid,
+    });
+
+    batch.set(revertRef.collection('items').doc(), {
+      changeSetId: revertRef.id,
+      artifactType: entry.artifactType,
+      artifactId: entry.artifactId,
+      ...(entry.artifactName ? { artifactName: entry.artifactName } : {}),
+      versionId: versionRef.id,
+      action: 'update',
+      addedAt: now,
+      addedBy: auth.uid,
+    });
+  }
+
+  batch.update(originalRef, { revertedByChangeSetId: revertRef.id });
+
+  await batch.commit();
+
+  await logAuditEvent(orgId, {
+    actorUserId: auth.uid,
+    action: 'REVERT',
+    entityType: 'changeSet',
+    entityId: changeSetId,
+    changeSetId,
+    metadata: {
+      revertChangeSetId: revertRef.id,
+      restoredCount: restorable.length,
+      skippedCount: skipped.length,
+    },
+  });
+
+  await logAuditEvent(orgId, {
+    actorUserId: auth.uid,
+    action: 'CREATE',
+    entityType: 'changeSet',
+    entityId: revertRef.id,
+    changeSetId: revertRef.id,
+    metadata: { revertOfChangeSetId: changeSetId },
+  });
+
+  return {
+    success: true,
+    changeSetId: revertRef.id,
+    restoredCount: restorable.length,
+    skipped: skipped.map(s => ({
+      artifactName: s.artifactName || s.artifactId,
+      reason: s.skipReason,
+      ...(s.skipDetail ? { detail: s.skipDetail } : {}),
+    })),
+  };
 });
 
 /**
@@ -568,22 +1008,11 @@ exports.removeChangeSetItem = onCall({ cors: true }, async (request) => {
 });
 
 /**
- * Get preflight check for publishing (validates all requirements)
+ * Evaluate publish readiness: status, items, approvals, blocking tasks and
+ * conflicts with other change sets. Shared by the getPublishPreflight
+ * callable and the publish scheduler, which re-runs it at go-live.
  */
-exports.getPublishPreflight = onCall({ cors: true }, async (request) => {
-  const auth = requireAuth(request);
-  const { orgId, changeSetId } = request.data;
-
-  if (!orgId || !changeSetId) {
-    throw new https.HttpsError('invalid-argument', 'orgId and changeSetId are required');
-  }
-
-  // Verify user is an active member of the org
-  const memberRole = await getMemberRole(orgId, auth.uid);
-  if (!memberRole) {
-    throw new https.HttpsError('permission-denied', 'You are not a member of this organization');
-  }
-
+async function evaluatePublishPreflight(orgId, changeSetId) {
   const changeSetRef = db.collection('orgs').doc(orgId).collection('changeSets').doc(changeSetId);
   const changeSetDoc = await changeSetRef.get();
 
@@ -645,14 +1074,64 @@ exports.getPublishPreflight = onCall({ cors: true }, async (request) => {
     });
   }
 
+  // ── Conflicts with other change sets ──
+  const conflicts = await detectChangeSetConflicts(
+    orgId, changeSetId, itemsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() })),
+  );
+  for (const stale of conflicts.staleItems) {
+    issues.push({ type: 'error', message: `${describeStaleItem(stale)}; rebase it before publishing` });
+  }
+  for (const overlap of conflicts.overlaps) {
+    const name = overlap.artifactName || overlap.artifactId;
+    issues.push({
+      type: 'warning',
+      message: overlap.sameVersion
+        ? `${name} is also in change set "${overlap.otherChangeSetName}" with the same draft version`
+        : `${name} is also being changed in change set "${overlap.otherChangeSetName}" (${overlap.otherChangeSetStatus})`,
+    });
+  }
+
+  // ── Scheduled go-live ──
+  const schedule = await findActiveSchedule(orgId, changeSetId);
+  if (schedule) {
+    issues.push({
+      type: 'warning',
+      message: `Scheduled to publish ${schedule.effectiveDate} ${schedule.effectiveTime} (${schedule.timeZone}); status: ${schedule.status}`,
+    });
+  }
+
   return {
-    success: true,
     canPublish: issues.filter(i => i.type === 'error').length === 0,
     issues,
     itemCount: itemsSnap.size,
     approvalCount: approvalsSnap.size,
     approvedCount: approvalsSnap.docs.filter(doc => doc.data().status === 'approved').length,
     blockingTaskCount: blockingTasks.length,
+    conflicts,
   };
+}
+
+/**
+ * Get preflight check for publishing (validates all requirements)
+ */
+exports.getPublishPreflight = onCall({ cors: true }, async (request) => {
+  const auth = requireAuth(request);
+  const { orgId, changeSetId } = request.data;
+
+  if (!orgId || !changeSetId) {
+    throw new https.HttpsError('invalid-argument', 'orgId and changeSetId are required');
+  }
+
+  // Verify user is an active member of the org
+  const memberRole = await getMemberRole(orgId, auth.uid);
+  if (!memberRole) {
+    throw new https.HttpsError('permission-denied', 'You are not a member of this organization');
+  }
+
+  return { success: true, ...(await evaluatePublishPreflight(orgId, changeSetId)) };
 });
 
+// Shared with the publish scheduler (scheduledPublish.js)
+exports.evaluatePublishPreflight = evaluatePublishPreflight;
+exports.publishChangeSetCore = publishChangeSetCore;
+exports.findActiveSchedule = findActiveSchedule;
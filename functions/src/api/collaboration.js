@@ -227,4 +227,8 @@ const onChangeSetStatusChange = onDocumentUpdated(
 module.exports = {
   onCommentCreated,
   onChangeSetStatusChange,
+  // Shared with the publish scheduler (scheduledPublish.js)
+  getMemberName,
+  getWatcherUserIds,
+  createNotifications,
 };
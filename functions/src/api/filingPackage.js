@@ -4,7 +4,7 @@
  * Generates a filing-ready export bundle for a Change Set:
  *   1. Snapshots all artifacts/versions in the CS
  *   2. Generates exhibit files (forms schedule, rate exhibit, rule exhibit,
- *      deviations report, change summary)
+ *      deviations report, change summary, structural changes)
  *   3. Creates a ZIP in Cloud Storage
  *   4. Updates the Firestore package doc with status + download path
  */
@@ -13,6 +13,7 @@ const { onCall } = require('firebase-functions/v2/https');
 const { https } = require('firebase-functions');
 const admin = require('firebase-admin');
 const { requireAuth } = require('../middleware/auth');
+const { loadVersionContent, diffStructures, summarizeStructuralDiff } = require('../services/structuralDiff');
 
 const db = admin.firestore();
 const bucket = admin.storage().bucket();
@@ -156,6 +157,81 @@ function generateChangeSummary(changeSet, artifacts) {
   });
 }
 
+/** What each artifact changes, against the version its draft was branched from */
+function generateStructuralChanges(entries) {
+  return canonical({
+    title: 'Structural Changes',
+    generatedAt: new Date().toISOString(),
+    artifacts: entries.map(e => ({
+      type: e.artifactType,
+      name: e.artifactName,
+      versionId: e.versionId,
+      versionNumber: e.versionNumber,
+      baseVersionId: e.baseVersionId,
+      baseVersionNumber: e.baseVersionNumber,
+      summary: summarizeStructuralDiff(e.diff),
+      changes: e.diff.changes.map(c => ({
+        kind: c.kind,
+        path: c.pathText,
+        label: c.label,
+        ...(c.before !== undefined ? { before: c.before } : {}),
+        ...(c.after !== undefined ? { after: c.after } : {}),
+      })),
+    })),
+  });
+}
+
+/**
+ * Figures an exhibit contributes to a package. State-scoped packages use the
+ * exhibit's per-state figures; exhibits without them (no state column in the
+ * sample) keep their whole-sample figures, labelled as such.
+ */
+function rateImpactFigures(exhibit, stateCode) {
+  const all = {
+    figuresScope: 'ALL',
+    summary: exhibit.summary,
+    histogram: exhibit.histogram || [],
+    segments: exhibit.segments || [],
+    capping: exhibit.capping,
+    topMovers: exhibit.topMovers || [],
+  };
+  if (!stateCode) return all;
+  if (!exhibit.stateFigures) {
+    return { ...all, note: `The sample was not broken down by state; these figures cover every state in it, not only ${stateCode}` };
+  }
+
+  const state = exhibit.stateFigures[stateCode];
+  if (!state) {
+    return { figuresScope: stateCode, note: `The sample has no ${stateCode} policies` };
+  }
+  return {
+    figuresScope: stateCode,
+    summary: state.summary,
+    histogram: state.histogram || [],
+    segments: state.segments || [],
+    capping: state.capping,
+    topMovers: state.topMovers || [],
+  };
+}
+
+function generateRateImpactExhibit(exhibit, stateCode) {
+  return canonical({
+    title: exhibit.title || 'Rate Impact Exhibit',
+    generatedAt: new Date().toISOString(),
+    rateProgram: {
+      id: exhibit.rateProgramId,
+      name: exhibit.rateProgramName || null,
+      currentVersionId: exhibit.currentVersionId,
+      proposedVersionId: exhibit.proposedVersionId,
+    },
+    effectiveDate: exhibit.effectiveDate,
+    premiumField: exhibit.premiumField,
+    sampleFileName: exhibit.sampleFileName || null,
+    ...rateImpactFigures(exhibit, stateCode),
+    resultHash: exhibit.resultHash,
+  });
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // Main build function
 // ════════════════════════════════════════════════════════════════════════
@@ -232,6 +308,7 @@ exports.buildFilingPackage = onCall(
       // 4. Snapshot each artifact version
       await updateProgress(pkgRef, 20);
       const artifacts = [];
+      const structuralEntries = [];
 
       for (let i = 0; i < items.length; i++) {
         const item = items[i];
@@ -264,6 +341,25 @@ exports.buildFilingPackage = onCall(
               artSnap.versionNumber = vData.versionNumber || 0;
               artSnap.status = vData.status || '';
               artSnap.contentHash = hashContent(canonical(vData.data || vData));
+
+              // Structural diff against the base the draft was branched from
+              const baseId = vData.clonedFromVersionId
+                || (typeof vData.clonedFrom === 'string' ? vData.clonedFrom : vData.clonedFrom?.versionId);
+              const baseDoc = baseId && item.action !== 'create'
+                ? await vDoc.ref.parent.doc(baseId).get()
+                : null;
+              const diff = diffStructures(
+                item.artifactType,
+                baseDoc?.exists ? await loadVersionContent(baseDoc, item.artifactType) : {},
+                await loadVersionContent(vDoc, item.artifactType),
+              );
+              artSnap.changeCount = diff.changes.length;
+              structuralEntries.push({
+                ...artSnap,
+                baseVersionId: baseDoc?.exists ? baseDoc.id : null,
+                baseVersionNumber: baseDoc?.exists ? baseDoc.data().versionNumber || 0 : null,
+                diff,
+              });
               break;
             }
           }
@@ -313,6 +409,7 @@ exports.buildFilingPackage = onCall(
       const ruleExhibit = generateRuleExhibit(artifacts);
       const deviationsReport = generateDeviationsReport(artifacts, stateOverrides);
       const changeSummary = generateChangeSummary(changeSet, artifacts);
+      const structuralChanges = generateStructuralChanges(structuralEntries);
 
       await updateProgress(pkgRef, 75);
 
@@ -325,8 +422,45 @@ exports.buildFilingPackage = onCall(
         { name: 'rule_exhibit.json', content: ruleExhibit, title: 'Rule Exhibit', mime: 'application/json' },
         { name: 'deviations_report.json', content: deviationsReport, title: 'Deviations Report', mime: 'application/json' },
         { name: 'change_summary.json', content: changeSummary, title: 'Change Summary', mime: 'application/json' },
+        { name: 'structural_changes.json', content: structuralChanges, title: 'Structural Changes', mime: 'application/json' },
       ];
 
+      // Rate impact exhibits attached to the change set
+      const impactSnap = await db
+        .collection(`orgs/${orgId}/rateImpactExhibits`)
+        .where('changeSetId', '==', changeSetId)
+        .get();
+      impactSnap.docs.forEach((impactDoc, index) => {
+        const impact = impactDoc.data();
+        exhibitFiles.push({
+          name: index === 0 ? 'rate_impact_exhibit.json' : `rate_impact_exhibit_${index + 1}.json`,
+          content: generateRateImpactExhibit(impact, scope === 'state' ? stateCode : null),
+          title: impact.title || 'Rate Impact Exhibit',
+          mime: 'application/json',
+        });
+      });
+
+      // Redline exhibits (marked-up form comparisons) attached to the change set
+      const redlineSnap = await db
+        .collection(`orgs/${orgId}/redlineExhibits`)
+        .where('changeSetId', '==', changeSetId)
+        .get();
+      for (const redlineDoc of redlineSnap.docs) {
+        const redline = redlineDoc.data();
+        // Only files stored under this org's redline exhibits are copied in
+        if (typeof redline.storagePath !== 'string'
+          || !redline.storagePath.startsWith(`orgs/${orgId}/redlineExhibits/`)
+          || redline.storagePath.split('/').includes('..')) continue;
+        const [content] = await bucket.file(redline.storagePath).download();
+        const fileName = String(redline.fileName || redlineDoc.id).replace(/[\\/]/g, '_').replace(/^\.+/, '');
+        exhibitFiles.push({
+          name: `redlines/${fileName || redlineDoc.id}`,
+          content,
+          title: redline.title || 'Form Redline',
+          mime: redline.mimeType || 'application/octet-stream',
+        });
+      }
+
       const exhibitEntries = [];
       for (const exhibit of exhibitFiles) {
         const filePath = `${storagePath}/${exhibit.name}`;
@@ -0,0 +1,662 @@
+/**
+ * Scheduled Publish – Cloud Functions
+ *
+ * 1. schedulePublish / postponeScheduledPublish / cancelScheduledPublish
+ * 2. runScheduledPublishes: every 5 minutes, publish schedules that are due
+ * 3. runScheduledPublishesNow: the same runner as a callable, for admins and
+ *    the local emulator (which does not fire scheduled functions)
+ * 4. onBlockingTaskReopened: hold schedules whose blocking task reopens
+ *
+ * Schedules are written to orgs/{orgId}/scheduledPublishes/{scheduleId}.
+ * A due schedule re-runs the publish preflight; if it fails the schedule is
+ * held instead of publishing. Otherwise the change set and the schedule are
+ * marked published in the same batch.
+ *
+ * Time-zone and lifecycle rules mirror src/engine/scheduledPublish.ts.
+ */
+
+const admin = require('firebase-admin');
+const { onCall } = require('firebase-functions/v2/https');
+const { onSchedule } = require('firebase-functions/v2/scheduler');
+const { onDocumentUpdated } = require('firebase-functions/v2/firestore');
+const { https } = require('firebase-functions');
+const { requireAuth } = require('../middleware/auth');
+const { logger } = require('../utils/logger');
+const { evaluatePublishPreflight, publishChangeSetCore, findActiveSchedule } = require('./changeSet');
+const { getMemberName, getWatcherUserIds, createNotifications } = require('./collaboration');
+
+const db = admin.firestore();
+const { Timestamp, FieldValue } = admin.firestore;
+const REGION = 'us-central1';
+const opts = { region: REGION, memory: '256MiB' };
+
+const PUBLISH_ROLES = ['admin', 'product_manager'];
+const MAX_PUBLISH_ATTEMPTS = 3;
+/** A 'publishing' claim older than this belongs to a run that died mid-publish */
+const PUBLISH_CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+const DEFAULT_EFFECTIVE_TIME = '00:00';
+/** Schedules processed per run; the rest wait for the next tick */
+const RUN_BATCH_SIZE = 25;
+/** Actor recorded for scheduler-driven changes */
+const SCHEDULER_ACTOR = 'system';
+const STALE_CLAIM_ERROR = 'A previous publish run stopped before finishing';
+const OPEN_TASK_STATUSES = ['open', 'in_progress'];
+
+// ════════════════════════════════════════════════════════════════════════
+// Time zones (mirrors src/engine/scheduledPublish.ts)
+// ════════════════════════════════════════════════════════════════════════
+
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function isValidTimeZone(timeZone) {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidLocalDate(date) {
+  const m = DATE_RE.exec(date || '');
+  if (!m) return false;
+  const d = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+  return d.getUTCFullYear() === +m[1] && d.getUTCMonth() === +m[2] - 1 && d.getUTCDate() === +m[3];
+}
+
+function timeZoneOffsetMinutes(instant, timeZone) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit',
+  }).formatToParts(instant);
+  const get = (type) => Number(parts.find(p => p.type === type).value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+  return Math.round((asUtc - Math.floor(instant.getTime() / 60000) * 60000) / 60000);
+}
+
+/** UTC instant of a local date + time in timeZone; skipped DST times keep the earlier offset */
+function zonedTimeToUtc(date, time, timeZone) {
+  const [y, mo, d] = date.split('-').map(Number);
+  const [h, mi] = time.split(':').map(Number);
+  const wallClock = Date.UTC(y, mo - 1, d, h, mi);
+
+  const firstOffset = timeZoneOffsetMinutes(new Date(wallClock), timeZone);
+  const guess = wallClock - firstOffset * 60000;
+  const secondOffset = timeZoneOffsetMinutes(new Date(guess), timeZone);
+  if (secondOffset === firstOffset) return new Date(guess);
+
+  const candidate = wallClock - secondOffset * 60000;
+  return new Date(timeZoneOffsetMinutes(new Date(candidate), timeZone) === secondOffset ? candidate : guess);
+}
+
+function validateScheduleWindow({ effectiveDate, effectiveTime, timeZone }, now = new Date()) {
+  const errors = [];
+  if (!isValidTimeZone(timeZone)) errors.push(`Unknown time zone: ${timeZone || '(none)'}`);
+  if (!isValidLocalDate(effectiveDate)) errors.push('Effective date must be YYYY-MM-DD');
+  if (!TIME_RE.test(effectiveTime || '')) errors.push('Effective time must be HH:mm');
+  if (errors.length > 0) return errors;
+
+  if (zonedTimeToUtc(effectiveDate, effectiveTime, timeZone).getTime() <= now.getTime()) {
+    errors.push('Go-live must be in the future');
+  }
+  return errors;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Lifecycle (mirrors src/engine/scheduledPublish.ts)
+// ════════════════════════════════════════════════════════════════════════
+
+function canCancelSchedule(status, claimStale = false) {
+  return status === 'scheduled' || status === 'held' || (status === 'publishing' && claimStale);
+}
+
+function canReschedule(status) {
+  return status === 'scheduled' || status === 'held' || status === 'failed';
+}
+
+function isClaimStale(schedule, now = new Date()) {
+  if (schedule.status !== 'publishing') return false;
+  return !schedule.claimedAt || schedule.claimedAt.toMillis() + PUBLISH_CLAIM_TIMEOUT_MS <= now.getTime();
+}
+
+function holdReasonFromPreflight(preflight) {
+  if (preflight.canPublish) return null;
+  const errors = preflight.issues.filter(i => i.type === 'error').map(i => i.message);
+  return errors.length > 0 ? errors.join('; ') : 'Publish preflight failed';
+}
+
+function statusAfterPublishError(attempts) {
+  return attempts >= MAX_PUBLISH_ATTEMPTS ? 'failed' : 'scheduled';
+}
+
+function isBlockingTaskReopened(before, after) {
+  const blocksNow = after.blocking && OPEN_TASK_STATUSES.includes(after.status);
+  const blockedBefore = before.blocking && OPEN_TASK_STATUSES.includes(before.status);
+  return blocksNow && !blockedBefore;
+}
+
+function linkedChangeSetIds(task) {
+  return [...new Set((task.links || []).map(l => l.changeSetId).filter(Boolean))];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════════════════════════════
+
+async function getMemberRole(orgId, userId) {
+  const memberDoc = await db.collection('orgs').doc(orgId).collection('members').doc(userId).get();
+  if (!memberDoc.exists || memberDoc.data().status !== 'active') return null;
+  return memberDoc.data().role;
+}
+
+async function requirePublisher(orgId, userId) {
+  const role = await getMemberRole(orgId, userId);
+  if (!role) {
+    throw new https.HttpsError('permission-denied', 'You are not a member of this organization');
+  }
+  if (!PUBLISH_ROLES.includes(role)) {
+    throw new https.HttpsError('permission-denied', 'Scheduling a publish requires admin or product_manager role');
+  }
+  return role;
+}
+
+async function logAuditEvent(orgId, eventData) {
+  await db.collection('orgs').doc(orgId).collection('auditLog').add({
+    ...eventData,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+}
+
+function scheduleRef(orgId, scheduleId) {
+  return db.collection('orgs').doc(orgId).collection('scheduledPublishes').doc(scheduleId);
+}
+
+/** History entries sit in an array, so they carry a concrete timestamp */
+function historyEvent(action, actorUserId, extra = {}) {
+  return { action, at: Timestamp.now(), actorUserId, ...extra };
+}
+
+function describeWindow(schedule) {
+  return `${schedule.effectiveDate} ${schedule.effectiveTime} (${schedule.timeZone})`;
+}
+
+/** Notify change set watchers, its owner and the scheduler's creator, minus the actor */
+async function notifySchedule(orgId, schedule, { type, title, body, actorUserId }) {
+  const target = { type: 'changeset', artifactId: schedule.changeSetId, changeSetId: schedule.changeSetId };
+  const csDoc = await db.doc(`orgs/${orgId}/changeSets/${schedule.changeSetId}`).get();
+  const ownerUserId = csDoc.exists ? csDoc.data().ownerUserId : null;
+
+  const recipients = new Set(await getWatcherUserIds(orgId, target));
+  if (ownerUserId) recipients.add(ownerUserId);
+  if (schedule.createdBy) recipients.add(schedule.createdBy);
+  recipients.delete(actorUserId);
+
+  const isScheduler = actorUserId === SCHEDULER_ACTOR;
+  await createNotifications(orgId, [...recipients], {
+    type,
+    target,
+    title,
+    body,
+    route: `/changesets/${schedule.changeSetId}`,
+    actorUserId,
+    actorDisplayName: isScheduler ? 'Publish scheduler' : await getMemberName(orgId, actorUserId),
+  });
+}
+
+/**
+ * Move a schedule to 'held' if it is still in `fromStatus`.
+ * Returns false when another writer got there first.
+ */
+async function holdSchedule(ref, reason, actorUserId, fromStatus = 'scheduled') {
+  const schedule = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists || snap.data().status !== fromStatus) return null;
+    tx.update(ref, {
+      status: 'held',
+      holdReason: reason,
+      claimedAt: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy: actorUserId,
+      history: FieldValue.arrayUnion(historyEvent('held', actorUserId, { note: reason })),
+    });
+    return { id: snap.id, ...snap.data() };
+  });
+  if (!schedule) return false;
+
+  await notifySchedule(schedule.orgId, schedule, {
+    type: 'publish_held',
+    title: `Scheduled publish of ${schedule.changeSetName} is on hold`,
+    body: `The go-live at ${describeWindow(schedule)} will not run: ${reason}`,
+    actorUserId,
+  });
+  return true;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// 1. Schedule / postpone / cancel
+// ════════════════════════════════════════════════════════════════════════
+
+const schedulePublish = onCall({ cors: true }, async (request) => {
+  const auth = requireAuth(request);
+  const { orgId, changeSetId, effectiveDate, effectiveTime = DEFAULT_EFFECTIVE_TIME, timeZone } = request.data;
+
+  if (!orgId || !changeSetId) {
+    throw new https.HttpsError('invalid-argument', 'orgId and changeSetId are required');
+  }
+  await requirePublisher(orgId, auth.uid);
+
+  const window = { effectiveDate, effectiveTime, timeZone };
+  const errors = validateScheduleWindow(window);
+  if (errors.length > 0) {
+    throw new https.HttpsError('invalid-argument', errors.join('; '));
+  }
+
+  const existing = await findActiveSchedule(orgId, changeSetId);
+  if (existing) {
+    throw new https.HttpsError(
+      'already-exists',
+      `Already scheduled for ${describeWindow(existing)}; postpone or cancel that schedule instead`
+    );
+  }
+
+  const holdReason = holdReasonFromPreflight(await evaluatePublishPreflight(orgId, changeSetId));
+  if (holdReason) {
+    throw new https.HttpsError('failed-precondition', `Cannot schedule publish: ${holdReason}`);
+  }
+
+  const csDoc = await db.doc(`orgs/${orgId}/changeSets/${changeSetId}`).get();
+  const runAt = Timestamp.fromDate(zonedTimeToUtc(effectiveDate, effectiveTime, timeZone));
+  const now = FieldValue.serverTimestamp();
+  const ref = db.collection('orgs').doc(orgId).collection('scheduledPublishes').doc();
+
+  const schedule = {
+    orgId,
+    changeSetId,
+    changeSetName: csDoc.data().name || '',
+    effectiveDate,
+    effectiveTime,
+    timeZone,
+    runAt,
+    status: 'scheduled',
+    attempts: 0,
+    history: [historyEvent('scheduled', auth.uid, { runAt })],
+    createdAt: now,
+    createdBy: auth.uid,
+    createdByName: await getMemberName(orgId, auth.uid),
+    updatedAt: now,
+    updatedBy: auth.uid,
+  };
+  await ref.set(schedule);
+
+  await logAuditEvent(orgId, {
+    actorUserId: auth.uid,
+    action: 'SCHEDULE_PUBLISH',
+    entityType: 'changeSet',
+    entityId: changeSetId,
+    changeSetId,
+    metadata: { scheduleId: ref.id, ...window, runAt: runAt.toDate().toISOString() },
+  });
+
+  await notifySchedule(orgId, schedule, {
+    type: 'publish_scheduled',
+    title: `${schedule.changeSetName} is scheduled to publish`,
+    body: `Goes live ${describeWindow(schedule)}`,
+    actorUserId: auth.uid,
+  });
+
+  return { success: true, scheduleId: ref.id, runAt: runAt.toDate().toISOString() };
+});
+
+/**
+ * Move a schedule to a new go-live. Also how a held or failed schedule is
+ * resumed: it goes back to 'scheduled' if preflight now passes, otherwise
+ * it stays held with the current reason.
+ */
+const postponeScheduledPublish = onCall({ cors: true }, async (request) => {
+  const auth = requireAuth(request);
+  const { orgId, scheduleId, effectiveDate, effectiveTime = DEFAULT_EFFECTIVE_TIME, timeZone, note } = request.data;
+
+  if (!orgId || !scheduleId) {
+    throw new https.HttpsError('invalid-argument', 'orgId and scheduleId are required');
+  }
+  await requirePublisher(orgId, auth.uid);
+
+  const window = { effectiveDate, effectiveTime, timeZone };
+  const errors = validateScheduleWindow(window);
+  if (errors.length > 0) {
+    throw new https.HttpsError('invalid-argument', errors.join('; '));
+  }
+
+  const ref = scheduleRef(orgId, scheduleId);
+  const current = await ref.get();
+  if (!current.exists) {
+    throw new https.HttpsError('not-found', 'Scheduled publish not found');
+  }
+
+  const holdReason = holdReasonFromPreflight(await evaluatePublishPreflight(orgId, current.data().changeSetId));
+  const runAt = Timestamp.fromDate(zonedTimeToUtc(effectiveDate, effectiveTime, timeZone));
+  const status = holdReason ? 'held' : 'scheduled';
+
+  const schedule = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const data = snap.data();
+    if (!canReschedule(data.status)) {
+      throw new https.HttpsError('failed-precondition', `Cannot reschedule a ${data.status} publish`);
+    }
+    tx.update(ref, {
+      ...window,
+      runAt,
+      status,
+      attempts: 0,
+      lastError: FieldValue.delete(),
+      holdReason: holdReason || FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy: auth.uid,
+      history: FieldValue.arrayUnion(historyEvent('postponed', auth.uid, {
+        runAt,
+        ...(note || holdReason ? { note: holdReason ? `Still on hold: ${holdReason}` : note } : {}),
+      })),
+    });
+    return { id: snap.id, ...data, ...window };
+  });
+
+  await logAuditEvent(orgId, {
+    actorUserId: auth.uid,
+    action: 'RESCHEDULE_PUBLISH',
+    entityType: 'changeSet',
+    entityId: schedule.changeSetId,
+    changeSetId: schedule.changeSetId,
+    metadata: { scheduleId, ...window, status },
+  });
+
+  await notifySchedule(orgId, schedule, {
+    type: 'publish_scheduled',
+    title: `${schedule.changeSetName} was rescheduled`,
+    body: holdReason
+      ? `New go-live ${describeWindow(schedule)}, on hold: ${holdReason}`
+      : `Now goes live ${describeWindow(schedule)}`,
+    actorUserId: auth.uid,
+  });
+
+  return { success: true, status, runAt: runAt.toDate().toISOString(), ...(holdReason ? { holdReason } : {}) };
+});
+
+const cancelScheduledPublish = onCall({ cors: true }, async (request) => {
+  const auth = requireAuth(request);
+  const { orgId, scheduleId, reason } = request.data;
+
+  if (!orgId || !scheduleId) {
+    throw new https.HttpsError('invalid-argument', 'orgId and scheduleId are required');
+  }
+  const role = await requirePublisher(orgId, auth.uid);
+
+  const ref = scheduleRef(orgId, scheduleId);
+  const schedule = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) {
+      throw new https.HttpsError('not-found', 'Scheduled publish not found');
+    }
+    const data = snap.data();
+    if (!canCancelSchedule(data.status, isClaimStale(data))) {
+      throw new https.HttpsError('failed-precondition', `Cannot cancel a ${data.status} publish`);
+    }
+    // A stalled run may still be mid-publish; only an admin can abandon it
+    if (data.status === 'publishing' && role !== 'admin') {
+      throw new https.HttpsError('permission-denied', 'Only an admin can cancel a stalled publish');
+    }
+    tx.update(ref, {
+      status: 'cancelled',
+      claimedAt: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy: auth.uid,
+      history: FieldValue.arrayUnion(historyEvent('cancelled', auth.uid, reason ? { note: reason } : {})),
+    });
+    return { id: snap.id, ...data };
+  });
+
+  await logAuditEvent(orgId, {
+    actorUserId: auth.uid,
+    action: 'CANCEL_SCHEDULED_PUBLISH',
+    entityType: 'changeSet',
+    entityId: schedule.changeSetId,
+    changeSetId: schedule.changeSetId,
+    metadata: { scheduleId, ...(reason ? { reason } : {}) },
+  });
+
+  await notifySchedule(orgId, schedule, {
+    type: 'publish_cancelled',
+    title: `Scheduled publish of ${schedule.changeSetName} was cancelled`,
+    body: reason || `The go-live at ${describeWindow(schedule)} was cancelled`,
+    actorUserId: auth.uid,
+  });
+
+  return { success: true };
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// 2. Runner
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Run one due schedule. Returns the summary bucket it landed in, or null
+ * if another run claimed it first.
+ *
+ * A schedule left in 'publishing' by a run that died is reclaimed once its
+ * claim goes stale. The publish batch also marks the schedule published, so
+ * a stale claim means nothing was published; it counts as a failed attempt.
+ */
+async function runScheduledPublish(ref, now = new Date()) {
+  // Claim: only one runner may move a schedule out of 'scheduled'
+  const claim = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return null;
+    const data = snap.data();
+    const reclaim = isClaimStale(data, now);
+    if (data.status !== 'scheduled' && !reclaim) return null;
+
+    const attempts = (data.attempts || 0) + (reclaim ? 1 : 0);
+    const schedule = { id: snap.id, ...data, attempts };
+    if (reclaim && statusAfterPublishError(attempts) === 'failed') {
+      tx.update(ref, {
+        status: 'failed',
+        attempts,
+        lastError: STALE_CLAIM_ERROR,
+        claimedAt: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+        updatedBy: SCHEDULER_ACTOR,
+        history: FieldValue.arrayUnion(historyEvent('failed', SCHEDULER_ACTOR, { note: STALE_CLAIM_ERROR })),
+      });
+      return { schedule, gaveUp: true };
+    }
+
+    tx.update(ref, {
+      status: 'publishing',
+      attempts,
+      claimedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy: SCHEDULER_ACTOR,
+      ...(reclaim && {
+        lastError: STALE_CLAIM_ERROR,
+        history: FieldValue.arrayUnion(historyEvent('retry', SCHEDULER_ACTOR, { note: STALE_CLAIM_ERROR })),
+      }),
+    });
+    return { schedule, gaveUp: false };
+  });
+  if (!claim) return null;
+
+  const { schedule } = claim;
+  if (claim.gaveUp) {
+    await notifyPublishFailed(schedule, STALE_CLAIM_ERROR);
+    return 'failed';
+  }
+
+  const { orgId, changeSetId } = schedule;
+
+  let preflight;
+  try {
+    preflight = await evaluatePublishPreflight(orgId, changeSetId);
+  } catch (err) {
+    preflight = { canPublish: false, issues: [{ type: 'error', message: err.message }] };
+  }
+  const holdReason = holdReasonFromPreflight(preflight);
+  if (holdReason) {
+    await holdSchedule(ref, holdReason, SCHEDULER_ACTOR, 'publishing');
+    return 'held';
+  }
+
+  try {
+    // Published on behalf of whoever scheduled it; onChangeSetStatusChange
+    // notifies watchers of the status change
+    await publishChangeSetCore(orgId, changeSetId, schedule.createdBy, {
+      auditMetadata: { scheduledPublishId: schedule.id },
+      beforeCommit: (batch, now, publishedItems) => batch.update(ref, {
+        status: 'published',
+        publishedAt: now,
+        publishedCount: publishedItems.length,
+        claimedAt: FieldValue.delete(),
+        updatedAt: now,
+        updatedBy: SCHEDULER_ACTOR,
+        history: FieldValue.arrayUnion(historyEvent('published', SCHEDULER_ACTOR)),
+      }),
+    });
+    return 'published';
+  } catch (err) {
+    const attempts = (schedule.attempts || 0) + 1;
+    const status = statusAfterPublishError(attempts);
+    logger.warn('Scheduled publish attempt failed', { orgId, changeSetId, scheduleId: schedule.id, attempts, error: err.message });
+
+    await ref.update({
+      status,
+      attempts,
+      lastError: err.message,
+      claimedAt: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy: SCHEDULER_ACTOR,
+      history: FieldValue.arrayUnion(historyEvent(status === 'failed' ? 'failed' : 'retry', SCHEDULER_ACTOR, { note: err.message })),
+    });
+
+    if (status === 'failed') {
+      await notifyPublishFailed({ ...schedule, attempts }, err.message);
+      return 'failed';
+    }
+    return 'retried';
+  }
+}
+
+async function notifyPublishFailed(schedule, message) {
+  await notifySchedule(schedule.orgId, schedule, {
+    type: 'publish_failed',
+    title: `Scheduled publish of ${schedule.changeSetName} failed`,
+    body: `Gave up after ${schedule.attempts} attempts: ${message}`,
+    actorUserId: SCHEDULER_ACTOR,
+  });
+}
+
+/**
+ * Publish every schedule whose go-live has passed, optionally limited to
+ * one org. Shared by the scheduled function and the callable runner.
+ */
+async function runDueScheduledPublishes({ now = new Date(), orgId } = {}) {
+  const source = orgId
+    ? db.collection('orgs').doc(orgId).collection('scheduledPublishes')
+    : db.collectionGroup('scheduledPublishes');
+  const snap = await source
+    .where('status', '==', 'scheduled')
+    .where('runAt', '<=', Timestamp.fromDate(now))
+    .orderBy('runAt')
+    .limit(RUN_BATCH_SIZE)
+    .get();
+  // Claims older than the timeout belong to runs that died mid-publish
+  const stale = await source
+    .where('status', '==', 'publishing')
+    .where('claimedAt', '<=', Timestamp.fromMillis(now.getTime() - PUBLISH_CLAIM_TIMEOUT_MS))
+    .orderBy('claimedAt')
+    .limit(RUN_BATCH_SIZE)
+    .get();
+
+  const summary = { due: snap.size, reclaimed: stale.size, published: 0, held: 0, retried: 0, failed: 0 };
+  for (const doc of [...stale.docs, ...snap.docs]) {
+    const outcome = await runScheduledPublish(doc.ref, now);
+    if (outcome) summary[outcome]++;
+  }
+  return summary;
+}
+
+const runScheduledPublishes = onSchedule(
+  { ...opts, schedule: 'every 5 minutes', timeZone: 'Etc/UTC' },
+  async () => {
+    const summary = await runDueScheduledPublishes();
+    if (summary.due > 0) logger.info('Scheduled publish run complete', summary);
+  }
+);
+
+// ════════════════════════════════════════════════════════════════════════
+// 3. Callable runner (admins, local emulator)
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Run the org's due schedules now. Under the Functions emulator `asOf`
+ * (ISO instant) stands in for the current time so a go-live can be
+ * exercised without waiting for it.
+ */
+const runScheduledPublishesNow = onCall({ cors: true }, async (request) => {
+  const auth = requireAuth(request);
+  const { orgId, asOf } = request.data;
+
+  if (!orgId) {
+    throw new https.HttpsError('invalid-argument', 'orgId is required');
+  }
+  if ((await getMemberRole(orgId, auth.uid)) !== 'admin') {
+    throw new https.HttpsError('permission-denied', 'Running the publish scheduler requires admin role');
+  }
+  if (asOf && process.env.FUNCTIONS_EMULATOR !== 'true') {
+    throw new https.HttpsError('invalid-argument', 'asOf is only accepted by the emulator');
+  }
+
+  const now = asOf ? new Date(asOf) : new Date();
+  if (Number.isNaN(now.getTime())) {
+    throw new https.HttpsError('invalid-argument', 'asOf must be an ISO date-time');
+  }
+
+  return { success: true, ...(await runDueScheduledPublishes({ now, orgId })) };
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// 4. Blocking task reopened → hold linked schedules
+// ════════════════════════════════════════════════════════════════════════
+
+const onBlockingTaskReopened = onDocumentUpdated(
+  { ...opts, document: 'orgs/{orgId}/tasks/{taskId}' },
+  async (event) => {
+    const { orgId } = event.params;
+    const before = event.data?.before?.data();
+    const after = event.data?.after?.data();
+    if (!before || !after || !isBlockingTaskReopened(before, after)) return;
+
+    const actorUserId = after.updatedBy || SCHEDULER_ACTOR;
+    for (const changeSetId of linkedChangeSetIds(after)) {
+      const snap = await db.collection('orgs').doc(orgId).collection('scheduledPublishes')
+        .where('changeSetId', '==', changeSetId)
+        .where('status', '==', 'scheduled')
+        .get();
+      for (const doc of snap.docs) {
+        await holdSchedule(doc.ref, `Blocking task reopened: ${after.title}`, actorUserId);
+      }
+    }
+  }
+);
+
+// ════════════════════════════════════════════════════════════════════════
+// Exports
+// ════════════════════════════════════════════════════════════════════════
+
+module.exports = {
+  schedulePublish,
+  postponeScheduledPublish,
+  cancelScheduledPublish,
+  runScheduledPublishes,
+  runScheduledPublishesNow,
+  onBlockingTaskReopened,
+  runDueScheduledPublishes,
+};
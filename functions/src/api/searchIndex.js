@@ -5,7 +5,16 @@
  * collection whenever an artifact or version is created/updated.
  *
  * Supported artifact types:
- *   product, coverage, form, rule, rateProgram, table, changeset, stateProgram
+ *   product, coverage, form, rule, rateProgram, table, changeset, stateProgram,
+ *   clause, dataDictionaryField, scenario, filingPackage, endorsement,
+ *   coverageTemplate
+ *
+ * Form and clause versions also carry `bodyTokens` from their wording, and
+ * every entry carries facet fields (productIds, states, status).
+ *
+ * The `reindexSearch` callable rebuilds the index for an org (backfill after
+ * new types are added, or repair after drift), reporting progress to
+ * `orgs/{orgId}/searchIndexJobs/{jobId}`.
  *
  * Token / prefix generation mirrors src/utils/searchTokens.ts (duplicated
  * here to avoid a shared-code dependency between functions/ and src/).
@@ -13,6 +22,9 @@
 
 const admin = require('firebase-admin');
 const { onDocumentWritten } = require('firebase-functions/v2/firestore');
+const { onCall } = require('firebase-functions/v2/https');
+const { https } = require('firebase-functions');
+const { requireAuth } = require('../middleware/auth');
 
 const db = admin.firestore();
 
@@ -23,6 +35,7 @@ const db = admin.firestore();
 const MAX_TOKENS   = 30;
 const MAX_PREFIXES = 80;
 const MAX_PFX_LEN  = 8;
+const MAX_BODY_TOKENS = 400;
 const SPLIT_RE     = /[\s\-_\/|:;,.()[\]{}<>'"!@#$%^&*+=~`]+/;
 const SHORT_CODE   = /^[A-Z0-9]{2}$/;
 
@@ -75,21 +88,60 @@ function buildVectors(...inputs) {
   return { tokens, prefixes };
 }
 
+const BODY_STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'any', 'all', 'this', 'that',
+  'with', 'from', 'which', 'will', 'shall', 'such', 'other', 'under', 'been',
+  'has', 'have', 'was', 'were', 'who', 'whom', 'its', 'our', 'you', 'your',
+  'into', 'than', 'then', 'there', 'these', 'those', 'each', 'only', 'also',
+  'may', 'must', 'does', 'did', 'can', 'their', 'them', 'they', 'what', 'when',
+  'where', 'would', 'could', 'upon', 'out', 'over', 'more', 'most', 'same',
+]);
+
+function generateBodyTokens(text) {
+  if (!text) return [];
+  const counts = new Map();
+  for (const part of String(text).split(SPLIT_RE)) {
+    const lower = part.toLowerCase();
+    if (lower.length <= 2 || BODY_STOP_WORDS.has(lower) || /^\d+$/.test(lower)) continue;
+    counts.set(lower, (counts.get(lower) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_BODY_TOKENS)
+    .map(([t]) => t);
+}
+
+/** Facet fields, always written so stale values are overwritten on merge. */
+function facets({ productIds, states, status } = {}) {
+  return {
+    productIds: (productIds || []).filter(Boolean),
+    states: (states || []).filter(Boolean),
+    status: status || null,
+  };
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // Upsert helper
 // ════════════════════════════════════════════════════════════════════════
 
 /**
- * Write (or delete) a search-index document.
+ * Write (or delete) a search-index document. Resolves to the docId.
  * docId convention: `{type}_{artifactId}` or `{type}_{artifactId}_{versionId}`
  */
 async function upsertIndex(orgId, docId, data) {
   const ref = db.collection(`orgs/${orgId}/searchIndex`).doc(docId);
   if (!data) {
     await ref.delete().catch(() => {}); // ignore "not found"
-    return;
+    return docId;
   }
   await ref.set({ ...data, updatedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+  return docId;
+}
+
+/** Read a parent doc's data (or {} when missing) for titles and facets. */
+async function parentData(path) {
+  const snap = await db.doc(path).get();
+  return snap.exists ? snap.data() : {};
 }
 
 // ════════════════════════════════════════════════════════════════════════
@@ -106,6 +158,7 @@ function indexProduct(orgId, productId, d) {
     tokens,
     prefixes,
     route: `/products/${productId}/overview`,
+    ...facets({ productIds: [productId], states: d.states || d.availableStates, status: d.status }),
   });
 }
 
@@ -121,6 +174,7 @@ function indexCoverage(orgId, productId, coverageId, d) {
     route: `/products/${productId}/coverages/${coverageId}`,
     parentId: productId,
     parentType: 'product',
+    ...facets({ productIds: [productId], states: d.states || d.availableStates, status: d.status }),
   });
 }
 
@@ -134,22 +188,25 @@ function indexForm(orgId, formId, d) {
     tokens,
     prefixes,
     route: `/forms/${formId}`,
+    ...facets({ productIds: d.productIds, status: d.archived ? 'archived' : 'active' }),
   });
 }
 
-function indexFormVersion(orgId, formId, versionId, d) {
-  const { tokens, prefixes } = buildVectors(d.editionDate, d.status, d.summary, `v${d.versionNumber}`);
+function indexFormVersion(orgId, formId, versionId, d, form = {}) {
+  const { tokens, prefixes } = buildVectors(form.formNumber, d.editionDate, d.status, d.summary, `v${d.versionNumber}`);
   return upsertIndex(orgId, `form_${formId}_${versionId}`, {
     type: 'form',
     artifactId: formId,
     versionId,
-    title: `${d.editionDate || 'Edition'} (v${d.versionNumber || '?'})`,
+    title: [form.formNumber, `${d.editionDate || 'Edition'} (v${d.versionNumber || '?'})`].filter(Boolean).join(' '),
     subtitle: [d.status, d.effectiveStart].filter(Boolean).join(' · '),
     tokens,
     prefixes,
+    bodyTokens: generateBodyTokens(d.extractedText),
     route: `/forms/${formId}/versions/${versionId}`,
     parentId: formId,
     parentType: 'form',
+    ...facets({ productIds: form.productIds, states: d.jurisdiction, status: d.status }),
   });
 }
 
@@ -163,6 +220,7 @@ function indexRule(orgId, ruleId, d) {
     tokens,
     prefixes,
     route: `/rules/${ruleId}`,
+    ...facets({ productIds: d.productId ? [d.productId] : d.productIds, states: d.stateCode ? [d.stateCode] : d.states, status: d.status }),
   });
 }
 
@@ -178,6 +236,7 @@ function indexRateProgram(orgId, rpId, d) {
     route: `/pricing/${d.productId || rpId}`,
     parentId: d.productId,
     parentType: 'product',
+    ...facets({ productIds: [d.productId], states: d.states, status: d.status }),
   });
 }
 
@@ -191,6 +250,7 @@ function indexTable(orgId, tableId, d) {
     tokens,
     prefixes,
     route: `/tables/${tableId}`,
+    ...facets({ productIds: d.productId ? [d.productId] : d.productIds, status: d.status }),
   });
 }
 
@@ -204,6 +264,7 @@ function indexChangeSet(orgId, csId, d) {
     tokens,
     prefixes,
     route: `/changesets/${csId}`,
+    ...facets({ productIds: d.productId ? [d.productId] : d.productIds, status: d.status }),
   });
 }
 
@@ -219,6 +280,114 @@ function indexStateProgram(orgId, productId, versionId, stateCode, d) {
     route: `/products/${productId}/states/${stateCode}`,
     parentId: productId,
     parentType: 'product',
+    ...facets({ productIds: [productId], states: [stateCode], status: d.status }),
+  });
+}
+
+function indexClause(orgId, clauseId, d) {
+  const { tokens, prefixes } = buildVectors(d.canonicalName, d.type, d.description, ...(d.tags || []));
+  return upsertIndex(orgId, `clause_${clauseId}`, {
+    type: 'clause',
+    artifactId: clauseId,
+    title: d.canonicalName || clauseId,
+    subtitle: [d.type, d.versionCount ? `${d.versionCount} versions` : null].filter(Boolean).join(' · '),
+    tokens,
+    prefixes,
+    route: `/clauses?clause=${clauseId}`,
+    ...facets({ productIds: d.productIds, status: d.archived ? 'archived' : 'active' }),
+  });
+}
+
+function indexClauseVersion(orgId, clauseId, versionId, d, clause = {}) {
+  const { tokens, prefixes } = buildVectors(clause.canonicalName, d.status, d.summary, d.sourceFormNumber, `v${d.versionNumber}`);
+  return upsertIndex(orgId, `clause_${clauseId}_${versionId}`, {
+    type: 'clause',
+    artifactId: clauseId,
+    versionId,
+    title: `${clause.canonicalName || 'Clause'} (v${d.versionNumber || '?'})`,
+    subtitle: [d.status, d.sourceFormNumber, d.effectiveStart].filter(Boolean).join(' · '),
+    tokens,
+    prefixes,
+    bodyTokens: generateBodyTokens(d.text),
+    route: `/clauses?clause=${clauseId}`,
+    parentId: clauseId,
+    parentType: 'clause',
+    ...facets({ productIds: clause.productIds, states: d.jurisdiction, status: d.status }),
+  });
+}
+
+function indexDataDictionaryField(orgId, fieldId, d) {
+  const { tokens, prefixes } = buildVectors(d.displayName, d.code, d.category, d.type, d.description);
+  return upsertIndex(orgId, `dataDictionaryField_${fieldId}`, {
+    type: 'dataDictionaryField',
+    artifactId: fieldId,
+    title: d.displayName || d.code || fieldId,
+    subtitle: [d.code, d.category, d.type].filter(Boolean).join(' · '),
+    tokens,
+    prefixes,
+    route: '/data-dictionary',
+    ...facets({ status: d.status }),
+  });
+}
+
+function indexScenario(orgId, scenarioId, d, rateProgram = {}) {
+  const { tokens, prefixes } = buildVectors(d.name, d.description, d.rateProgramName, d.stateCode, d.transactionType, ...(d.tags || []));
+  const productId = rateProgram.productId;
+  return upsertIndex(orgId, `scenario_${scenarioId}`, {
+    type: 'scenario',
+    artifactId: scenarioId,
+    title: d.name || scenarioId,
+    subtitle: [d.rateProgramName || rateProgram.name, d.stateCode, d.isRequired ? 'required' : null].filter(Boolean).join(' · '),
+    tokens,
+    prefixes,
+    route: productId ? `/pricing/${productId}` : '/products',
+    parentId: d.rateProgramId,
+    parentType: 'rateProgram',
+    ...facets({ productIds: [productId], states: [d.stateCode], status: d.isActive === false ? 'inactive' : 'active' }),
+  });
+}
+
+function indexFilingPackage(orgId, packageId, d) {
+  const { tokens, prefixes } = buildVectors(d.changeSetName, d.productName, d.stateName, d.stateCode, d.scope);
+  return upsertIndex(orgId, `filingPackage_${packageId}`, {
+    type: 'filingPackage',
+    artifactId: packageId,
+    title: [d.changeSetName, d.stateName || d.stateCode].filter(Boolean).join(' — ') || packageId,
+    subtitle: [d.productName, d.scope, d.status].filter(Boolean).join(' · '),
+    tokens,
+    prefixes,
+    route: '/filings',
+    parentId: d.changeSetId,
+    parentType: 'changeset',
+    ...facets({ productIds: [d.productId], states: [d.stateCode], status: d.status }),
+  });
+}
+
+function indexEndorsement(orgId, endorsementId, d) {
+  const { tokens, prefixes } = buildVectors(d.endorsementCode, d.title, d.endorsementType, d.description, ...(d.compatibilityTags || []));
+  return upsertIndex(orgId, `endorsement_${endorsementId}`, {
+    type: 'endorsement',
+    artifactId: endorsementId,
+    title: d.endorsementCode ? `${d.endorsementCode} — ${d.title || ''}`.trim() : (d.title || endorsementId),
+    subtitle: [d.endorsementType, ...(d.targetCoverageKinds || [])].filter(Boolean).join(' · '),
+    tokens,
+    prefixes,
+    route: '/coverage-library',
+    ...facets({ status: d.archived ? 'archived' : (d.isActive === false ? 'inactive' : 'active') }),
+  });
+}
+
+function indexCoverageTemplate(orgId, templateId, d) {
+  const { tokens, prefixes } = buildVectors(d.name, d.coverageCode, d.category, d.coverageKind, d.description, ...(d.tags || []));
+  return upsertIndex(orgId, `coverageTemplate_${templateId}`, {
+    type: 'coverageTemplate',
+    artifactId: templateId,
+    title: d.name || templateId,
+    subtitle: [d.coverageCode, d.category, d.coverageKind].filter(Boolean).join(' · '),
+    tokens,
+    prefixes,
+    route: '/coverage-library',
+    ...facets({ states: d.availableStates, status: d.isActive === false ? 'inactive' : 'active' }),
   });
 }
 
@@ -269,7 +438,8 @@ const onFormVersionWrite = onDocumentWritten(
     const { orgId, formId, versionId } = event.params;
     const after = event.data?.after?.data();
     if (!after) return upsertIndex(orgId, `form_${formId}_${versionId}`, null);
-    return indexFormVersion(orgId, formId, versionId, after);
+    const form = await parentData(`orgs/${orgId}/forms/${formId}`);
+    return indexFormVersion(orgId, formId, versionId, after, form);
   }
 );
 
@@ -328,6 +498,277 @@ const onStateProgramWrite = onDocumentWritten(
   }
 );
 
+// ── Clauses ──
+const onClauseWrite = onDocumentWritten(
+  { ...opts, document: 'orgs/{orgId}/clauses/{clauseId}' },
+  async (event) => {
+    const { orgId, clauseId } = event.params;
+    const after = event.data?.after?.data();
+    if (!after) return upsertIndex(orgId, `clause_${clauseId}`, null);
+    return indexClause(orgId, clauseId, after);
+  }
+);
+
+// ── Clause versions ──
+const onClauseVersionWrite = onDocumentWritten(
+  { ...opts, document: 'orgs/{orgId}/clauses/{clauseId}/versions/{versionId}' },
+  async (event) => {
+    const { orgId, clauseId, versionId } = event.params;
+    const after = event.data?.after?.data();
+    if (!after) return upsertIndex(orgId, `clause_${clauseId}_${versionId}`, null);
+    const clause = await parentData(`orgs/${orgId}/clauses/${clauseId}`);
+    return indexClauseVersion(orgId, clauseId, versionId, after, clause);
+  }
+);
+
+// ── Data dictionary fields ──
+const onDataDictionaryFieldWrite = onDocumentWritten(
+  { ...opts, document: 'orgs/{orgId}/dataDictionary/{fieldId}' },
+  async (event) => {
+    const { orgId, fieldId } = event.params;
+    const after = event.data?.after?.data();
+    if (!after) return upsertIndex(orgId, `dataDictionaryField_${fieldId}`, null);
+    return indexDataDictionaryField(orgId, fieldId, after);
+  }
+);
+
+// ── QA scenarios ──
+const onScenarioWrite = onDocumentWritten(
+  { ...opts, document: 'orgs/{orgId}/scenarios/{scenarioId}' },
+  async (event) => {
+    const { orgId, scenarioId } = event.params;
+    const after = event.data?.after?.data();
+    if (!after) return upsertIndex(orgId, `scenario_${scenarioId}`, null);
+    const rateProgram = after.rateProgramId
+      ? await parentData(`orgs/${orgId}/ratePrograms/${after.rateProgramId}`)
+      : {};
+    return indexScenario(orgId, scenarioId, after, rateProgram);
+  }
+);
+
+// ── Filing packages ──
+const onFilingPackageWrite = onDocumentWritten(
+  { ...opts, document: 'orgs/{orgId}/filingPackages/{packageId}' },
+  async (event) => {
+    const { orgId, packageId } = event.params;
+    const after = event.data?.after?.data();
+    if (!after) return upsertIndex(orgId, `filingPackage_${packageId}`, null);
+    return indexFilingPackage(orgId, packageId, after);
+  }
+);
+
+// ── Endorsements ──
+const onEndorsementWrite = onDocumentWritten(
+  { ...opts, document: 'orgs/{orgId}/endorsements/{endorsementId}' },
+  async (event) => {
+    const { orgId, endorsementId } = event.params;
+    const after = event.data?.after?.data();
+    if (!after) return upsertIndex(orgId, `endorsement_${endorsementId}`, null);
+    return indexEndorsement(orgId, endorsementId, after);
+  }
+);
+
+// ── Coverage templates ──
+const onCoverageTemplateWrite = onDocumentWritten(
+  { ...opts, document: 'orgs/{orgId}/coverageTemplates/{templateId}' },
+  async (event) => {
+    const { orgId, templateId } = event.params;
+    const after = event.data?.after?.data();
+    if (!after) return upsertIndex(orgId, `coverageTemplate_${templateId}`, null);
+    return indexCoverageTemplate(orgId, templateId, after);
+  }
+);
+
+// ════════════════════════════════════════════════════════════════════════
+// Reindex (backfill) callable
+// ════════════════════════════════════════════════════════════════════════
+
+/** List a collection's docs. */
+async function listDocs(path) {
+  const snap = await db.collection(path).get();
+  return snap.docs;
+}
+
+/**
+ * Per-type source walkers. Each resolves to a list of thunks; calling a
+ * thunk (re)writes one index entry and resolves to its docId.
+ */
+const REINDEXERS = {
+  product: async (orgId) => (await listDocs(`orgs/${orgId}/products`))
+    .map(p => () => indexProduct(orgId, p.id, p.data())),
+
+  coverage: async (orgId) => {
+    const products = await listDocs(`orgs/${orgId}/products`);
+    const perProduct = await Promise.all(products.map(async p =>
+      (await listDocs(`orgs/${orgId}/products/${p.id}/coverages`))
+        .map(c => () => indexCoverage(orgId, p.id, c.id, c.data()))));
+    return perProduct.flat();
+  },
+
+  form: async (orgId) => {
+    const forms = await listDocs(`orgs/${orgId}/forms`);
+    const perForm = await Promise.all(forms.map(async f => {
+      const form = f.data();
+      const versions = await listDocs(`orgs/${orgId}/forms/${f.id}/versions`);
+      return [
+        () => indexForm(orgId, f.id, form),
+        ...versions.map(v => () => indexFormVersion(orgId, f.id, v.id, v.data(), form)),
+      ];
+    }));
+    return perForm.flat();
+  },
+
+  rule: async (orgId) => (await listDocs(`orgs/${orgId}/rules`))
+    .map(r => () => indexRule(orgId, r.id, r.data())),
+
+  rateProgram: async (orgId) => (await listDocs(`orgs/${orgId}/ratePrograms`))
+    .map(r => () => indexRateProgram(orgId, r.id, r.data())),
+
+  table: async (orgId) => (await listDocs(`orgs/${orgId}/tables`))
+    .map(t => () => indexTable(orgId, t.id, t.data())),
+
+  changeset: async (orgId) => (await listDocs(`orgs/${orgId}/changeSets`))
+    .map(cs => () => indexChangeSet(orgId, cs.id, cs.data())),
+
+  stateProgram: async (orgId) => {
+    const products = await listDocs(`orgs/${orgId}/products`);
+    const perProduct = await Promise.all(products.map(async p => {
+      const versions = await listDocs(`orgs/${orgId}/products/${p.id}/versions`);
+      const perVersion = await Promise.all(versions.map(async v =>
+        (await listDocs(`orgs/${orgId}/products/${p.id}/versions/${v.id}/statePrograms`))
+          .map(sp => () => indexStateProgram(orgId, p.id, v.id, sp.id, sp.data()))));
+      return perVersion.flat();
+    }));
+    return perProduct.flat();
+  },
+
+  clause: async (orgId) => {
+    const clauses = await listDocs(`orgs/${orgId}/clauses`);
+    const perClause = await Promise.all(clauses.map(async c => {
+      const clause = c.data();
+      const versions = await listDocs(`orgs/${orgId}/clauses/${c.id}/versions`);
+      return [
+        () => indexClause(orgId, c.id, clause),
+        ...versions.map(v => () => indexClauseVersion(orgId, c.id, v.id, v.data(), clause)),
+      ];
+    }));
+    return perClause.flat();
+  },
+
+  dataDictionaryField: async (orgId) => (await listDocs(`orgs/${orgId}/dataDictionary`))
+    .map(f => () => indexDataDictionaryField(orgId, f.id, f.data())),
+
+  scenario: async (orgId) => {
+    const [scenarios, programs] = await Promise.all([
+      listDocs(`orgs/${orgId}/scenarios`),
+      listDocs(`orgs/${orgId}/ratePrograms`),
+    ]);
+    const programById = new Map(programs.map(rp => [rp.id, rp.data()]));
+    return scenarios.map(s => () =>
+      indexScenario(orgId, s.id, s.data(), programById.get(s.data().rateProgramId) || {}));
+  },
+
+  filingPackage: async (orgId) => (await listDocs(`orgs/${orgId}/filingPackages`))
+    .map(fp => () => indexFilingPackage(orgId, fp.id, fp.data())),
+
+  endorsement: async (orgId) => (await listDocs(`orgs/${orgId}/endorsements`))
+    .map(e => () => indexEndorsement(orgId, e.id, e.data())),
+
+  coverageTemplate: async (orgId) => (await listDocs(`orgs/${orgId}/coverageTemplates`))
+    .map(t => () => indexCoverageTemplate(orgId, t.id, t.data())),
+};
+
+const REINDEX_BATCH = 25;
+
+async function isOrgAdmin(orgId, userId) {
+  const memberDoc = await db.collection('orgs').doc(orgId).collection('members').doc(userId).get();
+  return memberDoc.exists && memberDoc.data().status === 'active' && memberDoc.data().role === 'admin';
+}
+
+/** Delete index entries of the given types that the walk did not touch. */
+async function removeStaleEntries(orgId, types, written) {
+  const col = db.collection(`orgs/${orgId}/searchIndex`);
+  const stale = [];
+  for (let i = 0; i < types.length; i += 10) {
+    const snap = await col.where('type', 'in', types.slice(i, i + 10)).select().get();
+    snap.docs.forEach(d => { if (!written.has(d.id)) stale.push(d.ref); });
+  }
+  for (let i = 0; i < stale.length; i += 400) {
+    const batch = db.batch();
+    stale.slice(i, i + 400).forEach(ref => batch.delete(ref));
+    await batch.commit();
+  }
+  return stale.length;
+}
+
+/**
+ * Rebuild the search index for an org (admins only).
+ *
+ * Walks every source collection for the requested types (all by default),
+ * rewrites each entry, then removes entries whose source is gone. Progress
+ * is written to `orgs/{orgId}/searchIndexJobs/{jobId}`; the client may pass
+ * its own jobId so it can subscribe before this call returns.
+ */
+const reindexSearch = onCall({ cors: true, region: REGION, memory: '1GiB', timeoutSeconds: 540 }, async (request) => {
+  const auth = requireAuth(request);
+  const { orgId, jobId, types } = request.data || {};
+
+  if (!orgId) {
+    throw new https.HttpsError('invalid-argument', 'orgId is required');
+  }
+  if (!(await isOrgAdmin(orgId, auth.uid))) {
+    throw new https.HttpsError('permission-denied', 'Only org admins can reindex search');
+  }
+
+  const wanted = Array.isArray(types) && types.length
+    ? types.filter(t => REINDEXERS[t])
+    : Object.keys(REINDEXERS);
+  if (wanted.length === 0) {
+    throw new https.HttpsError('invalid-argument', 'No indexable artifact types requested');
+  }
+
+  const jobs = db.collection(`orgs/${orgId}/searchIndexJobs`);
+  const jobRef = jobId ? jobs.doc(jobId) : jobs.doc();
+  const job = { status: 'running', types: wanted, total: 0, processed: 0, byType: {}, removed: 0 };
+  const save = (extra = {}) => jobRef.set({ ...job, ...extra }, { merge: true });
+
+  await save({
+    currentType: null,
+    error: null,
+    requestedBy: auth.uid,
+    startedAt: admin.firestore.FieldValue.serverTimestamp(),
+    completedAt: null,
+  });
+
+  try {
+    const written = new Set();
+    for (const type of wanted) {
+      const tasks = await REINDEXERS[type](orgId);
+      job.total += tasks.length;
+      job.byType[type] = 0;
+      await save({ currentType: type });
+
+      for (let i = 0; i < tasks.length; i += REINDEX_BATCH) {
+        const ids = await Promise.all(tasks.slice(i, i + REINDEX_BATCH).map(run => run()));
+        ids.forEach(id => written.add(id));
+        job.processed += ids.length;
+        job.byType[type] += ids.length;
+        await save();
+      }
+    }
+
+    job.removed = await removeStaleEntries(orgId, wanted, written);
+    job.status = 'completed';
+    await save({ currentType: null, completedAt: admin.firestore.FieldValue.serverTimestamp() });
+  } catch (err) {
+    job.status = 'failed';
+    await save({ error: err.message || String(err), completedAt: admin.firestore.FieldValue.serverTimestamp() });
+    throw new https.HttpsError('internal', `Reindex failed: ${err.message || err}`);
+  }
+
+  return { id: jobRef.id, ...job };
+});
+
 // ════════════════════════════════════════════════════════════════════════
 // Exports
 // ════════════════════════════════════════════════════════════════════════
@@ -342,4 +783,12 @@ module.exports = {
   onTableWrite,
   onChangeSetWrite,
   onStateProgramWrite,
+  onClauseWrite,
+  onClauseVersionWrite,
+  onDataDictionaryFieldWrite,
+  onScenarioWrite,
+  onFilingPackageWrite,
+  onEndorsementWrite,
+  onCoverageTemplateWrite,
+  reindexSearch,
 };
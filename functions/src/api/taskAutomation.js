@@ -106,14 +106,18 @@ const onChangeSetReview = onDocumentUpdated(
 
     const csName = after.name || `Change Set ${changeSetId.slice(0, 8)}`;
 
-    // Get items to determine required review roles
-    const itemsSnap = await db.collection(`orgs/${orgId}/changeSets/${changeSetId}/items`).get();
-    const requiredRoles = new Set();
-    itemsSnap.docs.forEach(doc => {
-      const item = doc.data();
-      const rules = APPROVAL_RULES[item.artifactType] || [];
-      rules.forEach(r => requiredRoles.add(r));
-    });
+    // Required review roles come from the approval slots the approval
+    // policy created at submission; fall back to the per-type table
+    const approvalsSnap = await db.collection(`orgs/${orgId}/changeSets/${changeSetId}/approvals`).get();
+    const requiredRoles = new Set(approvalsSnap.docs.map(doc => doc.data().roleRequired).filter(Boolean));
+    if (requiredRoles.size === 0) {
+      const itemsSnap = await db.collection(`orgs/${orgId}/changeSets/${changeSetId}/items`).get();
+      itemsSnap.docs.forEach(doc => {
+        const item = doc.data();
+        const rules = APPROVAL_RULES[item.artifactType] || [];
+        rules.forEach(r => requiredRoles.add(r));
+      });
+    }
 
     // Check for existing auto-review tasks to avoid duplicates
     const existingSnap = await db.collection(`orgs/${orgId}/tasks`)
@@ -7,6 +7,7 @@ const { onCall } = require('firebase-functions/v2/https');
 const { https } = require('firebase-functions');
 const admin = require('firebase-admin');
 const { requireAuth } = require('../middleware/auth');
+const { loadVersionContent, diffStructures } = require('../services/structuralDiff');
 
 const db = admin.firestore();
 
@@ -223,6 +224,7 @@ exports.cloneVersion = onCall({ cors: true }, async (request) => {
     status: 'draft',
     summary: summary || `Draft v${nextVersionNumber} (cloned from v${sourceData.versionNumber})`,
     clonedFrom: sourceVersionId,
+    clonedFromVersionId: sourceVersionId,
     createdAt: now,
     createdBy: auth.uid,
     updatedAt: now,
@@ -391,7 +393,7 @@ exports.compareVersions = onCall({ cors: true }, async (request) => {
   const rightData = rightDoc.data();
 
   // Compute diff (simplified - full diff happens client-side)
-  const metadataFields = ['versionNumber', 'status', 'createdAt', 'createdBy', 'updatedAt', 'updatedBy', 'effectiveStart', 'effectiveEnd', 'summary', 'notes', 'clonedFrom'];
+  const metadataFields = ['versionNumber', 'status', 'createdAt', 'createdBy', 'updatedAt', 'updatedBy', 'effectiveStart', 'effectiveEnd', 'summary', 'notes', 'clonedFrom', 'clonedFromVersionId'];
 
   const leftContent = { ...leftData };
   const rightContent = { ...rightData };
@@ -400,10 +402,16 @@ exports.compareVersions = onCall({ cors: true }, async (request) => {
     delete rightContent[f];
   });
 
+  const [leftStructure, rightStructure] = await Promise.all([
+    loadVersionContent(leftDoc, entityType),
+    loadVersionContent(rightDoc, entityType),
+  ]);
+
   return {
     success: true,
     left: { id: leftDoc.id, metadata: extractMetadata(leftData), content: leftContent },
     right: { id: rightDoc.id, metadata: extractMetadata(rightData), content: rightContent },
+    structural: diffStructures(entityType, leftStructure, rightStructure),
   };
 });
 
@@ -0,0 +1,453 @@
+/**
+ * Structural Diff Service
+ *
+ * Schema-aware comparison of two snapshots of a versioned entity: keyed
+ * arrays matched by key, condition nodes tracked across groups, table cells
+ * compared by `row|column` key whether storage is sparse or dense.
+ *
+ * Mirrors the diff half of src/engine/structuralDiff.ts and the schemas in
+ * src/types/structuralDiff.ts; keep them in sync.
+ */
+
+const STRUCTURAL_DIFF_METADATA_FIELDS = [
+  'id', 'versionNumber', 'status',
+  'createdAt', 'createdBy', 'updatedAt', 'updatedBy',
+  'publishedAt', 'publishedBy',
+  'summary', 'notes',
+  'clonedFrom', 'clonedFromVersionId', 'restoredFromVersionId',
+];
+
+const STRUCTURAL_DIFF_NESTED_IGNORED = ['id', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy'];
+
+const STRUCTURAL_DIFF_SCHEMAS = {
+  product: {
+    labels: { name: 'Name', description: 'Description', lineOfBusiness: 'Line of business', states: 'States' },
+  },
+  coverage: {
+    labels: {
+      limitOptionSets: 'Limit option sets',
+      'limitOptionSets.options': 'Options',
+      'limitOptionSets.sublimits': 'Sublimits',
+      deductibleOptionSets: 'Deductible option sets',
+      'deductibleOptionSets.options': 'Options',
+      states: 'States',
+    },
+    collections: {
+      limitOptionSets: {},
+      'limitOptionSets.options': { labelField: 'label', ordered: false },
+      'limitOptionSets.sublimits': { labelField: 'label', ordered: false },
+      deductibleOptionSets: {},
+      'deductibleOptionSets.options': { labelField: 'label', ordered: false },
+    },
+  },
+  form: {
+    ignore: ['formId', 'storagePath', 'extractedText', 'indexingStatus'],
+    labels: { editionDate: 'Edition date', jurisdiction: 'Jurisdictions', checksum: 'PDF file' },
+  },
+  rule: {
+    labels: {
+      conditions: 'Conditions',
+      'conditions.fieldCode': 'Field',
+      'conditions.operator': 'Operator',
+      'conditions.value': 'Value',
+      'conditions.valueEnd': 'Upper bound',
+      'conditions.compareToField': 'Compare to field',
+      outcome: 'Outcome',
+      scope: 'Scope',
+      'scope.stateCode': 'State',
+    },
+    conditionTrees: { conditions: { children: 'conditions' } },
+  },
+  rateProgram: {
+    ignore: ['stepsHash', 'rateProgramId', 'steps.rateProgramVersionId'],
+    labels: {
+      steps: 'Rating steps',
+      'steps.order': 'Order',
+      'steps.outputFieldCode': 'Output field',
+      'steps.factorValue': 'Factor value',
+      'steps.constantValue': 'Constant value',
+      'steps.tableVersionId': 'Table version',
+      'steps.lookupDimensions': 'Lookup dimensions',
+      'steps.roundingMode': 'Rounding',
+      'steps.roundingPrecision': 'Rounding precision',
+      'steps.shortRateTable': 'Short-rate table',
+    },
+    collections: {
+      steps: { ordered: false },
+      'steps.lookupDimensions': { key: 'dimensionName', labelField: 'dimensionName' },
+    },
+  },
+  table: {
+    ignore: ['tableId', 'stats'],
+    labels: { dimensions: 'Dimensions', 'dimensions.values': 'Values', cellStorage: 'Cells', 'cellStorage.defaultValue': 'Default value' },
+    collections: { dimensions: {} },
+    cellTables: { cellStorage: { dimensionsField: 'dimensions' } },
+  },
+  dataDictionary: {
+    labels: { displayName: 'Display name', allowedValues: 'Allowed values' },
+  },
+};
+
+const LABEL_FIELDS = ['name', 'label', 'displayName', 'code'];
+
+// ════════════════════════════════════════════════════════════════════════
+// Value helpers
+// ════════════════════════════════════════════════════════════════════════
+
+function isPlainObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function clonePlain(value) {
+  if (Array.isArray(value)) return value.map(clonePlain);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clonePlain(v)]));
+  }
+  return value;
+}
+
+function sameValue(a, b) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function humanizeField(field) {
+  const words = field.replace(/_/g, ' ').replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** A version's `data` payload, or the document without its version metadata */
+function versionContent(version) {
+  if (isPlainObject(version.data)) return version.data;
+  return Object.fromEntries(Object.entries(version).filter(([k]) => !STRUCTURAL_DIFF_METADATA_FIELDS.includes(k)));
+}
+
+function formatStructuralPath(path) {
+  return path.map((seg, i) => (typeof seg === 'string' ? `${i === 0 ? '' : '.'}${seg}` : `[${seg.key}]`)).join('');
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Schema lookup
+// ════════════════════════════════════════════════════════════════════════
+
+const joinPattern = (pattern, field) => (pattern ? `${pattern}.${field}` : field);
+
+function isIgnored(schema, pattern, field) {
+  if (STRUCTURAL_DIFF_NESTED_IGNORED.includes(field)) return true;
+  return (schema.ignore || []).includes(joinPattern(pattern, field));
+}
+
+const fieldLabel = (schema, pattern, field) =>
+  (schema.labels && schema.labels[joinPattern(pattern, field)]) || humanizeField(field);
+
+function keyedCollection(schema, pattern, ...arrays) {
+  const configured = schema.collections && schema.collections[pattern];
+  const keyField = (configured && configured.key) || 'id';
+  if (!configured && arrays.flat().length === 0) return null;
+
+  for (const array of arrays) {
+    const keys = new Set();
+    for (const el of array) {
+      if (!isPlainObject(el)) return null;
+      const key = el[keyField];
+      if (typeof key !== 'string' && typeof key !== 'number') return null;
+      if (keys.has(String(key))) return null;
+      keys.add(String(key));
+    }
+  }
+  return configured || {};
+}
+
+function elementLabel(el, coll) {
+  const keyField = coll.key || 'id';
+  const fields = coll.labelField ? [coll.labelField] : LABEL_FIELDS;
+  const named = fields.map(f => el[f]).find(v => typeof v === 'string' && v !== '');
+  return named !== undefined ? named : String(el[keyField]);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Condition trees
+// ════════════════════════════════════════════════════════════════════════
+
+function flattenTree(root, children) {
+  if (!isPlainObject(root)) return null;
+  const nodes = new Map();
+  const visit = (node, parentKey, index) => {
+    if (!isPlainObject(node) || typeof node.id !== 'string' || nodes.has(node.id)) return false;
+    nodes.set(node.id, { node, parentKey, index });
+    const kids = node[children];
+    if (kids === undefined) return true;
+    return Array.isArray(kids) && kids.every((kid, i) => visit(kid, node.id, i));
+  };
+  return visit(root, null, 0) ? nodes : null;
+}
+
+function conditionLabel(node) {
+  if (node.kind === 'group' || (Array.isArray(node.conditions) && !node.fieldCode)) {
+    return `${node.operator || 'AND'} group`;
+  }
+  const value = Array.isArray(node.value) ? node.value.join(', ') : String(node.value ?? '');
+  return [node.fieldCode, node.operator, value].filter(Boolean).join(' ');
+}
+
+function withNewChildren(node, children, existing) {
+  const kids = node[children];
+  if (!Array.isArray(kids)) return clonePlain(node);
+  return {
+    ...clonePlain(node),
+    [children]: kids
+      .filter(kid => isPlainObject(kid) && !existing.has(kid.id))
+      .map(kid => withNewChildren(kid, children, existing)),
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Cell tables
+// ════════════════════════════════════════════════════════════════════════
+
+function sortedDimensions(dims) {
+  if (!Array.isArray(dims)) return [];
+  return [...dims].sort((a, b) => (a.position || 0) - (b.position || 0));
+}
+
+function denseKeys(dims) {
+  if (dims.length === 0) return [];
+  return dims.slice(1).reduce(
+    (keys, dim) => keys.flatMap(prefix => (dim.values || []).map(v => `${prefix}|${v}`)),
+    [...(dims[0].values || [])],
+  );
+}
+
+function readCells(storage, dims) {
+  const cells = new Map();
+  if (!isPlainObject(storage)) return cells;
+  if (storage.mode === 'dense' && Array.isArray(storage.denseValues)) {
+    denseKeys(dims).forEach((key, i) => {
+      const value = storage.denseValues[i];
+      if (value !== null && value !== undefined) cells.set(key, { value });
+    });
+    return cells;
+  }
+  if (isPlainObject(storage.cells)) {
+    for (const [key, cell] of Object.entries(storage.cells)) {
+      if (!isPlainObject(cell)) continue;
+      if ((cell.value === null || cell.value === undefined) && !cell.note) continue;
+      cells.set(key, { value: cell.value ?? null, ...(cell.note ? { note: cell.note } : {}) });
+    }
+  }
+  return cells;
+}
+
+function cellLabel(key, dims) {
+  return key.split('|').map((v, i) => (dims[i] && dims[i].name ? `${dims[i].name} ${v}` : v)).join(' × ');
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Diff
+// ════════════════════════════════════════════════════════════════════════
+
+const fieldLoc = (w, at, field) => ({
+  path: [...at.path, field],
+  pattern: joinPattern(at.pattern, field),
+  labels: [...at.labels, fieldLabel(w.schema, at.pattern, field)],
+});
+
+const keyLoc = (at, key, label) => ({
+  path: [...at.path, { key }],
+  pattern: at.pattern,
+  labels: [...at.labels, label],
+});
+
+function push(w, at, kind, target, extra = {}) {
+  w.out.push({
+    kind,
+    target,
+    path: at.path,
+    pathText: formatStructuralPath(at.path),
+    label: at.labels.join(' › '),
+    section: at.labels[0] || '',
+    ...extra,
+  });
+}
+
+function diffObject(w, before, after, at) {
+  const keys = [...Object.keys(before), ...Object.keys(after).filter(k => !(k in before))];
+  for (const key of keys) {
+    if (isIgnored(w.schema, at.pattern, key)) continue;
+    diffValue(w, before[key], after[key], fieldLoc(w, at, key));
+  }
+}
+
+function diffValue(w, before, after, at) {
+  if (before === undefined && after === undefined) return;
+
+  const tree = w.schema.conditionTrees && w.schema.conditionTrees[at.pattern];
+  if (tree && diffTree(w, before, after, at, tree)) return;
+
+  const table = w.schema.cellTables && w.schema.cellTables[at.pattern];
+  if (table) {
+    diffCells(w, before, after, at, table);
+    return;
+  }
+
+  if (before === undefined) {
+    push(w, at, 'added', 'field', { after });
+  } else if (after === undefined) {
+    push(w, at, 'removed', 'field', { before });
+  } else if (isPlainObject(before) && isPlainObject(after)) {
+    diffObject(w, before, after, at);
+  } else if (Array.isArray(before) && Array.isArray(after)) {
+    const coll = keyedCollection(w.schema, at.pattern, before, after);
+    if (coll) diffKeyed(w, before, after, at, coll);
+    else if (!sameValue(before, after)) push(w, at, 'modified', 'field', { before, after });
+  } else if (!sameValue(before, after)) {
+    push(w, at, 'modified', 'field', { before, after });
+  }
+}
+
+function diffKeyed(w, before, after, at, coll) {
+  const keyField = coll.key || 'id';
+  const keyOf = el => String(el[keyField]);
+  const beforeByKey = new Map(before.map(el => [keyOf(el), el]));
+  const afterByKey = new Map(after.map(el => [keyOf(el), el]));
+
+  after.forEach((el, index) => {
+    const key = keyOf(el);
+    const old = beforeByKey.get(key);
+    const loc = keyLoc(at, key, elementLabel(el, coll));
+    if (!old) push(w, loc, 'added', 'element', { after: el, to: { parentKey: null, index } });
+    else diffObject(w, old, el, loc);
+  });
+
+  before.forEach((el, index) => {
+    const key = keyOf(el);
+    if (!afterByKey.has(key)) {
+      push(w, keyLoc(at, key, elementLabel(el, coll)), 'removed', 'element', { before: el, from: { parentKey: null, index } });
+    }
+  });
+
+  if (coll.ordered !== false) {
+    const beforeOrder = before.map(keyOf).filter(k => afterByKey.has(k));
+    const afterOrder = after.map(keyOf).filter(k => beforeByKey.has(k));
+    if (!sameValue(beforeOrder, afterOrder)) push(w, at, 'reordered', 'element', { before: beforeOrder, after: afterOrder });
+  }
+}
+
+function diffTree(w, before, after, at, tree) {
+  const { children } = tree;
+  if (before === undefined || after === undefined) return false;
+  const beforeNodes = flattenTree(before, children);
+  const afterNodes = flattenTree(after, children);
+  if (!beforeNodes || !afterNodes) return false;
+
+  const parentLabel = (nodes, key) => {
+    const parent = key ? nodes.get(key) : undefined;
+    return parent ? conditionLabel(parent.node) : null;
+  };
+  const ownFields = node => Object.fromEntries(Object.entries(node).filter(([k]) => k !== children));
+
+  for (const [key, entry] of afterNodes) {
+    const old = beforeNodes.get(key);
+    const loc = keyLoc(at, key, conditionLabel(entry.node));
+    if (!old) {
+      if (entry.parentKey && !beforeNodes.has(entry.parentKey)) continue; // inside an added group
+      push(w, loc, 'added', 'condition', {
+        after: withNewChildren(entry.node, children, beforeNodes),
+        to: { parentKey: entry.parentKey, index: entry.index },
+      });
+      continue;
+    }
+    diffObject(w, ownFields(old.node), ownFields(entry.node), loc);
+    if (old.parentKey !== entry.parentKey) {
+      push(w, loc, 'moved', 'condition', {
+        before: parentLabel(beforeNodes, old.parentKey),
+        after: parentLabel(afterNodes, entry.parentKey),
+        from: { parentKey: old.parentKey, index: old.index },
+        to: { parentKey: entry.parentKey, index: entry.index },
+      });
+    }
+  }
+
+  for (const [key, entry] of beforeNodes) {
+    if (afterNodes.has(key)) continue;
+    if (entry.parentKey && !afterNodes.has(entry.parentKey)) continue; // inside a removed group
+    push(w, keyLoc(at, key, conditionLabel(entry.node)), 'removed', 'condition', {
+      before: entry.node,
+      from: { parentKey: entry.parentKey, index: entry.index },
+    });
+  }
+
+  for (const [key, entry] of afterNodes) {
+    const old = beforeNodes.get(key);
+    if (!old || !Array.isArray(old.node[children]) || !Array.isArray(entry.node[children])) continue;
+    const stays = id => (beforeNodes.get(id) || {}).parentKey === key && (afterNodes.get(id) || {}).parentKey === key;
+    const ids = node => node[children].map(kid => kid.id).filter(stays);
+    const beforeOrder = ids(old.node);
+    const afterOrder = ids(entry.node);
+    if (!sameValue(beforeOrder, afterOrder)) {
+      push(w, keyLoc(at, key, conditionLabel(entry.node)), 'reordered', 'condition', { before: beforeOrder, after: afterOrder });
+    }
+  }
+  return true;
+}
+
+function diffCells(w, before, after, at, table) {
+  const beforeDims = sortedDimensions(w.roots.before[table.dimensionsField]);
+  const afterDims = sortedDimensions(w.roots.after[table.dimensionsField]);
+  const beforeCells = readCells(before, beforeDims);
+  const afterCells = readCells(after, afterDims);
+
+  for (const [key, cell] of afterCells) {
+    const old = beforeCells.get(key);
+    const loc = keyLoc(at, key, cellLabel(key, afterDims));
+    if (!old) push(w, loc, 'added', 'cell', { after: cell });
+    else if (!sameValue(old, cell)) push(w, loc, 'modified', 'cell', { before: old, after: cell });
+  }
+  for (const [key, cell] of beforeCells) {
+    if (!afterCells.has(key)) push(w, keyLoc(at, key, cellLabel(key, beforeDims)), 'removed', 'cell', { before: cell });
+  }
+
+  const defaults = [before, after].map(s => (isPlainObject(s) ? s.defaultValue : undefined));
+  diffValue(w, defaults[0], defaults[1], fieldLoc(w, at, 'defaultValue'));
+}
+
+/** Structural changes from `before` to `after`; pass null for schema-less comparison */
+function diffStructures(entityType, before, after) {
+  const w = {
+    schema: (entityType && STRUCTURAL_DIFF_SCHEMAS[entityType]) || {},
+    roots: { before: before || {}, after: after || {} },
+    out: [],
+  };
+  diffObject(w, w.roots.before, w.roots.after, { path: [], pattern: '', labels: [] });
+  const counts = { added: 0, removed: 0, modified: 0, moved: 0, reordered: 0 };
+  for (const c of w.out) counts[c.kind]++;
+  return { entityType: entityType || null, changes: w.out, counts, isIdentical: w.out.length === 0 };
+}
+
+/**
+ * Diffable content of a version snapshot. Rate program steps live in the
+ * version's `steps` subcollection, ordered by `order`.
+ */
+async function loadVersionContent(versionDoc, entityType) {
+  const content = versionContent({ id: versionDoc.id, ...versionDoc.data() });
+  if (entityType !== 'rateProgram') return content;
+  const stepsSnap = await versionDoc.ref.collection('steps').orderBy('order').get();
+  return { ...content, steps: stepsSnap.docs.map(d => ({ id: d.id, ...d.data() })) };
+}
+
+/** e.g. `3 changed, 1 added, 1 moved` */
+function summarizeStructuralDiff(diff) {
+  const labels = { modified: 'changed', added: 'added', removed: 'removed', moved: 'moved', reordered: 'reordered' };
+  const parts = Object.keys(labels)
+    .filter(kind => diff.counts[kind] > 0)
+    .map(kind => `${diff.counts[kind]} ${labels[kind]}`);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
+
+module.exports = {
+  STRUCTURAL_DIFF_SCHEMAS,
+  versionContent,
+  loadVersionContent,
+  diffStructures,
+  summarizeStructuralDiff,
+};
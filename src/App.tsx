@@ -159,6 +159,18 @@ const ClauseBrowser = createOptimizedLazyComponent(
   () => import('./pages/ClauseBrowser'),
   { chunkName: 'ClauseBrowser', fallback: <LoadingSpinner /> }
 );
+const FormViewer = createOptimizedLazyComponent(
+  () => import('./pages/FormViewer'),
+  { chunkName: 'FormViewer', fallback: <LoadingSpinner /> }
+);
+const SearchPage = createOptimizedLazyComponent(
+  () => import('./pages/SearchPage'),
+  { chunkName: 'SearchPage', fallback: <LoadingSpinner /> }
+);
+const ClauseHarvest = createOptimizedLazyComponent(
+  () => import('./pages/ClauseHarvest'),
+  { chunkName: 'ClauseHarvest', fallback: <LoadingSpinner /> }
+);
 const CompareEditions = createOptimizedLazyComponent(
   () => import('./pages/CompareEditions'),
   { chunkName: 'CompareEditions', fallback: <LoadingSpinner /> }
@@ -203,6 +215,14 @@ const AdminMembers = createOptimizedLazyComponent(
   () => import('./pages/AdminMembers'),
   { chunkName: 'AdminMembers', fallback: <LoadingSpinner /> }
 );
+const ApprovalPolicyPage = createOptimizedLazyComponent(
+  () => import('./pages/ApprovalPolicyPage'),
+  { chunkName: 'ApprovalPolicyPage', fallback: <LoadingSpinner /> }
+);
+const ReleaseCalendar = createOptimizedLazyComponent(
+  () => import('./pages/ReleaseCalendar'),
+  { chunkName: 'ReleaseCalendar', fallback: <LoadingSpinner /> }
+);
 const ChangeSets = createOptimizedLazyComponent(
   () => import('./pages/ChangeSets'),
   { chunkName: 'ChangeSets', fallback: <LoadingSpinner /> }
@@ -579,6 +599,16 @@ const HistoryWrapper: React.FC = () => {
             </RequireAuth>
           }
         />
+        <Route
+          path="/admin/approval-policy"
+          element={
+            <RequireAuth>
+              <Suspense fallback={<LoadingSpinner />}>
+                <ApprovalPolicyPage />
+              </Suspense>
+            </RequireAuth>
+          }
+        />
 
         {/* Change Sets - Governed approval/publish workflow */}
         <Route
@@ -601,6 +631,16 @@ const HistoryWrapper: React.FC = () => {
             </RequireAuth>
           }
         />
+        <Route
+          path="/releases"
+          element={
+            <RequireAuth>
+              <Suspense fallback={<LoadingSpinner />}>
+                <ReleaseCalendar />
+              </Suspense>
+            </RequireAuth>
+          }
+        />
 
         {/* Coverage Library – Templates & Endorsements */}
         <Route
@@ -686,6 +726,18 @@ const HistoryWrapper: React.FC = () => {
           }
         />
 
+        {/* Clause Harvest – review near-duplicate clauses found across forms */}
+        <Route
+          path="/clauses/harvest"
+          element={
+            <RequireAuth>
+              <Suspense fallback={<LoadingSpinner />}>
+                <ClauseHarvest />
+              </Suspense>
+            </RequireAuth>
+          }
+        />
+
         {/* Redline Compare – section-aware diff between form editions */}
         <Route
           path="/forms/:formId/compare"
@@ -710,6 +762,30 @@ const HistoryWrapper: React.FC = () => {
           }
         />
 
+        {/* Form Viewer – PDF page with search hits and the cited anchor highlighted */}
+        <Route
+          path="/forms/:formId/versions/:versionId/view"
+          element={
+            <RequireAuth>
+              <Suspense fallback={<LoadingSpinner />}>
+                <FormViewer />
+              </Suspense>
+            </RequireAuth>
+          }
+        />
+
+        {/* Policy Text Search – hybrid search over form wording, clauses, coverages */}
+        <Route
+          path="/search"
+          element={
+            <RequireAuth>
+              <Suspense fallback={<LoadingSpinner />}>
+                <SearchPage />
+              </Suspense>
+            </RequireAuth>
+          }
+        />
+
         {/* Analytics Dashboard – readiness, cycle time, blockers */}
         <Route
           path="/analytics"
@@ -0,0 +1,248 @@
+/**
+ * Approval Policy Engine – Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  defaultApprovalPolicy,
+  validateApprovalPolicy,
+  evaluateApprovalCondition,
+  describeApprovalGroup,
+  evaluateApprovalPolicy,
+  extractItemStates,
+  maxPremiumImpactPct,
+  requirementsFromApprovals,
+  summarizeApprovalProgress,
+  changeSetAuthors,
+  checkApprovalEligibility,
+} from '../engine/approvalPolicy';
+import type { ApprovalPolicy, ApprovalPolicyInput, ApprovalRequirement } from '../types/approvalPolicy';
+import type { ChangeSetApproval } from '../types/changeSet';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+const policy: ApprovalPolicy = {
+  version: 1,
+  priorApprovalStates: ['NY', 'CA'],
+  segregation: { noSelfApproval: false, distinctApprovers: false },
+  rules: [
+    {
+      id: 'rates', name: 'Rate changes need an actuary', enabled: true,
+      when: { op: 'AND', conditions: [{ fact: 'item.artifactType', operator: 'in', value: ['rateProgram', 'table'] }] },
+      require: { role: 'actuary' },
+    },
+    {
+      id: 'prior-forms', name: 'Prior-approval form changes', enabled: true,
+      when: {
+        op: 'AND',
+        conditions: [
+          { fact: 'item.artifactType', operator: 'equals', value: 'form' },
+          { fact: 'item.priorApproval', operator: 'equals', value: true },
+        ],
+      },
+      require: { role: 'compliance' },
+    },
+    {
+      id: 'big-impact', name: 'Large premium impact', enabled: true,
+      when: { op: 'AND', conditions: [{ fact: 'changeSet.premiumImpactPct', operator: 'gt', value: 5 }] },
+      require: { role: 'product_manager', quorum: 2, noSelfApproval: true },
+    },
+    {
+      id: 'off', name: 'Disabled', enabled: false,
+      when: { op: 'AND', conditions: [] },
+      require: { role: 'admin' },
+    },
+  ],
+};
+
+function input(items: ApprovalPolicyInput['items'], premiumImpactPct: number | null = null): ApprovalPolicyInput {
+  return { itemCount: items.length, items, premiumImpactPct };
+}
+
+const rate = { id: 'i1', name: 'HO Rates', artifactType: 'rateProgram', action: 'update', states: ['TX'] };
+const nyForm = { id: 'i2', name: 'HO 00 03', artifactType: 'form', action: 'update', states: ['NY'] };
+const txForm = { id: 'i3', name: 'HO 04 90', artifactType: 'form', action: 'update', states: ['TX'] };
+
+function approval(partial: Partial<ChangeSetApproval>): ChangeSetApproval {
+  return {
+    id: 'a', changeSetId: 'cs', roleRequired: 'product_manager', status: 'pending',
+    createdAt: null as unknown as ChangeSetApproval['createdAt'], ...partial,
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Validation & defaults
+// ════════════════════════════════════════════════════════════════════════
+
+describe('validateApprovalPolicy()', () => {
+  it('accepts the default and example policies', () => {
+    expect(validateApprovalPolicy(defaultApprovalPolicy())).toEqual([]);
+    expect(validateApprovalPolicy(policy)).toEqual([]);
+  });
+
+  it('reports unknown facts, bad roles, quorums and duplicate ids', () => {
+    const errors = validateApprovalPolicy({
+      ...policy,
+      rules: [
+        { ...policy.rules[0], when: { op: 'AND', conditions: [{ fact: 'item.color' as never, operator: 'equals', value: 'x' }] } },
+        { ...policy.rules[0], require: { role: 'ceo' as never, quorum: 0 } },
+      ],
+    });
+    expect(errors.some(e => e.includes('unknown fact "item.color"'))).toBe(true);
+    expect(errors.some(e => e.includes('require.role'))).toBe(true);
+    expect(errors.some(e => e.includes('quorum'))).toBe(true);
+    expect(errors.some(e => e.includes('duplicate id'))).toBe(true);
+  });
+});
+
+describe('defaultApprovalPolicy()', () => {
+  it('reproduces the fixed per-artifact-type role table', () => {
+    const reqs = evaluateApprovalPolicy(defaultApprovalPolicy(), input([
+      { ...rate, artifactType: 'rule' },
+    ]));
+    expect(reqs.map(r => r.role).sort()).toEqual(['compliance', 'underwriter']);
+    expect(reqs.every(r => r.quorum === 1 && !r.noSelfApproval)).toBe(true);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Conditions
+// ════════════════════════════════════════════════════════════════════════
+
+describe('evaluateApprovalCondition()', () => {
+  it('matches list facts by any element', () => {
+    const facts = { 'changeSet.states': ['CA', 'TX'] };
+    expect(evaluateApprovalCondition({ fact: 'changeSet.states', operator: 'in', value: ['NY', 'TX'] }, facts)).toBe(true);
+    expect(evaluateApprovalCondition({ fact: 'changeSet.states', operator: 'contains', value: 'NY' }, facts)).toBe(false);
+    expect(evaluateApprovalCondition({ fact: 'changeSet.states', operator: 'notIn', value: ['NY'] }, facts)).toBe(true);
+  });
+
+  it('compares premium impact by magnitude and treats missing values as unmatched', () => {
+    const cond = { fact: 'changeSet.premiumImpactPct' as const, operator: 'gt' as const, value: 5 };
+    expect(evaluateApprovalCondition(cond, { 'changeSet.premiumImpactPct': -7.5 })).toBe(true);
+    expect(evaluateApprovalCondition(cond, { 'changeSet.premiumImpactPct': 3 })).toBe(false);
+    expect(evaluateApprovalCondition(cond, { 'changeSet.premiumImpactPct': null })).toBe(false);
+  });
+
+  it('describes conditions in plain words', () => {
+    expect(describeApprovalGroup(policy.rules[1].when)).toBe('artifact type is form and item is in a prior-approval state');
+    expect(describeApprovalGroup(policy.rules[2].when)).toBe('premium impact % > 5%');
+    expect(describeApprovalGroup({ op: 'AND', conditions: [] })).toBe('always');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Evaluation
+// ════════════════════════════════════════════════════════════════════════
+
+describe('evaluateApprovalPolicy()', () => {
+  it('requires an actuary for rate changes and lists the matching items', () => {
+    const [req] = evaluateApprovalPolicy(policy, input([rate, txForm]));
+    expect(req).toMatchObject({ key: 'actuary', role: 'actuary', quorum: 1 });
+    expect(req.reasons[0]).toMatchObject({ ruleId: 'rates', itemIds: ['i1'], itemNames: ['HO Rates'] });
+  });
+
+  it('requires compliance only for forms in prior-approval states', () => {
+    expect(evaluateApprovalPolicy(policy, input([txForm]))).toEqual([]);
+    const [req] = evaluateApprovalPolicy(policy, input([txForm, nyForm]));
+    expect(req.role).toBe('compliance');
+    expect(req.reasons[0].itemIds).toEqual(['i2']);
+  });
+
+  it('requires two product managers and no self-approval above the impact threshold', () => {
+    const reqs = evaluateApprovalPolicy(policy, input([rate], 8.2));
+    const pm = reqs.find(r => r.role === 'product_manager')!;
+    expect(pm).toMatchObject({ quorum: 2, noSelfApproval: true });
+    expect(pm.reasons[0].itemIds).toEqual([]);
+    expect(evaluateApprovalPolicy(policy, input([rate], 4)).map(r => r.role)).toEqual(['actuary']);
+  });
+
+  it('merges rules for the same role, keeping the largest quorum', () => {
+    const merged = evaluateApprovalPolicy({
+      ...policy,
+      segregation: { noSelfApproval: true, distinctApprovers: false },
+      rules: [
+        policy.rules[0],
+        { ...policy.rules[0], id: 'rates-2', name: 'Second look', require: { role: 'actuary', quorum: 3 } },
+      ],
+    }, input([rate]));
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ quorum: 3, noSelfApproval: true });
+    expect(merged[0].reasons.map(r => r.ruleId)).toEqual(['rates', 'rates-2']);
+  });
+});
+
+describe('policy inputs', () => {
+  it('reads states from state program ids and version documents', () => {
+    expect(extractItemStates({ artifactType: 'stateProgram', artifactId: 'p1__NY' }, null)).toEqual(['NY']);
+    expect(extractItemStates({ artifactType: 'form', artifactId: 'f1' }, { jurisdiction: ['TX', 'CA'] })).toEqual(['CA', 'TX']);
+    expect(extractItemStates({ artifactType: 'product', artifactId: 'p1' }, { data: { states: ['OH'] } })).toEqual(['OH']);
+    expect(extractItemStates({ artifactType: 'rule', artifactId: 'r1' }, undefined)).toEqual([]);
+  });
+
+  it('takes the largest absolute premium change', () => {
+    expect(maxPremiumImpactPct([{ summary: { changePct: 3.1 } }, { summary: { changePct: -6 } }])).toBe(6);
+    expect(maxPremiumImpactPct([])).toBeNull();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Progress & eligibility
+// ════════════════════════════════════════════════════════════════════════
+
+describe('approval progress', () => {
+  const slots = [
+    approval({ id: 's1', requirementKey: 'product_manager', slot: 1, quorum: 2, status: 'approved', approverUserId: 'u1', approverName: 'Ann' }),
+    approval({ id: 's2', requirementKey: 'product_manager', slot: 2, quorum: 2 }),
+    approval({ id: 'legacy', roleRequired: 'compliance' }),
+  ];
+
+  it('rebuilds requirements from slots, including legacy per-role slots', () => {
+    const reqs = requirementsFromApprovals(slots);
+    expect(reqs.map(r => [r.key, r.quorum])).toEqual([['product_manager', 2], ['compliance', 1]]);
+  });
+
+  it('counts approvals toward the quorum', () => {
+    const [pm, compliance] = summarizeApprovalProgress(requirementsFromApprovals(slots), slots);
+    expect(pm).toMatchObject({ approvedCount: 1, satisfied: false, approverNames: ['Ann'] });
+    expect(compliance.satisfied).toBe(false);
+  });
+});
+
+describe('checkApprovalEligibility()', () => {
+  const requirement: ApprovalRequirement = { key: 'product_manager', role: 'product_manager', quorum: 2, noSelfApproval: true, reasons: [] };
+  const authors = changeSetAuthors({ ownerUserId: 'owner', createdBy: 'owner' }, [{ addedBy: 'helper' }]);
+
+  it('requires the role, allowing admins to stand in', () => {
+    const base = { requirement, approvals: [], userId: 'u1', authorUserIds: authors };
+    expect(checkApprovalEligibility({ ...base, userRole: 'underwriter' })).toMatchObject({ allowed: false });
+    expect(checkApprovalEligibility({ ...base, userRole: 'admin' }).allowed).toBe(true);
+  });
+
+  it('blocks authors, including anyone who added an item', () => {
+    expect(authors).toEqual(['owner', 'helper']);
+    const result = checkApprovalEligibility({ requirement, approvals: [], userId: 'helper', userRole: 'product_manager', authorUserIds: authors });
+    expect(result).toEqual({ allowed: false, reason: 'Authors of this change set cannot approve it' });
+  });
+
+  it('needs distinct approvers toward a quorum', () => {
+    const approvals = [approval({ requirementKey: 'product_manager', status: 'approved', approverUserId: 'u1' })];
+    expect(checkApprovalEligibility({ requirement, approvals, userId: 'u1', userRole: 'product_manager', authorUserIds: [] }).allowed).toBe(false);
+    expect(checkApprovalEligibility({ requirement, approvals, userId: 'u2', userRole: 'product_manager', authorUserIds: [] }).allowed).toBe(true);
+  });
+
+  it('enforces one requirement per approver when segregation asks for it', () => {
+    const approvals = [approval({ requirementKey: 'actuary', roleRequired: 'actuary', status: 'approved', approverUserId: 'boss' })];
+    const params = { requirement, approvals, userId: 'boss', userRole: 'admin', authorUserIds: [] };
+    expect(checkApprovalEligibility(params).allowed).toBe(true);
+    expect(checkApprovalEligibility({ ...params, segregation: { distinctApprovers: true } }).reason)
+      .toMatch(/already approved as Actuary/);
+  });
+
+  it('stops once the quorum is met', () => {
+    const approvals = ['a', 'b'].map(u => approval({ requirementKey: 'product_manager', status: 'approved', approverUserId: u }));
+    expect(checkApprovalEligibility({ requirement, approvals, userId: 'c', userRole: 'admin', authorUserIds: [] }).allowed).toBe(false);
+  });
+});
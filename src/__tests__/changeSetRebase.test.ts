@@ -0,0 +1,161 @@
+/**
+ * Change Set Conflict & Rebase Engine – Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findStaleBase,
+  findChangeSetOverlaps,
+  planRebase,
+  unresolvedRebaseConflicts,
+  applyRebaseResolutions,
+  setAtPath,
+  rebasedVersionFields,
+} from '../engine/changeSetRebase';
+import type { ChangeSetItem } from '../types/changeSet';
+import type { VersionRef } from '../types/changeSetConflict';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+const v = (id: string, versionNumber: number, status: string, clonedFromVersionId?: string): VersionRef =>
+  ({ id, versionNumber, status, ...(clonedFromVersionId ? { clonedFromVersionId } : {}) });
+
+function item(partial: Partial<ChangeSetItem>): ChangeSetItem {
+  return {
+    id: 'i1', changeSetId: 'cs1', artifactType: 'coverage', artifactId: 'p1:c1', versionId: 'v3',
+    action: 'update', addedAt: null as unknown as ChangeSetItem['addedAt'], addedBy: 'u1', ...partial,
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Detection
+// ════════════════════════════════════════════════════════════════════════
+
+describe('findStaleBase()', () => {
+  it('is fresh when branched from the latest published version', () => {
+    const draft = v('v3', 3, 'draft', 'v2');
+    expect(findStaleBase(draft, [v('v1', 1, 'published'), v('v2', 2, 'published'), draft]))
+      .toMatchObject({ stale: false, baseVersionId: 'v2', baseInferred: false });
+  });
+
+  it('is stale once another draft branched from the same base publishes', () => {
+    const draft = v('v3', 3, 'draft', 'v2');
+    const result = findStaleBase(draft, [v('v2', 2, 'published'), draft, v('v4', 4, 'published', 'v2')]);
+    expect(result).toMatchObject({ stale: true, baseVersionId: 'v2', latestPublishedVersionId: 'v4', latestPublishedVersionNumber: 4 });
+  });
+
+  it('infers the base for drafts without a recorded source', () => {
+    const draft = v('v3', 3, 'draft');
+    expect(findStaleBase(draft, [v('v2', 2, 'published'), draft])).toMatchObject({ stale: false, baseVersionId: 'v2', baseInferred: true });
+    expect(findStaleBase(draft, [v('v2', 2, 'published'), draft, v('v4', 4, 'published')]).stale).toBe(true);
+  });
+
+  it('treats a draft of a never-published artifact as fresh until something publishes', () => {
+    const draft = v('v1', 1, 'draft');
+    expect(findStaleBase(draft, [draft]).stale).toBe(false);
+    expect(findStaleBase(draft, [draft, v('v2', 2, 'published')]).stale).toBe(true);
+  });
+});
+
+describe('findChangeSetOverlaps()', () => {
+  it('reports other open change sets holding the same artifact', () => {
+    const ours = [item({}), item({ id: 'i2', artifactType: 'rule', artifactId: 'r1', versionId: 'rv2' })];
+    const overlaps = findChangeSetOverlaps(ours, [
+      { changeSet: { id: 'cs2', name: 'Q3 filing', status: 'ready_for_review' }, items: [item({ id: 'x', changeSetId: 'cs2', versionId: 'v4' })] },
+      { changeSet: { id: 'cs3', name: 'Shipped', status: 'published' }, items: [item({ id: 'y', changeSetId: 'cs3' })] },
+      { changeSet: { id: 'cs4', name: 'Rules', status: 'draft' }, items: [item({ id: 'z', artifactType: 'rule', artifactId: 'r1', versionId: 'rv2' })] },
+    ]);
+    expect(overlaps.map(o => [o.itemId, o.otherChangeSetId, o.sameVersion])).toEqual([
+      ['i1', 'cs2', false],
+      ['i2', 'cs4', true],
+    ]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Rebase
+// ════════════════════════════════════════════════════════════════════════
+
+describe('planRebase()', () => {
+  const base = { name: 'Water Backup', limits: { perOccurrence: 5000, aggregate: 10000 }, states: ['CA'], notes: 'x' };
+  const ours = { name: 'Water Backup', limits: { perOccurrence: 10000, aggregate: 10000 }, states: ['CA', 'NY'], notes: 'x' };
+  const theirs = { name: 'Water & Sewer Backup', limits: { perOccurrence: 7500, aggregate: 10000 }, states: ['CA'] };
+
+  const plan = planRebase({ baseVersionId: 'v2', targetVersionId: 'v4', base, ours, theirs });
+
+  it('re-applies our changes that theirs did not touch', () => {
+    expect(plan.appliedPaths).toEqual(['states']);
+    expect(plan.mergedData).toMatchObject({ name: 'Water & Sewer Backup', states: ['CA', 'NY'] });
+    expect(plan.mergedData).not.toHaveProperty('notes');
+  });
+
+  it('surfaces fields both sides changed as conflicts', () => {
+    expect(plan.conflicts).toEqual([
+      { path: 'limits.perOccurrence', label: 'Limits › Per occurrence', baseValue: 5000, oursValue: 10000, theirsValue: 7500 },
+    ]);
+  });
+
+  it('skips changes the published version already contains', () => {
+    const p = planRebase({ baseVersionId: 'v2', targetVersionId: 'v4', base, ours, theirs: { ...ours, name: 'Renamed' } });
+    expect(p.conflicts).toEqual([]);
+    expect(p.redundantPaths).toEqual(['limits.perOccurrence', 'states']);
+  });
+
+  it('conflicts when theirs removed the parent of a field we changed', () => {
+    const p = planRebase({ baseVersionId: 'v2', targetVersionId: 'v4', base, ours, theirs: { name: 'Water Backup', states: ['CA'] } });
+    expect(p.conflicts.map(c => c.path)).toEqual(['limits.perOccurrence']);
+    expect(p.conflicts[0].theirsValue).toBeUndefined();
+  });
+
+  it('does not mutate its inputs', () => {
+    expect(theirs.limits.perOccurrence).toBe(7500);
+    expect(theirs.states).toEqual(['CA']);
+  });
+});
+
+describe('applyRebaseResolutions()', () => {
+  const plan = planRebase({
+    baseVersionId: 'v2', targetVersionId: 'v4',
+    base: { a: 1, b: { c: 1 } },
+    ours: { a: 2, b: { c: 2 } },
+    theirs: { a: 3, b: { c: 3 } },
+  });
+
+  it('requires every conflict to be resolved', () => {
+    expect(unresolvedRebaseConflicts(plan, { a: 'ours' })).toEqual(['b.c']);
+    expect(() => applyRebaseResolutions(plan, { a: 'ours' })).toThrow(/b\.c/);
+  });
+
+  it('takes our value or keeps theirs per conflict', () => {
+    expect(applyRebaseResolutions(plan, { a: 'ours', 'b.c': 'theirs' })).toEqual({ a: 2, b: { c: 3 } });
+  });
+});
+
+describe('rebasedVersionFields()', () => {
+  it('replaces the payload of versions that keep one under data', () => {
+    expect(rebasedVersionFields('coverage', { id: 'v3', status: 'draft', data: { a: 1 } }, { a: 2 }))
+      .toEqual({ set: { data: { a: 2 } }, remove: [] });
+  });
+
+  it('writes top-level fields back in place and removes dropped ones', () => {
+    const current = { id: 'v3', status: 'draft', tableId: 't1', dimensions: [], cellStorage: {}, validation: {} };
+    expect(rebasedVersionFields('table', current, { tableId: 't2', dimensions: [{ id: 'd1' }], cellStorage: { cells: {} } }))
+      .toEqual({ set: { dimensions: [{ id: 'd1' }], cellStorage: { cells: {} } }, remove: ['validation'] });
+  });
+
+  it('leaves rate program steps to the steps subcollection', () => {
+    expect(rebasedVersionFields('rateProgram', { id: 'v3', aggregation: null }, { aggregation: { rules: [] }, steps: [] }))
+      .toEqual({ set: { aggregation: { rules: [] } }, remove: [] });
+  });
+});
+
+describe('setAtPath()', () => {
+  it('creates parents and deletes on undefined', () => {
+    const obj: Record<string, unknown> = { x: 1 };
+    setAtPath(obj, 'a.b', 2);
+    setAtPath(obj, 'x', undefined);
+    expect(obj).toEqual({ a: { b: 2 } });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Change Set Revert Engine – Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findRevertTarget,
+  planChangeSetRevert,
+  revertVersionPayload,
+  revertSubcollectionPayload,
+  REVERT_VERSION_SUBCOLLECTIONS,
+  revertChangeSetName,
+  describeRevertPlan,
+} from '../engine/changeSetRevert';
+import type { ChangeSetItem } from '../types/changeSet';
+import type { RevertVersionRef } from '../types/changeSetRevert';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+const v = (id: string, versionNumber: number, status: string, publishedAtMs: number | null = null): RevertVersionRef =>
+  ({ id, versionNumber, status, publishedAtMs });
+
+function item(partial: Partial<ChangeSetItem>): ChangeSetItem {
+  return {
+    id: 'i1', changeSetId: 'cs1', artifactType: 'product', artifactId: 'p1',
+    artifactName: 'Homeowners', versionId: 'v3', action: 'update',
+    addedAt: null as unknown as ChangeSetItem['addedAt'], addedBy: 'u1',
+    ...partial,
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Targets
+// ════════════════════════════════════════════════════════════════════════
+
+describe('findRevertTarget()', () => {
+  it('restores the version published before this one', () => {
+    const versions = [v('v1', 1, 'archived', 100), v('v2', 2, 'archived', 200), v('v3', 3, 'published', 300)];
+    expect(findRevertTarget('v3', versions).restore?.id).toBe('v2');
+  });
+
+  it('orders by publish time rather than version number', () => {
+    // v3 went live before v2 (v2 was held back), so v2 is what v4 replaced
+    const versions = [v('v1', 1, 'archived', 100), v('v2', 2, 'archived', 300), v('v3', 3, 'archived', 200), v('v4', 4, 'published', 400)];
+    expect(findRevertTarget('v4', versions).restore?.id).toBe('v2');
+  });
+
+  it('ignores drafts that were never published', () => {
+    const versions = [v('v1', 1, 'archived', 100), v('v2', 2, 'draft'), v('v3', 3, 'published', 300), v('v4', 4, 'draft')];
+    expect(findRevertTarget('v3', versions).restore?.id).toBe('v1');
+  });
+
+  it('skips when a later publish superseded the version', () => {
+    const versions = [v('v1', 1, 'archived', 100), v('v2', 2, 'archived', 200), v('v3', 3, 'published', 300)];
+    expect(findRevertTarget('v2', versions)).toEqual({ restore: null, skipReason: 'superseded', skipDetail: 'v3' });
+  });
+
+  it('skips the first published version', () => {
+    expect(findRevertTarget('v1', [v('v1', 1, 'published', 100), v('v2', 2, 'draft')]))
+      .toEqual({ restore: null, skipReason: 'first_version' });
+  });
+
+  it('skips a missing or unpublished version', () => {
+    expect(findRevertTarget('v9', [v('v1', 1, 'published', 100)]).skipReason).toBe('not_published');
+    expect(findRevertTarget('v2', [v('v1', 1, 'published', 100), v('v2', 2, 'draft')]).skipReason).toBe('not_published');
+  });
+
+  it('falls back to version number when publish times are missing', () => {
+    const versions = [v('v1', 1, 'archived'), v('v2', 2, 'published')];
+    expect(findRevertTarget('v2', versions)).toEqual({ restore: null, skipReason: 'first_version' });
+    const legacy = [v('v1', 1, 'published', null), v('v2', 2, 'published', null)];
+    expect(findRevertTarget('v2', legacy).restore?.id).toBe('v1');
+  });
+});
+
+describe('planChangeSetRevert()', () => {
+  it('splits items into restorable and skipped', () => {
+    const plan = planChangeSetRevert(
+      [
+        item({ id: 'i1' }),
+        item({ id: 'i2', artifactType: 'stateProgram', artifactId: 'sp1', artifactName: 'TX', versionId: 'x' }),
+        item({ id: 'i3', artifactId: 'p2', artifactName: 'Auto', versionId: 'a1' }),
+      ],
+      {
+        i1: [v('v2', 2, 'archived', 200), v('v3', 3, 'published', 300)],
+        i3: [v('a1', 1, 'published', 300)],
+      },
+    );
+    expect(plan.restorable.map(p => [p.itemId, p.restore?.id])).toEqual([['i1', 'v2']]);
+    expect(plan.skipped.map(p => [p.itemId, p.skipReason])).toEqual([['i2', 'not_versioned'], ['i3', 'first_version']]);
+    expect(plan.items).toHaveLength(3);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Output
+// ════════════════════════════════════════════════════════════════════════
+
+describe('revertVersionPayload()', () => {
+  it('keeps content and drops the source version metadata', () => {
+    expect(revertVersionPayload({
+      id: 'v2', versionNumber: 2, status: 'archived', publishedAt: 1, publishedBy: 'u1',
+      summary: 'Rate change', clonedFromVersionId: 'v1', createdBy: 'u1',
+      data: { name: 'Homeowners', basePremium: 500 }, formNumber: 'HO 00 03',
+    })).toEqual({ data: { name: 'Homeowners', basePremium: 500 }, formNumber: 'HO 00 03' });
+  });
+});
+
+describe('revertSubcollectionPayload()', () => {
+  it('reverts a rate program with steps', () => {
+    const plan = planChangeSetRevert(
+      [item({ artifactType: 'rateProgram', artifactId: 'rp1', artifactName: 'HO Rating', versionId: 'r3' })],
+      { i1: [v('r2', 2, 'archived', 200), v('r3', 3, 'published', 300)] },
+    );
+    expect(plan.restorable[0].restore!.id).toBe('r2');
+    expect(REVERT_VERSION_SUBCOLLECTIONS.rateProgram).toEqual(['steps']);
+
+    const steps = [
+      { id: 's1', rateProgramVersionId: 'r2', order: 1, stepType: 'input', name: 'Base rate' },
+      { id: 's2', rateProgramVersionId: 'r2', order: 2, stepType: 'multiply', name: 'Territory factor' },
+    ];
+    expect(steps.map(s => revertSubcollectionPayload('rateProgram', s, 'r4'))).toEqual([
+      { rateProgramVersionId: 'r4', order: 1, stepType: 'input', name: 'Base rate' },
+      { rateProgramVersionId: 'r4', order: 2, stepType: 'multiply', name: 'Territory factor' },
+    ]);
+  });
+});
+
+describe('describeRevertPlan()', () => {
+  it('lists restored versions and skipped items', () => {
+    const plan = planChangeSetRevert(
+      [item({ id: 'i1' }), item({ id: 'i2', artifactName: 'Auto', versionId: 'a1' })],
+      {
+        i1: [v('v2', 2, 'archived', 200), v('v3', 3, 'published', 300)],
+        i2: [v('a1', 1, 'archived', 100), v('a2', 2, 'published', 400)],
+      },
+    );
+    expect(revertChangeSetName({ name: 'Q3 rates' })).toBe('Revert: Q3 rates');
+    expect(describeRevertPlan({ name: 'Q3 rates' }, plan)).toBe([
+      'Reverts "Q3 rates".',
+      '- Homeowners: restore v2',
+      'Not reverted:',
+      '- Auto has been published again since (v2)',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Clause Harvest Tests
+ *
+ * Tests shingling and MinHash, clustering of near-identical sections
+ * across forms, canonical / variant selection, matching against existing
+ * library clauses, and librarian merge / split.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  shingleSet,
+  jaccard,
+  minhashSignature,
+  lshCandidatePairs,
+  toHarvestSections,
+  buildCluster,
+  harvestClauses,
+  matchExistingClauses,
+  mergeClusters,
+  splitCluster,
+} from '../engine/clauseHarvest';
+import type { HarvestSection } from '../types/clauseHarvest';
+import type { FormIngestionSection, FormSectionType } from '../types/ingestion';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+const WAR = 'This insurance does not apply to bodily injury or property damage arising, directly or indirectly, '
+  + 'out of war, including undeclared or civil war, warlike action by a military force, including action in '
+  + 'hindering or defending against an actual or expected attack, by any government, sovereign or other authority.';
+
+const WAR_VARIANT = WAR.replace('sovereign or other authority', 'sovereign or other authority using military personnel or other agents');
+
+const POLLUTION = 'Bodily injury or property damage arising out of the actual, alleged or threatened discharge, '
+  + 'dispersal, seepage, migration, release or escape of pollutants at or from any premises, site or location '
+  + 'which is or was at any time owned or occupied by, or rented or loaned to, any insured.';
+
+const DUTIES = 'You must see to it that we are notified as soon as practicable of an occurrence or an offense '
+  + 'which may result in a claim. To the extent possible, notice should include how, when and where the '
+  + 'occurrence or offense took place and the names and addresses of any injured persons and witnesses.';
+
+function section(
+  formNumber: string, sectionId: string, title: string, text: string,
+  type: FormSectionType = 'exclusion',
+): HarvestSection {
+  const formVersionId = `${formNumber}-v1`;
+  return {
+    key: `${formVersionId}:${sectionId}`,
+    formId: formNumber,
+    formNumber,
+    formVersionId,
+    editionDate: '04/13',
+    sectionId,
+    sectionPath: title,
+    sectionTitle: title,
+    sectionType: type,
+    pageRefs: [2],
+    text,
+  };
+}
+
+const library: HarvestSection[] = [
+  section('CG 00 01', 's1', 'War', WAR),
+  section('CG 00 02', 's1', 'War', WAR),
+  section('CA 00 01', 's4', 'War Exclusion', WAR_VARIANT),
+  section('CG 00 01', 's2', 'Pollution', POLLUTION),
+  section('CG 00 02', 's2', 'Pollution', `${POLLUTION}\n`),
+  section('CG 00 01', 's3', 'Duties In The Event Of Occurrence', DUTIES, 'condition'),
+  section('CG 00 01', 's5', 'Short', 'Too short to harvest.'),
+  section('CG 00 02', 's5', 'Short', 'Too short to harvest.'),
+];
+
+// ════════════════════════════════════════════════════════════════════════
+// Shingles and MinHash
+// ════════════════════════════════════════════════════════════════════════
+
+describe('shingleSet / jaccard', () => {
+  it('ignores case, punctuation and spacing', () => {
+    const a = shingleSet('The  Insurance, does NOT apply to war.');
+    const b = shingleSet('the insurance does not apply to war');
+    expect(jaccard(a, b)).toBe(1);
+  });
+
+  it('treats short text as a single shingle', () => {
+    expect(shingleSet('war exclusion').size).toBe(1);
+    expect(shingleSet('').size).toBe(0);
+  });
+
+  it('scores small edits high and unrelated text low', () => {
+    expect(jaccard(shingleSet(WAR), shingleSet(WAR_VARIANT))).toBeGreaterThan(0.8);
+    expect(jaccard(shingleSet(WAR), shingleSet(POLLUTION))).toBeLessThan(0.1);
+  });
+});
+
+describe('minhashSignature / lshCandidatePairs', () => {
+  it('is deterministic', () => {
+    const s = shingleSet(WAR);
+    expect(Array.from(minhashSignature(s, 64))).toEqual(Array.from(minhashSignature(s, 64)));
+  });
+
+  it('estimates Jaccard similarity', () => {
+    const a = minhashSignature(shingleSet(WAR), 128);
+    const b = minhashSignature(shingleSet(WAR_VARIANT), 128);
+    const agree = a.filter((v, i) => v === b[i]).length / a.length;
+    expect(Math.abs(agree - jaccard(shingleSet(WAR), shingleSet(WAR_VARIANT)))).toBeLessThan(0.15);
+  });
+
+  it('pairs identical signatures and not unrelated ones', () => {
+    const sigs = [WAR, WAR, POLLUTION].map(t => minhashSignature(shingleSet(t), 64));
+    expect(lshCandidatePairs(sigs, 16)).toEqual([[0, 1]]);
+  });
+
+  it('rejects a band count that does not divide the signature', () => {
+    expect(() => lshCandidatePairs([minhashSignature(shingleSet(WAR), 64)], 10)).toThrow(/multiple/);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Harvest input
+// ════════════════════════════════════════════════════════════════════════
+
+describe('toHarvestSections', () => {
+  it('joins section chunks by index and keys occurrences by version and section', () => {
+    const sections = [
+      { id: 'a', title: 'War', type: 'exclusion', path: 'EXCLUSIONS.War', pageRefs: [3], anchors: [], summary: '', order: 0, chunkIds: ['chunk-0', 'chunk-1'] },
+      { id: 'b', title: 'Empty', type: 'general', path: 'Empty', pageRefs: [4], anchors: [], summary: '', order: 1, chunkIds: ['chunk-9'] },
+    ] as FormIngestionSection[];
+    const chunks = [{ index: 0, text: 'First part.' }, { index: 1, text: 'Second part.' }];
+
+    const out = toHarvestSections(
+      { formId: 'f1', formNumber: 'CG 00 01', formVersionId: 'v1', editionDate: '04/13' },
+      sections, chunks,
+    );
+
+    expect(out).toHaveLength(1);
+    expect(out[0]).toMatchObject({
+      key: 'v1:a', sectionId: 'a', sectionPath: 'EXCLUSIONS.War', sectionType: 'exclusion',
+      text: 'First part.\n\nSecond part.',
+    });
+    expect(out[0]).not.toHaveProperty('anchor');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Clustering
+// ════════════════════════════════════════════════════════════════════════
+
+describe('harvestClauses', () => {
+  const clusters = harvestClauses(library);
+
+  it('clusters near-identical sections across forms', () => {
+    expect(clusters).toHaveLength(2);
+    const war = clusters.find(c => c.proposedName === 'War')!;
+    expect(war.occurrences.map(o => o.formNumber)).toEqual(['CA 00 01', 'CG 00 01', 'CG 00 02']);
+    expect(war.formCount).toBe(3);
+    expect(war.proposedType).toBe('exclusion');
+    expect(war.status).toBe('proposed');
+  });
+
+  it('skips short sections and singletons', () => {
+    const keys = clusters.flatMap(c => c.occurrences.map(o => o.sectionId));
+    expect(keys).not.toContain('s3');
+    expect(keys).not.toContain('s5');
+  });
+
+  it('proposes the most common wording as canonical and diffs variants against it', () => {
+    const war = clusters.find(c => c.proposedName === 'War')!;
+    expect(war.canonicalText).toBe(WAR);
+    expect(war.variants).toHaveLength(2);
+    expect(war.variants[0]).toMatchObject({ isCanonical: true, similarity: 1 });
+    expect(war.variants[0].occurrenceKeys).toHaveLength(2);
+    expect(war.variants[1].isCanonical).toBe(false);
+    expect(war.variants[1].similarity).toBeGreaterThan(0.8);
+    expect(war.minSimilarity).toBe(war.variants[1].similarity);
+  });
+
+  it('treats whitespace-only differences as the same wording', () => {
+    const pollution = clusters.find(c => c.proposedName === 'Pollution')!;
+    expect(pollution.variants).toHaveLength(1);
+    expect(pollution.occurrences).toHaveLength(2);
+  });
+
+  it('keeps occurrence text only on the variants', () => {
+    for (const c of clusters) for (const o of c.occurrences) expect(o).not.toHaveProperty('text');
+  });
+
+  it('is deterministic regardless of input order', () => {
+    const again = harvestClauses([...library].reverse());
+    expect(again.map(c => c.id).sort()).toEqual(clusters.map(c => c.id).sort());
+    expect(again.map(c => c.canonicalTextHash).sort()).toEqual(clusters.map(c => c.canonicalTextHash).sort());
+  });
+
+  it('respects the similarity threshold', () => {
+    const strict = harvestClauses(library, { threshold: 0.99 });
+    const war = strict.find(c => c.proposedName === 'War')!;
+    expect(war.occurrences).toHaveLength(2);
+  });
+});
+
+describe('matchExistingClauses', () => {
+  it('points clusters at library clauses with matching wording', () => {
+    const [war, pollution] = matchExistingClauses(
+      [buildCluster(library.slice(0, 3)), buildCluster(library.slice(3, 5))],
+      [{ clauseId: 'c1', clauseName: 'War Exclusion', clauseVersionId: 'cv1', text: WAR }],
+    );
+    expect(war).toMatchObject({ existingClauseId: 'c1', existingClauseName: 'War Exclusion', existingSimilarity: 1 });
+    expect(pollution).not.toHaveProperty('existingClauseId');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Librarian edits
+// ════════════════════════════════════════════════════════════════════════
+
+describe('splitCluster / mergeClusters', () => {
+  const war = buildCluster(library.slice(0, 3));
+  const variantKey = 'CA 00 01-v1:s4';
+
+  it('splits occurrences into a new cluster and recomputes both sides', () => {
+    const [rest, split] = splitCluster(war, [variantKey]);
+    expect(rest.occurrences.map(o => o.key)).not.toContain(variantKey);
+    expect(rest.variants).toHaveLength(1);
+    expect(split.occurrences.map(o => o.key)).toEqual([variantKey]);
+    expect(split.canonicalText).toBe(WAR_VARIANT);
+    expect(split.proposedName).toBe('War Exclusion');
+  });
+
+  it('refuses a split that leaves one side empty', () => {
+    expect(() => splitCluster(war, [])).toThrow();
+    expect(() => splitCluster(war, war.occurrences.map(o => o.key))).toThrow();
+  });
+
+  it('merging the split halves restores the original cluster', () => {
+    const merged = mergeClusters(splitCluster(war, [variantKey]));
+    expect(merged.id).toBe(war.id);
+    expect(merged.canonicalText).toBe(war.canonicalText);
+    expect(merged.variants.map(v => v.textHash)).toEqual(war.variants.map(v => v.textHash));
+  });
+});
@@ -8,7 +8,11 @@
  *  4. detectConflicts (base drift detection)
  *  5. validateOverrides (structural + type validation)
  *  6. hashObjectSync (deterministic hashing)
- *  7. Acceptance criteria: explain how NY differs and overrides survive base edits
+ *  7. Utility helpers
+ *  8. mergeOverrides / applyMergeDecisions (three-way merge onto a new base)
+ *  9. Layers (region → state → territory precedence, sources, per-layer conflicts)
+ * 10. Keyed list paths (`list[id=x]` selectors, insert / remove ops)
+ * 11. Acceptance criteria: explain how NY differs and overrides survive base edits
  */
 
 import { describe, it, expect } from 'vitest';
@@ -27,8 +31,19 @@ import {
   pathToLabel,
   inferCategory,
   deepEqual,
+  mergeOverrides,
+  applyMergeDecisions,
+  applyLayers,
+  buildStateLayers,
+  computeLayeredDiff,
+  detectLayerConflicts,
+  orderLayers,
+  validateLayers,
+  parsePath,
+  formatPath,
+  insertListItem,
 } from '../engine/deviationEngine';
-import type { Override } from '../types/deviation';
+import type { Override, OverrideLayer } from '../types/deviation';
 
 // ════════════════════════════════════════════════════════════════════════
 // Helpers
@@ -385,7 +400,338 @@ describe('deepEqual', () => {
 });
 
 // ════════════════════════════════════════════════════════════════════════
-// 8. Acceptance criteria
+// 8. Three-way merge
+// ════════════════════════════════════════════════════════════════════════
+
+describe('mergeOverrides', () => {
+  const newBase = {
+    deductible: 1000,
+    limit: 500000,
+    baseRate: 1.2,
+    territoryFactor: 1.1,
+    form: { edition: '2025', title: 'CGL' },
+  };
+
+  const overrides: Record<string, Override> = {
+    // base unchanged
+    limit: makeOverride('limit', 500000, 1000000),
+    // base and state both changed a non-rate value
+    deductible: makeOverride('deductible', 500, 250),
+    // rate: base 1.0 → 1.2, state 1.1
+    baseRate: makeOverride('baseRate', 1.0, 1.1, { category: 'rates' }),
+    // base caught up with the state value
+    territoryFactor: makeOverride('territoryFactor', 1.0, 1.1),
+    // base and state changed different keys of an object value
+    form: makeOverride('form', { edition: '2020', title: 'CGL' }, { edition: '2020', title: 'CGL-NY' }),
+    // removed from base
+    legacyFee: makeOverride('legacyFee', 25, 30),
+  };
+
+  const merge = mergeOverrides(newBase, overrides, 'NY', 'New York');
+  const entry = (path: string) => merge.entries.find(e => e.path === path)!;
+
+  it('classifies each path by which side changed', () => {
+    expect(merge.entries.map(e => [e.path, e.status, e.resolution])).toEqual([
+      ['baseRate', 'conflict', 'edit'],
+      ['deductible', 'conflict', 'keep_state'],
+      ['form', 'auto_resolved', 'edit'],
+      ['legacyFee', 'conflict', 'accept_base'],
+      ['limit', 'unchanged', 'keep_state'],
+      ['territoryFactor', 'auto_resolved', 'accept_base'],
+    ]);
+    expect(merge.autoResolvedCount).toBe(2);
+    expect(merge.conflictCount).toBe(3);
+  });
+
+  it('proposes values that carry the state deviation onto the new base', () => {
+    expect(entry('baseRate').resolvedValue).toBe(1.32);
+    expect(entry('baseRate').reason).toContain('10.0%');
+    expect(entry('form').resolvedValue).toEqual({ edition: '2025', title: 'CGL-NY' });
+    expect(entry('deductible').resolvedValue).toBe(250);
+  });
+
+  it('auto-resolves a state value that only restated the old base', () => {
+    const result = mergeOverrides({ a: 2 }, { a: makeOverride('a', 1, 1) }, 'TX', 'Texas');
+    expect(result.entries[0]).toMatchObject({ status: 'auto_resolved', resolution: 'accept_base', resolvedValue: 2 });
+  });
+
+  it('reports conflicting object keys and keeps the state side', () => {
+    const result = mergeOverrides(
+      { form: { edition: '2025' } },
+      { form: makeOverride('form', { edition: '2020' }, { edition: '2021' }) },
+      'TX', 'Texas',
+    );
+    expect(result.entries[0]).toMatchObject({
+      status: 'conflict', resolution: 'edit', resolvedValue: { edition: '2021' },
+    });
+    expect(result.entries[0].reason).toContain('edition');
+  });
+});
+
+describe('applyMergeDecisions', () => {
+  const stamp = { updatedBy: 'merger', updatedAt: ts };
+  const newBase = { deductible: 1000, baseRate: 1.2, limit: 500000, territoryFactor: 1.1 };
+  const overrides: Record<string, Override> = {
+    deductible: makeOverride('deductible', 500, 250, { note: 'NY reg' }),
+    baseRate: makeOverride('baseRate', 1.0, 1.1, { category: 'rates' }),
+    limit: makeOverride('limit', 500000, 1000000),
+    territoryFactor: makeOverride('territoryFactor', 1.0, 1.1),
+  };
+  const merge = mergeOverrides(newBase, overrides, 'NY', 'New York');
+
+  it('applies proposals when no decision is given and re-anchors kept overrides', () => {
+    const result = applyMergeDecisions(overrides, merge, {}, stamp);
+
+    expect(Object.keys(result).sort()).toEqual(['baseRate', 'deductible', 'limit']);
+    expect(result.deductible).toMatchObject({ baseValue: 1000, value: 250, note: 'NY reg', updatedBy: 'merger' });
+    expect(result.baseRate).toMatchObject({ baseValue: 1.2, value: 1.32 });
+    expect(result.limit).toBe(overrides.limit);
+    expect(mergeOverrides(newBase, result, 'NY', 'New York').conflictCount).toBe(0);
+  });
+
+  it('honours explicit accept-base, keep-state and edit choices', () => {
+    const result = applyMergeDecisions(overrides, merge, {
+      deductible: { resolution: 'accept_base' },
+      baseRate: { resolution: 'keep_state' },
+      territoryFactor: { resolution: 'edit', value: 1.05 },
+    }, stamp);
+
+    expect(result.deductible).toBeUndefined();
+    expect(result.baseRate).toMatchObject({ baseValue: 1.2, value: 1.1 });
+    expect(result.territoryFactor).toMatchObject({ baseValue: 1.1, value: 1.05 });
+  });
+
+  it('drops an edit that equals the new base', () => {
+    const result = applyMergeDecisions(overrides, merge, { deductible: { resolution: 'edit', value: 1000 } }, stamp);
+    expect(result.deductible).toBeUndefined();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// 9. Layers
+// ════════════════════════════════════════════════════════════════════════
+
+describe('override layers', () => {
+  const base = { baseRate: 1.0, deductible: 500, limit: 100000, windExcluded: false };
+
+  const gulf: OverrideLayer = {
+    id: 'gulf', name: 'Gulf Coast', kind: 'region', priority: 1,
+    overrides: {
+      windExcluded: makeOverride('windExcluded', false, true),
+      deductible: makeOverride('deductible', 750, 1000),
+    },
+  };
+  const coastal: OverrideLayer = {
+    id: 'coastal', name: 'Coastal', kind: 'region', priority: 0,
+    overrides: { deductible: makeOverride('deductible', 500, 750) },
+  };
+  const state: OverrideLayer = {
+    id: 'TX', name: 'Texas', kind: 'state',
+    overrides: { baseRate: makeOverride('baseRate', 1.0, 1.1), deductible: makeOverride('deductible', 1000, 2500) },
+  };
+  const territory: OverrideLayer = {
+    id: 'TX:T01', name: 'Territory T01', kind: 'territory',
+    overrides: { baseRate: makeOverride('baseRate', 1.1, 1.25) },
+  };
+
+  it('orders by kind, then priority, regardless of input order', () => {
+    expect(orderLayers([territory, state, gulf, coastal]).map(l => l.id)).toEqual(['coastal', 'gulf', 'TX', 'TX:T01']);
+  });
+
+  it('applies layers so the most specific one wins', () => {
+    expect(applyLayers(base, [territory, state, gulf, coastal])).toEqual({
+      baseRate: 1.25, deductible: 2500, limit: 100000, windExcluded: true,
+    });
+    expect(applyLayers(base, [gulf, coastal])).toMatchObject({ deductible: 1000 });
+  });
+
+  it('reports the source layer and every layer value per path', () => {
+    const diff = computeLayeredDiff(base, [state, gulf, coastal, territory], 'TX', 'Texas');
+    const entry = (path: string) => diff.entries.find(e => e.path === path)!;
+
+    expect(entry('windExcluded')).toMatchObject({ status: 'overridden', sourceLayerId: 'gulf', sourceLayerKind: 'region' });
+    expect(entry('baseRate')).toMatchObject({ effectiveValue: 1.25, sourceLayerKind: 'territory' });
+    expect(entry('deductible').layerValues!.map(v => [v.layerId, v.value])).toEqual([
+      ['coastal', 750], ['gulf', 1000], ['TX', 2500],
+    ]);
+    expect(entry('limit').sourceLayerId).toBeUndefined();
+    expect(diff.overrideCount).toBe(3);
+    expect(diff.conflictCount).toBe(0);
+    expect(diff.layers!.map(l => [l.id, l.overrideCount, l.conflictCount])).toEqual([
+      ['coastal', 1, 0], ['gulf', 2, 0], ['TX', 2, 0], ['TX:T01', 1, 0],
+    ]);
+  });
+
+  it('checks each layer against the layers beneath it', () => {
+    // The region group moved the deductible the state was anchored on
+    const movedGulf = { ...gulf, overrides: { ...gulf.overrides, deductible: makeOverride('deductible', 750, 1500) } };
+    const layers = [coastal, movedGulf, state, territory];
+
+    expect(detectLayerConflicts(base, layers)).toEqual([
+      expect.objectContaining({ layerId: 'TX', path: 'deductible', currentBaseValue: 1500 }),
+    ]);
+    const diff = computeLayeredDiff(base, layers, 'TX', 'Texas');
+    expect(diff.entries.find(e => e.path === 'deductible')).toMatchObject({
+      status: 'conflict', conflictBaseValue: 1500, originalBaseValue: 1000,
+    });
+    expect(diff.layers!.find(l => l.id === 'TX')!.conflictCount).toBe(1);
+  });
+
+  it('tags validation errors with the layer they belong to', () => {
+    const bad: OverrideLayer = {
+      id: 'TX:T02', name: 'Territory T02', kind: 'territory',
+      overrides: { baseRate: makeOverride('baseRate', 1.1, 'high') },
+    };
+    const errors = validateLayers(base, [coastal, gulf, state, bad]);
+    expect(errors).toEqual([expect.objectContaining({ path: 'baseRate', type: 'type_mismatch', layerId: 'TX:T02' })]);
+  });
+
+  it('builds a state\'s layers from the region groups that list it', () => {
+    const groups = [
+      { id: 'gulf', name: 'Gulf Coast', stateCodes: ['TX', 'LA'], priority: 1, overrides: gulf.overrides },
+      { id: 'ne', name: 'Northeast', stateCodes: ['NY'], priority: 0, overrides: {} },
+    ];
+    const territories = { T01: territory.overrides, T02: {} };
+
+    expect(buildStateLayers('TX', 'Texas', state.overrides, territories, groups).map(l => l.id)).toEqual(['gulf', 'TX']);
+    expect(buildStateLayers('TX', 'Texas', state.overrides, territories, groups, 'T01').map(l => l.id))
+      .toEqual(['gulf', 'TX', 'TX:T01']);
+    expect(buildStateLayers('TX', 'Texas', state.overrides, territories, groups, 'all')).toHaveLength(4);
+  });
+
+  it('matches computeDiff when the state is the only layer', () => {
+    const { layers: _layers, ...layered } = computeLayeredDiff(base, [state], 'TX', 'Texas');
+    const plain = computeDiff(base, state.overrides, 'TX', 'Texas');
+    expect(plain.entries.map(e => [e.path, e.status, e.effectiveValue]))
+      .toEqual(layered.entries.map(e => [e.path, e.status, e.effectiveValue]));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// 10. Keyed list paths
+// ════════════════════════════════════════════════════════════════════════
+
+describe('keyed list paths', () => {
+  const base = {
+    limitOptions: [
+      { id: 'a', perOccurrence: 500000, aggregate: 1000000 },
+      { id: 'b', perOccurrence: 1000000, aggregate: 2000000 },
+    ],
+    territories: ['T1', 'T2'],
+  };
+  const reordered = { ...base, limitOptions: [base.limitOptions[1], base.limitOptions[0]] };
+
+  it('parses and formats selectors, quoting awkward values', () => {
+    expect(parsePath('limitOptions[id=a].perOccurrence')).toEqual([
+      { key: 'limitOptions' }, { match: { field: 'id', value: 'a' } }, { key: 'perOccurrence' },
+    ]);
+    expect(parsePath('forms[2]')).toEqual([{ key: 'forms' }, { index: 2 }]);
+    const awkward = [{ key: 'steps' }, { match: { field: 'code', value: 'v1.2=[x]' } }];
+    expect(formatPath(awkward)).toBe('steps[code="v1.2=[x]"]');
+    expect(parsePath(formatPath(awkward))).toEqual(awkward);
+    expect(() => parsePath('steps[id=a')).toThrow('Invalid override path');
+  });
+
+  it('addresses list items by key regardless of order', () => {
+    expect(getNestedValue(base, 'limitOptions[id=b].perOccurrence')).toBe(1000000);
+    expect(getNestedValue(reordered, 'limitOptions[id=b].perOccurrence')).toBe(1000000);
+    expect(getNestedValue(base, 'limitOptions[1].id')).toBe('b');
+    expect(getNestedValue(base, 'limitOptions[id=zzz].perOccurrence')).toBeUndefined();
+
+    const set = setNestedValue(reordered, 'limitOptions[id=a].perOccurrence', 750000);
+    expect((set.limitOptions as typeof base.limitOptions)[1]).toEqual({ id: 'a', perOccurrence: 750000, aggregate: 1000000 });
+    // A missing item is not conjured up by a field write
+    expect(setNestedValue(base, 'limitOptions[id=zzz].perOccurrence', 1)).toEqual(base);
+  });
+
+  it('enumerates keyed lists by item and leaves other lists whole', () => {
+    expect(enumerateLeafPaths(base).map(l => l.path)).toEqual([
+      'limitOptions[id=a].aggregate',
+      'limitOptions[id=a].id',
+      'limitOptions[id=a].perOccurrence',
+      'limitOptions[id=b].aggregate',
+      'limitOptions[id=b].id',
+      'limitOptions[id=b].perOccurrence',
+      'territories',
+    ]);
+  });
+
+  it('inserts after a sibling, first, or last', () => {
+    const item = { id: 'c', perOccurrence: 2000000 };
+    const ids = (cfg: Record<string, unknown>) => (cfg.limitOptions as Array<{ id: string }>).map(o => o.id);
+    expect(ids(insertListItem(base, 'limitOptions[id=c]', item, 'a'))).toEqual(['a', 'c', 'b']);
+    expect(ids(insertListItem(base, 'limitOptions[id=c]', item, null))).toEqual(['c', 'a', 'b']);
+    expect(ids(insertListItem(base, 'limitOptions[id=c]', item))).toEqual(['a', 'b', 'c']);
+    expect(ids(removeNestedValue(base, 'limitOptions[id=a]'))).toEqual(['b']);
+  });
+
+  const overrides: Record<string, Override> = {
+    'limitOptions[id=a].perOccurrence': makeOverride('limitOptions[id=a].perOccurrence', 500000, 750000),
+    'limitOptions[id=b]': makeOverride('limitOptions[id=b]', base.limitOptions[1], null, { op: 'remove' }),
+    'limitOptions[id=ny]': makeOverride('limitOptions[id=ny]', null, { id: 'ny', perOccurrence: 300000 }, {
+      op: 'insert', insertAfter: null,
+    }),
+    'limitOptions[id=ny].aggregate': makeOverride('limitOptions[id=ny].aggregate', undefined, 600000),
+  };
+
+  it('applies removals, then inserts, then sets', () => {
+    expect(applyOverrides(base, overrides).limitOptions).toEqual([
+      { id: 'ny', perOccurrence: 300000, aggregate: 600000 },
+      { id: 'a', perOccurrence: 750000, aggregate: 1000000 },
+    ]);
+  });
+
+  it('diffs items by key so reordering the base is not a conflict', () => {
+    const diff = computeDiff(reordered, overrides, 'NY', 'New York');
+    const status = (path: string) => diff.entries.find(e => e.path === path)?.status;
+
+    expect(diff.conflictCount).toBe(0);
+    expect(status('limitOptions[id=a].perOccurrence')).toBe('overridden');
+    expect(status('limitOptions[id=b]')).toBe('removed');
+    expect(status('limitOptions[id=b].aggregate')).toBe('removed');
+    expect(status('limitOptions[id=ny]')).toBe('added');
+    expect(diff.entries.find(e => e.path === 'limitOptions[id=b]')!.effectiveValue).toBeUndefined();
+  });
+
+  it('flags removals of changed items and inserts that collide with a new base item', () => {
+    const changed = {
+      limitOptions: [
+        { id: 'a', perOccurrence: 500000, aggregate: 1000000 },
+        { id: 'b', perOccurrence: 1500000, aggregate: 2000000 },
+        { id: 'ny', perOccurrence: 250000 },
+      ],
+    };
+    expect(detectConflicts(changed, overrides).map(c => c.path)).toEqual([
+      'limitOptions[id=b]', 'limitOptions[id=ny]',
+    ]);
+    expect(detectConflicts(base, overrides).map(c => c.path)).toEqual([]);
+  });
+
+  it('validates inserts against the target list and skips value checks for removals', () => {
+    expect(validateOverrides(base, overrides).map(e => [e.path, e.type])).toEqual([
+      ['limitOptions[id=ny].aggregate', 'orphaned_override'],
+    ]);
+    const noList = { other: 1 };
+    expect(validateOverrides(noList, { 'limitOptions[id=ny]': overrides['limitOptions[id=ny]'] })[0].type)
+      .toBe('orphaned_override');
+  });
+
+  it('auto-resolves a removal the base also made', () => {
+    const merge = mergeOverrides({ limitOptions: [base.limitOptions[0]] }, {
+      'limitOptions[id=b]': overrides['limitOptions[id=b]'],
+    }, 'NY', 'New York');
+    expect(merge.entries[0]).toMatchObject({ status: 'auto_resolved', resolution: 'accept_base' });
+  });
+
+  it('labels list paths with the item key', () => {
+    expect(pathToLabel('limitOptions[id=a].perOccurrence')).toBe('Per Occurrence (a)');
+    expect(pathToLabel('limitOptions[id=a]')).toBe('Limit Options (a)');
+    expect(pathToLabel('forms[0]')).toBe('Forms (#1)');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// 11. Acceptance criteria
 // ════════════════════════════════════════════════════════════════════════
 
 describe('Acceptance: explain how NY differs and overrides survive base edits', () => {
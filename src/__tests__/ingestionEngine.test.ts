@@ -7,6 +7,7 @@
  *   - Anchor generation (hash-based, stable)
  *   - Section tree building
  *   - Quality scoring and warning detection
+ *   - Extraction confidence (text layer / OCR)
  *   - Full pipeline integration
  */
 
@@ -18,6 +19,7 @@ import {
   scoreQuality,
   detectWarnings,
   runIngestionPipeline,
+  textLayerConfidence,
   type PageText,
   type IngestionInput,
 } from '../engine/ingestionEngine';
@@ -357,6 +359,55 @@ describe('detectWarnings', () => {
     const warnings = detectWarnings([]);
     expect(warnings.some(w => w.type === 'short_document' && w.severity === 'error')).toBe(true);
   });
+
+  it('notes OCR-recovered pages and flags unreliable ones', () => {
+    const text = 'EXCLUSIONS This insurance does not apply to expected or intended injury.';
+    const warnings = detectWarnings([
+      { ...makePage(1, text), source: 'ocr', confidence: 0.91 },
+      { ...makePage(2, text), source: 'ocr', confidence: 0.42 },
+    ]);
+    expect(warnings.filter(w => w.pageRef).map(w => [w.type, w.pageRef, w.severity])).toEqual([
+      ['ocr_applied', 1, 'info'],
+      ['low_confidence', 2, 'warning'],
+    ]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Extraction Confidence
+// ════════════════════════════════════════════════════════════════════════
+
+describe('extraction confidence', () => {
+  const body = 'COVERAGE A\n' + 'We will pay those sums the insured becomes legally obligated to pay. '.repeat(20);
+
+  it('rates the text layer by density, artifacts and encoding', () => {
+    expect(textLayerConfidence(body)).toBe(1);
+    expect(textLayerConfidence('Page 1')).toBe(0.2);
+    expect(textLayerConfidence('!@#$%^&*()_+{}|:"<>?'.repeat(15))).toBe(0.6);
+  });
+
+  it('lowers the score with page confidence and leaves unrated pages alone', () => {
+    const unrated = [makePage(1, body)];
+    const chunks = buildChunks(unrated);
+    const sections = buildSections(chunks);
+    const base = scoreQuality(unrated, chunks, sections, []);
+
+    expect(scoreQuality([{ ...unrated[0], confidence: 1 }], chunks, sections, [])).toBe(base);
+    expect(scoreQuality([{ ...unrated[0], source: 'ocr', confidence: 0.7 }], chunks, sections, [])).toBe(base - 6);
+  });
+
+  it('reports per-page extraction in the pipeline result', () => {
+    const result = runIngestionPipeline(makeInput([
+      { ...makePage(1, body), source: 'text', confidence: 1, columnCount: 2 },
+      { ...makePage(2, body), source: 'ocr', confidence: 0.8 },
+    ]));
+    expect(result.pageExtraction).toEqual([
+      { pageNumber: 1, source: 'text', confidence: 100, columnCount: 2, charCount: body.length },
+      { pageNumber: 2, source: 'ocr', confidence: 80, columnCount: 1, charCount: body.length },
+    ]);
+    expect(result.extractionConfidence).toBe(90);
+    expect(runIngestionPipeline(makeInput([makePage(1, body)])).extractionConfidence).toBeNull();
+  });
 });
 
 // ════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,145 @@
+/**
+ * Page Layout Tests
+ *
+ * Tests line grouping, column gutter detection, reading-order
+ * reconstruction for two-column pages, and OCR candidate selection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectColumnGutter,
+  groupLines,
+  needsOcr,
+  preferOcr,
+  reconstructReadingOrder,
+  type PositionedText,
+} from '../engine/pageLayout';
+import type { PageText } from '../engine/ingestionEngine';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+const PAGE_WIDTH = 612;
+
+function run(str: string, x: number, y: number, width = str.length * 5): PositionedText {
+  return { str, x, y, width, height: 10 };
+}
+
+/** Column text at 14pt leading, starting at `top` */
+function column(prefix: string, x: number, top: number, lines: number): PositionedText[] {
+  return Array.from({ length: lines }, (_, i) => run(`${prefix} line ${i + 1}`, x, top - i * 14, 230));
+}
+
+// Heading across both columns, two columns, then a full-width footer.
+// Items arrive in content-stream order, which interleaves the columns.
+const twoColumn: PositionedText[] = [
+  run('SECTION I - COVERAGES', 200, 740, 212),
+  ...column('Left', 50, 700, 4).flatMap((item, i) => [item, column('Right', 330, 700, 4)[i]]),
+  run('CG 00 01 04 13 Copyright, Insurance Services Office, Inc.', 60, 600, 480),
+  ...column('Lower left', 50, 560, 3),
+  ...column('Lower right', 330, 560, 3),
+];
+
+// ════════════════════════════════════════════════════════════════════════
+// Lines
+// ════════════════════════════════════════════════════════════════════════
+
+describe('groupLines', () => {
+  it('merges runs on a baseline left to right and orders lines top down', () => {
+    const lines = groupLines([
+      run('world', 80, 699.5, 25),
+      run('Second', 50, 686, 30),
+      run('Hello', 50, 700, 25),
+      run('  ', 300, 600),
+    ]);
+    expect(lines.map(l => l.text)).toEqual(['Hello world', 'Second']);
+  });
+
+  it('does not add spaces inside a word split across runs', () => {
+    expect(groupLines([run('Insur', 50, 700, 25), run('ance', 75, 700, 20)])[0].text).toBe('Insurance');
+  });
+
+  it('separates table cells on a baseline with a tab', () => {
+    const [line] = groupLines([
+      run('Each Occurrence ', 50, 700, 80),
+      run('$1,000,000', 300, 700, 50),
+      run('$2,000,000', 420, 700, 50),
+    ]);
+    expect(line.text).toBe('Each Occurrence\t$1,000,000\t$2,000,000');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Columns
+// ════════════════════════════════════════════════════════════════════════
+
+describe('detectColumnGutter', () => {
+  it('finds the gutter between two columns despite full-width lines', () => {
+    const gutter = detectColumnGutter(twoColumn, PAGE_WIDTH);
+    expect(gutter).not.toBeNull();
+    expect(gutter!).toBeGreaterThan(280);
+    expect(gutter!).toBeLessThan(330);
+  });
+
+  it('treats prose and short label blocks as one column', () => {
+    const prose = Array.from({ length: 10 }, (_, i) => run(`Full width line ${i}`, 50, 700 - i * 14, 500));
+    expect(detectColumnGutter(prose, PAGE_WIDTH)).toBeNull();
+
+    const sidebar = [...column('Label', 50, 700, 3), ...column('Body', 330, 600, 3)];
+    expect(detectColumnGutter(sidebar, PAGE_WIDTH)).toBeNull();
+  });
+});
+
+describe('reconstructReadingOrder', () => {
+  it('reads each column band top to bottom, keeping spanning lines in place', () => {
+    const layout = reconstructReadingOrder(twoColumn, PAGE_WIDTH);
+    const lines = layout.text.split('\n').filter(Boolean);
+
+    expect(layout.columnCount).toBe(2);
+    expect(lines).toEqual([
+      'SECTION I - COVERAGES',
+      'Left line 1', 'Left line 2', 'Left line 3', 'Left line 4',
+      'Right line 1', 'Right line 2', 'Right line 3', 'Right line 4',
+      'CG 00 01 04 13 Copyright, Insurance Services Office, Inc.',
+      'Lower left line 1', 'Lower left line 2', 'Lower left line 3',
+      'Lower right line 1', 'Lower right line 2', 'Lower right line 3',
+    ]);
+  });
+
+  it('separates paragraphs on single-column pages', () => {
+    const layout = reconstructReadingOrder([
+      run('EXCLUSIONS', 50, 700, 60),
+      run('a. Expected or intended injury', 50, 686, 200),
+      run('b. Contractual liability', 50, 672, 200),
+      run('CONDITIONS', 50, 630, 60),
+    ], PAGE_WIDTH);
+    expect(layout.columnCount).toBe(1);
+    expect(layout.text).toBe('EXCLUSIONS\na. Expected or intended injury\nb. Contractual liability\n\nCONDITIONS');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// OCR selection
+// ════════════════════════════════════════════════════════════════════════
+
+describe('OCR selection', () => {
+  const page = (text: string, confidence?: number, source: PageText['source'] = 'text'): PageText =>
+    ({ pageNumber: 1, text, charCount: text.length, source, confidence });
+  const prose = 'We will pay those sums that the insured becomes legally obligated to pay.';
+
+  it('picks sparse or low-confidence pages', () => {
+    expect(needsOcr(page(''))).toBe(true);
+    expect(needsOcr(page(prose, 0.2))).toBe(true);
+    expect(needsOcr(page(prose, 1))).toBe(false);
+    expect(needsOcr(page(prose))).toBe(false);
+  });
+
+  it('keeps OCR text only when it beats the text layer', () => {
+    expect(preferOcr(page(''), page(prose, 0.8, 'ocr'))).toBe(true);
+    expect(preferOcr(page(''), page(prose, 0.1, 'ocr'))).toBe(false);
+    expect(preferOcr(page(''), page('', 0.9, 'ocr'))).toBe(false);
+    expect(preferOcr(page(prose, 0.3), page(prose, 0.85, 'ocr'))).toBe(true);
+    expect(preferOcr(page(prose, 0.9), page(prose, 0.85, 'ocr'))).toBe(false);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Rate Impact Tests
+ *
+ * Tests policy sample parsing, overall and segment premium changes,
+ * histogram bucketing, capping / off-balance, and the saved exhibit shape.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildHistogram,
+  buildRateImpactExhibit,
+  detectColumnMapping,
+  parsePolicySample,
+  runRateImpact,
+} from '../engine/rateImpact';
+import type { RatingStep } from '../types/ratingEngine';
+import type { RateImpactPolicy } from '../types/rateImpact';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+function step(overrides: Partial<RatingStep>): RatingStep {
+  return {
+    id: 'step',
+    rateProgramVersionId: 'rpv',
+    order: 1,
+    type: 'expression',
+    name: 'Step',
+    outputFieldCode: 'final_premium',
+    inputs: [],
+    enabled: true,
+    roundingMode: 'none',
+    roundingPrecision: 2,
+    allStates: true,
+    ...overrides,
+  };
+}
+
+const currentSteps = [
+  step({ id: 'p', inputs: ['exposure'], expression: 'exposure * 10' }),
+];
+
+// Proposed: +20% for class A, -10% for class B
+const proposedSteps = [
+  step({
+    id: 'f', order: 1, type: 'conditional', outputFieldCode: 'class_factor', inputs: ['class_code'],
+    condition: { fieldCode: 'class_code', operator: 'eq', value: 'A' }, thenValue: 1.2, elseValue: 0.9,
+  }),
+  step({ id: 'p', order: 2, inputs: ['exposure', 'class_factor'], expression: 'exposure * 10 * class_factor' }),
+];
+
+function policy(policyId: string, classCode: string, exposure: number, stateCode = 'TX'): RateImpactPolicy {
+  return { policyId, stateCode, classCode, inputs: { exposure, class_code: classCode, state: stateCode } };
+}
+
+const book = [
+  policy('P1', 'A', 100),
+  policy('P2', 'A', 300, 'CA'),
+  policy('P3', 'B', 200),
+  policy('P4', 'B', 400, 'CA'),
+];
+
+const baseInput = {
+  policies: book,
+  currentSteps,
+  currentVersionId: 'v1',
+  proposedSteps,
+  proposedVersionId: 'v2',
+  effectiveDate: new Date('2025-01-01'),
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// Sample parsing
+// ════════════════════════════════════════════════════════════════════════
+
+describe('parsePolicySample', () => {
+  it('detects identifying columns from common header names', () => {
+    expect(detectColumnMapping(['Policy Number', 'State', 'Class Code', 'Exposure'])).toEqual({
+      policyId: 'Policy Number', stateCode: 'State', classCode: 'Class Code',
+    });
+    expect(detectColumnMapping(['exposure'])).toBeNull();
+  });
+
+  it('coerces cells into rating inputs and reports bad rows', () => {
+    const { policies, errors } = parsePolicySample([
+      { policy_id: 'P1', state: 'TX', tiv: '$1,250,000', sprinklered: 'TRUE', notes: '' },
+      { policy_id: '', state: 'TX', tiv: 10 },
+      { policy_id: 'P1', state: 'CA', tiv: 20 },
+    ], { policyId: 'policy_id', stateCode: 'state' });
+
+    expect(policies).toEqual([{
+      policyId: 'P1',
+      stateCode: 'TX',
+      inputs: { state: 'TX', tiv: 1250000, sprinklered: true, notes: null },
+    }]);
+    expect(errors).toEqual([
+      { row: 3, message: 'Missing policy_id' },
+      { row: 4, message: 'Duplicate policy P1' },
+    ]);
+  });
+
+  it('keeps codes and values with leading zeros as text', () => {
+    const { policies } = parsePolicySample([
+      { policy_id: 1001, state: 'NJ', class: 5403, zip: '07030', terr: '002', tiv: '0.5', deductible: '0' },
+    ], { policyId: 'policy_id', stateCode: 'state', classCode: 'class', territory: 'terr', codeColumns: ['sic'] });
+
+    expect(policies).toEqual([{
+      policyId: '1001',
+      stateCode: 'NJ',
+      classCode: '5403',
+      territory: '002',
+      inputs: { state: 'NJ', class: '5403', zip: '07030', terr: '002', tiv: 0.5, deductible: 0 },
+    }]);
+
+    const coded = parsePolicySample([{ policy_id: 'P1', sic: 1711 }], { policyId: 'policy_id', codeColumns: ['sic'] });
+    expect(coded.policies[0].inputs).toEqual({ sic: '1711' });
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Impact
+// ════════════════════════════════════════════════════════════════════════
+
+describe('runRateImpact', () => {
+  it('computes premium-weighted overall change and the per-policy distribution', () => {
+    const { summary, policies } = runRateImpact(baseInput);
+
+    // current 10000, proposed 1200 + 3600 + 1800 + 3600 = 10200
+    expect(summary).toMatchObject({
+      policyCount: 4, ratedCount: 4, failedCount: 0,
+      currentPremium: 10000, proposedPremium: 10200, changePct: 2,
+      averageChangePct: 5, medianChangePct: 5, minChangePct: -10, maxChangePct: 20,
+      increasedCount: 2, decreasedCount: 2, unchangedCount: 0,
+    });
+    expect(policies.map(p => p.changePct)).toEqual([20, 20, -10, -10]);
+  });
+
+  it('segments by state and class, largest movement first', () => {
+    const { segments } = runRateImpact(baseInput);
+    expect(segments.map(s => [s.dimension, s.key, s.changePct])).toEqual([
+      ['state', 'CA', 2.86],
+      ['state', 'TX', 0],
+      ['class', 'A', 20],
+      ['class', 'B', -10],
+    ]);
+  });
+
+  it('computes the same figures for each state on its own', () => {
+    const { byState } = runRateImpact(baseInput);
+
+    expect(Object.keys(byState)).toEqual(['CA', 'TX']);
+    expect(byState.CA.summary).toMatchObject({ policyCount: 2, currentPremium: 7000, proposedPremium: 7200, changePct: 2.86 });
+    expect(byState.TX.summary).toMatchObject({ policyCount: 2, currentPremium: 3000, proposedPremium: 3000, changePct: 0 });
+    expect(byState.CA.segments.map(s => [s.dimension, s.key, s.changePct])).toEqual([
+      ['class', 'A', 20],
+      ['class', 'B', -10],
+    ]);
+  });
+
+  it('caps per-policy movement and reports the off-balance factor', () => {
+    const { policies, capping } = runRateImpact({ ...baseInput, caps: { maxIncreasePct: 10, maxDecreasePct: 5 } });
+
+    expect(policies[0]).toMatchObject({ cappedPremium: 1100, cappedChangePct: 10, capped: 'increase' });
+    expect(policies[2]).toMatchObject({ cappedPremium: 1900, cappedChangePct: -5, capped: 'decrease' });
+    // capped: 1100 + 3300 + 1900 + 3800 = 10100
+    expect(capping).toEqual({
+      maxIncreasePct: 10, maxDecreasePct: 5,
+      cappedIncreaseCount: 2, cappedDecreaseCount: 2,
+      uncappedPremium: 10200, cappedPremium: 10100, cappedChangePct: 1,
+      offBalanceFactor: 1.0099,
+    });
+  });
+
+  it('reports policies either version cannot rate and excludes them', () => {
+    const broken = [step({ id: 'p', inputs: ['exposure'], expression: 'exposure *' })];
+    const output = runRateImpact({
+      ...baseInput,
+      policies: [...book, { policyId: 'P5', inputs: {} }],
+      proposedSteps: [...proposedSteps.slice(0, 1), ...broken.map(s => ({ ...s, order: 2 }))],
+    });
+    expect(output.summary.ratedCount).toBe(0);
+    expect(output.failures.map(f => [f.policyId, f.version])).toEqual([
+      ['P1', 'proposed'], ['P2', 'proposed'], ['P3', 'proposed'], ['P4', 'proposed'], ['P5', 'current'],
+    ]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Histogram & exhibit
+// ════════════════════════════════════════════════════════════════════════
+
+describe('buildHistogram', () => {
+  it('uses half-open buckets with open ends', () => {
+    const buckets = buildHistogram([-12, -5, 0, 0, 4.99, 5, 30], [-5, 0, 5]);
+    expect(buckets.map(b => [b.label, b.count])).toEqual([
+      ['< -5%', 1],
+      ['-5% to 0%', 1],
+      ['0% to 5%', 3],
+      ['≥ 5%', 2],
+    ]);
+    expect(buckets[2].pctOfPolicies).toBe(42.86);
+  });
+});
+
+describe('buildRateImpactExhibit', () => {
+  it('keeps aggregates and top movers with a stable hash', () => {
+    const output = runRateImpact(baseInput);
+    const meta = {
+      title: 'Impact', rateProgramId: 'rp', currentVersionId: 'v1', proposedVersionId: 'v2',
+      effectiveDate: new Date('2025-01-01'), changeSetId: 'cs-1',
+    };
+    const exhibit = buildRateImpactExhibit(output, meta);
+
+    expect(exhibit).toMatchObject({ effectiveDate: '2025-01-01', premiumField: 'final_premium', changeSetId: 'cs-1' });
+    expect(exhibit.topMovers.map(p => p.policyId)).toEqual(['P1', 'P2', 'P3', 'P4']);
+    expect(exhibit).not.toHaveProperty('sampleFileName');
+    expect(buildRateImpactExhibit(runRateImpact(baseInput), meta).resultHash).toBe(exhibit.resultHash);
+  });
+
+  it('keeps per-state figures for state-scoped filings', () => {
+    const meta = {
+      title: 'Impact', rateProgramId: 'rp', currentVersionId: 'v1', proposedVersionId: 'v2',
+      effectiveDate: new Date('2025-01-01'),
+    };
+    const exhibit = buildRateImpactExhibit(runRateImpact(baseInput), meta);
+    expect(exhibit.stateFigures?.CA.topMovers.map(p => p.policyId)).toEqual(['P2', 'P4']);
+    expect(exhibit.stateFigures?.TX.summary.changePct).toBe(0);
+
+    const noStates = runRateImpact({ ...baseInput, policies: book.map(p => ({ ...p, stateCode: undefined })) });
+    expect(buildRateImpactExhibit(noStates, meta)).not.toHaveProperty('stateFigures');
+  });
+});
@@ -19,11 +19,21 @@ import {
   evaluate,
   validateDeterminism,
   runTestCase,
+  evaluatePolicy,
+  toRatingTableData,
 } from '../engine/ratingEngine';
+import {
+  ExpressionError,
+  parseExpression,
+  getStepAst,
+  collectFieldReferences,
+  renderExpression,
+} from '../engine/expressionParser';
 import {
   createHash,
   canonicalStringify,
   hashSteps,
+  hashRateProgram,
   hashInputs,
   hashOutputs,
   combineHashes,
@@ -33,7 +43,10 @@ import type {
   EvaluationContext,
   RatingTableData,
   RatingTestCase,
+  PolicyAggregation,
+  ExposureUnit,
 } from '../types/ratingEngine';
+import type { TableVersion } from '../types/table';
 
 // ============================================================================
 // Test Fixtures
@@ -191,6 +204,80 @@ describe('evaluateExpression', () => {
   });
 });
 
+describe('expression language', () => {
+  it('supports min, max, round and clamp', () => {
+    const values = { premium: 1234.567, floor_amt: 500 };
+    expect(evaluateExpression('max(premium, floor_amt)', values).result).toBe(1234.567);
+    expect(evaluateExpression('min(premium, floor_amt, 900)', values).result).toBe(500);
+    expect(evaluateExpression('round(premium, 2)', values).result).toBe(1234.57);
+    expect(evaluateExpression('round(premium)', values).result).toBe(1235);
+    expect(evaluateExpression('clamp(premium, 0, 1000)', values).result).toBe(1000);
+  });
+
+  it('evaluates if() lazily with comparison conditions', () => {
+    const values = { age: 20, zero: 0 };
+    expect(evaluateExpression('if(age < 25, 1.5, 1.0)', values).result).toBe(1.5);
+    // The untaken branch would divide by zero
+    expect(evaluateExpression('if(age >= 25 && age < 65, 1 / zero, 2)', values).result).toBe(2);
+  });
+
+  it('looks up table values by positional dimensions', () => {
+    const tables = new Map<string, RatingTableData>([
+      ['terr-v1', {
+        tableVersionId: 'terr-v1',
+        dimensions: [{ name: 'Territory', fieldCode: 'territory', values: ['1', '2'] }],
+        values: { '1': 1.1, '2': 1.3 },
+      }],
+    ]);
+    const result = evaluateExpression('base * lookup("terr-v1", terr)', { base: 100, terr: 2 }, tables);
+    expect(result.result).toBeCloseTo(130);
+  });
+
+  it('does not confuse field codes that are prefixes of each other', () => {
+    const values = { rate: 2, rate_factor: 3 };
+    const result = evaluateExpression('rate * rate_factor', values);
+    expect(result.result).toBe(6);
+    expect(result.evaluatedExpression).toBe('2 * 3');
+  });
+
+  it('renders the trace from the AST with minimal parentheses', () => {
+    const result = evaluateExpression('(a + b) * c - max(a, 2 ^ 3)', { a: 1, b: 2, c: 3 });
+    expect(result.result).toBe(1);
+    expect(result.evaluatedExpression).toBe('(1 + 2) * 3 - max(1, 2 ^ 3)');
+  });
+
+  it('raises typed errors with column positions', () => {
+    try {
+      evaluateExpression('base * missing_field', { base: 1 });
+      expect.fail('expected an error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExpressionError);
+      expect((error as ExpressionError).code).toBe('UNKNOWN_FIELD');
+      expect((error as ExpressionError).column).toBe(8);
+    }
+
+    expect(() => parseExpression('1 + * 2')).toThrow(/column 5/);
+    expect(() => parseExpression('clamp(1, 2)')).toThrowError(ExpressionError);
+    expect(() => parseExpression('(1 + 2')).toThrow(/Expected '\)'/);
+    expect(() => evaluateExpression('1 / 0', {})).toThrow(/Division by zero/);
+  });
+
+  it('caches the AST per step until the formula changes', () => {
+    const step = createTestStep({ type: 'expression', expression: 'a + 1', inputs: ['a'] });
+    const first = getStepAst(step);
+    expect(getStepAst(step)).toBe(first);
+
+    step.expression = 'a + 2';
+    const second = getStepAst(step);
+    expect(second).not.toBe(first);
+    expect(renderExpression(second)).toBe('a + 2');
+  });
+
+  it('collects field references', () => {
+    expect(collectFieldReferences(parseExpression('if(x > 1, y, min(x, z))'))).toEqual(['x', 'y', 'z']);
+  });
+});
+
 // ============================================================================
 // Table Lookup Tests
 // ============================================================================
@@ -228,6 +315,115 @@ describe('tableLookup', () => {
     const result = tableLookup(testTable, { driver_age: 'unknown', territory: 'urban' });
     expect(result).toBeNull();
   });
+
+  const aoiTable: RatingTableData = {
+    tableVersionId: 'aoi-v1',
+    dimensions: [
+      {
+        name: 'Amount of Insurance',
+        fieldCode: 'aoi',
+        values: ['small', 'medium', 'large'],
+        valueType: 'range',
+        ranges: [
+          { label: 'small', min: 0, max: 100000, inclusive: 'min' },
+          { label: 'medium', min: 100000, max: 500000, inclusive: 'min' },
+          { label: 'large', min: 500000, max: Number.MAX_SAFE_INTEGER, inclusive: 'both' },
+        ],
+      },
+    ],
+    values: { small: 1.2, medium: 1.0, large: 0.85 },
+  };
+
+  const ilfTable: RatingTableData = {
+    tableVersionId: 'ilf-v1',
+    dimensions: [
+      { name: 'Limit', fieldCode: 'limit', values: ['100000', '1000000', '300000'], valueType: 'number' },
+    ],
+    values: { '100000': 1.0, '300000': 1.3, '1000000': 1.6 },
+  };
+
+  it('buckets numeric inputs into ranges respecting inclusivity', () => {
+    expect(tableLookup(aoiTable, { aoi: 99999 }, { mode: 'range' })?.value).toBe(1.2);
+    const atBoundary = tableLookup(aoiTable, { aoi: 100000 }, { mode: 'range' });
+    expect(atBoundary?.value).toBe(1.0);
+    expect(atBoundary?.detail.dimensions[0].method).toBe('range');
+    expect(atBoundary?.detail.dimensions[0].range?.label).toBe('medium');
+    expect(tableLookup(aoiTable, { aoi: -5 }, { mode: 'range' })).toBeNull();
+  });
+
+  it('does not bucket in exact mode', () => {
+    expect(tableLookup(aoiTable, { aoi: 99999 })).toBeNull();
+  });
+
+  it('interpolates linearly between breakpoints', () => {
+    const result = tableLookup(ilfTable, { limit: 200000 }, { mode: 'interpolate' });
+    expect(result?.value).toBeCloseTo(1.15);
+    const dim = result?.detail.dimensions[0];
+    expect(dim?.lowerBreakpoint).toBe('100000');
+    expect(dim?.upperBreakpoint).toBe('300000');
+    expect(dim?.fraction).toBeCloseTo(0.5);
+    expect(result?.detail.cells).toHaveLength(2);
+  });
+
+  it('interpolates on a log scale', () => {
+    const result = tableLookup(ilfTable, { limit: 500000 }, { mode: 'interpolate', interpolationScale: 'log' });
+    const fraction = Math.log(500000 / 300000) / Math.log(1000000 / 300000);
+    expect(result?.value).toBeCloseTo(1.3 + 0.3 * fraction, 10);
+    expect(result?.detail.interpolationScale).toBe('log');
+  });
+
+  it('returns breakpoint values exactly and refuses to extrapolate', () => {
+    expect(tableLookup(ilfTable, { limit: 300000 }, { mode: 'interpolate' })?.value).toBe(1.3);
+    expect(tableLookup(ilfTable, { limit: 2000000 }, { mode: 'interpolate' })).toBeNull();
+  });
+
+  it('selects the nearest lower breakpoint', () => {
+    const result = tableLookup(ilfTable, { limit: 999999 }, { mode: 'nearestLower' });
+    expect(result?.value).toBe(1.3);
+    expect(result?.detail.dimensions[0].matchedValue).toBe('300000');
+    expect(tableLookup(ilfTable, { limit: 50000 }, { mode: 'nearestLower' })).toBeNull();
+  });
+
+  it('records lookup detail in the step trace', () => {
+    const steps = [
+      createTestStep({
+        id: 'ilf',
+        type: 'tableLookup',
+        outputFieldCode: 'ilf_factor',
+        inputs: ['limit'],
+        tableVersionId: 'ilf-v1',
+        lookupDimensions: [{ dimensionName: 'Limit', fieldCode: 'limit' }],
+        lookupMode: 'interpolate',
+      }),
+    ];
+    const context: EvaluationContext = {
+      inputs: { limit: 200000 },
+      effectiveDate: new Date(),
+      tables: new Map([['ilf-v1', ilfTable]]),
+    };
+
+    const result = evaluate(steps, context, 'rpv-1');
+    expect(result.outputs['ilf_factor']).toBeCloseTo(1.15);
+    expect(result.trace[0].tableLookupDetail?.mode).toBe('interpolate');
+    expect(result.trace[0].tableLookupKey).toBe('100000 | 300000');
+  });
+
+  it('converts stored table versions into lookup form', () => {
+    const dims = [
+      { id: 'd2', name: 'Class', fieldCode: 'class', position: 1, values: ['A', 'B'], valueType: 'string' as const },
+      { id: 'd1', name: 'Territory', fieldCode: 'territory', position: 0, values: ['1', '2'], valueType: 'string' as const },
+    ];
+    const version = (cellStorage: TableVersion['cellStorage']) =>
+      ({ id: 'tv1', tableId: 't1', versionNumber: 1, status: 'published', dimensions: dims, cellStorage }) as TableVersion;
+
+    const dense = toRatingTableData(version({ mode: 'dense', denseValues: [1, 1.1, null, 1.3] }));
+    expect(dense.dimensions.map(d => d.fieldCode)).toEqual(['territory', 'class']);
+    expect(dense.values).toEqual({ '1-A': 1, '1-B': 1.1, '2-B': 1.3 });
+
+    const sparse = toRatingTableData(version({ mode: 'sparse', cells: { '2|A': { value: 0.9 } }, defaultValue: 1 }));
+    expect(sparse.values).toEqual({ '1-A': 1, '1-B': 1, '2-A': 0.9, '2-B': 1 });
+    expect(tableLookup(sparse, { territory: '2', class: 'A' })?.value).toBe(0.9);
+  });
 });
 
 // ============================================================================
@@ -395,6 +591,241 @@ describe('evaluate', () => {
   });
 });
 
+// ============================================================================
+// Term Adjustment Tests
+// ============================================================================
+
+describe('termAdjustment steps', () => {
+  const premiumStep = createTestStep({
+    id: 'prem',
+    order: 1,
+    type: 'constant',
+    outputFieldCode: 'full_term_premium',
+    constantValue: 1000,
+  });
+
+  function termStep(overrides: Partial<RatingStep> = {}): RatingStep {
+    return createTestStep({
+      id: 'term',
+      order: 2,
+      type: 'termAdjustment',
+      outputFieldCode: 'earned_premium',
+      unearnedFieldCode: 'return_premium',
+      inputs: ['full_term_premium'],
+      roundingMode: 'nearest',
+      roundingPrecision: 2,
+      ...overrides,
+    });
+  }
+
+  // 2023-01-01 to 2024-01-01 is 365 days; cancel after 73 days = 20% of term
+  const cancellation: EvaluationContext = {
+    inputs: {},
+    effectiveDate: new Date('2023-01-01'),
+    policyTerm: {
+      effectiveDate: new Date('2023-01-01'),
+      expirationDate: new Date('2024-01-01'),
+      transactionDate: new Date('2023-03-15'),
+      transactionType: 'cancellation',
+    },
+  };
+
+  it('earns pro-rata by days in force', () => {
+    const result = evaluate([premiumStep, termStep({ earningMethod: 'proRata' })], cancellation, 'rpv-1');
+    expect(result.success).toBe(true);
+    expect(result.outputs['earned_premium']).toBe(200);
+    expect(result.outputs['return_premium']).toBe(800);
+    const detail = result.trace[1].termDetail;
+    expect(detail?.termDays).toBe(365);
+    expect(detail?.daysInForce).toBe(73);
+  });
+
+  it('earns the full term when there is no transaction date', () => {
+    const newBusiness: EvaluationContext = {
+      ...cancellation,
+      policyTerm: { effectiveDate: new Date('2023-01-01'), expirationDate: new Date('2024-01-01') },
+    };
+    const result = evaluate([premiumStep, termStep({ earningMethod: 'proRata' })], newBusiness, 'rpv-1');
+    expect(result.outputs['earned_premium']).toBe(1000);
+    expect(result.outputs['return_premium']).toBe(0);
+    expect(result.trace[1].termDetail?.daysInForce).toBe(365);
+  });
+
+  it('earns per the short-rate table', () => {
+    const step = termStep({
+      earningMethod: 'shortRate',
+      shortRateTable: [
+        { termPercent: 10, earnedPercent: 19 },
+        { termPercent: 25, earnedPercent: 35 },
+        { termPercent: 100, earnedPercent: 100 },
+      ],
+    });
+    const result = evaluate([premiumStep, step], cancellation, 'rpv-1');
+    expect(result.outputs['earned_premium']).toBe(350);
+    expect(result.trace[1].termDetail?.shortRateEntry?.termPercent).toBe(25);
+  });
+
+  it('earns nothing on a flat cancel, ignoring minimums', () => {
+    const step = termStep({ earningMethod: 'flat', minimumEarnedPremium: 100 });
+    const result = evaluate([premiumStep, step], cancellation, 'rpv-1');
+    expect(result.outputs['earned_premium']).toBe(0);
+    expect(result.outputs['return_premium']).toBe(1000);
+  });
+
+  it('applies minimum earned premium', () => {
+    const step = termStep({ earningMethod: 'proRata', minimumEarnedFraction: 0.25 });
+    const result = evaluate([premiumStep, step], cancellation, 'rpv-1');
+    expect(result.outputs['earned_premium']).toBe(250);
+    expect(result.trace[1].termDetail?.minimumApplied).toBe(250);
+  });
+
+  it('orders dependents of the unearned field after the term step', () => {
+    const charge = createTestStep({
+      id: 'charge',
+      order: 0,
+      type: 'factor',
+      outputFieldCode: 'refund_after_fee',
+      inputs: ['return_premium'],
+      factorValue: 0.9,
+    });
+    const result = evaluate([charge, premiumStep, termStep()], cancellation, 'rpv-1');
+    expect(result.outputs['refund_after_fee']).toBe(720);
+  });
+
+  it('skips without a policy term or when the transaction is outside it', () => {
+    const noTerm = evaluate([premiumStep, termStep()], { inputs: {}, effectiveDate: new Date() }, 'rpv-1');
+    expect(noTerm.trace[1].skipReason).toContain('No policy term');
+
+    const outside = evaluate([premiumStep, termStep()], {
+      ...cancellation,
+      policyTerm: { ...cancellation.policyTerm!, transactionDate: new Date('2024-06-01') },
+    }, 'rpv-1');
+    expect(outside.trace[1].skipReason).toContain('outside the policy term');
+  });
+});
+
+// ============================================================================
+// Multi-Unit Evaluation Tests
+// ============================================================================
+
+describe('evaluatePolicy', () => {
+  // Unit premium = building limit / 100 * rate
+  const unitSteps = [
+    createTestStep({ id: 'limit', order: 1, type: 'input', outputFieldCode: 'limit_in', inputs: ['building_limit'] }),
+    createTestStep({
+      id: 'prem',
+      order: 2,
+      type: 'expression',
+      outputFieldCode: 'unit_premium',
+      inputs: ['limit_in', 'rate'],
+      expression: 'limit_in / 100 * rate',
+    }),
+  ];
+
+  const units: ExposureUnit[] = [
+    { id: 'u1', locationId: 'loc-1', buildingId: 'b-1', coverageId: 'bldg', inputs: { building_limit: 100000 } },
+    { id: 'u2', locationId: 'loc-1', buildingId: 'b-2', coverageId: 'bldg', inputs: { building_limit: 50000, rate: 0.5 } },
+  ];
+
+  const aggregation: PolicyAggregation = {
+    rules: [
+      { id: 'sum', name: 'Total building premium', method: 'sum', sourceFieldCode: 'unit_premium', outputFieldCode: 'building_premium' },
+      { id: 'max', name: 'Largest unit', method: 'max', sourceFieldCode: 'unit_premium', outputFieldCode: 'max_unit_premium' },
+    ],
+    policySteps: [
+      createTestStep({
+        id: 'fee',
+        type: 'fee',
+        outputFieldCode: 'total_premium',
+        inputs: ['building_premium'],
+        feeAmount: 25,
+      }),
+    ],
+  };
+
+  const context = {
+    policyInputs: { rate: 0.25 },
+    units,
+    effectiveDate: new Date('2024-01-01'),
+  };
+
+  it('rates each unit with unit inputs layered over policy inputs', () => {
+    const result = evaluatePolicy(unitSteps, context, 'rpv-1', aggregation);
+    expect(result.success).toBe(true);
+    expect(result.units.map(u => u.result.outputs['unit_premium'])).toEqual([250, 250]);
+    expect(result.units[1].buildingId).toBe('b-2');
+  });
+
+  it('rolls up with sum and max, then runs policy steps', () => {
+    const result = evaluatePolicy(unitSteps, context, 'rpv-1', aggregation);
+    expect(result.outputs['building_premium']).toBe(500);
+    expect(result.outputs['max_unit_premium']).toBe(250);
+    expect(result.finalPremium).toBe(525);
+    expect(result.policyTrace).toHaveLength(1);
+    expect(result.aggregationTrace[0].contributions).toEqual([
+      { unitId: 'u1', value: 250 },
+      { unitId: 'u2', value: 250 },
+    ]);
+  });
+
+  it('applies minimum premium after roll-up', () => {
+    const withMinimum: PolicyAggregation = {
+      rules: [{ ...aggregation.rules[0], minimumPremium: 750 }],
+    };
+    const result = evaluatePolicy(unitSteps, context, 'rpv-1', withMinimum);
+    expect(result.outputs['building_premium']).toBe(750);
+    expect(result.aggregationTrace[0].aggregatedValue).toBe(500);
+    expect(result.aggregationTrace[0].minimumApplied).toBe(750);
+  });
+
+  it('prefixes unit errors with the unit and is deterministic', () => {
+    const broken = evaluatePolicy(unitSteps, { ...context, units: [{ id: 'u3', label: 'Bldg 3', inputs: {} }] }, 'rpv-1', aggregation);
+    expect(broken.success).toBe(false);
+    expect(broken.errors[0].message).toContain('[Bldg 3]');
+
+    const a = evaluatePolicy(unitSteps, context, 'rpv-1', aggregation);
+    const b = evaluatePolicy(unitSteps, context, 'rpv-1', aggregation);
+    expect(a.resultHash).toBe(b.resultHash);
+  });
+
+  it('runTestCase asserts per-unit outputs', () => {
+    const testCase: RatingTestCase = {
+      id: 'multi',
+      name: 'Two buildings',
+      rateProgramVersionId: 'rpv-1',
+      inputs: { rate: 0.25 },
+      units,
+      expectedOutputs: { building_premium: 500 },
+      expectedUnitOutputs: { u1: { unit_premium: 250 }, u2: { unit_premium: 999 } },
+      createdAt: new Date(),
+      createdBy: 'test',
+    };
+
+    const result = runTestCase(testCase, unitSteps, new Map(), aggregation);
+    expect(result.passed).toBe(false);
+    expect(result.actualUnitOutputs?.u2.unit_premium).toBe(250);
+    const failing = result.differences.filter(d => !d.withinTolerance);
+    expect(failing).toHaveLength(1);
+    expect(failing[0].unitId).toBe('u2');
+  });
+
+  it('runTestCase refuses units without aggregation rules', () => {
+    const testCase: RatingTestCase = {
+      id: 'multi',
+      name: 'Two buildings',
+      rateProgramVersionId: 'rpv-1',
+      inputs: { rate: 0.25 },
+      units,
+      expectedOutputs: {},
+      createdAt: new Date(),
+      createdBy: 'test',
+    };
+
+    expect(() => runTestCase(testCase, unitSteps, new Map())).toThrow(/aggregation rules/);
+    expect(() => runTestCase(testCase, unitSteps, new Map(), { rules: [] })).toThrow(/aggregation rules/);
+  });
+});
+
 // ============================================================================
 // Determinism Validation Tests
 // ============================================================================
@@ -441,6 +872,61 @@ describe('validateDeterminism', () => {
     expect(result.isValid).toBe(true);
   });
 
+  it('rejects expressions that reference undeclared inputs', () => {
+    const steps = [
+      createTestStep({
+        id: 'expr',
+        type: 'expression',
+        outputFieldCode: 'total_premium',
+        inputs: ['base'],
+        expression: 'base * territory_factor',
+      }),
+    ];
+
+    const result = validateDeterminism(steps, ['base', 'territory_factor']);
+    expect(result.isValid).toBe(false);
+    const error = result.errors.find(e => e.code === 'UNDECLARED_INPUT');
+    expect(error?.fieldCodes).toEqual(['territory_factor']);
+  });
+
+  it('reports lookups of unknown tables when the available tables are given', () => {
+    const steps = [
+      createTestStep({
+        id: 'expr',
+        type: 'expression',
+        outputFieldCode: 'total_premium',
+        inputs: ['base', 'terr'],
+        expression: 'base * lookup("terr-v1", terr) * lookup("terr-v9", terr)',
+      }),
+      createTestStep({ id: 'tbl', type: 'tableLookup', outputFieldCode: 'factor', tableVersionId: 'class-v2' }),
+    ];
+
+    expect(validateDeterminism(steps, ['base', 'terr']).errors.some(e => e.code === 'TABLE_NOT_FOUND')).toBe(false);
+
+    const result = validateDeterminism(steps, ['base', 'terr'], ['terr-v1']);
+    expect(result.errors.filter(e => e.code === 'TABLE_NOT_FOUND').map(e => e.message)).toEqual([
+      'Step "Test Step" expression looks up unknown tables: terr-v9',
+      'Step "Test Step" looks up unknown table version class-v2',
+    ]);
+  });
+
+  it('reports the column of expression syntax errors', () => {
+    const steps = [
+      createTestStep({
+        id: 'expr',
+        type: 'expression',
+        outputFieldCode: 'total_premium',
+        inputs: ['base'],
+        expression: 'base * (2 +',
+      }),
+    ];
+
+    const result = validateDeterminism(steps, ['base']);
+    const error = result.errors.find(e => e.code === 'INVALID_EXPRESSION');
+    expect(error).toBeDefined();
+    expect(error?.column).toBe(12);
+  });
+
   it('builds dependency graph', () => {
     const steps = [
       createTestStep({ id: 'a', order: 1, outputFieldCode: 'a_out', inputs: [] }),
@@ -491,6 +977,22 @@ describe('hashUtils', () => {
     expect(hash1).toBe(hash2);
   });
 
+  it('hashRateProgram covers the aggregation stage', () => {
+    const steps = [
+      { id: 'a', order: 1, type: 'constant', outputFieldCode: 'a_out' },
+    ] as unknown as RatingStep[];
+    const sum: PolicyAggregation = {
+      rules: [{ id: 'r1', name: 'Sum', method: 'sum', sourceFieldCode: 'a_out', outputFieldCode: 'total' }],
+    };
+    const max: PolicyAggregation = { rules: [{ ...sum.rules[0], method: 'max' }] };
+
+    expect(hashRateProgram(steps)).toBe(hashSteps(steps as unknown as { id: string }[]));
+    expect(hashRateProgram(steps, sum)).not.toBe(hashRateProgram(steps));
+    expect(hashRateProgram(steps, sum)).not.toBe(hashRateProgram(steps, max));
+    expect(hashRateProgram(steps, { ...sum, rules: [{ ...sum.rules[0], minimumPremium: 500 }] }))
+      .not.toBe(hashRateProgram(steps, sum));
+  });
+
   it('combineHashes creates deterministic combined hash', () => {
     const combined1 = combineHashes('abc', 'def', 'ghi');
     const combined2 = combineHashes('abc', 'def', 'ghi');
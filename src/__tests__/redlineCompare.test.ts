@@ -4,6 +4,7 @@
  * Covers:
  *   - Redline types (SectionDiff, ChunkDiff, ImpactCandidate, RedlineComparisonResult)
  *   - Redline engine (diffSections, diffChunks, computeImpact, computeStats, runRedlineComparison)
+ *   - Move detection, word-level redline and change classification
  *   - Edge cases: empty inputs, identical editions, all-new, all-removed
  */
 
@@ -33,11 +34,13 @@ import type { ClauseLink } from '../types/clause';
 import {
   diffSections,
   diffChunks,
+  classifyChange,
   computeImpact,
   computeStats,
   runRedlineComparison,
   type RedlineInput,
 } from '../engine/redlineEngine';
+import { diffWords, segmentsText, similarity } from '../engine/wordDiff';
 
 // ════════════════════════════════════════════════════════════════════════
 // Test helpers
@@ -122,7 +125,7 @@ function makeInput(overrides: Partial<RedlineInput> = {}): RedlineInput {
 
 describe('Redline Types', () => {
   it('SectionDiffStatus includes all expected values', () => {
-    const statuses: SectionDiffStatus[] = ['unchanged', 'modified', 'added', 'removed'];
+    const statuses: SectionDiffStatus[] = ['unchanged', 'modified', 'added', 'removed', 'moved'];
     statuses.forEach(s => {
       expect(SECTION_DIFF_CONFIG[s]).toBeDefined();
       expect(SECTION_DIFF_CONFIG[s].label).toBeTruthy();
@@ -162,9 +165,10 @@ describe('Redline Types', () => {
       sectionDiffs: [], chunkDiffs: [], impactCandidates: [],
       stats: {
         totalSections: 0, unchangedSections: 0, modifiedSections: 0,
-        addedSections: 0, removedSections: 0,
+        addedSections: 0, removedSections: 0, movedSections: 0,
         totalChunks: 0, unchangedChunks: 0, modifiedChunks: 0,
-        addedChunks: 0, removedChunks: 0,
+        addedChunks: 0, removedChunks: 0, movedChunks: 0,
+        broadeningChanges: 0, restrictingChanges: 0, editorialChanges: 0,
         impactCandidateCount: 0,
       },
     };
@@ -309,6 +313,147 @@ describe('diffChunks', () => {
   });
 });
 
+// ════════════════════════════════════════════════════════════════════════
+// Move detection and word-level redline
+// ════════════════════════════════════════════════════════════════════════
+
+const POLLUTION = 'Bodily injury or property damage arising out of the actual, alleged or threatened discharge of pollutants at any premises owned by an insured.';
+const NOTICE = 'You must see to it that we are notified as soon as practicable of an occurrence which may result in a claim, including how and where it took place.';
+const WAR = 'Bodily injury or property damage due to war, whether or not declared, or any act or condition incident to war, including civil war and insurrection.';
+
+describe('wordDiff', () => {
+  it('scores identical wording 1 and unrelated wording near 0', () => {
+    expect(similarity(POLLUTION, POLLUTION)).toBe(1);
+    expect(similarity(POLLUTION, POLLUTION.toUpperCase())).toBe(1);
+    expect(similarity(POLLUTION, NOTICE)).toBeLessThan(0.1);
+  });
+
+  it('produces word runs that rebuild both texts', () => {
+    const right = POLLUTION.replace('at any premises', 'at or from any premises, site or location');
+    const inline = diffWords(POLLUTION, right);
+    expect(inline.filter(s => s.op !== 'equal')).toEqual([
+      { op: 'insert', text: 'or from ' },
+      { op: 'delete', text: 'premises ' },
+      { op: 'insert', text: 'premises, site or location ' },
+    ]);
+    expect(segmentsText(inline, 'left')).toBe(POLLUTION);
+    expect(segmentsText(inline, 'right')).toBe(right);
+  });
+});
+
+describe('diffChunks move detection', () => {
+  it('pairs a paragraph moved to another section as moved', () => {
+    const lc = [
+      makeChunk({ id: 'l1', sectionPath: 'EXCLUSIONS', hash: 'war', index: 0, text: WAR }),
+      makeChunk({ id: 'l2', sectionPath: 'CONDITIONS', hash: 'notice', index: 1, text: NOTICE }),
+    ];
+    const rc = [
+      makeChunk({ id: 'r1', sectionPath: 'CONDITIONS', hash: 'notice', index: 0, text: NOTICE }),
+      makeChunk({ id: 'r2', sectionPath: 'CONDITIONS', hash: 'war', index: 1, text: WAR }),
+    ];
+    const diffs = diffChunks(lc, rc);
+    expect(diffs.map(d => [d.matchKey, d.status])).toEqual([
+      ['EXCLUSIONS::0', 'moved'],
+      ['CONDITIONS::1', 'unchanged'],
+    ]);
+    expect(diffs[0].inline).toBeUndefined();
+  });
+
+  it('pairs edited paragraphs by similarity instead of position', () => {
+    const edited = WAR.replace('civil war and insurrection', 'civil war, insurrection and rebellion');
+    const lc = [
+      makeChunk({ id: 'l1', sectionPath: 'EXCLUSIONS', hash: 'poll', index: 0, text: POLLUTION, sectionType: 'exclusion' }),
+      makeChunk({ id: 'l2', sectionPath: 'EXCLUSIONS', hash: 'war', index: 1, text: WAR, sectionType: 'exclusion' }),
+    ];
+    // Pollution paragraph deleted; war paragraph edited and now first
+    const rc = [
+      makeChunk({ id: 'r1', sectionPath: 'EXCLUSIONS', hash: 'war2', index: 0, text: edited, sectionType: 'exclusion' }),
+    ];
+    const diffs = diffChunks(lc, rc);
+    const war = diffs.find(d => d.leftChunk?.id === 'l2')!;
+    expect(war.status).toBe('modified');
+    expect(war.rightChunk?.id).toBe('r1');
+    expect(war.similarity).toBeGreaterThan(0.5);
+    expect(war.changes?.map(c => [c.inserted, c.classification])).toEqual([
+      ['war, insurrection', 'restricting'],
+      ['rebellion.', 'editorial'],
+    ]);
+    expect(diffs.find(d => d.leftChunk?.id === 'l1')?.status).toBe('removed');
+  });
+
+  it('marks paragraphs that swapped order within a section as moved', () => {
+    const lc = [
+      makeChunk({ id: 'l1', sectionPath: 'X', hash: 'a', index: 0, text: POLLUTION }),
+      makeChunk({ id: 'l2', sectionPath: 'X', hash: 'b', index: 1, text: NOTICE }),
+      makeChunk({ id: 'l3', sectionPath: 'X', hash: 'c', index: 2, text: WAR }),
+    ];
+    const rc = [
+      makeChunk({ id: 'r1', sectionPath: 'X', hash: 'b', index: 0, text: NOTICE }),
+      makeChunk({ id: 'r2', sectionPath: 'X', hash: 'c', index: 1, text: WAR }),
+      makeChunk({ id: 'r3', sectionPath: 'X', hash: 'a', index: 2, text: POLLUTION }),
+    ];
+    const statuses = diffChunks(lc, rc).map(d => d.status);
+    expect(statuses.filter(s => s === 'moved')).toHaveLength(1);
+    expect(statuses.filter(s => s === 'unchanged')).toHaveLength(2);
+  });
+
+  it('detects a renumbered section and keeps its chunks in place', () => {
+    const ls = [makeSection({ id: 's1', path: 'SECTION II - EXCLUSIONS', type: 'exclusion' })];
+    const rs = [makeSection({ id: 's2', path: 'SECTION III - EXCLUSIONS', type: 'exclusion' })];
+    const lc = [
+      makeChunk({ id: 'l1', sectionPath: 'SECTION II - EXCLUSIONS', hash: 'poll', index: 0, text: POLLUTION }),
+      makeChunk({ id: 'l2', sectionPath: 'SECTION II - EXCLUSIONS', hash: 'war', index: 1, text: WAR }),
+    ];
+    const rc = [
+      makeChunk({ id: 'r1', sectionPath: 'SECTION III - EXCLUSIONS', hash: 'poll', index: 0, text: POLLUTION }),
+      makeChunk({ id: 'r2', sectionPath: 'SECTION III - EXCLUSIONS', hash: 'war', index: 1, text: WAR }),
+    ];
+
+    const result = runRedlineComparison(makeInput({
+      leftSections: ls, rightSections: rs, leftChunks: lc, rightChunks: rc,
+    }));
+    expect(result.sectionDiffs).toHaveLength(1);
+    expect(result.sectionDiffs[0]).toMatchObject({
+      matchKey: 'SECTION II - EXCLUSIONS', status: 'moved', similarity: 1,
+    });
+    expect(result.sectionDiffs[0].changedChunkHashes).toBeUndefined();
+    expect(result.chunkDiffs.map(d => d.status)).toEqual(['unchanged', 'unchanged']);
+    expect(result.stats.movedSections).toBe(1);
+  });
+});
+
+describe('classifyChange', () => {
+  it('treats punctuation and case as editorial', () => {
+    expect(classifyChange('Insured,', 'insured')).toEqual({ classification: 'editorial', reason: 'punctuation or case only' });
+  });
+
+  it('classifies by restricting and broadening wording', () => {
+    expect(classifyChange('', 'not')).toEqual({ classification: 'restricting', reason: 'adds "not"' });
+    expect(classifyChange('only', '')).toEqual({ classification: 'broadening', reason: 'removes "only"' });
+    expect(classifyChange('the', 'any')).toMatchObject({ classification: 'broadening' });
+  });
+
+  it('reads number changes by context', () => {
+    expect(classifyChange('30', '60', 'condition', 'within days')).toMatchObject({ classification: 'broadening', reason: '30 → 60' });
+    expect(classifyChange('$500', '$1,000', 'deductibles', 'the deductible is')).toMatchObject({ classification: 'restricting' });
+  });
+
+  it('treats added wording in an exclusion as restricting', () => {
+    expect(classifyChange('', 'mold', 'exclusion').classification).toBe('restricting');
+    expect(classifyChange('', 'mold', 'coverage').classification).toBe('editorial');
+  });
+
+  it('counts classified changes in the stats', () => {
+    const lc = [makeChunk({ id: 'l1', sectionPath: 'COND', hash: 'a', index: 0, text: NOTICE })];
+    const rc = [makeChunk({ id: 'r1', sectionPath: 'COND', hash: 'b', index: 0, text: NOTICE.replace('as soon as practicable', 'within 30 days').replace('may', 'will not') })];
+    const result = runRedlineComparison(makeInput({ leftChunks: lc, rightChunks: rc }));
+    expect(result.chunkDiffs[0].status).toBe('modified');
+    expect(result.stats.restrictingChanges).toBeGreaterThan(0);
+    expect(result.stats.broadeningChanges + result.stats.restrictingChanges + result.stats.editorialChanges)
+      .toBe(result.chunkDiffs[0].changes!.length);
+  });
+});
+
 // ════════════════════════════════════════════════════════════════════════
 // computeImpact tests
 // ════════════════════════════════════════════════════════════════════════
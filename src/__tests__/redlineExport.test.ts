@@ -0,0 +1,262 @@
+/**
+ * Redline Export Tests
+ *
+ * Tests the export document model (cover summary, passages, page
+ * references), WinAnsi text clean-up, PDF and DOCX rendering, and the zip
+ * writer the DOCX is packaged with.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { PDFDocument } from 'pdf-lib';
+
+import {
+  buildRedlineDocument,
+  pageRange,
+  pagesLabel,
+  toWinAnsi,
+  renderRedlinePdf,
+  renderRedlineDocx,
+  redlineExportFileName,
+  exportRedline,
+} from '../engine/redlineExport';
+import { runRedlineComparison, type RedlineInput } from '../engine/redlineEngine';
+import { createZip, crc32 } from '../utils/zip';
+import type { FormIngestionSection, FormIngestionChunk } from '../types/ingestion';
+import type { ClauseLink } from '../types/clause';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+function section(id: string, path: string, title: string, hash: string, pageRefs: number[]): FormIngestionSection {
+  return {
+    id, path, title, hash, pageRefs,
+    type: path.includes('EXCL') ? 'exclusion' : 'coverage',
+    anchors: [], summary: '', order: 0, chunkIds: [],
+  } as FormIngestionSection;
+}
+
+function chunk(id: string, sectionPath: string, index: number, text: string, pageStart: number, pageEnd = pageStart): FormIngestionChunk {
+  return {
+    id, sectionPath, index, text, pageStart, pageEnd,
+    hash: `h:${text}`, anchors: [], charCount: text.length,
+  } as FormIngestionChunk;
+}
+
+const INSURING = 'We will pay those sums that the insured becomes legally obligated to pay as damages up to $1,000,000.';
+const INSURING_NEW = 'We will pay those sums that the insured becomes legally obligated to pay as damages up to $500,000.';
+const WAR = 'This insurance does not apply to bodily injury arising out of war, including undeclared war.';
+const NUCLEAR = 'This insurance does not apply to injury arising out of the hazardous properties of nuclear material.';
+const NEW_CYBER = 'This insurance does not apply to damages arising out of the loss of electronic data.';
+
+const clauseLink = {
+  id: 'cl1', orgId: 'org1', clauseId: 'clause-war', clauseVersionId: 'cv1', clauseName: 'War Exclusion',
+  targetType: 'form_version', formVersionId: 'fv-new', createdAt: Timestamp.now(), createdBy: 'u1',
+} as ClauseLink;
+
+function makeInput(): RedlineInput {
+  return {
+    formId: 'form1',
+    formNumber: 'CG 00 01',
+    formTitle: 'Commercial General Liability',
+    leftVersionId: 'fv-old',
+    leftEditionDate: '12/07',
+    rightVersionId: 'fv-new',
+    rightEditionDate: '04/13',
+    leftSections: [
+      section('s1', 'COVERAGE A', 'COVERAGE A', 'cov-1', [1]),
+      section('s2', 'EXCLUSIONS', 'EXCLUSIONS', 'excl-1', [2]),
+    ],
+    rightSections: [
+      section('s1', 'COVERAGE A', 'COVERAGE A', 'cov-2', [1, 2]),
+      section('s2', 'EXCLUSIONS', 'EXCLUSIONS', 'excl-1', [3]),
+      section('s3', 'ELECTRONIC DATA', 'ELECTRONIC DATA', 'data-1', [4]),
+    ],
+    leftChunks: [
+      chunk('c1', 'COVERAGE A', 0, INSURING, 1),
+      chunk('c2', 'EXCLUSIONS', 1, WAR, 2),
+    ],
+    rightChunks: [
+      chunk('c1', 'COVERAGE A', 0, INSURING_NEW, 1, 2),
+      chunk('c2', 'EXCLUSIONS', 1, WAR, 3),
+      chunk('c3', 'ELECTRONIC DATA', 2, NEW_CYBER, 4),
+    ],
+    formUses: [],
+    clauseLinks: [clauseLink],
+  };
+}
+
+const generatedAt = new Date('2026-03-01T12:00:00Z');
+
+function docxText(bytes: Uint8Array): string {
+  // Entries are stored, so the XML parts are readable in place
+  return new TextDecoder().decode(bytes);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Document model
+// ════════════════════════════════════════════════════════════════════════
+
+describe('page labels', () => {
+  it('formats single pages, ranges and lists', () => {
+    expect(pageRange(3, 3)).toBe('p. 3');
+    expect(pageRange(3, 4)).toBe('pp. 3–4');
+    expect(pagesLabel([7, 2, 3, 4])).toBe('pp. 2–4, 7');
+    expect(pagesLabel([5])).toBe('p. 5');
+    expect(pagesLabel(undefined)).toBe('');
+  });
+});
+
+describe('buildRedlineDocument', () => {
+  const result = runRedlineComparison(makeInput());
+
+  it('summarises changed sections with page references and classified changes', () => {
+    const doc = buildRedlineDocument(result, { generatedAt });
+    expect(doc.generatedAt).toBe('2026-03-01');
+    expect(doc.comparison).toBe('Edition 12/07 compared with edition 04/13');
+    expect(doc.changedSections.map(r => [r.title, r.status, r.leftPages, r.rightPages])).toEqual([
+      ['COVERAGE A', 'modified', 'p. 1', 'pp. 1–2'],
+      ['ELECTRONIC DATA', 'added', '', 'p. 4'],
+    ]);
+    expect(doc.changedSections[0].restricting).toBe(1);
+    expect(doc.unchangedSectionCount).toBe(1);
+  });
+
+  it('lists impacted clauses with the changed sections behind them', () => {
+    const doc = buildRedlineDocument(result, { generatedAt });
+    expect(doc.clauses).toEqual([expect.objectContaining({
+      label: 'War Exclusion',
+      sections: ['COVERAGE A', 'ELECTRONIC DATA'],
+    })]);
+  });
+
+  it('carries each passage\'s redline and old/new pages', () => {
+    const doc = buildRedlineDocument(result, { generatedAt });
+    const [coverage, data] = doc.sections;
+    expect(coverage.passages[0].pageRef).toBe('Old p. 1 / New pp. 1–2');
+    expect(coverage.passages[0].segments).toContainEqual({ op: 'delete', text: '$1,000,000.' });
+    expect(coverage.passages[0].segments).toContainEqual({ op: 'insert', text: '$500,000.' });
+    expect(data.passages[0]).toMatchObject({ status: 'added', pageRef: 'New p. 4' });
+    expect(data.passages[0].segments).toEqual([{ op: 'insert', text: NEW_CYBER }]);
+  });
+
+  it('only reproduces unchanged sections when asked', () => {
+    expect(buildRedlineDocument(result).sections).toHaveLength(2);
+    expect(buildRedlineDocument(result, { includeUnchanged: true }).sections).toHaveLength(3);
+  });
+
+  it('notes chunks moved between sections under their new section', () => {
+    const input = makeInput();
+    input.leftChunks = [...input.leftChunks, chunk('c5', 'EXCLUSIONS', 2, NUCLEAR, 2)];
+    input.rightChunks = [
+      chunk('c1', 'COVERAGE A', 0, INSURING, 1),
+      chunk('c5', 'EXCLUSIONS', 1, NUCLEAR, 3),
+      chunk('c3', 'ELECTRONIC DATA', 2, NEW_CYBER, 4),
+      chunk('c2', 'ELECTRONIC DATA', 3, WAR, 4),
+    ];
+    const doc = buildRedlineDocument(runRedlineComparison(input));
+    const passages = doc.sections.flatMap(s => s.passages.map(p => [s.title, p.status, p.note]));
+    expect(passages).toContainEqual(['ELECTRONIC DATA', 'moved', 'Moved from EXCLUSIONS']);
+  });
+});
+
+describe('toWinAnsi', () => {
+  it('keeps Latin-1 and typographic punctuation, replaces the rest', () => {
+    expect(toWinAnsi('“Insured” — café')).toBe('“Insured” — café');
+    expect(toWinAnsi('limit → $1M ≤ cap')).toBe('limit -> $1M <= cap');
+    expect(toWinAnsi('ﬁre damage 火')).toBe('fire damage ?');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Rendering
+// ════════════════════════════════════════════════════════════════════════
+
+describe('renderRedlinePdf', () => {
+  const result = runRedlineComparison(makeInput());
+
+  it('renders a cover page followed by the redline', async () => {
+    const bytes = await renderRedlinePdf(buildRedlineDocument(result, { generatedAt }));
+    const pdf = await PDFDocument.load(bytes);
+    expect(pdf.getPageCount()).toBe(2);
+    expect(pdf.getTitle()).toBe('CG 00 01 Redline: Edition 12/07 compared with edition 04/13');
+  });
+
+  it('breaks long redlines across pages in either layout', async () => {
+    const input = makeInput();
+    const long = Array.from({ length: 400 }, (_, i) => `Condition ${i} applies to the named insured.`).join(' ');
+    input.rightChunks = [...input.rightChunks, chunk('c4', 'ELECTRONIC DATA', 3, long, 5, 9)];
+    const longResult = runRedlineComparison(input);
+
+    for (const layout of ['inline', 'sideBySide'] as const) {
+      const pdf = await PDFDocument.load(await renderRedlinePdf(buildRedlineDocument(longResult, { layout })));
+      expect(pdf.getPageCount()).toBeGreaterThan(3);
+    }
+  });
+});
+
+describe('renderRedlineDocx', () => {
+  const result = runRedlineComparison(makeInput());
+
+  it('packages the document parts in a zip', () => {
+    const bytes = renderRedlineDocx(buildRedlineDocument(result, { generatedAt }));
+    const text = docxText(bytes);
+    expect(text.startsWith('PK')).toBe(true);
+    for (const part of ['[Content_Types].xml', 'word/document.xml', 'word/styles.xml', 'word/footer1.xml']) {
+      expect(text).toContain(part);
+    }
+  });
+
+  it('strikes deletions, underlines insertions and lists impacted clauses', () => {
+    const text = docxText(renderRedlineDocx(buildRedlineDocument(result, { generatedAt })));
+    expect(text).toMatch(/<w:strike\/>[^]*?<w:t xml:space="preserve">\$1,000,000\.<\/w:t>/);
+    expect(text).toMatch(/<w:u w:val="single"\/>[^]*?<w:t xml:space="preserve">\$500,000\.<\/w:t>/);
+    expect(text).toContain('War Exclusion');
+    expect(text).toContain('Old p. 1 / New pp. 1–2');
+  });
+
+  it('puts old and new text in two columns side by side', () => {
+    const text = docxText(renderRedlineDocx(buildRedlineDocument(result, { layout: 'sideBySide' })));
+    expect(text).toContain('<w:gridCol w:w="5040"/><w:gridCol w:w="5040"/>');
+    expect(text).toContain('Edition 12/07');
+  });
+
+  it('escapes XML in form text', async () => {
+    const input = makeInput();
+    input.rightChunks[0] = chunk('c1', 'COVERAGE A', 0, `${INSURING_NEW} See <Schedule> & "Declarations".`, 1);
+    const text = docxText(await exportRedline(runRedlineComparison(input), 'docx'));
+    expect(text).toContain('&lt;Schedule&gt; &amp; &quot;Declarations&quot;');
+  });
+});
+
+describe('redlineExportFileName', () => {
+  it('names the file after the form and both editions', () => {
+    const result = runRedlineComparison(makeInput());
+    expect(redlineExportFileName(result, 'pdf')).toBe('CG_00_01_redline_12-07_to_04-13.pdf');
+    expect(redlineExportFileName(result, 'docx')).toBe('CG_00_01_redline_12-07_to_04-13.docx');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Zip
+// ════════════════════════════════════════════════════════════════════════
+
+describe('createZip', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926);
+  });
+
+  it('writes local headers, a central directory and the end record', () => {
+    const zip = createZip([{ name: 'a.txt', data: 'hello' }, { name: 'b/c.xml', data: '<x/>' }]);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034B50);
+
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054B50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014B50);
+    expect(view.getUint32(18, true)).toBe(5); // compressed size of a.txt (stored)
+  });
+});
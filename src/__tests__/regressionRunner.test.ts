@@ -13,7 +13,10 @@ import { describe, it, expect } from 'vitest';
 import {
   computeFieldDiffs,
   evaluateQAGate,
+  runSingleScenario,
+  scenarioPolicyTerm,
 } from '../engine/regressionRunner';
+import type { RatingStep } from '../types/ratingEngine';
 import type {
   Scenario, QAGateConfig, QARunScenarioResult, ScenarioFieldDiff,
   QARunStatus,
@@ -258,6 +261,99 @@ describe('simulateRegressionRun (batch)', () => {
   });
 });
 
+describe('runSingleScenario (multi-unit)', () => {
+  const steps: RatingStep[] = [
+    {
+      id: 'prem', rateProgramVersionId: 'rpv-1', order: 1, type: 'factor', name: 'Unit premium',
+      outputFieldCode: 'unit_premium', inputs: ['base_rate'], factorFieldCode: 'factor_a',
+      enabled: true, roundingMode: 'none', roundingPrecision: 2, allStates: true,
+    },
+  ];
+  const aggregation = {
+    rules: [{ id: 'r1', name: 'Sum', method: 'sum' as const, sourceFieldCode: 'unit_premium', outputFieldCode: 'final_premium' }],
+  };
+
+  it('diffs policy-level and per-unit outputs', () => {
+    const scenario = makeScenario({
+      id: 'mu',
+      name: 'Two units',
+      inputs: { base_rate: 100 },
+      units: [
+        { id: 'a', inputs: { factor_a: 1.5 } },
+        { id: 'b', inputs: { factor_a: 2 } },
+      ],
+      expectedOutputs: { final_premium: 350 },
+      expectedUnitOutputs: { a: { unit_premium: 150 }, b: { unit_premium: 250 } },
+    });
+
+    const result = runSingleScenario(scenario, steps, 'rpv-1', undefined, undefined, undefined, aggregation);
+    expect(result.actualOutputs.final_premium).toBe(350);
+    expect(result.actualUnitOutputs?.b.unit_premium).toBe(200);
+    expect(result.status).toBe('fail');
+    expect(result.diffs).toHaveLength(1);
+    expect(result.diffs[0].unitId).toBe('b');
+  });
+
+  it('evaluates the baseline with its own aggregation stage', () => {
+    const scenario = makeScenario({
+      id: 'mu',
+      name: 'Two units',
+      inputs: { base_rate: 100 },
+      units: [
+        { id: 'a', inputs: { factor_a: 1.5 } },
+        { id: 'b', inputs: { factor_a: 2 } },
+      ],
+      expectedOutputs: { final_premium: 350 },
+    });
+    const baselineAggregation = {
+      rules: [{ id: 'r1', name: 'Max', method: 'max' as const, sourceFieldCode: 'unit_premium', outputFieldCode: 'final_premium' }],
+    };
+
+    const result = runSingleScenario(scenario, steps, 'rpv-2', steps, 'rpv-1', undefined, aggregation, baselineAggregation);
+    expect(result.actualOutputs.final_premium).toBe(350);
+    expect(result.baselineOutputs?.final_premium).toBe(200);
+
+    // A baseline without an aggregation stage cannot rate units
+    const withoutStage = runSingleScenario(scenario, steps, 'rpv-2', steps, 'rpv-1', undefined, aggregation);
+    expect(withoutStage.status).toBe('pass');
+    expect(withoutStage.baselineOutputs).toBeUndefined();
+  });
+
+  it('errors instead of passing when there are no aggregation rules', () => {
+    const scenario = makeScenario({
+      id: 'mu',
+      name: 'Two units',
+      inputs: { base_rate: 100 },
+      units: [{ id: 'a', inputs: { factor_a: 1.5 } }],
+      expectedOutputs: { final_premium: 0 },
+    });
+
+    const result = runSingleScenario(scenario, steps, 'rpv-1');
+    expect(result.status).toBe('error');
+    expect(result.errorMessage).toMatch(/aggregation rules/);
+  });
+});
+
+describe('scenarioPolicyTerm', () => {
+  it('builds a policy term for cancellation scenarios', () => {
+    const term = scenarioPolicyTerm(makeScenario({
+      id: 'cx',
+      name: 'Mid-term cancel',
+      policyEffectiveDate: '2024-01-01',
+      policyExpirationDate: '2025-01-01',
+      transactionDate: '2024-07-01',
+      transactionType: 'cancellation',
+    }));
+    expect(term?.expirationDate.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+    expect(term?.transactionDate?.toISOString()).toBe('2024-07-01T00:00:00.000Z');
+    expect(term?.transactionType).toBe('cancellation');
+  });
+
+  it('returns undefined when the scenario has no term', () => {
+    expect(scenarioPolicyTerm(makeScenario({ id: 'nb', name: 'New business' }))).toBeUndefined();
+  });
+});
+
 describe('evaluateQAGate', () => {
   const allPassRun = {
     status: 'passed' as const,
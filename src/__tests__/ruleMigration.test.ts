@@ -0,0 +1,236 @@
+/**
+ * Legacy Rule Migration Tests
+ *
+ * Tests conversion of Rules DSL logic to engine condition trees, the
+ * unconvertible-construct report, and the dry-run equivalence check against
+ * the legacy evaluator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convertLegacyRule,
+  checkRuleEquivalence,
+  defaultFieldCode,
+  generateProbeAssignments,
+  indexMigratedRules,
+} from '../engine/ruleMigration';
+import { evaluateRule } from '../services/ruleBuilderService';
+import type { Rule } from '../types';
+import type { RuleLogic, ConditionGroup as DslConditionGroup, Action } from '../types/rulesDsl';
+import type { ConditionGroup, ConditionLeaf } from '../types/rulesEngine';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const options = { productVersionId: 'pv-1' };
+
+function makeLegacyRule(
+  ifGroup: DslConditionGroup,
+  then: Action[] = [{ type: 'block', target: 'eligibility', message: 'Not eligible' }],
+  overrides: Partial<Rule> = {},
+): Rule {
+  const logic: RuleLogic = { version: 1, if: ifGroup, then };
+  return {
+    id: 'legacy-1',
+    productId: 'prod-1',
+    ruleType: 'Product',
+    ruleCategory: 'Eligibility',
+    name: 'Legacy Rule',
+    condition: 'IF ...',
+    outcome: 'THEN ...',
+    status: 'Active',
+    logic,
+    ...overrides,
+  };
+}
+
+function firstLeaf(group: ConditionGroup): ConditionLeaf {
+  const node = group.conditions[0];
+  return (node.kind === 'leaf' ? node : firstLeaf(node));
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+describe('defaultFieldCode', () => {
+  it('drops the context section and snake-cases the path', () => {
+    expect(defaultFieldCode('risk.classCode')).toBe('class_code');
+    expect(defaultFieldCode('coverage.building.limit')).toBe('building_limit');
+    expect(defaultFieldCode('buildingAge')).toBe('building_age');
+  });
+});
+
+describe('convertLegacyRule', () => {
+  it('converts simple operators and a block action', () => {
+    const rule = makeLegacyRule({
+      op: 'AND',
+      conditions: [
+        { field: 'risk.buildingAge', operator: 'gt', value: 50 },
+        { field: 'risk.state', operator: 'in', value: ['FL', 'LA'] },
+      ],
+    });
+    const conversion = convertLegacyRule(rule, options);
+
+    expect(conversion.convertible).toBe(true);
+    expect(conversion.issues).toEqual([]);
+    expect(conversion.ruleType).toBe('eligibility');
+    expect(conversion.outcome).toMatchObject({ action: 'decline', severity: 'block', message: 'Not eligible' });
+    expect(conversion.conditions.conditions).toHaveLength(2);
+    expect(firstLeaf(conversion.conditions)).toMatchObject({ fieldCode: 'building_age', operator: 'gt', value: 50 });
+    expect(conversion.fieldMapping).toEqual({ 'risk.buildingAge': 'building_age', 'risk.state': 'state' });
+  });
+
+  it('is deterministic across repeated conversions', () => {
+    const rule = makeLegacyRule({ op: 'AND', conditions: [{ field: 'risk.tiv', operator: 'gte', value: 1 }] });
+    expect(convertLegacyRule(rule, options)).toEqual(convertLegacyRule(rule, options));
+  });
+
+  it('adds a notExists branch to negative operators', () => {
+    const rule = makeLegacyRule({ op: 'AND', conditions: [{ field: 'risk.roof', operator: 'notEquals', value: 'tile' }] });
+    const node = convertLegacyRule(rule, options).conditions.conditions[0] as ConditionGroup;
+    expect(node.operator).toBe('OR');
+    expect(node.conditions.map(c => (c as ConditionLeaf).operator)).toEqual(['ne', 'notExists']);
+  });
+
+  it('applies explicit field mappings and reports unknown dictionary codes', () => {
+    const rule = makeLegacyRule({ op: 'AND', conditions: [{ field: 'risk.tiv', operator: 'gt', value: 1 }] });
+    const conversion = convertLegacyRule(rule, {
+      ...options,
+      fieldMapping: { 'risk.tiv': 'total_insured_value' },
+      availableFieldCodes: ['building_age'],
+    });
+    expect(firstLeaf(conversion.conditions).fieldCode).toBe('total_insured_value');
+    expect(conversion.convertible).toBe(true);
+    expect(conversion.issues).toEqual([
+      expect.objectContaining({ severity: 'warning', construct: 'field' }),
+    ]);
+  });
+
+  it('maps require and message actions to the highest outcome', () => {
+    const rule = makeLegacyRule(
+      { op: 'AND', conditions: [{ field: 'risk.tiv', operator: 'gt', value: 1 }] },
+      [
+        { type: 'addMessage', target: 'messages', message: 'High value', severity: 'warning' },
+        { type: 'require', target: 'underwriting', message: 'Refer to UW' },
+        { type: 'applyFactor', target: 'pricing.factor', value: 1.1 },
+      ],
+    );
+    const conversion = convertLegacyRule(rule, options);
+    expect(conversion.ruleType).toBe('referral');
+    expect(conversion.outcome).toMatchObject({ action: 'refer', severity: 'warning', message: 'High value Refer to UW' });
+    expect(conversion.issues).toEqual([expect.objectContaining({ construct: 'action', severity: 'warning', path: 'then[2]' })]);
+    expect(conversion.convertible).toBe(true);
+  });
+
+  it('reports unconvertible constructs as errors', () => {
+    const rule = makeLegacyRule(
+      {
+        op: 'AND',
+        conditions: [
+          { field: 'risk.desc', operator: 'notContains', value: 'flood' },
+          { op: 'OR', conditions: [] },
+        ],
+      },
+      [{ type: 'setLimit', target: 'coverage.limit', value: 100 }],
+      { states: ['CA', 'NY'] },
+    );
+    rule.logic!.else = [{ type: 'addMessage', target: 'messages', message: 'ok' }];
+
+    const conversion = convertLegacyRule(rule, options);
+    expect(conversion.convertible).toBe(false);
+    const errors = conversion.issues.filter(i => i.severity === 'error').map(i => i.construct).sort();
+    expect(errors).toEqual(['action', 'else', 'group', 'operator', 'scope']);
+    expect(conversion.issues.find(i => i.construct === 'operator')?.path).toBe('if.conditions[0]');
+  });
+
+  it('reports rules without programmable logic', () => {
+    const conversion = convertLegacyRule(makeLegacyRule({ op: 'AND', conditions: [] }, [], { logic: undefined }), options);
+    expect(conversion.convertible).toBe(false);
+    expect(conversion.issues[0].construct).toBe('logic');
+  });
+
+  it('carries a single state and effective dates into scope', () => {
+    const rule = makeLegacyRule(
+      { op: 'AND', conditions: [{ field: 'risk.tiv', operator: 'gt', value: 1 }] },
+      undefined,
+      { states: ['TX'], effectiveDate: new Date('2025-01-01T00:00:00Z'), expirationDate: new Date('2025-12-31T00:00:00Z') },
+    );
+    const conversion = convertLegacyRule(rule, options);
+    expect(conversion.scope).toEqual({ productVersionId: 'pv-1', stateCode: 'TX', coverageVersionId: null });
+    expect(conversion.effectiveStart).toBe('2025-01-01');
+    expect(conversion.effectiveEnd).toBe('2025-12-31');
+  });
+});
+
+// ============================================================================
+// Equivalence
+// ============================================================================
+
+describe('checkRuleEquivalence', () => {
+  it('proves equivalence over generated probes for every supported operator', () => {
+    const rule = makeLegacyRule({
+      op: 'OR',
+      conditions: [
+        {
+          op: 'AND',
+          conditions: [
+            { field: 'risk.buildingAge', operator: 'between', value: [10, 40] },
+            { field: 'risk.roof', operator: 'notEquals', value: 'tile' },
+            { field: 'risk.state', operator: 'notIn', value: ['CA', 'NY'] },
+          ],
+        },
+        { field: 'insured.fein', operator: 'matches', value: '^\\d{2}-\\d{7}$' },
+        { field: 'insured.name', operator: 'startsWith', value: 'ACME' },
+        { field: 'policy.priorCarrier', operator: 'exists' },
+        { field: 'risk.sprinklered', operator: 'equals', value: false },
+        { field: 'risk.sqft', operator: 'lte', value: 5000 },
+      ],
+    });
+    const conversion = convertLegacyRule(rule, options);
+    const report = checkRuleEquivalence(rule, conversion, evaluateRule, [
+      { risk: { buildingAge: 20, roof: 'metal', state: 'TX' } },
+    ]);
+
+    expect(report.casesEvaluated).toBeGreaterThan(20);
+    expect(report.mismatches).toEqual([]);
+    expect(report.equivalent).toBe(true);
+  });
+
+  it('reports mismatching cases', () => {
+    const rule = makeLegacyRule({ op: 'AND', conditions: [{ field: 'risk.tiv', operator: 'gt', value: 100 }] });
+    const conversion = convertLegacyRule(rule, options);
+    // Simulate a faulty conversion: the engine tree checks the wrong bound
+    (conversion.conditions.conditions[0] as ConditionLeaf).value = 200;
+
+    const report = checkRuleEquivalence(rule, conversion, evaluateRule);
+    expect(report.equivalent).toBe(false);
+    expect(report.mismatches).toEqual([
+      expect.objectContaining({ inputs: { tiv: 101 }, legacyMatched: true, engineFired: false }),
+    ]);
+  });
+
+  it('generates a baseline plus one variation per probe', () => {
+    const logic: RuleLogic = {
+      version: 1,
+      if: { op: 'AND', conditions: [{ field: 'risk.tiv', operator: 'gt', value: 100 }] },
+      then: [],
+    };
+    // probes for gt 100: missing, 99, 100, 101 → baseline (99) + 3 variations
+    expect(generateProbeAssignments(logic)).toHaveLength(4);
+  });
+});
+
+describe('indexMigratedRules', () => {
+  it('keys migrated engine rules by their legacy rule and ignores the rest', () => {
+    const index = indexMigratedRules([
+      { id: 'r1', legacyRuleId: 'legacy-1' },
+      { id: 'r2' },
+      { id: 'r3', legacyRuleId: 'legacy-2' },
+      { id: 'r4', legacyRuleId: 'legacy-1' },
+    ]);
+    expect([...index.keys()]).toEqual(['legacy-1', 'legacy-2']);
+    expect(index.get('legacy-1')?.id).toBe('r1');
+  });
+});
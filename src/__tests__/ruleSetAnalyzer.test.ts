@@ -0,0 +1,256 @@
+/**
+ * Rule Set Analyzer Tests
+ *
+ * Tests static detection of conflicting, dead and shadowed underwriting
+ * rules, and that every reported witness really fires the rules involved.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeRuleSet } from '../engine/ruleSetAnalyzer';
+import { evaluateRules } from '../engine/rulesEngine';
+import type { RuleWithVersion } from '../engine/rulesEngine';
+import type {
+  ConditionGroup,
+  ConditionLeaf,
+  ConditionNode,
+  RuleAction,
+  RuleScope,
+  RuleSetAnalysisReport,
+} from '../types/rulesEngine';
+import { generateConditionId } from '../types/rulesEngine';
+import type { DataDictionaryField } from '../types/dataDictionary';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const effectiveDate = new Date('2025-06-15');
+
+function leaf(fieldCode: string, operator: ConditionLeaf['operator'], value: ConditionLeaf['value'] = '', extra: Partial<ConditionLeaf> = {}): ConditionLeaf {
+  return { kind: 'leaf', id: generateConditionId(), fieldCode, operator, value, ...extra };
+}
+
+function group(op: 'AND' | 'OR', ...children: ConditionNode[]): ConditionGroup {
+  return { kind: 'group', id: generateConditionId(), operator: op, conditions: children };
+}
+
+function rule(
+  ruleId: string,
+  action: RuleAction,
+  conditions: ConditionGroup,
+  scope: Partial<RuleScope> = {},
+): RuleWithVersion {
+  return {
+    ruleId,
+    ruleName: ruleId,
+    ruleType: action === 'accept' ? 'eligibility' : 'referral',
+    version: {
+      id: `${ruleId}-v1`,
+      ruleId,
+      versionNumber: 1,
+      status: 'published',
+      conditions,
+      outcome: { action, message: ruleId, severity: action === 'decline' ? 'block' : 'warning', requiredDocs: [] },
+      scope: { productVersionId: 'pv-1', stateCode: null, coverageVersionId: null, ...scope },
+      effectiveStart: null,
+      effectiveEnd: null,
+      createdAt: new Date(),
+      createdBy: 'test',
+      updatedAt: new Date(),
+      updatedBy: 'test',
+    },
+  };
+}
+
+function field(code: string, type: DataDictionaryField['type'], extra: Partial<DataDictionaryField> = {}): DataDictionaryField {
+  return {
+    id: code,
+    code,
+    displayName: code,
+    category: 'property',
+    type,
+    status: 'active',
+    ...extra,
+  } as DataDictionaryField;
+}
+
+const dictionary = [
+  field('building_age', 'int', { validation: { min: 0, max: 200 } }),
+  field('construction', 'enum', { allowedValues: ['frame', 'masonry', 'fire_resistive'] }),
+  field('sprinklered', 'boolean'),
+  field('tiv', 'decimal'),
+  field('inspection_date', 'date'),
+];
+
+function analyze(rules: RuleWithVersion[], stateCode: string | null = null): RuleSetAnalysisReport {
+  return analyzeRuleSet({ rules, dictionaryFields: dictionary, stateCode, effectiveDate });
+}
+
+function firedIds(r: RuleWithVersion[], report: RuleSetAnalysisReport, index = 0): string[] {
+  const witness = report.findings[index].witness!;
+  return evaluateRules(r, {
+    inputs: witness.inputs,
+    derivedFields: witness.derivedFields,
+    productVersionId: 'pv-1',
+    effectiveDate,
+  }).firedRules.map(f => f.ruleId);
+}
+
+// ============================================================================
+// Conflicts
+// ============================================================================
+
+describe('analyzeRuleSet – conflicts', () => {
+  it('reports accept vs decline on overlapping ranges with a firing witness', () => {
+    const rules = [
+      rule('accept-new', 'accept', group('AND', leaf('building_age', 'lte', 30))),
+      rule('decline-frame', 'decline', group('AND',
+        leaf('building_age', 'gt', 20),
+        leaf('construction', 'eq', 'frame'),
+      )),
+    ];
+    const report = analyze(rules);
+
+    expect(report.findings).toHaveLength(1);
+    expect(report.findings[0]).toMatchObject({ type: 'conflict', severity: 'error', ruleIds: ['accept-new', 'decline-frame'] });
+    expect(report.findings[0].witness!.inputs).toEqual({ building_age: 21, construction: 'frame' });
+    expect(firedIds(rules, report)).toEqual(['accept-new', 'decline-frame']);
+  });
+
+  it('reports accept vs refer as a warning', () => {
+    const report = analyze([
+      rule('a', 'accept', group('AND', leaf('sprinklered', 'isTrue'))),
+      rule('r', 'refer', group('AND', leaf('tiv', 'gte', 1_000_000))),
+    ]);
+    expect(report.findings).toEqual([expect.objectContaining({ type: 'conflict', severity: 'warning' })]);
+  });
+
+  it('does not report disjoint conditions or rules for other states', () => {
+    const report = analyze([
+      rule('a', 'accept', group('AND', leaf('building_age', 'lt', 20))),
+      rule('d', 'decline', group('AND', leaf('building_age', 'gte', 20))),
+      rule('d-ca', 'decline', group('AND', leaf('building_age', 'lt', 5)), { stateCode: 'CA' }),
+    ], 'TX');
+    expect(report.rulesAnalyzed).toBe(2);
+    expect(report.findings).toEqual([]);
+  });
+
+  it('finds conflicts through OR branches and derived fields', () => {
+    const rules = [
+      rule('a', 'accept', group('AND', leaf('derived.loss_ratio', 'lt', 0.5))),
+      rule('d', 'decline', group('OR',
+        leaf('construction', 'eq', 'frame'),
+        leaf('derived.loss_ratio', 'between', 0.2, { valueEnd: 0.4 }),
+      )),
+    ];
+    const report = analyze(rules);
+    expect(report.findings).toHaveLength(1);
+    expect(report.findings[0].witness!.derivedFields).toHaveProperty('loss_ratio');
+    expect(firedIds(rules, report)).toEqual(['a', 'd']);
+  });
+
+  it('resolves relative date windows against the effective date', () => {
+    const rules = [
+      rule('a', 'accept', group('AND', leaf('inspection_date', 'withinLast', 1, { dateUnit: 'years' }))),
+      rule('d', 'decline', group('AND', leaf('inspection_date', 'dateBefore', '2024-07-01'))),
+    ];
+    const report = analyze(rules);
+    expect(report.findings[0].witness!.inputs).toEqual({ inspection_date: '2024-06-15' });
+    expect(firedIds(rules, report)).toEqual(['a', 'd']);
+  });
+});
+
+// ============================================================================
+// Dead rules
+// ============================================================================
+
+describe('analyzeRuleSet – dead rules', () => {
+  it('detects contradictory intervals', () => {
+    const report = analyze([
+      rule('dead', 'refer', group('AND', leaf('building_age', 'gt', 50), leaf('building_age', 'lt', 40))),
+    ]);
+    expect(report.findings).toEqual([
+      expect.objectContaining({ type: 'dead_rule', ruleIds: ['dead'], fieldCodes: ['building_age'] }),
+    ]);
+  });
+
+  it('detects values outside dictionary bounds and enums', () => {
+    const report = analyze([
+      rule('too-old', 'refer', group('AND', leaf('building_age', 'gt', 200))),
+      rule('bad-enum', 'refer', group('AND', leaf('construction', 'in', ['steel', 'log']))),
+      rule('int-gap', 'refer', group('AND', leaf('building_age', 'gt', 10), leaf('building_age', 'lt', 11))),
+    ]);
+    expect(report.findings.map(f => f.ruleIds[0])).toEqual(['bad-enum', 'int-gap', 'too-old']);
+  });
+
+  it('treats absence as satisfying isFalse and notExists', () => {
+    const report = analyze([
+      rule('absent', 'refer', group('AND', leaf('sprinklered', 'isFalse'), leaf('sprinklered', 'notExists'))),
+      rule('present', 'refer', group('AND', leaf('tiv', 'exists'), leaf('tiv', 'notExists'))),
+    ]);
+    expect(report.findings.map(f => f.ruleIds[0])).toEqual(['present']);
+  });
+
+  it('does not call a rule dead because of operators it cannot model', () => {
+    const report = analyze([
+      rule('text', 'refer', group('AND', leaf('occupancy', 'contains', 'bar'), leaf('occupancy', 'matches', '^x'))),
+    ]);
+    expect(report.findings).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Shadowed rules
+// ============================================================================
+
+describe('analyzeRuleSet – shadowed rules', () => {
+  it('reports a rule fully covered by a broader decline rule', () => {
+    const rules = [
+      rule('decline-old', 'decline', group('AND', leaf('building_age', 'gte', 60))),
+      rule('refer-old-frame', 'refer', group('AND',
+        leaf('building_age', 'gte', 80),
+        leaf('construction', 'eq', 'frame'),
+      )),
+    ];
+    const report = analyze(rules);
+    const shadowed = report.findings.find(f => f.type === 'shadowed_rule');
+
+    expect(shadowed).toMatchObject({ ruleIds: ['refer-old-frame', 'decline-old'] });
+    expect(shadowed!.witness!.inputs).toEqual({ building_age: 80, construction: 'frame' });
+  });
+
+  it('does not report partial overlap or a decline rule with narrower scope', () => {
+    const report = analyze([
+      rule('decline-old', 'decline', group('AND', leaf('building_age', 'gte', 60))),
+      rule('refer-mid', 'refer', group('AND', leaf('building_age', 'gte', 50))),
+      rule('decline-ca', 'decline', group('AND', leaf('tiv', 'gt', 0)), { stateCode: 'CA' }),
+      rule('refer-tiv', 'refer', group('AND', leaf('tiv', 'gt', 100))),
+    ]);
+    expect(report.findings.filter(f => f.type === 'shadowed_rule')).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+describe('analyzeRuleSet – limits', () => {
+  it('skips rules whose condition trees expand too far', () => {
+    const wide = group('AND', ...Array.from({ length: 7 }, (_, i) =>
+      group('OR', leaf(`f${i}`, 'eq', 'a'), leaf(`f${i}`, 'eq', 'b')),
+    ));
+    const report = analyze([rule('wide', 'refer', wide)]);
+    expect(report.rulesAnalyzed).toBe(0);
+    expect(report.skippedRules).toEqual([expect.objectContaining({ ruleId: 'wide' })]);
+  });
+
+  it('ignores drafts and versions not in force', () => {
+    const draft = rule('draft', 'decline', group('AND', leaf('building_age', 'gt', 1)));
+    draft.version.status = 'draft';
+    const expired = rule('expired', 'decline', group('AND', leaf('building_age', 'gt', 1)));
+    expired.version.effectiveEnd = '2024-12-31';
+    const report = analyze([draft, expired, rule('a', 'accept', group('AND', leaf('building_age', 'gt', 1)))]);
+    expect(report.rulesAnalyzed).toBe(1);
+    expect(report.findings).toEqual([]);
+  });
+});
@@ -16,6 +16,7 @@ import {
   validateRuleVersion,
   checkRuleReadiness,
   extractFieldCodes,
+  toUtcDay,
 } from '../engine/rulesEngine';
 import type { RuleWithVersion } from '../engine/rulesEngine';
 import type {
@@ -233,6 +234,181 @@ describe('Condition operators', () => {
   });
 });
 
+describe('Existence, string and pattern operators', () => {
+  it('exists / notExists – treat null and missing as absent', () => {
+    const exists = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'fein', operator: 'exists', value: '' })) },
+    });
+    expect(evaluateRules([exists], makeContext({ inputs: { fein: '12-3456789' } })).firedRules).toHaveLength(1);
+    expect(evaluateRules([exists], makeContext({ inputs: { fein: null } })).firedRules).toHaveLength(0);
+
+    const notExists = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'fein', operator: 'notExists', value: '' })) },
+    });
+    expect(evaluateRules([notExists], makeContext({ inputs: {} })).firedRules).toHaveLength(1);
+    expect(evaluateRules([notExists], makeContext({ inputs: { fein: 0 } })).firedRules).toHaveLength(0);
+  });
+
+  it('startsWith / endsWith – string prefix and suffix', () => {
+    const rule = makeRuleWithVersion({
+      version: { conditions: group('AND',
+        leaf({ id: 'a', fieldCode: 'class_code', operator: 'startsWith', value: '91' }),
+        leaf({ id: 'b', fieldCode: 'class_code', operator: 'endsWith', value: '5' }),
+      ) },
+    });
+    expect(evaluateRules([rule], makeContext({ inputs: { class_code: '91585' } })).firedRules).toHaveLength(1);
+    expect(evaluateRules([rule], makeContext({ inputs: { class_code: '91580' } })).firedRules).toHaveLength(0);
+  });
+
+  it('matches – regular expression', () => {
+    const rule = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'fein', operator: 'matches', value: '^\\d{2}-\\d{7}$' })) },
+    });
+    expect(evaluateRules([rule], makeContext({ inputs: { fein: '12-3456789' } })).firedRules).toHaveLength(1);
+    expect(evaluateRules([rule], makeContext({ inputs: { fein: '123456789' } })).firedRules).toHaveLength(0);
+  });
+
+  it('matches – invalid pattern does not fire and is noted in the trace', () => {
+    const rule = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'fein', operator: 'matches', value: '([' })) },
+    });
+    const result = evaluateRules([rule], makeContext({ inputs: { fein: '12' } }));
+    expect(result.firedRules).toHaveLength(0);
+    expect(result.trace[0].conditionTrace[0].note).toContain('Invalid pattern');
+  });
+});
+
+describe('Date operators', () => {
+  // Effective date in makeContext is 2025-06-15
+
+  it('withinLast – roof replaced within 15 years of effective date', () => {
+    const rule = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'roof_date', operator: 'withinLast', value: 15, dateUnit: 'years' })) },
+    });
+    expect(evaluateRules([rule], makeContext({ inputs: { roof_date: '2010-06-15' } })).firedRules).toHaveLength(1);
+    expect(evaluateRules([rule], makeContext({ inputs: { roof_date: '2010-06-14' } })).firedRules).toHaveLength(0);
+    // A date after the effective date is not "within the last" window
+    expect(evaluateRules([rule], makeContext({ inputs: { roof_date: '2025-07-01' } })).firedRules).toHaveLength(0);
+
+    const trace = evaluateRules([rule], makeContext({ inputs: { roof_date: '2012-01-01' } })).trace[0].conditionTrace[0];
+    expect(trace.referenceDate).toBe('2010-06-15');
+    expect(trace.result).toBe(true);
+  });
+
+  it('withinLast – months clamp to the end of shorter months', () => {
+    const rule = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'loss_date', operator: 'withinLast', value: 1, dateUnit: 'months' })) },
+    });
+    const result = evaluateRules([rule], makeContext({
+      inputs: { loss_date: '2025-02-28' },
+      effectiveDate: new Date('2025-03-31'),
+    }));
+    expect(result.firedRules).toHaveLength(1);
+    expect(result.trace[0].conditionTrace[0].referenceDate).toBe('2025-02-28');
+  });
+
+  it('olderThan / withinNext – relative to effective date, days by default', () => {
+    const older = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'built', operator: 'olderThan', value: 30, dateUnit: 'years' })) },
+    });
+    expect(evaluateRules([older], makeContext({ inputs: { built: '1990-01-01' } })).firedRules).toHaveLength(1);
+    expect(evaluateRules([older], makeContext({ inputs: { built: '2000-01-01' } })).firedRules).toHaveLength(0);
+
+    const next = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'inspection', operator: 'withinNext', value: 30 })) },
+    });
+    expect(evaluateRules([next], makeContext({ inputs: { inspection: '2025-07-15' } })).firedRules).toHaveLength(1);
+    expect(evaluateRules([next], makeContext({ inputs: { inspection: '2025-07-16' } })).firedRules).toHaveLength(0);
+  });
+
+  it('dateBefore / dateAfter – absolute calendar dates', () => {
+    const before = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'built', operator: 'dateBefore', value: '1980-01-01' })) },
+    });
+    expect(evaluateRules([before], makeContext({ inputs: { built: '1979-12-31' } })).firedRules).toHaveLength(1);
+    expect(evaluateRules([before], makeContext({ inputs: { built: '1980-01-01' } })).firedRules).toHaveLength(0);
+
+    const after = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'built', operator: 'dateAfter', value: '1980-01-01' })) },
+    });
+    expect(evaluateRules([after], makeContext({ inputs: { built: '1980-01-02' } })).firedRules).toHaveLength(1);
+  });
+
+  it('unparseable dates do not fire and are noted in the trace', () => {
+    const rule = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'roof_date', operator: 'withinLast', value: 15, dateUnit: 'years' })) },
+    });
+    const result = evaluateRules([rule], makeContext({ inputs: { roof_date: 'unknown' } }));
+    expect(result.firedRules).toHaveLength(0);
+    expect(result.trace[0].conditionTrace[0].note).toContain('not a valid date');
+  });
+
+  it('rejects epoch numbers and non-ISO date strings', () => {
+    const rule = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'built', operator: 'dateBefore', value: '1980-01-01' })) },
+    });
+    for (const built of [0, '01/01/1970', '1970-01-01T00:00:00']) {
+      const result = evaluateRules([rule], makeContext({ inputs: { built } }));
+      expect(result.firedRules).toHaveLength(0);
+      expect(result.trace[0].conditionTrace[0].note).toContain('not a valid date');
+    }
+  });
+});
+
+describe('toUtcDay', () => {
+  it('accepts ISO dates, offset date-times and Date values', () => {
+    expect(toUtcDay('2025-03-01')?.toISOString()).toBe('2025-03-01T00:00:00.000Z');
+    expect(toUtcDay('2025-03-01T23:30:00-05:00')?.toISOString()).toBe('2025-03-01T00:00:00.000Z');
+    expect(toUtcDay('2025-03-01T00:30:00+09:00')?.toISOString()).toBe('2025-03-01T00:00:00.000Z');
+    expect(toUtcDay(new Date('2025-03-01T12:00:00Z'))?.toISOString()).toBe('2025-03-01T00:00:00.000Z');
+  });
+
+  it('rejects everything else', () => {
+    expect(toUtcDay(1735689600000)).toBeNull();
+    expect(toUtcDay('March 1, 2025')).toBeNull();
+    expect(toUtcDay('2025-03-01T00:00')).toBeNull();
+    expect(toUtcDay('2025-03-01T25:00:00Z')).toBeNull();
+    expect(toUtcDay('2025-02-30')).toBeNull();
+    expect(toUtcDay(new Date(NaN))).toBeNull();
+  });
+});
+
+describe('Derived fields and field comparisons', () => {
+  it('reads "derived." references from derivedFields', () => {
+    const rule = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'derived.final_premium', operator: 'gt', value: 10000 })) },
+    });
+    expect(evaluateRules([rule], makeContext({ derivedFields: { final_premium: 12000 } })).firedRules).toHaveLength(1);
+    expect(evaluateRules([rule], makeContext({ derivedFields: { final_premium: 8000 } })).firedRules).toHaveLength(0);
+    expect(evaluateRules([rule], makeContext({ inputs: { final_premium: 12000 } })).firedRules).toHaveLength(0);
+  });
+
+  it('compares against another field and records it in the trace', () => {
+    const rule = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({
+        fieldCode: 'coverage_limit', operator: 'gt', value: '', compareToField: 'derived.replacement_cost',
+      })) },
+    });
+    const result = evaluateRules([rule], makeContext({
+      inputs: { coverage_limit: 500000 },
+      derivedFields: { replacement_cost: 400000 },
+    }));
+    expect(result.firedRules).toHaveLength(1);
+    const trace = result.trace[0].conditionTrace[0];
+    expect(trace.comparedFieldCode).toBe('derived.replacement_cost');
+    expect(trace.expectedValue).toBe(400000);
+  });
+
+  it('does not fire when the compared field is missing', () => {
+    const rule = makeRuleWithVersion({
+      version: { conditions: group('AND', leaf({ fieldCode: 'a', operator: 'eq', value: '', compareToField: 'b' })) },
+    });
+    const result = evaluateRules([rule], makeContext({ inputs: { a: 1 } }));
+    expect(result.firedRules).toHaveLength(0);
+    expect(result.trace[0].conditionTrace[0].note).toContain('"b"');
+  });
+});
+
 // ============================================================================
 // Group Logic Tests
 // ============================================================================
@@ -496,6 +672,53 @@ describe('validateRuleVersion', () => {
     expect(result.issues.some(i => i.message.includes('end value'))).toBe(true);
   });
 
+  it('reports invalid regex patterns', () => {
+    const version = makeVersion({
+      conditions: group('AND', leaf({ fieldCode: 'fein', operator: 'matches', value: '([' })),
+    });
+
+    const result = validateRuleVersion(version, ['fein']);
+    expect(result.isValid).toBe(false);
+    expect(result.issues.some(i => i.message.startsWith('Invalid pattern'))).toBe(true);
+  });
+
+  it('reports invalid date operator values', () => {
+    const version = makeVersion({
+      conditions: group('AND',
+        leaf({ id: 'a', fieldCode: 'built', operator: 'dateBefore', value: 'someday' }),
+        leaf({ id: 'b', fieldCode: 'built', operator: 'withinLast', value: -5, dateUnit: 'years' }),
+      ),
+    });
+
+    const result = validateRuleVersion(version, ['built']);
+    expect(result.issues.filter(i => i.type === 'error')).toHaveLength(2);
+  });
+
+  it('does not warn about empty values for existence checks', () => {
+    const version = makeVersion({
+      conditions: group('AND', leaf({ fieldCode: 'fein', operator: 'notExists', value: '' })),
+    });
+
+    const result = validateRuleVersion(version, ['fein']);
+    expect(result.issues).toHaveLength(0);
+  });
+
+  it('validates derived and compared field references', () => {
+    const version = makeVersion({
+      conditions: group('AND',
+        leaf({ id: 'a', fieldCode: 'derived.final_premium', operator: 'gt', value: 100 }),
+        leaf({ id: 'b', fieldCode: 'limit', operator: 'gt', value: '', compareToField: 'derived.unknown' }),
+      ),
+    });
+
+    expect(validateRuleVersion(version, ['limit']).isValid).toBe(true);
+
+    const result = validateRuleVersion(version, ['limit'], ['final_premium']);
+    expect(result.isValid).toBe(false);
+    expect(result.issues.some(i => i.fieldCode === 'derived.unknown')).toBe(true);
+    expect(result.referencedFieldCodes).toEqual(['derived.final_premium', 'limit', 'derived.unknown']);
+  });
+
   it('reports missing product version scope', () => {
     const version = makeVersion({
       scope: makeScope({ productVersionId: '' }),
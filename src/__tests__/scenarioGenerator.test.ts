@@ -0,0 +1,203 @@
+/**
+ * Scenario Generator Tests
+ *
+ * Tests boundary collection from tables, conditional steps and rules,
+ * pairwise coverage, and expected-output seeding from the published version.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  collectScenarioBoundaries,
+  generateScenarios,
+  toScenarioDraft,
+} from '../engine/scenarioGenerator';
+import { runSingleScenario } from '../engine/regressionRunner';
+import type { RuleWithVersion } from '../engine/rulesEngine';
+import type { RatingStep, RatingTableData } from '../types/ratingEngine';
+import type { Scenario } from '../types/scenario';
+import { Timestamp } from 'firebase/firestore';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+function step(overrides: Partial<RatingStep>): RatingStep {
+  return {
+    id: 'step',
+    rateProgramVersionId: 'rpv-1',
+    order: 1,
+    type: 'constant',
+    name: 'Step',
+    outputFieldCode: 'out',
+    inputs: [],
+    enabled: true,
+    roundingMode: 'none',
+    roundingPrecision: 2,
+    allStates: true,
+    ...overrides,
+  };
+}
+
+const table: RatingTableData = {
+  tableVersionId: 'tv-1',
+  dimensions: [
+    {
+      name: 'Age',
+      fieldCode: 'building_age',
+      values: ['new', 'old'],
+      valueType: 'range',
+      ranges: [
+        { label: 'new', min: 0, max: 25, inclusive: 'both' },
+        { label: 'old', min: 25, max: 100, inclusive: 'max' },
+      ],
+    },
+    { name: 'Construction', fieldCode: 'construction', values: ['frame', 'masonry'], valueType: 'string' },
+  ],
+  values: { 'new-frame': 1.0, 'new-masonry': 0.9, 'old-frame': 1.3, 'old-masonry': 1.1 },
+};
+
+const tables = new Map([['tv-1', table]]);
+
+const steps: RatingStep[] = [
+  step({
+    id: 'lookup', order: 1, type: 'tableLookup', name: 'Age factor', outputFieldCode: 'age_factor',
+    inputs: ['building_age', 'construction'], tableVersionId: 'tv-1', lookupMode: 'range',
+    lookupDimensions: [
+      { dimensionName: 'Age', fieldCode: 'building_age' },
+      { dimensionName: 'Construction', fieldCode: 'construction' },
+    ],
+  }),
+  step({
+    id: 'size', order: 2, type: 'conditional', name: 'Size credit', outputFieldCode: 'size_factor',
+    inputs: ['tiv'], condition: { fieldCode: 'tiv', operator: 'gt', value: 1000000 }, thenValue: 0.95, elseValue: 1,
+  }),
+  step({
+    id: 'premium', order: 3, type: 'expression', name: 'Premium', outputFieldCode: 'final_premium',
+    inputs: ['age_factor', 'size_factor'], expression: 'age_factor * size_factor * 1000',
+  }),
+];
+
+const rule: RuleWithVersion = {
+  ruleId: 'r1',
+  ruleName: 'Old frame referral',
+  ruleType: 'referral',
+  version: {
+    id: 'rv1', ruleId: 'r1', versionNumber: 1, status: 'published',
+    conditions: {
+      kind: 'group', id: 'g', operator: 'AND',
+      conditions: [{ kind: 'leaf', id: 'l', fieldCode: 'building_age', operator: 'between', value: 40, valueEnd: 60 }],
+    },
+    outcome: { action: 'refer', message: 'Refer', severity: 'warning', requiredDocs: [] },
+    scope: { productVersionId: 'pv-1', stateCode: null, coverageVersionId: null },
+    effectiveStart: null, effectiveEnd: null,
+    createdAt: new Date(), createdBy: 't', updatedAt: new Date(), updatedBy: 't',
+  },
+};
+
+const baseInput = {
+  publishedSteps: steps,
+  publishedVersionId: 'rpv-1',
+  tables,
+  effectiveDate: new Date('2025-01-01'),
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// Boundary collection
+// ════════════════════════════════════════════════════════════════════════
+
+describe('collectScenarioBoundaries', () => {
+  it('collects range bounds, table values and conditional thresholds', () => {
+    const boundaries = collectScenarioBoundaries(steps, tables);
+    const valuesFor = (field: string) => boundaries.filter(b => b.fieldCode === field).map(b => [b.value, b.tag]);
+
+    expect(valuesFor('building_age')).toEqual([
+      [-1, 'edge_case'],
+      [0, 'boundary'],
+      [25, 'boundary'],
+      [26, 'boundary'],
+      [100, 'boundary'],
+      [101, 'edge_case'],
+    ]);
+    expect(valuesFor('construction')).toEqual([['frame', 'boundary'], ['masonry', 'boundary']]);
+    expect(valuesFor('tiv')).toEqual([[999999, 'boundary'], [1000000, 'boundary'], [1000001, 'boundary']]);
+  });
+
+  it('adds rule cut-points and skips fields computed by steps', () => {
+    const boundaries = collectScenarioBoundaries(steps, tables, [rule]);
+    expect(boundaries.filter(b => b.source === 'rule_condition').map(b => b.value)).toEqual([39, 40, 60, 61]);
+    expect(boundaries.some(b => b.fieldCode === 'age_factor')).toBe(false);
+  });
+
+  it('uses breakpoints and midpoints for interpolated dimensions', () => {
+    const ilf: RatingTableData = {
+      tableVersionId: 'ilf',
+      dimensions: [{ name: 'Limit', fieldCode: 'limit', values: ['100000', '300000'] }],
+      values: { '100000': 1, '300000': 1.3 },
+    };
+    const boundaries = collectScenarioBoundaries(
+      [step({ type: 'tableLookup', tableVersionId: 'ilf', lookupMode: 'interpolate', outputFieldCode: 'ilf' })],
+      new Map([['ilf', ilf]]),
+    );
+    expect(boundaries.map(b => [b.value, b.tag])).toEqual([
+      [99999, 'edge_case'],
+      [100000, 'boundary'],
+      [200000, 'boundary'],
+      [300000, 'boundary'],
+      [300001, 'edge_case'],
+    ]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Generation
+// ════════════════════════════════════════════════════════════════════════
+
+describe('generateScenarios', () => {
+  it('seeds expected outputs from the published version', () => {
+    const output = generateScenarios(baseInput);
+    const masonry = output.scenarios.find(s => s.name === 'construction = masonry');
+
+    expect(masonry?.inputs).toEqual({ building_age: 0, construction: 'masonry', tiv: 999999 });
+    expect(masonry?.expectedOutputs.final_premium).toBeCloseTo(900);
+    expect(masonry?.tags).toEqual(['boundary']);
+  });
+
+  it('rejects input sets the published version cannot rate', () => {
+    const output = generateScenarios(baseInput);
+    expect(output.rejected.map(r => r.name)).toEqual(['building_age = -1', 'building_age = 101']);
+    expect(output.scenarios.every(s => s.tags.includes('boundary'))).toBe(true);
+  });
+
+  it('covers every cross-field pair of in-domain values', () => {
+    const output = generateScenarios(baseInput);
+    // building_age 4 × construction 2 + building_age 4 × tiv 3 + construction 2 × tiv 3
+    expect(output.pairwiseCoverage).toEqual({ covered: 26, total: 26 });
+
+    expect(output.scenarios.some(s => s.name.startsWith('Pairwise'))).toBe(true);
+    for (const age of [0, 25, 26, 100]) {
+      for (const construction of ['frame', 'masonry']) {
+        expect(output.scenarios.some(s => s.inputs.building_age === age && s.inputs.construction === construction)).toBe(true);
+      }
+    }
+    expect(new Set(output.scenarios.map(s => JSON.stringify(s.inputs))).size).toBe(output.scenarios.length);
+  });
+
+  it('is deterministic and honours the scenario cap', () => {
+    expect(generateScenarios(baseInput)).toEqual(generateScenarios(baseInput));
+    expect(generateScenarios({ ...baseInput, maxScenarios: 5 }).scenarios).toHaveLength(5);
+  });
+
+  it('produces scenarios that pass the regression runner against the same version', () => {
+    const output = generateScenarios({ ...baseInput, rules: [rule], stateCode: 'TX' });
+    const now = Timestamp.now();
+    for (const generated of output.scenarios) {
+      const scenario: Scenario = {
+        id: generated.name,
+        ...toScenarioDraft(generated, 'rp-1'),
+        createdAt: now, createdBy: 't', updatedAt: now, updatedBy: 't',
+      };
+      expect(scenario.stateCode).toBe('TX');
+      expect(runSingleScenario(scenario, steps, 'rpv-1', undefined, undefined, tables).status).toBe('pass');
+    }
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Schedule Extraction Tests
+ *
+ * Tests amount parsing, cell splitting, schedule table detection and
+ * reconciliation of printed limits/deductibles against option sets.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseAmount,
+  splitCells,
+  detectBasis,
+  extractScheduleTables,
+  configuredLimitAmounts,
+  configuredDeductibleAmounts,
+  reconcileSchedules,
+} from '../engine/scheduleExtraction';
+import type { PageText } from '../engine/ingestionEngine';
+import type { CoverageLimitOption, CoverageLimitOptionSet } from '../types/limitOptions';
+import type { CoverageDeductibleOption, CoverageDeductibleOptionSet } from '../types/deductibleOptions';
+import type { FormScheduleTable } from '../types/ingestion';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+function makePage(pageNumber: number, lines: string[]): PageText {
+  const text = lines.join('\n');
+  return { pageNumber, text, charCount: text.length };
+}
+
+const declarations = makePage(1, [
+  'COMMERCIAL GENERAL LIABILITY DECLARATIONS',
+  'Named Insured: Acme Widgets, Inc.',
+  '',
+  'LIMITS OF INSURANCE',
+  'Coverage\tEach Occurrence\tAggregate',
+  'Bodily Injury and Property Damage\t$1,000,000\t$2,000,000',
+  'Personal and Advertising Injury\t$1,000,000\t$2,000,000',
+  'Damage To Premises Rented To You\t$100,000',
+  '',
+  'We will pay those sums that the insured becomes legally obligated to pay.',
+]);
+
+const deductiblePage = makePage(2, [
+  'DEDUCTIBLES',
+  'Property Damage Deductible ........ $500',
+  'Windstorm or Hail  2%',
+]);
+
+function tablesWithIds(pages: PageText[]): FormScheduleTable[] {
+  return extractScheduleTables(pages).map(t => ({ ...t, id: `t${t.index}` }));
+}
+
+const limitSet = { id: 'ls1', basisConfig: { primaryBasis: 'perOccurrence' } } as CoverageLimitOptionSet;
+const deductibleSet = { id: 'ds1' } as CoverageDeductibleOptionSet;
+
+function occAgg(id: string, perOccurrence: number, aggregate: number, isEnabled = true): CoverageLimitOption {
+  return { id, label: id, isDefault: false, isEnabled, displayOrder: 0, structure: 'occAgg', perOccurrence, aggregate };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Amounts and cells
+// ════════════════════════════════════════════════════════════════════════
+
+describe('parseAmount', () => {
+  it('reads dollars, shorthand and percentages', () => {
+    expect(parseAmount('$1,000,000')).toEqual({ value: 1_000_000, unit: 'currency' });
+    expect(parseAmount('$1M')).toEqual({ value: 1_000_000, unit: 'currency' });
+    expect(parseAmount('$2.5 million')).toEqual({ value: 2_500_000, unit: 'currency' });
+    expect(parseAmount('$500K')).toEqual({ value: 500_000, unit: 'currency' });
+    expect(parseAmount('2%')).toEqual({ value: 2, unit: 'percent' });
+    expect(parseAmount('None')).toBeNull();
+  });
+});
+
+describe('splitCells', () => {
+  it('splits on tabs, wide spaces and dot leaders', () => {
+    expect(splitCells('Coverage\tLimit\tDeductible')).toEqual(['Coverage', 'Limit', 'Deductible']);
+    expect(splitCells('Each Occurrence    $1,000,000')).toEqual(['Each Occurrence', '$1,000,000']);
+    expect(splitCells('Deductible ....... $500')).toEqual(['Deductible', '$500']);
+  });
+
+  it('splits trailing amounts off a label', () => {
+    expect(splitCells('Each Occurrence Limit: $1,000,000')).toEqual(['Each Occurrence Limit', '$1,000,000']);
+    expect(splitCells('Bodily Injury $100,000 / $300,000')).toEqual(['Bodily Injury', '$100,000', '$300,000']);
+  });
+
+  it('leaves prose and bare numbers as one cell', () => {
+    expect(splitCells('This policy was issued in 2024 under form CG 00 01')).toHaveLength(1);
+    expect(splitCells('$1,000,000')).toEqual(['$1,000,000']);
+  });
+});
+
+describe('detectBasis', () => {
+  it('recognises limit bases without matching look-alike words', () => {
+    expect(detectBasis('General Aggregate Limit')).toBe('aggregate');
+    expect(detectBasis('Each Occurrence')).toBe('perOccurrence');
+    expect(detectBasis('Each Claim')).toBe('perClaim');
+    expect(detectBasis('Personal and Advertising Injury')).toBeUndefined();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Table detection
+// ════════════════════════════════════════════════════════════════════════
+
+describe('extractScheduleTables', () => {
+  it('keeps the header, rows and cells of a limits grid', () => {
+    const [table] = extractScheduleTables([declarations]);
+    expect(table.title).toBe('LIMITS OF INSURANCE');
+    expect(table.sectionType).toBe('limits');
+    expect(table.headers).toEqual(['Coverage', 'Each Occurrence', 'Aggregate']);
+    expect(table.rows).toHaveLength(3);
+    expect(table.rows[0].cells).toEqual(['Bodily Injury and Property Damage', '$1,000,000', '$2,000,000']);
+    expect(table.anchor.anchorText).toBe('Coverage Each Occurrence Aggregate');
+  });
+
+  it('reads each amount\'s kind and basis from its column header', () => {
+    const [table] = extractScheduleTables([declarations]);
+    const [occurrence, aggregate] = table.rows[0].amounts;
+    expect(occurrence).toMatchObject({ value: 1_000_000, kind: 'limit', basis: 'perOccurrence', column: 1 });
+    expect(aggregate).toMatchObject({ value: 2_000_000, kind: 'limit', basis: 'aggregate', column: 2 });
+  });
+
+  it('anchors rows to their page and line offset', () => {
+    const [table] = extractScheduleTables([declarations]);
+    const row = table.rows[2];
+    expect(row.page).toBe(1);
+    expect(declarations.text.slice(row.anchor.offset)).toMatch(/^Damage To Premises/);
+  });
+
+  it('takes the kind from the section when the label is silent', () => {
+    const [table] = extractScheduleTables([deductiblePage]);
+    expect(table.sectionType).toBe('deductibles');
+    expect(table.rows.map(r => r.amounts[0])).toMatchObject([
+      { value: 500, unit: 'currency', kind: 'deductible' },
+      { value: 2, unit: 'percent', kind: 'deductible' },
+    ]);
+  });
+
+  it('needs two rows outside schedule sections and ignores prose', () => {
+    const prose = makePage(1, [
+      'CONDITIONS',
+      'The most we will pay is $1,000,000 as shown in the Declarations.',
+      'Each Occurrence Limit $1,000,000',
+      '',
+      'Other text follows here.',
+    ]);
+    expect(extractScheduleTables([prose])).toEqual([]);
+  });
+
+  it('does not continue a table across pages', () => {
+    const next = makePage(2, ['Medical Expense\t$5,000', 'Fire Damage\t$100,000']);
+    const tables = extractScheduleTables([declarations, next]);
+    expect(tables.map(t => [t.page, t.rows.length])).toEqual([[1, 3], [2, 2]]);
+    expect(tables[1].index).toBe(1);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Configured amounts
+// ════════════════════════════════════════════════════════════════════════
+
+describe('configured amounts', () => {
+  it('flattens enabled limit options with their bases', () => {
+    const amounts = configuredLimitAmounts([{
+      optionSet: limitSet,
+      options: [
+        occAgg('1m/2m', 1_000_000, 2_000_000),
+        occAgg('off', 5_000_000, 5_000_000, false),
+        { id: 'single', label: '$100,000', isDefault: false, isEnabled: true, displayOrder: 1, structure: 'single', amount: 100_000 },
+      ],
+    }]);
+    expect(amounts.map(a => [a.value, a.basis])).toEqual([
+      [1_000_000, 'perOccurrence'],
+      [2_000_000, 'aggregate'],
+      [100_000, 'perOccurrence'],
+    ]);
+  });
+
+  it('flattens deductibles into amounts and percentages', () => {
+    const amounts = configuredDeductibleAmounts([{
+      optionSet: deductibleSet,
+      options: [
+        { id: 'd1', label: '$500', isDefault: true, isEnabled: true, displayOrder: 0, structure: 'flat', amount: 500 },
+        { id: 'd2', label: '2%', isDefault: false, isEnabled: true, displayOrder: 1, structure: 'percentage', percentage: 2 },
+      ] as CoverageDeductibleOption[],
+    }]);
+    expect(amounts.map(a => [a.value, a.unit])).toEqual([[500, 'currency'], [2, 'percent']]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Reconciliation
+// ════════════════════════════════════════════════════════════════════════
+
+describe('reconcileSchedules', () => {
+  const deductibles = configuredDeductibleAmounts([{
+    optionSet: deductibleSet,
+    options: [
+      { id: 'd1', label: '$500', isDefault: true, isEnabled: true, displayOrder: 0, structure: 'flat', amount: 500 },
+      { id: 'd2', label: '$1,000', isDefault: false, isEnabled: true, displayOrder: 1, structure: 'flat', amount: 1000 },
+    ] as CoverageDeductibleOption[],
+  }]);
+
+  it('matches printed amounts and lists configured values not on the form', () => {
+    const limits = configuredLimitAmounts([{ optionSet: limitSet, options: [occAgg('1m/2m', 1_000_000, 2_000_000)] }]);
+    const report = reconcileSchedules(tablesWithIds([declarations, deductiblePage]), [...limits, ...deductibles]);
+
+    const matched = report.items.filter(i => i.status === 'matched');
+    expect(matched.map(i => i.formAmount?.value)).toEqual([1_000_000, 2_000_000, 1_000_000, 2_000_000, 500]);
+    expect(matched[0].anchor?.page).toBe(1);
+    expect(matched[0].tableId).toBe('t0');
+
+    const missing = report.items.filter(i => i.status === 'not_in_form');
+    expect(missing.map(i => i.configured?.value)).toEqual([1000]);
+  });
+
+  it('reports a mismatch when the basis has other configured values', () => {
+    const limits = configuredLimitAmounts([{ optionSet: limitSet, options: [occAgg('1m/3m', 1_000_000, 3_000_000)] }]);
+    const report = reconcileSchedules(tablesWithIds([declarations]), limits);
+
+    const mismatches = report.items.filter(i => i.status === 'mismatch');
+    expect(mismatches).toHaveLength(2);
+    expect(mismatches[0]).toMatchObject({ formLabel: 'Bodily Injury and Property Damage', expected: [3_000_000] });
+    expect(report.consistent).toBe(false);
+  });
+
+  it('reports printed amounts the product does not configure', () => {
+    const limits = configuredLimitAmounts([{ optionSet: limitSet, options: [occAgg('1m/2m', 1_000_000, 2_000_000)] }]);
+    const report = reconcileSchedules(tablesWithIds([declarations]), limits);
+
+    // Premises rented has no basis and no configured $100,000
+    const extra = report.items.filter(i => i.status === 'not_in_product');
+    expect(extra.map(i => i.formLabel)).toEqual(['Damage To Premises Rented To You']);
+    expect(report.counts).toEqual({ matched: 4, mismatch: 0, not_in_product: 1, not_in_form: 0 });
+  });
+});
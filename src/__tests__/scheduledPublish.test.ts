@@ -0,0 +1,190 @@
+/**
+ * Scheduled Publish Engine – Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  zonedTimeToUtc,
+  timeZoneOffsetMinutes,
+  localDateInZone,
+  validateScheduleWindow,
+  holdReasonFromPreflight,
+  statusAfterPublishError,
+  isScheduleDue,
+  isBlockingTaskReopened,
+  linkedChangeSetIds,
+  canCancelSchedule,
+  canReschedule,
+  isClaimStale,
+  buildReleaseCalendar,
+} from '../engine/scheduledPublish';
+import type { ScheduledPublish } from '../types/scheduledPublish';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+const ts = (iso: string) => {
+  const ms = Date.parse(iso);
+  return { toMillis: () => ms, toDate: () => new Date(ms) } as unknown as ScheduledPublish['runAt'];
+};
+
+function schedule(partial: Partial<ScheduledPublish>): ScheduledPublish {
+  return {
+    id: 's1', orgId: 'o1', changeSetId: 'cs1', changeSetName: 'Q3 rates',
+    effectiveDate: '2026-07-01', effectiveTime: '00:00', timeZone: 'America/Chicago',
+    runAt: ts('2026-07-01T05:00:00Z'), status: 'scheduled', attempts: 0, history: [],
+    createdAt: ts('2026-03-01T00:00:00Z'), createdBy: 'u1',
+    updatedAt: ts('2026-03-01T00:00:00Z'), updatedBy: 'u1',
+    ...partial,
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Time zones
+// ════════════════════════════════════════════════════════════════════════
+
+describe('zonedTimeToUtc()', () => {
+  it('converts local midnight to the UTC instant', () => {
+    expect(zonedTimeToUtc('2026-07-01', '00:00', 'America/Chicago').toISOString()).toBe('2026-07-01T05:00:00.000Z');
+    expect(zonedTimeToUtc('2026-01-01', '00:00', 'America/Chicago').toISOString()).toBe('2026-01-01T06:00:00.000Z');
+    expect(zonedTimeToUtc('2026-07-01', '00:00', 'Asia/Tokyo').toISOString()).toBe('2026-06-30T15:00:00.000Z');
+  });
+
+  it('moves a time skipped by spring-forward past the gap', () => {
+    expect(zonedTimeToUtc('2026-03-08', '02:30', 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  it('takes the first occurrence of a repeated fall-back time', () => {
+    expect(zonedTimeToUtc('2026-11-01', '01:30', 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  it('rejects bad input', () => {
+    expect(() => zonedTimeToUtc('2026-02-30', '00:00', 'UTC')).toThrow(/date/);
+    expect(() => zonedTimeToUtc('2026-07-01', '24:00', 'UTC')).toThrow(/time/);
+    expect(() => zonedTimeToUtc('2026-07-01', '00:00', 'Mars/Olympus')).toThrow(/time zone/);
+  });
+});
+
+describe('timeZoneOffsetMinutes() / localDateInZone()', () => {
+  it('reports the offset and local date at an instant', () => {
+    const instant = new Date('2026-07-01T03:00:00Z');
+    expect(timeZoneOffsetMinutes(instant, 'America/Chicago')).toBe(-300);
+    expect(localDateInZone(instant, 'America/Chicago')).toBe('2026-06-30');
+    expect(localDateInZone(instant, 'UTC')).toBe('2026-07-01');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Lifecycle
+// ════════════════════════════════════════════════════════════════════════
+
+describe('validateScheduleWindow()', () => {
+  const now = new Date('2026-03-15T12:00:00Z');
+
+  it('accepts a future go-live', () => {
+    expect(validateScheduleWindow({ effectiveDate: '2026-07-01', effectiveTime: '00:00', timeZone: 'America/Chicago' }, now)).toEqual([]);
+  });
+
+  it('rejects a go-live in the past', () => {
+    expect(validateScheduleWindow({ effectiveDate: '2026-03-15', effectiveTime: '06:00', timeZone: 'America/Chicago' }, now))
+      .toEqual(['Go-live must be in the future']);
+  });
+
+  it('lists every malformed field', () => {
+    expect(validateScheduleWindow({ effectiveDate: '7/1/2026', effectiveTime: '9am', timeZone: '' }, now)).toHaveLength(3);
+  });
+});
+
+describe('run decisions', () => {
+  it('holds with the preflight errors as the reason', () => {
+    expect(holdReasonFromPreflight({ canPublish: true, issues: [{ type: 'warning', message: 'past date' }] })).toBeNull();
+    expect(holdReasonFromPreflight({
+      canPublish: false,
+      issues: [
+        { type: 'error', message: '1 blocking task(s) not complete: Filing review' },
+        { type: 'warning', message: 'past date' },
+        { type: 'error', message: 'Pending approvals: actuary' },
+      ],
+    })).toBe('1 blocking task(s) not complete: Filing review; Pending approvals: actuary');
+  });
+
+  it('retries publish errors until the attempt limit', () => {
+    expect(statusAfterPublishError(1)).toBe('scheduled');
+    expect(statusAfterPublishError(3)).toBe('failed');
+  });
+
+  it('is due once runAt passes while still scheduled', () => {
+    const s = schedule({});
+    expect(isScheduleDue(s, new Date('2026-07-01T04:59:00Z'))).toBe(false);
+    expect(isScheduleDue(s, new Date('2026-07-01T05:00:00Z'))).toBe(true);
+    expect(isScheduleDue({ ...s, status: 'held' }, new Date('2026-07-02T00:00:00Z'))).toBe(false);
+  });
+
+  it('limits cancel and reschedule to open schedules', () => {
+    expect(canCancelSchedule('held')).toBe(true);
+    expect(canCancelSchedule('publishing')).toBe(false);
+    expect(canReschedule('failed')).toBe(true);
+    expect(canReschedule('published')).toBe(false);
+  });
+
+  it('treats a publishing claim as stale after the timeout', () => {
+    const claimed = schedule({ status: 'publishing', claimedAt: ts('2026-07-01T05:00:00Z') });
+    expect(isClaimStale(claimed, new Date('2026-07-01T05:14:00Z'))).toBe(false);
+    expect(isClaimStale(claimed, new Date('2026-07-01T05:15:00Z'))).toBe(true);
+    expect(isClaimStale(schedule({ status: 'publishing' }))).toBe(true);
+    expect(isClaimStale(schedule({ claimedAt: ts('2026-07-01T05:00:00Z') }), new Date('2026-08-01'))).toBe(false);
+  });
+
+  it('lets a stalled publishing schedule be cancelled', () => {
+    expect(canCancelSchedule('publishing', true)).toBe(true);
+    expect(canCancelSchedule('published', true)).toBe(false);
+  });
+});
+
+describe('isBlockingTaskReopened()', () => {
+  it('fires when a blocking task returns to open', () => {
+    expect(isBlockingTaskReopened({ status: 'done', blocking: true }, { status: 'open', blocking: true })).toBe(true);
+    expect(isBlockingTaskReopened({ status: 'open', blocking: false }, { status: 'open', blocking: true })).toBe(true);
+  });
+
+  it('ignores tasks that were already blocking or are not blocking', () => {
+    expect(isBlockingTaskReopened({ status: 'open', blocking: true }, { status: 'in_progress', blocking: true })).toBe(false);
+    expect(isBlockingTaskReopened({ status: 'done', blocking: false }, { status: 'open', blocking: false })).toBe(false);
+  });
+
+  it('collects linked change sets once each', () => {
+    expect(linkedChangeSetIds({
+      links: [
+        { type: 'product', artifactId: 'p1', changeSetId: 'cs1' },
+        { type: 'rule', artifactId: 'r1', changeSetId: 'cs1' },
+        { type: 'form', artifactId: 'f1' },
+      ],
+    })).toEqual(['cs1']);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Release calendar
+// ════════════════════════════════════════════════════════════════════════
+
+describe('buildReleaseCalendar()', () => {
+  const cal = buildReleaseCalendar(2026, 7, [
+    schedule({ id: 'b', effectiveTime: '09:00', runAt: ts('2026-07-01T14:00:00Z') }),
+    schedule({ id: 'a' }),
+    schedule({ id: 'c', effectiveDate: '2026-08-01', runAt: ts('2026-08-01T05:00:00Z') }),
+  ]);
+
+  it('lays the month out in Monday-first weeks', () => {
+    // July 2026 starts on a Wednesday
+    expect(cal.weeks[0][0]).toMatchObject({ date: '2026-06-29', inMonth: false });
+    expect(cal.weeks[0][2]).toMatchObject({ date: '2026-07-01', inMonth: true });
+    expect(cal.weeks.every(w => w.length === 7)).toBe(true);
+    expect(cal.weeks[cal.weeks.length - 1][6].date).toBe('2026-08-02');
+  });
+
+  it('places schedules on their local date in go-live order', () => {
+    expect(cal.weeks[0][2].entries.map(e => e.id)).toEqual(['a', 'b']);
+    expect(cal.weeks[cal.weeks.length - 1][5].entries.map(e => e.id)).toEqual(['c']);
+  });
+});
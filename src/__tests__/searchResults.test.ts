@@ -0,0 +1,115 @@
+/**
+ * Search Result Matching, Scoring & Facets – Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  scoreSearchDoc,
+  toSearchResult,
+  matchesFacets,
+  applyFacetFilters,
+  countFacets,
+} from '../utils/searchResults';
+import { buildSearchVectors, generateBodyTokens } from '../utils/searchTokens';
+import type { SearchIndexDoc, SearchResult } from '../types/search';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+function indexDoc(partial: Partial<SearchIndexDoc> & { title: string }): SearchIndexDoc {
+  const { tokens, prefixes } = buildSearchVectors(partial.title, partial.subtitle);
+  return {
+    type: 'form',
+    artifactId: 'a1',
+    subtitle: '',
+    tokens,
+    prefixes,
+    updatedAt: null as unknown as SearchIndexDoc['updatedAt'],
+    ...partial,
+  };
+}
+
+function result(partial: Partial<SearchResult>): SearchResult {
+  return { id: 'r', type: 'form', artifactId: 'a', title: 't', subtitle: '', ...partial };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// scoreSearchDoc()
+// ════════════════════════════════════════════════════════════════════════
+
+describe('scoreSearchDoc()', () => {
+  const form = indexDoc({
+    title: 'CP 10 30 — Causes of Loss Special Form',
+    bodyTokens: generateBodyTokens('We will not pay for water which backs up through sewers or drains.'),
+  });
+
+  it('ranks exact tokens above prefixes above body text', () => {
+    const exact = scoreSearchDoc(form, ['special'], 'special')!;
+    const prefix = scoreSearchDoc(form, ['spec'], 'zzz')!;
+    const body = scoreSearchDoc(form, ['sewers'], 'sewers')!;
+    expect(exact.score).toBeGreaterThan(prefix.score);
+    expect(prefix.score).toBeGreaterThan(body.score);
+    expect(body.bodyMatch).toBe(true);
+    expect(exact.bodyMatch).toBe(false);
+  });
+
+  it('matches leading tokens longer than the stored prefixes', () => {
+    expect(scoreSearchDoc(indexDoc({ title: 'Endorsement Schedule' }), ['endorsem'], 'x')).not.toBeNull();
+    expect(scoreSearchDoc(indexDoc({ title: 'Endorsement Schedule' }), ['endorseme'], 'x')).not.toBeNull();
+  });
+
+  it('requires every query token to match somewhere', () => {
+    expect(scoreSearchDoc(form, ['special', 'sewers'], 'special sewers')).not.toBeNull();
+    expect(scoreSearchDoc(form, ['special', 'earthquake'], 'special earthquake')).toBeNull();
+  });
+
+  it('boosts a title phrase match', () => {
+    const phrase = scoreSearchDoc(form, ['causes', 'loss'], 'causes of loss')!;
+    const scattered = scoreSearchDoc(form, ['causes', 'loss'], 'loss causes')!;
+    expect(phrase.score).toBeGreaterThan(scattered.score);
+  });
+});
+
+describe('toSearchResult()', () => {
+  it('carries facet fields and flags body matches', () => {
+    const d = indexDoc({ title: 'Clause', type: 'clause', productIds: ['p1'], states: ['CA'], status: 'published' });
+    expect(toSearchResult('clause_a1', d, true)).toMatchObject({
+      id: 'clause_a1', type: 'clause', productIds: ['p1'], states: ['CA'], status: 'published', bodyMatch: true,
+    });
+    expect(toSearchResult('clause_a1', d)).not.toHaveProperty('bodyMatch');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Facets
+// ════════════════════════════════════════════════════════════════════════
+
+describe('facets', () => {
+  const results: SearchResult[] = [
+    result({ id: '1', type: 'product', artifactId: 'p1', status: 'active' }),
+    result({ id: '2', type: 'coverage', parentType: 'product', parentId: 'p1', states: ['CA', 'NY'] }),
+    result({ id: '3', type: 'form', productIds: ['p1', 'p2'], states: ['CA'], status: 'published' }),
+    result({ id: '4', type: 'clause', status: 'published' }),
+  ];
+
+  it('counts each facet value once per result', () => {
+    const facets = countFacets(results);
+    expect(facets.type).toEqual({ product: 1, coverage: 1, form: 1, clause: 1 });
+    expect(facets.productId).toEqual({ p1: 3, p2: 1 });
+    expect(facets.state).toEqual({ CA: 2, NY: 1 });
+    expect(facets.status).toEqual({ active: 1, published: 2 });
+  });
+
+  it('falls back to the parent product when no product facet is stored', () => {
+    expect(matchesFacets(results[1], { productId: 'p1' })).toBe(true);
+    expect(matchesFacets(results[0], { productId: 'p2' })).toBe(false);
+  });
+
+  it('combines type, product, state and status filters', () => {
+    expect(applyFacetFilters(results, { state: 'CA' }).map(r => r.id)).toEqual(['2', '3']);
+    expect(applyFacetFilters(results, { state: 'CA', status: 'published' }).map(r => r.id)).toEqual(['3']);
+    expect(applyFacetFilters(results, { types: ['clause', 'product'] }).map(r => r.id)).toEqual(['1', '4']);
+    expect(applyFacetFilters(results, {})).toHaveLength(4);
+  });
+});
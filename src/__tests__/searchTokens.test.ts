@@ -8,12 +8,14 @@ import {
   generateTokens,
   prefixesForToken,
   generatePrefixes,
+  generateBodyTokens,
   buildSearchVectors,
 } from '../utils/searchTokens';
 import {
   MAX_TOKENS_PER_DOC,
   MAX_PREFIXES_PER_DOC,
   MAX_PREFIX_LENGTH,
+  MAX_BODY_TOKENS_PER_DOC,
 } from '../types/search';
 
 // ════════════════════════════════════════════════════════════════════════
@@ -228,3 +230,29 @@ describe('acceptance: search CP0010', () => {
     expect(docPrefixes).toContain('cp00');
   });
 });
+
+// ════════════════════════════════════════════════════════════════════════
+// generateBodyTokens()
+// ════════════════════════════════════════════════════════════════════════
+
+describe('generateBodyTokens()', () => {
+  it('returns empty array for empty input', () => {
+    expect(generateBodyTokens('')).toEqual([]);
+    expect(generateBodyTokens(null)).toEqual([]);
+  });
+
+  it('drops stop words, short words and bare numbers', () => {
+    expect(generateBodyTokens('We will not pay for loss in 2024 under this policy'))
+      .toEqual(['pay', 'loss', 'policy']);
+  });
+
+  it('orders by frequency, keeping first appearance on ties', () => {
+    const tokens = generateBodyTokens('Sewer backup. Water damage. Sewer drains and sewer pumps; water.');
+    expect(tokens.slice(0, 3)).toEqual(['sewer', 'water', 'backup']);
+  });
+
+  it(`is bounded to ${MAX_BODY_TOKENS_PER_DOC} tokens`, () => {
+    const text = Array.from({ length: MAX_BODY_TOKENS_PER_DOC + 50 }, (_, i) => `word${i}x`).join(' ');
+    expect(generateBodyTokens(text)).toHaveLength(MAX_BODY_TOKENS_PER_DOC);
+  });
+});
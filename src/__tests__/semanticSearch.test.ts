@@ -0,0 +1,228 @@
+/**
+ * Semantic Search Tests
+ *
+ * Tests stemming and compounds, BM25 ranking, the local hashing embedding
+ * provider, hybrid ranking with snippets / highlights / anchors, and the
+ * form viewer deep links.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  stem,
+  analyze,
+  buildBm25Index,
+  bm25Scores,
+  createHashingEmbeddingProvider,
+  cosine,
+  buildSemanticIndex,
+  searchSemanticIndex,
+  highlightRanges,
+  buildSnippet,
+  nearestAnchor,
+  formChunkDocs,
+  clauseVersionDoc,
+  coverageDoc,
+} from '../engine/semanticSearch';
+import type { ContentAnchor, FormIngestionChunk } from '../types/ingestion';
+import type { OrgClause, ClauseVersion } from '../types/clause';
+import type { Coverage } from '../types';
+import type { SemanticSearchDoc } from '../types/semanticSearch';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+const SEWER = 'We will not pay for loss or damage caused by water which backs up through sewers or drains, '
+  + 'or which overflows from a sump, sump pump or related equipment.';
+
+function anchor(slug: string, page: number, offset: number): ContentAnchor {
+  return { hash: `h-${slug}`, slug, anchorText: slug, page, offset };
+}
+
+function chunk(id: string, index: number, text: string, page: number, anchors: ContentAnchor[] = []): FormIngestionChunk {
+  return {
+    id, index, text, pageStart: page, pageEnd: page, anchors,
+    sectionPath: 'SECTION I.Exclusions', hash: id, charCount: text.length,
+  };
+}
+
+const chunks = [
+  chunk('c0', 0, 'Coverage A. We will pay for direct physical loss of or damage to Covered Property caused by a Covered Cause of Loss.', 1),
+  chunk('c1', 1, `Preamble text for the exclusions. ${SEWER}`, 3, [anchor('exclusions', 3, 0), anchor('water', 3, 34)]),
+  chunk('c2', 2, 'Earth movement, including earthquake, landslide, mine subsidence and volcanic eruption, is excluded.', 3),
+  chunk('c3', 3, 'Windstorm or hail damage to the interior of a building is covered only if the roof is first damaged.', 4),
+];
+
+const formDocs = formChunkDocs(
+  { formId: 'f1', formNumber: 'CP 10 30', formVersionId: 'v1', editionDate: '06/07' },
+  chunks,
+);
+
+const clauseDoc = clauseVersionDoc(
+  { id: 'cl1', canonicalName: 'Earthquake Exclusion' } as OrgClause,
+  { id: 'cv1', versionNumber: 2, text: 'This policy does not cover earthquake or other earth movement.', anchors: [] } as unknown as ClauseVersion,
+);
+
+const coverage = coverageDoc('p1', 'Homeowners', {
+  id: 'cov1', productId: 'p1', name: 'Water Backup', coverageCode: 'WBU',
+  description: 'Covers water backup of sewers and drains up to the selected limit.',
+} as Coverage)!;
+
+const allDocs: SemanticSearchDoc[] = [...formDocs, clauseDoc, coverage];
+
+// ════════════════════════════════════════════════════════════════════════
+// Analysis
+// ════════════════════════════════════════════════════════════════════════
+
+describe('stem / analyze', () => {
+  it('reduces common inflections to one stem', () => {
+    expect(stem('sewers')).toBe(stem('sewer'));
+    expect(stem('drains')).toBe(stem('drain'));
+    expect(stem('backs')).toBe('back');
+    expect(stem('damaged')).toBe(stem('damage'));
+    expect(stem('policies')).toBe('policy');
+    expect(stem('running')).toBe('run');
+    expect(stem('premises')).toBe(stem('premise'));
+  });
+
+  it('drops stop words and joins adjacent stems as compounds', () => {
+    const { terms, compounds } = analyze('water which backs up through sewers');
+    expect(terms).toEqual(['water', 'back', 'up', 'through', 'sewer']);
+    expect(compounds).toContain('backup');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// BM25
+// ════════════════════════════════════════════════════════════════════════
+
+describe('BM25', () => {
+  it('ranks the passage sharing rare terms highest', () => {
+    const index = buildBm25Index(chunks.map(c => c.text));
+    const scores = bm25Scores(index, 'earthquake landslide');
+    expect(Array.from(scores).indexOf(Math.max(...scores))).toBe(2);
+    expect(scores[0]).toBe(0);
+  });
+
+  it('matches compound spellings through adjacent-stem terms', () => {
+    const index = buildBm25Index(chunks.map(c => c.text));
+    const scores = bm25Scores(index, 'backup');
+    expect(scores[1]).toBeGreaterThan(0);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Embeddings
+// ════════════════════════════════════════════════════════════════════════
+
+describe('createHashingEmbeddingProvider', () => {
+  const provider = createHashingEmbeddingProvider(256);
+
+  it('produces deterministic unit vectors', async () => {
+    const [a] = await provider.embed([SEWER]);
+    const [b] = await provider.embed([SEWER]);
+    expect(a).toHaveLength(256);
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(cosine(a, a)).toBeCloseTo(1, 5);
+  });
+
+  it('scores related wording above unrelated wording', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'water damage from sewer backup', SEWER, chunks[2].text,
+    ]);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Hybrid search
+// ════════════════════════════════════════════════════════════════════════
+
+describe('searchSemanticIndex', () => {
+  const provider = createHashingEmbeddingProvider();
+
+  it('finds sewer backup wording that shares no exact phrase with the query', async () => {
+    const index = await buildSemanticIndex(allDocs, provider);
+    const hits = await searchSemanticIndex(index, 'water damage from sewer backup', provider);
+
+    const formHit = hits.find(h => h.doc.kind === 'formChunk')!;
+    expect(formHit.doc.id).toBe('formChunk:v1:c1');
+    expect(hits.slice(0, 2).map(h => h.doc.id)).toContain('formChunk:v1:c1');
+    expect(formHit.embedding).toBeGreaterThan(0);
+    expect(formHit.score).toBeLessThanOrEqual(1);
+  });
+
+  it('links form hits to the nearest anchor and the viewer page', async () => {
+    const index = await buildSemanticIndex(allDocs, provider);
+    const [hit] = await searchSemanticIndex(index, 'sewers drains', provider, { kinds: ['formChunk'] });
+
+    expect(hit.anchor?.slug).toBe('water');
+    expect(hit.route).toBe('/forms/f1/versions/v1/view?page=3&anchor=h-water&q=sewers+drains');
+    const marked = hit.highlights.map(r => hit.snippet.slice(r.start, r.end));
+    expect(marked).toEqual(['sewers', 'drains']);
+  });
+
+  it('filters by kind and keeps non-form routes', async () => {
+    const index = await buildSemanticIndex(allDocs, provider);
+    const hits = await searchSemanticIndex(index, 'earthquake', provider, { kinds: ['clauseVersion'] });
+    expect(hits.map(h => h.doc.kind)).toEqual(['clauseVersion']);
+    expect(hits[0].route).toBe('/clauses?clause=cl1');
+  });
+
+  it('ranks on BM25 alone without a provider', async () => {
+    const index = await buildSemanticIndex(allDocs);
+    const hits = await searchSemanticIndex(index, 'earthquake');
+    expect(hits.every(h => h.embedding === undefined)).toBe(true);
+    expect(hits.map(h => h.doc.id)).toEqual(expect.arrayContaining(['formChunk:v1:c2', 'clauseVersion:cl1:cv1']));
+    expect(hits.find(h => h.doc.id === 'formChunk:v1:c0')).toBeUndefined();
+  });
+
+  it('ignores vectors built by a different provider', async () => {
+    const index = await buildSemanticIndex(allDocs, createHashingEmbeddingProvider(128));
+    const hits = await searchSemanticIndex(index, 'earthquake', provider);
+    expect(hits.every(h => h.embedding === undefined)).toBe(true);
+  });
+
+  it('returns nothing for an empty query', async () => {
+    const index = await buildSemanticIndex(allDocs, provider);
+    expect(await searchSemanticIndex(index, '  ', provider)).toEqual([]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Snippets, highlights and anchors
+// ════════════════════════════════════════════════════════════════════════
+
+describe('highlights and snippets', () => {
+  it('highlights inflections and compound stems of query terms', () => {
+    const ranges = highlightRanges(SEWER, 'sewer backup');
+    expect(ranges.map(r => SEWER.slice(r.start, r.end))).toEqual(['backs', 'sewers']);
+  });
+
+  it('windows long text around the densest matches', () => {
+    const text = `${'Lorem ipsum dolor sit amet. '.repeat(20)}${SEWER}`;
+    const { snippet, highlights, matchOffset } = buildSnippet(text, highlightRanges(text, 'sewers drains'));
+    expect(snippet.startsWith('… ')).toBe(true);
+    expect(highlights.map(r => snippet.slice(r.start, r.end))).toEqual(['sewers', 'drains']);
+    expect(matchOffset).toBe(text.indexOf('sewers'));
+  });
+
+  it('picks the last anchor at or before the match', () => {
+    const anchors = [anchor('a', 1, 0), anchor('b', 1, 50), anchor('c', 2, 120)];
+    expect(nearestAnchor(anchors, 60)?.slug).toBe('b');
+    expect(nearestAnchor(anchors, null)?.slug).toBe('a');
+    expect(nearestAnchor([], 10)).toBeUndefined();
+  });
+});
+
+describe('passage builders', () => {
+  it('skips coverages without descriptive text', () => {
+    expect(coverageDoc('p1', 'Homeowners', { id: 'c', productId: 'p1', name: 'Empty' } as Coverage)).toBeNull();
+    expect(coverage.subtitle).toBe('Homeowners · WBU');
+  });
+
+  it('labels form passages with form number and edition', () => {
+    expect(formDocs[0]).toMatchObject({ title: 'CP 10 30 (06/07)', subtitle: 'SECTION I.Exclusions', page: 1 });
+  });
+});
@@ -15,6 +15,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   resolveApplicableForms,
+  runUWPhase,
   type FormUseRecord,
 } from '../engine/simulationEngine';
 import type {
@@ -211,6 +212,20 @@ describe('resolveApplicableForms', () => {
 // Tests: Simulation types and contracts
 // ════════════════════════════════════════════════════════════════════════
 
+describe('runUWPhase', () => {
+  it('stamps the versions the rules were resolved against', () => {
+    const resolvedVersions = {
+      productId: 'p1', stateCode: 'TX', effectiveDate: '2025-01-01',
+      rateProgramVersionIds: [], tableVersionIds: [], ruleVersionIds: ['rv1'], resolutionHash: 'h1',
+    };
+    const uw = runUWPhase([], {
+      productId: 'p1', productVersionId: 'pv1', stateCode: 'TX',
+      effectiveDate: new Date('2025-01-01'), inputs: {}, resolvedVersions,
+    });
+    expect(uw.resolvedVersions).toEqual(resolvedVersions);
+  });
+});
+
 describe('simulation types and contracts', () => {
   it('SimulationInput supports all required fields', () => {
     const input = makeSimulationInput();
@@ -0,0 +1,220 @@
+/**
+ * Structural Diff & Merge Engine – Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffStructures,
+  mergeThreeWay,
+  resolveMerge,
+  unresolvedMergeConflicts,
+  versionContent,
+  formatStructuralPath,
+  parseStructuralPath,
+  summarizeStructuralDiff,
+  groupChangesBySection,
+} from '../engine/structuralDiff';
+
+// ════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ════════════════════════════════════════════════════════════════════════
+
+const step = (id: string, name: string, extra: Record<string, unknown> = {}) => ({
+  id, name, order: 0, type: 'factor', factorValue: 1, rateProgramVersionId: 'v1', ...extra,
+});
+
+const leaf = (id: string, fieldCode: string, value: unknown) => ({ kind: 'leaf', id, fieldCode, operator: 'eq', value });
+const group = (id: string, operator: string, conditions: unknown[]) => ({ kind: 'group', id, operator, conditions });
+
+const ruleBase = {
+  conditions: group('root', 'AND', [
+    leaf('c1', 'state', 'FL'),
+    group('g1', 'OR', [leaf('c2', 'construction', 'frame'), leaf('c3', 'roof_age', 20)]),
+  ]),
+  outcome: { action: 'refer', message: 'Coastal frame risk', severity: 'warning' },
+};
+
+const dims = [
+  { id: 'd1', name: 'Territory', position: 0, values: ['1', '2'] },
+  { id: 'd2', name: 'Class', position: 1, values: ['A', 'B'] },
+];
+
+// ════════════════════════════════════════════════════════════════════════
+// Diff
+// ════════════════════════════════════════════════════════════════════════
+
+describe('diffStructures()', () => {
+  it('reports plain fields with dotted paths and humanized labels', () => {
+    const diff = diffStructures(null, { limits: { perOccurrence: 5000 }, states: ['CA'] }, { limits: { perOccurrence: 7500 }, states: ['CA', 'NY'] });
+    expect(diff.changes.map(c => [c.kind, c.pathText, c.label])).toEqual([
+      ['modified', 'limits.perOccurrence', 'Limits › Per occurrence'],
+      ['modified', 'states', 'States'],
+    ]);
+    expect(diff.counts.modified).toBe(2);
+  });
+
+  it('matches rating steps by id so an insertion is one change', () => {
+    const before = { steps: [step('s1', 'Base rate'), step('s2', 'Territory factor', { factorValue: 1.1 })] };
+    const after = { steps: [step('s1', 'Base rate'), step('s9', 'Protection class'), step('s2', 'Territory factor', { factorValue: 1.2, rateProgramVersionId: 'v2' })] };
+    const diff = diffStructures('rateProgram', before, after);
+    expect(diff.changes.map(c => [c.kind, c.pathText, c.label])).toEqual([
+      ['added', 'steps[s9]', 'Rating steps › Protection class'],
+      ['modified', 'steps[s2].factorValue', 'Rating steps › Territory factor › Factor value'],
+    ]);
+    expect(diff.changes[0].to).toEqual({ parentKey: null, index: 1 });
+  });
+
+  it('reports reorders of position-ordered keyed arrays once', () => {
+    const diff = diffStructures(null, { items: [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }] }, { items: [{ id: 'b', name: 'B' }, { id: 'a', name: 'A' }] });
+    expect(diff.changes).toHaveLength(1);
+    expect(diff.changes[0]).toMatchObject({ kind: 'reordered', pathText: 'items', before: ['a', 'b'], after: ['b', 'a'] });
+  });
+
+  it('uses schema keys other than id', () => {
+    const before = { steps: [step('s1', 'Lookup', { lookupDimensions: [{ dimensionName: 'Territory', fieldCode: 'territory' }] })] };
+    const after = { steps: [step('s1', 'Lookup', { lookupDimensions: [{ dimensionName: 'Territory', fieldCode: 'zone' }] })] };
+    expect(diffStructures('rateProgram', before, after).changes[0].pathText).toBe('steps[s1].lookupDimensions[Territory].fieldCode');
+  });
+
+  it('moves condition nodes between groups instead of removing and re-adding them', () => {
+    const after = {
+      ...ruleBase,
+      conditions: group('root', 'AND', [
+        group('g1', 'OR', [leaf('c2', 'construction', 'frame'), leaf('c3', 'roof_age', 25), leaf('c1', 'state', 'FL')]),
+      ]),
+    };
+    const diff = diffStructures('rule', ruleBase, after);
+    expect(diff.changes.map(c => [c.kind, c.pathText])).toEqual([
+      ['modified', 'conditions[c3].value'],
+      ['moved', 'conditions[c1]'],
+    ]);
+    expect(diff.changes[0].label).toBe('Conditions › roof_age eq 25 › Value');
+    expect(diff.changes[1]).toMatchObject({ before: 'AND group', after: 'OR group', to: { parentKey: 'g1', index: 2 } });
+  });
+
+  it('reports added and removed groups once, with sibling reorders', () => {
+    const after = {
+      ...ruleBase,
+      conditions: group('root', 'AND', [
+        group('g2', 'AND', [leaf('c4', 'pool', true), leaf('c1', 'state', 'FL')]),
+      ]),
+    };
+    const diff = diffStructures('rule', ruleBase, after);
+    expect(diff.changes.map(c => [c.kind, c.pathText])).toEqual([
+      ['added', 'conditions[g2]'],
+      ['moved', 'conditions[c1]'],
+      ['removed', 'conditions[g1]'],
+    ]);
+    // The added group carries its new child but not the moved one
+    expect((diff.changes[0].after as { conditions: Array<{ id: string }> }).conditions.map(c => c.id)).toEqual(['c4']);
+
+    const reordered = diffStructures('rule', ruleBase, {
+      ...ruleBase,
+      conditions: group('root', 'AND', [ruleBase.conditions.conditions[1], ruleBase.conditions.conditions[0]]),
+    });
+    expect(reordered.changes).toEqual([expect.objectContaining({ kind: 'reordered', pathText: 'conditions[root]', after: ['g1', 'c1'] })]);
+  });
+
+  it('compares table cells across sparse and dense storage', () => {
+    const sparse = { dimensions: dims, cellStorage: { mode: 'sparse', cells: { '1|A': { value: 1 }, '1|B': { value: 2 }, '2|A': { value: 3 } } } };
+    const dense = { dimensions: dims, cellStorage: { mode: 'dense', denseValues: [1, 2.5, 3, 4] } };
+    const diff = diffStructures('table', sparse, dense);
+    expect(diff.changes.map(c => [c.kind, c.target, c.pathText, c.label])).toEqual([
+      ['modified', 'cell', 'cellStorage[1|B]', 'Cells › Territory 1 × Class B'],
+      ['added', 'cell', 'cellStorage[2|B]', 'Cells › Territory 2 × Class B'],
+    ]);
+    expect(diffStructures('table', sparse, { ...sparse, stats: { totalCells: 4 } }).isIdentical).toBe(true);
+  });
+
+  it('compares top-level version documents without their metadata', () => {
+    const left = versionContent({ id: 'v1', versionNumber: 1, status: 'published', editionDate: '01/2024', jurisdiction: ['CA'], extractedText: 'a' });
+    const right = versionContent({ id: 'v2', versionNumber: 2, status: 'draft', editionDate: '06/2025', jurisdiction: ['CA'], extractedText: 'b' });
+    expect(diffStructures('form', left, right).changes.map(c => c.label)).toEqual(['Edition date']);
+    expect(versionContent({ id: 'v1', data: { name: 'HO-3' } })).toEqual({ name: 'HO-3' });
+  });
+});
+
+describe('structural paths', () => {
+  it('round-trips keyed paths, including keys with dots', () => {
+    const path = ['cellStorage', { key: '1.5|A' }];
+    expect(formatStructuralPath(path)).toBe('cellStorage[1.5|A]');
+    expect(parseStructuralPath('cellStorage[1.5|A]')).toEqual(path);
+    expect(parseStructuralPath('steps[s2].factorValue')).toEqual(['steps', { key: 's2' }, 'factorValue']);
+  });
+});
+
+describe('presentation', () => {
+  it('summarizes and groups changes by section', () => {
+    const diff = diffStructures(null, { a: 1, b: { c: 1 } }, { a: 2, b: { c: 2, d: 1 } });
+    expect(summarizeStructuralDiff(diff)).toBe('2 changed, 1 added');
+    expect(groupChangesBySection(diff.changes).map(g => [g.section, g.changes.length])).toEqual([['A', 1], ['B', 2]]);
+    expect(summarizeStructuralDiff(diffStructures(null, {}, {}))).toBe('No changes');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Three-way merge
+// ════════════════════════════════════════════════════════════════════════
+
+describe('mergeThreeWay()', () => {
+  const base = { steps: [step('s1', 'Base rate', { constantValue: 100 }), step('s2', 'Territory factor', { factorValue: 1.1 })] };
+
+  it('merges edits to different elements of a keyed array', () => {
+    const ours = { steps: [step('s1', 'Base rate', { constantValue: 110 }), step('s2', 'Territory factor', { factorValue: 1.1 })] };
+    const theirs = { steps: [step('s1', 'Base rate', { constantValue: 100 }), step('s2', 'Territory factor', { factorValue: 1.3 }), step('s3', 'Fee')] };
+    const merge = mergeThreeWay('rateProgram', base, ours, theirs);
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.applied.map(c => c.pathText)).toEqual(['steps[s1].constantValue']);
+    expect((merge.merged.steps as Array<Record<string, unknown>>).map(s => [s.id, s.constantValue ?? s.factorValue])).toEqual([
+      ['s1', 110], ['s2', 1.3], ['s3', 1],
+    ]);
+  });
+
+  it('conflicts on the same field or on an element the other side removed', () => {
+    const ours = { steps: [step('s1', 'Base rate', { constantValue: 110 }), step('s2', 'Territory factor', { factorValue: 1.2 })] };
+    const theirs = { steps: [step('s1', 'Base rate', { constantValue: 120 })] };
+    const merge = mergeThreeWay('rateProgram', base, ours, theirs);
+    expect(merge.conflicts.map(c => [c.path, c.oursValue, c.theirsValue])).toEqual([
+      ['steps[s1].constantValue', 110, 120],
+      ['steps[s2].factorValue', 1.2, undefined],
+    ]);
+    expect(unresolvedMergeConflicts(merge, { 'steps[s1].constantValue': 'ours' })).toEqual(['steps[s2].factorValue']);
+    expect(() => resolveMerge(merge, { 'steps[s1].constantValue': 'ours', 'steps[s2].factorValue': 'ours' })).toThrow(/parent was removed/);
+    const resolved = resolveMerge(merge, { 'steps[s1].constantValue': 'ours', 'steps[s2].factorValue': 'theirs' });
+    expect(resolved).toEqual({ steps: [step('s1', 'Base rate', { constantValue: 110 })] });
+  });
+
+  it('applies a condition move alongside the other side editing the moved node', () => {
+    const ours = { ...ruleBase, conditions: group('root', 'AND', [group('g1', 'OR', [leaf('c2', 'construction', 'frame'), leaf('c3', 'roof_age', 20), leaf('c1', 'state', 'FL')])]) };
+    const theirs = { ...ruleBase, conditions: group('root', 'AND', [leaf('c1', 'state', 'GA'), ruleBase.conditions.conditions[1]]) };
+    const merge = mergeThreeWay('rule', ruleBase, ours, theirs);
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.merged.conditions).toEqual(
+      group('root', 'AND', [group('g1', 'OR', [leaf('c2', 'construction', 'frame'), leaf('c3', 'roof_age', 20), leaf('c1', 'state', 'GA')])]),
+    );
+  });
+
+  it('conflicts when the group we add to was removed', () => {
+    const ours = { ...ruleBase, conditions: group('root', 'AND', [leaf('c1', 'state', 'FL'), group('g1', 'OR', [leaf('c2', 'construction', 'frame'), leaf('c3', 'roof_age', 20), leaf('c5', 'wind_pool', true)])]) };
+    const theirs = { ...ruleBase, conditions: group('root', 'AND', [leaf('c1', 'state', 'FL')]) };
+    const merge = mergeThreeWay('rule', ruleBase, ours, theirs);
+    expect(merge.conflicts.map(c => c.path)).toEqual(['conditions[c5]']);
+    expect(merge.merged).toEqual(theirs);
+  });
+
+  it('merges table cells and skips changes both sides made', () => {
+    const tableBase = { dimensions: dims, cellStorage: { mode: 'dense', denseValues: [1, 2, 3, 4] } };
+    const ours = { dimensions: dims, cellStorage: { mode: 'dense', denseValues: [1.5, 2, 3, 5] } };
+    const theirs = { dimensions: dims, cellStorage: { mode: 'dense', denseValues: [1, 2.5, 3, 5] } };
+    const merge = mergeThreeWay('table', tableBase, ours, theirs);
+    expect(merge.redundant.map(c => c.pathText)).toEqual(['cellStorage[2|B]']);
+    expect(merge.conflicts).toEqual([]);
+    expect((merge.merged.cellStorage as { denseValues: number[] }).denseValues).toEqual([1.5, 2.5, 3, 5]);
+  });
+
+  it('does not mutate its inputs', () => {
+    const theirs = { steps: [step('s1', 'Base rate', { constantValue: 100 })] };
+    mergeThreeWay('rateProgram', base, { steps: [step('s1', 'Base rate', { constantValue: 90 })] }, theirs);
+    expect(theirs.steps[0].constantValue).toBe(100);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Version Resolver Tests
+ *
+ * Tests effective-date selection of published versions, gap and overlap
+ * detection, table reference rebinding and stamping of resolved versions
+ * onto evaluation results.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeEffectiveRanges,
+  resolveEffectiveVersion,
+  resolveVersionSet,
+  bindTableVersions,
+  stepTableVersionIds,
+  toResolvedVersionStamp,
+} from '../engine/versionResolver';
+import { evaluate } from '../engine/ratingEngine';
+import type { RatingStep } from '../types/ratingEngine';
+import type { EffectiveDatedVersion, VersionedArtifactInput } from '../types/versionResolution';
+
+// ════════════════════════════════════════════════════════════════════════
+// Test helpers
+// ════════════════════════════════════════════════════════════════════════
+
+function v(
+  id: string,
+  versionNumber: number,
+  effectiveStart?: string,
+  effectiveEnd?: string,
+  overrides: Partial<EffectiveDatedVersion> = {},
+): EffectiveDatedVersion {
+  return { id, versionNumber, status: 'published', effectiveStart, effectiveEnd, ...overrides };
+}
+
+function artifact(
+  artifactType: VersionedArtifactInput['artifactType'],
+  artifactId: string,
+  versions: EffectiveDatedVersion[],
+): VersionedArtifactInput {
+  return { artifactType, artifactId, artifactName: artifactId.toUpperCase(), versions };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// resolveEffectiveVersion
+// ════════════════════════════════════════════════════════════════════════
+
+describe('resolveEffectiveVersion', () => {
+  const versions = [
+    v('v1', 1, '2024-01-01', '2024-12-31'),
+    v('v2', 2, '2025-01-01'),
+    v('v3', 3, '2026-01-01', undefined, { status: 'draft' }),
+  ];
+
+  it('selects the version whose range contains the date, inclusive on both ends', () => {
+    expect(resolveEffectiveVersion(versions, new Date('2024-12-31'))?.id).toBe('v1');
+    expect(resolveEffectiveVersion(versions, new Date('2025-01-01'))?.id).toBe('v2');
+  });
+
+  it('ignores unpublished versions', () => {
+    expect(resolveEffectiveVersion(versions, new Date('2026-06-01'))?.id).toBe('v2');
+  });
+
+  it('returns null before the first effective date', () => {
+    expect(resolveEffectiveVersion(versions, new Date('2023-06-01'))).toBeNull();
+  });
+
+  it('prefers the highest version number when versions overlap', () => {
+    const overlapping = [v('a', 1, '2024-01-01'), v('b', 2, '2024-06-01')];
+    expect(resolveEffectiveVersion(overlapping, new Date('2024-07-01'))?.id).toBe('b');
+  });
+
+  it('filters versions restricted to another state', () => {
+    const scoped = [v('all', 1, '2024-01-01'), v('ca', 2, '2024-01-01', undefined, { stateCode: 'CA' })];
+    expect(resolveEffectiveVersion(scoped, new Date('2024-03-01'), 'CA')?.id).toBe('ca');
+    expect(resolveEffectiveVersion(scoped, new Date('2024-03-01'), 'TX')?.id).toBe('all');
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// analyzeEffectiveRanges
+// ════════════════════════════════════════════════════════════════════════
+
+describe('analyzeEffectiveRanges', () => {
+  it('reports no issues for contiguous ranges', () => {
+    const a = artifact('rateProgram', 'rp', [v('v1', 1, '2024-01-01', '2024-12-31'), v('v2', 2, '2025-01-01')]);
+    expect(analyzeEffectiveRanges(a)).toEqual([]);
+  });
+
+  it('reports a gap between two versions', () => {
+    const a = artifact('rateProgram', 'rp', [v('v1', 1, '2024-01-01', '2024-06-30'), v('v2', 2, '2024-08-01')]);
+    const issues = analyzeEffectiveRanges(a);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ type: 'gap', from: '2024-07-01', to: '2024-07-31', versionIds: ['v1', 'v2'] });
+  });
+
+  it('reports an overlap between two versions', () => {
+    const a = artifact('table', 't', [v('v1', 1, '2024-01-01'), v('v2', 2, '2024-06-01', '2024-12-31')]);
+    const issues = analyzeEffectiveRanges(a);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ type: 'overlap', from: '2024-06-01', to: '2024-12-31' });
+  });
+
+  it('only compares versions applicable to the state', () => {
+    const a = artifact('rule', 'r', [
+      v('tx', 1, '2024-01-01', undefined, { stateCode: 'TX' }),
+      v('ca', 2, '2024-01-01', undefined, { stateCode: 'CA' }),
+    ]);
+    expect(analyzeEffectiveRanges(a, 'CA')).toEqual([]);
+    expect(analyzeEffectiveRanges(a)).toHaveLength(1);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// resolveVersionSet
+// ════════════════════════════════════════════════════════════════════════
+
+describe('resolveVersionSet', () => {
+  const artifacts = [
+    artifact('rateProgram', 'rp', [v('rp1', 1, '2024-01-01', '2024-12-31'), v('rp2', 2, '2025-01-01')]),
+    artifact('table', 'base', [v('t1', 1, '2024-01-01', '2024-12-31'), v('t2', 2, '2025-01-01')]),
+    artifact('rule', 'ca-only', [v('r1', 1, '2024-01-01', undefined, { stateCode: 'CA' })]),
+  ];
+
+  it('returns the versions in force on the date', () => {
+    const set = resolveVersionSet({ productId: 'p', stateCode: 'CA', effectiveDate: new Date('2025-03-01'), artifacts });
+    expect(set.effectiveDate).toBe('2025-03-01');
+    expect(set.rateProgramVersions.map(r => r.versionId)).toEqual(['rp2']);
+    expect(set.tableVersions.map(r => r.versionId)).toEqual(['t2']);
+    expect(set.ruleVersions.map(r => r.versionId)).toEqual(['r1']);
+    expect(set.issues).toEqual([]);
+  });
+
+  it('binds every version of a table to the version in force', () => {
+    const set = resolveVersionSet({ productId: 'p', stateCode: 'CA', effectiveDate: new Date('2024-03-01'), artifacts });
+    expect(set.tableVersionBindings).toEqual({ t1: 't1', t2: 't1' });
+  });
+
+  it('does not report rules that never apply to the state', () => {
+    const set = resolveVersionSet({ productId: 'p', stateCode: 'TX', effectiveDate: new Date('2025-03-01'), artifacts });
+    expect(set.ruleVersions).toEqual([]);
+    expect(set.issues).toEqual([]);
+  });
+
+  it('reports artifacts with no version in force on the date', () => {
+    const set = resolveVersionSet({ productId: 'p', stateCode: 'CA', effectiveDate: new Date('2023-03-01'), artifacts });
+    const notInForce = set.issues.filter(i => i.type === 'not_in_force').map(i => i.artifactId);
+    expect(notInForce).toEqual(['rp', 'ca-only', 'base']);
+  });
+
+  it('produces a hash that is independent of artifact load order', () => {
+    const date = new Date('2025-03-01');
+    const a = resolveVersionSet({ productId: 'p', stateCode: 'CA', effectiveDate: date, artifacts });
+    const b = resolveVersionSet({ productId: 'p', stateCode: 'CA', effectiveDate: date, artifacts: [...artifacts].reverse() });
+    const c = resolveVersionSet({ productId: 'p', stateCode: 'CA', effectiveDate: new Date('2024-03-01'), artifacts });
+    expect(a.resolutionHash).toBe(b.resolutionHash);
+    expect(a.resolutionHash).not.toBe(c.resolutionHash);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════
+// Binding and stamping
+// ════════════════════════════════════════════════════════════════════════
+
+describe('bindTableVersions', () => {
+  it('rebinds table references and leaves other steps untouched', () => {
+    const steps = [
+      { id: 's1', tableVersionId: 't1' },
+      { id: 's2', tableVersionId: 'unknown' },
+      { id: 's3' },
+    ] as RatingStep[];
+    const bound = bindTableVersions(steps, { t1: 't2' });
+    expect(bound[0].tableVersionId).toBe('t2');
+    expect(bound[1]).toBe(steps[1]);
+    expect(bound[2]).toBe(steps[2]);
+  });
+
+  it('rebinds lookup() calls in expression steps', () => {
+    const steps = [
+      { id: 's1', type: 'expression', expression: 'base * lookup("t1", territory) + lookup("x9", zone)' },
+      { id: 's2', type: 'expression', expression: 'base * 2' },
+    ] as RatingStep[];
+    expect(stepTableVersionIds(steps[0])).toEqual(['t1', 'x9']);
+
+    const bound = bindTableVersions(steps, { t1: 't2' });
+    expect(bound[0].expression).toBe('base * lookup("t2", territory) + lookup("x9", zone)');
+    expect(bound[1]).toBe(steps[1]);
+  });
+
+  it('leaves invalid formulas for validation to report', () => {
+    const step = { id: 's1', type: 'expression', expression: 'lookup("t1", ' } as RatingStep;
+    expect(stepTableVersionIds(step)).toEqual([]);
+    expect(bindTableVersions([step], { t1: 't2' })[0]).toBe(step);
+  });
+});
+
+describe('resolved version stamp', () => {
+  const steps: RatingStep[] = [{
+    id: 'base',
+    rateProgramVersionId: 'rp2',
+    order: 1,
+    type: 'constant',
+    name: 'Base',
+    outputFieldCode: 'premium',
+    inputs: [],
+    constantValue: 100,
+    enabled: true,
+    roundingMode: 'none',
+    roundingPrecision: 2,
+    allStates: true,
+  }];
+
+  it('is stamped on the evaluation result and folded into the result hash', () => {
+    const set = resolveVersionSet({
+      productId: 'p',
+      stateCode: 'CA',
+      effectiveDate: new Date('2025-03-01'),
+      artifacts: [artifact('rateProgram', 'rp', [v('rp2', 2, '2025-01-01')])],
+    });
+    const stamp = toResolvedVersionStamp(set);
+    expect(stamp.rateProgramVersionIds).toEqual(['rp2']);
+
+    const unstamped = evaluate(steps, { inputs: {} }, 'rp2');
+    const stamped = evaluate(steps, { inputs: {}, resolvedVersions: stamp }, 'rp2');
+    expect(stamped.resolvedVersions).toEqual(stamp);
+    expect(unstamped.resolvedVersions).toBeUndefined();
+    expect(stamped.resultHash).not.toBe(unstamped.resultHash);
+  });
+});
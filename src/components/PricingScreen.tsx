@@ -46,9 +46,10 @@ import { TextInput } from '../components/ui/Input';
 import RatingAlgorithmBuilder from './pricing/RatingAlgorithmBuilder';
 import EnhancedRatingBuilder from './pricing/EnhancedRatingBuilder';
 import { ScenarioRunner } from './pricing/ScenarioRunner';
+import RateProgramReviewSection from './pricing/RateProgramReviewSection';
 import type { StepTemplate } from '../types/pricing';
 import type { RatingStep as EngineRatingStep, RatingTableData } from '../types/ratingEngine';
-import { BeakerIcon } from '@heroicons/react/24/outline';
+import { BeakerIcon, ChartBarIcon } from '@heroicons/react/24/outline';
 
 /* ========== MODERN STYLED COMPONENTS ========== */
 
@@ -1177,6 +1178,7 @@ function PricingScreen() {
 
   // Scenario Runner state
   const [showScenarioRunner, setShowScenarioRunner] = useState(false);
+  const [showRateReview, setShowRateReview] = useState(false);
 
   // Handle URL query parameters for coverage filtering
   useEffect(() => {
@@ -2046,8 +2048,28 @@ function PricingScreen() {
             <BeakerIcon style={{ width: 16, height: 16 }} />
             {showScenarioRunner ? 'Hide Scenario Runner' : 'Scenario Runner'}
           </Button>
+          <Button
+            onClick={() => setShowRateReview(!showRateReview)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              background: showRateReview ? 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)' : undefined,
+              color: showRateReview ? 'white' : undefined,
+            }}
+          >
+            <ChartBarIcon style={{ width: 16, height: 16 }} />
+            {showRateReview ? 'Hide Pricing QA' : 'Pricing QA'}
+          </Button>
         </EnhancedHeader>
 
+        {/* Pricing QA of the rate program draft: regression scenarios and rate impact */}
+        {showRateReview && productId && (
+          <div style={{ marginBottom: '24px' }}>
+            <RateProgramReviewSection productId={productId} />
+          </div>
+        )}
+
         {/* Scenario Runner Panel */}
         {showScenarioRunner && (
           <div style={{ marginBottom: '24px' }}>
@@ -12,6 +12,7 @@ import {
   TrashIcon,
   PlusCircleIcon,
   ArrowPathIcon,
+  ArrowUturnLeftIcon,
   PaperAirplaneIcon,
   DocumentCheckIcon,
   ArrowsPointingOutIcon,
@@ -187,6 +188,7 @@ const ACTION_CONFIG: Record<AuditLogAction, { label: string; color: string; icon
   REMOVE_FROM_CHANGESET: { label: 'removed from change set', color: '#f59e0b', icon: <TrashIcon /> },
   SUBMIT_FOR_REVIEW: { label: 'submitted for review', color: '#8b5cf6', icon: <PaperAirplaneIcon /> },
   RETURN_TO_DRAFT: { label: 'returned to draft', color: '#f59e0b', icon: <ArrowPathIcon /> },
+  REVERT: { label: 'reverted', color: '#dc2626', icon: <ArrowUturnLeftIcon /> },
 };
 
 const formatTimestamp = (timestamp: { toDate?: () => Date } | Date | undefined): string => {
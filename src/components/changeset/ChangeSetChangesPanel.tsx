@@ -0,0 +1,167 @@
+/**
+ * ChangeSetChangesPanel – shown on ChangeSetDetail to review what each
+ * item actually changes.
+ *
+ * Each versioned item expands into its structural diff against the version
+ * its draft was branched from: rating steps, limit options and table
+ * dimensions by identity, condition nodes moved between groups, and table
+ * cells by row and column. Diffs load on demand.
+ */
+
+import React, { useState, useCallback } from 'react';
+import styled, { css } from 'styled-components';
+import { DocumentMagnifyingGlassIcon, ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import logger, { LOG_CATEGORIES } from '../../utils/logger';
+import { changeSetItemEntity, diffChangeSetItem } from '../../services/structuralDiffService';
+import { summarizeStructuralDiff } from '../../engine/structuralDiff';
+import StructuralChangeList from '../versioning/StructuralChangeList';
+import type { ChangeSetItem } from '../../types/changeSet';
+import type { ItemStructuralDiff } from '../../types/structuralDiff';
+import {
+  color, neutral, accent, semantic, space, radius, fontFamily,
+  type as typeScale, shadow, border as borderTokens, transition, focusRingStyle,
+} from '../../ui/tokens';
+
+// ════════════════════════════════════════════════════════════════════════
+// Props
+// ════════════════════════════════════════════════════════════════════════
+
+interface ChangeSetChangesPanelProps {
+  orgId: string;
+  items: ChangeSetItem[];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Styled
+// ════════════════════════════════════════════════════════════════════════
+
+const Panel = styled.div`
+  background: ${color.bg};
+  border: ${borderTokens.default};
+  border-radius: ${radius.xl};
+  box-shadow: ${shadow.card};
+  padding: ${space[5]};
+`;
+
+const Title = styled.h3`
+  margin: 0 0 ${space[3]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.headingSm.size};
+  font-weight: ${typeScale.headingSm.weight};
+  color: ${color.text};
+  display: flex;
+  align-items: center;
+  gap: ${space[2]};
+  svg { width: 18px; height: 18px; color: ${accent[500]}; }
+`;
+
+const ItemHeader = styled.button<{ $open: boolean }>`
+  all: unset;
+  box-sizing: border-box;
+  width: 100%;
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: ${space[3]};
+  padding: ${space[2]} ${space[3]};
+  margin-bottom: ${space[1.5]};
+  border-radius: ${radius.md};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.caption.size};
+  color: ${color.text};
+  cursor: pointer;
+  transition: background ${transition.fast};
+  ${({ $open }) => $open
+    ? css`background:${accent[50]};`
+    : css`background:${neutral[50]};&:hover{background:${neutral[100]};}`
+  }
+  &:focus-visible { ${focusRingStyle} }
+  svg { width: 14px; height: 14px; flex-shrink: 0; }
+`;
+
+const ItemName = styled.span`
+  display: flex; align-items: center; gap: ${space[2]}; min-width: 0;
+`;
+
+const Muted = styled.span`
+  color: ${color.textMuted};
+`;
+
+const DiffBox = styled.div`
+  margin: 0 0 ${space[3]};
+  padding: 0 ${space[3]} ${space[2]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.caption.size};
+`;
+
+// ════════════════════════════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════════════════════════════
+
+export default function ChangeSetChangesPanel({ orgId, items }: ChangeSetChangesPanelProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<Record<string, ItemStructuralDiff>>({});
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const versioned = items.filter(item => changeSetItemEntity(item));
+
+  const toggle = useCallback(async (item: ChangeSetItem) => {
+    if (openId === item.id) {
+      setOpenId(null);
+      return;
+    }
+    setOpenId(item.id);
+    if (diffs[item.id]) return;
+    setLoadingId(item.id);
+    try {
+      const result = await diffChangeSetItem(orgId, item);
+      setDiffs(prev => ({ ...prev, [item.id]: result }));
+    } catch (err) {
+      logger.warn(LOG_CATEGORIES.DATA, 'Item diff failed', { itemId: item.id, error: String(err) });
+      setErrors(prev => ({ ...prev, [item.id]: (err as Error).message }));
+    } finally {
+      setLoadingId(null);
+    }
+  }, [orgId, openId, diffs]);
+
+  if (versioned.length === 0) return null;
+
+  return (
+    <Panel>
+      <Title><DocumentMagnifyingGlassIcon /> Changes</Title>
+
+      {versioned.map(item => {
+        const open = openId === item.id;
+        const result = diffs[item.id];
+        return (
+          <React.Fragment key={item.id}>
+            <ItemHeader $open={open} onClick={() => toggle(item)} aria-expanded={open}>
+              <ItemName>
+                {open ? <ChevronDownIcon /> : <ChevronRightIcon />}
+                <strong>{item.artifactName || item.artifactId}</strong>
+                <Muted>{item.artifactType}</Muted>
+              </ItemName>
+              {result && <Muted>{summarizeStructuralDiff(result.diff)}</Muted>}
+            </ItemHeader>
+
+            {open && (
+              <DiffBox>
+                {loadingId === item.id && <Muted>Loading changes…</Muted>}
+                {errors[item.id] && <Muted style={{ color: semantic.errorDark }}>{errors[item.id]}</Muted>}
+                {result && (
+                  <StructuralChangeList
+                    diff={result.diff}
+                    leftLabel={result.baseVersionNumber ? `v${result.baseVersionNumber}` : 'Before'}
+                    rightLabel={result.versionNumber ? `v${result.versionNumber}` : 'After'}
+                    emptyText="This draft has no changes yet"
+                  />
+                )}
+              </DiffBox>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </Panel>
+  );
+}
@@ -0,0 +1,300 @@
+/**
+ * ChangeSetConflictsPanel – shown on ChangeSetDetail when this change set
+ * collides with others.
+ *
+ * Shows:
+ *  - Items another open change set also holds (warning)
+ *  - Drafts branched from a superseded published version (blocks publish)
+ *  - A rebase flow per stale item: clean re-applied changes plus field
+ *    conflicts to resolve as "keep mine" or "take published"
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import styled, { css } from 'styled-components';
+import {
+  ArrowsRightLeftIcon,
+  ExclamationTriangleIcon,
+  XCircleIcon,
+  ArrowPathIcon,
+} from '@heroicons/react/24/outline';
+import logger, { LOG_CATEGORIES } from '../../utils/logger';
+import { getPublishPreflight } from '../../services/changeSetService';
+import {
+  planChangeSetItemRebase,
+  applyChangeSetItemRebase,
+  type ItemRebasePreview,
+} from '../../services/changeSetRebaseService';
+import { unresolvedRebaseConflicts } from '../../engine/changeSetRebase';
+import type { ChangeSet, ChangeSetItem } from '../../types/changeSet';
+import { CHANGESET_STATUS_CONFIG } from '../../types/changeSet';
+import type { ChangeSetConflictReport, RebaseResolution } from '../../types/changeSetConflict';
+import {
+  color, neutral, accent, semantic, space, radius, fontFamily,
+  type as typeScale, shadow, border as borderTokens, transition, focusRingStyle,
+} from '../../ui/tokens';
+
+// ════════════════════════════════════════════════════════════════════════
+// Props
+// ════════════════════════════════════════════════════════════════════════
+
+interface ChangeSetConflictsPanelProps {
+  orgId: string;
+  changeSet: ChangeSet;
+  items: ChangeSetItem[];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Styled
+// ════════════════════════════════════════════════════════════════════════
+
+const Panel = styled.div<{ $blocking: boolean }>`
+  background: ${color.bg};
+  border: ${borderTokens.default};
+  border-left: 4px solid ${({ $blocking }) => ($blocking ? semantic.error : semantic.warning)};
+  border-radius: ${radius.xl};
+  box-shadow: ${shadow.card};
+  padding: ${space[5]};
+`;
+
+const Title = styled.h3`
+  margin: 0 0 ${space[3]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.headingSm.size};
+  font-weight: ${typeScale.headingSm.weight};
+  color: ${color.text};
+  display: flex;
+  align-items: center;
+  gap: ${space[2]};
+  svg { width: 18px; height: 18px; color: ${accent[500]}; }
+`;
+
+const Row = styled.div<{ $type: 'error' | 'warning' }>`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: ${space[3]};
+  padding: ${space[2]} ${space[3]};
+  margin-bottom: ${space[1.5]};
+  border-radius: ${radius.md};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.caption.size};
+  ${({ $type }) => $type === 'error'
+    ? css`background:${semantic.errorLight};color:${semantic.errorDark};`
+    : css`background:${semantic.warningLight};color:${semantic.warningDark};`
+  }
+  a { color: inherit; font-weight: 600; }
+  svg { width: 14px; height: 14px; flex-shrink: 0; }
+`;
+
+const RowText = styled.div`
+  display: flex; align-items: center; gap: ${space[2]}; min-width: 0;
+`;
+
+const Btn = styled.button<{ $variant?: 'primary' | 'ghost' }>`
+  all: unset;
+  display: inline-flex;
+  align-items: center;
+  gap: ${space[1.5]};
+  padding: ${space[1.5]} ${space[3]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.caption.size};
+  font-weight: 500;
+  border-radius: ${radius.md};
+  cursor: pointer;
+  white-space: nowrap;
+  transition: all ${transition.fast};
+  ${({ $variant = 'ghost' }) => $variant === 'primary'
+    ? css`background:${accent[500]};color:white;&:hover{background:${accent[600]};}`
+    : css`background:${neutral[100]};color:${neutral[700]};border:1px solid ${neutral[200]};&:hover{background:${accent[50]};color:${accent[700]};}`
+  }
+  &:focus-visible { ${focusRingStyle} }
+  &:disabled { opacity: 0.45; cursor: not-allowed; }
+  svg { width: 14px; height: 14px; }
+`;
+
+const RebaseBox = styled.div`
+  margin: ${space[2]} 0 ${space[3]};
+  padding: ${space[3]};
+  border: ${borderTokens.default};
+  border-radius: ${radius.md};
+  background: ${neutral[50]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.caption.size};
+  color: ${color.text};
+`;
+
+const ConflictTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  margin: ${space[2]} 0;
+  th, td { text-align: left; padding: ${space[1.5]} ${space[2]}; border-bottom: 1px solid ${neutral[200]}; vertical-align: top; }
+  th { font-weight: 600; color: ${color.textMuted}; }
+  code { font-family: ${fontFamily.mono}; font-size: ${typeScale.captionSm.size}; word-break: break-all; }
+`;
+
+const Muted = styled.div`
+  color: ${color.textMuted};
+  margin-top: ${space[1]};
+`;
+
+// ════════════════════════════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════════════════════════════
+
+const fmtValue = (value: unknown): string => {
+  if (value === undefined) return '(removed)';
+  const text = JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}…` : text;
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════════════════════════════
+
+export default function ChangeSetConflictsPanel({ orgId, changeSet, items }: ChangeSetConflictsPanelProps) {
+  const [report, setReport] = useState<ChangeSetConflictReport | null>(null);
+  const [preview, setPreview] = useState<ItemRebasePreview | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, RebaseResolution>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const result = await getPublishPreflight(orgId, changeSet.id);
+      setReport(result.conflicts ?? { overlaps: [], staleItems: [] });
+    } catch (err) {
+      logger.warn(LOG_CATEGORIES.DATA, 'Conflict check failed', { changeSetId: changeSet.id, error: String(err) });
+    }
+  }, [orgId, changeSet.id]);
+
+  useEffect(() => { refresh(); }, [refresh, items.length, changeSet.status]);
+
+  const startRebase = useCallback(async (itemId: string) => {
+    const item = items.find(i => i.id === itemId);
+    if (!item) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setPreview(await planChangeSetItemRebase(orgId, item));
+      setResolutions({});
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }, [orgId, items]);
+
+  const applyRebase = useCallback(async () => {
+    if (!preview) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await applyChangeSetItemRebase(orgId, changeSet, preview, resolutions);
+      setPreview(null);
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }, [orgId, changeSet, preview, resolutions, refresh]);
+
+  if (!report || (report.overlaps.length === 0 && report.staleItems.length === 0)) return null;
+
+  const isDraft = changeSet.status === 'draft';
+  const unresolved = preview ? unresolvedRebaseConflicts(preview.plan, resolutions) : [];
+
+  return (
+    <Panel $blocking={report.staleItems.length > 0}>
+      <Title><ArrowsRightLeftIcon /> Conflicts with other change sets</Title>
+
+      {report.staleItems.map(stale => (
+        <React.Fragment key={stale.itemId}>
+          <Row $type="error">
+            <RowText>
+              <XCircleIcon />
+              <span>
+                <strong>{stale.artifactName || stale.artifactId}</strong> was branched from{' '}
+                {stale.baseVersionNumber ? `v${stale.baseVersionNumber}` : 'an unpublished state'}, but
+                v{stale.latestPublishedVersionNumber} has since been published. Publishing would overwrite it.
+              </span>
+            </RowText>
+            <Btn
+              onClick={() => startRebase(stale.itemId)}
+              disabled={busy || !isDraft}
+              title={isDraft ? undefined : 'Return the change set to draft to rebase'}
+            >
+              <ArrowPathIcon /> Rebase
+            </Btn>
+          </Row>
+
+          {preview?.item.id === stale.itemId && (
+            <RebaseBox>
+              <div>
+                Rebasing onto v{preview.stale.latestPublishedVersionNumber}:{' '}
+                {preview.plan.appliedPaths.length} change(s) re-applied,{' '}
+                {preview.plan.redundantPaths.length} already published,{' '}
+                {preview.plan.conflicts.length} conflict(s).
+              </div>
+              {preview.plan.conflicts.length > 0 && (
+                <ConflictTable>
+                  <thead>
+                    <tr><th>Field</th><th>Base</th><th>Mine</th><th>Published</th><th>Keep</th></tr>
+                  </thead>
+                  <tbody>
+                    {preview.plan.conflicts.map(c => (
+                      <tr key={c.path}>
+                        <td title={c.path}>{c.label}</td>
+                        <td><code>{fmtValue(c.baseValue)}</code></td>
+                        <td><code>{fmtValue(c.oursValue)}</code></td>
+                        <td><code>{fmtValue(c.theirsValue)}</code></td>
+                        <td>
+                          {(['ours', 'theirs'] as RebaseResolution[]).map(choice => (
+                            <label key={choice} style={{ display: 'block', whiteSpace: 'nowrap' }}>
+                              <input
+                                type="radio"
+                                name={`resolve-${c.path}`}
+                                checked={resolutions[c.path] === choice}
+                                onChange={() => setResolutions(prev => ({ ...prev, [c.path]: choice }))}
+                              />{' '}
+                              {choice === 'ours' ? 'Mine' : 'Published'}
+                            </label>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </ConflictTable>
+              )}
+              <div style={{ display: 'flex', gap: space[2], marginTop: space[2] }}>
+                <Btn $variant="primary" onClick={applyRebase} disabled={busy || unresolved.length > 0}>
+                  Apply rebase
+                </Btn>
+                <Btn onClick={() => setPreview(null)} disabled={busy}>Cancel</Btn>
+              </div>
+              {unresolved.length > 0 && <Muted>Resolve {unresolved.length} conflict(s) to continue.</Muted>}
+            </RebaseBox>
+          )}
+        </React.Fragment>
+      ))}
+
+      {report.overlaps.map(overlap => (
+        <Row $type="warning" key={`${overlap.itemId}-${overlap.otherChangeSetId}`}>
+          <RowText>
+            <ExclamationTriangleIcon />
+            <span>
+              <strong>{overlap.artifactName || overlap.artifactId}</strong>{' '}
+              {overlap.sameVersion ? 'shares its draft with' : 'is also being changed in'}{' '}
+              <Link to={`/changesets/${overlap.otherChangeSetId}`}>{overlap.otherChangeSetName}</Link>{' '}
+              ({CHANGESET_STATUS_CONFIG[overlap.otherChangeSetStatus]?.label || overlap.otherChangeSetStatus}).
+              {!overlap.sameVersion && ' Whichever publishes second will need a rebase.'}
+            </span>
+          </RowText>
+        </Row>
+      ))}
+
+      {error && <Muted style={{ color: semantic.errorDark }}>{error}</Muted>}
+    </Panel>
+  );
+}
@@ -0,0 +1,351 @@
+/**
+ * ScheduledPublishPanel – go-live scheduling on ChangeSetDetail.
+ *
+ * Shows:
+ *  - The active schedule: local go-live in its time zone, hold reason or
+ *    last error, and postpone / cancel for admins and product managers
+ *    (a stalled 'publishing' run can only be cancelled by an admin)
+ *  - A schedule form for approved change sets with no active schedule,
+ *    defaulting to the target effective date at 00:00 in the products'
+ *    time zone
+ *  - The schedule's history
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import styled, { css } from 'styled-components';
+import { CalendarDaysIcon, PauseCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import {
+  schedulePublish,
+  postponeScheduledPublish,
+  cancelScheduledPublish,
+  subscribeToChangeSetSchedules,
+  defaultScheduleTimeZone,
+} from '../../services/scheduledPublishService';
+import {
+  ACTIVE_SCHEDULE_STATUSES,
+  DEFAULT_EFFECTIVE_TIME,
+  canCancelSchedule,
+  canReschedule,
+  isClaimStale,
+  formatInTimeZone,
+  validateScheduleWindow,
+} from '../../engine/scheduledPublish';
+import { useRoleContext } from '../../context/RoleContext';
+import type { ChangeSet, ChangeSetItem } from '../../types/changeSet';
+import type { ScheduledPublish, ScheduleWindow } from '../../types/scheduledPublish';
+import { SCHEDULED_PUBLISH_STATUS_CONFIG } from '../../types/scheduledPublish';
+import {
+  color, neutral, accent, semantic, space, radius, fontFamily,
+  type as typeScale, shadow, border as borderTokens, transition, focusRingStyle,
+} from '../../ui/tokens';
+
+// ════════════════════════════════════════════════════════════════════════
+// Props
+// ════════════════════════════════════════════════════════════════════════
+
+interface ScheduledPublishPanelProps {
+  orgId: string;
+  changeSet: ChangeSet;
+  items: ChangeSetItem[];
+  /** Admin or product manager */
+  canManage: boolean;
+  /** Called when the scheduler publishes the change set */
+  onPublished?: () => void;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Styled
+// ════════════════════════════════════════════════════════════════════════
+
+const Panel = styled.div`
+  background: ${color.bg};
+  border: ${borderTokens.default};
+  border-radius: ${radius.xl};
+  box-shadow: ${shadow.card};
+  padding: ${space[5]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.caption.size};
+  color: ${color.text};
+`;
+
+const Title = styled.h3`
+  margin: 0 0 ${space[3]};
+  font-size: ${typeScale.headingSm.size};
+  font-weight: ${typeScale.headingSm.weight};
+  display: flex;
+  align-items: center;
+  gap: ${space[2]};
+  svg { width: 18px; height: 18px; color: ${accent[500]}; }
+`;
+
+const StatusPill = styled.span<{ $color: string }>`
+  display: inline-block;
+  margin-left: ${space[2]};
+  padding: 1px ${space[2]};
+  border-radius: ${radius.full};
+  font-size: ${typeScale.captionSm.size};
+  font-weight: 600;
+  color: white;
+  background: ${({ $color }) => $color};
+`;
+
+const Notice = styled.div<{ $type: 'error' | 'warning' }>`
+  display: flex;
+  align-items: flex-start;
+  gap: ${space[2]};
+  margin: ${space[2]} 0;
+  padding: ${space[2]} ${space[3]};
+  border-radius: ${radius.md};
+  ${({ $type }) => $type === 'error'
+    ? css`background:${semantic.errorLight};color:${semantic.errorDark};`
+    : css`background:${semantic.warningLight};color:${semantic.warningDark};`
+  }
+  svg { width: 14px; height: 14px; flex-shrink: 0; margin-top: 2px; }
+`;
+
+const Form = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: flex-end;
+  gap: ${space[2]};
+  margin-top: ${space[2]};
+  label { display: flex; flex-direction: column; gap: ${space[1]}; color: ${color.textMuted}; font-weight: 500; }
+  input {
+    font-family: ${fontFamily.sans};
+    font-size: ${typeScale.caption.size};
+    padding: ${space[1.5]} ${space[2]};
+    border: 1px solid ${neutral[300]};
+    border-radius: ${radius.md};
+    color: ${color.text};
+    &:focus-visible { ${focusRingStyle} }
+  }
+`;
+
+const Btn = styled.button<{ $variant?: 'primary' | 'ghost' }>`
+  all: unset;
+  display: inline-flex;
+  align-items: center;
+  gap: ${space[1.5]};
+  padding: ${space[1.5]} ${space[3]};
+  font-size: ${typeScale.caption.size};
+  font-weight: 500;
+  border-radius: ${radius.md};
+  cursor: pointer;
+  white-space: nowrap;
+  transition: all ${transition.fast};
+  ${({ $variant = 'ghost' }) => $variant === 'primary'
+    ? css`background:${accent[500]};color:white;&:hover{background:${accent[600]};}`
+    : css`background:${neutral[100]};color:${neutral[700]};border:1px solid ${neutral[200]};&:hover{background:${accent[50]};color:${accent[700]};}`
+  }
+  &:focus-visible { ${focusRingStyle} }
+  &:disabled { opacity: 0.45; cursor: not-allowed; }
+`;
+
+const History = styled.ul`
+  margin: ${space[3]} 0 0;
+  padding: 0;
+  list-style: none;
+  color: ${color.textMuted};
+  li { padding: ${space[1]} 0; border-top: 1px solid ${neutral[100]}; }
+`;
+
+const Muted = styled.div`
+  color: ${color.textMuted};
+  margin-top: ${space[1]};
+`;
+
+// ════════════════════════════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════════════════════════════
+
+const TIME_ZONES: string[] = (() => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  try { return intl.supportedValuesOf?.('timeZone') ?? []; } catch { return []; }
+})();
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
+/** Target effective date when it is still ahead, else blank */
+function defaultDate(changeSet: ChangeSet): string {
+  const target = changeSet.targetEffectiveStart?.slice(0, 10) ?? '';
+  return target > todayIso() ? target : '';
+}
+
+const browserZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// ════════════════════════════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════════════════════════════
+
+export default function ScheduledPublishPanel({ orgId, changeSet, items, canManage, onPublished }: ScheduledPublishPanelProps) {
+  const { isOrgAdmin } = useRoleContext();
+  const [schedules, setSchedules] = useState<ScheduledPublish[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [goLive, setGoLive] = useState<ScheduleWindow>({
+    effectiveDate: defaultDate(changeSet),
+    effectiveTime: DEFAULT_EFFECTIVE_TIME,
+    timeZone: '',
+  });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(
+    () => subscribeToChangeSetSchedules(orgId, changeSet.id, setSchedules),
+    [orgId, changeSet.id],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    defaultScheduleTimeZone(orgId, items).then(timeZone => {
+      if (!cancelled) setGoLive(prev => (prev.timeZone ? prev : { ...prev, timeZone }));
+    });
+    return () => { cancelled = true; };
+  }, [orgId, items]);
+
+  const active = schedules.find(s => ACTIVE_SCHEDULE_STATUSES.includes(s.status)) ?? null;
+  const stalled = !!active && isClaimStale(active);
+  const latest = active ?? schedules[0] ?? null;
+
+  useEffect(() => {
+    if (latest?.status === 'published' && changeSet.status !== 'published') onPublished?.();
+  }, [latest?.status, changeSet.status, onPublished]);
+
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setEditing(false);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const handleSubmit = () => run(() => (active
+    ? postponeScheduledPublish(orgId, active.id, goLive)
+    : schedulePublish(orgId, changeSet.id, goLive)));
+
+  const handleCancel = () => {
+    if (!active || !window.confirm('Cancel the scheduled publish? The change set stays approved.')) return;
+    run(() => cancelScheduledPublish(orgId, active.id));
+  };
+
+  const startPostpone = () => {
+    if (!active) return;
+    setGoLive({ effectiveDate: active.effectiveDate, effectiveTime: active.effectiveTime, timeZone: active.timeZone });
+    setEditing(true);
+  };
+
+  const isApproved = changeSet.status === 'approved' || changeSet.status === 'filed';
+  if (!latest && !isApproved) return null;
+
+  const windowErrors = validateScheduleWindow(goLive);
+  const showForm = canManage && (editing || (!active && isApproved));
+  const runAt = active?.runAt?.toDate?.();
+
+  return (
+    <Panel>
+      <Title>
+        <CalendarDaysIcon /> Scheduled publish
+        {latest && (
+          <StatusPill $color={SCHEDULED_PUBLISH_STATUS_CONFIG[latest.status].color}>
+            {SCHEDULED_PUBLISH_STATUS_CONFIG[latest.status].label}
+          </StatusPill>
+        )}
+      </Title>
+
+      {active && runAt && (
+        <div>
+          Goes live <strong>{formatInTimeZone(runAt, active.timeZone)}</strong> ({active.timeZone})
+          {active.timeZone !== browserZone() && <Muted>Your time: {formatInTimeZone(runAt, browserZone())}</Muted>}
+        </div>
+      )}
+
+      {active?.status === 'held' && active.holdReason && (
+        <Notice $type="warning">
+          <PauseCircleIcon />
+          <span>On hold: {active.holdReason}. Resolve it, then postpone to a new go-live to resume.</span>
+        </Notice>
+      )}
+      {stalled && (
+        <Notice $type="warning">
+          <PauseCircleIcon />
+          <span>The publish run stopped before finishing. The scheduler retries it{isOrgAdmin ? ', or you can cancel it' : ''}.</span>
+        </Notice>
+      )}
+      {latest?.lastError && latest.status !== 'published' && (
+        <Notice $type="error">
+          <XCircleIcon />
+          <span>Attempt {latest.attempts} failed: {latest.lastError}</span>
+        </Notice>
+      )}
+
+      {active && canManage && !editing && (
+        <div style={{ display: 'flex', gap: space[2], marginTop: space[2] }}>
+          {canReschedule(active.status) && <Btn onClick={startPostpone} disabled={busy}>Postpone</Btn>}
+          {canCancelSchedule(active.status, stalled && isOrgAdmin) && <Btn onClick={handleCancel} disabled={busy}>Cancel schedule</Btn>}
+        </div>
+      )}
+
+      {!active && !showForm && isApproved && (
+        <Muted>Approved change sets can be scheduled by an admin or product manager.</Muted>
+      )}
+
+      {showForm && (
+        <>
+          <Form>
+            <label>
+              Go-live date
+              <input
+                type="date"
+                min={todayIso()}
+                value={goLive.effectiveDate}
+                onChange={e => setGoLive(prev => ({ ...prev, effectiveDate: e.target.value }))}
+              />
+            </label>
+            <label>
+              Time
+              <input
+                type="time"
+                value={goLive.effectiveTime}
+                onChange={e => setGoLive(prev => ({ ...prev, effectiveTime: e.target.value }))}
+              />
+            </label>
+            <label>
+              Time zone
+              <input
+                list="scheduled-publish-time-zones"
+                value={goLive.timeZone}
+                onChange={e => setGoLive(prev => ({ ...prev, timeZone: e.target.value }))}
+              />
+            </label>
+            <Btn $variant="primary" onClick={handleSubmit} disabled={busy || windowErrors.length > 0}>
+              {active ? 'Move go-live' : 'Schedule publish'}
+            </Btn>
+            {editing && <Btn onClick={() => setEditing(false)} disabled={busy}>Back</Btn>}
+          </Form>
+          <datalist id="scheduled-publish-time-zones">
+            {TIME_ZONES.map(tz => <option key={tz} value={tz} />)}
+          </datalist>
+          {goLive.effectiveDate && windowErrors.length > 0 && <Muted>{windowErrors.join('; ')}</Muted>}
+          <Muted>Preflight runs again at go-live; if anything blocks publishing the schedule is put on hold.</Muted>
+        </>
+      )}
+
+      {error && <Muted style={{ color: semantic.errorDark }}>{error}</Muted>}
+
+      {latest && latest.history?.length > 0 && (
+        <History>
+          {[...latest.history].reverse().slice(0, 5).map((event, i) => (
+            <li key={i}>
+              {event.at?.toDate?.().toLocaleString()} · {event.action}
+              {event.note ? ` — ${event.note}` : ''}
+            </li>
+          ))}
+        </History>
+      )}
+    </Panel>
+  );
+}
@@ -1,3 +1,6 @@
 export { default as AuditTimeline } from './AuditTimeline';
 export { default as QAGatePanel } from './QAGatePanel';
 
+export { default as ChangeSetConflictsPanel } from './ChangeSetConflictsPanel';
+export { default as ChangeSetChangesPanel } from './ChangeSetChangesPanel';
+export { default as ScheduledPublishPanel } from './ScheduledPublishPanel';
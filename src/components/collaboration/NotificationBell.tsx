@@ -30,6 +30,8 @@ import {
   MegaphoneIcon,
   UserIcon,
   AtSymbolIcon,
+  CalendarDaysIcon,
+  PauseCircleIcon,
 } from '@heroicons/react/24/outline';
 import {
   color, neutral, accent, semantic,
@@ -238,6 +240,10 @@ function notifMeta(type: NotificationType): { icon: React.ReactNode; bg: string
     case 'rejected':           return { icon: <XCircleIcon />,              bg: semantic.error };
     case 'published':          return { icon: <ShieldCheckIcon />,          bg: accent[600] };
     case 'status_change':      return { icon: <ArrowPathIcon />,            bg: neutral[500] };
+    case 'publish_scheduled':  return { icon: <CalendarDaysIcon />,         bg: accent[500] };
+    case 'publish_held':       return { icon: <PauseCircleIcon />,          bg: semantic.warning };
+    case 'publish_cancelled':  return { icon: <CalendarDaysIcon />,         bg: neutral[500] };
+    case 'publish_failed':     return { icon: <XCircleIcon />,              bg: semantic.error };
     default:                   return { icon: <BellIcon />,                 bg: neutral[400] };
   }
 }
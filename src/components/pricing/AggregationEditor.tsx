@@ -0,0 +1,330 @@
+/**
+ * AggregationEditor – edit the aggregation stage of a rate program draft
+ *
+ * The aggregation stage rolls unit-level outputs (per location, building or
+ * coverage) up to policy-level fields for multi-unit rating. Each rule names
+ * the unit field to roll up, the method and the policy field it produces,
+ * with an optional minimum premium. Policy-level steps are kept as they are.
+ */
+
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { PlusIcon, TrashIcon, RectangleStackIcon } from '@heroicons/react/24/outline';
+import { useRoleContext } from '../../context/RoleContext';
+import { updateVersion } from '../../services/rateProgramService';
+import type { AggregationMethod, AggregationRule, PolicyAggregation } from '../../types/ratingEngine';
+import {
+  color, neutral, accent, semantic, space, radius, fontFamily,
+  type as typeScale, shadow, border as borderTokens, transition, focusRingStyle,
+} from '../../ui/tokens';
+
+// ════════════════════════════════════════════════════════════════════════
+// Props
+// ════════════════════════════════════════════════════════════════════════
+
+interface AggregationEditorProps {
+  rateProgramId: string;
+  /** Draft version whose aggregation stage is edited */
+  versionId: string;
+  aggregation?: PolicyAggregation;
+  readOnly?: boolean;
+  onSaved?: (aggregation: PolicyAggregation) => void;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Styled Components
+// ════════════════════════════════════════════════════════════════════════
+
+const Card = styled.div`
+  background: ${color.bg};
+  border: ${borderTokens.default};
+  border-radius: ${radius.xl};
+  box-shadow: ${shadow.card};
+  padding: ${space[6]};
+  margin-bottom: ${space[4]};
+`;
+
+const CardHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: ${space[3]};
+  margin-bottom: ${space[4]};
+`;
+
+const CardTitle = styled.h3`
+  margin: 0;
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.headingSm.size};
+  font-weight: ${typeScale.headingSm.weight};
+  color: ${color.text};
+  display: flex;
+  align-items: center;
+  gap: ${space[2]};
+  svg { width: 18px; height: 18px; color: ${accent[500]}; }
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.captionSm.size};
+  margin-bottom: ${space[3]};
+  th { text-align: left; color: ${neutral[500]}; font-weight: 600; padding: ${space[1]} ${space[2]}; border-bottom: 1px solid ${neutral[200]}; }
+  td { padding: ${space[1]} ${space[2]}; border-bottom: 1px solid ${neutral[100]}; }
+`;
+
+const Input = styled.input`
+  padding: ${space[1.5]} ${space[2]};
+  border: 1px solid ${neutral[200]};
+  border-radius: ${radius.md};
+  font-size: ${typeScale.caption.size};
+  width: 100%;
+  box-sizing: border-box;
+  &:focus-visible { ${focusRingStyle} }
+  &:disabled { background: ${neutral[50]}; }
+`;
+
+const Select = styled.select`
+  padding: ${space[1.5]} ${space[2]};
+  border: 1px solid ${neutral[200]};
+  border-radius: ${radius.md};
+  font-size: ${typeScale.caption.size};
+  background: white;
+  &:focus-visible { ${focusRingStyle} }
+`;
+
+const Btn = styled.button<{ $primary?: boolean }>`
+  all: unset;
+  display: inline-flex;
+  align-items: center;
+  gap: ${space[1.5]};
+  padding: ${space[2]} ${space[3]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.caption.size};
+  font-weight: 500;
+  border-radius: ${radius.md};
+  cursor: pointer;
+  transition: all ${transition.fast};
+  background: ${({ $primary }) => $primary ? accent[500] : neutral[100]};
+  color: ${({ $primary }) => $primary ? 'white' : neutral[700]};
+  border: 1px solid ${({ $primary }) => $primary ? accent[500] : neutral[200]};
+  &:hover { background: ${({ $primary }) => $primary ? accent[600] : accent[50]}; }
+  &:focus-visible { ${focusRingStyle} }
+  &:disabled { opacity: 0.5; cursor: not-allowed; }
+  svg { width: 14px; height: 14px; }
+`;
+
+const Actions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${space[2]};
+`;
+
+const Note = styled.div<{ $error?: boolean }>`
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.captionSm.size};
+  color: ${({ $error }) => $error ? semantic.error : color.textMuted};
+  margin-bottom: ${space[3]};
+`;
+
+// ════════════════════════════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════════════════════════════
+
+const METHOD_LABELS: Record<AggregationMethod, string> = {
+  sum: 'Sum',
+  max: 'Maximum',
+  min: 'Minimum',
+};
+
+interface RuleDraft {
+  id: string;
+  name: string;
+  method: AggregationMethod;
+  sourceFieldCode: string;
+  outputFieldCode: string;
+  minimumPremium: string;
+}
+
+function toDraft(rule: AggregationRule): RuleDraft {
+  return {
+    id: rule.id,
+    name: rule.name,
+    method: rule.method,
+    sourceFieldCode: rule.sourceFieldCode,
+    outputFieldCode: rule.outputFieldCode,
+    minimumPremium: rule.minimumPremium === undefined ? '' : String(rule.minimumPremium),
+  };
+}
+
+/** Rules from the drafts, or the problems that keep them from saving */
+function toRules(drafts: RuleDraft[]): { rules: AggregationRule[]; problems: string[] } {
+  const problems: string[] = [];
+  const outputs = new Set<string>();
+  const rules = drafts.map((d, i) => {
+    const label = d.name.trim() || `Rule ${i + 1}`;
+    if (!d.name.trim()) problems.push(`${label}: name is required`);
+    if (!d.sourceFieldCode.trim()) problems.push(`${label}: unit field is required`);
+    if (!d.outputFieldCode.trim()) problems.push(`${label}: policy field is required`);
+    if (outputs.has(d.outputFieldCode.trim())) problems.push(`${label}: ${d.outputFieldCode} is produced by another rule`);
+    outputs.add(d.outputFieldCode.trim());
+    const minimum = d.minimumPremium.trim() === '' ? undefined : Number(d.minimumPremium);
+    if (minimum !== undefined && !(minimum >= 0)) problems.push(`${label}: minimum premium must be a non-negative number`);
+    // Firestore rejects undefined, so an unset minimum is left out
+    return {
+      id: d.id,
+      name: d.name.trim(),
+      method: d.method,
+      sourceFieldCode: d.sourceFieldCode.trim(),
+      outputFieldCode: d.outputFieldCode.trim(),
+      ...(minimum !== undefined && { minimumPremium: minimum }),
+    };
+  });
+  return { rules, problems };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════════════════════════════
+
+export default function AggregationEditor({
+  rateProgramId, versionId, aggregation, readOnly, onSaved,
+}: AggregationEditorProps) {
+  const { currentOrgId: orgId } = useRoleContext();
+  const [drafts, setDrafts] = useState<RuleDraft[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDrafts((aggregation?.rules ?? []).map(toDraft));
+    setDirty(false);
+    setError(null);
+  }, [aggregation, versionId]);
+
+  const change = (id: string, patch: Partial<RuleDraft>) => {
+    setDrafts(prev => prev.map(d => d.id === id ? { ...d, ...patch } : d));
+    setDirty(true);
+  };
+
+  const addRule = () => {
+    setDrafts(prev => [...prev, {
+      id: `agg_${Date.now().toString(36)}`,
+      name: '',
+      method: 'sum',
+      sourceFieldCode: '',
+      outputFieldCode: '',
+      minimumPremium: '',
+    }]);
+    setDirty(true);
+  };
+
+  const removeRule = (id: string) => {
+    setDrafts(prev => prev.filter(d => d.id !== id));
+    setDirty(true);
+  };
+
+  const save = async () => {
+    if (!orgId) return;
+    const { rules, problems } = toRules(drafts);
+    if (problems.length > 0) {
+      setError(problems.join('; '));
+      return;
+    }
+    const next: PolicyAggregation = {
+      rules,
+      ...(aggregation?.policySteps && { policySteps: aggregation.policySteps }),
+    };
+    setSaving(true);
+    setError(null);
+    try {
+      await updateVersion(orgId, rateProgramId, versionId, { aggregation: next });
+      setDirty(false);
+      onSaved?.(next);
+    } catch (err) {
+      console.error('Saving aggregation failed:', err);
+      setError('Could not save the aggregation stage');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const policyStepCount = aggregation?.policySteps?.length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle><RectangleStackIcon /> Aggregation</CardTitle>
+        {!readOnly && (
+          <Actions>
+            <Btn onClick={addRule} disabled={saving}><PlusIcon /> Add rule</Btn>
+            <Btn $primary onClick={save} disabled={saving || !dirty}>
+              {saving ? 'Saving…' : 'Save'}
+            </Btn>
+          </Actions>
+        )}
+      </CardHeader>
+
+      <Note>
+        Multi-unit policies are rated per unit, then each rule rolls a unit field up to a policy field.
+        {policyStepCount > 0 && ` ${policyStepCount} policy-level step${policyStepCount === 1 ? '' : 's'} then run on the rolled-up fields.`}
+      </Note>
+      {error && <Note $error role="alert">{error}</Note>}
+
+      {drafts.length === 0 ? (
+        <Note>No aggregation rules: scenarios with exposure units cannot be rated against this version.</Note>
+      ) : (
+        <Table>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Method</th>
+              <th>Unit field</th>
+              <th>Policy field</th>
+              <th>Minimum premium</th>
+              {!readOnly && <th />}
+            </tr>
+          </thead>
+          <tbody>
+            {drafts.map(d => (
+              <tr key={d.id}>
+                <td>
+                  <Input value={d.name} disabled={readOnly} aria-label="Rule name"
+                    onChange={e => change(d.id, { name: e.target.value })} />
+                </td>
+                <td>
+                  <Select value={d.method} disabled={readOnly} aria-label="Method"
+                    onChange={e => change(d.id, { method: e.target.value as AggregationMethod })}>
+                    {(Object.keys(METHOD_LABELS) as AggregationMethod[]).map(m => (
+                      <option key={m} value={m}>{METHOD_LABELS[m]}</option>
+                    ))}
+                  </Select>
+                </td>
+                <td>
+                  <Input value={d.sourceFieldCode} disabled={readOnly} aria-label="Unit field" placeholder="unit_premium"
+                    onChange={e => change(d.id, { sourceFieldCode: e.target.value })} />
+                </td>
+                <td>
+                  <Input value={d.outputFieldCode} disabled={readOnly} aria-label="Policy field" placeholder="final_premium"
+                    onChange={e => change(d.id, { outputFieldCode: e.target.value })} />
+                </td>
+                <td>
+                  <Input type="number" min={0} value={d.minimumPremium} disabled={readOnly} aria-label="Minimum premium"
+                    onChange={e => change(d.id, { minimumPremium: e.target.value })} />
+                </td>
+                {!readOnly && (
+                  <td>
+                    <Btn onClick={() => removeRule(d.id)} disabled={saving} aria-label={`Remove ${d.name || 'rule'}`}>
+                      <TrashIcon />
+                    </Btn>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      )}
+    </Card>
+  );
+}
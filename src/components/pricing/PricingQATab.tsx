@@ -4,8 +4,10 @@
  * Displays:
  *  1. Scenario list (create, edit, delete, tag filter)
  *  2. "Run All" button to execute regression against draft version
+ *     and "Generate" to propose boundary scenarios from the published version
  *  3. QA run history with diff view
  *  4. Per-scenario diff: expected vs actual vs baseline
+ *  5. Rate impact over an uploaded policy sample (RateImpactPanel)
  */
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
@@ -24,18 +26,24 @@ import {
   ArrowPathIcon,
   TagIcon,
   FunnelIcon,
+  SparklesIcon,
 } from '@heroicons/react/24/outline';
 import { useRoleContext } from '../../context/RoleContext';
 import {
   listScenarios, createScenario, deleteScenario,
   listQARuns, createQARun, updateQARun,
 } from '../../services/scenarioService';
+import { getVersion } from '../../services/rateProgramService';
+import { loadPublishedRulesForEvaluation } from '../../services/rulesEngineService';
 import { runRegression } from '../../engine/regressionRunner';
+import RateImpactPanel from './RateImpactPanel';
+import { generateScenarios, toScenarioDraft } from '../../engine/scenarioGenerator';
+import type { RuleWithVersion } from '../../engine/rulesEngine';
 import type {
   Scenario, ScenarioTag, QARun, QARunScenarioResult, ScenarioFieldDiff,
 } from '../../types/scenario';
 import { SCENARIO_TAG_LABELS, QA_RUN_STATUS_CONFIG } from '../../types/scenario';
-import type { RatingStep, RatingTableData } from '../../types/ratingEngine';
+import type { RatingStep, RatingTableData, PolicyAggregation } from '../../types/ratingEngine';
 import {
   color, neutral, accent, semantic, space, radius, fontFamily,
   type as typeScale, shadow, border as borderTokens, transition,
@@ -49,11 +57,19 @@ import {
 interface PricingQATabProps {
   rateProgramId: string;
   rateProgramName: string;
+  /** Product the rate program prices; limits loaded rules to that product's */
+  productId?: string;
   draftSteps: RatingStep[];
   draftVersionId: string;
   baselineSteps?: RatingStep[];
   baselineVersionId?: string;
   tables?: Map<string, RatingTableData>;
+  /** Aggregation for multi-unit scenarios; loaded from the draft version when omitted */
+  aggregation?: PolicyAggregation;
+  /** Baseline version's own aggregation; loaded from the baseline version when omitted */
+  baselineAggregation?: PolicyAggregation;
+  /** Published underwriting rules whose cut-points seed generated scenarios; loaded when omitted */
+  rules?: RuleWithVersion[];
   changeSetId?: string;
   changeSetName?: string;
 }
@@ -283,10 +299,10 @@ const EmptyState = styled.div`
 // ════════════════════════════════════════════════════════════════════════
 
 export default function PricingQATab({
-  rateProgramId, rateProgramName,
+  rateProgramId, rateProgramName, productId,
   draftSteps, draftVersionId,
   baselineSteps, baselineVersionId,
-  tables, changeSetId, changeSetName,
+  tables, aggregation, baselineAggregation, rules, changeSetId, changeSetName,
 }: PricingQATabProps) {
   const { currentOrgId: orgId } = useRoleContext();
 
@@ -297,6 +313,7 @@ export default function PricingQATab({
 
   // Run state
   const [running, setRunning] = useState(false);
+  const [generating, setGenerating] = useState(false);
   const [latestRun, setLatestRun] = useState<QARun | null>(null);
   const [expandedScenarios, setExpandedScenarios] = useState<Set<string>>(new Set());
 
@@ -319,6 +336,46 @@ export default function PricingQATab({
     })();
   }, [orgId, rateProgramId, changeSetId]);
 
+  // Aggregation stage of the draft version, for scenarios with exposure units
+  const [draftAggregation, setDraftAggregation] = useState<PolicyAggregation | undefined>(aggregation);
+  useEffect(() => {
+    if (aggregation) {
+      setDraftAggregation(aggregation);
+      return;
+    }
+    if (!orgId || !draftVersionId) return;
+    getVersion(orgId, rateProgramId, draftVersionId)
+      .then(version => setDraftAggregation(version?.aggregation))
+      .catch(err => console.error('Loading aggregation failed:', err));
+  }, [orgId, rateProgramId, draftVersionId, aggregation]);
+
+  // The baseline is rated with its own aggregation, never the draft's
+  const [baselineStage, setBaselineStage] = useState<PolicyAggregation | undefined>(baselineAggregation);
+  useEffect(() => {
+    if (baselineAggregation) {
+      setBaselineStage(baselineAggregation);
+      return;
+    }
+    setBaselineStage(undefined);
+    if (!orgId || !baselineVersionId) return;
+    getVersion(orgId, rateProgramId, baselineVersionId)
+      .then(version => setBaselineStage(version?.aggregation))
+      .catch(err => console.error('Loading baseline aggregation failed:', err));
+  }, [orgId, rateProgramId, baselineVersionId, baselineAggregation]);
+
+  // Published underwriting rules, for rule cut-point scenarios
+  const [publishedRules, setPublishedRules] = useState<RuleWithVersion[] | undefined>(rules);
+  useEffect(() => {
+    if (rules) {
+      setPublishedRules(rules);
+      return;
+    }
+    if (!orgId) return;
+    loadPublishedRulesForEvaluation(orgId, productId ? { productId } : undefined)
+      .then(setPublishedRules)
+      .catch(err => console.error('Loading published rules failed:', err));
+  }, [orgId, productId, rules]);
+
   // Filter scenarios by tag
   const filteredScenarios = useMemo(() => {
     if (selectedTags.size === 0) return scenarios;
@@ -338,6 +395,8 @@ export default function PricingQATab({
         baselineSteps,
         baselineVersionId,
         tables,
+        aggregation: draftAggregation,
+        baselineAggregation: baselineStage,
       });
 
       const run = await createQARun(orgId, {
@@ -363,7 +422,37 @@ export default function PricingQATab({
     } finally {
       setRunning(false);
     }
-  }, [orgId, running, filteredScenarios, draftSteps, draftVersionId, baselineSteps, baselineVersionId, tables, changeSetId, changeSetName, rateProgramId, rateProgramName]);
+  }, [orgId, running, filteredScenarios, draftSteps, draftVersionId, baselineSteps, baselineVersionId, tables, draftAggregation, baselineStage, changeSetId, changeSetName, rateProgramId, rateProgramName]);
+
+  // Generate boundary / pairwise scenarios seeded from the published version
+  const handleGenerate = useCallback(async () => {
+    if (!orgId || generating || !baselineSteps || !baselineVersionId) return;
+    setGenerating(true);
+
+    try {
+      const generated = generateScenarios({
+        publishedSteps: baselineSteps,
+        publishedVersionId: baselineVersionId,
+        tables,
+        rules: publishedRules,
+        effectiveDate: new Date(),
+      });
+
+      // Re-generating skips scenarios already in the library, including
+      // those an earlier, partly failed generation created
+      const existingNames = new Set((await listScenarios(orgId, { rateProgramId })).map(s => s.name));
+      for (const scenario of generated.scenarios) {
+        if (existingNames.has(scenario.name)) continue;
+        const created = await createScenario(orgId, toScenarioDraft(scenario, rateProgramId, rateProgramName));
+        existingNames.add(created.name);
+        setScenarios(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+    } catch (err) {
+      console.error('Scenario generation failed:', err);
+    } finally {
+      setGenerating(false);
+    }
+  }, [orgId, generating, baselineSteps, baselineVersionId, tables, publishedRules, rateProgramId, rateProgramName]);
 
   // Get result for a scenario from the latest run
   const getResult = (scenarioId: string): QARunScenarioResult | undefined => {
@@ -435,6 +524,10 @@ export default function PricingQATab({
         <CardHeader>
           <CardTitle><BeakerIcon /> Scenario Library ({filteredScenarios.length})</CardTitle>
           <ActionRow>
+            <Btn $variant="ghost" onClick={handleGenerate} disabled={generating || !baselineSteps || !baselineVersionId}>
+              {generating ? <Spinner /> : <SparklesIcon />}
+              {generating ? 'Generating…' : 'Generate'}
+            </Btn>
             <Btn $variant="primary" onClick={handleRunAll} disabled={running || filteredScenarios.length === 0}>
               {running ? <Spinner /> : <PlayIcon />}
               {running ? 'Running…' : 'Run All'}
@@ -551,6 +644,18 @@ export default function PricingQATab({
           ))}
         </Card>
       )}
+
+      {/* Rate impact over a policy sample */}
+      <RateImpactPanel
+        rateProgramId={rateProgramId}
+        rateProgramName={rateProgramName}
+        draftSteps={draftSteps}
+        draftVersionId={draftVersionId}
+        baselineSteps={baselineSteps}
+        baselineVersionId={baselineVersionId}
+        tables={tables}
+        changeSetId={changeSetId}
+      />
     </Container>
   );
 }
@@ -0,0 +1,484 @@
+/**
+ * RateImpactPanel – rate-change impact over a sample book of policies
+ *
+ * Displays:
+ *  1. Policy sample upload (CSV / XLSX) with caps and effective date
+ *  2. Overall change, per-policy change histogram and segment movements
+ *  3. Capping analysis with the off-balance factor
+ *  4. Saved exhibits, attachable to the change set's filing package
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import {
+  ArrowUpTrayIcon,
+  ChartBarIcon,
+  DocumentCheckIcon,
+  PaperClipIcon,
+  PlayIcon,
+} from '@heroicons/react/24/outline';
+import { useRoleContext } from '../../context/RoleContext';
+import { orgDataDictionaryService } from '../../services/orgDataDictionaryService';
+import {
+  readPolicySampleFile,
+  saveRateImpactExhibit,
+  listRateImpactExhibits,
+  attachRateImpactExhibit,
+} from '../../services/rateImpactService';
+import {
+  detectColumnMapping,
+  parsePolicySample,
+  runRateImpact,
+  buildRateImpactExhibit,
+  type RateImpactOutput,
+} from '../../engine/rateImpact';
+import type { RateImpactExhibit, RateImpactPolicy } from '../../types/rateImpact';
+import { RATE_IMPACT_SEGMENT_LABELS } from '../../types/rateImpact';
+import type { RatingStep, RatingTableData } from '../../types/ratingEngine';
+import {
+  color, neutral, accent, semantic, space, radius, fontFamily,
+  type as typeScale, shadow, border as borderTokens, transition, focusRingStyle,
+} from '../../ui/tokens';
+
+// ════════════════════════════════════════════════════════════════════════
+// Props
+// ════════════════════════════════════════════════════════════════════════
+
+interface RateImpactPanelProps {
+  rateProgramId: string;
+  rateProgramName: string;
+  draftSteps: RatingStep[];
+  draftVersionId: string;
+  baselineSteps?: RatingStep[];
+  baselineVersionId?: string;
+  tables?: Map<string, RatingTableData>;
+  /** Saved exhibits are attached to this change set's filing package */
+  changeSetId?: string;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Styled Components
+// ════════════════════════════════════════════════════════════════════════
+
+const Card = styled.div`
+  background: ${color.bg};
+  border: ${borderTokens.default};
+  border-radius: ${radius.xl};
+  box-shadow: ${shadow.card};
+  padding: ${space[6]};
+`;
+
+const CardHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: ${space[3]};
+  margin-bottom: ${space[4]};
+`;
+
+const CardTitle = styled.h3`
+  margin: 0;
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.headingSm.size};
+  font-weight: ${typeScale.headingSm.weight};
+  color: ${color.text};
+  display: flex;
+  align-items: center;
+  gap: ${space[2]};
+  svg { width: 18px; height: 18px; color: ${accent[500]}; }
+`;
+
+const Controls = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: flex-end;
+  gap: ${space[3]};
+  margin-bottom: ${space[4]};
+`;
+
+const Field = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: ${space[1]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.captionSm.size};
+  font-weight: 500;
+  color: ${color.textMuted};
+`;
+
+const Input = styled.input`
+  padding: ${space[1.5]} ${space[2]};
+  border: 1px solid ${neutral[200]};
+  border-radius: ${radius.md};
+  font-size: ${typeScale.caption.size};
+  width: 120px;
+  &:focus-visible { ${focusRingStyle} }
+`;
+
+const Select = styled.select`
+  padding: ${space[1.5]} ${space[2]};
+  border: 1px solid ${neutral[200]};
+  border-radius: ${radius.md};
+  font-size: ${typeScale.caption.size};
+  background: white;
+  &:focus-visible { ${focusRingStyle} }
+`;
+
+const Btn = styled.button<{ $primary?: boolean }>`
+  all: unset;
+  display: inline-flex;
+  align-items: center;
+  gap: ${space[1.5]};
+  padding: ${space[2]} ${space[3]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.caption.size};
+  font-weight: 500;
+  border-radius: ${radius.md};
+  cursor: pointer;
+  transition: all ${transition.fast};
+  background: ${({ $primary }) => $primary ? accent[500] : neutral[100]};
+  color: ${({ $primary }) => $primary ? 'white' : neutral[700]};
+  border: 1px solid ${({ $primary }) => $primary ? accent[500] : neutral[200]};
+  &:hover { background: ${({ $primary }) => $primary ? accent[600] : accent[50]}; }
+  &:focus-visible { ${focusRingStyle} }
+  &:disabled { opacity: 0.5; cursor: not-allowed; }
+  svg { width: 14px; height: 14px; }
+`;
+
+const Note = styled.div<{ $error?: boolean }>`
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.captionSm.size};
+  color: ${({ $error }) => $error ? semantic.error : color.textMuted};
+  margin-bottom: ${space[3]};
+`;
+
+const StatGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(130px, 1fr));
+  gap: ${space[3]};
+  margin-bottom: ${space[5]};
+`;
+
+const Stat = styled.div`
+  padding: ${space[3]};
+  background: ${neutral[50]};
+  border: 1px solid ${neutral[200]};
+  border-radius: ${radius.lg};
+  text-align: center;
+`;
+
+const StatVal = styled.div<{ $tone?: 'up' | 'down' }>`
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.headingSm.size};
+  font-weight: 700;
+  color: ${({ $tone }) => $tone === 'up' ? semantic.error : $tone === 'down' ? semantic.success : color.text};
+`;
+
+const StatLbl = styled.div`
+  font-size: ${typeScale.captionSm.size};
+  color: ${color.textMuted};
+  margin-top: ${space[1]};
+`;
+
+const SectionLabel = styled.div`
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.captionSm.size};
+  font-weight: 600;
+  color: ${neutral[500]};
+  text-transform: uppercase;
+  letter-spacing: 0.04em;
+  margin: ${space[4]} 0 ${space[2]};
+`;
+
+const BarRow = styled.div`
+  display: grid;
+  grid-template-columns: 110px 1fr 70px;
+  align-items: center;
+  gap: ${space[2]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.captionSm.size};
+  color: ${color.text};
+  margin-bottom: ${space[1]};
+`;
+
+const Bar = styled.div<{ $pct: number }>`
+  height: 10px;
+  width: ${({ $pct }) => Math.max($pct, 0.5)}%;
+  background: ${accent[400]};
+  border-radius: ${radius.sm};
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.captionSm.size};
+  th { text-align: left; color: ${neutral[500]}; font-weight: 600; padding: ${space[1]} ${space[2]}; border-bottom: 1px solid ${neutral[200]}; }
+  td { padding: ${space[1]} ${space[2]}; border-bottom: 1px solid ${neutral[100]}; font-family: ${fontFamily.mono}; }
+`;
+
+const ExhibitRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${space[3]};
+  padding: ${space[2]} ${space[3]};
+  border: 1px solid ${neutral[200]};
+  border-radius: ${radius.lg};
+  margin-bottom: ${space[2]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.caption.size};
+  span { flex: 1; }
+`;
+
+// ════════════════════════════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════════════════════════════
+
+const fmtPct = (v: number) => `${v > 0 ? '+' : ''}${v.toFixed(2)}%`;
+const fmtMoney = (v: number) => v.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+const tone = (v: number) => v > 0 ? 'up' as const : v < 0 ? 'down' as const : undefined;
+const optionalNumber = (v: string) => v.trim() === '' ? undefined : Number(v);
+
+// ════════════════════════════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════════════════════════════
+
+export default function RateImpactPanel({
+  rateProgramId, rateProgramName,
+  draftSteps, draftVersionId,
+  baselineSteps, baselineVersionId,
+  tables, changeSetId,
+}: RateImpactPanelProps) {
+  const { currentOrgId: orgId, isOrgAdmin } = useRoleContext();
+
+  // Sample
+  const [fileName, setFileName] = useState<string>();
+  const [rows, setRows] = useState<Record<string, unknown>[]>([]);
+  const [policyIdColumn, setPolicyIdColumn] = useState('');
+  const [policies, setPolicies] = useState<RateImpactPolicy[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  // Data dictionary text fields; sample columns named after them hold codes
+  const [textFieldCodes, setTextFieldCodes] = useState<Set<string>>(new Set());
+
+  // Options
+  const [effectiveDate, setEffectiveDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [maxIncrease, setMaxIncrease] = useState('');
+  const [maxDecrease, setMaxDecrease] = useState('');
+
+  // Results
+  const [output, setOutput] = useState<RateImpactOutput | null>(null);
+  const [exhibits, setExhibits] = useState<RateImpactExhibit[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!orgId) return;
+    orgDataDictionaryService.getFields(orgId).then(fields => {
+      setTextFieldCodes(new Set(fields.filter(f => f.type === 'string' || f.type === 'enum').map(f => f.code)));
+    }).catch(err => {
+      console.error('Failed to load data dictionary fields:', err);
+    });
+  }, [orgId]);
+
+  useEffect(() => {
+    if (!orgId) return;
+    listRateImpactExhibits(orgId, { rateProgramId }).then(setExhibits).catch(err => {
+      console.error('Failed to load rate impact exhibits:', err);
+    });
+  }, [orgId, rateProgramId]);
+
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+
+  // Re-parse whenever the policy ID column or the known code fields change
+  useEffect(() => {
+    if (rows.length === 0 || !policyIdColumn) return;
+    const columns = Object.keys(rows[0]);
+    const detected = detectColumnMapping(columns);
+    const parsed = parsePolicySample(rows, {
+      ...detected,
+      policyId: policyIdColumn,
+      codeColumns: columns.filter(c => textFieldCodes.has(c.trim())),
+    });
+    setPolicies(parsed.policies);
+    setParseErrors(parsed.errors.map(e => `Row ${e.row}: ${e.message}`));
+    setOutput(null);
+  }, [rows, policyIdColumn, textFieldCodes]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const sheetRows = await readPolicySampleFile(file);
+      setFileName(file.name);
+      setRows(sheetRows);
+      setPolicyIdColumn(detectColumnMapping(Object.keys(sheetRows[0] ?? {}))?.policyId ?? '');
+    } catch (err) {
+      console.error('Failed to read policy sample:', err);
+      setParseErrors([`Could not read ${file.name}`]);
+    }
+  };
+
+  const handleRun = useCallback(() => {
+    if (!baselineSteps || !baselineVersionId) return;
+    setOutput(runRateImpact({
+      policies,
+      currentSteps: baselineSteps,
+      currentVersionId: baselineVersionId,
+      proposedSteps: draftSteps,
+      proposedVersionId: draftVersionId,
+      tables,
+      effectiveDate: new Date(effectiveDate),
+      caps: { maxIncreasePct: optionalNumber(maxIncrease), maxDecreasePct: optionalNumber(maxDecrease) },
+    }));
+  }, [policies, baselineSteps, baselineVersionId, draftSteps, draftVersionId, tables, effectiveDate, maxIncrease, maxDecrease]);
+
+  const handleSave = async () => {
+    if (!orgId || !output || !baselineVersionId) return;
+    setSaving(true);
+    try {
+      const exhibit = await saveRateImpactExhibit(orgId, buildRateImpactExhibit(output, {
+        title: `Rate Impact – ${rateProgramName}`,
+        rateProgramId,
+        rateProgramName,
+        currentVersionId: baselineVersionId,
+        proposedVersionId: draftVersionId,
+        effectiveDate: new Date(effectiveDate),
+        sampleFileName: fileName,
+        changeSetId,
+      }));
+      setExhibits(prev => [exhibit, ...prev]);
+    } catch (err) {
+      console.error('Failed to save rate impact exhibit:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleAttach = async (exhibit: RateImpactExhibit) => {
+    if (!orgId || !changeSetId) return;
+    const next = exhibit.changeSetId === changeSetId ? null : changeSetId;
+    await attachRateImpactExhibit(orgId, exhibit.id, next);
+    setExhibits(prev => prev.map(x => x.id === exhibit.id ? { ...x, changeSetId: next } : x));
+  };
+
+  const maxBucket = output ? Math.max(1, ...output.histogram.map(b => b.count)) : 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle><ChartBarIcon /> Rate Impact</CardTitle>
+        <Controls style={{ margin: 0 }}>
+          <Btn as="label">
+            <ArrowUpTrayIcon /> {fileName ?? 'Upload sample'}
+            <input type="file" accept=".csv,.xlsx,.xls" onChange={handleFile} hidden />
+          </Btn>
+          <Btn $primary onClick={handleRun} disabled={policies.length === 0 || !baselineSteps || !baselineVersionId}>
+            <PlayIcon /> Run
+          </Btn>
+        </Controls>
+      </CardHeader>
+
+      <Controls>
+        <Field>
+          Policy ID column
+          <Select value={policyIdColumn} onChange={e => setPolicyIdColumn(e.target.value)} disabled={headers.length === 0}>
+            <option value="">Select…</option>
+            {headers.map(h => <option key={h} value={h}>{h}</option>)}
+          </Select>
+        </Field>
+        <Field>
+          Effective date
+          <Input type="date" value={effectiveDate} onChange={e => setEffectiveDate(e.target.value)} />
+        </Field>
+        <Field>
+          Max increase %
+          <Input type="number" min={0} value={maxIncrease} onChange={e => setMaxIncrease(e.target.value)} placeholder="No cap" />
+        </Field>
+        <Field>
+          Max decrease %
+          <Input type="number" min={0} value={maxDecrease} onChange={e => setMaxDecrease(e.target.value)} placeholder="No cap" />
+        </Field>
+      </Controls>
+
+      {rows.length > 0 && <Note>{policies.length} of {rows.length} rows loaded as policies</Note>}
+      {parseErrors.slice(0, 5).map(msg => <Note key={msg} $error>{msg}</Note>)}
+      {!baselineVersionId && <Note>No published version to compare against.</Note>}
+
+      {output && (
+        <>
+          <StatGrid>
+            <Stat><StatVal $tone={tone(output.summary.changePct)}>{fmtPct(output.summary.changePct)}</StatVal><StatLbl>Overall change</StatLbl></Stat>
+            <Stat><StatVal>{fmtMoney(output.summary.currentPremium)}</StatVal><StatLbl>Current premium</StatLbl></Stat>
+            <Stat><StatVal>{fmtMoney(output.summary.proposedPremium)}</StatVal><StatLbl>Proposed premium</StatLbl></Stat>
+            <Stat><StatVal>{fmtPct(output.summary.medianChangePct)}</StatVal><StatLbl>Median policy change</StatLbl></Stat>
+            <Stat><StatVal>{output.summary.ratedCount}</StatVal><StatLbl>Rated ({output.summary.failedCount} failed)</StatLbl></Stat>
+          </StatGrid>
+
+          <SectionLabel>Distribution of policy changes</SectionLabel>
+          {output.histogram.map(b => (
+            <BarRow key={b.label}>
+              <span>{b.label}</span>
+              <Bar $pct={(b.count / maxBucket) * 100} />
+              <span>{b.count} ({b.pctOfPolicies}%)</span>
+            </BarRow>
+          ))}
+
+          {output.segments.length > 0 && (
+            <>
+              <SectionLabel>Segments</SectionLabel>
+              <Table>
+                <thead>
+                  <tr><th>Segment</th><th>Value</th><th>Policies</th><th>Current</th><th>Proposed</th><th>Change</th></tr>
+                </thead>
+                <tbody>
+                  {output.segments.map(s => (
+                    <tr key={`${s.dimension}:${s.key}`}>
+                      <td>{RATE_IMPACT_SEGMENT_LABELS[s.dimension]}</td>
+                      <td>{s.key}</td>
+                      <td>{s.policyCount}</td>
+                      <td>{fmtMoney(s.currentPremium)}</td>
+                      <td>{fmtMoney(s.proposedPremium)}</td>
+                      <td>{fmtPct(s.changePct)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            </>
+          )}
+
+          <SectionLabel>Capping & off-balance</SectionLabel>
+          <StatGrid>
+            <Stat><StatVal>{output.capping.cappedIncreaseCount}</StatVal><StatLbl>Increases capped</StatLbl></Stat>
+            <Stat><StatVal>{output.capping.cappedDecreaseCount}</StatVal><StatLbl>Decreases capped</StatLbl></Stat>
+            <Stat><StatVal>{fmtPct(output.capping.cappedChangePct)}</StatVal><StatLbl>Capped change</StatLbl></Stat>
+            <Stat><StatVal>{output.capping.offBalanceFactor.toFixed(4)}</StatVal><StatLbl>Off-balance factor</StatLbl></Stat>
+          </StatGrid>
+
+          <Btn onClick={handleSave} disabled={saving || !orgId}>
+            <DocumentCheckIcon /> {saving ? 'Saving…' : changeSetId ? 'Save & attach to filing' : 'Save exhibit'}
+          </Btn>
+        </>
+      )}
+
+      {exhibits.length > 0 && (
+        <>
+          <SectionLabel>Saved exhibits</SectionLabel>
+          {exhibits.map(x => (
+            <ExhibitRow key={x.id}>
+              <span>{x.title} • {x.effectiveDate} • {fmtPct(x.summary.changePct)}</span>
+              {changeSetId && (
+                <Btn
+                  onClick={() => toggleAttach(x)}
+                  disabled={!!x.changeSetId && !isOrgAdmin}
+                  title={x.changeSetId && !isOrgAdmin ? 'Only an admin can detach or move an attached exhibit' : undefined}
+                >
+                  <PaperClipIcon /> {x.changeSetId === changeSetId ? 'Detach' : 'Attach to filing'}
+                </Btn>
+              )}
+            </ExhibitRow>
+          ))}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * RateProgramReviewSection – review a product's rate program draft on the
+ * pricing screen
+ *
+ * Loads the product's active rate programs; for the selected one, the
+ * latest draft and published versions with their steps and the tables those
+ * steps look up, and hands them to the pricing QA tab: scenario regression,
+ * generated scenarios and rate impact. The draft's aggregation stage is
+ * edited here too. Runs and saved exhibits attach to the active change set.
+ */
+
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { useRoleContext } from '../../context/RoleContext';
+import { useChangeSet } from '../../context/ChangeSetContext';
+import { useRole } from '../../hooks/useRole';
+import { getRatePrograms, getVersions, getSteps } from '../../services/rateProgramService';
+import { loadRatingTables } from '../../services/tableService';
+import { stepTableVersionIds } from '../../engine/versionResolver';
+import PricingQATab from './PricingQATab';
+import AggregationEditor from './AggregationEditor';
+import type { PolicyAggregation, RateProgram, RatingStep, RatingTableData } from '../../types/ratingEngine';
+import {
+  color, neutral, space, radius, fontFamily, type as typeScale, focusRingStyle,
+} from '../../ui/tokens';
+
+interface RateProgramReviewSectionProps {
+  productId: string;
+}
+
+interface LoadedProgram {
+  draftVersionId: string;
+  draftSteps: RatingStep[];
+  draftAggregation?: PolicyAggregation;
+  baselineVersionId?: string;
+  baselineSteps?: RatingStep[];
+  baselineAggregation?: PolicyAggregation;
+  tables: Map<string, RatingTableData>;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Styled Components
+// ════════════════════════════════════════════════════════════════════════
+
+const Bar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${space[3]};
+  margin-bottom: ${space[3]};
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.caption.size};
+  color: ${color.textMuted};
+`;
+
+const Select = styled.select`
+  padding: ${space[1.5]} ${space[2]};
+  border: 1px solid ${neutral[200]};
+  border-radius: ${radius.md};
+  font-size: ${typeScale.caption.size};
+  background: white;
+  &:focus-visible { ${focusRingStyle} }
+`;
+
+const Notice = styled.p`
+  margin: 0;
+  font-family: ${fontFamily.sans};
+  font-size: ${typeScale.caption.size};
+  color: ${color.textMuted};
+`;
+
+// ════════════════════════════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════════════════════════════
+
+export default function RateProgramReviewSection({ productId }: RateProgramReviewSectionProps) {
+  const { currentOrgId: orgId } = useRoleContext();
+  const { activeChangeSet } = useChangeSet();
+  const { canWriteProducts } = useRole();
+
+  const [programs, setPrograms] = useState<RateProgram[]>([]);
+  const [programId, setProgramId] = useState('');
+  const [loaded, setLoaded] = useState<LoadedProgram | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!orgId) return;
+    getRatePrograms(orgId, 'active').then(all => {
+      const forProduct = all.filter(p => p.productId === productId);
+      setPrograms(forProduct);
+      setProgramId(forProduct[0]?.id ?? '');
+      if (forProduct.length === 0) setLoading(false);
+    }).catch(err => {
+      console.error('Failed to load rate programs:', err);
+      setError('Could not load rate programs');
+      setLoading(false);
+    });
+  }, [orgId, productId]);
+
+  useEffect(() => {
+    if (!orgId || !programId) return;
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        // Versions come newest first
+        const versions = await getVersions(orgId, programId);
+        const draft = versions.find(v => v.status === 'draft');
+        const published = versions.find(v => v.status === 'published');
+        if (!draft) {
+          if (!cancelled) setLoaded(null);
+          return;
+        }
+        const [draftSteps, baselineSteps] = await Promise.all([
+          getSteps(orgId, programId, draft.id),
+          published ? getSteps(orgId, programId, published.id) : Promise.resolve(undefined),
+        ]);
+        const tables = await loadRatingTables(
+          orgId,
+          [...draftSteps, ...(baselineSteps ?? [])].flatMap(stepTableVersionIds),
+        );
+        if (cancelled) return;
+        setLoaded({
+          draftVersionId: draft.id,
+          draftSteps,
+          draftAggregation: draft.aggregation,
+          baselineVersionId: published?.id,
+          baselineSteps,
+          baselineAggregation: published?.aggregation,
+          tables,
+        });
+      } catch (err) {
+        console.error('Failed to load rate program versions:', err);
+        if (!cancelled) setError('Could not load the rate program versions');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [orgId, programId]);
+
+  const program = programs.find(p => p.id === programId);
+
+  return (
+    <div>
+      {programs.length > 1 && (
+        <Bar>
+          Rate program
+          <Select value={programId} onChange={e => setProgramId(e.target.value)} aria-label="Rate program">
+            {programs.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </Select>
+        </Bar>
+      )}
+
+      {error ? (
+        <Notice>{error}</Notice>
+      ) : loading ? (
+        <Notice>Loading rate program…</Notice>
+      ) : !program ? (
+        <Notice>This product has no active rate program.</Notice>
+      ) : !loaded ? (
+        <Notice>{program.name} has no draft version to review.</Notice>
+      ) : (
+        <>
+          <AggregationEditor
+            rateProgramId={program.id}
+            versionId={loaded.draftVersionId}
+            aggregation={loaded.draftAggregation}
+            readOnly={!canWriteProducts}
+            onSaved={aggregation => setLoaded({ ...loaded, draftAggregation: aggregation })}
+          />
+          <PricingQATab
+            rateProgramId={program.id}
+            rateProgramName={program.name}
+            productId={productId}
+            draftSteps={loaded.draftSteps}
+            draftVersionId={loaded.draftVersionId}
+            baselineSteps={loaded.baselineSteps}
+            baselineVersionId={loaded.baselineVersionId}
+            aggregation={loaded.draftAggregation}
+            baselineAggregation={loaded.baselineAggregation}
+            tables={loaded.tables}
+            changeSetId={activeChangeSet?.id}
+            changeSetName={activeChangeSet?.name}
+          />
+        </>
+      )}
+    </div>
+  );
+}
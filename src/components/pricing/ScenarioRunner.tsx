@@ -607,6 +607,28 @@ export const ScenarioRunner: React.FC<ScenarioRunnerProps> = ({
                             <DetailValue>{entry.tableLookupKey}</DetailValue>
                           </DetailRow>
                         )}
+                        {entry.tableLookupDetail && entry.tableLookupDetail.mode !== 'exact' && (
+                          <DetailRow>
+                            <DetailLabel>Lookup Resolution:</DetailLabel>
+                            <DetailValue>
+                              {entry.tableLookupDetail.dimensions.map(d =>
+                                d.method === 'interpolate'
+                                  ? `${d.fieldCode}=${d.inputValue} between ${d.lowerBreakpoint} and ${d.upperBreakpoint} (${((d.fraction ?? 0) * 100).toFixed(1)}%)`
+                                  : `${d.fieldCode}=${d.inputValue} → ${d.matchedValue}`
+                              ).join('; ')}
+                            </DetailValue>
+                          </DetailRow>
+                        )}
+                        {entry.termDetail && (
+                          <DetailRow>
+                            <DetailLabel>Term Adjustment:</DetailLabel>
+                            <DetailValue>
+                              {entry.termDetail.method} · {entry.termDetail.daysInForce}/{entry.termDetail.termDays} days ·
+                              earned {entry.termDetail.earnedPremium.toFixed(2)} / unearned {entry.termDetail.unearnedPremium.toFixed(2)}
+                              {entry.termDetail.minimumApplied !== undefined && ` (minimum earned ${entry.termDetail.minimumApplied})`}
+                            </DetailValue>
+                          </DetailRow>
+                        )}
                         {entry.evaluatedExpression && (
                           <DetailRow>
                             <DetailLabel>Expression:</DetailLabel>
@@ -36,3 +36,6 @@ export { ScenarioRunner } from './ScenarioRunner';
 
 // Pricing QA Tab (Scenario Library + Regression Runner)
 export { default as PricingQATab } from './PricingQATab';
+
+// Rate Impact Panel (policy sample impact analysis)
+export { default as RateImpactPanel } from './RateImpactPanel';
@@ -0,0 +1,313 @@
+/**
+ * LegacyRuleMigrationPanel – migrate a product's legacy DSL rules into the
+ * underwriting rules engine
+ *
+ * Always dry-runs first: the report lists every legacy rule with its
+ * conversion issues and equivalence result. Only after reviewing it can an
+ * admin write the ready rules as drafts into a change set.
+ */
+
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import { migrateLegacyRules } from '../../services/ruleMigrationService';
+import { versioningService } from '../../services/versioningService';
+import type { RuleMigrationReport, RuleConversion, RuleEquivalenceReport } from '../../types/ruleMigration';
+import type { DataDictionaryField } from '../../types/dataDictionary';
+import type { VersionedDocument } from '../../types/versioning';
+
+// ============================================================================
+// Styled Components  (mirrors RuleSetAnalysisPanel)
+// ============================================================================
+
+const Container = styled.div`
+  background: white;
+  border-radius: 12px;
+  box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+  overflow: hidden;
+`;
+
+const Header = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 16px 20px;
+  background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%);
+  color: white;
+`;
+
+const Title = styled.h3`
+  font-size: 16px;
+  font-weight: 600;
+  margin: 0;
+`;
+
+const Btn = styled.button`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 8px 16px;
+  border-radius: 6px;
+  font-size: 13px;
+  font-weight: 500;
+  cursor: pointer;
+  background: white; color: #6366f1; border: none;
+  &:hover { background: #f0f0f0; }
+  &:disabled { opacity: 0.5; cursor: not-allowed; }
+`;
+
+const PrimaryBtn = styled(Btn)`
+  background: #6366f1; color: white;
+  &:hover { background: #4f46e5; }
+`;
+
+const Content = styled.div`padding: 20px;`;
+
+const Controls = styled.div`
+  display: flex; gap: 12px; margin-bottom: 20px; flex-wrap: wrap;
+`;
+
+const InputField = styled.div`
+  display: flex; flex-direction: column; gap: 4px; min-width: 180px;
+`;
+
+const Label = styled.label`
+  font-size: 12px; font-weight: 500; color: #6b7280;
+`;
+
+const Select = styled.select`
+  padding: 8px 12px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 14px; background: white;
+  &:focus { outline: none; border-color: #6366f1; box-shadow: 0 0 0 3px rgba(99,102,241,0.1); }
+`;
+
+const Summary = styled.div<{ $clean: boolean }>`
+  display: flex; align-items: center; gap: 10px; padding: 12px 16px; border-radius: 8px; margin-bottom: 16px;
+  font-size: 14px; color: #111827;
+  background: ${p => p.$clean ? '#f0fdf4' : '#fffbeb'};
+  border: 1px solid ${p => p.$clean ? '#86efac' : '#fde68a'};
+  svg { width: 20px; height: 20px; color: ${p => p.$clean ? '#22c55e' : '#f59e0b'}; }
+`;
+
+const RuleCard = styled.div<{ $color: string }>`
+  border: 1px solid #e5e7eb; border-left: 4px solid ${p => p.$color}; border-radius: 8px;
+  padding: 12px 16px; margin-bottom: 10px;
+`;
+
+const RuleHeader = styled.div`
+  display: flex; align-items: center; gap: 8px; margin-bottom: 6px;
+  font-size: 14px; font-weight: 500; color: #111827;
+`;
+
+const Badge = styled.span<{ $color: string }>`
+  display: inline-flex; align-items: center; gap: 4px; padding: 2px 8px; border-radius: 4px; font-size: 11px; font-weight: 600;
+  background: ${p => p.$color}20; color: ${p => p.$color};
+`;
+
+const RuleLink = styled.button`
+  background: none; border: none; padding: 0; font-size: 13px; font-weight: 500; color: #4f46e5; cursor: pointer;
+  &:hover { text-decoration: underline; }
+`;
+
+const Message = styled.div`font-size: 13px; color: #374151;`;
+
+const Footer = styled.div`
+  display: flex; justify-content: flex-end; gap: 12px; align-items: center; margin-top: 16px;
+`;
+
+// ============================================================================
+// Props
+// ============================================================================
+
+interface LegacyRuleMigrationPanelProps {
+  orgId: string;
+  userId: string;
+  products: { id: string; name: string }[];
+  dictionaryFields: DataDictionaryField[];
+  onSelectRule?: (ruleId: string) => void;
+}
+
+type RuleStatus = 'ready' | 'migrated' | 'alreadyMigrated' | 'notConvertible' | 'notEquivalent';
+
+const RULE_STATUS_CONFIG: Record<RuleStatus, { label: string; color: string }> = {
+  ready: { label: 'Ready', color: '#6366f1' },
+  migrated: { label: 'Migrated', color: '#22c55e' },
+  alreadyMigrated: { label: 'Already migrated', color: '#6b7280' },
+  notConvertible: { label: 'Cannot convert', color: '#ef4444' },
+  notEquivalent: { label: 'Not equivalent', color: '#f59e0b' },
+};
+
+function ruleStatus(
+  report: RuleMigrationReport,
+  conversion: RuleConversion,
+  equivalence: RuleEquivalenceReport | undefined,
+): RuleStatus {
+  if (!conversion.convertible) return 'notConvertible';
+  if (!equivalence?.equivalent) return 'notEquivalent';
+  if (report.alreadyMigrated.some(r => r.legacyRuleId === conversion.legacyRuleId)) return 'alreadyMigrated';
+  if (report.migrated.some(r => r.legacyRuleId === conversion.legacyRuleId)) return 'migrated';
+  return 'ready';
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export const LegacyRuleMigrationPanel: React.FC<LegacyRuleMigrationPanelProps> = ({
+  orgId,
+  userId,
+  products,
+  dictionaryFields,
+  onSelectRule,
+}) => {
+  const [productId, setProductId] = useState(products[0]?.id ?? '');
+  const [productVersions, setProductVersions] = useState<VersionedDocument<unknown>[]>([]);
+  const [productVersionId, setProductVersionId] = useState('');
+  const [report, setReport] = useState<RuleMigrationReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    setProductVersions([]);
+    setProductVersionId('');
+    if (!productId) return;
+    let cancelled = false;
+    versioningService.getVersions(orgId, 'product', productId).then(versions => {
+      if (cancelled) return;
+      setProductVersions(versions);
+      setProductVersionId((versions.find(v => v.status === 'draft') ?? versions[0])?.id ?? '');
+    }).catch(err => {
+      console.error('Failed to load product versions:', err);
+      if (!cancelled) setError('Could not load product versions');
+    });
+    return () => { cancelled = true; };
+  }, [orgId, productId]);
+
+  const run = async (dryRun: boolean) => {
+    setRunning(true);
+    setError(null);
+    try {
+      setReport(await migrateLegacyRules({
+        orgId,
+        productId,
+        productVersionId,
+        userId,
+        dryRun,
+        availableFieldCodes: dictionaryFields.map(f => f.code),
+      }));
+    } catch (err) {
+      console.error('Legacy rule migration failed:', err);
+      setError(err instanceof Error ? err.message : 'Migration failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleMigrate = () => {
+    if (!report) return;
+    const confirmed = window.confirm(
+      `Create ${report.convertedCount} draft rule${report.convertedCount === 1 ? '' : 's'} in your active change set?`,
+    );
+    if (confirmed) run(false);
+  };
+
+  const selectVersion = (id: string) => {
+    setProductVersionId(id);
+    setReport(null);
+  };
+
+  return (
+    <Container>
+      <Header>
+        <Title>Migrate Legacy Rules</Title>
+        <Btn onClick={() => run(true)} disabled={running || !productId || !productVersionId}>
+          <ArrowPathIcon style={{ width: 16, height: 16 }} />
+          Dry Run
+        </Btn>
+      </Header>
+
+      <Content>
+        <Controls>
+          <InputField>
+            <Label>Product</Label>
+            <Select value={productId} onChange={e => setProductId(e.target.value)}>
+              {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </Select>
+          </InputField>
+          <InputField>
+            <Label>Scope drafts to product version</Label>
+            <Select value={productVersionId} onChange={e => selectVersion(e.target.value)}>
+              {productVersions.map(v => (
+                <option key={v.id} value={v.id}>v{v.versionNumber} ({v.status})</option>
+              ))}
+            </Select>
+          </InputField>
+        </Controls>
+
+        {error && <Summary $clean={false}><ExclamationTriangleIcon /><span>{error}</span></Summary>}
+
+        {report && (
+          <>
+            <Summary $clean={report.skippedCount === 0 && report.errors.length === 0}>
+              {report.skippedCount === 0 && report.errors.length === 0 ? <CheckCircleIcon /> : <ExclamationTriangleIcon />}
+              <span>
+                {report.conversions.length} legacy rules •{' '}
+                {report.dryRun ? `${report.convertedCount} ready to migrate` : `${report.migrated.length} migrated`}
+                {report.skippedCount > 0 && ` • ${report.skippedCount} need manual rework`}
+                {report.alreadyMigrated.length > 0 && ` • ${report.alreadyMigrated.length} already migrated`}
+              </span>
+            </Summary>
+
+            {report.conversions.map(conversion => {
+              const equivalence = report.equivalence.find(e => e.legacyRuleId === conversion.legacyRuleId);
+              const config = RULE_STATUS_CONFIG[ruleStatus(report, conversion, equivalence)];
+              const ruleId = report.migrated.find(r => r.legacyRuleId === conversion.legacyRuleId)?.ruleId
+                ?? report.alreadyMigrated.find(r => r.legacyRuleId === conversion.legacyRuleId)?.ruleId;
+              return (
+                <RuleCard key={conversion.legacyRuleId} $color={config.color}>
+                  <RuleHeader>
+                    <Badge $color={config.color}>{config.label}</Badge>
+                    {ruleId ? (
+                      <RuleLink onClick={() => onSelectRule?.(ruleId)}>{conversion.legacyRuleName}</RuleLink>
+                    ) : conversion.legacyRuleName}
+                  </RuleHeader>
+                  {conversion.issues.map((issue, i) => (
+                    <Message key={i} style={{ color: issue.severity === 'error' ? '#b91c1c' : '#92400e' }}>
+                      {issue.path ? `${issue.path}: ` : ''}{issue.message}
+                    </Message>
+                  ))}
+                  {equivalence && !equivalence.equivalent && (
+                    <Message>
+                      {equivalence.mismatches.length} of {equivalence.casesEvaluated} probe inputs evaluate differently
+                    </Message>
+                  )}
+                </RuleCard>
+              );
+            })}
+
+            {report.errors.map((message, i) => (
+              <Message key={i} style={{ color: '#b91c1c' }}>{message}</Message>
+            ))}
+
+            {report.dryRun && (
+              <Footer>
+                <Message style={{ color: '#6b7280' }}>
+                  Ready rules become drafts in your active change set; nothing is published.
+                </Message>
+                <PrimaryBtn onClick={handleMigrate} disabled={running || report.convertedCount === 0}>
+                  Migrate {report.convertedCount} rule{report.convertedCount === 1 ? '' : 's'}
+                </PrimaryBtn>
+              </Footer>
+            )}
+          </>
+        )}
+      </Content>
+    </Container>
+  );
+};
+
+export default LegacyRuleMigrationPanel;
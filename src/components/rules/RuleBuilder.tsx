@@ -29,11 +29,14 @@ import type {
   RuleSeverity,
   RuleScope,
   RuleValidationIssue,
+  DateOffsetUnit,
 } from '../../types/rulesEngine';
 import {
   createEmptyLeaf,
   createEmptyGroup,
   generateConditionId,
+  VALUELESS_OPERATORS,
+  RELATIVE_DATE_OPERATORS,
 } from '../../types/rulesEngine';
 import { validateRuleVersion } from '../../engine/rulesEngine';
 import type { DataDictionaryField } from '../../types/dataDictionary';
@@ -280,8 +283,24 @@ const OPERATORS: { value: ConditionOperator; label: string; types?: string[] }[]
   { value: 'in', label: 'in list' },
   { value: 'notIn', label: 'not in list' },
   { value: 'contains', label: 'contains' },
+  { value: 'startsWith', label: 'starts with' },
+  { value: 'endsWith', label: 'ends with' },
+  { value: 'matches', label: 'matches pattern' },
   { value: 'isTrue', label: 'is true' },
   { value: 'isFalse', label: 'is false' },
+  { value: 'exists', label: 'has a value' },
+  { value: 'notExists', label: 'has no value' },
+  { value: 'dateBefore', label: 'date before' },
+  { value: 'dateAfter', label: 'date after' },
+  { value: 'withinLast', label: 'within last' },
+  { value: 'withinNext', label: 'within next' },
+  { value: 'olderThan', label: 'older than' },
+];
+
+const DATE_UNITS: { value: DateOffsetUnit; label: string }[] = [
+  { value: 'days', label: 'days' },
+  { value: 'months', label: 'months' },
+  { value: 'years', label: 'years' },
 ];
 
 const ACTIONS: { value: RuleAction; label: string }[] = [
@@ -426,6 +445,14 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
     onChange({ conditions: updated });
   };
 
+  const handleDateUnitChange = (leafId: string, dateUnit: DateOffsetUnit) => {
+    const updated = updateNode(conditions, leafId, (node) => {
+      if (node.kind !== 'leaf') return node;
+      return { ...node, dateUnit };
+    });
+    onChange({ conditions: updated });
+  };
+
   const handleToggleOperator = (groupId: string, op: LogicalOperator) => {
     const updated = updateNode(conditions, groupId, (node) => {
       if (node.kind !== 'group') return node;
@@ -481,9 +508,11 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
     const hasError = validationIssues.some(
       i => i.type === 'error' && i.fieldCode === leaf.fieldCode,
     ) || (!leaf.fieldCode && validationIssues.length > 0);
-    const needsValue = !['isTrue', 'isFalse'].includes(leaf.operator);
+    const needsValue = !VALUELESS_OPERATORS.includes(leaf.operator);
     const isBetween = leaf.operator === 'between';
     const isList = leaf.operator === 'in' || leaf.operator === 'notIn';
+    const isRelativeDate = RELATIVE_DATE_OPERATORS.includes(leaf.operator);
+    const isDate = leaf.operator === 'dateBefore' || leaf.operator === 'dateAfter';
 
     return (
       <LeafRow key={leaf.id} $hasError={hasError}>
@@ -514,13 +543,14 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
         </StyledSelect>
 
         {/* Value */}
-        {needsValue && !isList && (
+        {needsValue && !isList && !isRelativeDate && (
           <StyledInput
-            type={field?.type === 'int' || field?.type === 'decimal' ? 'number' : 'text'}
+            type={isDate ? 'date' : field?.type === 'int' || field?.type === 'decimal' ? 'number' : 'text'}
             value={String(leaf.value ?? '')}
-            placeholder={isBetween ? 'From' : 'Value'}
+            placeholder={isBetween ? 'From' : leaf.operator === 'matches' ? 'Regular expression' : 'Value'}
             onChange={(e) => {
-              const val = field?.type === 'int' ? parseInt(e.target.value, 10) || 0
+              const val = isDate || leaf.operator === 'matches' ? e.target.value
+                : field?.type === 'int' ? parseInt(e.target.value, 10) || 0
                 : field?.type === 'decimal' ? parseFloat(e.target.value) || 0
                 : e.target.value;
               handleValueChange(leaf.id, val);
@@ -529,6 +559,29 @@ export const RuleBuilder: React.FC<RuleBuilderProps> = ({
           />
         )}
 
+        {isRelativeDate && (
+          <>
+            <StyledInput
+              type="number"
+              min={0}
+              value={String(leaf.value ?? '')}
+              placeholder="Amount"
+              onChange={(e) => handleValueChange(leaf.id, parseInt(e.target.value, 10) || 0)}
+              disabled={readOnly}
+            />
+            <StyledSelect
+              value={leaf.dateUnit ?? 'days'}
+              onChange={(e) => handleDateUnitChange(leaf.id, e.target.value as DateOffsetUnit)}
+              disabled={readOnly}
+            >
+              {DATE_UNITS.map(u => (
+                <option key={u.value} value={u.value}>{u.label}</option>
+              ))}
+            </StyledSelect>
+            <span style={{ fontSize: 12, color: '#9ca3af' }}>of effective date</span>
+          </>
+        )}
+
         {isBetween && (
           <>
             <span style={{ fontSize: 12, color: '#9ca3af' }}>to</span>
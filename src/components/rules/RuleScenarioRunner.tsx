@@ -454,9 +454,17 @@ export const RuleScenarioRunner: React.FC<RuleScenarioRunnerProps> = ({
                               <ConditionRow key={i} $result={ct.result}>
                                 <span style={{ fontFamily: 'monospace', fontWeight: 600 }}>{ct.fieldCode}</span>
                                 <span style={{ color: '#6b7280' }}>{ct.operator}</span>
-                                <span style={{ fontFamily: 'monospace' }}>{JSON.stringify(ct.expectedValue)}</span>
+                                <span style={{ fontFamily: 'monospace' }}>
+                                  {ct.comparedFieldCode ? `${ct.comparedFieldCode} (${JSON.stringify(ct.expectedValue)})` : JSON.stringify(ct.expectedValue)}
+                                </span>
                                 <span style={{ color: '#9ca3af' }}>→ actual:</span>
                                 <span style={{ fontFamily: 'monospace' }}>{JSON.stringify(ct.actualValue)}</span>
+                                {ct.referenceDate && (
+                                  <span style={{ color: '#9ca3af' }}>vs {ct.referenceDate}</span>
+                                )}
+                                {ct.note && (
+                                  <span style={{ color: '#b45309' }}>{ct.note}</span>
+                                )}
                                 <span style={{ marginLeft: 'auto', fontWeight: 600 }}>
                                   {ct.result ? '✓' : '✗'}
                                 </span>
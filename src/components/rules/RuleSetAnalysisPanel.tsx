@@ -0,0 +1,231 @@
+/**
+ * RuleSetAnalysisPanel – static analysis across published underwriting rules
+ *
+ * Runs the rule set analyzer for a state and effective date and lists:
+ * - Conflicts (accept vs decline/refer on the same input)
+ * - Dead rules (conditions that can never all be true)
+ * - Shadowed rules (fully covered by a broader decline rule)
+ * Each conflict / shadowed finding carries a witness input that fires the
+ * rules involved.
+ */
+
+import React, { useState, useMemo } from 'react';
+import styled from 'styled-components';
+import {
+  MagnifyingGlassCircleIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import { analyzeRuleSet } from '../../engine/ruleSetAnalyzer';
+import type { RuleWithVersion } from '../../engine/rulesEngine';
+import type { RuleSetAnalysisReport } from '../../types/rulesEngine';
+import { RULE_SET_FINDING_CONFIG } from '../../types/rulesEngine';
+import type { DataDictionaryField } from '../../types/dataDictionary';
+
+// ============================================================================
+// Styled Components  (mirrors RuleScenarioRunner)
+// ============================================================================
+
+const Container = styled.div`
+  background: white;
+  border-radius: 12px;
+  box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+  overflow: hidden;
+`;
+
+const Header = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 16px 20px;
+  background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%);
+  color: white;
+`;
+
+const Title = styled.h3`
+  font-size: 16px;
+  font-weight: 600;
+  margin: 0;
+`;
+
+const Btn = styled.button`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 8px 16px;
+  border-radius: 6px;
+  font-size: 13px;
+  font-weight: 500;
+  cursor: pointer;
+  background: white; color: #6366f1; border: none;
+  &:hover { background: #f0f0f0; }
+  &:disabled { opacity: 0.5; cursor: not-allowed; }
+`;
+
+const Content = styled.div`padding: 20px;`;
+
+const Controls = styled.div`
+  display: flex; gap: 12px; margin-bottom: 20px; flex-wrap: wrap;
+`;
+
+const InputField = styled.div`
+  display: flex; flex-direction: column; gap: 4px; min-width: 180px;
+`;
+
+const Label = styled.label`
+  font-size: 12px; font-weight: 500; color: #6b7280;
+`;
+
+const Input = styled.input`
+  padding: 8px 12px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 14px;
+  &:focus { outline: none; border-color: #6366f1; box-shadow: 0 0 0 3px rgba(99,102,241,0.1); }
+`;
+
+const Select = styled.select`
+  padding: 8px 12px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 14px; background: white;
+  &:focus { outline: none; border-color: #6366f1; box-shadow: 0 0 0 3px rgba(99,102,241,0.1); }
+`;
+
+const Summary = styled.div<{ $clean: boolean }>`
+  display: flex; align-items: center; gap: 10px; padding: 12px 16px; border-radius: 8px; margin-bottom: 16px;
+  font-size: 14px; color: #111827;
+  background: ${p => p.$clean ? '#f0fdf4' : '#fffbeb'};
+  border: 1px solid ${p => p.$clean ? '#86efac' : '#fde68a'};
+  svg { width: 20px; height: 20px; color: ${p => p.$clean ? '#22c55e' : '#f59e0b'}; }
+`;
+
+const FindingCard = styled.div<{ $color: string }>`
+  border: 1px solid #e5e7eb; border-left: 4px solid ${p => p.$color}; border-radius: 8px;
+  padding: 12px 16px; margin-bottom: 10px;
+`;
+
+const FindingHeader = styled.div`
+  display: flex; align-items: center; gap: 8px; margin-bottom: 6px;
+`;
+
+const Badge = styled.span<{ $color: string }>`
+  display: inline-flex; align-items: center; gap: 4px; padding: 2px 8px; border-radius: 4px; font-size: 11px; font-weight: 600;
+  background: ${p => p.$color}20; color: ${p => p.$color};
+`;
+
+const RuleLink = styled.button`
+  background: none; border: none; padding: 0; font-size: 13px; font-weight: 500; color: #4f46e5; cursor: pointer;
+  &:hover { text-decoration: underline; }
+`;
+
+const Message = styled.div`font-size: 13px; color: #374151;`;
+
+const Witness = styled.pre`
+  margin: 8px 0 0; padding: 8px 10px; background: #f9fafb; border-radius: 6px;
+  font-size: 12px; font-family: 'SF Mono', Monaco, monospace; color: #111827; white-space: pre-wrap;
+`;
+
+// ============================================================================
+// Props
+// ============================================================================
+
+interface RuleSetAnalysisPanelProps {
+  /** Published rules to analyze (already filtered to the product) */
+  rules: RuleWithVersion[];
+  dictionaryFields: DataDictionaryField[];
+  onSelectRule?: (ruleId: string) => void;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export const RuleSetAnalysisPanel: React.FC<RuleSetAnalysisPanelProps> = ({
+  rules,
+  dictionaryFields,
+  onSelectRule,
+}) => {
+  const [stateCode, setStateCode] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [report, setReport] = useState<RuleSetAnalysisReport | null>(null);
+
+  const states = useMemo(() => {
+    const codes = new Set<string>();
+    for (const r of rules) {
+      if (r.version.scope.stateCode) codes.add(r.version.scope.stateCode);
+    }
+    return [...codes].sort();
+  }, [rules]);
+
+  const handleAnalyze = () => {
+    setReport(analyzeRuleSet({
+      rules,
+      dictionaryFields,
+      stateCode: stateCode || null,
+      effectiveDate: new Date(effectiveDate),
+    }));
+  };
+
+  return (
+    <Container>
+      <Header>
+        <Title>Rule Set Analysis</Title>
+        <Btn onClick={handleAnalyze} disabled={rules.length === 0 || !effectiveDate}>
+          <MagnifyingGlassCircleIcon style={{ width: 16, height: 16 }} />
+          Analyze
+        </Btn>
+      </Header>
+
+      <Content>
+        <Controls>
+          <InputField>
+            <Label>State</Label>
+            <Select value={stateCode} onChange={e => setStateCode(e.target.value)}>
+              <option value="">All states</option>
+              {states.map(s => <option key={s} value={s}>{s}</option>)}
+            </Select>
+          </InputField>
+          <InputField>
+            <Label>Effective date</Label>
+            <Input type="date" value={effectiveDate} onChange={e => setEffectiveDate(e.target.value)} />
+          </InputField>
+        </Controls>
+
+        {report && (
+          <>
+            <Summary $clean={report.findings.length === 0}>
+              {report.findings.length === 0 ? <CheckCircleIcon /> : <ExclamationTriangleIcon />}
+              <span>
+                {report.rulesAnalyzed} rules analyzed • {report.findings.length} finding{report.findings.length === 1 ? '' : 's'}
+                {report.skippedRules.length > 0 && ` • ${report.skippedRules.length} too complex to analyze`}
+              </span>
+            </Summary>
+
+            {report.findings.map((finding, i) => {
+              const config = RULE_SET_FINDING_CONFIG[finding.type];
+              return (
+                <FindingCard key={i} $color={config.color}>
+                  <FindingHeader>
+                    <Badge $color={config.color}>{config.label}</Badge>
+                    {finding.ruleIds.map((id, j) => (
+                      <RuleLink key={id} onClick={() => onSelectRule?.(id)}>
+                        {finding.ruleNames[j]}
+                      </RuleLink>
+                    ))}
+                  </FindingHeader>
+                  <Message>{finding.message}</Message>
+                  {finding.witness && (
+                    <Witness>{JSON.stringify(finding.witness, null, 2)}</Witness>
+                  )}
+                </FindingCard>
+              );
+            })}
+
+            {report.skippedRules.map(s => (
+              <Message key={s.ruleId} style={{ color: '#6b7280' }}>
+                Skipped "{s.ruleName}": {s.reason}
+              </Message>
+            ))}
+          </>
+        )}
+      </Content>
+    </Container>
+  );
+};
+
+export default RuleSetAnalysisPanel;
@@ -0,0 +1,406 @@
+/**
+ * OverrideLayerGroupsPanel  (Design System v2)
+ *
+ * Manage the region layer groups of a product version: groups of states
+ * that inherit a shared set of overrides beneath each state's own.
+ * Features:
+ *  - Create, edit and delete groups (name, states, priority)
+ *  - Add and remove a group's overrides
+ *
+ * Usage:
+ *   <OverrideLayerGroupsPanel
+ *     orgId={orgId} productId={productId} versionId={versionId}
+ *     baseConfig={baseConfig}
+ *   />
+ */
+
+import React, { useState, useCallback } from 'react';
+import styled from 'styled-components';
+import {
+  PlusIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  CheckIcon,
+  XMarkIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+} from '@heroicons/react/24/outline';
+import {
+  color, neutral, accent, semantic,
+  space, radius, fontFamily,
+  type as t, border as borderTokens,
+  duration, focusRingStyle,
+} from '@/ui/tokens';
+import { Badge } from '@/ui/components';
+import { useLayerGroups } from '@/hooks/useDeviations';
+import { getNestedValue } from '@/engine/deviationEngine';
+import { US_STATES } from '@/services/stateAvailabilityService';
+import type { OverrideLayerGroup } from '@/types/deviation';
+
+// ════════════════════════════════════════════════════════════════════════
+// Styled
+// ════════════════════════════════════════════════════════════════════════
+
+const Panel = styled.div`
+  background: ${color.bg};
+  border: ${borderTokens.default};
+  border-radius: ${radius.xl};
+  overflow: hidden;
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: ${space[3]} ${space[4]};
+  border-bottom: ${borderTokens.default};
+  background: ${neutral[50]};
+`;
+
+const PanelTitle = styled.h3`
+  margin: 0;
+  font-family: ${fontFamily.sans};
+  font-size: ${t.bodySm.size};
+  font-weight: 600;
+  color: ${color.text};
+`;
+
+const GroupRow = styled.div`
+  border-bottom: ${borderTokens.default};
+  &:last-child { border-bottom: none; }
+`;
+
+const GroupHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${space[2]};
+  padding: ${space[2.5]} ${space[4]};
+  font-family: ${fontFamily.sans};
+  font-size: ${t.captionSm.size};
+  color: ${color.text};
+`;
+
+const GroupName = styled.button`
+  display: flex;
+  align-items: center;
+  gap: ${space[1]};
+  border: none;
+  background: none;
+  padding: 0;
+  cursor: pointer;
+  font-family: ${fontFamily.sans};
+  font-size: ${t.captionSm.size};
+  font-weight: 600;
+  color: ${color.text};
+  &:focus-visible { ${focusRingStyle} }
+  svg { width: 14px; height: 14px; color: ${neutral[400]}; }
+`;
+
+const Muted = styled.span`
+  color: ${color.textMuted};
+`;
+
+const Spacer = styled.div`flex: 1;`;
+
+const Form = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: flex-end;
+  gap: ${space[2]};
+  padding: ${space[3]} ${space[4]};
+  border-bottom: ${borderTokens.default};
+  background: ${accent[50]};
+`;
+
+const Field = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: 2px;
+  font-family: ${fontFamily.sans};
+  font-size: 11px;
+  font-weight: 500;
+  color: ${neutral[600]};
+`;
+
+const Input = styled.input<{ $width?: string }>`
+  font-family: ${fontFamily.sans};
+  font-size: 12px;
+  padding: 4px ${space[1.5]};
+  border: 1px solid ${neutral[300]};
+  border-radius: ${radius.sm};
+  background: white;
+  color: ${color.text};
+  width: ${({ $width }) => $width || '160px'};
+  &:focus { ${focusRingStyle} outline: none; }
+`;
+
+const OverrideList = styled.div`
+  padding: 0 ${space[4]} ${space[3]} ${space[8]};
+`;
+
+const OverrideRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${space[2]};
+  padding: ${space[1]} 0;
+  font-family: ${fontFamily.mono};
+  font-size: 12px;
+  color: ${color.text};
+`;
+
+const SmallBtn = styled.button<{ $variant?: 'default' | 'danger' | 'accent' }>`
+  display: flex;
+  align-items: center;
+  gap: 2px;
+  padding: 3px ${space[1.5]};
+  border-radius: ${radius.sm};
+  border: 1px solid ${({ $variant }) =>
+    $variant === 'danger' ? semantic.error :
+    $variant === 'accent' ? accent[300] :
+    neutral[200]
+  };
+  background: ${color.bg};
+  cursor: pointer;
+  font-size: 10px;
+  font-family: ${fontFamily.sans};
+  color: ${({ $variant }) =>
+    $variant === 'danger' ? semantic.error :
+    $variant === 'accent' ? accent[600] :
+    neutral[600]
+  };
+  transition: all ${duration.fast} ease;
+
+  &:hover { background: ${neutral[50]}; }
+  &:focus-visible { ${focusRingStyle} }
+  &:disabled { opacity: 0.4; cursor: not-allowed; }
+
+  svg { width: 12px; height: 12px; }
+`;
+
+const ErrorText = styled.div`
+  padding: ${space[2]} ${space[4]};
+  font-size: ${t.captionSm.size};
+  color: ${semantic.error};
+`;
+
+const EmptyState = styled.div`
+  padding: ${space[8]} ${space[4]};
+  text-align: center;
+  font-size: ${t.captionSm.size};
+  color: ${color.textMuted};
+`;
+
+// ════════════════════════════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════════════════════════════
+
+const KNOWN_STATES = new Set(US_STATES.map(s => s.code));
+
+interface GroupDraft {
+  name: string;
+  states: string;
+  priority: string;
+}
+
+const EMPTY_DRAFT: GroupDraft = { name: '', states: '', priority: '0' };
+
+/** Parse "NY, NJ ct" into known state codes; unknown codes are returned separately */
+function parseStateCodes(text: string): { codes: string[]; unknown: string[] } {
+  const tokens = [...new Set(text.split(/[\s,]+/).map(s => s.trim().toUpperCase()).filter(Boolean))];
+  return { codes: tokens.filter(c => KNOWN_STATES.has(c)), unknown: tokens.filter(c => !KNOWN_STATES.has(c)) };
+}
+
+/** Value text: JSON when it parses, otherwise the text itself */
+function parseValue(text: string): unknown {
+  try { return JSON.parse(text); } catch { return text; }
+}
+
+function formatValue(v: unknown): string {
+  return typeof v === 'string' ? v : JSON.stringify(v);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════════════════════════════
+
+interface Props {
+  orgId: string;
+  productId: string;
+  versionId: string;
+  baseConfig: Record<string, unknown>;
+}
+
+const OverrideLayerGroupsPanel: React.FC<Props> = ({ orgId, productId, versionId, baseConfig }) => {
+  const { groups, loading, create, update, remove, setGroupOverride } = useLayerGroups(orgId, productId, versionId);
+
+  // null: no form; 'new': creating; otherwise the group being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<GroupDraft>(EMPTY_DRAFT);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [newPath, setNewPath] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      setError(`${failure}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const startCreate = () => {
+    setEditing('new');
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const startEdit = (group: OverrideLayerGroup) => {
+    setEditing(group.id);
+    setDraft({ name: group.name, states: group.stateCodes.join(', '), priority: String(group.priority) });
+  };
+
+  const saveDraft = () => {
+    const { codes, unknown } = parseStateCodes(draft.states);
+    if (unknown.length > 0) {
+      setError(`Unknown state codes: ${unknown.join(', ')}`);
+      return;
+    }
+    const priority = Number(draft.priority);
+    const data = { name: draft.name.trim(), stateCodes: codes, priority: Number.isFinite(priority) ? priority : 0 };
+    run(async () => {
+      if (editing === 'new') await create(data);
+      else if (editing) await update(editing, data);
+      setEditing(null);
+    }, 'Saving the group failed');
+  };
+
+  const deleteGroup = (group: OverrideLayerGroup) => {
+    if (!window.confirm(`Delete "${group.name}"? Its states stop inheriting its overrides.`)) return;
+    run(() => remove(group.id), 'Deleting the group failed');
+  };
+
+  const addOverride = (group: OverrideLayerGroup) => {
+    const path = newPath.trim();
+    run(async () => {
+      await setGroupOverride(group, path, parseValue(newValue), getNestedValue(baseConfig, path));
+      setNewPath('');
+      setNewValue('');
+    }, 'Saving the override failed');
+  };
+
+  const removeOverride = (group: OverrideLayerGroup, path: string) => {
+    run(() => setGroupOverride(group, path, undefined, undefined), 'Removing the override failed');
+  };
+
+  if (loading) return <EmptyState>Loading region groups…</EmptyState>;
+
+  const form = (
+    <Form>
+      <Field>
+        Name
+        <Input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Northeast" />
+      </Field>
+      <Field>
+        States
+        <Input
+          $width="220px"
+          value={draft.states}
+          onChange={e => setDraft({ ...draft, states: e.target.value })}
+          placeholder="NY, NJ, CT"
+        />
+      </Field>
+      <Field>
+        Priority (higher wins)
+        <Input
+          $width="80px"
+          type="number"
+          value={draft.priority}
+          onChange={e => setDraft({ ...draft, priority: e.target.value })}
+        />
+      </Field>
+      <SmallBtn $variant="accent" onClick={saveDraft} disabled={busy || !draft.name.trim() || !draft.states.trim()}>
+        <CheckIcon /> Save
+      </SmallBtn>
+      <SmallBtn onClick={() => setEditing(null)} disabled={busy}>
+        <XMarkIcon /> Cancel
+      </SmallBtn>
+    </Form>
+  );
+
+  return (
+    <Panel>
+      <PanelHeader>
+        <PanelTitle>Region Groups</PanelTitle>
+        <SmallBtn $variant="accent" onClick={startCreate} disabled={busy || editing !== null}>
+          <PlusIcon /> New group
+        </SmallBtn>
+      </PanelHeader>
+
+      {error && <ErrorText role="alert">{error}</ErrorText>}
+      {editing === 'new' && form}
+
+      {groups.length === 0 && editing !== 'new' && (
+        <EmptyState>No region groups. Group states to share overrides beneath each state&apos;s own.</EmptyState>
+      )}
+
+      {groups.map(group => {
+        const overrides = Object.values(group.overrides || {});
+        const isOpen = expanded === group.id;
+        return (
+          <GroupRow key={group.id}>
+            {editing === group.id ? form : (
+              <GroupHeader>
+                <GroupName onClick={() => setExpanded(isOpen ? null : group.id)} aria-expanded={isOpen}>
+                  {isOpen ? <ChevronDownIcon /> : <ChevronRightIcon />}
+                  {group.name}
+                </GroupName>
+                <Muted>{group.stateCodes.join(', ') || 'No states'}</Muted>
+                <Badge $variant="neutral" $size="sm">Priority {group.priority}</Badge>
+                <Badge $variant="accent" $size="sm">
+                  {overrides.length} override{overrides.length !== 1 ? 's' : ''}
+                </Badge>
+                <Spacer />
+                <SmallBtn onClick={() => startEdit(group)} disabled={busy || editing !== null} title="Edit group">
+                  <PencilSquareIcon />
+                </SmallBtn>
+                <SmallBtn $variant="danger" onClick={() => deleteGroup(group)} disabled={busy} title="Delete group">
+                  <TrashIcon />
+                </SmallBtn>
+              </GroupHeader>
+            )}
+
+            {isOpen && (
+              <OverrideList>
+                {overrides.map(o => (
+                  <OverrideRow key={o.path}>
+                    <span>{o.path}</span>
+                    <Muted>{formatValue(o.baseValue)} →</Muted>
+                    <span>{formatValue(o.value)}</span>
+                    <SmallBtn $variant="danger" onClick={() => removeOverride(group, o.path)} disabled={busy} title="Remove override">
+                      <XMarkIcon />
+                    </SmallBtn>
+                  </OverrideRow>
+                ))}
+                <OverrideRow>
+                  <Input value={newPath} onChange={e => setNewPath(e.target.value)} placeholder="Path, e.g. limits.perOccurrence" />
+                  <Input $width="120px" value={newValue} onChange={e => setNewValue(e.target.value)} placeholder="Value" />
+                  <SmallBtn $variant="accent" onClick={() => addOverride(group)} disabled={busy || !newPath.trim()}>
+                    <PlusIcon /> Add override
+                  </SmallBtn>
+                </OverrideRow>
+              </OverrideList>
+            )}
+          </GroupRow>
+        );
+      })}
+    </Panel>
+  );
+};
+
+export default OverrideLayerGroupsPanel;
@@ -7,6 +7,8 @@
  *  - Conflict warnings
  *  - Inline override editor
  *  - Revert to base / promote to base actions
+ *  - Three-way merge when the base changed: accept base / keep state / edit per path
+ *  - Source-layer badges (region / state / territory) with per-layer values
  *
  * Usage:
  *   <StateDeviationsPanel
@@ -30,6 +32,7 @@ import {
   FunnelIcon,
   ChevronDownIcon,
   ChevronRightIcon,
+  ArrowsRightLeftIcon,
 } from '@heroicons/react/24/outline';
 import {
   color, neutral, accent, semantic,
@@ -38,8 +41,11 @@ import {
   duration, focusRingStyle, reducedMotion,
 } from '@/ui/tokens';
 import { Badge } from '@/ui/components';
-import { useDeviationDiff, useOverrideValidation, useOverrideActions } from '@/hooks/useDeviations';
-import type { DiffEntry, DiffStatus, OverrideCategory } from '@/types/deviation';
+import { useDeviationDiff, useOverrideValidation, useOverrideActions, useDeviationMerge } from '@/hooks/useDeviations';
+import type {
+  DiffEntry, DiffStatus, MergeEntry, MergeEntryStatus, MergeResolution, OverrideCategory, OverrideLayerKind,
+} from '@/types/deviation';
+import { MERGE_RESOLUTION_LABELS, OVERRIDE_LAYER_LABELS, OVERRIDE_LAYER_PRECEDENCE } from '@/types/deviation';
 
 // ════════════════════════════════════════════════════════════════════════
 // Styled
@@ -254,6 +260,57 @@ const ConflictBanner = styled.div`
   svg { width: 16px; height: 16px; flex-shrink: 0; }
 `;
 
+/** Base changes that merge cleanly, shown when nothing conflicts */
+const MergeBanner = styled(ConflictBanner)`
+  background: ${accent[50]};
+  border-bottom: 1px solid ${accent[200]};
+  color: ${accent[700]};
+`;
+
+const MergeError = styled.span`
+  margin-right: auto;
+  align-self: center;
+  font-size: ${t.captionSm.size};
+  color: ${semantic.error};
+`;
+
+const MergeRow = styled.div<{ $status: MergeEntryStatus }>`
+  display: grid;
+  grid-template-columns: 1fr 110px 110px 110px 230px;
+  align-items: center;
+  gap: ${space[2]};
+  padding: ${space[2]} ${space[4]};
+  border-bottom: 1px solid ${neutral[100]};
+  background: ${({ $status }) => $status === 'conflict' ? '#fef2f2' : 'transparent'};
+`;
+
+const MergeHeaderRow = styled(MergeRow)`
+  background: ${neutral[50]};
+  font-family: ${fontFamily.sans};
+  font-size: 10px;
+  font-weight: 600;
+  color: ${neutral[500]};
+  text-transform: uppercase;
+  letter-spacing: 0.04em;
+`;
+
+const MergeReason = styled.span`
+  display: block;
+  font-family: ${fontFamily.sans};
+  font-size: 10px;
+  color: ${color.textMuted};
+  margin-top: 1px;
+`;
+
+const MergeFooter = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: ${space[2]};
+  padding: ${space[2]} ${space[4]};
+  border-bottom: ${borderTokens.default};
+  background: ${neutral[50]};
+`;
+
 // ════════════════════════════════════════════════════════════════════════
 // Config
 // ════════════════════════════════════════════════════════════════════════
@@ -287,6 +344,39 @@ function formatValue(v: unknown): string {
   return String(v);
 }
 
+/** Parse edit-box text using the type of a reference value */
+function parseEditValue(text: string, reference: unknown): unknown {
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (typeof reference === 'number') {
+    const num = Number(text);
+    if (!isNaN(num)) return num;
+  }
+  if (reference !== null && typeof reference === 'object') {
+    try { return JSON.parse(text); } catch { /* keep as text */ }
+  }
+  return text;
+}
+
+function editText(v: unknown): string {
+  if (v !== null && typeof v === 'object') return JSON.stringify(v);
+  return v === undefined ? '' : String(v);
+}
+
+/** Effective value from the layers below `kind` — what an override at `kind` replaces */
+function valueBeneath(entry: DiffEntry, kind: OverrideLayerKind): unknown {
+  const lower = (entry.layerValues || []).filter(
+    lv => OVERRIDE_LAYER_PRECEDENCE[lv.kind] < OVERRIDE_LAYER_PRECEDENCE[kind],
+  );
+  return lower.length > 0 ? lower[lower.length - 1].value : entry.baseValue;
+}
+
+function layerTooltip(entry: DiffEntry): string {
+  return (entry.layerValues || [])
+    .map(lv => `${OVERRIDE_LAYER_LABELS[lv.kind]} ${lv.layerName}: ${formatValue(lv.value)}`)
+    .join('\n');
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // Component
 // ════════════════════════════════════════════════════════════════════════
@@ -298,21 +388,27 @@ interface Props {
   stateCode: string;
   stateName: string;
   baseConfig: Record<string, unknown>;
+  /** Show and edit one territory's layer within the state */
+  territory?: string;
   onPromote?: (path: string, newBaseConfig: Record<string, unknown>, affected: string[]) => void;
 }
 
 const StateDeviationsPanel: React.FC<Props> = ({
   orgId, productId, versionId, stateCode, stateName,
-  baseConfig, onPromote,
+  baseConfig, territory, onPromote,
 }) => {
-  const { diff, loading, groupedEntries } = useDeviationDiff({
-    orgId, productId, versionId, stateCode, stateName, baseConfig,
+  const editLayer: OverrideLayerKind = territory ? 'territory' : 'state';
+  const { diff, loading, groupedEntries, overrides } = useDeviationDiff({
+    orgId, productId, versionId, stateCode, stateName, baseConfig, territory,
   });
   const { errors: valErrors, hasConflicts, conflictCount } = useOverrideValidation({
     orgId, productId, versionId, stateCode, baseConfig,
   });
   const { setField, revertField, promoteField, actionLoading } = useOverrideActions({
-    orgId, productId, versionId, stateCode,
+    orgId, productId, versionId, stateCode, territory,
+  });
+  const { merge, decisions, decide, apply, applying } = useDeviationMerge({
+    orgId, productId, versionId, stateCode, stateName, baseConfig, overrides,
   });
 
   // Filter state
@@ -320,6 +416,11 @@ const StateDeviationsPanel: React.FC<Props> = ({
   const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
   const [editingPath, setEditingPath] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
+  const [showMerge, setShowMerge] = useState(false);
+  const [mergeEdits, setMergeEdits] = useState<Record<string, string>>({});
+  const [mergeError, setMergeError] = useState<string | null>(null);
+
+  const mergeEntries = useMemo(() => merge.entries.filter(e => e.status !== 'unchanged'), [merge]);
 
   // Toggle category collapse
   const toggleCategory = useCallback((cat: string) => {
@@ -360,12 +461,12 @@ const StateDeviationsPanel: React.FC<Props> = ({
     if (editValue === 'true') parsed = true;
     if (editValue === 'false') parsed = false;
 
-    await setField(entry.path, parsed, entry.baseValue, {
+    await setField(entry.path, parsed, valueBeneath(entry, editLayer), {
       fieldLabel: entry.fieldLabel,
       category: entry.category,
     });
     setEditingPath(null);
-  }, [editValue, setField]);
+  }, [editValue, editLayer, setField]);
 
   // Handle promote
   const handlePromote = useCallback(async (entry: DiffEntry) => {
@@ -373,16 +474,54 @@ const StateDeviationsPanel: React.FC<Props> = ({
     onPromote?.(entry.path, result.newBaseConfig, result.affectedStateCodes);
   }, [promoteField, baseConfig, onPromote]);
 
+  // Current choice for a merge path (explicit decision or the merge's own)
+  const choiceFor = useCallback((entry: MergeEntry): MergeResolution => (
+    decisions[entry.path]?.resolution ?? entry.resolution
+  ), [decisions]);
+
+  const chooseMerge = useCallback((entry: MergeEntry, resolution: MergeResolution) => {
+    if (resolution !== 'edit') {
+      decide(entry.path, { resolution });
+      return;
+    }
+    const text = mergeEdits[entry.path] ?? editText(entry.resolution === 'edit' ? entry.resolvedValue : entry.stateValue);
+    setMergeEdits(prev => ({ ...prev, [entry.path]: text }));
+    decide(entry.path, { resolution: 'edit', value: parseEditValue(text, entry.stateValue ?? entry.newBaseValue) });
+  }, [decide, mergeEdits]);
+
+  const changeMergeEdit = useCallback((entry: MergeEntry, text: string) => {
+    setMergeEdits(prev => ({ ...prev, [entry.path]: text }));
+    decide(entry.path, { resolution: 'edit', value: parseEditValue(text, entry.stateValue ?? entry.newBaseValue) });
+  }, [decide]);
+
+  const applyMerge = useCallback(async (allStates: boolean) => {
+    setMergeError(null);
+    try {
+      await apply(allStates);
+      setShowMerge(false);
+      setMergeEdits({});
+    } catch (err) {
+      console.error('Applying the merge failed:', err);
+      setMergeError(`Merge not applied: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [apply]);
+
   if (loading) return <EmptyState>Loading deviations…</EmptyState>;
 
   const overrideCount = diff?.overrideCount || 0;
   const totalEntries = diff?.entries.length || 0;
 
+  const mergeToggle = (
+    <SmallBtn $variant="accent" style={{ marginLeft: 'auto' }} onClick={() => setShowMerge(v => !v)}>
+      <ArrowsRightLeftIcon /> {showMerge ? 'Hide merge' : 'Merge base changes'}
+    </SmallBtn>
+  );
+
   return (
     <Panel>
       <PanelHeader>
         <PanelTitle>
-          State Deviations — {stateName} ({stateCode})
+          State Deviations — {stateName} ({stateCode}){territory && ` · Territory ${territory}`}
         </PanelTitle>
         <CountBadges>
           <Badge $variant="accent" $size="sm">{overrideCount} override{overrideCount !== 1 ? 's' : ''}</Badge>
@@ -393,12 +532,83 @@ const StateDeviationsPanel: React.FC<Props> = ({
         </CountBadges>
       </PanelHeader>
 
-      {hasConflicts && (
+      {hasConflicts ? (
         <ConflictBanner>
           <ShieldExclamationIcon />
           {conflictCount} override{conflictCount > 1 ? 's' : ''} conflict with base product changes.
           Review and resolve before publishing.
+          {mergeEntries.length > 0 && mergeToggle}
         </ConflictBanner>
+      ) : mergeEntries.length > 0 && (
+        <MergeBanner>
+          <ArrowsRightLeftIcon />
+          {mergeEntries.length} base product change{mergeEntries.length > 1 ? 's' : ''} can be merged into this state.
+          {mergeToggle}
+        </MergeBanner>
+      )}
+
+      {/* Three-way merge: old base × new base × state */}
+      {showMerge && mergeEntries.length > 0 && (
+        <>
+          <MergeHeaderRow $status="unchanged">
+            <div>Field</div>
+            <div>Old base</div>
+            <div>New base</div>
+            <div>State</div>
+            <div>Resolution</div>
+          </MergeHeaderRow>
+          {mergeEntries.map(entry => {
+            const choice = choiceFor(entry);
+            return (
+              <MergeRow key={entry.path} $status={entry.status}>
+                <div>
+                  <FieldLabel>
+                    {entry.fieldLabel}
+                    <Badge $variant={entry.status === 'conflict' ? 'error' : 'success'} $size="sm">
+                      {entry.status === 'conflict' ? 'Conflict' : 'Auto'}
+                    </Badge>
+                  </FieldLabel>
+                  <FieldPath>{entry.path}</FieldPath>
+                  <MergeReason>{entry.reason}</MergeReason>
+                </div>
+                <ValueCell $muted title={editText(entry.oldBaseValue)}>{formatValue(entry.oldBaseValue)}</ValueCell>
+                <ValueCell title={editText(entry.newBaseValue)}>{formatValue(entry.newBaseValue)}</ValueCell>
+                <ValueCell title={editText(entry.stateValue)}>{formatValue(entry.stateValue)}</ValueCell>
+                <div>
+                  <ActionGroup style={{ justifyContent: 'flex-start' }}>
+                    {(Object.keys(MERGE_RESOLUTION_LABELS) as MergeResolution[]).map(r => (
+                      <SmallBtn
+                        key={r}
+                        $variant={choice === r ? 'accent' : 'default'}
+                        onClick={() => chooseMerge(entry, r)}
+                        aria-pressed={choice === r}
+                      >
+                        {choice === r && <CheckIcon />} {MERGE_RESOLUTION_LABELS[r]}
+                      </SmallBtn>
+                    ))}
+                  </ActionGroup>
+                  {choice === 'edit' && (
+                    <EditInput
+                      style={{ marginTop: 4 }}
+                      value={mergeEdits[entry.path] ?? editText(entry.resolvedValue)}
+                      onChange={e => changeMergeEdit(entry, e.target.value)}
+                      aria-label={`Merged value for ${entry.fieldLabel}`}
+                    />
+                  )}
+                </div>
+              </MergeRow>
+            );
+          })}
+          <MergeFooter>
+            {mergeError && <MergeError role="alert">{mergeError}</MergeError>}
+            <SmallBtn onClick={() => applyMerge(true)} disabled={applying} title="Apply proposals to every state through the active change set">
+              Apply to all states
+            </SmallBtn>
+            <SmallBtn $variant="accent" onClick={() => applyMerge(false)} disabled={applying}>
+              <CheckIcon /> Apply to {stateCode}
+            </SmallBtn>
+          </MergeFooter>
+        </>
       )}
 
       {/* Filter chips */}
@@ -441,8 +651,15 @@ const StateDeviationsPanel: React.FC<Props> = ({
                     <Badge $variant={STATUS_BADGE[entry.status].variant} $size="sm">
                       {STATUS_BADGE[entry.status].label}
                     </Badge>
+                    {entry.sourceLayerKind && entry.sourceLayerKind !== editLayer && (
+                      <span title={layerTooltip(entry)}>
+                        <Badge $variant="neutral" $size="sm">
+                          {OVERRIDE_LAYER_LABELS[entry.sourceLayerKind]}: {entry.sourceLayerName}
+                        </Badge>
+                      </span>
+                    )}
                   </FieldLabel>
-                  <FieldPath>{entry.path}</FieldPath>
+                  <FieldPath title={layerTooltip(entry) || undefined}>{entry.path}</FieldPath>
                 </div>
 
                 {/* Base value */}
@@ -485,7 +702,7 @@ const StateDeviationsPanel: React.FC<Props> = ({
 
                 {/* Actions */}
                 <ActionGroup>
-                  {editingPath !== entry.path && (
+                  {editingPath !== entry.path && entry.status !== 'removed' && (
                     <SmallBtn
                       onClick={() => startEdit(entry)}
                       aria-label={`Edit ${entry.fieldLabel}`}
@@ -495,7 +712,7 @@ const StateDeviationsPanel: React.FC<Props> = ({
                     </SmallBtn>
                   )}
 
-                  {(entry.status === 'overridden' || entry.status === 'conflict' || entry.status === 'added') && (
+                  {entry.layerValues?.some(lv => lv.kind === editLayer) && (
                     <SmallBtn
                       $variant="danger"
                       onClick={() => revertField(entry.path)}
@@ -507,7 +724,7 @@ const StateDeviationsPanel: React.FC<Props> = ({
                     </SmallBtn>
                   )}
 
-                  {entry.status === 'overridden' && onPromote && (
+                  {entry.status === 'overridden' && entry.sourceLayerKind === 'state' && !territory && onPromote && (
                     <SmallBtn
                       $variant="accent"
                       onClick={() => handlePromote(entry)}
@@ -3,6 +3,7 @@
  *
  * Global ⌘K / Ctrl+K command palette with:
  *  - Cross-artifact search (type-ahead)
+ *  - Facet chips (type) and filters (product, state, status)
  *  - Quick actions (Create Change Set, Switch Change Set, etc.)
  *  - Grouped results with keyboard navigation
  *  - Deep-linking to any artifact
@@ -42,6 +43,11 @@ import {
   HashtagIcon,
   XMarkIcon,
   SparklesIcon,
+  BookOpenIcon,
+  VariableIcon,
+  PaperAirplaneIcon,
+  DocumentPlusIcon,
+  Square3Stack3DIcon,
 } from '@heroicons/react/24/outline';
 import {
   color, neutral, accent, semantic,
@@ -49,11 +55,13 @@ import {
   type as t, border as borderTokens,
   duration, easing, transition, z, focusRingStyle, reducedMotion,
 } from '@/ui/tokens';
-import { searchArtifacts, routeForResult } from '@/services/searchService';
+import { searchArtifactsFaceted, routeForResult } from '@/services/searchService';
 import { useRoleContext } from '@/context/RoleContext';
+import useProducts from '@/hooks/useProducts';
 import type {
   SearchResult,
   SearchableArtifactType,
+  SearchFacetCounts,
   CommandItem,
 } from '@/types/search';
 
@@ -235,6 +243,38 @@ const EmptyText = styled.div`
   font-size: ${t.bodySm.size};
 `;
 
+const FacetRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${space[1.5]};
+  flex-wrap: wrap;
+  padding: ${space[2]} ${space[5]};
+  border-bottom: ${borderTokens.default};
+`;
+
+const FacetChip = styled.button<{ $active: boolean }>`
+  padding: 1px ${space[2]};
+  font-family: ${fontFamily.sans};
+  font-size: 11px;
+  font-weight: 500;
+  border-radius: ${radius.full};
+  cursor: pointer;
+  color: ${({ $active }) => $active ? accent[700] : neutral[500]};
+  background: ${({ $active }) => $active ? accent[50] : 'transparent'};
+  border: 1px solid ${({ $active }) => $active ? accent[300] : neutral[200]};
+`;
+
+const FacetSelect = styled.select`
+  padding: 1px ${space[1.5]};
+  font-family: ${fontFamily.sans};
+  font-size: 11px;
+  color: ${neutral[600]};
+  background: ${color.bg};
+  border: 1px solid ${neutral[200]};
+  border-radius: ${radius.sm};
+  max-width: 140px;
+`;
+
 const TypeBadge = styled.span`
   font-size: 10px;
   font-weight: 600;
@@ -264,8 +304,22 @@ const TYPE_META: Record<
   changeset:    { icon: <ClipboardDocumentListIcon />, bg: '#f97316',          label: 'Change Set' },
   task:         { icon: <HashtagIcon />,              bg: neutral[600],        label: 'Task' },
   stateProgram: { icon: <MapPinIcon />,               bg: '#ec4899',           label: 'State' },
+  clause:       { icon: <BookOpenIcon />,             bg: '#6366f1',           label: 'Clause' },
+  dataDictionaryField: { icon: <VariableIcon />,      bg: neutral[500],        label: 'Data Field' },
+  scenario:     { icon: <BeakerIcon />,               bg: '#14b8a6',           label: 'QA Scenario' },
+  filingPackage:{ icon: <PaperAirplaneIcon />,        bg: '#0ea5e9',           label: 'Filing Package' },
+  endorsement:  { icon: <DocumentPlusIcon />,         bg: '#a855f7',           label: 'Endorsement' },
+  coverageTemplate: { icon: <Square3Stack3DIcon />,   bg: '#84cc16',           label: 'Coverage Template' },
 };
 
+type FacetFilter = { productId?: string; state?: string; status?: string };
+
+const EMPTY_FACETS: SearchFacetCounts = { type: {}, productId: {}, state: {}, status: {} };
+
+/** Facet values ordered by count, then name */
+const byCount = (counts: Record<string, number>) =>
+  Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
 // ════════════════════════════════════════════════════════════════════════
 // Quick actions
 // ════════════════════════════════════════════════════════════════════════
@@ -362,9 +416,13 @@ interface CommandPaletteProps {
 const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onClose }) => {
   const navigate = useNavigate();
   const { currentOrgId } = useRoleContext();
+  const { data: products } = useProducts();
 
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [facets, setFacets] = useState<SearchFacetCounts>(EMPTY_FACETS);
+  const [typeFilter, setTypeFilter] = useState<SearchableArtifactType[]>([]);
+  const [facetFilter, setFacetFilter] = useState<FacetFilter>({});
   const [loading, setLoading] = useState(false);
   const [activeIdx, setActiveIdx] = useState(0);
 
@@ -377,6 +435,9 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onClose }) => {
     if (open) {
       setQuery('');
       setResults([]);
+      setFacets(EMPTY_FACETS);
+      setTypeFilter([]);
+      setFacetFilter({});
       setActiveIdx(0);
       setTimeout(() => inputRef.current?.focus(), 50);
     }
@@ -405,6 +466,7 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onClose }) => {
 
     if (!query.trim()) {
       setResults([]);
+      setFacets(EMPTY_FACETS);
       setLoading(false);
       return;
     }
@@ -412,17 +474,36 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onClose }) => {
     setLoading(true);
     debounceRef.current = setTimeout(async () => {
       try {
-        const res = await searchArtifacts({ orgId: currentOrgId, query, limit: 20 });
-        setResults(res);
+        const res = await searchArtifactsFaceted({
+          orgId: currentOrgId, query, limit: 20, types: typeFilter, ...facetFilter,
+        });
+        setResults(res.results);
+        setFacets(res.facets);
       } catch {
         setResults([]);
+        setFacets(EMPTY_FACETS);
       } finally {
         setLoading(false);
       }
     }, 200);
 
     return () => { if (debounceRef.current) clearTimeout(debounceRef.current); };
-  }, [query, currentOrgId, open]);
+  }, [query, currentOrgId, open, typeFilter, facetFilter]);
+
+  const productNames = useMemo(
+    () => new Map(products.map(p => [p.id, p.name])),
+    [products],
+  );
+
+  const toggleType = (type: SearchableArtifactType) => {
+    setTypeFilter(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+    setActiveIdx(0);
+  };
+
+  const setFacet = (key: keyof FacetFilter, value: string) => {
+    setFacetFilter(prev => ({ ...prev, [key]: value || undefined }));
+    setActiveIdx(0);
+  };
 
   // ── Build flat item list (actions + results, grouped) ──
   const flatItems = useMemo((): PaletteItem[] => {
@@ -438,6 +519,40 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onClose }) => {
       items.push({ kind: 'action', data: a, idx: idx++ });
     }
 
+    // Full-text search over form wording, clauses and coverage descriptions
+    if (query.trim().length >= 3) {
+      items.push({
+        kind: 'action',
+        data: {
+          id: 'action-text-search',
+          label: `Search policy text for "${query.trim()}"`,
+          description: 'Form wording, clauses and coverage descriptions',
+          icon: <DocumentTextIcon />,
+          action: 'navigate',
+          route: `/search?q=${encodeURIComponent(query.trim())}&tab=text`,
+          group: 'Policy Text',
+        },
+        idx: idx++,
+      });
+    }
+
+    // Full results page with facets
+    if (query.trim() && results.length > 0) {
+      items.push({
+        kind: 'action',
+        data: {
+          id: 'action-all-results',
+          label: `See all results for "${query.trim()}"`,
+          description: 'Full results page with type, product, state and status filters',
+          icon: <MagnifyingGlassIcon />,
+          action: 'navigate',
+          route: `/search?q=${encodeURIComponent(query.trim())}`,
+          group: 'Policy Text',
+        },
+        idx: idx++,
+      });
+    }
+
     // Search results grouped by type
     const grouped = new Map<string, SearchResult[]>();
     for (const r of results) {
@@ -563,6 +678,43 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onClose }) => {
           <Kbd>esc</Kbd>
         </InputRow>
 
+        {/* ── Facets ── */}
+        {query.trim() && Object.keys(facets.type).length > 0 && (
+          <FacetRow aria-label="Filter results">
+            {(Object.keys(facets.type) as SearchableArtifactType[]).map(type => (
+              <FacetChip
+                key={type}
+                type="button"
+                $active={typeFilter.includes(type)}
+                aria-pressed={typeFilter.includes(type)}
+                onClick={() => toggleType(type)}
+              >
+                {TYPE_META[type]?.label || type} {facets.type[type]}
+              </FacetChip>
+            ))}
+            {Object.keys(facets.productId).length > 0 && (
+              <FacetSelect aria-label="Product" value={facetFilter.productId || ''} onChange={e => setFacet('productId', e.target.value)}>
+                <option value="">All products</option>
+                {byCount(facets.productId).map(([id, n]) => (
+                  <option key={id} value={id}>{productNames.get(id) || id} ({n})</option>
+                ))}
+              </FacetSelect>
+            )}
+            {Object.keys(facets.state).length > 0 && (
+              <FacetSelect aria-label="State" value={facetFilter.state || ''} onChange={e => setFacet('state', e.target.value)}>
+                <option value="">All states</option>
+                {byCount(facets.state).map(([code, n]) => <option key={code} value={code}>{code} ({n})</option>)}
+              </FacetSelect>
+            )}
+            {Object.keys(facets.status).length > 0 && (
+              <FacetSelect aria-label="Status" value={facetFilter.status || ''} onChange={e => setFacet('status', e.target.value)}>
+                <option value="">Any status</option>
+                {byCount(facets.status).map(([st, n]) => <option key={st} value={st}>{st.replace(/_/g, ' ')} ({n})</option>)}
+              </FacetSelect>
+            )}
+          </FacetRow>
+        )}
+
         {/* ── Results ── */}
         <ResultsArea ref={resultsRef}>
           {flatItems.length === 0 && !loading && query.trim() && (
@@ -570,7 +722,7 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onClose }) => {
           )}
 
           {flatItems.length === 0 && !query.trim() && !loading && (
-            <EmptyText>Type to search products, forms, rules, tables…</EmptyText>
+            <EmptyText>Type to search products, forms, clauses, rules, tables…</EmptyText>
           )}
 
           {flatItems.map((item, i) => {
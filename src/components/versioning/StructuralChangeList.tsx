@@ -0,0 +1,164 @@
+/**
+ * StructuralChangeList Component
+ * Shows a structural diff grouped by section: added/removed/moved elements,
+ * condition nodes and table cells, with before → after values
+ */
+
+import React from 'react';
+import styled from 'styled-components';
+import { ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import type { StructuralChange, StructuralChangeKind, StructuralDiff } from '@/types/structuralDiff';
+import { STRUCTURAL_CHANGE_KIND_CONFIG } from '@/types/structuralDiff';
+import { groupChangesBySection, formatStructuralValue, summarizeStructuralDiff } from '@/engine/structuralDiff';
+import { colors } from '@/components/common/DesignSystem';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface StructuralChangeListProps {
+  diff: StructuralDiff;
+  leftLabel?: string;
+  rightLabel?: string;
+  emptyText?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Before/after cells; moves show the group the node left and joined, reorders the key order */
+function valueCells(change: StructuralChange): [string, string] {
+  return [formatStructuralValue(change, change.before), formatStructuralValue(change, change.after)];
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const StructuralChangeList: React.FC<StructuralChangeListProps> = ({
+  diff,
+  leftLabel = 'Before',
+  rightLabel = 'After',
+  emptyText = 'No changes',
+}) => {
+  if (diff.isIdentical) {
+    return (
+      <EmptyState>
+        <ArrowsRightLeftIcon />
+        <span>{emptyText}</span>
+      </EmptyState>
+    );
+  }
+
+  return (
+    <Container>
+      <Summary>{summarizeStructuralDiff(diff)}</Summary>
+      <Table>
+        <thead>
+          <tr>
+            <Th style={{ width: 96 }}>Change</Th>
+            <Th>Item</Th>
+            <Th>{leftLabel}</Th>
+            <Th>{rightLabel}</Th>
+          </tr>
+        </thead>
+        {groupChangesBySection(diff.changes).map(group => (
+          <tbody key={group.section}>
+            <tr>
+              <SectionCell colSpan={4}>{group.section}</SectionCell>
+            </tr>
+            {group.changes.map(change => {
+              const [before, after] = valueCells(change);
+              return (
+                <tr key={`${change.kind}:${change.pathText}`}>
+                  <Td><KindPill $kind={change.kind}>{STRUCTURAL_CHANGE_KIND_CONFIG[change.kind].label}</KindPill></Td>
+                  <Td title={change.pathText}>{change.label}</Td>
+                  <ValueTd>{before}</ValueTd>
+                  <ValueTd>{after}</ValueTd>
+                </tr>
+              );
+            })}
+          </tbody>
+        ))}
+      </Table>
+    </Container>
+  );
+};
+
+// ============================================================================
+// Styled Components
+// ============================================================================
+
+const Container = styled.div`
+  overflow-x: auto;
+`;
+
+const EmptyState = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 16px;
+  color: ${colors.gray400};
+  font-size: 13px;
+
+  svg { width: 18px; height: 18px; }
+`;
+
+const Summary = styled.div`
+  padding: 8px 0 12px;
+  font-size: 13px;
+  color: ${colors.gray600};
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 13px;
+`;
+
+const Th = styled.th`
+  text-align: left;
+  padding: 8px 12px;
+  font-size: 11px;
+  font-weight: 600;
+  color: ${colors.gray500};
+  text-transform: uppercase;
+  letter-spacing: 0.5px;
+  border-bottom: 1px solid ${colors.gray200};
+`;
+
+const SectionCell = styled.td`
+  padding: 10px 12px 6px;
+  font-size: 12px;
+  font-weight: 600;
+  color: ${colors.gray700};
+  background: ${colors.gray50};
+`;
+
+const Td = styled.td`
+  padding: 8px 12px;
+  color: ${colors.gray700};
+  border-bottom: 1px solid ${colors.gray100};
+  vertical-align: top;
+`;
+
+const ValueTd = styled(Td)`
+  font-family: 'JetBrains Mono', 'Fira Code', monospace;
+  font-size: 12px;
+  color: ${colors.gray600};
+  white-space: pre-wrap;
+  word-break: break-word;
+`;
+
+const KindPill = styled.span<{ $kind: StructuralChangeKind }>`
+  display: inline-block;
+  padding: 2px 8px;
+  border-radius: 6px;
+  font-size: 11px;
+  font-weight: 600;
+  background: ${({ $kind }) => `${STRUCTURAL_CHANGE_KIND_CONFIG[$kind].color}15`};
+  color: ${({ $kind }) => STRUCTURAL_CHANGE_KIND_CONFIG[$kind].color};
+`;
+
+export default StructuralChangeList;
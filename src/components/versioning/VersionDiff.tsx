@@ -14,6 +14,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { VersionDiff as VersionDiffType, VersionComparisonResult } from '@/types/versioning';
 import { colors } from '@/components/common/DesignSystem';
+import StructuralChangeList from './StructuralChangeList';
 
 // ============================================================================
 // Types
@@ -95,7 +96,9 @@ const VersionDiff: React.FC<VersionDiffProps> = ({
         </ViewToggle>
       </Header>
 
-      {viewMode === 'fields' ? (
+      {viewMode === 'fields' && comparison.structural ? (
+        <StructuralChangeList diff={comparison.structural} leftLabel={leftLabel} rightLabel={rightLabel} />
+      ) : viewMode === 'fields' ? (
         <DiffList>
           <DiffHeader>
             <DiffHeaderCell>Field</DiffHeaderCell>
@@ -4,4 +4,5 @@
 
 export { default as VersionPicker } from './VersionPicker';
 export { default as VersionDiff } from './VersionDiff';
+export { default as StructuralChangeList } from './StructuralChangeList';
 
@@ -0,0 +1,394 @@
+/**
+ * Approval Policy Engine
+ *
+ * Evaluates an org's approval policy against a change set:
+ *   1. Build facts per item (artifact type, action, states) and for the
+ *      change set as a whole (types, states, premium impact)
+ *   2. Match each enabled rule — per item when it tests item facts,
+ *      once otherwise — and record why it matched
+ *   3. Merge matches by role into requirements (largest quorum wins)
+ *
+ * Also checks approver eligibility (role, self-approval, quorum and
+ * cross-requirement segregation) and reports progress against the
+ * approval slots created at submission.
+ *
+ * functions/src/api/approvalPolicy.js mirrors the evaluation and
+ * eligibility checks for the server-side workflow.
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import type {
+  ApprovalPolicy,
+  ApprovalPolicyRule,
+  ApprovalPolicyInput,
+  ApprovalCondition,
+  ApprovalConditionGroup,
+  ApprovalFact,
+  ApprovalReason,
+  ApprovalRequirement,
+  ApprovalRequirementProgress,
+  ApprovalEligibility,
+  ApprovalSegregation,
+} from '../types/approvalPolicy';
+import { APPROVAL_FACT_CONFIG, APPROVAL_POLICY_VERSION } from '../types/approvalPolicy';
+import type { ApprovalRoleRequired, ChangeSet, ChangeSetApproval, ChangeSetItem } from '../types/changeSet';
+import { APPROVAL_RULES } from '../types/changeSet';
+
+type FactValue = string | number | boolean | string[] | null | undefined;
+type Facts = Partial<Record<ApprovalFact, FactValue>>;
+
+const ROLES: ApprovalRoleRequired[] = ['actuary', 'compliance', 'underwriter', 'admin', 'product_manager'];
+
+export const APPROVAL_ROLE_LABELS: Record<ApprovalRoleRequired, string> = {
+  actuary: 'Actuary',
+  compliance: 'Compliance',
+  underwriter: 'Underwriter',
+  admin: 'Admin',
+  product_manager: 'Product Manager',
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// Default policy
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * The fixed APPROVAL_RULES table expressed as a policy: one rule per role
+ * matching the artifact types that role signs off on. Used when an org
+ * has not saved a policy of its own.
+ */
+export function defaultApprovalPolicy(): ApprovalPolicy {
+  const typesByRole = new Map<ApprovalRoleRequired, string[]>();
+  for (const [type, roles] of Object.entries(APPROVAL_RULES)) {
+    for (const role of roles) {
+      typesByRole.set(role, [...(typesByRole.get(role) || []), type]);
+    }
+  }
+
+  return {
+    version: APPROVAL_POLICY_VERSION,
+    rules: [...typesByRole.entries()].map(([role, types]) => ({
+      id: `default-${role}`,
+      name: `${APPROVAL_ROLE_LABELS[role]} sign-off`,
+      enabled: true,
+      when: { op: 'AND', conditions: [{ fact: 'item.artifactType', operator: 'in', value: types }] },
+      require: { role, quorum: 1 },
+    })),
+    priorApprovalStates: [],
+    segregation: { noSelfApproval: false, distinctApprovers: false },
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Validation
+// ════════════════════════════════════════════════════════════════════════
+
+const OPERATORS = new Set(['equals', 'notEquals', 'in', 'notIn', 'gt', 'gte', 'lt', 'lte', 'contains', 'exists', 'notExists']);
+
+function isGroup(node: ApprovalCondition | ApprovalConditionGroup): node is ApprovalConditionGroup {
+  return (node as ApprovalConditionGroup).conditions !== undefined;
+}
+
+function validateGroup(group: ApprovalConditionGroup, where: string, errors: string[]): void {
+  if (!group || !Array.isArray(group.conditions) || (group.op !== 'AND' && group.op !== 'OR')) {
+    errors.push(`${where}: "when" must be { op: "AND" | "OR", conditions: [...] }`);
+    return;
+  }
+  group.conditions.forEach((node, i) => {
+    if (isGroup(node)) { validateGroup(node, `${where} › group ${i + 1}`, errors); return; }
+    const cfg = APPROVAL_FACT_CONFIG[node.fact];
+    if (!cfg) { errors.push(`${where}: unknown fact "${node.fact}"`); return; }
+    if (!OPERATORS.has(node.operator)) { errors.push(`${where}: unknown operator "${node.operator}"`); return; }
+    const needsValue = node.operator !== 'exists' && node.operator !== 'notExists';
+    if (needsValue && node.value === undefined) errors.push(`${where}: ${node.fact} ${node.operator} needs a value`);
+    if ((node.operator === 'in' || node.operator === 'notIn') && !Array.isArray(node.value)) {
+      errors.push(`${where}: ${node.operator} needs a list value`);
+    }
+    if (['gt', 'gte', 'lt', 'lte'].includes(node.operator) && (cfg.kind !== 'number' || typeof node.value !== 'number')) {
+      errors.push(`${where}: ${node.operator} needs a numeric fact and value`);
+    }
+  });
+}
+
+/** Problems that would stop the policy from evaluating sensibly */
+export function validateApprovalPolicy(policy: ApprovalPolicy): string[] {
+  const errors: string[] = [];
+  if (!policy || !Array.isArray(policy.rules)) return ['Policy must have a "rules" list'];
+
+  const ids = new Set<string>();
+  policy.rules.forEach((rule, i) => {
+    const where = `Rule ${i + 1}${rule?.name ? ` (${rule.name})` : ''}`;
+    if (!rule?.id) errors.push(`${where}: missing id`);
+    else if (ids.has(rule.id)) errors.push(`${where}: duplicate id "${rule.id}"`);
+    else ids.add(rule.id);
+    if (!rule?.name) errors.push(`${where}: missing name`);
+    if (!rule?.require || !ROLES.includes(rule.require.role)) {
+      errors.push(`${where}: require.role must be one of ${ROLES.join(', ')}`);
+    }
+    const quorum = rule?.require?.quorum ?? 1;
+    if (!Number.isInteger(quorum) || quorum < 1) errors.push(`${where}: require.quorum must be a whole number ≥ 1`);
+    validateGroup(rule?.when, where, errors);
+  });
+
+  if (!Array.isArray(policy.priorApprovalStates)) errors.push('"priorApprovalStates" must be a list of state codes');
+  return errors;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Conditions
+// ════════════════════════════════════════════════════════════════════════
+
+function asList(value: FactValue): string[] | null {
+  return Array.isArray(value) ? value : null;
+}
+
+export function evaluateApprovalCondition(cond: ApprovalCondition, facts: Facts): boolean {
+  let actual = facts[cond.fact];
+  if (cond.fact === 'changeSet.premiumImpactPct' && typeof actual === 'number') actual = Math.abs(actual);
+  const expected = cond.value;
+  const missing = actual === null || actual === undefined;
+
+  switch (cond.operator) {
+    case 'exists': return !missing && !(Array.isArray(actual) && actual.length === 0);
+    case 'notExists': return missing || (Array.isArray(actual) && actual.length === 0);
+  }
+  if (missing) return cond.operator === 'notEquals' || cond.operator === 'notIn';
+
+  const list = asList(actual);
+  const values = Array.isArray(expected) ? expected : [expected];
+
+  switch (cond.operator) {
+    case 'equals': return list ? list.includes(expected as string) : actual === expected;
+    case 'notEquals': return list ? !list.includes(expected as string) : actual !== expected;
+    case 'in': return list ? list.some(v => values.includes(v)) : values.includes(actual as string);
+    case 'notIn': return list ? !list.some(v => values.includes(v)) : !values.includes(actual as string);
+    case 'contains': return list ? list.includes(expected as string) : String(actual).includes(String(expected));
+    case 'gt': return typeof actual === 'number' && actual > (expected as number);
+    case 'gte': return typeof actual === 'number' && actual >= (expected as number);
+    case 'lt': return typeof actual === 'number' && actual < (expected as number);
+    case 'lte': return typeof actual === 'number' && actual <= (expected as number);
+    default: return false;
+  }
+}
+
+export function evaluateApprovalGroup(group: ApprovalConditionGroup, facts: Facts): boolean {
+  const results = group.conditions.map(node =>
+    isGroup(node) ? evaluateApprovalGroup(node, facts) : evaluateApprovalCondition(node, facts));
+  return group.op === 'OR' ? results.some(Boolean) : results.every(Boolean);
+}
+
+/** Whether a rule tests any item-level fact (and so matches per item) */
+export function referencesItemFacts(group: ApprovalConditionGroup): boolean {
+  return group.conditions.some(node =>
+    isGroup(node) ? referencesItemFacts(node) : node.fact.startsWith('item.'));
+}
+
+const OPERATOR_TEXT: Record<string, string> = {
+  equals: 'is', notEquals: 'is not', in: 'is one of', notIn: 'is not one of',
+  gt: '>', gte: '≥', lt: '<', lte: '≤', contains: 'includes',
+};
+
+function describeCondition(cond: ApprovalCondition): string {
+  const cfg = APPROVAL_FACT_CONFIG[cond.fact];
+  const label = cfg?.label || cond.fact;
+  if (cond.operator === 'exists') return `${label} is set`;
+  if (cond.operator === 'notExists') return `${label} is not set`;
+  if (cfg?.kind === 'boolean' && cond.operator === 'equals') return cond.value ? label : `not (${label})`;
+  const value = Array.isArray(cond.value) ? cond.value.join(', ') : String(cond.value);
+  const suffix = cond.fact === 'changeSet.premiumImpactPct' ? '%' : '';
+  return `${label} ${OPERATOR_TEXT[cond.operator] || cond.operator} ${value}${suffix}`;
+}
+
+/** Render a condition group as a sentence fragment */
+export function describeApprovalGroup(group: ApprovalConditionGroup): string {
+  if (group.conditions.length === 0) return 'always';
+  const parts = group.conditions.map(node =>
+    isGroup(node) && node.conditions.length > 1 ? `(${describeApprovalGroup(node)})`
+      : isGroup(node) ? describeApprovalGroup(node) : describeCondition(node));
+  return parts.join(group.op === 'OR' ? ' or ' : ' and ');
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Evaluation
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * States an item touches: the state code of a state program item
+ * (artifactId `{productId}__{state}`), else the jurisdiction / states
+ * recorded on its version document.
+ */
+export function extractItemStates(
+  item: { artifactType: string; artifactId: string },
+  version: Record<string, unknown> | null | undefined,
+): string[] {
+  if (item.artifactType === 'stateProgram') {
+    const state = item.artifactId.split('__')[1];
+    return state ? [state] : [];
+  }
+  const data = (version?.data || {}) as Record<string, unknown>;
+  const lists = [version?.jurisdiction, version?.states, data.jurisdiction, data.states, data.availableStates];
+  return [...new Set(lists.filter(Array.isArray).flat().filter((s): s is string => typeof s === 'string'))].sort();
+}
+
+/** Largest absolute premium change across rate-impact exhibits, or null */
+export function maxPremiumImpactPct(exhibits: Array<{ summary?: { changePct?: number } }>): number | null {
+  const pcts = exhibits.map(e => e.summary?.changePct).filter((p): p is number => typeof p === 'number');
+  return pcts.length ? Math.max(...pcts.map(Math.abs)) : null;
+}
+
+function changeSetFacts(policy: ApprovalPolicy, input: ApprovalPolicyInput): Facts {
+  const prior = new Set(policy.priorApprovalStates || []);
+  const states = [...new Set(input.items.flatMap(i => i.states))].sort();
+  return {
+    'changeSet.itemCount': input.itemCount,
+    'changeSet.artifactTypes': [...new Set(input.items.map(i => i.artifactType))],
+    'changeSet.states': states,
+    'changeSet.priorApproval': states.some(s => prior.has(s)),
+    'changeSet.premiumImpactPct': input.premiumImpactPct,
+  };
+}
+
+function matchRule(
+  rule: ApprovalPolicyRule,
+  policy: ApprovalPolicy,
+  input: ApprovalPolicyInput,
+  csFacts: Facts,
+): ApprovalReason | null {
+  const prior = new Set(policy.priorApprovalStates || []);
+  const explanation = describeApprovalGroup(rule.when);
+  const reason = { ruleId: rule.id, ruleName: rule.name, explanation };
+
+  if (!referencesItemFacts(rule.when)) {
+    return evaluateApprovalGroup(rule.when, csFacts) ? { ...reason, itemIds: [], itemNames: [] } : null;
+  }
+
+  const matched = input.items.filter(item => evaluateApprovalGroup(rule.when, {
+    ...csFacts,
+    'item.artifactType': item.artifactType,
+    'item.action': item.action,
+    'item.states': item.states,
+    'item.priorApproval': item.states.some(s => prior.has(s)),
+  }));
+  if (matched.length === 0) return null;
+  return { ...reason, itemIds: matched.map(i => i.id), itemNames: matched.map(i => i.name) };
+}
+
+/**
+ * Evaluate the policy and return the merged approval requirements, in the
+ * order their first rule appears in the policy.
+ */
+export function evaluateApprovalPolicy(policy: ApprovalPolicy, input: ApprovalPolicyInput): ApprovalRequirement[] {
+  const csFacts = changeSetFacts(policy, input);
+  const byRole = new Map<ApprovalRoleRequired, ApprovalRequirement>();
+
+  for (const rule of policy.rules) {
+    if (!rule.enabled) continue;
+    const reason = matchRule(rule, policy, input, csFacts);
+    if (!reason) continue;
+
+    const role = rule.require.role;
+    const existing = byRole.get(role);
+    const quorum = Math.max(1, rule.require.quorum ?? 1);
+    const noSelfApproval = !!rule.require.noSelfApproval || policy.segregation?.noSelfApproval === true;
+    if (existing) {
+      existing.quorum = Math.max(existing.quorum, quorum);
+      existing.noSelfApproval = existing.noSelfApproval || noSelfApproval;
+      existing.reasons.push(reason);
+    } else {
+      byRole.set(role, { key: role, role, quorum, noSelfApproval, reasons: [reason] });
+    }
+  }
+
+  return [...byRole.values()];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Slots, progress and eligibility
+// ════════════════════════════════════════════════════════════════════════
+
+/** The requirement key an approval slot belongs to (legacy slots use the role) */
+export function approvalSlotKey(approval: ChangeSetApproval): string {
+  return approval.requirementKey || approval.roleRequired;
+}
+
+/**
+ * Rebuild requirements from the slots created at submission. Legacy
+ * slots (one per role, no quorum) become single-approver requirements.
+ */
+export function requirementsFromApprovals(approvals: ChangeSetApproval[]): ApprovalRequirement[] {
+  const byKey = new Map<string, ApprovalRequirement>();
+  const ordered = [...approvals].sort((a, b) => (a.slot ?? 1) - (b.slot ?? 1));
+  for (const a of ordered) {
+    const key = approvalSlotKey(a);
+    if (byKey.has(key)) continue;
+    byKey.set(key, {
+      key,
+      role: a.roleRequired,
+      quorum: a.quorum ?? approvals.filter(x => approvalSlotKey(x) === key).length,
+      noSelfApproval: !!a.noSelfApproval,
+      reasons: a.reasons || [],
+    });
+  }
+  return [...byKey.values()];
+}
+
+export function summarizeApprovalProgress(
+  requirements: ApprovalRequirement[],
+  approvals: ChangeSetApproval[],
+): ApprovalRequirementProgress[] {
+  return requirements.map(requirement => {
+    const slots = approvals.filter(a => approvalSlotKey(a) === requirement.key);
+    const approved = slots.filter(a => a.status === 'approved');
+    return {
+      requirement,
+      approvedCount: approved.length,
+      rejected: slots.some(a => a.status === 'rejected'),
+      approverUserIds: approved.map(a => a.approverUserId).filter((id): id is string => !!id),
+      approverNames: approved.map(a => a.approverName || a.approverUserId || '').filter(Boolean),
+      satisfied: approved.length >= requirement.quorum,
+    };
+  });
+}
+
+/** Everyone who authored the change set: owner, creator and item adders */
+export function changeSetAuthors(changeSet: Pick<ChangeSet, 'ownerUserId' | 'createdBy'>, items: Pick<ChangeSetItem, 'addedBy'>[]): string[] {
+  return [...new Set([changeSet.ownerUserId, changeSet.createdBy, ...items.map(i => i.addedBy)].filter(Boolean))];
+}
+
+/**
+ * Whether `userId` (holding `userRole` in the org) may approve one more
+ * slot of `requirement`. Admins may stand in for any role.
+ */
+export function checkApprovalEligibility(params: {
+  requirement: ApprovalRequirement;
+  approvals: ChangeSetApproval[];
+  userId: string;
+  userRole: string | null | undefined;
+  authorUserIds: string[];
+  segregation?: Partial<ApprovalSegregation>;
+}): ApprovalEligibility {
+  const { requirement, approvals, userId, userRole, authorUserIds, segregation } = params;
+  const approvedByUser = approvals.filter(a => a.status === 'approved' && a.approverUserId === userId);
+  const approvedCount = approvals.filter(a => approvalSlotKey(a) === requirement.key && a.status === 'approved').length;
+
+  if (approvedCount >= requirement.quorum) {
+    return { allowed: false, reason: 'This requirement already has its approvals' };
+  }
+  if (userRole !== requirement.role && userRole !== 'admin') {
+    return { allowed: false, reason: `Requires the ${APPROVAL_ROLE_LABELS[requirement.role]} role` };
+  }
+  if ((requirement.noSelfApproval || segregation?.noSelfApproval) && authorUserIds.includes(userId)) {
+    return { allowed: false, reason: 'Authors of this change set cannot approve it' };
+  }
+  if (approvedByUser.some(a => approvalSlotKey(a) === requirement.key)) {
+    return { allowed: false, reason: `Needs ${requirement.quorum} different approvers; you have already approved` };
+  }
+  const other = approvedByUser.find(a => approvalSlotKey(a) !== requirement.key);
+  if (segregation?.distinctApprovers && other) {
+    return {
+      allowed: false,
+      reason: `You already approved as ${APPROVAL_ROLE_LABELS[other.roleRequired] || other.roleRequired}; each requirement needs a different approver`,
+    };
+  }
+  return { allowed: true };
+}
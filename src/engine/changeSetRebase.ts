@@ -0,0 +1,217 @@
+/**
+ * Change Set Conflict & Rebase Engine
+ *
+ * Detects overlapping change sets and drafts branched from a superseded
+ * published version, and plans a three-way rebase:
+ *   1. Diff base → draft ("ours") and base → latest published ("theirs")
+ *      with the structural diff for the artifact's entity type
+ *   2. Start from theirs and re-apply each of our changes
+ *   3. A change whose path overlaps one of theirs is a conflict unless
+ *      both sides ended up with the same value
+ *
+ * Paths are structural paths (`limits.perOccurrence`, `steps[s2].factorValue`),
+ * so edits to different rating steps or conditions do not conflict.
+ * functions/src/api/changeSet.js mirrors the detection half.
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import { mergeThreeWay, resolveMerge, unresolvedMergeConflicts } from './structuralDiff';
+import type { VersionedEntityType } from '../types/versioning';
+import { STRUCTURAL_DIFF_METADATA_FIELDS, STRUCTURAL_DIFF_SCHEMAS } from '../types/structuralDiff';
+import type { ChangeSet, ChangeSetItem, ChangeSetStatus } from '../types/changeSet';
+import type {
+  VersionRef,
+  StaleBaseResult,
+  ChangeSetOverlap,
+  RebasePlan,
+  RebaseFieldConflict,
+  RebaseResolution,
+} from '../types/changeSetConflict';
+
+/** Change sets whose items have not been published or abandoned */
+export const OPEN_CHANGESET_STATUSES: ChangeSetStatus[] = ['draft', 'ready_for_review', 'approved', 'filed'];
+
+// ════════════════════════════════════════════════════════════════════════
+// Detection
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Whether `draft` was branched from something other than the latest
+ * published version of its artifact. Drafts without a recorded
+ * `clonedFromVersionId` are assumed to branch from the newest published
+ * version numbered below them.
+ */
+export function findStaleBase(draft: VersionRef, versions: VersionRef[]): StaleBaseResult {
+  const published = versions
+    .filter(v => v.id !== draft.id && v.status === 'published')
+    .sort((a, b) => b.versionNumber - a.versionNumber);
+  const latest = published[0] ?? null;
+
+  const baseInferred = !draft.clonedFromVersionId;
+  const base = baseInferred
+    ? published.find(v => v.versionNumber < draft.versionNumber) ?? null
+    : versions.find(v => v.id === draft.clonedFromVersionId) ?? null;
+  const baseVersionId = draft.clonedFromVersionId ?? base?.id ?? null;
+
+  return {
+    stale: draft.status !== 'published' && latest !== null && latest.id !== baseVersionId,
+    baseVersionId,
+    baseVersionNumber: base?.versionNumber ?? null,
+    baseInferred,
+    latestPublishedVersionId: latest?.id ?? null,
+    latestPublishedVersionNumber: latest?.versionNumber ?? null,
+  };
+}
+
+/** Items of this change set that other open change sets also hold */
+export function findChangeSetOverlaps(
+  items: ChangeSetItem[],
+  others: Array<{ changeSet: Pick<ChangeSet, 'id' | 'name' | 'status'>; items: ChangeSetItem[] }>,
+): ChangeSetOverlap[] {
+  const overlaps: ChangeSetOverlap[] = [];
+  for (const item of items) {
+    for (const other of others) {
+      if (!OPEN_CHANGESET_STATUSES.includes(other.changeSet.status)) continue;
+      const match = other.items.find(o => o.artifactType === item.artifactType && o.artifactId === item.artifactId);
+      if (!match) continue;
+      overlaps.push({
+        itemId: item.id,
+        artifactType: item.artifactType,
+        artifactId: item.artifactId,
+        ...(item.artifactName ? { artifactName: item.artifactName } : {}),
+        versionId: item.versionId,
+        otherChangeSetId: other.changeSet.id,
+        otherChangeSetName: other.changeSet.name,
+        otherChangeSetStatus: other.changeSet.status,
+        otherVersionId: match.versionId,
+        sameVersion: match.versionId === item.versionId,
+      });
+    }
+  }
+  return overlaps;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Path helpers
+// ════════════════════════════════════════════════════════════════════════
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/** Clone plain objects and arrays; keep other values (e.g. Timestamps) by reference */
+function clonePlain<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clonePlain) as unknown as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clonePlain(v)])) as T;
+  }
+  return value;
+}
+
+export function getAtPath(obj: Record<string, unknown>, path: string): unknown {
+  let node: unknown = obj;
+  for (const key of path.split('.')) {
+    if (typeof node !== 'object' || node === null) return undefined;
+    node = (node as Record<string, unknown>)[key];
+  }
+  return node;
+}
+
+/** Set (or delete, when `value` is undefined) the value at `path`, creating parents */
+export function setAtPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = obj;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(node[key])) {
+      if (value === undefined) return;
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+  const last = keys[keys.length - 1];
+  if (value === undefined) delete node[last];
+  else node[last] = clonePlain(value);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Rebase
+// ════════════════════════════════════════════════════════════════════════
+
+/** Re-apply the draft's changes (base → ours) onto the latest published data (theirs) */
+export function planRebase(params: {
+  baseVersionId: string;
+  targetVersionId: string;
+  /** Selects the diff schema; omit to compare without one */
+  entityType?: VersionedEntityType;
+  base: Record<string, unknown>;
+  ours: Record<string, unknown>;
+  theirs: Record<string, unknown>;
+}): RebasePlan {
+  const merge = mergeThreeWay(params.entityType ?? null, params.base, params.ours, params.theirs);
+
+  return {
+    baseVersionId: params.baseVersionId,
+    targetVersionId: params.targetVersionId,
+    mergedData: merge.merged,
+    appliedPaths: merge.applied.map(c => c.pathText),
+    redundantPaths: merge.redundant.map(c => c.pathText),
+    conflicts: merge.conflicts.map(({ path, label, baseValue, oursValue, theirsValue }) => ({
+      path, label, baseValue, oursValue, theirsValue,
+    })),
+    merge,
+  };
+}
+
+/** Conflict paths that have no resolution yet */
+export function unresolvedRebaseConflicts(
+  plan: RebasePlan,
+  resolutions: Record<string, RebaseResolution>,
+): string[] {
+  return unresolvedMergeConflicts(plan.merge, resolutions);
+}
+
+/**
+ * The rebased draft data: the merged data with each conflict taking our
+ * value or keeping theirs. Throws if any conflict is unresolved.
+ */
+export function applyRebaseResolutions(
+  plan: RebasePlan,
+  resolutions: Record<string, RebaseResolution>,
+): Record<string, unknown> {
+  const unresolved = unresolvedRebaseConflicts(plan, resolutions);
+  if (unresolved.length > 0) {
+    throw new Error(`Resolve every conflict before rebasing: ${unresolved.join(', ')}`);
+  }
+  return resolveMerge(plan.merge, resolutions);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Write-back
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Fields to write back to a draft's version document after a rebase.
+ * Versions that keep their payload under `data` get it replaced; rules,
+ * tables and rate programs keep their fields top-level, so merged fields
+ * are set and fields the merge dropped are removed. Version metadata,
+ * fields the diff schema ignores and rate program steps (a subcollection
+ * written separately) are left alone.
+ */
+export function rebasedVersionFields(
+  entityType: VersionedEntityType,
+  current: Record<string, unknown>,
+  content: Record<string, unknown>,
+): { set: Record<string, unknown>; remove: string[] } {
+  const { data } = current;
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    return { set: { data: content }, remove: [] };
+  }
+
+  const ignored = (STRUCTURAL_DIFF_SCHEMAS[entityType].ignore ?? []).filter(f => !f.includes('.'));
+  const untouched = new Set([...STRUCTURAL_DIFF_METADATA_FIELDS, ...ignored, ...(entityType === 'rateProgram' ? ['steps'] : [])]);
+  const set = Object.fromEntries(Object.entries(content).filter(([k]) => !untouched.has(k)));
+  const remove = Object.keys(current).filter(k => !untouched.has(k) && !(k in content));
+  return { set, remove };
+}
@@ -0,0 +1,155 @@
+/**
+ * Change Set Revert Engine
+ *
+ * Plans the reversal of a published change set: for each item, find the
+ * version that was live before the change set published it, and build the
+ * payload of a new draft that restores it.
+ *
+ * "Before" is judged by publish time, falling back to version number for
+ * versions published before publishedAt was recorded. Versions archived
+ * after being published still count as previously live.
+ *
+ * functions/src/api/changeSet.js mirrors this module for revertChangeSet.
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import type { ChangeSet, ChangeSetItem } from '../types/changeSet';
+import type {
+  RevertVersionRef,
+  RevertItemPlan,
+  ChangeSetRevertPlan,
+  RevertSkipReason,
+} from '../types/changeSetRevert';
+import { REVERT_SKIP_REASON_LABELS } from '../types/changeSetRevert';
+
+/** Version fields that describe the old version rather than its content */
+export const REVERT_METADATA_FIELDS = [
+  'id', 'versionNumber', 'status',
+  'createdAt', 'createdBy', 'updatedAt', 'updatedBy',
+  'publishedAt', 'publishedBy',
+  'summary', 'notes',
+  'clonedFrom', 'clonedFromVersionId', 'restoredFromVersionId',
+];
+
+// ════════════════════════════════════════════════════════════════════════
+// Targets
+// ════════════════════════════════════════════════════════════════════════
+
+const wasPublished = (v: RevertVersionRef) => v.status === 'published' || v.publishedAtMs !== null;
+
+/** Newest first by publish time, then version number */
+function byPublishOrder(a: RevertVersionRef, b: RevertVersionRef): number {
+  if (a.publishedAtMs !== null && b.publishedAtMs !== null && a.publishedAtMs !== b.publishedAtMs) {
+    return b.publishedAtMs - a.publishedAtMs;
+  }
+  return b.versionNumber - a.versionNumber;
+}
+
+/**
+ * The version to restore when reverting the publish of `publishedVersionId`,
+ * or why there is none.
+ */
+export function findRevertTarget(
+  publishedVersionId: string,
+  versions: RevertVersionRef[],
+): { restore: RevertVersionRef | null; skipReason?: RevertSkipReason; skipDetail?: string } {
+  const current = versions.find(v => v.id === publishedVersionId);
+  if (!current || !wasPublished(current)) return { restore: null, skipReason: 'not_published' };
+
+  const published = versions.filter(wasPublished).sort(byPublishOrder);
+  const latest = published.find(v => v.status === 'published') ?? published[0];
+  if (latest.id !== current.id) {
+    return { restore: null, skipReason: 'superseded', skipDetail: `v${latest.versionNumber}` };
+  }
+
+  const currentIndex = published.indexOf(current);
+  const prior = published.slice(currentIndex + 1)[0] ?? null;
+  if (!prior) return { restore: null, skipReason: 'first_version' };
+  return { restore: prior };
+}
+
+/**
+ * Plan every item. `versionsByItemId` holds each item's version history;
+ * a missing entry means the artifact type is not versioned.
+ */
+export function planChangeSetRevert(
+  items: ChangeSetItem[],
+  versionsByItemId: Record<string, RevertVersionRef[] | undefined>,
+): ChangeSetRevertPlan {
+  const planned: RevertItemPlan[] = items.map(item => {
+    const base = {
+      itemId: item.id,
+      artifactType: item.artifactType,
+      artifactId: item.artifactId,
+      ...(item.artifactName ? { artifactName: item.artifactName } : {}),
+      publishedVersionId: item.versionId,
+    };
+    const versions = versionsByItemId[item.id];
+    if (!versions) return { ...base, restore: null, skipReason: 'not_versioned' as const };
+
+    const { restore, skipReason, skipDetail } = findRevertTarget(item.versionId, versions);
+    return {
+      ...base,
+      restore,
+      ...(skipReason ? { skipReason } : {}),
+      ...(skipDetail ? { skipDetail } : {}),
+    };
+  });
+
+  return {
+    items: planned,
+    restorable: planned.filter(p => p.restore),
+    skipped: planned.filter(p => !p.restore),
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Output
+// ════════════════════════════════════════════════════════════════════════
+
+/** Content of a version with its own metadata removed, ready to become a new draft */
+export function revertVersionPayload(source: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(source).filter(([key]) => !REVERT_METADATA_FIELDS.includes(key)));
+}
+
+/** Version subcollections that hold part of the content, by artifact type */
+export const REVERT_VERSION_SUBCOLLECTIONS: Partial<Record<string, string[]>> = {
+  rateProgram: ['steps'],
+};
+
+/**
+ * A subcollection document of the restored version, pointed at the new
+ * draft. It keeps its document ID so the draft diffs cleanly against the
+ * version it restores.
+ */
+export function revertSubcollectionPayload(
+  artifactType: string,
+  source: Record<string, unknown>,
+  versionId: string,
+): Record<string, unknown> {
+  const content = Object.fromEntries(Object.entries(source).filter(([key]) => key !== 'id'));
+  return artifactType === 'rateProgram' ? { ...content, rateProgramVersionId: versionId } : content;
+}
+
+export function revertChangeSetName(original: Pick<ChangeSet, 'name'>): string {
+  return `Revert: ${original.name}`;
+}
+
+export function describeSkippedItem(item: Pick<RevertItemPlan, 'artifactName' | 'artifactId' | 'skipReason' | 'skipDetail'>): string {
+  const label = REVERT_SKIP_REASON_LABELS[item.skipReason ?? 'not_published'];
+  return `${item.artifactName || item.artifactId} ${label}${item.skipDetail ? ` (${item.skipDetail})` : ''}`;
+}
+
+/** Description of the revert change set: what it restores and what it leaves alone */
+export function describeRevertPlan(original: Pick<ChangeSet, 'name'>, plan: ChangeSetRevertPlan): string {
+  const lines = [`Reverts "${original.name}".`];
+  for (const item of plan.restorable) {
+    lines.push(`- ${item.artifactName || item.artifactId}: restore v${item.restore!.versionNumber}`);
+  }
+  if (plan.skipped.length > 0) {
+    lines.push('Not reverted:');
+    for (const item of plan.skipped) lines.push(`- ${describeSkippedItem(item)}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,367 @@
+/**
+ * Clause Harvest Engine
+ *
+ * Clusters near-identical section wording across the form library:
+ *   1. Each section becomes a set of hashed word shingles (k consecutive
+ *      normalised words), so punctuation, case and spacing do not matter
+ *   2. A MinHash signature estimates Jaccard similarity between sets;
+ *      LSH banding turns signatures into candidate pairs without comparing
+ *      every section with every other
+ *   3. Candidates are confirmed with the exact Jaccard similarity and
+ *      joined with union-find
+ *   4. Each cluster groups its occurrences into distinct wordings
+ *      (variants) and proposes the most common wording as canonical
+ *
+ * Hash functions are seeded with fixed constants, so a run over the same
+ * library always produces the same clusters and cluster IDs.
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import { createHash } from './hashUtils';
+import { normalizedWords } from './wordDiff';
+import type {
+  ClauseCluster, ClauseHarvestOptions, ClauseOccurrence, ClauseVariant,
+  ExistingClauseText, HarvestSection,
+} from '../types/clauseHarvest';
+import { DEFAULT_CLAUSE_HARVEST_OPTIONS } from '../types/clauseHarvest';
+import type { ClauseType } from '../types/clause';
+import type { FormIngestionChunk, FormIngestionSection, FormSectionType } from '../types/ingestion';
+
+// ════════════════════════════════════════════════════════════════════════
+// Shingles and MinHash
+// ════════════════════════════════════════════════════════════════════════
+
+/** FNV-1a, 32-bit */
+function fnv1a(text: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** MurmurHash3 finaliser: a fast, well-mixed 32-bit permutation */
+function fmix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85EBCA6B);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xC2B2AE35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const seedCache = new Map<number, Uint32Array>();
+
+/** Fixed per-position seeds, one per MinHash function */
+function seeds(count: number): Uint32Array {
+  let out = seedCache.get(count);
+  if (!out) {
+    out = new Uint32Array(count);
+    for (let i = 0; i < count; i++) out[i] = fmix32(0x9E3779B9 + Math.imul(i + 1, 0x632BE5AB));
+    seedCache.set(count, out);
+  }
+  return out;
+}
+
+/** Hashed k-word shingles; texts shorter than k are one shingle */
+export function shingleSet(text: string, k = DEFAULT_CLAUSE_HARVEST_OPTIONS.shingleSize): Set<number> {
+  const words = normalizedWords(text);
+  const out = new Set<number>();
+  if (words.length === 0) return out;
+  if (words.length <= k) {
+    out.add(fnv1a(words.join(' ')));
+    return out;
+  }
+  for (let i = 0; i + k <= words.length; i++) out.add(fnv1a(words.slice(i, i + k).join(' ')));
+  return out;
+}
+
+/** Exact Jaccard similarity of two shingle sets */
+export function jaccard(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const x of small) if (large.has(x)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/** MinHash signature: the minimum of each seeded hash over the set */
+export function minhashSignature(shingles: Set<number>, numHashes: number): Uint32Array {
+  const s = seeds(numHashes);
+  const sig = new Uint32Array(numHashes).fill(0xFFFFFFFF);
+  for (const x of shingles) {
+    for (let i = 0; i < numHashes; i++) {
+      const h = fmix32(x ^ s[i]);
+      if (h < sig[i]) sig[i] = h;
+    }
+  }
+  return sig;
+}
+
+/**
+ * Index pairs sharing at least one LSH band. Pairs are returned once,
+ * lower index first.
+ */
+export function lshCandidatePairs(signatures: Uint32Array[], bands: number): [number, number][] {
+  if (signatures.length === 0) return [];
+  const rows = signatures[0].length / bands;
+  if (!Number.isInteger(rows)) throw new Error(`numHashes (${signatures[0].length}) must be a multiple of bands (${bands})`);
+
+  const seen = new Set<string>();
+  const pairs: [number, number][] = [];
+  for (let band = 0; band < bands; band++) {
+    const buckets = new Map<string, number[]>();
+    signatures.forEach((sig, i) => {
+      const key = Array.from(sig.subarray(band * rows, (band + 1) * rows)).join(',');
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i); else buckets.set(key, [i]);
+    });
+    for (const bucket of buckets.values()) {
+      for (let a = 0; a < bucket.length; a++) {
+        for (let b = a + 1; b < bucket.length; b++) {
+          const id = `${bucket[a]}:${bucket[b]}`;
+          if (!seen.has(id)) { seen.add(id); pairs.push([bucket[a], bucket[b]]); }
+        }
+      }
+    }
+  }
+  return pairs;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Harvest input
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Turn one form version's ingested sections into harvest input. Section
+ * text is the text of its chunks (referenced as `chunk-{index}`) in order.
+ */
+export function toHarvestSections(
+  version: { formId: string; formNumber: string; formVersionId: string; editionDate: string },
+  sections: FormIngestionSection[],
+  chunks: Pick<FormIngestionChunk, 'index' | 'text'>[],
+): HarvestSection[] {
+  const textByRef = new Map(chunks.map(c => [`chunk-${c.index}`, c.text]));
+  return sections
+    .map(section => ({
+      key: `${version.formVersionId}:${section.id}`,
+      ...version,
+      sectionId: section.id,
+      sectionPath: section.path,
+      sectionTitle: section.title,
+      sectionType: section.type,
+      pageRefs: section.pageRefs ?? [],
+      ...(section.anchors?.[0] && { anchor: section.anchors[0] }),
+      text: section.chunkIds.map(id => textByRef.get(id) ?? '').join('\n\n').trim(),
+    }))
+    .filter(s => s.text.length > 0);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Cluster construction
+// ════════════════════════════════════════════════════════════════════════
+
+const CLAUSE_TYPE_BY_SECTION: Record<FormSectionType, ClauseType> = {
+  coverage: 'coverage',
+  insuring_agreement: 'coverage',
+  exclusion: 'exclusion',
+  condition: 'condition',
+  definition: 'definition',
+  endorsement: 'endorsement',
+  schedule: 'schedule',
+  declarations: 'schedule',
+  limits: 'schedule',
+  deductibles: 'schedule',
+  general: 'other',
+};
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0] ?? '';
+}
+
+function toOccurrence(section: HarvestSection): ClauseOccurrence {
+  const { text: _text, ...occurrence } = section;
+  return occurrence;
+}
+
+/**
+ * Build a cluster from its member sections: group them into variants,
+ * pick the canonical wording (most occurrences, then the most central,
+ * then the lowest hash) and derive the proposal.
+ */
+export function buildCluster(
+  sections: HarvestSection[],
+  options: Pick<ClauseHarvestOptions, 'shingleSize'> = DEFAULT_CLAUSE_HARVEST_OPTIONS,
+): ClauseCluster {
+  const byHash = new Map<string, { text: string; keys: string[] }>();
+  for (const s of sections) {
+    const text = normalizeText(s.text);
+    const hash = createHash(text);
+    const entry = byHash.get(hash);
+    if (entry) entry.keys.push(s.key); else byHash.set(hash, { text, keys: [s.key] });
+  }
+
+  const variants = [...byHash.entries()].map(([textHash, v]) => ({
+    textHash, text: v.text, keys: v.keys.sort(), shingles: shingleSet(v.text, options.shingleSize),
+  }));
+  const centrality = variants.map(v =>
+    variants.reduce((sum, o) => sum + (o === v ? 0 : jaccard(v.shingles, o.shingles) * o.keys.length), 0));
+  const order = variants
+    .map((v, i) => ({ v, i }))
+    .sort((a, b) =>
+      b.v.keys.length - a.v.keys.length ||
+      centrality[b.i] - centrality[a.i] ||
+      a.v.textHash.localeCompare(b.v.textHash));
+  const canonical = order[0].v;
+
+  const clauseVariants: ClauseVariant[] = order.map(({ v }) => ({
+    textHash: v.textHash,
+    text: v.text,
+    occurrenceKeys: v.keys,
+    similarity: v === canonical ? 1 : Math.round(jaccard(v.shingles, canonical.shingles) * 1000) / 1000,
+    isCanonical: v === canonical,
+  }));
+
+  const occurrences = sections
+    .map(toOccurrence)
+    .sort((a, b) => a.formNumber.localeCompare(b.formNumber) || a.key.localeCompare(b.key));
+  const canonicalOccurrences = sections.filter(s => canonical.keys.includes(s.key));
+  const sectionType = mostCommon(sections.map(s => s.sectionType)) as FormSectionType;
+
+  return {
+    id: `cluster-${createHash(occurrences.map(o => o.key).sort())}`,
+    status: 'proposed',
+    proposedName: mostCommon(canonicalOccurrences.map(s => s.sectionTitle.trim())) || 'Untitled clause',
+    proposedType: CLAUSE_TYPE_BY_SECTION[sectionType] ?? 'other',
+    proposedTags: [...new Set(occurrences.map(o => o.formNumber).filter(Boolean))].sort().slice(0, 10),
+    canonicalText: canonical.text,
+    canonicalTextHash: canonical.textHash,
+    occurrences,
+    variants: clauseVariants,
+    formCount: new Set(occurrences.map(o => o.formId)).size,
+    minSimilarity: Math.min(...clauseVariants.map(v => v.similarity)),
+  };
+}
+
+/** Union-find with path halving */
+function makeUnionFind(size: number) {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) { parent[i] = parent[parent[i]]; i = parent[i]; }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+  return { find, union };
+}
+
+/**
+ * Cluster sections by near-identical wording. Returns clusters with at
+ * least `minOccurrences` members, largest first.
+ */
+export function harvestClauses(
+  sections: HarvestSection[],
+  overrides: Partial<ClauseHarvestOptions> = {},
+): ClauseCluster[] {
+  const options = { ...DEFAULT_CLAUSE_HARVEST_OPTIONS, ...overrides };
+  const eligible = sections.filter(s => normalizedWords(s.text).length >= options.minWords);
+
+  const shingles = eligible.map(s => shingleSet(s.text, options.shingleSize));
+  const signatures = shingles.map(s => minhashSignature(s, options.numHashes));
+
+  const uf = makeUnionFind(eligible.length);
+  for (const [a, b] of lshCandidatePairs(signatures, options.bands)) {
+    if (jaccard(shingles[a], shingles[b]) >= options.threshold) uf.union(a, b);
+  }
+
+  const groups = new Map<number, HarvestSection[]>();
+  eligible.forEach((s, i) => {
+    const root = uf.find(i);
+    const group = groups.get(root);
+    if (group) group.push(s); else groups.set(root, [s]);
+  });
+
+  return [...groups.values()]
+    .filter(g => g.length >= options.minOccurrences)
+    .map(g => buildCluster(g, options))
+    .sort((a, b) => b.occurrences.length - a.occurrences.length || a.id.localeCompare(b.id));
+}
+
+/**
+ * Point clusters at existing library clauses with matching wording, so
+ * accepting them links occurrences instead of creating a duplicate clause.
+ */
+export function matchExistingClauses(
+  clusters: ClauseCluster[],
+  existing: ExistingClauseText[],
+  overrides: Partial<ClauseHarvestOptions> = {},
+): ClauseCluster[] {
+  const options = { ...DEFAULT_CLAUSE_HARVEST_OPTIONS, ...overrides };
+  const library = existing.map(e => ({ ...e, shingles: shingleSet(e.text, options.shingleSize) }));
+
+  return clusters.map(cluster => {
+    const shingles = shingleSet(cluster.canonicalText, options.shingleSize);
+    let best: { clauseId: string; clauseName: string; similarity: number } | null = null;
+    for (const e of library) {
+      const similarity = jaccard(shingles, e.shingles);
+      if (similarity >= options.threshold && (!best || similarity > best.similarity)) {
+        best = { clauseId: e.clauseId, clauseName: e.clauseName, similarity };
+      }
+    }
+    if (!best) return cluster;
+    return {
+      ...cluster,
+      existingClauseId: best.clauseId,
+      existingClauseName: best.clauseName,
+      existingSimilarity: Math.round(best.similarity * 1000) / 1000,
+    };
+  });
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Librarian edits
+// ════════════════════════════════════════════════════════════════════════
+
+/** Rebuild the member sections of a cluster from its variants */
+export function clusterSections(cluster: ClauseCluster): HarvestSection[] {
+  const textByKey = new Map<string, string>();
+  for (const v of cluster.variants) for (const k of v.occurrenceKeys) textByKey.set(k, v.text);
+  return cluster.occurrences.map(o => ({ ...o, text: textByKey.get(o.key) ?? '' }));
+}
+
+/** Merge clusters into one, recomputing the canonical wording */
+export function mergeClusters(
+  clusters: ClauseCluster[],
+  options?: Pick<ClauseHarvestOptions, 'shingleSize'>,
+): ClauseCluster {
+  if (clusters.length === 0) throw new Error('Nothing to merge');
+  const seen = new Set<string>();
+  const sections = clusters.flatMap(clusterSections).filter(s => !seen.has(s.key) && seen.add(s.key));
+  return buildCluster(sections, options);
+}
+
+/**
+ * Move the given occurrences out into a cluster of their own. Returns
+ * [remaining, split]; throws when either side would be empty.
+ */
+export function splitCluster(
+  cluster: ClauseCluster,
+  occurrenceKeys: string[],
+  options?: Pick<ClauseHarvestOptions, 'shingleSize'>,
+): [ClauseCluster, ClauseCluster] {
+  const moving = new Set(occurrenceKeys);
+  const sections = clusterSections(cluster);
+  const split = sections.filter(s => moving.has(s.key));
+  const rest = sections.filter(s => !moving.has(s.key));
+  if (split.length === 0 || rest.length === 0) throw new Error('A split must leave occurrences on both sides');
+  return [buildCluster(rest, options), buildCluster(split, options)];
+}
@@ -5,12 +5,17 @@
  * No Firestore deps — receives plain objects, returns plain results.
  *
  * Core operations:
- *  1. getNestedValue / setNestedValue  – dot-path accessors
+ *  1. getNestedValue / setNestedValue / insertListItem
+ *     – dot-path accessors with keyed list selectors (`list[id=abc].field`)
  *  2. applyOverrides    – merge base + overrides → effective config
  *  3. computeDiff       – full inheritance diff for UI display
  *  4. detectConflicts   – find overrides whose base has drifted
  *  5. validateOverrides – structural + type + bounds checks
  *  6. hashObject        – deterministic SHA-256 for conflict detection
+ *  7. mergeOverrides / applyMergeDecisions – three-way merge onto a new base
+ *  8. buildStateLayers / applyLayers / computeLayeredDiff /
+ *     detectLayerConflicts / validateLayers
+ *     – product → region → state → territory inheritance
  */
 
 import type {
@@ -21,64 +26,246 @@ import type {
   DeviationValidationError,
   DeviationValidationErrorType,
   OverrideCategory,
+  MergeDecision,
+  MergeEntry,
+  MergeResolution,
+  OverrideLayer,
+  OverrideLayerGroup,
+  OverrideOp,
+  PathSegment,
+  StateMergeResult,
 } from '../types/deviation';
+import { OVERRIDE_LAYER_PRECEDENCE } from '../types/deviation';
 
 // ════════════════════════════════════════════════════════════════════════
 // Dot-path helpers
 // ════════════════════════════════════════════════════════════════════════
 
+/** Fields that identify list items, in order of preference */
+export const LIST_KEY_FIELDS = ['id', 'key', 'code'] as const;
+
+/**
+ * Parse a path such as `limitOptions[id=abc].perOccurrence` or `forms[0]`.
+ * Selector values may be JSON-quoted when they contain `.`, `[`, `]` or `=`.
+ * Throws on malformed brackets.
+ */
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let i = 0;
+  let key = '';
+  const fail = (): never => { throw new Error(`Invalid override path "${path}"`); };
+  const flushKey = () => {
+    if (key) segments.push({ key });
+    key = '';
+  };
+
+  while (i < path.length) {
+    const ch = path[i];
+    if (ch === '.') {
+      flushKey();
+      i++;
+    } else if (ch === '[') {
+      flushKey();
+      const eq = path.indexOf('=', i);
+      const close = path.indexOf(']', i);
+      if (close < 0) fail();
+      if (eq < 0 || eq > close) {
+        const text = path.slice(i + 1, close);
+        if (!/^\d+$/.test(text)) fail();
+        segments.push({ index: Number(text) });
+        i = close + 1;
+        continue;
+      }
+      const field = path.slice(i + 1, eq);
+      if (!field) fail();
+      let value: string;
+      let end: number;
+      if (path[eq + 1] === '"') {
+        const quoted = /^"(?:[^"\\]|\\.)*"/.exec(path.slice(eq + 1));
+        if (!quoted) fail();
+        value = JSON.parse(quoted![0]) as string;
+        end = eq + 1 + quoted![0].length;
+      } else {
+        end = path.indexOf(']', eq);
+        value = path.slice(eq + 1, end);
+      }
+      if (path[end] !== ']') fail();
+      segments.push({ match: { field, value } });
+      i = end + 1;
+    } else {
+      key += ch;
+      i++;
+    }
+  }
+  flushKey();
+  return segments;
+}
+
+/**
+ * Inverse of `parsePath`.
+ */
+export function formatPath(segments: PathSegment[]): string {
+  let out = '';
+  for (const seg of segments) {
+    if ('key' in seg) {
+      out += out ? `.${seg.key}` : seg.key;
+    } else if ('index' in seg) {
+      out += `[${seg.index}]`;
+    } else {
+      const { field, value } = seg.match;
+      out += `[${field}=${/[.[\]="]/.test(value) || value.trim() !== value ? JSON.stringify(value) : value}]`;
+    }
+  }
+  return out;
+}
+
+/**
+ * The field that identifies every item of a list, or null when the list is
+ * not keyed (primitives, missing or duplicate keys).
+ */
+export function listKeyField(list: unknown[]): string | null {
+  if (list.length === 0) return null;
+  for (const field of LIST_KEY_FIELDS) {
+    const seen = new Set<string>();
+    const keyed = list.every(item => {
+      if (item == null || typeof item !== 'object' || Array.isArray(item)) return false;
+      const v = (item as Record<string, unknown>)[field];
+      if (typeof v !== 'string' && typeof v !== 'number') return false;
+      if (seen.has(String(v))) return false;
+      seen.add(String(v));
+      return true;
+    });
+    if (keyed) return field;
+  }
+  return null;
+}
+
+function findItem(list: unknown[], match: { field: string; value: string }): number {
+  return list.findIndex(item =>
+    item != null && typeof item === 'object'
+    && String((item as Record<string, unknown>)[match.field]) === match.value);
+}
+
+function childOf(node: unknown, seg: PathSegment): unknown {
+  if (node == null || typeof node !== 'object') return undefined;
+  if ('key' in seg) return (node as Record<string, unknown>)[seg.key];
+  if (!Array.isArray(node)) return undefined;
+  if ('index' in seg) return node[seg.index];
+  const idx = findItem(node, seg.match);
+  return idx < 0 ? undefined : node[idx];
+}
+
 /**
- * Resolve a dot-path to a value in a nested object.
+ * Walk a cloned root to the container of the last segment. Missing object
+ * keys are created (as a list when a selector follows); a missing list item
+ * cannot be, so the walk stops.
+ */
+function containerFor(root: Record<string, unknown>, segments: PathSegment[]): unknown {
+  let current: unknown = root;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const seg = segments[i];
+    let next = childOf(current, seg);
+    if (next == null || typeof next !== 'object') {
+      if (!('key' in seg) || current == null || typeof current !== 'object') return undefined;
+      next = 'key' in segments[i + 1] ? {} : [];
+      (current as Record<string, unknown>)[seg.key] = next;
+    }
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Resolve a path to a value in a nested object.
  * Returns `undefined` if any segment is missing.
  */
 export function getNestedValue(obj: unknown, path: string): unknown {
   if (obj == null || !path) return undefined;
-  const segments = path.split('.');
   let current: unknown = obj;
-  for (const seg of segments) {
-    if (current == null || typeof current !== 'object') return undefined;
-    current = (current as Record<string, unknown>)[seg];
+  for (const seg of parsePath(path)) {
+    current = childOf(current, seg);
+    if (current === undefined) return undefined;
   }
   return current;
 }
 
 /**
- * Return a shallow-cloned copy of `obj` with `value` set at `path`.
- * Creates intermediate objects as needed (never mutates the input).
+ * Return a cloned copy of `obj` with `value` set at `path`.
+ * Creates intermediate objects as needed (never mutates the input). A keyed
+ * selector at the end appends the item when it is missing; a missing list
+ * item in the middle leaves the copy unchanged.
  */
 export function setNestedValue(obj: Record<string, unknown>, path: string, value: unknown): Record<string, unknown> {
-  const segments = path.split('.');
+  const segments = parsePath(path);
   const root = structuredClone(obj);
-  let current: Record<string, unknown> = root;
-
-  for (let i = 0; i < segments.length - 1; i++) {
-    const seg = segments[i];
-    if (current[seg] == null || typeof current[seg] !== 'object') {
-      current[seg] = {};
-    } else {
-      current[seg] = { ...(current[seg] as Record<string, unknown>) };
-    }
-    current = current[seg] as Record<string, unknown>;
+  const container = containerFor(root, segments);
+  const last = segments[segments.length - 1];
+  if (container == null || typeof container !== 'object' || !last) return root;
+
+  if ('key' in last) {
+    (container as Record<string, unknown>)[last.key] = value;
+  } else if (Array.isArray(container)) {
+    const idx = 'index' in last ? last.index : findItem(container, last.match);
+    if (idx < 0) container.push(value);
+    else container[idx] = value;
   }
-  current[segments[segments.length - 1]] = value;
   return root;
 }
 
 /**
- * Remove a key at `path` from a shallow clone of `obj`.
+ * Remove the key or list item at `path` from a clone of `obj`.
  */
 export function removeNestedValue(obj: Record<string, unknown>, path: string): Record<string, unknown> {
-  const segments = path.split('.');
+  const segments = parsePath(path);
   const root = structuredClone(obj);
-  let current: Record<string, unknown> = root;
+  let container: unknown = root;
+  for (const seg of segments.slice(0, -1)) {
+    container = childOf(container, seg);
+    if (container == null || typeof container !== 'object') return root;
+  }
+  const last = segments[segments.length - 1];
+  if (!last) return root;
+
+  if ('key' in last) {
+    delete (container as Record<string, unknown>)[last.key];
+  } else if (Array.isArray(container)) {
+    const idx = 'index' in last ? last.index : findItem(container, last.match);
+    if (idx >= 0 && idx < container.length) container.splice(idx, 1);
+  }
+  return root;
+}
 
-  for (let i = 0; i < segments.length - 1; i++) {
-    const seg = segments[i];
-    if (current[seg] == null || typeof current[seg] !== 'object') return root;
-    current[seg] = { ...(current[seg] as Record<string, unknown>) };
-    current = current[seg] as Record<string, unknown>;
+/**
+ * Insert a list item addressed by a keyed selector, after the sibling whose
+ * key is `after` (null = first, undefined or not found = last). An existing
+ * item with the same key is replaced in place.
+ */
+export function insertListItem(
+  obj: Record<string, unknown>,
+  path: string,
+  item: unknown,
+  after?: string | null,
+): Record<string, unknown> {
+  const segments = parsePath(path);
+  const last = segments[segments.length - 1];
+  if (!last || !('match' in last)) return setNestedValue(obj, path, item);
+
+  const root = structuredClone(obj);
+  const container = containerFor(root, segments);
+  if (!Array.isArray(container)) return root;
+
+  const existing = findItem(container, last.match);
+  if (existing >= 0) {
+    container[existing] = item;
+    return root;
   }
-  delete current[segments[segments.length - 1]];
+  if (after === null) {
+    container.unshift(item);
+    return root;
+  }
+  const anchor = after === undefined ? -1 : findItem(container, { field: last.match.field, value: after });
+  if (anchor < 0) container.push(item);
+  else container.splice(anchor + 1, 0, item);
   return root;
 }
 
@@ -136,27 +323,55 @@ export function hashObjectSync(value: unknown): string {
 // Apply overrides → effective config
 // ════════════════════════════════════════════════════════════════════════
 
+const OP_ORDER: Record<OverrideOp, number> = { remove: 0, insert: 1, set: 2 };
+
 /**
  * Merge base config with overrides to produce the effective (computed) config.
- * Overrides win; everything else is inherited from base.
+ * Overrides win; everything else is inherited from base. Removals run first,
+ * then inserts, then sets, so a set can target a field of an inserted item.
  */
 export function applyOverrides(
   base: Record<string, unknown>,
   overrides: Record<string, Override>,
 ): Record<string, unknown> {
   let result = structuredClone(base);
-  for (const [, override] of Object.entries(overrides)) {
-    result = setNestedValue(result, override.path, override.value);
+  const ordered = Object.values(overrides)
+    .map((override, index) => ({ override, index }))
+    .sort((a, b) => OP_ORDER[a.override.op ?? 'set'] - OP_ORDER[b.override.op ?? 'set'] || a.index - b.index);
+
+  for (const { override } of ordered) {
+    switch (override.op ?? 'set') {
+      case 'remove':
+        result = removeNestedValue(result, override.path);
+        break;
+      case 'insert':
+        result = insertListItem(result, override.path, override.value, override.insertAfter);
+        break;
+      default:
+        result = setNestedValue(result, override.path, override.value);
+    }
   }
   return result;
 }
 
+/**
+ * Whether the base beneath an override moved since it was captured.
+ * Inserts capture `null` for "no item yet", so missing counts as null.
+ */
+function baseDrifted(ov: Override, currentBase: unknown): boolean {
+  return ov.op === 'insert'
+    ? !deepEqual(ov.baseValue ?? null, currentBase ?? null)
+    : !deepEqual(ov.baseValue, currentBase);
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // Diff computation
 // ════════════════════════════════════════════════════════════════════════
 
 /**
  * Recursively enumerate all leaf paths from an object.
+ * Keyed lists (see `listKeyField`) are walked by item key, e.g.
+ * `limitOptions[id=abc].perOccurrence`; other lists are leaves.
  * Returns { path, value } pairs.
  */
 export function enumerateLeafPaths(
@@ -164,6 +379,18 @@ export function enumerateLeafPaths(
   prefix = '',
 ): Array<{ path: string; value: unknown }> {
   const results: Array<{ path: string; value: unknown }> = [];
+  if (Array.isArray(obj) && prefix) {
+    const field = listKeyField(obj);
+    if (!field) {
+      results.push({ path: prefix, value: obj });
+      return results;
+    }
+    for (const item of obj) {
+      const value = String((item as Record<string, unknown>)[field]);
+      results.push(...enumerateLeafPaths(item, `${prefix}${formatPath([{ match: { field, value } }])}`));
+    }
+    return results;
+  }
   if (obj == null || typeof obj !== 'object' || Array.isArray(obj)) {
     if (prefix) results.push({ path: prefix, value: obj });
     return results;
@@ -200,12 +427,23 @@ export function inferCategory(path: string): OverrideCategory {
  * Generate a human-friendly label from a dot-path.
  */
 export function pathToLabel(path: string): string {
-  const last = path.split('.').pop() || path;
-  return last
+  let segments: PathSegment[];
+  try {
+    segments = parsePath(path);
+  } catch {
+    segments = [{ key: path }];
+  }
+  const lastKey = [...segments].reverse().find((seg): seg is { key: string } => 'key' in seg);
+  const label = (lastKey?.key || path)
     .replace(/([A-Z])/g, ' $1')
     .replace(/_/g, ' ')
     .replace(/^\s/, '')
     .replace(/\b\w/g, c => c.toUpperCase());
+
+  // Name the list item the path points into
+  const item = [...segments].reverse().find(seg => !('key' in seg));
+  if (!item || 'key' in item) return label;
+  return `${label} (${'index' in item ? `#${item.index + 1}` : item.match.value})`;
 }
 
 /**
@@ -219,6 +457,7 @@ export function deepEqual(a: unknown, b: unknown): boolean {
 
 /**
  * Compute the full inheritance diff between a base config and state overrides.
+ * Equivalent to a layered diff with the state as the only layer.
  */
 export function computeDiff(
   base: Record<string, unknown>,
@@ -226,65 +465,204 @@ export function computeDiff(
   stateCode: string,
   stateName: string,
 ): DiffResult {
+  return computeLayeredDiff(
+    base,
+    [{ id: stateCode, name: stateName, kind: 'state', overrides }],
+    stateCode,
+    stateName,
+  );
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Layers (product → region → state → territory)
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Sort layers lowest precedence first: by kind, then priority, then the
+ * order given.
+ */
+export function orderLayers(layers: OverrideLayer[]): OverrideLayer[] {
+  return layers
+    .map((layer, index) => ({ layer, index }))
+    .sort((a, b) =>
+      OVERRIDE_LAYER_PRECEDENCE[a.layer.kind] - OVERRIDE_LAYER_PRECEDENCE[b.layer.kind]
+      || (a.layer.priority ?? 0) - (b.layer.priority ?? 0)
+      || a.index - b.index)
+    .map(({ layer }) => layer);
+}
+
+/**
+ * The effective config beneath each ordered layer:
+ * entry i is the base with layers 0..i-1 applied.
+ */
+function configsBeneath(
+  base: Record<string, unknown>,
+  ordered: OverrideLayer[],
+): Record<string, unknown>[] {
+  const result: Record<string, unknown>[] = [];
+  let current = base;
+  for (const layer of ordered) {
+    result.push(current);
+    current = applyOverrides(current, layer.overrides);
+  }
+  return result;
+}
+
+/**
+ * The layers that apply to one state: region groups listing the state, the
+ * state's own overrides and its territory overrides. `territory` selects one
+ * territory layer; 'all' includes every territory (for validation).
+ */
+export function buildStateLayers(
+  stateCode: string,
+  stateName: string,
+  overrides: Record<string, Override>,
+  territoryOverrides: Record<string, Record<string, Override>>,
+  groups: Array<Pick<OverrideLayerGroup, 'id' | 'name' | 'stateCodes' | 'priority' | 'overrides'>>,
+  territory?: string,
+): OverrideLayer[] {
+  const layers: OverrideLayer[] = groups
+    .filter(g => g.stateCodes.includes(stateCode))
+    .map(g => ({ id: g.id, name: g.name, kind: 'region', priority: g.priority, overrides: g.overrides || {} }));
+
+  layers.push({ id: stateCode, name: stateName, kind: 'state', overrides });
+
+  for (const [code, ovs] of Object.entries(territoryOverrides)) {
+    if (territory !== 'all' && territory !== code) continue;
+    layers.push({ id: `${stateCode}:${code}`, name: `Territory ${code}`, kind: 'territory', overrides: ovs });
+  }
+
+  return layers;
+}
+
+/**
+ * Apply every layer to the base in precedence order.
+ */
+export function applyLayers(
+  base: Record<string, unknown>,
+  layers: OverrideLayer[],
+): Record<string, unknown> {
+  return orderLayers(layers).reduce((config, layer) => applyOverrides(config, layer.overrides), base);
+}
+
+/**
+ * Inheritance diff across override layers. Each entry records which layer
+ * its effective value came from and every layer that sets the path.
+ * A path is in conflict when its top layer's captured `baseValue` no
+ * longer matches the effective value of the layers beneath it.
+ */
+export function computeLayeredDiff(
+  base: Record<string, unknown>,
+  layers: OverrideLayer[],
+  stateCode: string,
+  stateName: string,
+): DiffResult {
+  const ordered = orderLayers(layers);
+  const beneath = configsBeneath(base, ordered);
   const entries: DiffEntry[] = [];
   const basePaths = enumerateLeafPaths(base);
-  const overridePaths = new Set(Object.keys(overrides));
+  const basePathSet = new Set(basePaths.map(p => p.path));
 
-  let conflictCount = 0;
+  // List items removed by a layer hide every base path beneath them
+  const removerOf = (path: string) => {
+    for (let i = ordered.length - 1; i >= 0; i--) {
+      const ov = Object.values(ordered[i].overrides).find(o =>
+        o.op === 'remove' && (path.startsWith(`${o.path}.`) || path.startsWith(`${o.path}[`)));
+      if (ov) return { layer: ordered[i], ov };
+    }
+    return null;
+  };
 
-  // 1. Walk every base leaf path
-  for (const { path, value: baseValue } of basePaths) {
-    if (overridePaths.has(path)) {
-      const ov = overrides[path];
-      const baseChanged = !deepEqual(ov.baseValue, baseValue);
-      const status: DiffStatus = baseChanged ? 'conflict' : 'overridden';
-      if (baseChanged) conflictCount++;
+  const entryFor = (path: string, baseValue: unknown, inBase: boolean): DiffEntry => {
+    const setting = ordered
+      .map((layer, index) => ({ layer, index, ov: layer.overrides[path] }))
+      .filter(s => s.ov);
 
-      entries.push({
+    const remover = setting.length === 0 ? removerOf(path) : null;
+    if (remover) {
+      return {
         path,
-        fieldLabel: ov.fieldLabel || pathToLabel(path),
-        category: ov.category || inferCategory(path),
-        status,
+        fieldLabel: pathToLabel(path),
+        category: inferCategory(path),
+        status: 'removed',
         baseValue,
-        overrideValue: ov.value,
-        effectiveValue: ov.value,
-        ...(baseChanged ? { conflictBaseValue: baseValue, originalBaseValue: ov.baseValue } : {}),
-      });
-    } else {
-      entries.push({
+        effectiveValue: undefined,
+        sourceLayerId: remover.layer.id,
+        sourceLayerName: remover.layer.name,
+        sourceLayerKind: remover.layer.kind,
+      };
+    }
+
+    if (setting.length === 0) {
+      return {
         path,
         fieldLabel: pathToLabel(path),
         category: inferCategory(path),
         status: 'inherited',
         baseValue,
         effectiveValue: baseValue,
-      });
+      };
     }
+
+    const top = setting[setting.length - 1];
+    const removed = top.ov.op === 'remove';
+    const underneath = getNestedValue(beneath[top.index], path);
+    const baseChanged = inBase && baseDrifted(top.ov, underneath);
+    const status: DiffStatus = baseChanged ? 'conflict' : removed ? 'removed' : !inBase ? 'added' : 'overridden';
+
+    return {
+      path,
+      fieldLabel: top.ov.fieldLabel || pathToLabel(path),
+      category: top.ov.category || inferCategory(path),
+      status,
+      baseValue,
+      overrideValue: removed ? undefined : top.ov.value,
+      effectiveValue: removed ? undefined : top.ov.value,
+      ...(baseChanged ? { conflictBaseValue: underneath, originalBaseValue: top.ov.baseValue } : {}),
+      sourceLayerId: top.layer.id,
+      sourceLayerName: top.layer.name,
+      sourceLayerKind: top.layer.kind,
+      layerValues: setting.map(s => ({
+        layerId: s.layer.id,
+        layerName: s.layer.name,
+        kind: s.layer.kind,
+        value: s.ov.value,
+      })),
+    };
+  };
+
+  // 1. Walk every base leaf path
+  for (const { path, value } of basePaths) {
+    entries.push(entryFor(path, value, true));
   }
 
-  // 2. Overrides that point to paths not in base (added or orphaned)
-  const basePathSet = new Set(basePaths.map(p => p.path));
-  for (const [path, ov] of Object.entries(overrides)) {
-    if (!basePathSet.has(path)) {
-      entries.push({
-        path,
-        fieldLabel: ov.fieldLabel || pathToLabel(path),
-        category: ov.category || inferCategory(path),
-        status: 'added',
-        baseValue: undefined,
-        overrideValue: ov.value,
-        effectiveValue: ov.value,
-      });
+  // 2. Overrides on other paths: added, orphaned, or whole list items / objects
+  const seen = new Set(basePathSet);
+  for (const layer of ordered) {
+    for (const path of Object.keys(layer.overrides)) {
+      if (seen.has(path)) continue;
+      seen.add(path);
+      const baseValue = getNestedValue(base, path);
+      entries.push(entryFor(path, baseValue, baseValue !== undefined));
     }
   }
 
+  const overriddenPaths = new Set(ordered.flatMap(l => Object.keys(l.overrides)));
+
   return {
     stateCode,
     stateName,
     entries,
-    overrideCount: overridePaths.size,
-    conflictCount,
+    overrideCount: overriddenPaths.size,
+    conflictCount: entries.filter(e => e.status === 'conflict').length,
     baseHash: hashObjectSync(base),
+    layers: ordered.map((layer, i) => ({
+      id: layer.id,
+      name: layer.name,
+      kind: layer.kind,
+      overrideCount: Object.keys(layer.overrides).length,
+      conflictCount: detectConflicts(beneath[i], layer.overrides).length,
+    })),
   };
 }
 
@@ -302,13 +680,226 @@ export function detectConflicts(
   const conflicts: Array<{ path: string; override: Override; currentBaseValue: unknown }> = [];
   for (const [path, ov] of Object.entries(overrides)) {
     const currentBase = getNestedValue(base, path);
-    if (!deepEqual(ov.baseValue, currentBase)) {
+    if (baseDrifted(ov, currentBase)) {
       conflicts.push({ path, override: ov, currentBaseValue: currentBase });
     }
   }
   return conflicts;
 }
 
+/**
+ * Conflict detection per layer: each layer is checked against the
+ * effective config of the layers beneath it, not just the product base.
+ */
+export function detectLayerConflicts(
+  base: Record<string, unknown>,
+  layers: OverrideLayer[],
+): Array<{ layerId: string; layerName: string; path: string; override: Override; currentBaseValue: unknown }> {
+  const ordered = orderLayers(layers);
+  const beneath = configsBeneath(base, ordered);
+  return ordered.flatMap((layer, i) =>
+    detectConflicts(beneath[i], layer.overrides).map(c => ({ layerId: layer.id, layerName: layer.name, ...c })),
+  );
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Three-way merge
+// ════════════════════════════════════════════════════════════════════════
+
+/** Missing and null are the same value for merge purposes (Firestore has no undefined) */
+function sameValue(a: unknown, b: unknown): boolean {
+  return deepEqual(a ?? null, b ?? null);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Key-wise three-way merge of object values.
+ * Conflicting keys keep the state's value and are reported.
+ */
+function mergeObjects(
+  oldBase: Record<string, unknown>,
+  newBase: Record<string, unknown>,
+  state: Record<string, unknown>,
+  prefix = '',
+): { merged: Record<string, unknown>; conflicts: string[] } {
+  const merged: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+  const keys = [...new Set([...Object.keys(oldBase), ...Object.keys(newBase), ...Object.keys(state)])].sort();
+
+  for (const key of keys) {
+    const o = oldBase[key];
+    const n = newBase[key];
+    const st = state[key];
+    let value: unknown;
+
+    if (sameValue(o, n) || sameValue(n, st)) {
+      value = st;
+    } else if (sameValue(o, st)) {
+      value = n;
+    } else if (isPlainObject(o) && isPlainObject(n) && isPlainObject(st)) {
+      const nested = mergeObjects(o, n, st, `${prefix}${key}.`);
+      value = nested.merged;
+      conflicts.push(...nested.conflicts);
+    } else {
+      value = st;
+      conflicts.push(`${prefix}${key}`);
+    }
+
+    if (value !== undefined) merged[key] = value;
+  }
+
+  return { merged, conflicts };
+}
+
+/**
+ * Propose a resolution where base and state changed the same path differently.
+ * Rate factors keep the state's relative deviation on the new base; other
+ * values keep the state's value (state-mandated limits, forms, etc.).
+ */
+function proposeResolution(
+  category: OverrideCategory,
+  oldBase: unknown,
+  newBase: unknown,
+  state: unknown,
+): { resolution: MergeResolution; value: unknown; reason: string } {
+  if (newBase === undefined) {
+    return { resolution: 'accept_base', value: undefined, reason: 'Field was removed from the base product' };
+  }
+
+  if (category === 'rates' && typeof oldBase === 'number' && typeof newBase === 'number'
+    && typeof state === 'number' && oldBase !== 0) {
+    const value = Number((newBase * (state / oldBase)).toPrecision(12));
+    return {
+      resolution: 'edit',
+      value,
+      reason: `Keeps the state's ${((state / oldBase - 1) * 100).toFixed(1)}% deviation on the new base`,
+    };
+  }
+
+  if (isPlainObject(oldBase) && isPlainObject(newBase) && isPlainObject(state)) {
+    const { merged, conflicts } = mergeObjects(oldBase, newBase, state);
+    return {
+      resolution: 'edit',
+      value: merged,
+      reason: `Merged field changes; state kept for ${conflicts.join(', ')}`,
+    };
+  }
+
+  return { resolution: 'keep_state', value: state, reason: 'Base and state both changed this value' };
+}
+
+/**
+ * Three-way merge of a state's overrides onto a new base config.
+ *
+ * For each override: old base = the `baseValue` captured with the override,
+ * new base = the value at the same path in `newBase`, state = the override.
+ *  - base unchanged                     → unchanged
+ *  - state equals old base or new base  → auto-resolved, inherit the new base
+ *  - object values changing disjoint keys → auto-resolved, merged object
+ *  - otherwise                          → conflict with a proposed resolution
+ */
+export function mergeOverrides(
+  newBase: Record<string, unknown>,
+  overrides: Record<string, Override>,
+  stateCode: string,
+  stateName: string,
+): StateMergeResult {
+  const entries: MergeEntry[] = [];
+
+  for (const path of Object.keys(overrides).sort()) {
+    const ov = overrides[path];
+    const oldBaseValue = ov.baseValue;
+    const newBaseValue = getNestedValue(newBase, path);
+    // A removal's state side is "no item"
+    const stateValue = ov.op === 'remove' ? undefined : ov.value;
+    const common = {
+      path,
+      fieldLabel: ov.fieldLabel || pathToLabel(path),
+      category: ov.category || inferCategory(path),
+      oldBaseValue,
+      newBaseValue,
+      stateValue,
+    };
+
+    if (sameValue(oldBaseValue, newBaseValue)) {
+      entries.push({ ...common, status: 'unchanged', resolution: 'keep_state', resolvedValue: stateValue, reason: 'Base unchanged' });
+    } else if (sameValue(stateValue, newBaseValue)) {
+      entries.push({ ...common, status: 'auto_resolved', resolution: 'accept_base', resolvedValue: newBaseValue, reason: 'Base now matches the state value' });
+    } else if (sameValue(stateValue, oldBaseValue)) {
+      entries.push({ ...common, status: 'auto_resolved', resolution: 'accept_base', resolvedValue: newBaseValue, reason: 'State value matched the old base' });
+    } else if (isPlainObject(oldBaseValue) && isPlainObject(newBaseValue) && isPlainObject(stateValue)
+      && mergeObjects(oldBaseValue, newBaseValue, stateValue).conflicts.length === 0) {
+      entries.push({
+        ...common,
+        status: 'auto_resolved',
+        resolution: 'edit',
+        resolvedValue: mergeObjects(oldBaseValue, newBaseValue, stateValue).merged,
+        reason: 'Base and state changed different fields',
+      });
+    } else {
+      const proposal = proposeResolution(common.category, oldBaseValue, newBaseValue, stateValue);
+      entries.push({ ...common, status: 'conflict', resolution: proposal.resolution, resolvedValue: proposal.value, reason: proposal.reason });
+    }
+  }
+
+  return {
+    stateCode,
+    stateName,
+    entries,
+    autoResolvedCount: entries.filter(e => e.status === 'auto_resolved').length,
+    conflictCount: entries.filter(e => e.status === 'conflict').length,
+    baseHash: hashObjectSync(newBase),
+  };
+}
+
+/**
+ * Build the override map that results from applying merge decisions.
+ * Paths without a decision take the merge's own (auto or proposed)
+ * resolution. Kept and edited overrides are re-anchored on the new base,
+ * so they no longer report a conflict; an edit equal to the new base
+ * drops the override.
+ */
+export function applyMergeDecisions(
+  overrides: Record<string, Override>,
+  merge: StateMergeResult,
+  decisions: Record<string, MergeDecision>,
+  stamp: Pick<Override, 'updatedBy' | 'updatedAt'>,
+): Record<string, Override> {
+  const result: Record<string, Override> = {};
+
+  for (const entry of merge.entries) {
+    const ov = overrides[entry.path];
+    if (!ov) continue;
+    if (entry.status === 'unchanged' && !decisions[entry.path]) {
+      result[entry.path] = ov;
+      continue;
+    }
+
+    const decision = decisions[entry.path] ?? { resolution: entry.resolution, value: entry.resolvedValue };
+    if (decision.resolution === 'accept_base') continue;
+
+    const value = decision.resolution === 'keep_state'
+      ? entry.stateValue
+      : decision.value !== undefined ? decision.value : entry.resolvedValue;
+    if (sameValue(value, entry.newBaseValue)) continue;
+
+    // Keeping a removal stays a removal; any other value replaces the item
+    const keepsRemoval = ov.op === 'remove' && value === undefined;
+    result[entry.path] = {
+      ...ov,
+      baseValue: entry.newBaseValue ?? null,
+      value: keepsRemoval ? null : value,
+      ...stamp,
+      ...(ov.op === 'remove' && !keepsRemoval && { op: 'set' as const }),
+    };
+  }
+
+  return result;
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // Validation
 // ════════════════════════════════════════════════════════════════════════
@@ -326,9 +917,13 @@ export function validateOverrides(
 
   for (const [path, ov] of Object.entries(overrides)) {
     const currentBase = getNestedValue(base, path);
+    const op = ov.op ?? 'set';
 
-    // 1. Orphaned: path no longer in base
-    if (!baseLeafs.has(path) && currentBase === undefined) {
+    // 1. Orphaned: path (or, for inserts, the target list) no longer in base
+    const orphaned = op === 'insert'
+      ? !Array.isArray(getNestedValue(base, formatPath(parsePath(path).slice(0, -1))))
+      : !baseLeafs.has(path) && currentBase === undefined;
+    if (orphaned) {
       errors.push({
         path,
         fieldLabel: ov.fieldLabel || pathToLabel(path),
@@ -341,7 +936,7 @@ export function validateOverrides(
     }
 
     // 2. Conflict: base drifted since override was set
-    if (!deepEqual(ov.baseValue, currentBase)) {
+    if (baseDrifted(ov, currentBase)) {
       errors.push({
         path,
         fieldLabel: ov.fieldLabel || pathToLabel(path),
@@ -353,6 +948,9 @@ export function validateOverrides(
       });
     }
 
+    // Value checks only apply to sets
+    if (op !== 'set') continue;
+
     // 3. Type mismatch: override value type differs from base
     if (currentBase !== undefined && ov.value !== null && currentBase !== null) {
       const baseType = typeof currentBase;
@@ -402,3 +1000,18 @@ export function validateOverrides(
 
   return errors;
 }
+
+/**
+ * Validate each layer against the effective config beneath it.
+ * Errors carry the layer they belong to.
+ */
+export function validateLayers(
+  base: Record<string, unknown>,
+  layers: OverrideLayer[],
+): DeviationValidationError[] {
+  const ordered = orderLayers(layers);
+  const beneath = configsBeneath(base, ordered);
+  return ordered.flatMap((layer, i) =>
+    validateOverrides(beneath[i], layer.overrides).map(e => ({ ...e, layerId: layer.id, layerName: layer.name })),
+  );
+}
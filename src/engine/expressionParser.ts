@@ -0,0 +1,664 @@
+/**
+ * Rating Expression Language
+ *
+ * Tokenizer, parser and evaluator for the formulas used by 'expression'
+ * rating steps. Expressions are parsed once into an AST (cached per step)
+ * and evaluated without `eval` or `new Function`.
+ *
+ * Grammar (lowest to highest precedence):
+ *   expr       := or
+ *   or         := and ('||' and)*
+ *   and        := comparison ('&&' comparison)*
+ *   comparison := additive (('==' | '!=' | '<' | '<=' | '>' | '>=') additive)?
+ *   additive   := term (('+' | '-') term)*
+ *   term       := unary (('*' | '/' | '%') unary)*
+ *   unary      := ('-' | '+' | '!') unary | power
+ *   power      := primary ('^' unary)?            (right-associative)
+ *   primary    := number | string | identifier | call | '(' expr ')'
+ *   call       := identifier '(' (expr (',' expr)*)? ')'
+ *
+ * Booleans are represented numerically: comparisons yield 1 or 0 and any
+ * non-zero value is truthy.
+ */
+
+import type {
+  ExpressionNode,
+  ExpressionErrorCode,
+  ExpressionBinaryOperator,
+  ExpressionUnaryOperator,
+  RatingStep,
+  RatingTableData,
+} from '../types/ratingEngine';
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error raised while tokenizing, parsing or evaluating an expression.
+ * `column` is 1-based and points into the original source string.
+ */
+export class ExpressionError extends Error {
+  public readonly code: ExpressionErrorCode;
+  public readonly column: number;
+  public readonly length: number;
+
+  constructor(code: ExpressionErrorCode, message: string, column: number, length = 1) {
+    super(`${message} (column ${column})`);
+    this.name = 'ExpressionError';
+    this.code = code;
+    this.column = column;
+    this.length = length;
+  }
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  /** 1-based column of the first character */
+  column: number;
+}
+
+const TWO_CHAR_OPERATORS = ['<=', '>=', '==', '!=', '&&', '||'];
+const ONE_CHAR_OPERATORS = ['+', '-', '*', '/', '%', '^', '<', '>', '!'];
+
+/**
+ * Split an expression into tokens. Throws ExpressionError on characters
+ * that are not part of the language.
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    const column = i + 1;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Numbers: 12, 1.5, .5, 1e-3
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) {
+        throw new ExpressionError('UNEXPECTED_CHARACTER', `Unexpected character '${ch}'`, column);
+      }
+      tokens.push({ type: 'number', value: match[0], column });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], column });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) {
+        throw new ExpressionError('UNTERMINATED_STRING', 'Unterminated string literal', column, source.length - i);
+      }
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), column });
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '(') {
+      tokens.push({ type: 'lparen', value: ch, column });
+      i++;
+      continue;
+    }
+    if (ch === ')') {
+      tokens.push({ type: 'rparen', value: ch, column });
+      i++;
+      continue;
+    }
+    if (ch === ',') {
+      tokens.push({ type: 'comma', value: ch, column });
+      i++;
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (TWO_CHAR_OPERATORS.includes(two)) {
+      tokens.push({ type: 'operator', value: two, column });
+      i += 2;
+      continue;
+    }
+    if (ONE_CHAR_OPERATORS.includes(ch)) {
+      tokens.push({ type: 'operator', value: ch, column });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError('UNEXPECTED_CHARACTER', `Unexpected character '${ch}'`, column);
+  }
+
+  tokens.push({ type: 'eof', value: '', column: source.length + 1 });
+  return tokens;
+}
+
+// ============================================================================
+// Built-in Functions
+// ============================================================================
+
+interface FunctionSpec {
+  minArgs: number;
+  maxArgs: number;
+}
+
+/** Functions callable from expressions, with their arity */
+export const EXPRESSION_FUNCTIONS: Record<string, FunctionSpec> = {
+  min: { minArgs: 1, maxArgs: Infinity },
+  max: { minArgs: 1, maxArgs: Infinity },
+  round: { minArgs: 1, maxArgs: 2 },
+  clamp: { minArgs: 3, maxArgs: 3 },
+  if: { minArgs: 3, maxArgs: 3 },
+  lookup: { minArgs: 2, maxArgs: Infinity },
+  abs: { minArgs: 1, maxArgs: 1 },
+  floor: { minArgs: 1, maxArgs: 1 },
+  ceil: { minArgs: 1, maxArgs: 1 },
+};
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const COMPARISON_OPERATORS = ['==', '!=', '<', '<=', '>', '>='];
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionError('UNEXPECTED_TOKEN', `Unexpected '${next.value}'`, next.column, next.value.length);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private isOperator(...ops: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && ops.includes(token.value);
+  }
+
+  private binary(
+    token: Token,
+    left: ExpressionNode,
+    right: ExpressionNode
+  ): ExpressionNode {
+    return {
+      kind: 'binary',
+      operator: token.value as ExpressionBinaryOperator,
+      left,
+      right,
+      column: token.column,
+    };
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.isOperator('||')) {
+      const token = this.next();
+      left = this.binary(token, left, this.parseAnd());
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseComparison();
+    while (this.isOperator('&&')) {
+      const token = this.next();
+      left = this.binary(token, left, this.parseComparison());
+    }
+    return left;
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    if (this.isOperator(...COMPARISON_OPERATORS)) {
+      const token = this.next();
+      return this.binary(token, left, this.parseAdditive());
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseTerm();
+    while (this.isOperator('+', '-')) {
+      const token = this.next();
+      left = this.binary(token, left, this.parseTerm());
+    }
+    return left;
+  }
+
+  private parseTerm(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.isOperator('*', '/', '%')) {
+      const token = this.next();
+      left = this.binary(token, left, this.parseUnary());
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('-', '+', '!')) {
+      const token = this.next();
+      return {
+        kind: 'unary',
+        operator: token.value as ExpressionUnaryOperator,
+        operand: this.parseUnary(),
+        column: token.column,
+      };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    if (this.isOperator('^')) {
+      const token = this.next();
+      return this.binary(token, base, this.parseUnary());
+    }
+    return base;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: Number(token.value), column: token.column };
+
+      case 'string':
+        return { kind: 'string', value: token.value, column: token.column };
+
+      case 'identifier':
+        if (this.peek().type === 'lparen') {
+          return this.parseCall(token);
+        }
+        return { kind: 'field', name: token.value, column: token.column };
+
+      case 'lparen': {
+        const inner = this.parseOr();
+        const close = this.next();
+        if (close.type !== 'rparen') {
+          throw new ExpressionError('EXPECTED_TOKEN', `Expected ')' but found '${close.value || 'end of expression'}'`, close.column);
+        }
+        return inner;
+      }
+
+      case 'eof':
+        throw new ExpressionError('UNEXPECTED_END', 'Unexpected end of expression', token.column);
+
+      default:
+        throw new ExpressionError('UNEXPECTED_TOKEN', `Unexpected '${token.value}'`, token.column, token.value.length);
+    }
+  }
+
+  private parseCall(nameToken: Token): ExpressionNode {
+    const name = nameToken.value;
+    const spec = EXPRESSION_FUNCTIONS[name];
+    if (!spec) {
+      throw new ExpressionError('UNKNOWN_FUNCTION', `Unknown function '${name}'`, nameToken.column, name.length);
+    }
+
+    this.next(); // consume '('
+    const args: ExpressionNode[] = [];
+
+    if (this.peek().type !== 'rparen') {
+      args.push(this.parseOr());
+      while (this.peek().type === 'comma') {
+        this.next();
+        args.push(this.parseOr());
+      }
+    }
+
+    const close = this.next();
+    if (close.type !== 'rparen') {
+      throw new ExpressionError('EXPECTED_TOKEN', `Expected ')' or ',' but found '${close.value || 'end of expression'}'`, close.column);
+    }
+
+    if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+      const expected = spec.maxArgs === Infinity
+        ? `at least ${spec.minArgs}`
+        : spec.minArgs === spec.maxArgs ? `${spec.minArgs}` : `${spec.minArgs}-${spec.maxArgs}`;
+      throw new ExpressionError(
+        'WRONG_ARGUMENT_COUNT',
+        `Function '${name}' expects ${expected} argument(s) but got ${args.length}`,
+        nameToken.column,
+        name.length
+      );
+    }
+
+    if (name === 'lookup' && args[0].kind !== 'string') {
+      throw new ExpressionError('INVALID_ARGUMENT', `First argument to 'lookup' must be a table version ID string`, args[0].column);
+    }
+
+    return { kind: 'call', name, args, column: nameToken.column };
+  }
+}
+
+/**
+ * Parse an expression into an AST. Throws ExpressionError with the column
+ * of the offending token.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (!source || !source.trim()) {
+    throw new ExpressionError('UNEXPECTED_END', 'Expression is empty', 1);
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+// ============================================================================
+// AST Cache
+// ============================================================================
+
+/** Parsed AST cached per step object, invalidated when the formula changes */
+const stepAstCache = new WeakMap<RatingStep, { source: string; ast: ExpressionNode }>();
+
+/**
+ * Get the parsed AST for an expression step, parsing at most once per
+ * distinct formula string.
+ */
+export function getStepAst(step: RatingStep): ExpressionNode {
+  const source = step.expression ?? '';
+  const cached = stepAstCache.get(step);
+  if (cached && cached.source === source) {
+    return cached.ast;
+  }
+  const ast = parseExpression(source);
+  stepAstCache.set(step, { source, ast });
+  return ast;
+}
+
+// ============================================================================
+// Static Analysis
+// ============================================================================
+
+/**
+ * Collect the field codes referenced by an AST, in first-seen order.
+ */
+export function collectFieldReferences(ast: ExpressionNode): string[] {
+  const seen = new Set<string>();
+  const walk = (node: ExpressionNode): void => {
+    switch (node.kind) {
+      case 'field':
+        seen.add(node.name);
+        break;
+      case 'unary':
+        walk(node.operand);
+        break;
+      case 'binary':
+        walk(node.left);
+        walk(node.right);
+        break;
+      case 'call':
+        node.args.forEach(walk);
+        break;
+      default:
+        break;
+    }
+  };
+  walk(ast);
+  return Array.from(seen);
+}
+
+/**
+ * Collect the table version IDs referenced through lookup() calls.
+ */
+export function collectTableReferences(ast: ExpressionNode): string[] {
+  const seen = new Set<string>();
+  const walk = (node: ExpressionNode): void => {
+    if (node.kind === 'call') {
+      if (node.name === 'lookup' && node.args[0]?.kind === 'string') {
+        seen.add(node.args[0].value);
+      }
+      node.args.forEach(walk);
+    } else if (node.kind === 'unary') {
+      walk(node.operand);
+    } else if (node.kind === 'binary') {
+      walk(node.left);
+      walk(node.right);
+    }
+  };
+  walk(ast);
+  return Array.from(seen);
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const BINARY_PRECEDENCE: Record<ExpressionBinaryOperator, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '<': 3, '<=': 3, '>': 3, '>=': 3,
+  '+': 4, '-': 4,
+  '*': 5, '/': 5, '%': 5,
+  '^': 7,
+};
+const UNARY_PRECEDENCE = 6;
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(12)));
+}
+
+/**
+ * Render an AST back to source. When `values` is provided, field references
+ * are replaced by their values, which is what the evaluation trace shows.
+ */
+export function renderExpression(
+  node: ExpressionNode,
+  values?: Record<string, number>
+): string {
+  const render = (n: ExpressionNode, parentPrecedence: number, rightSide: boolean): string => {
+    switch (n.kind) {
+      case 'number':
+        return formatNumber(n.value);
+      case 'string':
+        return JSON.stringify(n.value);
+      case 'field':
+        return values && n.name in values ? formatNumber(values[n.name]) : n.name;
+      case 'call':
+        return `${n.name}(${n.args.map(a => render(a, 0, false)).join(', ')})`;
+      case 'unary': {
+        const text = `${n.operator}${render(n.operand, UNARY_PRECEDENCE, false)}`;
+        return UNARY_PRECEDENCE < parentPrecedence ? `(${text})` : text;
+      }
+      case 'binary': {
+        const precedence = BINARY_PRECEDENCE[n.operator];
+        const rightAssoc = n.operator === '^';
+        const left = render(n.left, rightAssoc ? precedence + 1 : precedence, false);
+        const right = render(n.right, rightAssoc ? precedence : precedence + 1, true);
+        const text = `${left} ${n.operator} ${right}`;
+        const needsParens = precedence < parentPrecedence || (precedence === parentPrecedence && rightSide && !rightAssoc);
+        return needsParens ? `(${text})` : text;
+      }
+      default:
+        return '';
+    }
+  };
+  return render(node, 0, false);
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/** Runtime environment for evaluating an AST */
+export interface ExpressionEnvironment {
+  /** Numeric values keyed by field code */
+  values: Record<string, number>;
+  /** Tables available to lookup() */
+  tables?: Map<string, RatingTableData>;
+}
+
+function roundHalfUp(value: number, precision: number): number {
+  const multiplier = Math.pow(10, precision);
+  return Math.round(value * multiplier) / multiplier;
+}
+
+function evaluateCall(
+  node: Extract<ExpressionNode, { kind: 'call' }>,
+  env: ExpressionEnvironment
+): number {
+  const arg = (i: number) => evaluateNode(node.args[i], env);
+
+  switch (node.name) {
+    case 'min':
+      return Math.min(...node.args.map((_, i) => arg(i)));
+    case 'max':
+      return Math.max(...node.args.map((_, i) => arg(i)));
+    case 'round':
+      return roundHalfUp(arg(0), node.args.length > 1 ? arg(1) : 0);
+    case 'clamp': {
+      const value = arg(0);
+      const lo = arg(1);
+      const hi = arg(2);
+      if (lo > hi) {
+        throw new ExpressionError('INVALID_ARGUMENT', `clamp() lower bound ${lo} exceeds upper bound ${hi}`, node.column, node.name.length);
+      }
+      return Math.min(Math.max(value, lo), hi);
+    }
+    case 'if':
+      // Only the selected branch is evaluated
+      return arg(0) !== 0 ? arg(1) : arg(2);
+    case 'lookup':
+      return evaluateLookup(node, env);
+    case 'abs':
+      return Math.abs(arg(0));
+    case 'floor':
+      return Math.floor(arg(0));
+    case 'ceil':
+      return Math.ceil(arg(0));
+    default:
+      throw new ExpressionError('UNKNOWN_FUNCTION', `Unknown function '${node.name}'`, node.column, node.name.length);
+  }
+}
+
+/**
+ * lookup("tableVersionId", dim1, dim2, ...) resolves a table cell using
+ * positional dimension values in the table's dimension order.
+ */
+function evaluateLookup(
+  node: Extract<ExpressionNode, { kind: 'call' }>,
+  env: ExpressionEnvironment
+): number {
+  const tableId = (node.args[0] as Extract<ExpressionNode, { kind: 'string' }>).value;
+  const table = env.tables?.get(tableId);
+  if (!table) {
+    throw new ExpressionError('TABLE_NOT_FOUND', `Table '${tableId}' is not loaded`, node.args[0].column);
+  }
+
+  const keyArgs = node.args.slice(1);
+  if (keyArgs.length !== table.dimensions.length) {
+    throw new ExpressionError(
+      'WRONG_ARGUMENT_COUNT',
+      `Table '${tableId}' has ${table.dimensions.length} dimension(s) but lookup() got ${keyArgs.length}`,
+      node.column,
+      node.name.length
+    );
+  }
+
+  const key = keyArgs
+    .map(a => (a.kind === 'string' ? a.value : formatNumber(evaluateNode(a, env))))
+    .join('-');
+  const value = table.values[key];
+  if (value === undefined) {
+    throw new ExpressionError('LOOKUP_MISS', `No value in table '${tableId}' for key '${key}'`, node.column, node.name.length);
+  }
+  return value;
+}
+
+/**
+ * Evaluate an AST node to a number.
+ */
+export function evaluateNode(node: ExpressionNode, env: ExpressionEnvironment): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+
+    case 'string':
+      throw new ExpressionError('TYPE_ERROR', `String "${node.value}" cannot be used as a number`, node.column);
+
+    case 'field': {
+      if (!(node.name in env.values)) {
+        throw new ExpressionError('UNKNOWN_FIELD', `Unknown field '${node.name}'`, node.column, node.name.length);
+      }
+      return env.values[node.name];
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, env);
+      if (node.operator === '-') return -operand;
+      if (node.operator === '!') return operand === 0 ? 1 : 0;
+      return operand;
+    }
+
+    case 'binary': {
+      // Short-circuit logical operators
+      if (node.operator === '&&') {
+        return evaluateNode(node.left, env) !== 0 && evaluateNode(node.right, env) !== 0 ? 1 : 0;
+      }
+      if (node.operator === '||') {
+        return evaluateNode(node.left, env) !== 0 || evaluateNode(node.right, env) !== 0 ? 1 : 0;
+      }
+
+      const left = evaluateNode(node.left, env);
+      const right = evaluateNode(node.right, env);
+
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+          if (right === 0) {
+            throw new ExpressionError('DIVISION_BY_ZERO', 'Division by zero', node.column);
+          }
+          return left / right;
+        case '%':
+          if (right === 0) {
+            throw new ExpressionError('DIVISION_BY_ZERO', 'Modulo by zero', node.column);
+          }
+          return left % right;
+        case '^': return Math.pow(left, right);
+        case '==': return left === right ? 1 : 0;
+        case '!=': return left !== right ? 1 : 0;
+        case '<': return left < right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '>': return left > right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+        default:
+          throw new ExpressionError('UNEXPECTED_TOKEN', `Unsupported operator '${node.operator}'`, node.column);
+      }
+    }
+
+    case 'call':
+      return evaluateCall(node, env);
+
+    default:
+      throw new ExpressionError('UNEXPECTED_TOKEN', 'Unsupported expression node', 1);
+  }
+}
@@ -5,6 +5,10 @@
  * Uses a simple but reliable hash algorithm suitable for browser environments.
  */
 
+import type { PolicyAggregation, RatingStep } from '../types/ratingEngine';
+
+type HashableStep = { id: string; [key: string]: unknown };
+
 /**
  * Create a deterministic hash from any JSON-serializable value.
  * Uses a variant of djb2 algorithm for fast, consistent hashing.
@@ -112,6 +116,21 @@ export function hashSteps(steps: { id: string; [key: string]: unknown }[]): stri
   return createHash(essentialData);
 }
 
+/**
+ * Create a hash of a rate program version: its steps and, when it has one,
+ * its aggregation stage (roll-up rules and policy-level steps). A version
+ * without aggregation hashes exactly as its steps do.
+ */
+export function hashRateProgram(steps: RatingStep[], aggregation?: PolicyAggregation | null): string {
+  const stepsHash = hashSteps(steps as unknown as HashableStep[]);
+  if (!aggregation) return stepsHash;
+  return combineHashes(
+    stepsHash,
+    createHash(aggregation.rules),
+    hashSteps((aggregation.policySteps ?? []) as unknown as HashableStep[]),
+  );
+}
+
 /**
  * Create a hash of evaluation inputs for determinism verification.
  */
@@ -10,7 +10,7 @@
  *   3. Split into chunks at section boundaries
  *   4. Generate stable hash-based anchors for each chunk
  *   5. Build section tree with page refs
- *   6. Score ingestion quality (text density, OCR issues, etc.)
+ *   6. Score ingestion quality (text density, OCR issues, extraction confidence)
  */
 
 import { createHash } from './hashUtils';
@@ -22,6 +22,7 @@ import type {
   IngestionWarning,
   IngestionWarningType,
   IngestionMetadata,
+  PageExtractionSummary,
 } from '../types/ingestion';
 
 // ════════════════════════════════════════════════════════════════════════
@@ -85,6 +86,12 @@ export interface PageText {
   text: string;
   /** Character count (to detect sparse pages) */
   charCount: number;
+  /** How the text was obtained (text layer when absent) */
+  source?: 'text' | 'ocr';
+  /** 0-1: OCR mean confidence, or the text-layer heuristic */
+  confidence?: number;
+  /** Columns detected by layout reconstruction */
+  columnCount?: number;
 }
 
 export interface IngestionInput {
@@ -100,6 +107,10 @@ export interface IngestionResult {
   qualityScore: number;
   totalPages: number;
   totalCharacters: number;
+  /** Per-page source and confidence, when the extractor reports them */
+  pageExtraction: PageExtractionSummary[];
+  /** Mean page confidence (0-100), null when no page reports one */
+  extractionConfidence: number | null;
 }
 
 // ════════════════════════════════════════════════════════════════════════
@@ -123,7 +134,8 @@ function slugify(text: string): string {
     .slice(0, 60);
 }
 
-function detectSectionType(line: string): { type: FormSectionType; priority: number } | null {
+/** Classify a heading-like line as an insurance section type, or null */
+export function detectSectionType(line: string): { type: FormSectionType; priority: number } | null {
   const trimmed = line.trim();
   if (!trimmed || trimmed.length < 3) return null;
 
@@ -151,10 +163,35 @@ function hasEncodingIssues(text: string): boolean {
   return controlChars > 5 || mojibake > 2;
 }
 
+/**
+ * Heuristic 0-1 confidence for text taken from the PDF text layer.
+ * Sparse, garbled or mis-encoded pages score low and become OCR candidates.
+ */
+export function textLayerConfidence(text: string): number {
+  const chars = text.trim().length;
+  let confidence = chars < 50 ? 0.2 : chars < 200 ? 0.7 : 1;
+  if (hasOcrArtifacts(text)) confidence -= 0.4;
+  if (hasEncodingIssues(text)) confidence -= 0.3;
+  return Math.max(0, Math.round(confidence * 100) / 100);
+}
+
+/** Mean confidence (0-100) of the pages that report one */
+function meanConfidence(pages: PageText[]): number | null {
+  const rated = pages.filter(p => p.confidence !== undefined);
+  if (rated.length === 0) return null;
+  return Math.round(rated.reduce((s, p) => s + (p.confidence as number), 0) / rated.length * 100);
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // Core pipeline
 // ════════════════════════════════════════════════════════════════════════
 
+/** Anchor a line of text (hashed on its first 120 chars) */
+export function makeAnchor(text: string, page: number, offset: number): ContentAnchor {
+  const anchorText = text.slice(0, 120);
+  return { hash: djb2(anchorText), slug: slugify(anchorText), anchorText, page, offset };
+}
+
 /**
  * Generate stable content anchors from a text block.
  * Anchors are placed at heading-like lines and at regular intervals.
@@ -173,16 +210,7 @@ export function generateAnchors(text: string, pageStart: number): ContentAnchor[
       (trimmed.length >= 5 && trimmed.length < 120 && trimmed === trimmed.toUpperCase() && /[A-Z]/.test(trimmed))
     );
 
-    if (isHeading) {
-      const anchorText = trimmed.slice(0, 120);
-      anchors.push({
-        hash: djb2(anchorText),
-        slug: slugify(anchorText),
-        anchorText,
-        page: pageStart,
-        offset,
-      });
-    }
+    if (isHeading) anchors.push(makeAnchor(trimmed, pageStart, offset));
 
     offset += line.length + 1; // +1 for newline
   }
@@ -334,6 +362,10 @@ export function scoreQuality(
   // Penalize no pages
   if (pages.length === 0) score -= 50;
 
+  // Penalize low extraction confidence (OCR or a weak text layer)
+  const confidence = meanConfidence(pages);
+  if (confidence !== null) score -= Math.round((100 - confidence) * 0.2);
+
   return Math.max(0, Math.min(100, score));
 }
 
@@ -394,6 +426,24 @@ export function detectWarnings(pages: PageText[]): IngestionWarning[] {
         severity: 'warning',
       });
     }
+
+    // OCR-recovered text
+    if (page.source === 'ocr') {
+      const pct = Math.round((page.confidence ?? 0) * 100);
+      warnings.push(pct < 60
+        ? {
+          type: 'low_confidence',
+          message: `Page ${page.pageNumber}: OCR text has low confidence (${pct}%). Review against the PDF.`,
+          pageRef: page.pageNumber,
+          severity: 'warning',
+        }
+        : {
+          type: 'ocr_applied',
+          message: `Page ${page.pageNumber}: text recovered by OCR (${pct}% confidence).`,
+          pageRef: page.pageNumber,
+          severity: 'info',
+        });
+    }
   }
 
   // Truncation check
@@ -440,6 +490,16 @@ export function runIngestionPipeline(input: IngestionInput): IngestionResult {
 
   const totalCharacters = pages.reduce((s, p) => s + p.charCount, 0);
 
+  const pageExtraction: PageExtractionSummary[] = pages
+    .filter(p => p.confidence !== undefined)
+    .map(p => ({
+      pageNumber: p.pageNumber,
+      source: p.source || 'text',
+      confidence: Math.round((p.confidence as number) * 100),
+      columnCount: p.columnCount ?? 1,
+      charCount: p.charCount,
+    }));
+
   return {
     chunks,
     sections,
@@ -447,5 +507,7 @@ export function runIngestionPipeline(input: IngestionInput): IngestionResult {
     qualityScore,
     totalPages: pages.length,
     totalCharacters,
+    pageExtraction,
+    extractionConfidence: meanConfidence(pages),
   };
 }
@@ -0,0 +1,243 @@
+/**
+ * Page Layout Engine
+ *
+ * Rebuilds reading order from positioned PDF text items (pdfjs
+ * `getTextContent`). Joining items in stream order interleaves two-column
+ * forms line by line; this engine groups items into lines, detects a column
+ * gutter and emits each column top-to-bottom, keeping full-width headings in
+ * place between column bands.
+ *
+ * This is a pure engine — no Firestore or pdfjs dependencies.
+ */
+
+import type { PageText } from './ingestionEngine';
+
+// ════════════════════════════════════════════════════════════════════════
+// Types
+// ════════════════════════════════════════════════════════════════════════
+
+/** One text run in PDF user space (origin bottom-left, y grows upward) */
+export interface PositionedText {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutLine {
+  text: string;
+  /** Baseline of the line */
+  y: number;
+  x0: number;
+  x1: number;
+  height: number;
+}
+
+export interface PageLayout {
+  text: string;
+  /** 1 for single-column pages, 2 when a gutter was found */
+  columnCount: number;
+  lineCount: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Tuning
+// ════════════════════════════════════════════════════════════════════════
+
+/** The gutter must lie in this horizontal band of the page */
+const GUTTER_BAND = [0.3, 0.7] as const;
+/** Minimum gutter width as a fraction of page width */
+const MIN_GUTTER_RATIO = 0.015;
+/** Items crossing the gutter (headings, footers) tolerated, as a fraction of all items */
+const MAX_SPANNING_RATIO = 0.2;
+/** Each column needs at least this many lines */
+const MIN_COLUMN_LINES = 3;
+/** Gaps wider than this many font heights separate table cells */
+const CELL_GAP_RATIO = 2;
+
+/** Pages with less text than this are OCR candidates */
+export const OCR_MIN_CHARS = 50;
+/** Pages whose text-layer confidence is below this are OCR candidates */
+export const OCR_MIN_CONFIDENCE = 0.5;
+
+// ════════════════════════════════════════════════════════════════════════
+// Lines
+// ════════════════════════════════════════════════════════════════════════
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Group items sharing a baseline into lines, top of page first.
+ * Items on a line are ordered left to right; a space is inserted where
+ * the horizontal gap is wider than a sliver of the font height, and a tab
+ * where it is wide enough to separate table cells.
+ */
+export function groupLines(items: PositionedText[]): LayoutLine[] {
+  const visible = items.filter(i => i.str.trim().length > 0);
+  if (visible.length === 0) return [];
+
+  const tolerance = Math.max(1, median(visible.map(i => i.height)) * 0.5);
+  const sorted = [...visible].sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const groups: PositionedText[][] = [];
+  for (const item of sorted) {
+    const current = groups[groups.length - 1];
+    if (current && Math.abs(current[0].y - item.y) <= tolerance) current.push(item);
+    else groups.push([item]);
+  }
+
+  return groups.map(group => {
+    const runs = [...group].sort((a, b) => a.x - b.x);
+    let text = '';
+    let end = -Infinity;
+    for (const run of runs) {
+      const gap = run.x - end;
+      if (text && gap > run.height * CELL_GAP_RATIO) text = text.trimEnd() + '\t';
+      else if (text && gap > run.height * 0.15 && !text.endsWith(' ') && !run.str.startsWith(' ')) text += ' ';
+      text += text.endsWith('\t') ? run.str.trimStart() : run.str;
+      end = Math.max(end, run.x + run.width);
+    }
+    return {
+      text: text.replace(/[^\S\t]+/g, ' ').replace(/ ?\t ?/g, '\t').trim(),
+      y: median(runs.map(r => r.y)),
+      x0: runs[0].x,
+      x1: end,
+      height: Math.max(...runs.map(r => r.height)),
+    };
+  });
+}
+
+/**
+ * Lines joined top to bottom, with a blank line where the vertical gap is
+ * well above the usual line spacing (paragraph / section breaks).
+ */
+function joinLines(lines: LayoutLine[]): string {
+  const gaps = lines.slice(1).map((l, i) => lines[i].y - l.y).filter(g => g > 0);
+  const spacing = median(gaps);
+  return lines
+    .map((line, i) => {
+      const gap = i > 0 ? lines[i - 1].y - line.y : 0;
+      return (i > 0 && spacing > 0 && gap > spacing * 1.8 ? '\n' : '') + line.text;
+    })
+    .join('\n');
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Columns
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Find the x position of a vertical gutter between two columns, or null
+ * for single-column pages. The gutter is the widest run of the central
+ * band crossed by few items, with enough lines on either side.
+ */
+export function detectColumnGutter(items: PositionedText[], pageWidth: number): number | null {
+  const visible = items.filter(i => i.str.trim().length > 0);
+  if (visible.length < MIN_COLUMN_LINES * 2 || pageWidth <= 0) return null;
+
+  const bins = 200;
+  const binWidth = pageWidth / bins;
+  const crossing = new Array<number>(bins).fill(0);
+  for (const item of visible) {
+    const from = Math.max(0, Math.floor(item.x / binWidth));
+    const to = Math.min(bins - 1, Math.floor((item.x + item.width) / binWidth));
+    for (let b = from; b <= to; b++) crossing[b]++;
+  }
+
+  const allowed = visible.length * MAX_SPANNING_RATIO;
+  const lo = Math.floor(bins * GUTTER_BAND[0]);
+  const hi = Math.ceil(bins * GUTTER_BAND[1]);
+  let best: { start: number; end: number } | null = null;
+  let start = -1;
+  for (let b = lo; b <= hi; b++) {
+    const open = b < hi && crossing[b] <= allowed;
+    if (open && start < 0) start = b;
+    if (!open && start >= 0) {
+      if (!best || b - start > best.end - best.start) best = { start, end: b };
+      start = -1;
+    }
+  }
+  if (!best || (best.end - best.start) * binWidth < pageWidth * MIN_GUTTER_RATIO) return null;
+
+  const gutter = ((best.start + best.end) / 2) * binWidth;
+  const left = groupLines(visible.filter(i => i.x + i.width <= gutter));
+  const right = groupLines(visible.filter(i => i.x >= gutter));
+  if (left.length < MIN_COLUMN_LINES || right.length < MIN_COLUMN_LINES) return null;
+
+  // Real columns share vertical extent; a sidebar label next to a block does not
+  const overlap = Math.min(left[0].y, right[0].y) - Math.max(left[left.length - 1].y, right[right.length - 1].y);
+  if (overlap <= 0) return null;
+
+  return gutter;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Reading order
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Rebuild the page text in reading order. On two-column pages, full-width
+ * lines split the page into bands; each band reads the left column, then
+ * the right.
+ */
+export function reconstructReadingOrder(items: PositionedText[], pageWidth: number): PageLayout {
+  const gutter = detectColumnGutter(items, pageWidth);
+  if (gutter === null) {
+    const lines = groupLines(items);
+    return { text: joinLines(lines), columnCount: 1, lineCount: lines.length };
+  }
+
+  const visible = items.filter(i => i.str.trim().length > 0);
+  const spans = groupLines(visible.filter(i => i.x < gutter && i.x + i.width > gutter));
+  const left = groupLines(visible.filter(i => i.x + i.width <= gutter));
+  const right = groupLines(visible.filter(i => i.x >= gutter));
+
+  const ordered: LayoutLine[] = [];
+  let above = Infinity;
+  for (const boundary of [...spans, null]) {
+    const below = boundary ? boundary.y : -Infinity;
+    const inBand = (l: LayoutLine) => l.y < above && l.y > below;
+    ordered.push(...left.filter(inBand), ...right.filter(inBand));
+    if (boundary) ordered.push(boundary);
+    above = below;
+  }
+
+  // Column breaks restart the vertical walk, so join each run separately
+  const blocks: LayoutLine[][] = [];
+  for (const line of ordered) {
+    const block = blocks[blocks.length - 1];
+    if (block && block[block.length - 1].y > line.y) block.push(line);
+    else blocks.push([line]);
+  }
+
+  return {
+    text: blocks.map(joinLines).join('\n\n'),
+    columnCount: 2,
+    lineCount: ordered.length,
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// OCR selection
+// ════════════════════════════════════════════════════════════════════════
+
+/** Whether a text-layer page should be re-read with OCR */
+export function needsOcr(page: PageText): boolean {
+  return page.charCount < OCR_MIN_CHARS || (page.confidence ?? 1) < OCR_MIN_CONFIDENCE;
+}
+
+/**
+ * Keep the OCR reading of a page only when it is better than the text
+ * layer: more confident, or substantially more text at a usable confidence.
+ */
+export function preferOcr(textPage: PageText, ocrPage: PageText): boolean {
+  const ocrConfidence = ocrPage.confidence ?? 0;
+  if (ocrPage.charCount === 0) return false;
+  if (textPage.charCount < OCR_MIN_CHARS) return ocrConfidence >= 0.3;
+  return ocrConfidence > (textPage.confidence ?? 1);
+}
@@ -0,0 +1,522 @@
+/**
+ * Rate Impact Engine
+ *
+ * Rates a sample book of policies with the current (published) and proposed
+ * (draft) steps of a rate program and summarises the movement for a rate
+ * filing:
+ *  - overall premium-weighted change and the per-policy distribution
+ *  - a histogram of per-policy changes
+ *  - segment changes by state, class and territory
+ *  - capping of per-policy movement and the resulting off-balance factor
+ *  - the same figures per state, for state-scoped filings
+ *
+ * Policies either version cannot rate are reported as failures and left
+ * out of every aggregate.
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import { evaluate } from './ratingEngine';
+import { createHash } from './hashUtils';
+import type { RatingStep, RatingTableData } from '../types/ratingEngine';
+import type {
+  CappingAnalysis,
+  HistogramBucket,
+  PolicyImpactResult,
+  RateImpactAggregates,
+  RateImpactCaps,
+  RateImpactColumnMapping,
+  RateImpactExhibit,
+  RateImpactFailure,
+  RateImpactPolicy,
+  RateImpactSegmentDimension,
+  RateImpactStateFigures,
+  RateImpactSummary,
+  SegmentImpact,
+} from '../types/rateImpact';
+
+// ════════════════════════════════════════════════════════════════════════
+// Types
+// ════════════════════════════════════════════════════════════════════════
+
+export interface RateImpactInput {
+  policies: RateImpactPolicy[];
+  currentSteps: RatingStep[];
+  currentVersionId: string;
+  proposedSteps: RatingStep[];
+  proposedVersionId: string;
+  tables?: Map<string, RatingTableData>;
+  effectiveDate: Date;
+  /** Output field compared between versions (default 'final_premium') */
+  premiumField?: string;
+  caps?: RateImpactCaps;
+  /** Histogram bucket edges in percent, ascending */
+  histogramEdges?: number[];
+}
+
+export interface RateImpactOutput extends RateImpactAggregates {
+  policies: PolicyImpactResult[];
+  failures: RateImpactFailure[];
+  /** Aggregates over each state's policies, keyed by state code */
+  byState: Record<string, RateImpactAggregates>;
+}
+
+export interface PolicySampleParseResult {
+  policies: RateImpactPolicy[];
+  errors: { row: number; message: string }[];
+}
+
+export const DEFAULT_HISTOGRAM_EDGES = [-25, -15, -10, -5, -2.5, 0, 2.5, 5, 10, 15, 25];
+
+const DEFAULT_PREMIUM_FIELD = 'final_premium';
+const TOP_MOVER_COUNT = 25;
+const MAX_STORED_FAILURES = 100;
+
+const SEGMENT_KEYS: Record<RateImpactSegmentDimension, keyof RateImpactPolicy> = {
+  state: 'stateCode',
+  class: 'classCode',
+  territory: 'territory',
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// Sample parsing
+// ════════════════════════════════════════════════════════════════════════
+
+type IdentifyingColumn = Exclude<keyof RateImpactColumnMapping, 'codeColumns'>;
+
+const COLUMN_ALIASES: Record<IdentifyingColumn, string[]> = {
+  policyId: ['policy_id', 'policyid', 'policy_number', 'policy_no', 'policy'],
+  stateCode: ['state_code', 'statecode', 'state'],
+  classCode: ['class_code', 'classcode', 'class'],
+  territory: ['territory', 'territory_code', 'terr'],
+};
+
+/**
+ * Guess the identifying columns from sample headers.
+ * Returns null when no policy ID column can be found.
+ */
+export function detectColumnMapping(headers: string[]): RateImpactColumnMapping | null {
+  const normalized = new Map(headers.map(h => [h.trim().toLowerCase().replace(/[\s-]+/g, '_'), h]));
+  const find = (key: IdentifyingColumn) =>
+    COLUMN_ALIASES[key].map(alias => normalized.get(alias)).find(Boolean);
+
+  const policyId = find('policyId');
+  if (!policyId) return null;
+
+  const stateCode = find('stateCode');
+  const classCode = find('classCode');
+  const territory = find('territory');
+  return {
+    policyId,
+    ...(stateCode && { stateCode }),
+    ...(classCode && { classCode }),
+    ...(territory && { territory }),
+  };
+}
+
+/**
+ * Coerce a spreadsheet cell into a rating input value. Code columns stay
+ * text, and so does any value with a leading zero ("007", "02134"), since
+ * zip, class and territory codes lose meaning as numbers.
+ */
+function coerceCell(value: unknown, isCode = false): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return null;
+    return isCode ? String(value) : value;
+  }
+  if (typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+
+  const text = String(value).trim();
+  if (text === '') return null;
+  if (isCode) return text;
+  const lower = text.toLowerCase();
+  if (lower === 'true') return true;
+  if (lower === 'false') return false;
+
+  const numeric = text.replace(/[$,]/g, '');
+  if (/^-?\d+(\.\d+)?$/.test(numeric) && !/^-?0\d/.test(numeric)) return Number(numeric);
+  return text;
+}
+
+/**
+ * Turn sheet rows (as produced by `XLSX.utils.sheet_to_json`) into policies.
+ * Every column except the policy ID becomes a rating input; rows without a
+ * policy ID or with a duplicate one are reported and skipped.
+ */
+export function parsePolicySample(
+  rows: Record<string, unknown>[],
+  mapping: RateImpactColumnMapping,
+): PolicySampleParseResult {
+  const policies: RateImpactPolicy[] = [];
+  const errors: PolicySampleParseResult['errors'] = [];
+  const seen = new Set<string>();
+  const codeColumns = new Set([
+    mapping.policyId, mapping.stateCode, mapping.classCode, mapping.territory, ...(mapping.codeColumns ?? []),
+  ].filter((column): column is string => !!column));
+
+  rows.forEach((row, index) => {
+    // Row 1 of the sheet is the header
+    const rowNumber = index + 2;
+    const policyId = coerceCell(row[mapping.policyId], true);
+    if (policyId === null) {
+      errors.push({ row: rowNumber, message: `Missing ${mapping.policyId}` });
+      return;
+    }
+    const id = String(policyId);
+    if (seen.has(id)) {
+      errors.push({ row: rowNumber, message: `Duplicate policy ${id}` });
+      return;
+    }
+    seen.add(id);
+
+    const inputs: RateImpactPolicy['inputs'] = {};
+    for (const [column, value] of Object.entries(row)) {
+      if (column === mapping.policyId) continue;
+      inputs[column] = coerceCell(value, codeColumns.has(column));
+    }
+
+    const segment = (column?: string) => {
+      const value = column ? inputs[column] : null;
+      return value === null || value === undefined ? undefined : String(value);
+    };
+    const stateCode = segment(mapping.stateCode);
+    const classCode = segment(mapping.classCode);
+    const territory = segment(mapping.territory);
+
+    policies.push({
+      policyId: id,
+      ...(stateCode && { stateCode }),
+      ...(classCode && { classCode }),
+      ...(territory && { territory }),
+      inputs,
+    });
+  });
+
+  return { policies, errors };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════════════════════════════
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function pctChange(from: number, to: number): number {
+  return from === 0 ? 0 : ((to - from) / from) * 100;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
+
+function median(sorted: number[]): number {
+  if (sorted.length === 0) return 0;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function ratePolicy(
+  policy: RateImpactPolicy,
+  steps: RatingStep[],
+  versionId: string,
+  input: RateImpactInput,
+  premiumField: string,
+): { premium: number } | { message: string } {
+  const result = evaluate(steps, {
+    inputs: policy.inputs,
+    state: policy.stateCode,
+    effectiveDate: input.effectiveDate,
+    tables: input.tables,
+  }, versionId);
+
+  if (!result.success) {
+    return { message: result.errors.map(e => e.message).join('; ') || 'Evaluation failed' };
+  }
+  const premium = result.outputs[premiumField];
+  if (premium === undefined) {
+    return { message: `${premiumField} was not produced` };
+  }
+  return { premium };
+}
+
+/** Apply per-policy caps to an uncapped change */
+function applyCaps(changePct: number, caps: RateImpactCaps): { pct: number; capped: PolicyImpactResult['capped'] } {
+  if (caps.maxIncreasePct !== undefined && changePct > caps.maxIncreasePct) {
+    return { pct: caps.maxIncreasePct, capped: 'increase' };
+  }
+  if (caps.maxDecreasePct !== undefined && changePct < -caps.maxDecreasePct) {
+    return { pct: -caps.maxDecreasePct, capped: 'decrease' };
+  }
+  return { pct: changePct, capped: null };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Aggregates
+// ════════════════════════════════════════════════════════════════════════
+
+export function summarizeImpact(
+  results: PolicyImpactResult[],
+  policyCount: number,
+  failedCount: number,
+): RateImpactSummary {
+  const current = sum(results.map(r => r.currentPremium));
+  const proposed = sum(results.map(r => r.proposedPremium));
+  const changes = results.map(r => r.changePct).sort((a, b) => a - b);
+
+  return {
+    policyCount,
+    ratedCount: results.length,
+    failedCount,
+    currentPremium: round(current),
+    proposedPremium: round(proposed),
+    changePct: round(pctChange(current, proposed)),
+    averageChangePct: round(changes.length > 0 ? sum(changes) / changes.length : 0),
+    medianChangePct: round(median(changes)),
+    minChangePct: round(changes[0] ?? 0),
+    maxChangePct: round(changes[changes.length - 1] ?? 0),
+    increasedCount: results.filter(r => r.proposedPremium > r.currentPremium).length,
+    decreasedCount: results.filter(r => r.proposedPremium < r.currentPremium).length,
+    unchangedCount: results.filter(r => r.proposedPremium === r.currentPremium).length,
+  };
+}
+
+/**
+ * Bucket per-policy changes into half-open intervals [edge, next edge),
+ * with open-ended buckets below the first and above the last edge.
+ */
+export function buildHistogram(changes: number[], edges: number[] = DEFAULT_HISTOGRAM_EDGES): HistogramBucket[] {
+  const sorted = [...new Set(edges)].sort((a, b) => a - b);
+  const bounds: [number | null, number | null][] = [];
+  if (sorted.length === 0) {
+    bounds.push([null, null]);
+  } else {
+    bounds.push([null, sorted[0]]);
+    for (let i = 0; i < sorted.length - 1; i++) bounds.push([sorted[i], sorted[i + 1]]);
+    bounds.push([sorted[sorted.length - 1], null]);
+  }
+
+  return bounds.map(([min, max]) => {
+    const count = changes.filter(c => (min === null || c >= min) && (max === null || c < max)).length;
+    const label = min === null && max === null ? 'All'
+      : min === null ? `< ${max}%`
+      : max === null ? `≥ ${min}%`
+      : `${min}% to ${max}%`;
+    return {
+      label,
+      min,
+      max,
+      count,
+      pctOfPolicies: round(changes.length > 0 ? (count / changes.length) * 100 : 0),
+    };
+  });
+}
+
+/**
+ * Premium-weighted change per segment value, largest movement first.
+ * Policies with no value for a dimension are grouped under "Unknown".
+ */
+export function buildSegments(results: PolicyImpactResult[]): SegmentImpact[] {
+  const segments: SegmentImpact[] = [];
+
+  for (const dimension of Object.keys(SEGMENT_KEYS) as RateImpactSegmentDimension[]) {
+    const key = SEGMENT_KEYS[dimension] as 'stateCode' | 'classCode' | 'territory';
+    if (!results.some(r => r[key] !== undefined)) continue;
+
+    const groups = new Map<string, PolicyImpactResult[]>();
+    for (const r of results) {
+      const value = r[key] ?? 'Unknown';
+      if (!groups.has(value)) groups.set(value, []);
+      groups.get(value)!.push(r);
+    }
+
+    const rows = [...groups.entries()].map(([value, members]) => {
+      const current = sum(members.map(m => m.currentPremium));
+      const proposed = sum(members.map(m => m.proposedPremium));
+      return {
+        dimension,
+        key: value,
+        policyCount: members.length,
+        currentPremium: round(current),
+        proposedPremium: round(proposed),
+        changePct: round(pctChange(current, proposed)),
+      };
+    });
+    rows.sort((a, b) => Math.abs(b.changePct) - Math.abs(a.changePct) || a.key.localeCompare(b.key));
+    segments.push(...rows);
+  }
+
+  return segments;
+}
+
+export function analyzeCapping(results: PolicyImpactResult[], caps: RateImpactCaps): CappingAnalysis {
+  const uncapped = sum(results.map(r => r.proposedPremium));
+  const capped = sum(results.map(r => r.cappedPremium));
+  const current = sum(results.map(r => r.currentPremium));
+
+  return {
+    maxIncreasePct: caps.maxIncreasePct ?? null,
+    maxDecreasePct: caps.maxDecreasePct ?? null,
+    cappedIncreaseCount: results.filter(r => r.capped === 'increase').length,
+    cappedDecreaseCount: results.filter(r => r.capped === 'decrease').length,
+    uncappedPremium: round(uncapped),
+    cappedPremium: round(capped),
+    cappedChangePct: round(pctChange(current, capped)),
+    offBalanceFactor: capped === 0 ? 1 : round(uncapped / capped, 4),
+  };
+}
+
+function aggregateImpact(
+  results: PolicyImpactResult[],
+  policyCount: number,
+  failedCount: number,
+  input: RateImpactInput,
+): RateImpactAggregates {
+  return {
+    summary: summarizeImpact(results, policyCount, failedCount),
+    histogram: buildHistogram(results.map(r => r.changePct), input.histogramEdges),
+    segments: buildSegments(results),
+    capping: analyzeCapping(results, input.caps ?? {}),
+  };
+}
+
+/**
+ * Aggregates restricted to each state's policies. Failures count against
+ * the state of the policy that failed; the state segment row is dropped
+ * since it would repeat the summary.
+ */
+function aggregateByState(
+  input: RateImpactInput,
+  results: PolicyImpactResult[],
+  failures: RateImpactFailure[],
+): Record<string, RateImpactAggregates> {
+  const stateOf = new Map(input.policies.map(p => [p.policyId, p.stateCode]));
+  const states = [...new Set(input.policies.map(p => p.stateCode).filter((s): s is string => !!s))].sort();
+
+  const byState: Record<string, RateImpactAggregates> = {};
+  for (const state of states) {
+    const aggregates = aggregateImpact(
+      results.filter(r => r.stateCode === state),
+      input.policies.filter(p => p.stateCode === state).length,
+      failures.filter(f => stateOf.get(f.policyId) === state).length,
+      input,
+    );
+    byState[state] = { ...aggregates, segments: aggregates.segments.filter(s => s.dimension !== 'state') };
+  }
+  return byState;
+}
+
+/** Largest movers by absolute change */
+function topMovers(policies: PolicyImpactResult[]): PolicyImpactResult[] {
+  return [...policies]
+    .sort((a, b) => Math.abs(b.changePct) - Math.abs(a.changePct) || a.policyId.localeCompare(b.policyId))
+    .slice(0, TOP_MOVER_COUNT);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Main entry point
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Rate every policy with both versions and build the impact aggregates.
+ */
+export function runRateImpact(input: RateImpactInput): RateImpactOutput {
+  const premiumField = input.premiumField ?? DEFAULT_PREMIUM_FIELD;
+  const caps = input.caps ?? {};
+  const results: PolicyImpactResult[] = [];
+  const failures: RateImpactFailure[] = [];
+
+  for (const policy of input.policies) {
+    const current = ratePolicy(policy, input.currentSteps, input.currentVersionId, input, premiumField);
+    if ('message' in current) {
+      failures.push({ policyId: policy.policyId, version: 'current', message: current.message });
+      continue;
+    }
+    const proposed = ratePolicy(policy, input.proposedSteps, input.proposedVersionId, input, premiumField);
+    if ('message' in proposed) {
+      failures.push({ policyId: policy.policyId, version: 'proposed', message: proposed.message });
+      continue;
+    }
+    if (current.premium <= 0) {
+      failures.push({ policyId: policy.policyId, version: 'current', message: 'Current premium is not positive' });
+      continue;
+    }
+
+    const changePct = pctChange(current.premium, proposed.premium);
+    const { pct: cappedPct, capped } = applyCaps(changePct, caps);
+    const cappedPremium = capped ? current.premium * (1 + cappedPct / 100) : proposed.premium;
+
+    results.push({
+      policyId: policy.policyId,
+      ...(policy.stateCode && { stateCode: policy.stateCode }),
+      ...(policy.classCode && { classCode: policy.classCode }),
+      ...(policy.territory && { territory: policy.territory }),
+      currentPremium: round(current.premium),
+      proposedPremium: round(proposed.premium),
+      cappedPremium: round(cappedPremium),
+      changePct: round(changePct),
+      cappedChangePct: round(cappedPct),
+      capped,
+    });
+  }
+
+  return {
+    policies: results,
+    failures,
+    ...aggregateImpact(results, input.policies.length, failures.length, input),
+    byState: aggregateByState(input, results, failures),
+  };
+}
+
+/**
+ * Reduce an impact run to the exhibit document saved to Firestore and
+ * included in filing packages. Only the largest movers are kept, overall
+ * and per state.
+ */
+export function buildRateImpactExhibit(
+  output: RateImpactOutput,
+  meta: {
+    title: string;
+    rateProgramId: string;
+    rateProgramName?: string;
+    currentVersionId: string;
+    proposedVersionId: string;
+    effectiveDate: Date;
+    premiumField?: string;
+    sampleFileName?: string;
+    changeSetId?: string;
+  },
+): Omit<RateImpactExhibit, 'id' | 'createdAt' | 'createdBy'> {
+  const stateFigures: Record<string, RateImpactStateFigures> = {};
+  for (const [state, aggregates] of Object.entries(output.byState)) {
+    stateFigures[state] = { ...aggregates, topMovers: topMovers(output.policies.filter(p => p.stateCode === state)) };
+  }
+
+  const body = {
+    summary: output.summary,
+    histogram: output.histogram,
+    segments: output.segments,
+    capping: output.capping,
+    topMovers: topMovers(output.policies),
+    failures: output.failures.slice(0, MAX_STORED_FAILURES),
+    ...(Object.keys(stateFigures).length > 0 && { stateFigures }),
+  };
+
+  return {
+    title: meta.title,
+    rateProgramId: meta.rateProgramId,
+    ...(meta.rateProgramName && { rateProgramName: meta.rateProgramName }),
+    currentVersionId: meta.currentVersionId,
+    proposedVersionId: meta.proposedVersionId,
+    effectiveDate: meta.effectiveDate.toISOString().slice(0, 10),
+    premiumField: meta.premiumField ?? DEFAULT_PREMIUM_FIELD,
+    ...(meta.sampleFileName && { sampleFileName: meta.sampleFileName }),
+    ...(meta.changeSetId && { changeSetId: meta.changeSetId }),
+    ...body,
+    resultHash: createHash({ versions: [meta.currentVersionId, meta.proposedVersionId], ...body }),
+  };
+}
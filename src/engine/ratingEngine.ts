@@ -21,8 +21,35 @@ import {
   DeterminismWarning,
   DependencyNode,
   RatingTableData,
+  RatingTableDimension,
+  TableLookupMode,
+  InterpolationScale,
+  TableLookupDetail,
+  DimensionResolution,
+  ExpressionNode,
+  AggregationMethod,
+  AggregationTraceEntry,
+  MultiUnitEvaluationContext,
+  PolicyAggregation,
+  PolicyEvaluationResult,
+  UnitEvaluationResult,
+  RatingTestCase,
+  TestRunResult,
+  TestDifference,
+  ShortRateEntry,
+  TermAdjustmentDetail,
 } from '../types/ratingEngine';
-import { createHash, hashSteps, hashInputs, hashOutputs, combineHashes } from './hashUtils';
+import type { DimensionRange, TableVersion } from '../types/table';
+import { createHash, hashSteps, hashRateProgram, hashInputs, hashOutputs, combineHashes } from './hashUtils';
+import {
+  ExpressionError,
+  parseExpression,
+  getStepAst,
+  evaluateNode,
+  renderExpression,
+  collectFieldReferences,
+  collectTableReferences,
+} from './expressionParser';
 
 // ============================================================================
 // Topological Sort & Cycle Detection
@@ -34,15 +61,22 @@ interface TopologicalSortResult {
   cycleSteps?: string[];
 }
 
+/** All field codes a step writes: its output plus any secondary outputs */
+function stepOutputFields(step: RatingStep): string[] {
+  return step.unearnedFieldCode
+    ? [step.outputFieldCode, step.unearnedFieldCode]
+    : [step.outputFieldCode];
+}
+
 /**
  * Perform topological sort on rating steps based on field dependencies.
  * Uses Kahn's algorithm for deterministic ordering.
  */
 export function topologicalSort(steps: RatingStep[]): TopologicalSortResult {
-  // Build dependency graph: outputFieldCode -> step
+  // Build dependency graph: output field code -> step
   const outputToStep = new Map<string, RatingStep>();
   steps.forEach(step => {
-    outputToStep.set(step.outputFieldCode, step);
+    stepOutputFields(step).forEach(code => outputToStep.set(code, step));
   });
 
   // Build adjacency list and in-degree count
@@ -189,94 +223,265 @@ function bankersRound(value: number): number {
 }
 
 // ============================================================================
-// Expression Parser
+// Expression Evaluation
 // ============================================================================
 
+/**
+ * Evaluate a parsed expression AST and render the value-substituted
+ * formula for the trace.
+ */
+function evaluateAst(
+  ast: ExpressionNode,
+  values: Record<string, number>,
+  tables?: Map<string, RatingTableData>
+): { result: number; evaluatedExpression: string } {
+  const result = evaluateNode(ast, { values, tables });
+  if (!Number.isFinite(result)) {
+    throw new ExpressionError('NON_FINITE_RESULT', `Expression evaluated to invalid result: ${result}`, ast.column);
+  }
+  return { result, evaluatedExpression: renderExpression(ast, values) };
+}
+
 /**
  * Parse and evaluate a mathematical expression with variable substitution.
- * Supports: +, -, *, /, ^, parentheses, and field code references.
+ * Supports +, -, *, /, %, ^, comparisons, && / ||, parentheses, field code
+ * references and the functions min, max, round, clamp, if, lookup, abs,
+ * floor and ceil. Throws ExpressionError with a column position on failure.
  */
 export function evaluateExpression(
   expression: string,
-  values: Record<string, number>
+  values: Record<string, number>,
+  tables?: Map<string, RatingTableData>
 ): { result: number; evaluatedExpression: string } {
-  // Substitute field codes with values
-  let evaluatedExpression = expression;
-
-  // Find all field codes (alphanumeric with underscores)
-  const fieldCodePattern = /\b([a-zA-Z_][a-zA-Z0-9_]*)\b/g;
-  let match;
-
-  while ((match = fieldCodePattern.exec(expression)) !== null) {
-    const fieldCode = match[1];
-    // Skip math functions and constants
-    if (['Math', 'PI', 'E', 'abs', 'min', 'max', 'pow', 'sqrt', 'floor', 'ceil', 'round'].includes(fieldCode)) {
-      continue;
-    }
+  return evaluateAst(parseExpression(expression), values, tables);
+}
 
-    if (fieldCode in values) {
-      const value = values[fieldCode];
-      evaluatedExpression = evaluatedExpression.replace(
-        new RegExp(`\\b${fieldCode}\\b`, 'g'),
-        String(value)
-      );
-    }
+// ============================================================================
+// Table Lookup
+// ============================================================================
+
+/** Options controlling how dimension values are matched to table cells */
+export interface TableLookupOptions {
+  mode?: TableLookupMode;
+  interpolationScale?: InterpolationScale;
+}
+
+/** Result of a successful table lookup */
+export interface TableLookupResult {
+  value: number;
+  lookupKey: string;
+  detail: TableLookupDetail;
+}
+
+/** Candidate cells for one dimension: dimension value label and weight */
+type DimensionCandidates = { label: string; weight: number }[];
+
+/** Whether a numeric input falls within a dimension range */
+function isInRange(value: number, range: DimensionRange): boolean {
+  const aboveMin = range.inclusive === 'both' || range.inclusive === 'min'
+    ? value >= range.min
+    : value > range.min;
+  const belowMax = range.inclusive === 'both' || range.inclusive === 'max'
+    ? value <= range.max
+    : value < range.max;
+  return aboveMin && belowMax;
+}
+
+/** Numeric breakpoints of a dimension sorted ascending, or null if not numeric */
+function numericBreakpoints(dimension: RatingTableDimension): { label: string; value: number }[] | null {
+  if (dimension.valueType === 'string' || dimension.valueType === 'range') {
+    return null;
   }
+  const points = dimension.values.map(label => ({ label, value: Number(label) }));
+  if (points.length === 0 || points.some(p => p.label.trim() === '' || !Number.isFinite(p.value))) {
+    return null;
+  }
+  return points.sort((a, b) => a.value - b.value);
+}
 
-  // Safe evaluation using Function constructor (no eval)
-  try {
-    // Only allow safe mathematical operations
-    const sanitized = evaluatedExpression
-      .replace(/Math\./g, 'Math.')
-      .replace(/[^0-9+\-*/().^,\s]/g, '');
+/**
+ * Resolve one dimension's input to candidate cells. Returns null when the
+ * input cannot be matched.
+ */
+function resolveDimension(
+  dimension: RatingTableDimension,
+  input: string | number,
+  mode: TableLookupMode,
+  scale: InterpolationScale
+): { candidates: DimensionCandidates; resolution: DimensionResolution } | null {
+  const numericInput = typeof input === 'number' ? input : Number(input);
+  const base = { fieldCode: dimension.fieldCode, inputValue: input };
+
+  // Range buckets apply in every non-exact mode
+  if (mode !== 'exact' && dimension.ranges && dimension.ranges.length > 0) {
+    if (!Number.isFinite(numericInput)) return null;
+    const range = dimension.ranges.find(r => isInRange(numericInput, r));
+    if (!range) return null;
+    return {
+      candidates: [{ label: range.label, weight: 1 }],
+      resolution: { ...base, method: 'range', matchedValue: range.label, range },
+    };
+  }
 
-    // Convert ^ to ** for exponentiation
-    const withExponent = sanitized.replace(/\^/g, '**');
+  const breakpoints = mode === 'interpolate' || mode === 'nearestLower'
+    ? numericBreakpoints(dimension)
+    : null;
 
-    // eslint-disable-next-line no-new-func
-    const fn = new Function(`return (${withExponent})`);
-    const result = fn();
+  if (breakpoints && Number.isFinite(numericInput)) {
+    if (mode === 'nearestLower') {
+      let match: { label: string; value: number } | undefined;
+      for (const point of breakpoints) {
+        if (point.value <= numericInput) match = point;
+      }
+      if (!match) return null;
+      return {
+        candidates: [{ label: match.label, weight: 1 }],
+        resolution: { ...base, method: 'nearestLower', matchedValue: match.label },
+      };
+    }
 
-    if (typeof result !== 'number' || !Number.isFinite(result)) {
-      throw new Error(`Expression evaluated to invalid result: ${result}`);
+    // Interpolation: no extrapolation beyond the first or last breakpoint
+    const first = breakpoints[0];
+    const last = breakpoints[breakpoints.length - 1];
+    if (numericInput < first.value || numericInput > last.value) return null;
+
+    const exact = breakpoints.find(p => p.value === numericInput);
+    if (exact) {
+      return {
+        candidates: [{ label: exact.label, weight: 1 }],
+        resolution: { ...base, method: 'interpolate', lowerBreakpoint: exact.label, upperBreakpoint: exact.label, fraction: 0 },
+      };
     }
 
-    return { result, evaluatedExpression };
-  } catch (error) {
-    throw new Error(`Failed to evaluate expression "${expression}": ${error}`);
+    const upperIndex = breakpoints.findIndex(p => p.value > numericInput);
+    const lower = breakpoints[upperIndex - 1];
+    const upper = breakpoints[upperIndex];
+
+    let fraction: number;
+    if (scale === 'log') {
+      if (lower.value <= 0 || numericInput <= 0) return null;
+      fraction = (Math.log(numericInput) - Math.log(lower.value)) / (Math.log(upper.value) - Math.log(lower.value));
+    } else {
+      fraction = (numericInput - lower.value) / (upper.value - lower.value);
+    }
+
+    return {
+      candidates: [
+        { label: lower.label, weight: 1 - fraction },
+        { label: upper.label, weight: fraction },
+      ],
+      resolution: {
+        ...base,
+        method: 'interpolate',
+        lowerBreakpoint: lower.label,
+        upperBreakpoint: upper.label,
+        fraction,
+      },
+    };
   }
-}
 
-// ============================================================================
-// Table Lookup
-// ============================================================================
+  const label = String(input);
+  return {
+    candidates: [{ label, weight: 1 }],
+    resolution: { ...base, method: 'exact', matchedValue: label },
+  };
+}
 
 /**
  * Perform a table lookup with the given dimension values.
+ *
+ * In 'exact' mode every dimension value must match a key part verbatim.
+ * Other modes bucket numeric inputs into dimension ranges, and 'interpolate'
+ * and 'nearestLower' additionally resolve numeric dimensions against their
+ * breakpoints. Interpolating several dimensions is multilinear.
  */
 export function tableLookup(
   table: RatingTableData,
-  dimensionValues: Record<string, string | number>
-): { value: number; lookupKey: string } | null {
-  // Build lookup key from dimension values in order
-  const keyParts: string[] = [];
+  dimensionValues: Record<string, string | number>,
+  options: TableLookupOptions = {}
+): TableLookupResult | null {
+  const mode = options.mode ?? 'exact';
+  const scale = options.interpolationScale ?? 'linear';
+  const resolutions: DimensionResolution[] = [];
+  let combinations: { parts: string[]; weight: number }[] = [{ parts: [], weight: 1 }];
 
   for (const dimension of table.dimensions) {
     const value = dimensionValues[dimension.fieldCode];
     if (value === undefined || value === null) {
       return null; // Missing dimension value
     }
-    keyParts.push(String(value));
-  }
 
-  const lookupKey = keyParts.join('-');
-  const value = table.values[lookupKey];
+    const resolved = resolveDimension(dimension, value, mode, scale);
+    if (!resolved) {
+      return null;
+    }
+    resolutions.push(resolved.resolution);
 
-  if (value === undefined) {
-    return null; // No value found for this combination
+    // Expand the cartesian product, dropping zero-weight corners
+    combinations = combinations.flatMap(combo =>
+      resolved.candidates
+        .filter(c => c.weight > 0)
+        .map(c => ({ parts: [...combo.parts, c.label], weight: combo.weight * c.weight }))
+    );
   }
 
-  return { value, lookupKey };
+  const cells: TableLookupDetail['cells'] = [];
+  for (const combo of combinations) {
+    const key = combo.parts.join('-');
+    const cellValue = table.values[key];
+    if (cellValue === undefined) {
+      return null; // No value found for this combination
+    }
+    cells.push({ key, value: cellValue, weight: combo.weight });
+  }
+
+  const value = cells.length === 1
+    ? cells[0].value
+    : cells.reduce((sum, cell) => sum + cell.value * cell.weight, 0);
+
+  return {
+    value,
+    lookupKey: cells.map(c => c.key).join(' | '),
+    detail: {
+      mode,
+      interpolationScale: mode === 'interpolate' ? scale : undefined,
+      dimensions: resolutions,
+      cells,
+    },
+  };
+}
+
+/**
+ * Convert a stored table version into lookup form: dimensions in position
+ * order and values keyed by the dash-joined dimension values. Empty cells
+ * take the table's default value when it has one.
+ */
+export function toRatingTableData(version: TableVersion): RatingTableData {
+  const dimensions = [...version.dimensions].sort((a, b) => a.position - b.position);
+  // Every combination in storage order, first dimension outermost
+  const combinations = dimensions.length === 0 ? [] : dimensions.slice(1).reduce<string[][]>(
+    (acc, dim) => acc.flatMap(prefix => dim.values.map(v => [...prefix, v])),
+    dimensions[0].values.map(v => [v]),
+  );
+
+  const { mode, cells = {}, denseValues = [], defaultValue } = version.cellStorage;
+  const values: Record<string, number> = {};
+  combinations.forEach((parts, index) => {
+    const value = (mode === 'dense' ? denseValues[index] : cells[parts.join('|')]?.value) ?? defaultValue;
+    if (value !== null && value !== undefined) values[parts.join('-')] = value;
+  });
+
+  return {
+    tableVersionId: version.id,
+    dimensions: dimensions.map(d => ({
+      name: d.name,
+      fieldCode: d.fieldCode,
+      values: d.values,
+      valueType: d.valueType,
+      ...(d.ranges && { ranges: d.ranges }),
+    })),
+    values,
+  };
 }
 
 // ============================================================================
@@ -288,7 +493,11 @@ interface StepEvaluationResult {
   applied: boolean;
   skipReason?: string;
   tableLookupKey?: string;
+  tableLookupDetail?: TableLookupDetail;
   evaluatedExpression?: string;
+  termDetail?: TermAdjustmentDetail;
+  /** Secondary outputs keyed by field code (e.g. unearned premium) */
+  additionalOutputs?: Record<string, number>;
   warnings?: string[];
 }
 
@@ -342,7 +551,7 @@ function evaluateStep(
         result = evaluateTableLookupStep(step, context, allValues);
         break;
       case 'expression':
-        result = evaluateExpressionStep(step, allValues);
+        result = evaluateExpressionStep(step, context, allValues);
         break;
       case 'minmax':
         result = evaluateMinMaxStep(step, allValues);
@@ -353,6 +562,9 @@ function evaluateStep(
       case 'conditional':
         result = evaluateConditionalStep(step, context, allValues);
         break;
+      case 'termAdjustment':
+        result = evaluateTermAdjustmentStep(step, context, allValues);
+        break;
       default:
         result = { value: null, applied: false, skipReason: `Unknown step type: ${step.type}` };
     }
@@ -445,12 +657,15 @@ function evaluateTableLookupStep(
     }
   }
 
-  const lookupResult = tableLookup(table, dimensionValues);
+  const lookupResult = tableLookup(table, dimensionValues, {
+    mode: step.lookupMode,
+    interpolationScale: step.interpolationScale,
+  });
   if (!lookupResult) {
     return {
       value: null,
       applied: false,
-      skipReason: 'Table lookup failed - no matching value',
+      skipReason: `Table lookup failed - no matching value (${step.lookupMode ?? 'exact'} mode)`,
       tableLookupKey: Object.values(dimensionValues).join('-'),
     };
   }
@@ -459,12 +674,14 @@ function evaluateTableLookupStep(
     value: lookupResult.value,
     applied: true,
     tableLookupKey: lookupResult.lookupKey,
+    tableLookupDetail: lookupResult.detail,
   };
 }
 
 /** Evaluate an expression step */
 function evaluateExpressionStep(
   step: RatingStep,
+  context: EvaluationContext,
   values: Record<string, number>
 ): StepEvaluationResult {
   if (!step.expression) {
@@ -472,7 +689,7 @@ function evaluateExpressionStep(
   }
 
   try {
-    const { result, evaluatedExpression } = evaluateExpression(step.expression, values);
+    const { result, evaluatedExpression } = evaluateAst(getStepAst(step), values, context.tables);
     return { value: result, applied: true, evaluatedExpression };
   } catch (error) {
     return {
@@ -568,6 +785,114 @@ function evaluateConditionalStep(
   return { value, applied: true };
 }
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Whole days between two dates, counted on UTC calendar days */
+function daysBetween(from: Date, to: Date): number {
+  const start = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+  const end = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate());
+  return Math.round((end - start) / MS_PER_DAY);
+}
+
+/**
+ * Evaluate a term adjustment step - split the full-term premium into earned
+ * and unearned portions as of the transaction date.
+ *
+ * Minimum earned rules apply to pro-rata and short-rate only; a flat cancel
+ * earns nothing.
+ */
+function evaluateTermAdjustmentStep(
+  step: RatingStep,
+  context: EvaluationContext,
+  values: Record<string, number>
+): StepEvaluationResult {
+  const term = context.policyTerm;
+  if (!term) {
+    return { value: null, applied: false, skipReason: 'No policy term provided' };
+  }
+
+  const premiumCode = step.inputs[0];
+  if (!premiumCode || !(premiumCode in values)) {
+    return { value: null, applied: false, skipReason: `Premium field ${premiumCode} not available` };
+  }
+  const fullTermPremium = values[premiumCode];
+
+  const termDays = daysBetween(term.effectiveDate, term.expirationDate);
+  if (termDays <= 0) {
+    return { value: null, applied: false, skipReason: 'Policy expiration must be after the effective date' };
+  }
+
+  // No transaction date means the whole term is written, so all of it earns
+  const transactionDate = term.transactionDate ?? term.expirationDate;
+  const daysInForce = daysBetween(term.effectiveDate, transactionDate);
+  if (daysInForce < 0 || daysInForce > termDays) {
+    return { value: null, applied: false, skipReason: 'Transaction date is outside the policy term' };
+  }
+
+  const method = step.earningMethod ?? 'proRata';
+  const elapsed = daysInForce / termDays;
+  let earnedFraction: number;
+  let shortRateEntry: ShortRateEntry | undefined;
+
+  switch (method) {
+    case 'proRata':
+      earnedFraction = elapsed;
+      break;
+    case 'shortRate': {
+      const table = [...(step.shortRateTable ?? [])].sort((a, b) => a.termPercent - b.termPercent);
+      if (table.length === 0) {
+        return { value: null, applied: false, skipReason: 'No short-rate table specified' };
+      }
+      const elapsedPercent = elapsed * 100;
+      shortRateEntry = table.find(entry => elapsedPercent <= entry.termPercent) ?? table[table.length - 1];
+      earnedFraction = shortRateEntry.earnedPercent / 100;
+      break;
+    }
+    case 'flat':
+      earnedFraction = 0;
+      break;
+    default:
+      return { value: null, applied: false, skipReason: `Unknown earning method: ${method}` };
+  }
+
+  let earnedPremium = fullTermPremium * earnedFraction;
+  let minimumApplied: number | undefined;
+  const warnings: string[] = [];
+
+  if (method !== 'flat') {
+    const minimum = Math.max(
+      step.minimumEarnedPremium ?? 0,
+      fullTermPremium * (step.minimumEarnedFraction ?? 0)
+    );
+    if (minimum > earnedPremium) {
+      minimumApplied = Math.min(minimum, fullTermPremium);
+      warnings.push(`Earned premium ${earnedPremium} raised to minimum earned ${minimumApplied}`);
+      earnedPremium = minimumApplied;
+    }
+  }
+
+  const unearnedPremium = fullTermPremium - earnedPremium;
+
+  return {
+    value: earnedPremium,
+    applied: true,
+    additionalOutputs: step.unearnedFieldCode ? { [step.unearnedFieldCode]: unearnedPremium } : undefined,
+    termDetail: {
+      method,
+      transactionType: term.transactionType,
+      termDays,
+      daysInForce,
+      earnedFraction,
+      shortRateEntry,
+      fullTermPremium,
+      minimumApplied,
+      earnedPremium,
+      unearnedPremium,
+    },
+    warnings,
+  };
+}
+
 /** Evaluate a step condition */
 function evaluateCondition(
   condition: RatingStep['condition'],
@@ -668,6 +993,10 @@ export function evaluate(
       preRoundingValue = finalValue;
       finalValue = applyRounding(finalValue, step.roundingMode, step.roundingPrecision);
       computedValues[step.outputFieldCode] = finalValue;
+
+      for (const [fieldCode, value] of Object.entries(evalResult.additionalOutputs ?? {})) {
+        computedValues[fieldCode] = applyRounding(value, step.roundingMode, step.roundingPrecision);
+      }
     }
 
     // Build trace entry
@@ -683,7 +1012,9 @@ export function evaluate(
       applied: evalResult.applied,
       skipReason: evalResult.skipReason,
       tableLookupKey: evalResult.tableLookupKey,
+      tableLookupDetail: evalResult.tableLookupDetail,
       evaluatedExpression: evalResult.evaluatedExpression,
+      termDetail: evalResult.termDetail,
       preRoundingValue,
       roundingMode: step.roundingMode,
       executionTimeMs: performance.now() - stepStartTime,
@@ -719,7 +1050,9 @@ export function evaluate(
   const outputsHash = hashOutputs(computedValues);
   const inputsHash = hashInputs(context.inputs);
   const stepsHash = hashSteps(steps as unknown as { id: string; [key: string]: unknown }[]);
-  const resultHash = combineHashes(inputsHash, stepsHash, outputsHash);
+  const resultHash = context.resolvedVersions
+    ? combineHashes(inputsHash, stepsHash, outputsHash, context.resolvedVersions.resolutionHash)
+    : combineHashes(inputsHash, stepsHash, outputsHash);
 
   return {
     success: errors.length === 0,
@@ -733,6 +1066,164 @@ export function evaluate(
     evaluatedAt: new Date(),
     rateProgramVersionId,
     stepsHash,
+    resolvedVersions: context.resolvedVersions,
+  };
+}
+
+// ============================================================================
+// Multi-Unit Evaluation
+// ============================================================================
+
+/** Combine unit values with the given aggregation method */
+function aggregateValues(values: number[], method: AggregationMethod): number | null {
+  if (values.length === 0) return null;
+  switch (method) {
+    case 'sum':
+      return values.reduce((sum, v) => sum + v, 0);
+    case 'max':
+      return Math.max(...values);
+    case 'min':
+      return Math.min(...values);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Rate several exposure units (location × building × coverage) and roll them
+ * up to a policy premium.
+ *
+ * The step graph runs once per unit with the unit's inputs layered over the
+ * policy inputs. The aggregation stage then applies each rule in order
+ * (sum / max / min with an optional minimum premium), and finally runs any
+ * policy-level steps against the policy inputs plus the aggregated fields.
+ */
+export function evaluatePolicy(
+  steps: RatingStep[],
+  context: MultiUnitEvaluationContext,
+  rateProgramVersionId: string,
+  aggregation: PolicyAggregation
+): PolicyEvaluationResult {
+  const startTime = performance.now();
+  const errors: EvaluationError[] = [];
+  const warnings: string[] = [];
+
+  // Stage 1: rate each unit
+  const units: UnitEvaluationResult[] = context.units.map(unit => {
+    const result = evaluate(
+      steps,
+      {
+        inputs: { ...context.policyInputs, ...unit.inputs },
+        state: unit.state ?? context.state,
+        effectiveDate: context.effectiveDate,
+        tables: context.tables,
+        policyTerm: context.policyTerm,
+        resolvedVersions: context.resolvedVersions,
+      },
+      rateProgramVersionId
+    );
+
+    errors.push(...result.errors.map(e => ({ ...e, message: `[${unit.label ?? unit.id}] ${e.message}` })));
+    warnings.push(...result.warnings.map(w => `[${unit.label ?? unit.id}] ${w}`));
+
+    return {
+      unitId: unit.id,
+      locationId: unit.locationId,
+      buildingId: unit.buildingId,
+      coverageId: unit.coverageId,
+      label: unit.label,
+      result,
+    };
+  });
+
+  // Stage 2: roll unit values up to policy-level fields
+  const aggregated: Record<string, number> = {};
+  const aggregationTrace: AggregationTraceEntry[] = [];
+
+  for (const rule of aggregation.rules) {
+    const contributions = units.map(u => ({
+      unitId: u.unitId,
+      value: u.result.outputs[rule.sourceFieldCode] ?? null,
+    }));
+    const present = contributions.filter(c => c.value !== null).map(c => c.value as number);
+    const aggregatedValue = aggregateValues(present, rule.method);
+
+    let outputValue = aggregatedValue;
+    let minimumApplied: number | undefined;
+    if (rule.minimumPremium !== undefined && (outputValue === null || outputValue < rule.minimumPremium)) {
+      minimumApplied = rule.minimumPremium;
+      outputValue = rule.minimumPremium;
+      warnings.push(`${rule.name}: raised to minimum premium ${rule.minimumPremium}`);
+    }
+
+    if (outputValue === null) {
+      errors.push({
+        code: 'AGGREGATION_FAILED',
+        message: `${rule.name}: no unit produced ${rule.sourceFieldCode}`,
+        fieldCode: rule.outputFieldCode,
+      });
+    } else {
+      aggregated[rule.outputFieldCode] = outputValue;
+    }
+
+    aggregationTrace.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      method: rule.method,
+      sourceFieldCode: rule.sourceFieldCode,
+      outputFieldCode: rule.outputFieldCode,
+      contributions,
+      aggregatedValue,
+      minimumApplied,
+      outputValue,
+    });
+  }
+
+  // Stage 3: policy-level steps over the aggregated fields
+  let policyTrace: StepTraceEntry[] = [];
+  const outputs: Record<string, number> = { ...aggregated };
+  const policySteps = aggregation.policySteps ?? [];
+
+  if (policySteps.length > 0) {
+    const policyResult = evaluate(
+      policySteps,
+      {
+        inputs: { ...context.policyInputs, ...aggregated },
+        state: context.state,
+        effectiveDate: context.effectiveDate,
+        tables: context.tables,
+        policyTerm: context.policyTerm,
+      },
+      rateProgramVersionId
+    );
+    policyTrace = policyResult.trace;
+    errors.push(...policyResult.errors);
+    warnings.push(...policyResult.warnings);
+    Object.assign(outputs, policyResult.outputs);
+  }
+
+  const stepsHash = hashRateProgram(steps, aggregation);
+  const resultHash = combineHashes(
+    ...units.map(u => u.result.resultHash),
+    hashInputs(context.policyInputs),
+    hashOutputs(outputs)
+  );
+
+  return {
+    success: errors.length === 0,
+    outputs,
+    finalPremium: outputs['final_premium'] ?? outputs['total_premium'],
+    units,
+    aggregationTrace,
+    policyTrace,
+    errors,
+    warnings,
+    executionTimeMs: performance.now() - startTime,
+    resultHash,
+    evaluatedAt: new Date(),
+    rateProgramVersionId,
+    stepsHash,
+    resolvedVersions: context.resolvedVersions,
   };
 }
 
@@ -743,11 +1234,13 @@ export function evaluate(
 /**
  * Validate a rate program for determinism issues.
  * Checks for cycles, missing inputs, and other issues that could cause
- * non-deterministic behavior.
+ * non-deterministic behavior. When `availableTableVersionIds` is given,
+ * lookup() calls and table lookup steps must name one of those versions.
  */
 export function validateDeterminism(
   steps: RatingStep[],
-  availableFieldCodes: string[]
+  availableFieldCodes: string[],
+  availableTableVersionIds?: string[]
 ): DeterminismValidationResult {
   const errors: DeterminismError[] = [];
   const warnings: DeterminismWarning[] = [];
@@ -756,7 +1249,7 @@ export function validateDeterminism(
   // Build output to step mapping
   const outputToStep = new Map<string, RatingStep>();
   steps.forEach(step => {
-    outputToStep.set(step.outputFieldCode, step);
+    stepOutputFields(step).forEach(code => outputToStep.set(code, step));
   });
 
   // Check for cycles
@@ -771,6 +1264,7 @@ export function validateDeterminism(
 
   // Check each step
   const availableFieldSet = new Set(availableFieldCodes);
+  const availableTableSet = availableTableVersionIds ? new Set(availableTableVersionIds) : null;
   const producedFields = new Set<string>();
 
   for (const step of steps) {
@@ -795,29 +1289,55 @@ export function validateDeterminism(
       });
     }
 
-    // Check for invalid expressions
+    // Check for invalid expressions and references to undeclared inputs
     if (step.type === 'expression' && step.expression) {
       try {
-        // Test parse the expression with dummy values
-        const testValues: Record<string, number> = {};
-        step.inputs.forEach(code => { testValues[code] = 1; });
-        evaluateExpression(step.expression, testValues);
+        const referenced = collectFieldReferences(getStepAst(step));
+        const undeclared = referenced.filter(code => !step.inputs.includes(code));
+        if (undeclared.length > 0) {
+          errors.push({
+            code: 'UNDECLARED_INPUT',
+            message: `Step "${step.name}" expression references fields not declared as inputs: ${undeclared.join(', ')}`,
+            stepIds: [step.id],
+            fieldCodes: undeclared,
+          });
+        }
+
+        const unknownTables = availableTableSet
+          ? collectTableReferences(getStepAst(step)).filter(id => !availableTableSet.has(id))
+          : [];
+        if (unknownTables.length > 0) {
+          errors.push({
+            code: 'TABLE_NOT_FOUND',
+            message: `Step "${step.name}" expression looks up unknown tables: ${unknownTables.join(', ')}`,
+            stepIds: [step.id],
+          });
+        }
       } catch (error) {
         errors.push({
           code: 'INVALID_EXPRESSION',
-          message: `Step "${step.name}" has invalid expression: ${error}`,
+          message: `Step "${step.name}" has invalid expression: ${error instanceof Error ? error.message : String(error)}`,
           stepIds: [step.id],
+          column: error instanceof ExpressionError ? error.column : undefined,
         });
       }
     }
 
     // Check for table references
-    if (step.type === 'tableLookup' && !step.tableVersionId) {
-      errors.push({
-        code: 'TABLE_NOT_FOUND',
-        message: `Step "${step.name}" references a table lookup but no table version is specified`,
-        stepIds: [step.id],
-      });
+    if (step.type === 'tableLookup') {
+      if (!step.tableVersionId) {
+        errors.push({
+          code: 'TABLE_NOT_FOUND',
+          message: `Step "${step.name}" references a table lookup but no table version is specified`,
+          stepIds: [step.id],
+        });
+      } else if (availableTableSet && !availableTableSet.has(step.tableVersionId)) {
+        errors.push({
+          code: 'TABLE_NOT_FOUND',
+          message: `Step "${step.name}" looks up unknown table version ${step.tableVersionId}`,
+          stepIds: [step.id],
+        });
+      }
     }
 
     producedFields.add(step.outputFieldCode);
@@ -879,28 +1399,20 @@ export function validateDeterminism(
 }
 
 /**
- * Run a test case and compare results.
+ * Compare expected values against actual outputs, appending differences.
+ * Returns whether every value was within tolerance.
  */
-export function runTestCase(
-  testCase: import('../types/ratingEngine').RatingTestCase,
-  steps: RatingStep[],
-  tables: Map<string, RatingTableData>
-): import('../types/ratingEngine').TestRunResult {
-  const context: EvaluationContext = {
-    inputs: testCase.inputs,
-    state: testCase.state,
-    effectiveDate: new Date(),
-    tables,
-  };
-
-  const result = evaluate(steps, context, testCase.rateProgramVersionId);
-  const tolerance = testCase.tolerance ?? 0.001;
-  const differences: import('../types/ratingEngine').TestDifference[] = [];
+function compareOutputs(
+  expectedOutputs: Record<string, number>,
+  actualOutputs: Record<string, number>,
+  tolerance: number,
+  differences: TestDifference[],
+  unitId?: string
+): boolean {
   let passed = true;
 
-  // Compare expected outputs
-  for (const [fieldCode, expected] of Object.entries(testCase.expectedOutputs)) {
-    const actual = result.outputs[fieldCode] ?? 0;
+  for (const [fieldCode, expected] of Object.entries(expectedOutputs)) {
+    const actual = actualOutputs[fieldCode] ?? 0;
     const diff = Math.abs(expected - actual);
     const withinTolerance = diff <= tolerance;
 
@@ -910,6 +1422,7 @@ export function runTestCase(
 
     differences.push({
       fieldCode,
+      unitId,
       expected,
       actual,
       difference: diff,
@@ -917,9 +1430,90 @@ export function runTestCase(
     });
   }
 
+  return passed;
+}
+
+export const MISSING_AGGREGATION_MESSAGE =
+  'Exposure units require aggregation rules on the rate program version; none are defined';
+
+/** Whether there are rules to roll exposure units up to policy level */
+export function hasAggregationRules(aggregation: PolicyAggregation | undefined): aggregation is PolicyAggregation {
+  return !!aggregation && aggregation.rules.length > 0;
+}
+
+/**
+ * Run a test case and compare results.
+ * Test cases with exposure units are rated with evaluatePolicy, comparing
+ * policy-level outputs and each unit's outputs. Throws when a test case has
+ * units but no aggregation rules are given, since its policy-level outputs
+ * would otherwise all read as 0.
+ */
+export function runTestCase(
+  testCase: RatingTestCase,
+  steps: RatingStep[],
+  tables: Map<string, RatingTableData>,
+  aggregation?: PolicyAggregation
+): TestRunResult {
+  const tolerance = testCase.tolerance ?? 0.001;
+  const differences: TestDifference[] = [];
+  let passed = true;
+
+  let outputs: Record<string, number>;
+  let finalPremium: number | undefined;
+  let actualUnitOutputs: Record<string, Record<string, number>> | undefined;
+  let executionTimeMs: number;
+
+  if (testCase.units && testCase.units.length > 0) {
+    if (!hasAggregationRules(aggregation)) throw new Error(MISSING_AGGREGATION_MESSAGE);
+    const result = evaluatePolicy(
+      steps,
+      {
+        policyInputs: testCase.inputs,
+        units: testCase.units,
+        state: testCase.state,
+        effectiveDate: testCase.policyTerm?.effectiveDate ?? new Date(),
+        tables,
+        policyTerm: testCase.policyTerm,
+      },
+      testCase.rateProgramVersionId,
+      aggregation
+    );
+    outputs = result.outputs;
+    finalPremium = result.finalPremium;
+    executionTimeMs = result.executionTimeMs;
+    actualUnitOutputs = {};
+    for (const unit of result.units) {
+      actualUnitOutputs[unit.unitId] = unit.result.outputs;
+    }
+  } else {
+    const context: EvaluationContext = {
+      inputs: testCase.inputs,
+      state: testCase.state,
+      effectiveDate: testCase.policyTerm?.effectiveDate ?? new Date(),
+      tables,
+      policyTerm: testCase.policyTerm,
+    };
+    const result = evaluate(steps, context, testCase.rateProgramVersionId);
+    outputs = result.outputs;
+    finalPremium = result.finalPremium;
+    executionTimeMs = result.executionTimeMs;
+  }
+
+  // Compare expected outputs
+  if (!compareOutputs(testCase.expectedOutputs, outputs, tolerance, differences)) {
+    passed = false;
+  }
+
+  // Compare expected per-unit outputs
+  for (const [unitId, expected] of Object.entries(testCase.expectedUnitOutputs ?? {})) {
+    if (!compareOutputs(expected, actualUnitOutputs?.[unitId] ?? {}, tolerance, differences, unitId)) {
+      passed = false;
+    }
+  }
+
   // Check final premium if specified
   if (testCase.expectedFinalPremium !== undefined) {
-    const actualPremium = result.finalPremium ?? 0;
+    const actualPremium = finalPremium ?? 0;
     const diff = Math.abs(testCase.expectedFinalPremium - actualPremium);
     if (diff > tolerance) {
       passed = false;
@@ -936,10 +1530,11 @@ export function runTestCase(
   return {
     testCaseId: testCase.id,
     passed,
-    actualOutputs: result.outputs,
-    actualFinalPremium: result.finalPremium,
+    actualOutputs: outputs,
+    actualFinalPremium: finalPremium,
+    actualUnitOutputs,
     differences,
-    executionTimeMs: result.executionTimeMs,
+    executionTimeMs,
     runAt: new Date(),
   };
 }
@@ -7,10 +7,15 @@
  * Matching strategy:
  *   1. Sections: matched by path (section heading). If path matches, compare
  *      constituent chunk hashes. If all hashes match → unchanged; else → modified.
- *      Unmatched sections on left → removed; unmatched on right → added.
- *   2. Chunks: matched by sectionPath + index position. Hash comparison determines
- *      unchanged vs modified. Unmatched → added/removed.
- *   3. Impact: form-use links and clause links are mapped to changed sections
+ *      Remaining sections are paired by content similarity → moved (renumbered
+ *      or retitled). Unmatched sections on left → removed; on right → added.
+ *   2. Chunks: paired by identical hash anywhere, then by content similarity,
+ *      then by sectionPath + index position. Pairs that changed section or
+ *      fell out of document order → moved; otherwise unchanged vs modified
+ *      by hash. Unmatched → added/removed.
+ *   3. Redline: paired chunks whose text differs get a word-level inline diff;
+ *      each edit is classified as broadening, restricting or editorial.
+ *   4. Impact: form-use links and clause links are mapped to changed sections
  *      to produce downstream impact candidates.
  */
 
@@ -24,13 +29,68 @@ import type {
   SectionDiffStatus,
   ChunkDiff,
   ChunkDiffStatus,
+  ChangeClassification,
   ImpactCandidate,
   ImpactTargetType,
   RedlineComparisonResult,
   RedlineStats,
+  WordChange,
+  InlineSegment,
 } from '../types/redline';
 import type { FormUse } from '../types/form';
 import type { ClauseLink } from '../types/clause';
+import { diffWords, normalizedWords, similarity } from './wordDiff';
+
+// ════════════════════════════════════════════════════════════════════════
+// Content matching
+// ════════════════════════════════════════════════════════════════════════
+
+/** Texts shorter than this are too generic to pair by similarity */
+const MIN_SIMILARITY_WORDS = 8;
+/** Chunks at least this similar are the same paragraph, edited and/or moved */
+const CHUNK_MATCH_THRESHOLD = 0.5;
+/** Chunks in the same section slot need only this much in common */
+const SAME_SLOT_THRESHOLD = 0.25;
+/** Sections at least this similar are the same section under a new heading */
+const SECTION_MATCH_THRESHOLD = 0.6;
+
+/**
+ * Greedy best-first pairing of two lists by text similarity. Each item is
+ * used at most once; pairs below the threshold are not made.
+ */
+function pairBySimilarity<L, R>(
+  left: L[], right: R[],
+  leftText: (l: L) => string, rightText: (r: R) => string,
+  threshold: number,
+): Array<{ left: L; right: R; similarity: number }> {
+  const long = <T>(items: T[], text: (t: T) => string) =>
+    items.map(item => ({ item, text: text(item) }))
+      .filter(e => normalizedWords(e.text).length >= MIN_SIMILARITY_WORDS);
+  const ls = long(left, leftText);
+  const rs = long(right, rightText);
+
+  const candidates: Array<{ left: L; right: R; similarity: number }> = [];
+  for (const l of ls) {
+    for (const r of rs) {
+      const sim = similarity(l.text, r.text);
+      if (sim >= threshold) candidates.push({ left: l.item, right: r.item, similarity: sim });
+    }
+  }
+  candidates.sort((a, b) => b.similarity - a.similarity);
+
+  const usedLeft = new Set<L>();
+  const usedRight = new Set<R>();
+  const pairs: Array<{ left: L; right: R; similarity: number }> = [];
+  for (const c of candidates) {
+    if (usedLeft.has(c.left) || usedRight.has(c.right)) continue;
+    usedLeft.add(c.left);
+    usedRight.add(c.right);
+    pairs.push(c);
+  }
+  return pairs;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
 
 // ════════════════════════════════════════════════════════════════════════
 // Section diff
@@ -59,6 +119,7 @@ export interface RedlineInput {
  *
  * Matching key: section.path (the heading text).
  * - Exact path match → compare chunk hashes to decide unchanged vs modified.
+ * - Otherwise, similar content under another path → moved (keyed by the left path).
  * - Left-only → removed.
  * - Right-only → added.
  */
@@ -121,6 +182,41 @@ export function diffSections(
     }
   }
 
+  // Remaining sections: pair by content (renumbered / retitled / relocated)
+  const unmatchedLeft = diffs.filter(d => d.status === 'removed').map(d => d.leftSection as FormIngestionSection);
+  const unmatchedRight = rightSections.filter(rs => !matchedRightPaths.has(rs.path));
+  const sectionText = (chunks: FormIngestionChunk[]) => (s: FormIngestionSection) =>
+    chunks.filter(c => c.sectionPath === s.path).sort((a, b) => a.index - b.index).map(c => c.text).join('\n');
+  const moves = pairBySimilarity(
+    unmatchedLeft, unmatchedRight,
+    sectionText(leftChunks), sectionText(rightChunks),
+    SECTION_MATCH_THRESHOLD,
+  );
+
+  for (const move of moves) {
+    const ls = move.left;
+    const rs = move.right;
+    matchedRightPaths.add(rs.path);
+    const leftHashes = getChunkHashesForSection(ls, leftChunks);
+    const rightHashes = getChunkHashesForSection(rs, rightChunks);
+    const isIdentical = leftHashes.length === rightHashes.length &&
+      leftHashes.every((h, i) => h === rightHashes[i]);
+
+    const index = diffs.findIndex(d => d.leftSection === ls);
+    diffs[index] = {
+      matchKey: ls.path,
+      status: 'moved',
+      leftSection: ls,
+      rightSection: rs,
+      sectionType: rs.type,
+      title: rs.title,
+      ...(!isIdentical && { changedChunkHashes: buildChangedChunkHashes(leftHashes, rightHashes) }),
+      similarity: round2(move.similarity),
+      leftPages: ls.pageRefs,
+      rightPages: rs.pageRefs,
+    };
+  }
+
   // Right-only → added
   for (const rs of rightSections) {
     if (!matchedRightPaths.has(rs.path)) {
@@ -168,57 +264,127 @@ function buildChangedChunkHashes(
 // Chunk-level diff
 // ════════════════════════════════════════════════════════════════════════
 
+/**
+ * Indices (into `seq`) of a longest strictly increasing subsequence.
+ * Used to find which paired chunks kept their relative order.
+ */
+function longestIncreasing(seq: number[]): Set<number> {
+  const tails: number[] = [];
+  const prev = new Array<number>(seq.length).fill(-1);
+  for (let i = 0; i < seq.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (seq[tails[mid]] < seq[i]) lo = mid + 1; else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+  const keep = new Set<number>();
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i >= 0; i = prev[i]) keep.add(i);
+  return keep;
+}
+
 /**
  * Compute chunk-level diffs for drill-down.
  *
- * Matching key: sectionPath + chunk index within that section.
+ * Pairing, each pass only using chunks not yet paired:
+ *   1. identical hash anywhere (same section preferred)
+ *   2. content similarity across the document
+ *   3. sectionPath + index, then relative position within the section
+ *      (short chunks, or at least loosely similar ones)
+ *
+ * A pair is 'moved' when its section changed (after `sectionAliases`,
+ * left path → right path for renamed sections) or it fell out of document
+ * order; otherwise 'unchanged' or 'modified' by hash. Pairs whose text
+ * differs carry a word-level redline with classified changes.
  */
 export function diffChunks(
   leftChunks: FormIngestionChunk[],
   rightChunks: FormIngestionChunk[],
+  sectionAliases: Map<string, string> = new Map(),
 ): ChunkDiff[] {
   const diffs: ChunkDiff[] = [];
 
   // Build keyed maps: "sectionPath::index"
   const keyOf = (c: FormIngestionChunk) => `${c.sectionPath}::${c.index}`;
+  const sectionOf = (lc: FormIngestionChunk) => sectionAliases.get(lc.sectionPath) ?? lc.sectionPath;
+
+  const pairs = new Map<FormIngestionChunk, { right: FormIngestionChunk; similarity: number }>();
+  const usedRight = new Set<FormIngestionChunk>();
+  const pair = (lc: FormIngestionChunk, rc: FormIngestionChunk, sim: number) => {
+    pairs.set(lc, { right: rc, similarity: sim });
+    usedRight.add(rc);
+  };
+
+  // 1. Identical content
+  for (const lc of leftChunks) {
+    const same = rightChunks.filter(rc => rc.hash === lc.hash && !usedRight.has(rc));
+    const rc = same.find(c => c.sectionPath === sectionOf(lc)) ?? same[0];
+    if (rc) pair(lc, rc, 1);
+  }
+
+  // 2. Similar content anywhere
+  const similar = pairBySimilarity(
+    leftChunks.filter(lc => !pairs.has(lc)),
+    rightChunks.filter(rc => !usedRight.has(rc)),
+    c => c.text, c => c.text,
+    CHUNK_MATCH_THRESHOLD,
+  );
+  for (const p of similar) pair(p.left, p.right, p.similarity);
 
+  // 3. Same slot in the same section
   const rightByKey = new Map<string, FormIngestionChunk>();
   for (const c of rightChunks) rightByKey.set(keyOf(c), c);
-
-  const matchedRightKeys = new Set<string>();
+  const inSection = (chunks: FormIngestionChunk[], path: string) =>
+    chunks.filter(c => c.sectionPath === path).sort((a, b) => a.index - b.index);
 
   for (const lc of leftChunks) {
-    const key = keyOf(lc);
-    // First try exact key match
-    let rc = rightByKey.get(key);
+    if (pairs.has(lc)) continue;
+    let rc = rightByKey.get(`${sectionOf(lc)}::${lc.index}`);
 
     // If no exact key match, try matching by sectionPath alone for the same relative position
     if (!rc) {
-      const rightInSection = rightChunks
-        .filter(c => c.sectionPath === lc.sectionPath)
-        .sort((a, b) => a.index - b.index);
-      const leftInSection = leftChunks
-        .filter(c => c.sectionPath === lc.sectionPath)
-        .sort((a, b) => a.index - b.index);
-      const posInLeft = leftInSection.findIndex(c => c.index === lc.index);
-      if (posInLeft >= 0 && posInLeft < rightInSection.length) {
-        rc = rightInSection[posInLeft];
-      }
+      const posInLeft = inSection(leftChunks, lc.sectionPath).findIndex(c => c.index === lc.index);
+      rc = inSection(rightChunks, sectionOf(lc))[posInLeft];
     }
+    if (!rc || usedRight.has(rc)) continue;
 
-    if (rc) {
-      const rcKey = keyOf(rc);
-      matchedRightKeys.add(rcKey);
+    const short = normalizedWords(lc.text).length < MIN_SIMILARITY_WORDS ||
+      normalizedWords(rc.text).length < MIN_SIMILARITY_WORDS;
+    const sim = similarity(lc.text, rc.text);
+    if (short || sim >= SAME_SLOT_THRESHOLD) pair(lc, rc, sim);
+  }
 
-      const status: ChunkDiffStatus = lc.hash === rc.hash ? 'unchanged' : 'modified';
-      diffs.push({
+  // Pairs out of document order were moved
+  const ordered = leftChunks.filter(lc => pairs.has(lc)).sort((a, b) => a.index - b.index);
+  const inOrder = longestIncreasing(ordered.map(lc => (pairs.get(lc) as { right: FormIngestionChunk }).right.index));
+  const movedInPlace = new Set(ordered.filter((_, i) => !inOrder.has(i)));
+
+  for (const lc of leftChunks) {
+    const key = keyOf(lc);
+    const match = pairs.get(lc);
+
+    if (match) {
+      const rc = match.right;
+      const moved = sectionOf(lc) !== rc.sectionPath || movedInPlace.has(lc);
+      const status: ChunkDiffStatus = moved ? 'moved' : lc.hash === rc.hash ? 'unchanged' : 'modified';
+      const diff: ChunkDiff = {
         matchKey: key,
         status,
         leftChunk: lc,
         rightChunk: rc,
         leftText: lc.text,
         rightText: rc.text,
-      });
+      };
+      if (lc.hash !== rc.hash) {
+        const inline = diffWords(lc.text, rc.text);
+        diff.similarity = round2(match.similarity);
+        diff.inline = inline;
+        diff.changes = classifyChanges(inline, lc.sectionType ?? rc.sectionType);
+      }
+      diffs.push(diff);
     } else {
       diffs.push({
         matchKey: key,
@@ -233,10 +399,9 @@ export function diffChunks(
 
   // Right-only
   for (const rc of rightChunks) {
-    const key = keyOf(rc);
-    if (!matchedRightKeys.has(key)) {
+    if (!usedRight.has(rc)) {
       diffs.push({
-        matchKey: key,
+        matchKey: keyOf(rc),
         status: 'added',
         leftChunk: null,
         rightChunk: rc,
@@ -249,6 +414,135 @@ export function diffChunks(
   return diffs;
 }
 
+// ════════════════════════════════════════════════════════════════════════
+// Change classification
+// ════════════════════════════════════════════════════════════════════════
+
+/** Wording that narrows cover when added (and widens it when removed) */
+const RESTRICTING_TERMS = [
+  'not', 'no', 'never', 'exclude', 'excludes', 'excluded', 'exclusion', 'except', 'unless', 'only',
+  'solely', 'must', 'required', 'limited to', 'provided that', 'subject to', 'prior to', 'warrant',
+];
+/** Wording that widens cover when added (and narrows it when removed) */
+const BROADENING_TERMS = [
+  'include', 'includes', 'included', 'including', 'also', 'any', 'all', 'extend', 'extends',
+  'extended', 'additional', 'regardless', 'whether or not', 'waive', 'waived', 'may',
+];
+
+function countTerms(text: string, terms: string[]): Map<string, number> {
+  const words = ` ${normalizedWords(text).join(' ')} `;
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    const n = words.split(` ${term} `).length - 1;
+    if (n > 0) counts.set(term, n);
+  }
+  return counts;
+}
+
+/** Net change in term usage, and the term that moved most */
+function termShift(deleted: string, inserted: string, terms: string[]): { net: number; term?: string; added?: boolean } {
+  const before = countTerms(deleted, terms);
+  const after = countTerms(inserted, terms);
+  let net = 0;
+  let top: { term: string; delta: number } | undefined;
+  for (const term of terms) {
+    const delta = (after.get(term) ?? 0) - (before.get(term) ?? 0);
+    net += delta;
+    if (delta !== 0 && (!top || Math.abs(delta) > Math.abs(top.delta))) top = { term, delta };
+  }
+  return top ? { net, term: top.term, added: top.delta > 0 } : { net };
+}
+
+const NUMBER = /\$?\d[\d,]*(?:\.\d+)?/;
+
+/**
+ * Classify one edit by keyword heuristics:
+ *   1. punctuation / case only → editorial
+ *   2. net added restricting vs broadening terms ("not", "only" vs "any", "includes")
+ *   3. a changed number: higher is broadening, except for deductibles,
+ *      retentions and waiting periods
+ *   4. in an exclusion, a net gain in wording widens the exclusion
+ *      (restricting) and a net loss narrows it (broadening)
+ *   5. anything else → editorial
+ */
+export function classifyChange(
+  deleted: string,
+  inserted: string,
+  sectionType?: FormSectionType,
+  context = '',
+): { classification: ChangeClassification; reason: string } {
+  const before = normalizedWords(deleted);
+  const after = normalizedWords(inserted);
+  if (before.join(' ') === after.join(' ')) {
+    return { classification: 'editorial', reason: 'punctuation or case only' };
+  }
+
+  const restricting = termShift(deleted, inserted, RESTRICTING_TERMS);
+  const broadening = termShift(deleted, inserted, BROADENING_TERMS);
+  const score = broadening.net - restricting.net;
+  if (score !== 0) {
+    const decisive = score > 0
+      ? (broadening.net > 0 ? broadening : restricting)
+      : (restricting.net > 0 ? restricting : broadening);
+    return {
+      classification: score > 0 ? 'broadening' : 'restricting',
+      reason: `${decisive.added ? 'adds' : 'removes'} "${decisive.term}"`,
+    };
+  }
+
+  const from = deleted.match(NUMBER)?.[0];
+  const to = inserted.match(NUMBER)?.[0];
+  if (from && to) {
+    const a = parseFloat(from.replace(/[$,]/g, ''));
+    const b = parseFloat(to.replace(/[$,]/g, ''));
+    if (a !== b) {
+      const higherIsWorse = /deductible|retention|waiting period/i.test(`${context} ${deleted} ${inserted}`);
+      return {
+        classification: (b > a) !== higherIsWorse ? 'broadening' : 'restricting',
+        reason: `${from} → ${to}`,
+      };
+    }
+  }
+
+  if (sectionType === 'exclusion' && after.length !== before.length) {
+    return after.length > before.length
+      ? { classification: 'restricting', reason: 'widens an exclusion' }
+      : { classification: 'broadening', reason: 'narrows an exclusion' };
+  }
+
+  return { classification: 'editorial', reason: 'wording only' };
+}
+
+/**
+ * Group a redline into edits (a delete and/or insert between unchanged
+ * runs) and classify each.
+ */
+export function classifyChanges(inline: InlineSegment[], sectionType?: FormSectionType): WordChange[] {
+  const context = inline.filter(s => s.op === 'equal').map(s => s.text).join(' ');
+  const changes: WordChange[] = [];
+  let deleted = '';
+  let inserted = '';
+
+  const flush = () => {
+    if (deleted || inserted) {
+      const d = deleted.trim();
+      const i = inserted.trim();
+      changes.push({ deleted: d, inserted: i, ...classifyChange(d, i, sectionType, context) });
+    }
+    deleted = '';
+    inserted = '';
+  };
+
+  for (const seg of inline) {
+    if (seg.op === 'equal') flush();
+    else if (seg.op === 'delete') deleted += seg.text;
+    else inserted += seg.text;
+  }
+  flush();
+
+  return changes;
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // Impact analysis
 // ════════════════════════════════════════════════════════════════════════
@@ -378,6 +672,10 @@ export function computeImpact(
 // Statistics
 // ════════════════════════════════════════════════════════════════════════
 
+function countChanges(chunkDiffs: ChunkDiff[], classification: ChangeClassification): number {
+  return chunkDiffs.reduce((n, d) => n + (d.changes?.filter(c => c.classification === classification).length ?? 0), 0);
+}
+
 export function computeStats(
   sectionDiffs: SectionDiff[],
   chunkDiffs: ChunkDiff[],
@@ -389,12 +687,18 @@ export function computeStats(
     modifiedSections: sectionDiffs.filter(d => d.status === 'modified').length,
     addedSections: sectionDiffs.filter(d => d.status === 'added').length,
     removedSections: sectionDiffs.filter(d => d.status === 'removed').length,
+    movedSections: sectionDiffs.filter(d => d.status === 'moved').length,
 
     totalChunks: chunkDiffs.length,
     unchangedChunks: chunkDiffs.filter(d => d.status === 'unchanged').length,
     modifiedChunks: chunkDiffs.filter(d => d.status === 'modified').length,
     addedChunks: chunkDiffs.filter(d => d.status === 'added').length,
     removedChunks: chunkDiffs.filter(d => d.status === 'removed').length,
+    movedChunks: chunkDiffs.filter(d => d.status === 'moved').length,
+
+    broadeningChanges: countChanges(chunkDiffs, 'broadening'),
+    restrictingChanges: countChanges(chunkDiffs, 'restricting'),
+    editorialChanges: countChanges(chunkDiffs, 'editorial'),
 
     impactCandidateCount: impactCandidates.length,
   };
@@ -416,7 +720,13 @@ export function runRedlineComparison(input: RedlineInput): RedlineComparisonResu
     input.rightChunks,
   );
 
-  const chunkDiffs = diffChunks(input.leftChunks, input.rightChunks);
+  // Chunks of a retitled section stay in place under its new path
+  const sectionAliases = new Map(
+    sectionDiffs
+      .filter(d => d.status === 'moved' && d.leftSection && d.rightSection)
+      .map(d => [(d.leftSection as FormIngestionSection).path, (d.rightSection as FormIngestionSection).path]),
+  );
+  const chunkDiffs = diffChunks(input.leftChunks, input.rightChunks, sectionAliases);
 
   const impactCandidates = computeImpact(sectionDiffs, input.formUses, input.clauseLinks);
 
@@ -0,0 +1,853 @@
+/**
+ * Redline Export Engine
+ *
+ * Renders a RedlineComparisonResult as a filing-ready marked-up document:
+ *   - a cover page summarising the changed sections, the classification of
+ *     their wording changes and the clauses they impact
+ *   - the redline itself, inline or side by side, with deletions struck
+ *     through, insertions underlined and the source page references of
+ *     every passage in both editions
+ *
+ * buildRedlineDocument reduces the comparison to a format-neutral model;
+ * renderRedlinePdf (pdf-lib standard fonts) and renderRedlineDocx
+ * (WordprocessingML in a zip) lay that model out.
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+import { createZip } from '../utils/zip';
+import type {
+  RedlineComparisonResult, RedlineStats, SectionDiff, SectionDiffStatus, ChunkDiff,
+  ChunkDiffStatus, InlineSegment, WordChange, ImpactCandidate, ImpactTargetType,
+  RedlineExportFormat, RedlineExportLayout,
+} from '../types/redline';
+import {
+  SECTION_DIFF_CONFIG, CHANGE_CLASSIFICATION_CONFIG, IMPACT_TARGET_CONFIG,
+  REDLINE_EXPORT_FORMAT_CONFIG,
+} from '../types/redline';
+
+// ════════════════════════════════════════════════════════════════════════
+// Document model
+// ════════════════════════════════════════════════════════════════════════
+
+export interface RedlineExportOptions {
+  layout?: RedlineExportLayout;
+  /** Also reproduce sections without changes in the body (default false) */
+  includeUnchanged?: boolean;
+  generatedAt?: Date;
+}
+
+/** One changed section on the cover page */
+export interface RedlineSummaryRow {
+  title: string;
+  status: SectionDiffStatus;
+  leftPages: string;
+  rightPages: string;
+  broadening: number;
+  restricting: number;
+  editorial: number;
+}
+
+/** One impacted entity on the cover page */
+export interface RedlineImpactRow {
+  targetType: ImpactTargetType;
+  label: string;
+  reason: string;
+  severity: ImpactCandidate['severity'];
+  /** Titles of the changed sections driving the impact */
+  sections: string[];
+}
+
+/** One chunk of the redline body */
+export interface RedlinePassage {
+  status: ChunkDiffStatus;
+  /** Source pages, e.g. "Old p. 3 / New pp. 3–4" */
+  pageRef: string;
+  /** e.g. "Moved from SECTION II" */
+  note?: string;
+  segments: InlineSegment[];
+  changes: WordChange[];
+}
+
+export interface RedlineDocSection {
+  title: string;
+  status: SectionDiffStatus;
+  pageRef: string;
+  /** e.g. the former title of a renumbered section */
+  note?: string;
+  passages: RedlinePassage[];
+}
+
+export interface RedlineDocument {
+  title: string;
+  /** "CG 00 01 — Commercial General Liability Coverage Form" */
+  formLabel: string;
+  /** "Edition 12/07 compared with edition 04/13" */
+  comparison: string;
+  leftLabel: string;
+  rightLabel: string;
+  /** ISO date */
+  generatedAt: string;
+  layout: RedlineExportLayout;
+  stats: RedlineStats;
+  changedSections: RedlineSummaryRow[];
+  unchangedSectionCount: number;
+  clauses: RedlineImpactRow[];
+  otherImpacts: RedlineImpactRow[];
+  sections: RedlineDocSection[];
+}
+
+/** "p. 3" or "pp. 3–4" */
+export function pageRange(start: number, end: number): string {
+  return end > start ? `pp. ${start}–${end}` : `p. ${start}`;
+}
+
+/** Compact page list, e.g. "pp. 2–4, 7" */
+export function pagesLabel(pages: number[] | undefined): string {
+  const sorted = [...new Set(pages ?? [])].filter(p => p > 0).sort((a, b) => a - b);
+  if (sorted.length === 0) return '';
+
+  const ranges: string[] = [];
+  let start = sorted[0];
+  let prev = start;
+  for (const page of [...sorted.slice(1), Infinity]) {
+    if (page === prev + 1) { prev = page; continue; }
+    ranges.push(prev > start ? `${start}–${prev}` : `${start}`);
+    start = prev = page;
+  }
+  return `${sorted.length > 1 ? 'pp.' : 'p.'} ${ranges.join(', ')}`;
+}
+
+/** The redline of one chunk: the whole text with deletions and insertions marked */
+export function chunkSegments(cd: ChunkDiff): InlineSegment[] {
+  if (cd.inline) return cd.inline;
+  if (cd.status === 'added') return [{ op: 'insert', text: cd.rightText }];
+  if (cd.status === 'removed') return [{ op: 'delete', text: cd.leftText }];
+  return [{ op: 'equal', text: cd.rightText || cd.leftText }];
+}
+
+function passagePageRef(cd: ChunkDiff): string {
+  const parts: string[] = [];
+  if (cd.leftChunk) parts.push(`Old ${pageRange(cd.leftChunk.pageStart, cd.leftChunk.pageEnd)}`);
+  if (cd.rightChunk) parts.push(`New ${pageRange(cd.rightChunk.pageStart, cd.rightChunk.pageEnd)}`);
+  return parts.join(' / ');
+}
+
+function sectionTitle(diff: SectionDiff): string {
+  return diff.rightSection?.title || diff.leftSection?.title || diff.title || 'General';
+}
+
+function sectionPageRef(diff: SectionDiff): string {
+  const parts: string[] = [];
+  const left = pagesLabel(diff.leftPages);
+  const right = pagesLabel(diff.rightPages);
+  if (left) parts.push(`Old ${left}`);
+  if (right) parts.push(`New ${right}`);
+  return parts.join(' / ');
+}
+
+/**
+ * Reduce a comparison to the exported document. Each chunk appears once,
+ * under the section it belongs to in the newer edition (removed chunks
+ * under their old section).
+ */
+export function buildRedlineDocument(
+  result: RedlineComparisonResult,
+  options: RedlineExportOptions = {},
+): RedlineDocument {
+  const layout = options.layout ?? 'inline';
+  const generatedAt = (options.generatedAt ?? new Date()).toISOString().slice(0, 10);
+
+  const byRightPath = new Map<string, number>();
+  const byLeftPath = new Map<string, number>();
+  result.sectionDiffs.forEach((diff, i) => {
+    if (diff.rightSection) byRightPath.set(diff.rightSection.path, i);
+    if (diff.leftSection) byLeftPath.set(diff.leftSection.path, i);
+  });
+
+  const passages: RedlinePassage[][] = result.sectionDiffs.map(() => []);
+  for (const cd of result.chunkDiffs) {
+    const home = cd.rightChunk
+      ? byRightPath.get(cd.rightChunk.sectionPath)
+      : cd.leftChunk ? byLeftPath.get(cd.leftChunk.sectionPath) : undefined;
+    if (home === undefined) continue;
+
+    const origin = cd.leftChunk ? byLeftPath.get(cd.leftChunk.sectionPath) : undefined;
+    const note = cd.status === 'moved' && origin !== undefined && origin !== home
+      ? `Moved from ${sectionTitle(result.sectionDiffs[origin])}`
+      : undefined;
+
+    passages[home].push({
+      status: cd.status,
+      pageRef: passagePageRef(cd),
+      ...(note ? { note } : {}),
+      segments: chunkSegments(cd),
+      changes: cd.changes ?? [],
+    });
+  }
+
+  const sections: RedlineDocSection[] = [];
+  const changedSections: RedlineSummaryRow[] = [];
+  const titleByKey = new Map<string, string>();
+  result.sectionDiffs.forEach((diff, i) => {
+    const title = sectionTitle(diff);
+    titleByKey.set(diff.matchKey, title);
+    if (diff.status === 'unchanged' && !options.includeUnchanged) return;
+
+    const formerTitle = diff.leftSection && diff.rightSection && diff.leftSection.title !== diff.rightSection.title
+      ? diff.leftSection.title
+      : undefined;
+    sections.push({
+      title,
+      status: diff.status,
+      pageRef: sectionPageRef(diff),
+      ...(formerTitle ? { note: `Formerly ${formerTitle}` } : {}),
+      passages: passages[i],
+    });
+
+    if (diff.status === 'unchanged') return;
+    const changes = passages[i].flatMap(p => p.changes);
+    const count = (c: WordChange['classification']) => changes.filter(x => x.classification === c).length;
+    changedSections.push({
+      title,
+      status: diff.status,
+      leftPages: pagesLabel(diff.leftPages),
+      rightPages: pagesLabel(diff.rightPages),
+      broadening: count('broadening'),
+      restricting: count('restricting'),
+      editorial: count('editorial'),
+    });
+  });
+
+  const impactRows = result.impactCandidates.map((c): RedlineImpactRow => ({
+    targetType: c.targetType,
+    label: c.targetLabel,
+    reason: c.reason,
+    severity: c.severity,
+    sections: c.affectedSectionKeys.map(k => titleByKey.get(k) ?? k),
+  }));
+
+  const formLabel = [result.formNumber, result.formTitle].filter(Boolean).join(' — ');
+  const leftLabel = `Edition ${result.leftEditionDate || result.leftVersionId}`;
+  const rightLabel = `Edition ${result.rightEditionDate || result.rightVersionId}`;
+
+  return {
+    title: `${result.formNumber || 'Form'} Redline`,
+    formLabel,
+    comparison: `${leftLabel} compared with ${rightLabel.charAt(0).toLowerCase()}${rightLabel.slice(1)}`,
+    leftLabel,
+    rightLabel,
+    generatedAt,
+    layout,
+    stats: result.stats,
+    changedSections,
+    unchangedSectionCount: result.stats.unchangedSections,
+    clauses: impactRows.filter(r => r.targetType === 'clause'),
+    otherImpacts: impactRows.filter(r => r.targetType !== 'clause'),
+    sections,
+  };
+}
+
+function summarySentences(doc: RedlineDocument): string[] {
+  const s = doc.stats;
+  return [
+    `${s.totalSections} sections compared: ${s.modifiedSections} modified, ${s.addedSections} added, ` +
+      `${s.removedSections} removed, ${s.movedSections} moved or renumbered, ${s.unchangedSections} unchanged.`,
+    `Wording changes: ${s.broadeningChanges} broadening, ${s.restrictingChanges} restricting, ` +
+      `${s.editorialChanges} editorial.`,
+  ];
+}
+
+const LEGEND: InlineSegment[] = [
+  { op: 'equal', text: 'Deleted text is shown as ' },
+  { op: 'delete', text: 'struck through' },
+  { op: 'equal', text: '; inserted text is ' },
+  { op: 'insert', text: 'underlined' },
+  { op: 'equal', text: '.' },
+];
+
+/** Classified changes worth listing under a passage (editorial ones are not) */
+function notableChanges(passage: RedlinePassage): string[] {
+  return passage.changes
+    .filter(c => c.classification !== 'editorial')
+    .map(c => `${CHANGE_CLASSIFICATION_CONFIG[c.classification].label}: ${c.reason}`);
+}
+
+function passageMeta(passage: RedlinePassage): string {
+  return [SECTION_DIFF_CONFIG[passage.status].label, passage.pageRef, passage.note].filter(Boolean).join(' · ');
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// PDF
+// ════════════════════════════════════════════════════════════════════════
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const COLUMN_GAP = 18;
+const BODY_SIZE = 10;
+const LINE_HEIGHT = 1.35;
+
+const INK = {
+  text: rgb(0.1, 0.1, 0.12),
+  muted: rgb(0.42, 0.45, 0.5),
+  rule: rgb(0.82, 0.84, 0.87),
+  deleted: rgb(0.78, 0.12, 0.12),
+  inserted: rgb(0.02, 0.45, 0.31),
+};
+
+/** Characters outside WinAnsi (the standard fonts' encoding) that have a close equivalent */
+const WIN_ANSI_SUBSTITUTES: Record<string, string> = {
+  '→': '->', '←': '<-', '≤': '<=', '≥': '>=', '≠': '!=', '✓': 'x', '☐': '[ ]', '☒': '[x]',
+  'ﬁ': 'fi', 'ﬂ': 'fl', 'ﬀ': 'ff', '\u00A0': ' ', '\u2009': ' ', '\u200B': '', '\t': ' ', '\r': '',
+};
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+/** Make text drawable with the standard PDF fonts */
+export function toWinAnsi(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 0;
+    if (ch in WIN_ANSI_SUBSTITUTES) out += WIN_ANSI_SUBSTITUTES[ch];
+    else if (ch === '\n' || (code >= 0x20 && code < 0x7F) || (code >= 0xA0 && code <= 0xFF)) out += ch;
+    else if (WIN_ANSI_EXTRAS.has(ch)) out += ch;
+    else if (code >= 0x20) out += '?';
+  }
+  return out;
+}
+
+interface Piece {
+  text: string;
+  op: InlineSegment['op'];
+  x: number;
+  width: number;
+}
+
+/**
+ * Word-wrap styled runs to a width. Newlines break lines; words wider than
+ * the line are split by character.
+ */
+function wrapSegments(segments: InlineSegment[], font: PDFFont, size: number, width: number): Piece[][] {
+  const lines: Piece[][] = [];
+  let line: Piece[] = [];
+  let x = 0;
+
+  const breakLine = () => {
+    const last = line[line.length - 1];
+    if (last && last.text !== last.text.trimEnd()) {
+      last.text = last.text.trimEnd();
+      last.width = font.widthOfTextAtSize(last.text, size);
+    }
+    lines.push(line.filter(p => p.text));
+    line = [];
+    x = 0;
+  };
+  const place = (text: string, op: InlineSegment['op'], w: number) => {
+    const last = line[line.length - 1];
+    if (last && last.op === op) { last.text += text; last.width += w; }
+    else line.push({ text, op, x, width: w });
+    x += w;
+  };
+
+  for (const seg of segments) {
+    for (const token of toWinAnsi(seg.text).match(/\n|[^\S\n]+|\S+/g) ?? []) {
+      if (token === '\n') { breakLine(); continue; }
+      if (/^\s/.test(token)) {
+        if (x > 0) place(' ', seg.op, font.widthOfTextAtSize(' ', size));
+        continue;
+      }
+      let word = token;
+      let w = font.widthOfTextAtSize(word, size);
+      if (x > 0 && x + w > width) breakLine();
+      while (w > width) {
+        let fit = word.length - 1;
+        while (fit > 1 && font.widthOfTextAtSize(word.slice(0, fit), size) > width) fit--;
+        place(word.slice(0, fit), seg.op, font.widthOfTextAtSize(word.slice(0, fit), size));
+        breakLine();
+        word = word.slice(fit);
+        w = font.widthOfTextAtSize(word, size);
+      }
+      place(word, seg.op, w);
+    }
+  }
+  if (line.length > 0) breakLine();
+  return lines;
+}
+
+interface PdfFonts {
+  body: PDFFont;
+  sans: PDFFont;
+  sansBold: PDFFont;
+}
+
+/** Page flow for the PDF: a cursor that starts a new page when space runs out */
+class PdfFlow {
+  page!: PDFPage;
+  y = 0;
+  pages: PDFPage[] = [];
+
+  constructor(
+    private readonly pdf: PDFDocument,
+    readonly fonts: PdfFonts,
+    private readonly onNewPage: (flow: PdfFlow) => void = () => {},
+  ) {}
+
+  newPage(): void {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.pages.push(this.page);
+    this.y = PAGE_HEIGHT - MARGIN;
+    this.onNewPage(this);
+  }
+
+  ensure(height: number): void {
+    if (!this.page || this.y - height < MARGIN + 18) this.newPage();
+  }
+
+  gap(height: number): void {
+    this.y -= height;
+  }
+
+  drawPieces(pieces: Piece[], x0: number, baseline: number, font: PDFFont, size: number, color: RGB = INK.text): void {
+    for (const p of pieces) {
+      const ink = p.op === 'delete' ? INK.deleted : p.op === 'insert' ? INK.inserted : color;
+      this.page.drawText(p.text, { x: x0 + p.x, y: baseline, size, font, color: ink });
+      if (p.op === 'delete') {
+        const y = baseline + size * 0.3;
+        this.page.drawLine({ start: { x: x0 + p.x, y }, end: { x: x0 + p.x + p.width, y }, thickness: 0.7, color: ink });
+      } else if (p.op === 'insert') {
+        const y = baseline - 1.5;
+        this.page.drawLine({ start: { x: x0 + p.x, y }, end: { x: x0 + p.x + p.width, y }, thickness: 0.6, color: ink });
+      }
+    }
+  }
+
+  /** Flow styled text across the full width (or a column) */
+  text(
+    segments: InlineSegment[] | string,
+    opts: { font?: PDFFont; size?: number; color?: RGB; indent?: number } = {},
+  ): void {
+    const font = opts.font ?? this.fonts.body;
+    const size = opts.size ?? BODY_SIZE;
+    const indent = opts.indent ?? 0;
+    const segs = typeof segments === 'string' ? [{ op: 'equal' as const, text: segments }] : segments;
+    const lineHeight = size * LINE_HEIGHT;
+    for (const line of wrapSegments(segs, font, size, CONTENT_WIDTH - indent)) {
+      this.ensure(lineHeight);
+      this.y -= lineHeight;
+      this.drawPieces(line, MARGIN + indent, this.y + size * 0.25, font, size, opts.color);
+    }
+  }
+
+  /** Two columns flowed line by line, so both sides break across pages together */
+  columns(left: InlineSegment[], right: InlineSegment[], size = BODY_SIZE): void {
+    const font = this.fonts.body;
+    const width = (CONTENT_WIDTH - COLUMN_GAP) / 2;
+    const l = wrapSegments(left, font, size, width);
+    const r = wrapSegments(right, font, size, width);
+    const lineHeight = size * LINE_HEIGHT;
+    for (let i = 0; i < Math.max(l.length, r.length); i++) {
+      this.ensure(lineHeight);
+      this.y -= lineHeight;
+      const baseline = this.y + size * 0.25;
+      if (l[i]) this.drawPieces(l[i], MARGIN, baseline, font, size);
+      if (r[i]) this.drawPieces(r[i], MARGIN + width + COLUMN_GAP, baseline, font, size);
+    }
+  }
+
+  rule(color: RGB = INK.rule): void {
+    this.ensure(6);
+    this.y -= 3;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y }, end: { x: PAGE_WIDTH - MARGIN, y: this.y }, thickness: 0.5, color,
+    });
+    this.y -= 3;
+  }
+
+  /** A simple table: header row in bold, cells wrapped to their column */
+  table(headers: string[], rows: string[][], widths: number[], size = 8.5): void {
+    const total = widths.reduce((a, b) => a + b, 0);
+    const cols = widths.map(w => (w / total) * CONTENT_WIDTH);
+    const lineHeight = size * LINE_HEIGHT;
+
+    const drawRow = (cells: string[], font: PDFFont, color: RGB) => {
+      const wrapped = cells.map((c, i) =>
+        wrapSegments([{ op: 'equal', text: c }], font, size, cols[i] - 6));
+      const height = Math.max(1, ...wrapped.map(w => w.length)) * lineHeight + 4;
+      this.ensure(height);
+      let x = MARGIN;
+      wrapped.forEach((lines, i) => {
+        lines.forEach((line, j) =>
+          this.drawPieces(line, x, this.y - (j + 1) * lineHeight + size * 0.25, font, size, color));
+        x += cols[i];
+      });
+      this.y -= height;
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y + 1 }, end: { x: PAGE_WIDTH - MARGIN, y: this.y + 1 },
+        thickness: 0.4, color: INK.rule,
+      });
+    };
+
+    drawRow(headers, this.fonts.sansBold, INK.muted);
+    for (const row of rows) drawRow(row, this.fonts.sans, INK.text);
+  }
+}
+
+function changeCounts(row: RedlineSummaryRow): string {
+  return `${row.broadening} / ${row.restricting} / ${row.editorial}`;
+}
+
+/** Render the document as a PDF: cover summary first, then the redline */
+export async function renderRedlinePdf(doc: RedlineDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(toWinAnsi(`${doc.title}: ${doc.comparison}`));
+  pdf.setSubject(toWinAnsi(doc.formLabel));
+  pdf.setCreationDate(new Date(`${doc.generatedAt}T00:00:00Z`));
+
+  const fonts: PdfFonts = {
+    body: await pdf.embedFont(StandardFonts.TimesRoman),
+    sans: await pdf.embedFont(StandardFonts.Helvetica),
+    sansBold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  const sideBySide = doc.layout === 'sideBySide';
+  let inBody = false;
+  const flow = new PdfFlow(pdf, fonts, f => {
+    if (!inBody || !sideBySide) return;
+    const width = (CONTENT_WIDTH - COLUMN_GAP) / 2;
+    f.page.drawText(toWinAnsi(doc.leftLabel), { x: MARGIN, y: f.y - 9, size: 8, font: fonts.sansBold, color: INK.muted });
+    f.page.drawText(toWinAnsi(doc.rightLabel), {
+      x: MARGIN + width + COLUMN_GAP, y: f.y - 9, size: 8, font: fonts.sansBold, color: INK.muted,
+    });
+    f.y -= 16;
+  });
+
+  // ── Cover ──
+  flow.newPage();
+  flow.text('Redline Comparison', { font: fonts.sansBold, size: 18 });
+  flow.gap(4);
+  flow.text(doc.formLabel, { font: fonts.sans, size: 12 });
+  flow.text(doc.comparison, { font: fonts.sans, size: 10, color: INK.muted });
+  flow.text(`Generated ${doc.generatedAt}`, { font: fonts.sans, size: 8.5, color: INK.muted });
+  flow.gap(8);
+  flow.text(LEGEND, { size: 10 });
+  flow.gap(6);
+  for (const sentence of summarySentences(doc)) flow.text(sentence, { size: 10 });
+
+  flow.gap(12);
+  flow.text('Changed Sections', { font: fonts.sansBold, size: 11 });
+  flow.gap(2);
+  if (doc.changedSections.length === 0) {
+    flow.text('No sections changed between the editions.', { font: fonts.sans, size: 9, color: INK.muted });
+  } else {
+    flow.table(
+      ['Section', 'Change', 'Old edition', 'New edition', 'Broad. / Restr. / Edit.'],
+      doc.changedSections.map(r => [
+        r.title, SECTION_DIFF_CONFIG[r.status].label, r.leftPages || '—', r.rightPages || '—', changeCounts(r),
+      ]),
+      [38, 12, 14, 14, 22],
+    );
+  }
+
+  flow.gap(12);
+  flow.text('Impacted Clauses', { font: fonts.sansBold, size: 11 });
+  flow.gap(2);
+  if (doc.clauses.length === 0) {
+    flow.text('No clauses are linked to the changed sections.', { font: fonts.sans, size: 9, color: INK.muted });
+  } else {
+    flow.table(
+      ['Clause', 'Changed sections', 'Reason'],
+      doc.clauses.map(c => [c.label, c.sections.join(', '), c.reason]),
+      [30, 35, 35],
+    );
+  }
+
+  if (doc.otherImpacts.length > 0) {
+    flow.gap(12);
+    flow.text('Other Downstream Impacts', { font: fonts.sansBold, size: 11 });
+    flow.gap(2);
+    flow.table(
+      ['Type', 'Name', 'Severity', 'Reason'],
+      doc.otherImpacts.map(c => [IMPACT_TARGET_CONFIG[c.targetType].label, c.label, c.severity, c.reason]),
+      [15, 30, 12, 43],
+    );
+  }
+
+  // ── Redline ──
+  inBody = true;
+  flow.newPage();
+  if (doc.sections.length === 0) {
+    flow.text('The editions are identical.', { font: fonts.sans, size: 10, color: INK.muted });
+  }
+  for (const section of doc.sections) {
+    flow.ensure(48);
+    flow.gap(6);
+    flow.text(section.title, { font: fonts.sansBold, size: 12 });
+    flow.text(
+      [SECTION_DIFF_CONFIG[section.status].label, section.pageRef, section.note].filter(Boolean).join(' · '),
+      { font: fonts.sans, size: 8, color: INK.muted },
+    );
+    flow.rule();
+
+    for (const passage of section.passages) {
+      flow.ensure(30);
+      flow.gap(3);
+      flow.text(passageMeta(passage), { font: fonts.sans, size: 7.5, color: INK.muted });
+      flow.gap(1);
+      if (sideBySide) {
+        flow.columns(
+          passage.segments.filter(s => s.op !== 'insert'),
+          passage.segments.filter(s => s.op !== 'delete'),
+        );
+      } else {
+        flow.text(passage.segments);
+      }
+      for (const note of notableChanges(passage)) {
+        flow.text(note, { font: fonts.sans, size: 7.5, color: INK.muted, indent: 12 });
+      }
+      flow.gap(4);
+    }
+  }
+
+  // ── Running header / footer ──
+  const total = flow.pages.length;
+  flow.pages.forEach((page, i) => {
+    const folio = toWinAnsi(`Page ${i + 1} of ${total}`);
+    const folioWidth = fonts.sans.widthOfTextAtSize(folio, 8);
+    const label = toWinAnsi(`${doc.formLabel} — ${doc.comparison}`);
+    const fits = fonts.sans.widthOfTextAtSize(label, 8) < CONTENT_WIDTH - folioWidth - 12;
+    page.drawText(folio, {
+      x: PAGE_WIDTH - MARGIN - folioWidth, y: MARGIN / 2, size: 8, font: fonts.sans, color: INK.muted,
+    });
+    page.drawText(fits ? label : toWinAnsi(doc.comparison), {
+      x: MARGIN, y: MARGIN / 2, size: 8, font: fonts.sans, color: INK.muted,
+    });
+  });
+
+  return pdf.save();
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// DOCX
+// ════════════════════════════════════════════════════════════════════════
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+/** Letter page and 0.75" margins, in twentieths of a point */
+const DOCX_PAGE = { width: 12240, height: 15840, margin: 1080 };
+const DOCX_CONTENT_WIDTH = DOCX_PAGE.width - DOCX_PAGE.margin * 2;
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const RUN_PROPS: Record<InlineSegment['op'], string> = {
+  equal: '',
+  delete: '<w:strike/><w:color w:val="C81E1E"/>',
+  insert: '<w:color w:val="05734F"/><w:u w:val="single"/>',
+};
+
+function run(text: string, props = ''): string {
+  const rPr = props ? `<w:rPr>${props}</w:rPr>` : '';
+  return text
+    .replace(/\t/g, ' ')
+    .split('\n')
+    .map((part, i) => `${i > 0 ? '<w:br/>' : ''}${part ? `<w:t xml:space="preserve">${xmlEscape(part)}</w:t>` : ''}`)
+    .map(inner => `<w:r>${rPr}${inner}</w:r>`)
+    .join('');
+}
+
+function segmentRuns(segments: InlineSegment[]): string {
+  return segments.map(s => run(s.text, RUN_PROPS[s.op])).join('');
+}
+
+function para(runs: string, props = ''): string {
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+const styled = (style: string, text: string) => para(run(text), `<w:pStyle w:val="${style}"/>`);
+const meta = (text: string) => styled('RedlineMeta', text);
+
+function cell(content: string, width: number, header = false): string {
+  const shading = header ? '<w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/>' : '';
+  return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shading}</w:tcPr>${content || para('')}</w:tc>`;
+}
+
+function table(headers: string[], rows: string[][], weights: number[]): string {
+  const total = weights.reduce((a, b) => a + b, 0);
+  const widths = weights.map(w => Math.round((w / total) * DOCX_CONTENT_WIDTH));
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/>`;
+  const row = (cells: string[], header: boolean) =>
+    `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells
+      .map((c, i) => cell(para(run(c, header ? '<w:b/>' : ''), '<w:pStyle w:val="TableText"/>'), widths[i], header))
+      .join('')}</w:tr>`;
+  return `<w:tbl><w:tblPr><w:tblW w:w="${DOCX_CONTENT_WIDTH}" w:type="dxa"/><w:tblBorders>${
+    ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')
+  }</w:tblBorders></w:tblPr><w:tblGrid>${widths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>${
+    row(headers, true)}${rows.map(r => row(r, false)).join('')}</w:tbl>`;
+}
+
+function docxBody(doc: RedlineDocument): string {
+  const parts: string[] = [];
+
+  // ── Cover ──
+  parts.push(styled('Title', 'Redline Comparison'));
+  parts.push(styled('Subtitle', doc.formLabel));
+  parts.push(para(run(doc.comparison)));
+  parts.push(meta(`Generated ${doc.generatedAt}`));
+  parts.push(para(segmentRuns(LEGEND)));
+  for (const sentence of summarySentences(doc)) parts.push(para(run(sentence)));
+
+  parts.push(styled('Heading1', 'Changed Sections'));
+  parts.push(doc.changedSections.length === 0
+    ? meta('No sections changed between the editions.')
+    : table(
+      ['Section', 'Change', 'Old edition', 'New edition', 'Broad. / Restr. / Edit.'],
+      doc.changedSections.map(r => [
+        r.title, SECTION_DIFF_CONFIG[r.status].label, r.leftPages || '—', r.rightPages || '—', changeCounts(r),
+      ]),
+      [38, 12, 14, 14, 22],
+    ));
+
+  parts.push(styled('Heading1', 'Impacted Clauses'));
+  parts.push(doc.clauses.length === 0
+    ? meta('No clauses are linked to the changed sections.')
+    : table(
+      ['Clause', 'Changed sections', 'Reason'],
+      doc.clauses.map(c => [c.label, c.sections.join(', '), c.reason]),
+      [30, 35, 35],
+    ));
+
+  if (doc.otherImpacts.length > 0) {
+    parts.push(styled('Heading1', 'Other Downstream Impacts'));
+    parts.push(table(
+      ['Type', 'Name', 'Severity', 'Reason'],
+      doc.otherImpacts.map(c => [IMPACT_TARGET_CONFIG[c.targetType].label, c.label, c.severity, c.reason]),
+      [15, 30, 12, 43],
+    ));
+  }
+
+  parts.push('<w:p><w:r><w:br w:type="page"/></w:r></w:p>');
+
+  // ── Redline ──
+  if (doc.sections.length === 0) parts.push(meta('The editions are identical.'));
+  const half = Math.round(DOCX_CONTENT_WIDTH / 2);
+  for (const section of doc.sections) {
+    parts.push(styled('Heading2', section.title));
+    parts.push(meta([SECTION_DIFF_CONFIG[section.status].label, section.pageRef, section.note].filter(Boolean).join(' · ')));
+
+    if (doc.layout === 'sideBySide') {
+      const rows = section.passages.map(p => {
+        const notes = notableChanges(p).map(meta).join('');
+        return `<w:tr>${
+          cell(meta(passageMeta(p)) + para(segmentRuns(p.segments.filter(s => s.op !== 'insert'))), half)
+        }${
+          cell(para(segmentRuns(p.segments.filter(s => s.op !== 'delete'))) + notes, half)
+        }</w:tr>`;
+      });
+      const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="E2E8F0"/>`;
+      parts.push(`<w:tbl><w:tblPr><w:tblW w:w="${DOCX_CONTENT_WIDTH}" w:type="dxa"/><w:tblBorders>${
+        ['insideH', 'insideV'].map(border).join('')
+      }</w:tblBorders></w:tblPr><w:tblGrid><w:gridCol w:w="${half}"/><w:gridCol w:w="${half}"/></w:tblGrid>${
+        `<w:tr><w:trPr><w:tblHeader/></w:trPr>${cell(meta(doc.leftLabel), half, true)}${cell(meta(doc.rightLabel), half, true)}</w:tr>`
+      }${rows.join('')}</w:tbl>`);
+      parts.push(para(''));
+    } else {
+      for (const passage of section.passages) {
+        parts.push(meta(passageMeta(passage)));
+        parts.push(para(segmentRuns(passage.segments)));
+        for (const note of notableChanges(passage)) parts.push(meta(note));
+      }
+    }
+  }
+
+  parts.push(
+    `<w:sectPr><w:footerReference w:type="default" r:id="rId2"/>` +
+    `<w:pgSz w:w="${DOCX_PAGE.width}" w:h="${DOCX_PAGE.height}"/>` +
+    `<w:pgMar w:top="${DOCX_PAGE.margin}" w:right="${DOCX_PAGE.margin}" w:bottom="${DOCX_PAGE.margin}" ` +
+    `w:left="${DOCX_PAGE.margin}" w:header="540" w:footer="540" w:gutter="0"/></w:sectPr>`,
+  );
+  return parts.join('');
+}
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="21"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial"/><w:b/><w:sz w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial"/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial"/><w:b/><w:sz w:val="22"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="60"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial"/><w:b/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="RedlineMeta"><w:name w:val="Redline Meta"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:after="40"/></w:pPr><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial"/><w:color w:val="6B7280"/><w:sz w:val="15"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial"/><w:sz w:val="17"/></w:rPr></w:style>
+</w:styles>`;
+
+/** Render the document as a Word file: cover summary first, then the redline */
+export function renderRedlineDocx(doc: RedlineDocument): Uint8Array {
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${docxBody(doc)}</w:body></w:document>`;
+
+  const footerXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:ftr xmlns:w="${W_NS}" xmlns:r="${R_NS}">${para(
+    run(`${doc.formLabel} — ${doc.comparison}    Page `) +
+    '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>' +
+    '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>',
+    '<w:pStyle w:val="RedlineMeta"/><w:jc w:val="right"/>',
+  )}</w:ftr>`;
+
+  const coreXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${
+    xmlEscape(`${doc.title}: ${doc.comparison}`)}</dc:title><dc:subject>${xmlEscape(doc.formLabel)}</dc:subject><dcterms:created xsi:type="dcterms:W3CDTF">${
+    doc.generatedAt}T00:00:00Z</dcterms:created></cp:coreProperties>`;
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`,
+    },
+    { name: 'docProps/core.xml', data: coreXml },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/styles.xml', data: DOCX_STYLES },
+    { name: 'word/footer1.xml', data: footerXml },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/></Relationships>`,
+    },
+  ]);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Entry point
+// ════════════════════════════════════════════════════════════════════════
+
+/** e.g. "CG_00_01_redline_12-07_to_04-13.pdf" */
+export function redlineExportFileName(result: RedlineComparisonResult, format: RedlineExportFormat): string {
+  const safe = (s: string) => s.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const form = (result.formNumber || 'form').replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  const left = safe(result.leftEditionDate || result.leftVersionId);
+  const right = safe(result.rightEditionDate || result.rightVersionId);
+  return `${form}_redline_${left}_to_${right}.${REDLINE_EXPORT_FORMAT_CONFIG[format].extension}`;
+}
+
+/** Build and render a comparison in one step */
+export async function exportRedline(
+  result: RedlineComparisonResult,
+  format: RedlineExportFormat,
+  options: RedlineExportOptions = {},
+): Promise<Uint8Array> {
+  const doc = buildRedlineDocument(result, options);
+  return format === 'pdf' ? renderRedlinePdf(doc) : renderRedlineDocx(doc);
+}
@@ -8,12 +8,14 @@
  * Services orchestrate persistence; this module focuses on evaluation + diff.
  */
 
-import { evaluate } from './ratingEngine';
+import { evaluate, evaluatePolicy, hasAggregationRules, MISSING_AGGREGATION_MESSAGE } from './ratingEngine';
 import type {
   RatingStep,
   EvaluationContext,
   EvaluationResult,
   RatingTableData,
+  PolicyAggregation,
+  PolicyTerm,
 } from '../types/ratingEngine';
 import type {
   Scenario,
@@ -40,6 +42,10 @@ export interface RegressionRunInput {
   baselineVersionId?: string;
   /** Shared tables cache */
   tables?: Map<string, RatingTableData>;
+  /** Draft version's aggregation stage, for scenarios with exposure units */
+  aggregation?: PolicyAggregation;
+  /** Baseline version's own aggregation stage; the draft's is never applied to it */
+  baselineAggregation?: PolicyAggregation;
 }
 
 export interface RegressionRunOutput {
@@ -84,6 +90,82 @@ export function computeFieldDiffs(
 // Single scenario evaluation
 // ════════════════════════════════════════════════════════════════════════
 
+/** Outputs of one scenario evaluation, single- or multi-unit */
+interface ScenarioEvaluation {
+  success: boolean;
+  outputs: Record<string, number>;
+  unitOutputs?: Record<string, Record<string, number>>;
+  errorMessage: string;
+  resultHash: string;
+}
+
+/** Build the policy term from a scenario's ISO dates, if it has one */
+export function scenarioPolicyTerm(scenario: Scenario): PolicyTerm | undefined {
+  if (!scenario.policyEffectiveDate || !scenario.policyExpirationDate) return undefined;
+  return {
+    effectiveDate: new Date(scenario.policyEffectiveDate),
+    expirationDate: new Date(scenario.policyExpirationDate),
+    transactionDate: scenario.transactionDate ? new Date(scenario.transactionDate) : undefined,
+    transactionType: scenario.transactionType,
+  };
+}
+
+function evaluateScenario(
+  scenario: Scenario,
+  steps: RatingStep[],
+  versionId: string,
+  tables?: Map<string, RatingTableData>,
+  aggregation?: PolicyAggregation,
+): ScenarioEvaluation {
+  const policyTerm = scenarioPolicyTerm(scenario);
+  const effectiveDate = policyTerm?.effectiveDate ?? new Date();
+
+  if (scenario.units && scenario.units.length > 0) {
+    if (!hasAggregationRules(aggregation)) {
+      return { success: false, outputs: {}, errorMessage: MISSING_AGGREGATION_MESSAGE, resultHash: '' };
+    }
+    const result = evaluatePolicy(
+      steps,
+      {
+        policyInputs: scenario.inputs,
+        units: scenario.units,
+        state: scenario.stateCode,
+        effectiveDate,
+        tables,
+        policyTerm,
+      },
+      versionId,
+      aggregation,
+    );
+    const unitOutputs: Record<string, Record<string, number>> = {};
+    for (const unit of result.units) {
+      unitOutputs[unit.unitId] = unit.result.outputs;
+    }
+    return {
+      success: result.success,
+      outputs: result.outputs,
+      unitOutputs,
+      errorMessage: result.errors.map(e => e.message).join('; '),
+      resultHash: result.resultHash,
+    };
+  }
+
+  const context: EvaluationContext = {
+    inputs: scenario.inputs,
+    state: scenario.stateCode,
+    effectiveDate,
+    tables,
+    policyTerm,
+  };
+  const result = evaluate(steps, context, versionId);
+  return {
+    success: result.success,
+    outputs: result.outputs,
+    errorMessage: result.errors.map(e => e.message).join('; '),
+    resultHash: result.resultHash,
+  };
+}
+
 export function runSingleScenario(
   scenario: Scenario,
   draftSteps: RatingStep[],
@@ -91,20 +173,14 @@ export function runSingleScenario(
   baselineSteps?: RatingStep[],
   baselineVersionId?: string,
   tables?: Map<string, RatingTableData>,
+  aggregation?: PolicyAggregation,
+  baselineAggregation?: PolicyAggregation,
 ): QARunScenarioResult {
   const startTime = performance.now();
 
   try {
-    // Build evaluation context
-    const context: EvaluationContext = {
-      inputs: scenario.inputs,
-      state: scenario.stateCode,
-      effectiveDate: new Date(),
-      tables,
-    };
-
     // Evaluate against draft
-    const draftResult = evaluate(draftSteps, context, draftVersionId);
+    const draftResult = evaluateScenario(scenario, draftSteps, draftVersionId, tables, aggregation);
 
     if (!draftResult.success) {
       return {
@@ -114,20 +190,25 @@ export function runSingleScenario(
         actualOutputs: draftResult.outputs,
         expectedOutputs: scenario.expectedOutputs,
         diffs: [],
-        errorMessage: draftResult.errors.map(e => e.message).join('; '),
+        actualUnitOutputs: draftResult.unitOutputs,
+        errorMessage: draftResult.errorMessage,
         executionTimeMs: performance.now() - startTime,
         resultHash: draftResult.resultHash,
       };
     }
 
-    // Compute diffs against expected
+    // Compute diffs against expected, policy-level then per unit
     const diffs = computeFieldDiffs(scenario.expectedOutputs, draftResult.outputs, scenario.tolerance);
+    for (const [unitId, expected] of Object.entries(scenario.expectedUnitOutputs ?? {})) {
+      const unitDiffs = computeFieldDiffs(expected, draftResult.unitOutputs?.[unitId] ?? {}, scenario.tolerance);
+      diffs.push(...unitDiffs.map(d => ({ ...d, unitId })));
+    }
 
     // Evaluate baseline if provided (for comparison view)
     let baselineOutputs: Record<string, number> | undefined;
     if (baselineSteps && baselineVersionId) {
       try {
-        const baselineResult = evaluate(baselineSteps, context, baselineVersionId);
+        const baselineResult = evaluateScenario(scenario, baselineSteps, baselineVersionId, tables, baselineAggregation);
         if (baselineResult.success) {
           baselineOutputs = baselineResult.outputs;
         }
@@ -144,6 +225,7 @@ export function runSingleScenario(
       expectedOutputs: scenario.expectedOutputs,
       diffs,
       baselineOutputs,
+      actualUnitOutputs: draftResult.unitOutputs,
       executionTimeMs: performance.now() - startTime,
       resultHash: draftResult.resultHash,
     };
@@ -166,7 +248,9 @@ export function runSingleScenario(
 // ════════════════════════════════════════════════════════════════════════
 
 export function runRegression(input: RegressionRunInput): RegressionRunOutput {
-  const { scenarios, draftSteps, draftVersionId, baselineSteps, baselineVersionId, tables } = input;
+  const {
+    scenarios, draftSteps, draftVersionId, baselineSteps, baselineVersionId, tables, aggregation, baselineAggregation,
+  } = input;
 
   const results: QARunScenarioResult[] = [];
   let passedCount = 0;
@@ -179,7 +263,7 @@ export function runRegression(input: RegressionRunInput): RegressionRunOutput {
 
     const result = runSingleScenario(
       scenario, draftSteps, draftVersionId,
-      baselineSteps, baselineVersionId, tables,
+      baselineSteps, baselineVersionId, tables, aggregation, baselineAggregation,
     );
     results.push(result);
 
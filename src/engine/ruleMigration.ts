@@ -0,0 +1,624 @@
+/**
+ * Legacy Rule Migration Engine
+ *
+ * Pure functions — no Firestore calls. Converts legacy Rules DSL logic into
+ * engine condition trees and outcomes, reports constructs that cannot be
+ * converted, and checks that both representations agree on the same inputs.
+ *
+ * Conversion is conservative: where the two evaluators treat a missing field
+ * differently (notEquals / notIn), the converted tree adds an explicit
+ * notExists branch so results stay identical.
+ */
+
+import type { Rule } from '../types';
+import type {
+  Action,
+  Condition,
+  ConditionGroup as DslConditionGroup,
+  RuleLogic,
+  RuleEvaluationContext as DslEvaluationContext,
+} from '../types/rulesDsl';
+import { isConditionGroup } from '../types/rulesDsl';
+import type {
+  ConditionGroup,
+  ConditionLeaf,
+  ConditionNode,
+  ConditionOperator,
+  RuleAction,
+  RuleOutcome,
+  RuleSeverity,
+  UnderwritingRule,
+  UnderwritingRuleType,
+} from '../types/rulesEngine';
+import type {
+  MigrationConstruct,
+  MigrationIssueSeverity,
+  RuleConversion,
+  RuleEquivalenceReport,
+  RuleMigrationIssue,
+  RuleMigrationOptions,
+  EquivalenceCaseResult,
+} from '../types/ruleMigration';
+import { evaluateRules } from './rulesEngine';
+
+// ============================================================================
+// Field Mapping
+// ============================================================================
+
+/** Top-level DSL context sections, dropped when deriving a field code */
+const DSL_CONTEXT_SECTIONS = ['risk', 'policy', 'coverage', 'pricing', 'location', 'insured', 'custom'];
+
+/**
+ * Derive a Data Dictionary style code from a DSL field path:
+ * "risk.classCode" → "class_code", "coverage.building.limit" → "building_limit".
+ */
+export function defaultFieldCode(path: string): string {
+  const segments = path.split('.');
+  if (segments.length > 1 && DSL_CONTEXT_SECTIONS.includes(segments[0])) {
+    segments.shift();
+  }
+  return segments
+    .map(s => s.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase())
+    .join('_');
+}
+
+function collectFieldPaths(group: DslConditionGroup, paths: Set<string>): void {
+  for (const item of group.conditions) {
+    if (isConditionGroup(item)) {
+      collectFieldPaths(item, paths);
+    } else if (item.field) {
+      paths.add(item.field);
+    }
+  }
+}
+
+// ============================================================================
+// Condition Conversion
+// ============================================================================
+
+const SIMPLE_OPERATORS: Partial<Record<Condition['operator'], ConditionOperator>> = {
+  equals: 'eq',
+  in: 'in',
+  gt: 'gt',
+  gte: 'gte',
+  lt: 'lt',
+  lte: 'lte',
+  contains: 'contains',
+  exists: 'exists',
+  notExists: 'notExists',
+  startsWith: 'startsWith',
+  endsWith: 'endsWith',
+  matches: 'matches',
+};
+
+interface ConversionState {
+  rule: Rule;
+  fieldMapping: Record<string, string>;
+  issues: RuleMigrationIssue[];
+  nextId: number;
+}
+
+function addIssue(
+  state: ConversionState,
+  severity: MigrationIssueSeverity,
+  construct: MigrationConstruct,
+  message: string,
+  path?: string,
+): void {
+  state.issues.push({
+    legacyRuleId: state.rule.id,
+    legacyRuleName: state.rule.name,
+    severity,
+    construct,
+    message,
+    path,
+  });
+}
+
+/** Deterministic node IDs so repeated conversions produce identical trees */
+function nodeId(state: ConversionState): string {
+  return `mig_${state.rule.id}_${state.nextId++}`;
+}
+
+function makeLeaf(
+  state: ConversionState,
+  fieldCode: string,
+  operator: ConditionOperator,
+  value: ConditionLeaf['value'],
+  valueEnd?: number,
+): ConditionLeaf {
+  const leaf: ConditionLeaf = { kind: 'leaf', id: nodeId(state), fieldCode, operator, value };
+  if (valueEnd !== undefined) leaf.valueEnd = valueEnd;
+  return leaf;
+}
+
+/** Convert one DSL condition; null when it cannot be expressed */
+function convertCondition(
+  condition: Condition,
+  path: string,
+  state: ConversionState,
+): ConditionNode | null {
+  const fieldCode = state.fieldMapping[condition.field];
+  const { operator, value } = condition;
+  const scalar = value === undefined || Array.isArray(value) ? '' : value;
+
+  if (!condition.field) {
+    addIssue(state, 'error', 'field', 'Condition has no field', path);
+    return null;
+  }
+
+  if (condition.valueType === 'date' && ['gt', 'gte', 'lt', 'lte', 'between'].includes(operator)) {
+    if (operator === 'gt' || operator === 'lt') {
+      addIssue(state, 'warning', 'operator',
+        `Date comparison "${operator}" on "${condition.field}" converted to a calendar-date comparison; the legacy evaluator compared dates numerically`,
+        path);
+      return makeLeaf(state, fieldCode, operator === 'gt' ? 'dateAfter' : 'dateBefore', scalar);
+    }
+    addIssue(state, 'error', 'operator', `Inclusive date comparison "${operator}" has no engine equivalent`, path);
+    return null;
+  }
+
+  switch (operator) {
+    case 'notEquals':
+    case 'notIn': {
+      // The legacy evaluator matches a missing field for negative operators
+      const engineOp: ConditionOperator = operator === 'notEquals' ? 'ne' : 'notIn';
+      const compared = engineOp === 'notIn' ? (Array.isArray(value) ? value : []) : scalar;
+      if (engineOp === 'notIn' && !Array.isArray(value)) {
+        addIssue(state, 'error', 'value', `"notIn" requires a list value`, path);
+        return null;
+      }
+      return {
+        kind: 'group',
+        id: nodeId(state),
+        operator: 'OR',
+        conditions: [
+          makeLeaf(state, fieldCode, engineOp, compared),
+          makeLeaf(state, fieldCode, 'notExists', ''),
+        ],
+      };
+    }
+
+    case 'between': {
+      if (!Array.isArray(value) || value.length !== 2) {
+        addIssue(state, 'error', 'value', `"between" requires a [low, high] value`, path);
+        return null;
+      }
+      return makeLeaf(state, fieldCode, 'between', Number(value[0]), Number(value[1]));
+    }
+
+    case 'in': {
+      if (!Array.isArray(value)) {
+        addIssue(state, 'error', 'value', `"in" requires a list value`, path);
+        return null;
+      }
+      return makeLeaf(state, fieldCode, 'in', value);
+    }
+
+    case 'matches':
+      if (typeof value !== 'string' || value === '') {
+        addIssue(state, 'error', 'value', `"matches" requires a non-empty pattern`, path);
+        return null;
+      }
+      return makeLeaf(state, fieldCode, 'matches', value);
+
+    case 'notContains':
+      addIssue(state, 'error', 'operator', `"notContains" has no engine equivalent`, path);
+      return null;
+
+    case 'contains':
+      addIssue(state, 'warning', 'operator',
+        `"contains" on "${condition.field}" only matches text in the engine; list membership is not supported`,
+        path);
+      return makeLeaf(state, fieldCode, 'contains', scalar);
+
+    default: {
+      const engineOp = SIMPLE_OPERATORS[operator];
+      if (!engineOp) {
+        addIssue(state, 'error', 'operator', `Operator "${operator}" has no engine equivalent`, path);
+        return null;
+      }
+      return makeLeaf(state, fieldCode, engineOp, scalar);
+    }
+  }
+}
+
+function convertGroup(
+  group: DslConditionGroup,
+  path: string,
+  state: ConversionState,
+): ConditionGroup {
+  if (group.conditions.length === 0 && group.op === 'OR') {
+    // Legacy: an empty OR never matches; engine: an empty group always matches
+    addIssue(state, 'error', 'group', 'Empty OR group never matches in the legacy evaluator', path);
+  }
+
+  const conditions: ConditionNode[] = [];
+  group.conditions.forEach((item, i) => {
+    const childPath = `${path}.conditions[${i}]`;
+    const converted = isConditionGroup(item)
+      ? convertGroup(item, childPath, state)
+      : convertCondition(item, childPath, state);
+    if (converted) conditions.push(converted);
+  });
+
+  return { kind: 'group', id: nodeId(state), operator: group.op, conditions };
+}
+
+// ============================================================================
+// Outcome Conversion
+// ============================================================================
+
+const ACTION_ORDER: RuleAction[] = ['accept', 'flag', 'require_docs', 'refer', 'decline'];
+const SEVERITY_ORDER: RuleSeverity[] = ['info', 'warning', 'error', 'block'];
+
+const RULE_TYPE_BY_ACTION: Record<RuleAction, UnderwritingRuleType> = {
+  accept: 'eligibility',
+  decline: 'eligibility',
+  refer: 'referral',
+  require_docs: 'referral',
+  flag: 'validation',
+};
+
+function mapAction(action: Action): { action: RuleAction; severity: RuleSeverity } | null {
+  switch (action.type) {
+    case 'block':
+      return { action: 'decline', severity: 'block' };
+    case 'require':
+      return { action: 'refer', severity: 'warning' };
+    case 'addMessage':
+      return {
+        action: 'flag',
+        severity: action.severity === 'error' || action.severity === 'warning' ? action.severity : 'info',
+      };
+    default:
+      return null;
+  }
+}
+
+function convertOutcome(
+  logic: RuleLogic,
+  state: ConversionState,
+): { outcome: RuleOutcome; ruleType: UnderwritingRuleType } {
+  let action: RuleAction | null = null;
+  let severity: RuleSeverity = 'info';
+  const messages: string[] = [];
+  const mappedActions: { action: RuleAction; severity: RuleSeverity }[] = [];
+
+  logic.then.forEach((a, i) => {
+    const mapped = mapAction(a);
+    if (!mapped) {
+      addIssue(state, 'warning', 'action',
+        `"${a.type}" action on "${a.target}" is not supported by underwriting rules and was dropped`,
+        `then[${i}]`);
+      return;
+    }
+    mappedActions.push(mapped);
+    if (a.message) messages.push(a.message);
+  });
+
+  for (const mapped of mappedActions) {
+    if (action === null || ACTION_ORDER.indexOf(mapped.action) > ACTION_ORDER.indexOf(action)) {
+      action = mapped.action;
+    }
+    if (SEVERITY_ORDER.indexOf(mapped.severity) > SEVERITY_ORDER.indexOf(severity)) {
+      severity = mapped.severity;
+    }
+  }
+
+  if (action === null) {
+    addIssue(state, 'error', 'action', 'No THEN action maps to an underwriting outcome (block, require or addMessage)', 'then');
+  }
+
+  if (logic.else && logic.else.length > 0) {
+    addIssue(state, 'error', 'else', 'ELSE actions cannot be expressed; engine rules only fire when conditions are true', 'else');
+  }
+
+  const resolved: RuleAction = action ?? 'flag';
+  return {
+    outcome: {
+      action: resolved,
+      message: messages.join(' ') || state.rule.outcome || state.rule.name,
+      severity,
+      requiredDocs: [],
+    },
+    ruleType: RULE_TYPE_BY_ACTION[resolved],
+  };
+}
+
+// ============================================================================
+// Rule Conversion
+// ============================================================================
+
+function toIsoDate(value: unknown): string | null {
+  if (!value) return null;
+  const date = value instanceof Date
+    ? value
+    : typeof value === 'object' && 'toDate' in value
+      ? (value as { toDate: () => Date }).toDate()
+      : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : null;
+}
+
+/**
+ * Convert a single legacy rule. Always returns a conversion; check
+ * `convertible` and `issues` before writing it anywhere.
+ */
+export function convertLegacyRule(rule: Rule, options: RuleMigrationOptions): RuleConversion {
+  const state: ConversionState = { rule, fieldMapping: {}, issues: [], nextId: 0 };
+  const emptyGroup: ConditionGroup = { kind: 'group', id: nodeId(state), operator: 'AND', conditions: [] };
+
+  const base = {
+    legacyRuleId: rule.id,
+    legacyRuleName: rule.name,
+    scope: { productVersionId: options.productVersionId, stateCode: null, coverageVersionId: null },
+    effectiveStart: toIsoDate(rule.effectiveDate),
+    effectiveEnd: toIsoDate(rule.expirationDate),
+  };
+
+  if (!rule.logic?.if) {
+    addIssue(state, 'error', 'logic', 'Rule has no programmable logic; only its text description exists');
+    return {
+      ...base,
+      convertible: false,
+      ruleType: 'validation',
+      conditions: emptyGroup,
+      outcome: { action: 'flag', message: rule.outcome || rule.name, severity: 'info', requiredDocs: [] },
+      fieldMapping: {},
+      issues: state.issues,
+    };
+  }
+
+  // Field mapping (explicit first, then derived), checked for collisions
+  const paths = new Set<string>();
+  collectFieldPaths(rule.logic.if, paths);
+  const byCode = new Map<string, string>();
+  const knownCodes = options.availableFieldCodes ? new Set(options.availableFieldCodes) : null;
+  for (const path of [...paths].sort()) {
+    const code = options.fieldMapping?.[path] ?? defaultFieldCode(path);
+    state.fieldMapping[path] = code;
+    const other = byCode.get(code);
+    if (other) {
+      addIssue(state, 'error', 'field', `Fields "${other}" and "${path}" both map to "${code}"`);
+    }
+    byCode.set(code, path);
+    if (knownCodes && !knownCodes.has(code)) {
+      addIssue(state, 'warning', 'field', `"${path}" maps to "${code}", which is not in the data dictionary`);
+    }
+  }
+
+  // Scope
+  let stateCode: string | null = null;
+  if (rule.states && rule.states.length > 1) {
+    addIssue(state, 'error', 'scope', `Rule applies to ${rule.states.length} states; engine rules apply to one state or all states`);
+  } else if (rule.states?.length === 1) {
+    stateCode = rule.states[0];
+  }
+
+  const conditions = convertGroup(rule.logic.if, 'if', state);
+  const { outcome, ruleType } = convertOutcome(rule.logic, state);
+
+  return {
+    ...base,
+    scope: { ...base.scope, stateCode },
+    convertible: !state.issues.some(i => i.severity === 'error'),
+    ruleType,
+    conditions,
+    outcome,
+    fieldMapping: state.fieldMapping,
+    issues: state.issues,
+  };
+}
+
+// ============================================================================
+// Equivalence Checking
+// ============================================================================
+
+/** Legacy evaluator signature (ruleBuilderService.evaluateRule) */
+export type LegacyRuleEvaluator = (
+  logic: RuleLogic,
+  context: DslEvaluationContext,
+) => { matched: boolean };
+
+/** Marker for "leave the field unset" in generated probes */
+const MISSING = Symbol('missing');
+type ProbeValue = string | number | boolean | typeof MISSING;
+
+function probesFor(condition: Condition): ProbeValue[] {
+  const { operator, value } = condition;
+  const probes: ProbeValue[] = [MISSING];
+
+  if (Array.isArray(value)) {
+    const items: (string | number)[] = [...value];
+    probes.push(...items);
+    const nums = items.filter((v): v is number => typeof v === 'number');
+    if (nums.length > 0) {
+      probes.push(Math.min(...nums) - 1, Math.max(...nums) + 1);
+    } else {
+      probes.push('__not_in_list__');
+    }
+    return probes;
+  }
+
+  if (typeof value === 'number') {
+    probes.push(value - 1, value, value + 1);
+  } else if (typeof value === 'boolean') {
+    probes.push(value, !value);
+  } else if (typeof value === 'string') {
+    if (operator === 'matches') {
+      probes.push('');
+    } else {
+      probes.push(value, `x${value}x`, `${value}x`, `x${value}`, '');
+    }
+  } else {
+    probes.push('present');
+  }
+  return probes;
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = path.split('.');
+  let node = target;
+  for (const segment of segments.slice(0, -1)) {
+    if (typeof node[segment] !== 'object' || node[segment] === null) node[segment] = {};
+    node = node[segment] as Record<string, unknown>;
+  }
+  node[segments[segments.length - 1]] = value;
+}
+
+function collectConditions(group: DslConditionGroup, out: Condition[]): void {
+  for (const item of group.conditions) {
+    if (isConditionGroup(item)) collectConditions(item, out);
+    else out.push(item);
+  }
+}
+
+/**
+ * Generate probe assignments: a baseline where every field takes its first
+ * non-missing probe, then one variation per (field, probe) pair.
+ */
+export function generateProbeAssignments(logic: RuleLogic): Record<string, ProbeValue>[] {
+  const conditions: Condition[] = [];
+  collectConditions(logic.if, conditions);
+
+  const probesByPath = new Map<string, ProbeValue[]>();
+  for (const condition of conditions) {
+    const existing = probesByPath.get(condition.field) ?? [];
+    for (const probe of probesFor(condition)) {
+      if (!existing.includes(probe)) existing.push(probe);
+    }
+    probesByPath.set(condition.field, existing);
+  }
+
+  const baseline: Record<string, ProbeValue> = {};
+  for (const [path, probes] of probesByPath) {
+    baseline[path] = probes.find(p => p !== MISSING) ?? MISSING;
+  }
+
+  const assignments: Record<string, ProbeValue>[] = [baseline];
+  for (const [path, probes] of probesByPath) {
+    for (const probe of probes) {
+      if (probe !== baseline[path]) assignments.push({ ...baseline, [path]: probe });
+    }
+  }
+  return assignments;
+}
+
+/** Build the nested DSL context and flat engine inputs for one assignment */
+function materialize(
+  assignment: Record<string, ProbeValue>,
+  fieldMapping: Record<string, string>,
+): { context: DslEvaluationContext; inputs: Record<string, string | number | boolean | null> } {
+  const context: Record<string, unknown> = {};
+  const inputs: Record<string, string | number | boolean | null> = {};
+  for (const [path, probe] of Object.entries(assignment)) {
+    if (probe === MISSING) continue;
+    setPath(context, path, probe);
+    inputs[fieldMapping[path] ?? defaultFieldCode(path)] = probe;
+  }
+  return { context: context as DslEvaluationContext, inputs };
+}
+
+/** Flatten a caller-supplied DSL context into engine inputs */
+function flattenContext(
+  context: DslEvaluationContext,
+  fieldMapping: Record<string, string>,
+): Record<string, string | number | boolean | null> {
+  const inputs: Record<string, string | number | boolean | null> = {};
+  for (const [path, code] of Object.entries(fieldMapping)) {
+    const value: unknown = path.split('.').reduce<unknown>(
+      (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+      context,
+    );
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      inputs[code] = value as string | number | boolean | null;
+    }
+  }
+  return inputs;
+}
+
+/**
+ * Evaluate the legacy logic and the converted tree on the same inputs:
+ * generated boundary probes for every condition, plus any sample contexts.
+ */
+export function checkRuleEquivalence(
+  rule: Rule,
+  conversion: RuleConversion,
+  evaluateLegacy: LegacyRuleEvaluator,
+  sampleContexts: DslEvaluationContext[] = [],
+): RuleEquivalenceReport {
+  const mismatches: EquivalenceCaseResult[] = [];
+  let casesEvaluated = 0;
+
+  if (!rule.logic?.if) {
+    return { legacyRuleId: rule.id, legacyRuleName: rule.name, casesEvaluated: 0, equivalent: false, mismatches };
+  }
+
+  const cases = [
+    ...generateProbeAssignments(rule.logic).map(a => materialize(a, conversion.fieldMapping)),
+    ...sampleContexts.map(context => ({ context, inputs: flattenContext(context, conversion.fieldMapping) })),
+  ];
+
+  // Compare condition logic only: scope and effective dates are not in play
+  const engineRule = {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    ruleType: conversion.ruleType,
+    version: {
+      id: `${rule.id}_migration`,
+      ruleId: rule.id,
+      versionNumber: 1,
+      status: 'draft' as const,
+      conditions: conversion.conditions,
+      outcome: conversion.outcome,
+      scope: { ...conversion.scope, stateCode: null },
+      effectiveStart: null,
+      effectiveEnd: null,
+      createdAt: new Date(0),
+      createdBy: 'migration',
+      updatedAt: new Date(0),
+      updatedBy: 'migration',
+    },
+  };
+
+  for (const { context, inputs } of cases) {
+    casesEvaluated++;
+    const legacyMatched = evaluateLegacy(rule.logic, context).matched;
+    const engineFired = evaluateRules([engineRule], {
+      inputs,
+      productVersionId: conversion.scope.productVersionId,
+      effectiveDate: new Date(0),
+    }).firedRules.length > 0;
+
+    if (legacyMatched !== engineFired) {
+      mismatches.push({ context, inputs, legacyMatched, engineFired, equivalent: false });
+    }
+  }
+
+  return {
+    legacyRuleId: rule.id,
+    legacyRuleName: rule.name,
+    casesEvaluated,
+    equivalent: mismatches.length === 0,
+    mismatches,
+  };
+}
+
+// ============================================================================
+// Re-runs
+// ============================================================================
+
+/**
+ * Engine rules created by earlier migrations, keyed by legacy rule ID.
+ * A rule with no versions was left by a run that failed after creating it;
+ * the next run resumes it instead of creating another.
+ */
+export function indexMigratedRules<T extends Pick<UnderwritingRule, 'id' | 'legacyRuleId'>>(
+  rules: T[],
+): Map<string, T> {
+  const byLegacyId = new Map<string, T>();
+  for (const rule of rules) {
+    if (rule.legacyRuleId && !byLegacyId.has(rule.legacyRuleId)) byLegacyId.set(rule.legacyRuleId, rule);
+  }
+  return byLegacyId;
+}
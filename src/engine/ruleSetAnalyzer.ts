@@ -0,0 +1,708 @@
+/**
+ * Rule Set Analyzer
+ *
+ * Static analysis across all published underwriting rules for a product and
+ * state. Condition trees are expanded to disjunctive normal form and each
+ * conjunction is reduced to a per-field domain (numeric intervals, date
+ * intervals or value sets) typed by the Data Dictionary. From those domains
+ * the analyzer finds:
+ *   - conflicts: an accept rule and a decline/refer rule that fire together
+ *   - dead rules: conditions that can never all be true
+ *   - shadowed rules: every input that fires the rule also fires a decline
+ *
+ * Operators the domains cannot model (contains, matches, field comparisons…)
+ * are kept as opaque constraints: they never make a rule dead, and every
+ * conflict or shadowing finding is confirmed by evaluating a witness input
+ * through `evaluateRules`, so reported findings are always reproducible.
+ */
+
+import type {
+  ConditionLeaf,
+  ConditionNode,
+  RuleAction,
+  RuleSetAnalysisReport,
+  RuleSetFinding,
+  RuleWitness,
+} from '../types/rulesEngine';
+import { DERIVED_FIELD_PREFIX, RELATIVE_DATE_OPERATORS } from '../types/rulesEngine';
+import type { DataDictionaryField } from '../types/dataDictionary';
+import { evaluateRules, shiftDate, toUtcDay } from './rulesEngine';
+import type { RuleWithVersion } from './rulesEngine';
+
+// ════════════════════════════════════════════════════════════════════════
+// Field typing
+// ════════════════════════════════════════════════════════════════════════
+
+type Primitive = string | number | boolean;
+
+interface FieldInfo {
+  mode: 'numeric' | 'date' | 'set';
+  /** Integers and day numbers: open bounds tighten to the next whole value */
+  discrete: boolean;
+  /** Finite set of valid values (enum, boolean), null = unbounded */
+  universe: Primitive[] | null;
+  min: number;
+  max: number;
+}
+
+const NUMERIC_OPERATORS = ['gt', 'gte', 'lt', 'lte', 'between'];
+const DATE_OPERATORS = ['dateBefore', 'dateAfter', ...RELATIVE_DATE_OPERATORS];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function dayNumber(value: unknown): number | null {
+  const d = toUtcDay(value);
+  return d ? d.getTime() / MS_PER_DAY : null;
+}
+
+function fieldInfoFromDictionary(field: DataDictionaryField): FieldInfo {
+  const v = field.validation;
+  switch (field.type) {
+    case 'int':
+    case 'decimal':
+      return {
+        mode: 'numeric',
+        discrete: field.type === 'int',
+        universe: null,
+        min: v?.min ?? -Infinity,
+        max: v?.max ?? Infinity,
+      };
+    case 'date':
+      return {
+        mode: 'date',
+        discrete: true,
+        universe: null,
+        min: dayNumber(v?.minDate) ?? -Infinity,
+        max: dayNumber(v?.maxDate) ?? Infinity,
+      };
+    case 'boolean':
+      return { mode: 'set', discrete: false, universe: [true, false], min: -Infinity, max: Infinity };
+    case 'enum':
+      return {
+        mode: 'set',
+        discrete: false,
+        universe: field.allowedValues?.length ? field.allowedValues : null,
+        min: -Infinity,
+        max: Infinity,
+      };
+    default:
+      return { mode: 'set', discrete: false, universe: null, min: -Infinity, max: Infinity };
+  }
+}
+
+/** Infer a field's type from how rules use it when it is not in the dictionary */
+function inferFieldInfo(leaves: ConditionLeaf[]): FieldInfo {
+  const unbounded = { universe: null, min: -Infinity, max: Infinity };
+  if (leaves.some(l => DATE_OPERATORS.includes(l.operator))) {
+    return { mode: 'date', discrete: true, ...unbounded };
+  }
+  if (leaves.some(l => NUMERIC_OPERATORS.includes(l.operator) || typeof l.value === 'number')) {
+    return { mode: 'numeric', discrete: false, ...unbounded };
+  }
+  return { mode: 'set', discrete: false, ...unbounded };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Interval sets
+// ════════════════════════════════════════════════════════════════════════
+
+interface Interval {
+  lo: number;
+  hi: number;
+  loOpen: boolean;
+  hiOpen: boolean;
+}
+
+function normalize(iv: Interval, discrete: boolean): Interval | null {
+  let { lo, hi, loOpen, hiOpen } = iv;
+  if (discrete) {
+    if (Number.isFinite(lo)) lo = loOpen ? Math.floor(lo) + 1 : Math.ceil(lo);
+    if (Number.isFinite(hi)) hi = hiOpen ? Math.ceil(hi) - 1 : Math.floor(hi);
+    loOpen = false;
+    hiOpen = false;
+  }
+  if (lo > hi || (lo === hi && (loOpen || hiOpen))) return null;
+  return { lo, hi, loOpen, hiOpen };
+}
+
+function mergeIntervals(intervals: Interval[], discrete: boolean): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.lo - b.lo || Number(a.loOpen) - Number(b.loOpen));
+  const merged: Interval[] = [];
+  for (const iv of sorted) {
+    const last = merged[merged.length - 1];
+    const touches = last && (
+      last.hi > iv.lo ||
+      (last.hi === iv.lo && !(last.hiOpen && iv.loOpen)) ||
+      (discrete && last.hi + 1 === iv.lo)
+    );
+    if (last && touches) {
+      if (iv.hi > last.hi || (iv.hi === last.hi && !iv.hiOpen)) {
+        last.hi = iv.hi;
+        last.hiOpen = iv.hiOpen;
+      }
+    } else {
+      merged.push({ ...iv });
+    }
+  }
+  return merged;
+}
+
+function makeIntervals(intervals: Interval[], discrete: boolean): Interval[] {
+  return mergeIntervals(
+    intervals.map(iv => normalize(iv, discrete)).filter((iv): iv is Interval => iv !== null),
+    discrete,
+  );
+}
+
+function intersectIntervals(a: Interval[], b: Interval[], discrete: boolean): Interval[] {
+  const out: Interval[] = [];
+  for (const x of a) {
+    for (const y of b) {
+      const lo = Math.max(x.lo, y.lo);
+      const hi = Math.min(x.hi, y.hi);
+      out.push({
+        lo,
+        hi,
+        loOpen: (x.lo === lo && x.loOpen) || (y.lo === lo && y.loOpen),
+        hiOpen: (x.hi === hi && x.hiOpen) || (y.hi === hi && y.hiOpen),
+      });
+    }
+  }
+  return makeIntervals(out, discrete);
+}
+
+function removePoint(intervals: Interval[], point: number, discrete: boolean): Interval[] {
+  return makeIntervals(intervals.flatMap(iv => {
+    const contains = (iv.lo < point || (iv.lo === point && !iv.loOpen)) &&
+      (point < iv.hi || (point === iv.hi && !iv.hiOpen));
+    if (!contains) return [iv];
+    return [
+      { lo: iv.lo, hi: point, loOpen: iv.loOpen, hiOpen: true },
+      { lo: point, hi: iv.hi, loOpen: true, hiOpen: iv.hiOpen },
+    ];
+  }), discrete);
+}
+
+function intervalsSubset(a: Interval[], b: Interval[]): boolean {
+  return a.every(x => b.some(y =>
+    (y.lo < x.lo || (y.lo === x.lo && (!y.loOpen || x.loOpen))) &&
+    (y.hi > x.hi || (y.hi === x.hi && (!y.hiOpen || x.hiOpen))),
+  ));
+}
+
+function pickFromIntervals(intervals: Interval[]): number {
+  const iv = intervals[0];
+  if (Number.isFinite(iv.lo)) {
+    if (!iv.loOpen) return iv.lo;
+    if (Number.isFinite(iv.hi)) return (iv.lo + iv.hi) / 2;
+    return iv.lo + 1;
+  }
+  if (Number.isFinite(iv.hi)) {
+    return iv.hiOpen ? iv.hi - 1 : iv.hi;
+  }
+  return 0;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Field domains
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * The inputs a conjunction allows for one field: absence, and/or present
+ * values restricted by intervals (numeric, date) or allow/deny sets.
+ */
+interface FieldDomain {
+  absentOk: boolean;
+  presentOk: boolean;
+  /** null = unrestricted within the field's bounds */
+  intervals: Interval[] | null;
+  allow: Primitive[] | null;
+  deny: Primitive[];
+  /** Constraints the domain cannot model, checked only by evaluation */
+  opaque: ConditionLeaf[];
+}
+
+const ABSENT_MATCHING = ['isFalse', 'notExists'];
+
+function universeDomain(): FieldDomain {
+  return { absentOk: true, presentOk: true, intervals: null, allow: null, deny: [], opaque: [] };
+}
+
+function boundsOf(info: FieldInfo): Interval[] {
+  return [{ lo: info.min, hi: info.max, loOpen: false, hiOpen: false }];
+}
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+/** Convert a leaf to the domain of inputs that satisfy it */
+function leafDomain(leaf: ConditionLeaf, info: FieldInfo, effectiveDate: Date): FieldDomain {
+  const domain: FieldDomain = { ...universeDomain(), absentOk: false };
+  const opaque = (): FieldDomain => ({ ...domain, absentOk: ABSENT_MATCHING.includes(leaf.operator), opaque: [leaf] });
+  const within = (intervals: Interval[]): FieldDomain => ({
+    ...domain,
+    intervals: intersectIntervals(makeIntervals(intervals, info.discrete), boundsOf(info), info.discrete),
+  });
+  const point = (v: number): Interval => ({ lo: v, hi: v, loOpen: false, hiOpen: false });
+  const { operator, value } = leaf;
+
+  if (leaf.compareToField) return opaque();
+  if (operator === 'exists') return domain;
+  if (operator === 'notExists') return { ...domain, absentOk: true, presentOk: false };
+
+  if (info.mode === 'numeric') {
+    const n = Number(value);
+    const end = Number(leaf.valueEnd ?? value);
+    switch (operator) {
+      case 'eq':
+        return typeof value === 'number' ? within([point(value)]) : opaque();
+      case 'ne':
+        return typeof value === 'number' ? { ...domain, intervals: removePoint(boundsOf(info), value, info.discrete) } : opaque();
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        if (!Number.isFinite(n)) return opaque();
+        return within([operator.startsWith('g')
+          ? { lo: n, hi: Infinity, loOpen: operator === 'gt', hiOpen: false }
+          : { lo: -Infinity, hi: n, loOpen: false, hiOpen: operator === 'lt' }]);
+      case 'between':
+        return Number.isFinite(n) && Number.isFinite(end) ? within([{ lo: n, hi: end, loOpen: false, hiOpen: false }]) : opaque();
+      case 'in':
+        return within(Array.isArray(value) ? value.filter((v): v is number => typeof v === 'number').map(point) : []);
+      case 'notIn': {
+        let intervals = boundsOf(info);
+        for (const v of Array.isArray(value) ? value : []) {
+          if (typeof v === 'number') intervals = removePoint(intervals, v, info.discrete);
+        }
+        return { ...domain, intervals };
+      }
+      default:
+        return opaque();
+    }
+  }
+
+  if (info.mode === 'date') {
+    const effectiveDay = dayNumber(effectiveDate)!;
+    const amount = Number(value);
+    const unit = leaf.dateUnit ?? 'days';
+    const shifted = (n: number) => dayNumber(shiftDate(toUtcDay(effectiveDate)!, n, unit))!;
+    switch (operator) {
+      case 'dateBefore':
+      case 'dateAfter': {
+        const bound = dayNumber(value);
+        if (bound === null) return within([]);
+        return within([operator === 'dateBefore'
+          ? { lo: -Infinity, hi: bound, loOpen: false, hiOpen: true }
+          : { lo: bound, hi: Infinity, loOpen: true, hiOpen: false }]);
+      }
+      case 'withinLast':
+      case 'withinNext':
+      case 'olderThan':
+        if (!Number.isFinite(amount)) return within([]);
+        if (operator === 'withinLast') return within([{ lo: shifted(-amount), hi: effectiveDay, loOpen: false, hiOpen: false }]);
+        if (operator === 'withinNext') return within([{ lo: effectiveDay, hi: shifted(amount), loOpen: false, hiOpen: false }]);
+        return within([{ lo: -Infinity, hi: shifted(-amount), loOpen: false, hiOpen: true }]);
+      case 'eq':
+        return isIsoDate(value) ? within([point(dayNumber(value)!)]) : opaque();
+      case 'ne':
+        return isIsoDate(value) ? { ...domain, intervals: removePoint(boundsOf(info), dayNumber(value)!, true) } : opaque();
+      case 'in':
+        return within(Array.isArray(value) ? value.filter(isIsoDate).map(v => point(dayNumber(v)!)) : []);
+      default:
+        return opaque();
+    }
+  }
+
+  switch (operator) {
+    case 'eq':
+      return Array.isArray(value) ? { ...domain, allow: [] } : { ...domain, allow: [value] };
+    case 'ne':
+      return Array.isArray(value) ? domain : { ...domain, deny: [value] };
+    case 'in':
+      return { ...domain, allow: Array.isArray(value) ? value : [] };
+    case 'notIn':
+      return { ...domain, deny: Array.isArray(value) ? value : [] };
+    case 'isTrue':
+      return { ...domain, allow: [true, 'true', 1] };
+    case 'isFalse':
+      return { ...domain, absentOk: true, allow: [false, 'false', 0] };
+    default:
+      return opaque();
+  }
+}
+
+function intersectDomains(a: FieldDomain, b: FieldDomain, info: FieldInfo): FieldDomain {
+  return {
+    absentOk: a.absentOk && b.absentOk,
+    presentOk: a.presentOk && b.presentOk,
+    intervals: a.intervals === null ? b.intervals
+      : b.intervals === null ? a.intervals
+      : intersectIntervals(a.intervals, b.intervals, info.discrete),
+    allow: a.allow === null ? b.allow
+      : b.allow === null ? a.allow
+      : a.allow.filter(v => b.allow!.includes(v)),
+    deny: [...a.deny, ...b.deny],
+    opaque: [...a.opaque, ...b.opaque],
+  };
+}
+
+/** Present values a domain allows, for set-mode fields with a finite domain */
+function allowedValues(d: FieldDomain, info: FieldInfo): Primitive[] | null {
+  const base = d.allow && info.universe ? d.allow.filter(v => info.universe!.includes(v)) : d.allow ?? info.universe;
+  return base ? base.filter(v => !d.deny.includes(v)) : null;
+}
+
+function hasPresentValue(d: FieldDomain, info: FieldInfo): boolean {
+  if (!d.presentOk) return false;
+  if (d.intervals !== null && d.intervals.length === 0) return false;
+  const values = allowedValues(d, info);
+  return values === null || values.length > 0;
+}
+
+function isSatisfiable(d: FieldDomain, info: FieldInfo): boolean {
+  return d.absentOk || hasPresentValue(d, info);
+}
+
+function leafSignature(leaf: ConditionLeaf): string {
+  return JSON.stringify([leaf.fieldCode, leaf.operator, leaf.value, leaf.valueEnd ?? null, leaf.dateUnit ?? null, leaf.compareToField ?? null]);
+}
+
+/** Does every input allowed by `a` also satisfy `b`? (sound, not complete) */
+function domainSubset(a: FieldDomain, b: FieldDomain, info: FieldInfo): boolean {
+  if (a.absentOk && !b.absentOk) return false;
+  if (!hasPresentValue(a, info)) return true;
+  if (!b.presentOk) return false;
+
+  if (b.intervals !== null && !intervalsSubset(a.intervals ?? boundsOf(info), b.intervals)) return false;
+
+  const bValues = allowedValues(b, info);
+  if (bValues !== null) {
+    const aValues = allowedValues(a, info);
+    if (aValues === null || !aValues.every(v => bValues.includes(v))) return false;
+  } else if (!b.deny.every(v => a.deny.includes(v) || (a.allow !== null && !a.allow.includes(v)))) {
+    return false;
+  }
+
+  const aOpaque = new Set(a.opaque.map(leafSignature));
+  return b.opaque.every(leaf => aOpaque.has(leafSignature(leaf)));
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Condition trees → conjunctions
+// ════════════════════════════════════════════════════════════════════════
+
+/** Maximum conjunctions a single rule may expand to before it is skipped */
+const MAX_CONJUNCTIONS = 64;
+
+class TooComplexError extends Error {}
+
+/** Expand a condition tree to disjunctive normal form (lists of leaves) */
+function toDnf(node: ConditionNode): ConditionLeaf[][] {
+  if (node.kind === 'leaf') return [[node]];
+  if (node.conditions.length === 0) return [[]]; // empty group is vacuously true
+
+  if (node.operator === 'OR') {
+    const terms = node.conditions.flatMap(toDnf);
+    if (terms.length > MAX_CONJUNCTIONS) throw new TooComplexError();
+    return terms;
+  }
+
+  let terms: ConditionLeaf[][] = [[]];
+  for (const child of node.conditions) {
+    const childTerms = toDnf(child);
+    const next: ConditionLeaf[][] = [];
+    for (const t of terms) {
+      for (const c of childTerms) next.push([...t, ...c]);
+    }
+    if (next.length > MAX_CONJUNCTIONS) throw new TooComplexError();
+    terms = next;
+  }
+  return terms;
+}
+
+type Conjunction = Map<string, FieldDomain>;
+
+interface AnalyzedRule {
+  rule: RuleWithVersion;
+  /** Satisfiable conjunctions only */
+  conjunctions: Conjunction[];
+  /** Fields that made unsatisfiable conjunctions contradictory */
+  contradictoryFields: string[];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Witnesses
+// ════════════════════════════════════════════════════════════════════════
+
+/** Candidate text for fields constrained only by string operators */
+function textCandidates(d: FieldDomain, fieldCode: string): string[] {
+  const of = (op: string) => d.opaque
+    .filter(l => l.operator === op && typeof l.value === 'string')
+    .map(l => l.value as string);
+  const composite = [...of('startsWith'), ...of('contains'), ...of('endsWith')].join('');
+  return [composite, fieldCode, `${fieldCode}_1`, `${fieldCode}_2`].filter(Boolean);
+}
+
+function pickValue(fieldCode: string, d: FieldDomain, info: FieldInfo): Primitive {
+  if (info.mode === 'numeric' || info.mode === 'date') {
+    const n = pickFromIntervals(d.intervals ?? boundsOf(info));
+    return info.mode === 'date' ? new Date(n * MS_PER_DAY).toISOString().slice(0, 10) : n;
+  }
+  const values = allowedValues(d, info);
+  if (values) return values[0];
+  return textCandidates(d, fieldCode).find(v => !d.deny.includes(v)) ?? `${fieldCode}_x`;
+}
+
+function buildWitness(conjunction: Conjunction, fieldInfo: Map<string, FieldInfo>): RuleWitness {
+  const witness: RuleWitness = { inputs: {} };
+  for (const [fieldCode, d] of [...conjunction.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const info = fieldInfo.get(fieldCode)!;
+    if (!hasPresentValue(d, info)) continue; // absence satisfies the domain
+    const value = pickValue(fieldCode, d, info);
+    if (fieldCode.startsWith(DERIVED_FIELD_PREFIX)) {
+      witness.derivedFields = { ...witness.derivedFields, [fieldCode.slice(DERIVED_FIELD_PREFIX.length)]: value };
+    } else {
+      witness.inputs[fieldCode] = value;
+    }
+  }
+  return witness;
+}
+
+function intersectConjunctions(a: Conjunction, b: Conjunction, fieldInfo: Map<string, FieldInfo>): Conjunction | null {
+  const out: Conjunction = new Map(a);
+  for (const [field, d] of b) {
+    const info = fieldInfo.get(field)!;
+    const merged = out.has(field) ? intersectDomains(out.get(field)!, d, info) : d;
+    if (!isSatisfiable(merged, info)) return null;
+    out.set(field, merged);
+  }
+  return out;
+}
+
+/** Confirm a witness fires every rule given, using the real engine */
+function firesAll(
+  rules: RuleWithVersion[],
+  witness: RuleWitness,
+  stateCode: string | undefined,
+  effectiveDate: Date,
+): boolean {
+  const result = evaluateRules(rules, {
+    inputs: witness.inputs,
+    derivedFields: witness.derivedFields,
+    productVersionId: rules[0].version.scope.productVersionId,
+    state: stateCode,
+    coverageVersionId: rules.find(r => r.version.scope.coverageVersionId)?.version.scope.coverageVersionId ?? undefined,
+    effectiveDate,
+  });
+  return rules.every(r => result.firedRules.some(f => f.ruleId === r.ruleId));
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Analysis
+// ════════════════════════════════════════════════════════════════════════
+
+export interface RuleSetAnalysisInput {
+  rules: RuleWithVersion[];
+  dictionaryFields: DataDictionaryField[];
+  /** Analyze rules that apply to this state; null = compare every state separately */
+  stateCode?: string | null;
+  /** Date rules must be in force on; also anchors relative date operators */
+  effectiveDate: Date;
+}
+
+const CONFLICTING_ACTIONS: Partial<Record<RuleAction, RuleAction[]>> = {
+  accept: ['decline', 'refer'],
+};
+
+function inForce(rule: RuleWithVersion, stateCode: string | null, effectiveDay: number): boolean {
+  const v = rule.version;
+  if (v.status !== 'published') return false;
+  if (stateCode && v.scope.stateCode && v.scope.stateCode !== stateCode) return false;
+  const start = dayNumber(v.effectiveStart);
+  const end = dayNumber(v.effectiveEnd);
+  return (start === null || start <= effectiveDay) && (end === null || effectiveDay <= end);
+}
+
+/** Can both rules apply to the same risk? */
+function scopesOverlap(a: RuleWithVersion, b: RuleWithVersion): boolean {
+  const sa = a.version.scope;
+  const sb = b.version.scope;
+  return sa.productVersionId === sb.productVersionId &&
+    (!sa.stateCode || !sb.stateCode || sa.stateCode === sb.stateCode) &&
+    (!sa.coverageVersionId || !sb.coverageVersionId || sa.coverageVersionId === sb.coverageVersionId);
+}
+
+/** Does `outer` apply everywhere `inner` does? */
+function scopeCovers(outer: RuleWithVersion, inner: RuleWithVersion): boolean {
+  const so = outer.version.scope;
+  const si = inner.version.scope;
+  return so.productVersionId === si.productVersionId &&
+    (!so.stateCode || so.stateCode === si.stateCode) &&
+    (!so.coverageVersionId || so.coverageVersionId === si.coverageVersionId);
+}
+
+/**
+ * Analyze a rule set for conflicts, dead rules and shadowed rules.
+ * Deterministic: rules are processed in ruleId order.
+ */
+export function analyzeRuleSet(input: RuleSetAnalysisInput): RuleSetAnalysisReport {
+  const { effectiveDate } = input;
+  const stateCode = input.stateCode ?? null;
+  const effectiveDay = dayNumber(effectiveDate)!;
+  const findings: RuleSetFinding[] = [];
+  const skippedRules: RuleSetAnalysisReport['skippedRules'] = [];
+
+  const rules = input.rules
+    .filter(r => inForce(r, stateCode, effectiveDay))
+    .sort((a, b) => a.ruleId.localeCompare(b.ruleId));
+
+  // Field typing: dictionary first, then inference from usage
+  const leavesByField = new Map<string, ConditionLeaf[]>();
+  const collect = (node: ConditionNode) => {
+    if (node.kind === 'leaf') {
+      if (!node.fieldCode) return;
+      leavesByField.set(node.fieldCode, [...(leavesByField.get(node.fieldCode) ?? []), node]);
+    } else {
+      node.conditions.forEach(collect);
+    }
+  };
+  rules.forEach(r => collect(r.version.conditions));
+
+  const dictionary = new Map(input.dictionaryFields.map(f => [f.code, f]));
+  const fieldInfo = new Map<string, FieldInfo>();
+  for (const [code, leaves] of leavesByField) {
+    const field = dictionary.get(code);
+    fieldInfo.set(code, field ? fieldInfoFromDictionary(field) : inferFieldInfo(leaves));
+  }
+
+  // Reduce each rule to satisfiable conjunctions
+  const analyzed: AnalyzedRule[] = [];
+  for (const rule of rules) {
+    let terms: ConditionLeaf[][];
+    try {
+      terms = toDnf(rule.version.conditions);
+    } catch (err) {
+      if (!(err instanceof TooComplexError)) throw err;
+      skippedRules.push({
+        ruleId: rule.ruleId,
+        ruleName: rule.ruleName,
+        reason: `Condition tree expands to more than ${MAX_CONJUNCTIONS} alternatives`,
+      });
+      continue;
+    }
+
+    const conjunctions: Conjunction[] = [];
+    const contradictory = new Set<string>();
+    for (const term of terms) {
+      const conj: Conjunction = new Map();
+      let satisfiable = true;
+      for (const leaf of term.filter(l => l.fieldCode)) {
+        const info = fieldInfo.get(leaf.fieldCode)!;
+        const d = leafDomain(leaf, info, effectiveDate);
+        const merged = conj.has(leaf.fieldCode) ? intersectDomains(conj.get(leaf.fieldCode)!, d, info) : d;
+        conj.set(leaf.fieldCode, merged);
+        if (!isSatisfiable(merged, info)) {
+          satisfiable = false;
+          contradictory.add(leaf.fieldCode);
+        }
+      }
+      if (satisfiable) conjunctions.push(conj);
+    }
+
+    analyzed.push({ rule, conjunctions, contradictoryFields: [...contradictory].sort() });
+  }
+
+  // Dead rules
+  for (const a of analyzed) {
+    if (a.conjunctions.length > 0) continue;
+    findings.push({
+      type: 'dead_rule',
+      severity: 'warning',
+      ruleIds: [a.rule.ruleId],
+      ruleNames: [a.rule.ruleName],
+      message: a.contradictoryFields.length > 0
+        ? `"${a.rule.ruleName}" can never fire: its conditions on ${a.contradictoryFields.join(', ')} contradict each other or the data dictionary`
+        : `"${a.rule.ruleName}" can never fire`,
+      fieldCodes: a.contradictoryFields,
+    });
+  }
+
+  const live = analyzed.filter(a => a.conjunctions.length > 0);
+  const verifyState = (a: RuleWithVersion, b: RuleWithVersion) =>
+    stateCode ?? a.version.scope.stateCode ?? b.version.scope.stateCode ?? undefined;
+
+  // Conflicts: contradictory actions on a common input
+  for (let i = 0; i < live.length; i++) {
+    for (let j = i + 1; j < live.length; j++) {
+      const [a, b] = [live[i], live[j]];
+      const actionA = a.rule.version.outcome.action;
+      const actionB = b.rule.version.outcome.action;
+      const contradicts = CONFLICTING_ACTIONS[actionA]?.includes(actionB) || CONFLICTING_ACTIONS[actionB]?.includes(actionA);
+      if (!contradicts || !scopesOverlap(a.rule, b.rule)) continue;
+
+      let witness: RuleWitness | undefined;
+      for (const ca of a.conjunctions) {
+        for (const cb of b.conjunctions) {
+          const both = intersectConjunctions(ca, cb, fieldInfo);
+          if (!both) continue;
+          const candidate = buildWitness(both, fieldInfo);
+          if (firesAll([a.rule, b.rule], candidate, verifyState(a.rule, b.rule), effectiveDate)) {
+            witness = candidate;
+            break;
+          }
+        }
+        if (witness) break;
+      }
+      if (!witness) continue;
+
+      const severity = actionA === 'decline' || actionB === 'decline' ? 'error' : 'warning';
+      findings.push({
+        type: 'conflict',
+        severity,
+        ruleIds: [a.rule.ruleId, b.rule.ruleId],
+        ruleNames: [a.rule.ruleName, b.rule.ruleName],
+        message: `"${a.rule.ruleName}" (${actionA}) and "${b.rule.ruleName}" (${actionB}) both fire on the same input`,
+        witness,
+      });
+    }
+  }
+
+  // Shadowed rules: fully covered by a decline rule
+  const declines = live.filter(a => a.rule.version.outcome.action === 'decline');
+  for (const r of live) {
+    if (r.rule.version.outcome.action === 'decline') continue;
+    const shadow = declines.find(d =>
+      d.rule.ruleId !== r.rule.ruleId &&
+      scopeCovers(d.rule, r.rule) &&
+      r.conjunctions.every(rc => d.conjunctions.some(dc => {
+        for (const [field, dd] of dc) {
+          const info = fieldInfo.get(field)!;
+          if (!domainSubset(rc.get(field) ?? universeDomain(), dd, info)) return false;
+        }
+        return true;
+      })),
+    );
+    if (!shadow) continue;
+
+    const witness = buildWitness(r.conjunctions[0], fieldInfo);
+    if (!firesAll([r.rule, shadow.rule], witness, verifyState(r.rule, shadow.rule), effectiveDate)) continue;
+
+    findings.push({
+      type: 'shadowed_rule',
+      severity: 'warning',
+      ruleIds: [r.rule.ruleId, shadow.rule.ruleId],
+      ruleNames: [r.rule.ruleName, shadow.rule.ruleName],
+      message: `"${r.rule.ruleName}" never changes the outcome: "${shadow.rule.ruleName}" declines every input it fires on`,
+      witness,
+    });
+  }
+
+  return {
+    stateCode,
+    effectiveDate: new Date(effectiveDay * MS_PER_DAY).toISOString().slice(0, 10),
+    rulesAnalyzed: analyzed.length,
+    skippedRules,
+    findings,
+  };
+}
@@ -7,6 +7,7 @@
  * - Every leaf condition is individually traced for explainability
  * - Short-circuit logic with full trace preservation
  * - Scope-based filtering (product version, state, coverage)
+ * - Relative date operators resolve against the context effective date
  * - Aggregate severity rollup
  */
 
@@ -27,6 +28,12 @@ import type {
   RuleReadinessCheck,
   RuleReadinessIssue,
   UnderwritingRuleVersion,
+  DateOffsetUnit,
+} from '../types/rulesEngine';
+import {
+  DERIVED_FIELD_PREFIX,
+  RELATIVE_DATE_OPERATORS,
+  VALUELESS_OPERATORS,
 } from '../types/rulesEngine';
 import { createHash, combineHashes } from './hashUtils';
 
@@ -49,14 +56,27 @@ function actionRank(a: RuleAction): number {
 // Condition Evaluation  (recursive, fully traced)
 // ============================================================================
 
+type FieldValue = string | number | boolean | null;
+
 /**
- * Evaluate a single condition leaf against the provided input values.
+ * Resolve a field reference: Data Dictionary inputs, or derived values when
+ * the code carries the "derived." prefix.
+ */
+function resolveField(fieldCode: string, ctx: RuleEvaluationContext): FieldValue {
+  if (fieldCode.startsWith(DERIVED_FIELD_PREFIX)) {
+    return ctx.derivedFields?.[fieldCode.slice(DERIVED_FIELD_PREFIX.length)] ?? null;
+  }
+  return ctx.inputs[fieldCode] ?? null;
+}
+
+/**
+ * Evaluate a single condition leaf against the context inputs.
  */
 function evaluateLeaf(
   leaf: ConditionLeaf,
-  inputs: Record<string, string | number | boolean | null>,
+  ctx: RuleEvaluationContext,
 ): { result: boolean; trace: ConditionTraceEntry } {
-  const actualValue = inputs[leaf.fieldCode] ?? null;
+  const actualValue = resolveField(leaf.fieldCode, ctx);
 
   const trace: ConditionTraceEntry = {
     conditionId: leaf.id,
@@ -67,16 +87,46 @@ function evaluateLeaf(
     result: false, // will be set below
   };
 
-  // If field is missing, only isTrue / isFalse can meaningfully evaluate
+  // If field is missing, only isFalse / notExists can evaluate to true
   if (actualValue === null || actualValue === undefined) {
-    if (leaf.operator === 'isFalse') {
+    if (leaf.operator === 'isFalse' || leaf.operator === 'notExists') {
       trace.result = true;
     }
     // everything else is false when the field is absent
     return { result: trace.result, trace };
   }
 
-  const result = applyOperator(leaf.operator, actualValue, leaf.value, leaf.valueEnd);
+  let expected = leaf.value;
+  if (leaf.compareToField) {
+    const compared = resolveField(leaf.compareToField, ctx);
+    trace.comparedFieldCode = leaf.compareToField;
+    if (compared === null) {
+      trace.note = `Compared field "${leaf.compareToField}" has no value`;
+      return { result: false, trace };
+    }
+    expected = compared;
+    trace.expectedValue = compared;
+  }
+
+  if (isDateOperator(leaf.operator)) {
+    const outcome = applyDateOperator(leaf.operator, actualValue, expected, leaf.dateUnit ?? 'days', ctx.effectiveDate);
+    trace.result = outcome.result;
+    trace.referenceDate = outcome.referenceDate;
+    trace.note = outcome.note;
+    return { result: outcome.result, trace };
+  }
+
+  if (leaf.operator === 'matches') {
+    const pattern = compilePattern(expected);
+    if (!pattern) {
+      trace.note = `Invalid pattern: ${String(expected)}`;
+      return { result: false, trace };
+    }
+    trace.result = typeof actualValue === 'string' && pattern.test(actualValue);
+    return { result: trace.result, trace };
+  }
+
+  const result = applyOperator(leaf.operator, actualValue, expected, leaf.valueEnd);
   trace.result = result;
   return { result, trace };
 }
@@ -112,26 +162,155 @@ function applyOperator(
       return Array.isArray(expected) && !expected.includes(actual as string | number);
     case 'contains':
       return typeof actual === 'string' && typeof expected === 'string' && actual.includes(expected);
+    case 'startsWith':
+      return typeof actual === 'string' && typeof expected === 'string' && actual.startsWith(expected);
+    case 'endsWith':
+      return typeof actual === 'string' && typeof expected === 'string' && actual.endsWith(expected);
     case 'isTrue':
       return actual === true || actual === 'true' || actual === 1;
     case 'isFalse':
       return actual === false || actual === 'false' || actual === 0;
+    case 'exists':
+      return true;
+    case 'notExists':
+      return false;
     default:
       return false;
   }
 }
 
+// ============================================================================
+// Regex & Date Operators
+// ============================================================================
+
+const patternCache = new Map<string, RegExp | null>();
+
+/** Compile (and cache) a regex pattern; null if the pattern is invalid */
+function compilePattern(pattern: unknown): RegExp | null {
+  if (typeof pattern !== 'string' || pattern === '') return null;
+  if (!patternCache.has(pattern)) {
+    try {
+      patternCache.set(pattern, new RegExp(pattern));
+    } catch {
+      patternCache.set(pattern, null);
+    }
+  }
+  return patternCache.get(pattern) ?? null;
+}
+
+const DATE_OPERATORS: ConditionOperator[] = ['dateBefore', 'dateAfter', ...RELATIVE_DATE_OPERATORS];
+
+function isDateOperator(op: ConditionOperator): boolean {
+  return DATE_OPERATORS.includes(op);
+}
+
+/** ISO 8601 calendar date, optionally with a time that carries its own UTC offset */
+const ISO_DATE_RE = /^(\d{4})-(\d{2})-(\d{2})(T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2}))?$/;
+
+/**
+ * Parse a field or comparison value to a UTC midnight date, or null.
+ * Accepts Date values and ISO 8601 strings: a calendar date (YYYY-MM-DD) or
+ * a date-time with an offset. A date-time counts on the calendar day written
+ * in it, where the event happened, not on its UTC day:
+ * '2025-03-01T23:30:00-05:00' is 2025-03-01 even though it is March 2 in UTC.
+ * Epoch numbers and other string formats are rejected rather than parsed in
+ * the host's time zone.
+ */
+export function toUtcDay(value: unknown): Date | null {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null;
+    return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+  }
+  if (typeof value !== 'string') return null;
+
+  const m = ISO_DATE_RE.exec(value);
+  if (!m) return null;
+  const day = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+  if (day.getUTCMonth() !== +m[2] - 1 || day.getUTCDate() !== +m[3]) return null;
+  // The time part only has to be valid; the day is the one written
+  if (m[4] && Number.isNaN(new Date(value).getTime())) return null;
+  return day;
+}
+
+/**
+ * Shift a date by a number of days, months or years. Month and year shifts
+ * clamp to the last day of the target month (Mar 31 - 1 month = Feb 28/29).
+ */
+export function shiftDate(date: Date, amount: number, unit: DateOffsetUnit): Date {
+  if (unit === 'days') {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + amount));
+  }
+  const months = unit === 'years' ? amount * 12 : amount;
+  const targetMonth = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), targetMonth + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(date.getUTCFullYear(), targetMonth, Math.min(date.getUTCDate(), lastDay)));
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Compare a date field against a calendar date, or against a window
+ * relative to the effective date. All comparisons are at day granularity
+ * and window bounds are inclusive.
+ */
+function applyDateOperator(
+  op: ConditionOperator,
+  actual: string | number | boolean,
+  expected: string | number | boolean | (string | number)[],
+  unit: DateOffsetUnit,
+  effectiveDate: Date,
+): { result: boolean; referenceDate?: string; note?: string } {
+  const actualDay = toUtcDay(actual);
+  if (!actualDay) {
+    return { result: false, note: `"${String(actual)}" is not a valid date` };
+  }
+
+  if (op === 'dateBefore' || op === 'dateAfter') {
+    const bound = toUtcDay(expected);
+    if (!bound) {
+      return { result: false, note: `"${String(expected)}" is not a valid date` };
+    }
+    const result = op === 'dateBefore' ? actualDay < bound : actualDay > bound;
+    return { result, referenceDate: isoDay(bound) };
+  }
+
+  const amount = Number(expected);
+  if (!Number.isFinite(amount)) {
+    return { result: false, note: `"${String(expected)}" is not a valid number of ${unit}` };
+  }
+  const effectiveDay = toUtcDay(effectiveDate)!;
+
+  switch (op) {
+    case 'withinLast': {
+      const bound = shiftDate(effectiveDay, -amount, unit);
+      return { result: actualDay >= bound && actualDay <= effectiveDay, referenceDate: isoDay(bound) };
+    }
+    case 'withinNext': {
+      const bound = shiftDate(effectiveDay, amount, unit);
+      return { result: actualDay >= effectiveDay && actualDay <= bound, referenceDate: isoDay(bound) };
+    }
+    case 'olderThan': {
+      const bound = shiftDate(effectiveDay, -amount, unit);
+      return { result: actualDay < bound, referenceDate: isoDay(bound) };
+    }
+    default:
+      return { result: false };
+  }
+}
+
 /**
  * Recursively evaluate a condition tree (group or leaf).
  * Collects leaf-level trace entries along the way.
  */
 function evaluateNode(
   node: ConditionNode,
-  inputs: Record<string, string | number | boolean | null>,
+  ctx: RuleEvaluationContext,
   traces: ConditionTraceEntry[],
 ): boolean {
   if (node.kind === 'leaf') {
-    const { result, trace } = evaluateLeaf(node, inputs);
+    const { result, trace } = evaluateLeaf(node, ctx);
     traces.push(trace);
     return result;
   }
@@ -142,7 +321,7 @@ function evaluateNode(
 
   if (group.operator === 'AND') {
     for (const child of group.conditions) {
-      const childResult = evaluateNode(child, inputs, traces);
+      const childResult = evaluateNode(child, ctx, traces);
       if (!childResult) return false; // short-circuit AND
     }
     return true;
@@ -150,7 +329,7 @@ function evaluateNode(
 
   // OR
   for (const child of group.conditions) {
-    const childResult = evaluateNode(child, inputs, traces);
+    const childResult = evaluateNode(child, ctx, traces);
     if (childResult) return true; // short-circuit OR
   }
   return false;
@@ -251,7 +430,7 @@ export function evaluateRules(
     // 2. Evaluate condition tree
     let fired = false;
     try {
-      fired = evaluateNode(rule.version.conditions, ctx.inputs, conditionTrace);
+      fired = evaluateNode(rule.version.conditions, ctx, conditionTrace);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       errors.push(`Rule "${rule.ruleName}": ${msg}`);
@@ -289,7 +468,7 @@ export function evaluateRules(
   }
 
   // Determinism hash
-  const inputsHash = createHash(ctx.inputs);
+  const inputsHash = createHash(ctx.derivedFields ? { inputs: ctx.inputs, derivedFields: ctx.derivedFields } : ctx.inputs);
   const rulesHash = createHash(rules.map(r => ({
     id: r.version.id,
     conditions: r.version.conditions,
@@ -321,15 +500,42 @@ export function evaluateRules(
 
 /**
  * Validate a rule version for correctness before publishing.
- * Checks that all field codes exist in the data dictionary.
+ * Checks that all field codes exist in the data dictionary (or, for
+ * "derived." references, in `derivedFieldCodes` when provided) and that
+ * each operator has a usable value.
  */
 export function validateRuleVersion(
   version: UnderwritingRuleVersion,
   availableFieldCodes: string[],
+  derivedFieldCodes?: string[],
 ): RuleValidationResult {
   const issues: RuleValidationIssue[] = [];
   const referencedFieldCodes: string[] = [];
   const fieldSet = new Set(availableFieldCodes);
+  const derivedSet = derivedFieldCodes ? new Set(derivedFieldCodes) : null;
+
+  function checkFieldRef(fieldCode: string, path: string): void {
+    if (fieldCode.startsWith(DERIVED_FIELD_PREFIX)) {
+      const code = fieldCode.slice(DERIVED_FIELD_PREFIX.length);
+      if (!code) {
+        issues.push({ type: 'error', message: 'Derived field reference has no field code', path, fieldCode });
+      } else if (derivedSet && !derivedSet.has(code)) {
+        issues.push({
+          type: 'error',
+          message: `Derived field "${code}" is not produced by the rating program`,
+          path,
+          fieldCode,
+        });
+      }
+    } else if (!fieldSet.has(fieldCode)) {
+      issues.push({
+        type: 'error',
+        message: `Field "${fieldCode}" is not in the data dictionary`,
+        path,
+        fieldCode,
+      });
+    }
+  }
 
   // Walk the condition tree
   function walkNode(node: ConditionNode, path: string): void {
@@ -338,13 +544,17 @@ export function validateRuleVersion(
 
       if (!node.fieldCode) {
         issues.push({ type: 'error', message: 'Condition has no field selected', path });
-      } else if (!fieldSet.has(node.fieldCode)) {
-        issues.push({
-          type: 'error',
-          message: `Field "${node.fieldCode}" is not in the data dictionary`,
-          path,
-          fieldCode: node.fieldCode,
-        });
+      } else {
+        checkFieldRef(node.fieldCode, path);
+      }
+
+      if (node.compareToField) {
+        referencedFieldCodes.push(node.compareToField);
+        checkFieldRef(node.compareToField, path);
+        if (VALUELESS_OPERATORS.includes(node.operator) || RELATIVE_DATE_OPERATORS.includes(node.operator)) {
+          issues.push({ type: 'error', message: `"${node.operator}" operator cannot compare against another field`, path });
+        }
+        return;
       }
 
       if (node.operator === 'between' && node.valueEnd === undefined) {
@@ -355,7 +565,36 @@ export function validateRuleVersion(
         issues.push({ type: 'error', message: `"${node.operator}" operator requires an array value`, path });
       }
 
-      if (node.value === '' && !['isTrue', 'isFalse'].includes(node.operator)) {
+      if (node.operator === 'matches' && node.value !== '') {
+        if (typeof node.value !== 'string') {
+          issues.push({ type: 'error', message: `"matches" operator requires a pattern string`, path });
+        } else {
+          try {
+            new RegExp(node.value);
+          } catch (err) {
+            issues.push({
+              type: 'error',
+              message: `Invalid pattern: ${err instanceof Error ? err.message : String(err)}`,
+              path,
+            });
+          }
+        }
+      }
+
+      if ((node.operator === 'dateBefore' || node.operator === 'dateAfter') && node.value !== '') {
+        if (toUtcDay(node.value) === null) {
+          issues.push({ type: 'error', message: `"${node.operator}" operator requires a date (YYYY-MM-DD)`, path });
+        }
+      }
+
+      if (RELATIVE_DATE_OPERATORS.includes(node.operator) && node.value !== '') {
+        const amount = Number(node.value);
+        if (typeof node.value === 'boolean' || Array.isArray(node.value) || !Number.isFinite(amount) || amount < 0) {
+          issues.push({ type: 'error', message: `"${node.operator}" operator requires a non-negative number of ${node.dateUnit ?? 'days'}`, path });
+        }
+      }
+
+      if (node.value === '' && !VALUELESS_OPERATORS.includes(node.operator)) {
         issues.push({ type: 'warning', message: 'Condition value is empty', path });
       }
     } else {
@@ -501,7 +740,7 @@ export function checkRuleReadiness(
 
 export function extractFieldCodes(node: ConditionNode): string[] {
   if (node.kind === 'leaf') {
-    return node.fieldCode ? [node.fieldCode] : [];
+    return [node.fieldCode, node.compareToField].filter((code): code is string => !!code);
   }
   return node.conditions.flatMap(extractFieldCodes);
 }
@@ -0,0 +1,449 @@
+/**
+ * Scenario Generator Engine
+ *
+ * Proposes QA scenarios from the cut-points of a rate program: table
+ * dimension values, range bounds and breakpoints, conditional step
+ * thresholds, and the numeric comparisons of underwriting rules.
+ *
+ * Two kinds of input sets are produced:
+ *  - one-factor scenarios: every boundary value on its own, other fields at
+ *    a nominal value
+ *  - pairwise scenarios: every pair of boundary values across two fields
+ *    appears in at least one scenario (greedy, deterministic)
+ *
+ * Expected outputs are seeded by rating each input set against the
+ * published version, so saved scenarios pin today's behaviour and the
+ * regression runner flags any draft change at a cut-point.
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import { evaluate } from './ratingEngine';
+import type { RuleWithVersion } from './rulesEngine';
+import { createHash } from './hashUtils';
+import type {
+  RatingStep,
+  RatingTableData,
+  RatingTableDimension,
+  StepCondition,
+} from '../types/ratingEngine';
+import type { ConditionNode } from '../types/rulesEngine';
+import type {
+  GeneratedScenario,
+  Scenario,
+  ScenarioBoundarySource,
+  ScenarioBoundaryValue,
+} from '../types/scenario';
+
+// ════════════════════════════════════════════════════════════════════════
+// Types
+// ════════════════════════════════════════════════════════════════════════
+
+export interface ScenarioGenerationInput {
+  /** Steps of the published version; cut-points and expected outputs come from these */
+  publishedSteps: RatingStep[];
+  publishedVersionId: string;
+  tables?: Map<string, RatingTableData>;
+  /** Underwriting rules whose numeric comparisons add cut-points */
+  rules?: RuleWithVersion[];
+  stateCode?: string;
+  effectiveDate: Date;
+  /** Values for inputs that have no cut-points (e.g. policy-level amounts) */
+  baseInputs?: Record<string, string | number | boolean | null>;
+  /** Upper bound on scenarios returned (default 250) */
+  maxScenarios?: number;
+}
+
+export interface ScenarioGenerationOutput {
+  boundaries: ScenarioBoundaryValue[];
+  scenarios: GeneratedScenario[];
+  /** Input sets dropped because the published version could not rate them */
+  rejected: { name: string; inputs: GeneratedScenario['inputs']; reason: string }[];
+  /** Cross-field value pairs covered by the returned scenarios */
+  pairwiseCoverage: { covered: number; total: number };
+}
+
+const DEFAULT_MAX_SCENARIOS = 250;
+
+// ════════════════════════════════════════════════════════════════════════
+// Boundary collection
+// ════════════════════════════════════════════════════════════════════════
+
+type BoundaryValue = string | number;
+
+/** Step used to move just off a cut-point: 1 for whole numbers, else 0.01 */
+function nudge(bound: number): number {
+  return Number.isInteger(bound) ? 1 : 0.01;
+}
+
+/** Strip floating-point noise from nudged values */
+function clean(n: number): number {
+  return Number(n.toFixed(6));
+}
+
+function boundary(
+  fieldCode: string,
+  value: BoundaryValue,
+  source: ScenarioBoundarySource,
+  sourceName: string,
+  description: string,
+  tag: ScenarioBoundaryValue['tag'] = 'boundary',
+): ScenarioBoundaryValue {
+  return { fieldCode, value: typeof value === 'number' ? clean(value) : value, tag, source, sourceName, description };
+}
+
+/** Values on and either side of a comparison's cut-points */
+function comparisonBoundaries(
+  fieldCode: string,
+  operator: string,
+  value: unknown,
+  valueEnd: unknown,
+  source: ScenarioBoundarySource,
+  sourceName: string,
+): ScenarioBoundaryValue[] {
+  const around = (n: number, label: string) => [
+    boundary(fieldCode, n - nudge(n), source, sourceName, `just below ${label}`),
+    boundary(fieldCode, n, source, sourceName, label),
+    boundary(fieldCode, n + nudge(n), source, sourceName, `just above ${label}`),
+  ];
+
+  switch (operator) {
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const n = Number(value);
+      return Number.isFinite(n) ? around(n, `${operator} ${n}`) : [];
+    }
+    case 'between': {
+      const lo = Number(value);
+      const hi = Number(valueEnd ?? value);
+      if (!Number.isFinite(lo) || !Number.isFinite(hi)) return [];
+      return [
+        boundary(fieldCode, lo - nudge(lo), source, sourceName, `just below between ${lo}-${hi}`),
+        boundary(fieldCode, lo, source, sourceName, `lower bound of between ${lo}-${hi}`),
+        boundary(fieldCode, hi, source, sourceName, `upper bound of between ${lo}-${hi}`),
+        boundary(fieldCode, hi + nudge(hi), source, sourceName, `just above between ${lo}-${hi}`),
+      ];
+    }
+    case 'eq':
+    case 'ne':
+      if (typeof value === 'number') return around(value, `${operator} ${value}`);
+      return typeof value === 'string' ? [boundary(fieldCode, value, source, sourceName, `${operator} "${value}"`)] : [];
+    case 'in':
+    case 'notIn':
+      return Array.isArray(value)
+        ? value.map(v => boundary(fieldCode, v, source, sourceName, `${operator} list value`))
+        : [];
+    default:
+      return [];
+  }
+}
+
+/** Cut-points of one table dimension, as the step's lookup mode sees them */
+function dimensionBoundaries(step: RatingStep, dimension: RatingTableDimension): ScenarioBoundaryValue[] {
+  const mode = step.lookupMode ?? 'exact';
+  const field = dimension.fieldCode;
+  const out: ScenarioBoundaryValue[] = [];
+
+  if (mode !== 'exact' && dimension.ranges && dimension.ranges.length > 0) {
+    const ranges = [...dimension.ranges].sort((a, b) => a.min - b.min);
+    for (const r of ranges) {
+      const minIn = r.inclusive === 'both' || r.inclusive === 'min';
+      const maxIn = r.inclusive === 'both' || r.inclusive === 'max';
+      out.push(
+        boundary(field, minIn ? r.min : r.min + nudge(r.min), 'table_range', step.name, `min of range ${r.label}`),
+        boundary(field, maxIn ? r.max : r.max - nudge(r.max), 'table_range', step.name, `max of range ${r.label}`),
+      );
+    }
+    const first = ranges[0];
+    const last = ranges[ranges.length - 1];
+    const firstMinIn = first.inclusive === 'both' || first.inclusive === 'min';
+    const lastMaxIn = last.inclusive === 'both' || last.inclusive === 'max';
+    out.push(
+      boundary(field, firstMinIn ? first.min - nudge(first.min) : first.min, 'table_range', step.name, 'below the lowest range', 'edge_case'),
+      boundary(field, lastMaxIn ? last.max + nudge(last.max) : last.max, 'table_range', step.name, 'above the highest range', 'edge_case'),
+    );
+    return out;
+  }
+
+  const numeric = dimension.valueType !== 'string' && dimension.valueType !== 'range' &&
+    dimension.values.length > 0 &&
+    dimension.values.every(v => v.trim() !== '' && Number.isFinite(Number(v)));
+
+  if (numeric && (mode === 'interpolate' || mode === 'nearestLower')) {
+    const points = dimension.values.map(Number).sort((a, b) => a - b);
+    points.forEach((p, i) => {
+      out.push(boundary(field, p, 'table_dimension', step.name, `breakpoint ${p}`));
+      if (mode === 'interpolate' && i > 0) {
+        out.push(boundary(field, (points[i - 1] + p) / 2, 'table_dimension', step.name, `between breakpoints ${points[i - 1]} and ${p}`));
+      }
+    });
+    const first = points[0];
+    const last = points[points.length - 1];
+    out.push(boundary(field, first - nudge(first), 'table_dimension', step.name, 'below the first breakpoint', 'edge_case'));
+    if (mode === 'interpolate') {
+      out.push(boundary(field, last + nudge(last), 'table_dimension', step.name, 'above the last breakpoint', 'edge_case'));
+    }
+    return out;
+  }
+
+  // Exact matching: every label is a cell edge. Numeric labels become numbers
+  // when they round-trip, so the input keeps the field's natural type.
+  for (const label of dimension.values) {
+    const asNumber = Number(label);
+    const value = dimension.valueType !== 'string' && label.trim() !== '' && String(asNumber) === label ? asNumber : label;
+    out.push(boundary(field, value, 'table_dimension', step.name, `table value "${label}"`));
+  }
+  return out;
+}
+
+function ruleBoundaries(rule: RuleWithVersion): ScenarioBoundaryValue[] {
+  const out: ScenarioBoundaryValue[] = [];
+  const walk = (node: ConditionNode) => {
+    if (node.kind === 'group') {
+      node.conditions.forEach(walk);
+      return;
+    }
+    if (!node.fieldCode || node.compareToField) return;
+    if (!['gt', 'gte', 'lt', 'lte', 'between'].includes(node.operator)) return;
+    out.push(...comparisonBoundaries(node.fieldCode, node.operator, node.value, node.valueEnd, 'rule_condition', rule.ruleName));
+  };
+  walk(rule.version.conditions);
+  return out;
+}
+
+function stepConditionBoundaries(step: RatingStep, condition: StepCondition): ScenarioBoundaryValue[] {
+  return comparisonBoundaries(condition.fieldCode, condition.operator, condition.value, condition.valueEnd, 'step_condition', step.name);
+}
+
+/**
+ * Collect the boundary values of a rate program (and optional rules),
+ * deduplicated per field. Fields computed by another step are skipped:
+ * they cannot be set from scenario inputs.
+ *
+ * Fields are ordered by code; numeric values ascend, text values keep
+ * their first-seen order.
+ */
+export function collectScenarioBoundaries(
+  steps: RatingStep[],
+  tables?: Map<string, RatingTableData>,
+  rules: RuleWithVersion[] = [],
+): ScenarioBoundaryValue[] {
+  const enabled = steps.filter(s => s.enabled).sort((a, b) => a.order - b.order);
+  const computed = new Set(enabled.filter(s => s.type !== 'input').map(s => s.outputFieldCode));
+
+  const raw: ScenarioBoundaryValue[] = [];
+  for (const step of enabled) {
+    if (step.type === 'tableLookup' && step.tableVersionId) {
+      const table = tables?.get(step.tableVersionId);
+      table?.dimensions.forEach(d => raw.push(...dimensionBoundaries(step, d)));
+    }
+    if (step.type === 'conditional' && step.condition) {
+      raw.push(...stepConditionBoundaries(step, step.condition));
+    }
+  }
+  for (const rule of rules) {
+    raw.push(...ruleBoundaries(rule));
+  }
+
+  // Dedupe per field; a value that is in-domain anywhere is a boundary
+  const byField = new Map<string, Map<BoundaryValue, ScenarioBoundaryValue>>();
+  for (const b of raw) {
+    if (computed.has(b.fieldCode)) continue;
+    const values = byField.get(b.fieldCode) ?? new Map<BoundaryValue, ScenarioBoundaryValue>();
+    const existing = values.get(b.value);
+    if (!existing || (existing.tag === 'edge_case' && b.tag === 'boundary')) {
+      values.set(b.value, b);
+    }
+    byField.set(b.fieldCode, values);
+  }
+
+  return [...byField.keys()].sort().flatMap(field => {
+    const values = [...byField.get(field)!.values()];
+    const numbers = values.filter(v => typeof v.value === 'number').sort((a, b) => (a.value as number) - (b.value as number));
+    return [...numbers, ...values.filter(v => typeof v.value !== 'number')];
+  });
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Pairwise coverage
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Greedy pairwise selection: each round seeds a row with the first
+ * uncovered pair, then fills every other field with the value covering the
+ * most still-uncovered pairs. Deterministic for a given domain order.
+ */
+function pairwiseRows(domainSizes: number[], limit: number): { rows: number[][]; covered: number; total: number } {
+  const n = domainSizes.length;
+  const key = (i: number, a: number, j: number, b: number) => (i < j ? `${i}:${a}|${j}:${b}` : `${j}:${b}|${i}:${a}`);
+
+  const uncovered = new Set<string>();
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      for (let a = 0; a < domainSizes[i]; a++) {
+        for (let b = 0; b < domainSizes[j]; b++) uncovered.add(key(i, a, j, b));
+      }
+    }
+  }
+  const total = uncovered.size;
+  const rows: number[][] = [];
+
+  while (uncovered.size > 0 && rows.length < limit) {
+    const [seed] = uncovered;
+    const [[i, a], [j, b]] = seed.split('|').map(part => part.split(':').map(Number));
+    const row: (number | undefined)[] = new Array(n).fill(undefined);
+    row[i] = a;
+    row[j] = b;
+
+    for (let k = 0; k < n; k++) {
+      if (row[k] !== undefined) continue;
+      let best = 0;
+      let bestGain = -1;
+      for (let v = 0; v < domainSizes[k]; v++) {
+        let gain = 0;
+        row.forEach((assigned, m) => {
+          if (assigned !== undefined && uncovered.has(key(m, assigned, k, v))) gain++;
+        });
+        if (gain > bestGain) {
+          best = v;
+          bestGain = gain;
+        }
+      }
+      row[k] = best;
+    }
+
+    const full = row as number[];
+    for (let x = 0; x < n; x++) {
+      for (let y = x + 1; y < n; y++) uncovered.delete(key(x, full[x], y, full[y]));
+    }
+    rows.push(full);
+  }
+
+  return { rows, covered: total - uncovered.size, total };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Scenario generation
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Generate boundary and pairwise scenarios for a rate program, with
+ * expected outputs seeded from the published version.
+ */
+export function generateScenarios(input: ScenarioGenerationInput): ScenarioGenerationOutput {
+  const maxScenarios = input.maxScenarios ?? DEFAULT_MAX_SCENARIOS;
+  const boundaries = collectScenarioBoundaries(input.publishedSteps, input.tables, input.rules);
+
+  // Per-field domains; the nominal value is the first in-domain boundary
+  const fields = [...new Set(boundaries.map(b => b.fieldCode))];
+  const inDomain = new Map(fields.map(f => [f, boundaries.filter(b => b.fieldCode === f && b.tag === 'boundary')]));
+  const nominal: Record<string, BoundaryValue> = {};
+  for (const f of fields) {
+    const first = inDomain.get(f)![0] ?? boundaries.find(b => b.fieldCode === f)!;
+    nominal[f] = first.value;
+  }
+
+  const candidates: Omit<GeneratedScenario, 'expectedOutputs'>[] = [];
+  const base = { ...input.baseInputs, ...nominal };
+
+  // One-factor scenarios
+  for (const b of boundaries) {
+    candidates.push({
+      name: `${b.fieldCode} = ${b.value}`,
+      description: `${b.description} (${b.sourceName})`,
+      inputs: { ...base, [b.fieldCode]: b.value },
+      tags: [b.tag],
+      covers: [b],
+    });
+  }
+
+  // Pairwise scenarios over in-domain values
+  const pairFields = fields.filter(f => inDomain.get(f)!.length > 0);
+  const pairwise = pairwiseRows(pairFields.map(f => inDomain.get(f)!.length), maxScenarios);
+  pairwise.rows.forEach((row, index) => {
+    const covers = row.map((v, k) => inDomain.get(pairFields[k])![v]);
+    candidates.push({
+      name: `Pairwise #${index + 1}`,
+      description: covers.map(c => `${c.fieldCode}=${c.value}`).join(', '),
+      inputs: { ...base, ...Object.fromEntries(covers.map(c => [c.fieldCode, c.value])) },
+      tags: ['boundary'],
+      covers,
+    });
+  });
+
+  // Seed expected outputs from the published version, dropping duplicates
+  const scenarios: GeneratedScenario[] = [];
+  const rejected: ScenarioGenerationOutput['rejected'] = [];
+  const seen = new Set<string>();
+  for (const candidate of candidates) {
+    if (scenarios.length >= maxScenarios) break;
+    const hash = createHash(candidate.inputs);
+    if (seen.has(hash)) continue;
+    seen.add(hash);
+
+    const result = evaluate(input.publishedSteps, {
+      inputs: candidate.inputs,
+      state: input.stateCode,
+      effectiveDate: input.effectiveDate,
+      tables: input.tables,
+    }, input.publishedVersionId);
+
+    if (!result.success) {
+      rejected.push({
+        name: candidate.name,
+        inputs: candidate.inputs,
+        reason: result.errors.map(e => e.message).join('; '),
+      });
+      continue;
+    }
+
+    scenarios.push({
+      ...candidate,
+      ...(input.stateCode && { stateCode: input.stateCode }),
+      expectedOutputs: result.outputs,
+    });
+  }
+
+  // Pairs actually covered by kept scenarios (one-factor scenarios count too)
+  const keptPairs = new Set<string>();
+  const isInDomain = (field: string, value: unknown) => inDomain.get(field)!.some(b => b.value === value);
+  for (const s of scenarios) {
+    const assigned = pairFields.filter(f => isInDomain(f, s.inputs[f]));
+    for (let x = 0; x < assigned.length; x++) {
+      for (let y = x + 1; y < assigned.length; y++) {
+        keptPairs.add(`${assigned[x]}=${s.inputs[assigned[x]]}|${assigned[y]}=${s.inputs[assigned[y]]}`);
+      }
+    }
+  }
+
+  return {
+    boundaries,
+    scenarios,
+    rejected,
+    pairwiseCoverage: { covered: keptPairs.size, total: pairwise.total },
+  };
+}
+
+/** Shape a generated scenario for `createScenario` */
+export function toScenarioDraft(
+  generated: GeneratedScenario,
+  rateProgramId: string,
+  rateProgramName?: string,
+  tolerance = 0.01,
+): Omit<Scenario, 'id' | 'createdAt' | 'createdBy' | 'updatedAt' | 'updatedBy'> {
+  return {
+    name: generated.name,
+    description: generated.description,
+    rateProgramId,
+    ...(rateProgramName && { rateProgramName }),
+    inputs: generated.inputs,
+    ...(generated.stateCode && { stateCode: generated.stateCode }),
+    expectedOutputs: generated.expectedOutputs,
+    tolerance,
+    tags: generated.tags,
+    isRequired: false,
+    isActive: true,
+  };
+}
@@ -0,0 +1,424 @@
+/**
+ * Schedule Extraction Engine
+ *
+ * Finds schedule grids (declarations, limit and deductible tables) in
+ * ingested page text and keeps their row/column structure, then reconciles
+ * the printed limits and deductibles against a coverage's configured
+ * limit and deductible option sets.
+ *
+ * Cells come from tab-separated lines (layout extraction marks wide gaps
+ * with tabs), runs of 2+ spaces (OCR output) or dot leaders, falling back
+ * to splitting trailing amounts off a label ("Each Occurrence $1,000,000").
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import { detectSectionType, makeAnchor, type PageText } from './ingestionEngine';
+import { DEFAULT_SPLIT_COMPONENT_BASES } from '../types/limitOptions';
+import type { CoverageLimitOption, CoverageLimitOptionSet, LimitBasis } from '../types/limitOptions';
+import type { CoverageDeductibleOption, CoverageDeductibleOptionSet } from '../types/deductibleOptions';
+import type {
+  ConfiguredAmount,
+  ContentAnchor,
+  FormScheduleTable,
+  FormSectionType,
+  ReconciliationItem,
+  ReconciliationStatus,
+  ScheduleAmount,
+  ScheduleAmountKind,
+  ScheduleBasis,
+  ScheduleReconciliationReport,
+  ScheduleRow,
+} from '../types/ingestion';
+
+// ════════════════════════════════════════════════════════════════════════
+// Amounts
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * A printed amount: "$1,000,000", "$1M", "$500 thousand", "2%", "1,000,000"
+ * or "2 million". Bare integers without grouping are not amounts (years,
+ * form numbers, item numbers).
+ */
+const AMOUNT_PATTERN = /\$\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:[KMB]\b|thousand\b|million\b|billion\b))?|\d[\d,]*(?:\.\d+)?\s?%|\b\d{1,3}(?:,\d{3})+(?:\.\d+)?\b|\b\d+(?:\.\d+)?\s?(?:[KMB]\b|thousand\b|million\b|billion\b)/gi;
+
+const SCALE: Record<string, number> = {
+  k: 1_000, thousand: 1_000,
+  m: 1_000_000, million: 1_000_000,
+  b: 1_000_000_000, billion: 1_000_000_000,
+};
+
+function hasAmount(text: string): boolean {
+  return text.search(AMOUNT_PATTERN) >= 0;
+}
+
+/** Parse one printed amount, or null if it is not one */
+export function parseAmount(raw: string): Pick<ScheduleAmount, 'value' | 'unit'> | null {
+  const match = raw.trim().toLowerCase().match(/(\d[\d,]*(?:\.\d+)?)\s?(%|k|m|b|thousand|million|billion)?/);
+  if (!match) return null;
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  if (!Number.isFinite(value)) return null;
+  if (match[2] === '%') return { value, unit: 'percent' };
+  return { value: value * (match[2] ? SCALE[match[2]] : 1), unit: 'currency' };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Cells
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Split a line into cells. Returns a single cell for prose.
+ */
+export function splitCells(line: string): string[] {
+  const text = line.replace(/\s*\.{4,}\s*/g, '\t').trim();
+  if (!text) return [];
+  if (text.includes('\t')) return text.split('\t').map(c => c.trim()).filter(Boolean);
+  if (/\S {2,}\S/.test(text)) return text.split(/ {2,}/).map(c => c.trim()).filter(Boolean);
+
+  // Trailing amounts after a label, optionally separated by "/"
+  const matches = [...text.matchAll(AMOUNT_PATTERN)];
+  const tail: string[] = [];
+  let start = text.length;
+  for (let i = matches.length - 1; i >= 0; i--) {
+    const end = (matches[i].index as number) + matches[i][0].length;
+    if (!/^[\s/]*$/.test(text.slice(end, start))) break;
+    tail.unshift(matches[i][0].trim());
+    start = matches[i].index as number;
+  }
+  const label = text.slice(0, start).replace(/[\s:–—-]+$/, '').trim();
+  return tail.length > 0 && /[a-z]/i.test(label) ? [label, ...tail] : [text];
+}
+
+const BASIS_PATTERNS: Array<[RegExp, ScheduleBasis]> = [
+  [/aggregate/i, 'aggregate'],
+  [/occurrence/i, 'perOccurrence'],
+  [/\b(?:each|per)\s+claim\b/i, 'perClaim'],
+  [/\b(?:each|per)\s+accident\b/i, 'perAccident'],
+  [/\b(?:each|per)\s+person\b/i, 'perPerson'],
+];
+
+export function detectBasis(text: string): ScheduleBasis | undefined {
+  return BASIS_PATTERNS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+function kindOf(text: string): Exclude<ScheduleAmountKind, 'other'> | null {
+  if (/deductible|retention|\bSIR\b/i.test(text)) return 'deductible';
+  if (/limit|aggregate|occurrence|\b(?:each|per)\s+(?:claim|person|accident)\b|\bcoverage\s+[A-Z]\b/i.test(text)) return 'limit';
+  return null;
+}
+
+const SECTION_KIND: Partial<Record<FormSectionType, Exclude<ScheduleAmountKind, 'other'>>> = {
+  limits: 'limit',
+  deductibles: 'deductible',
+};
+
+/** Headers may omit the label column */
+function headerFor(headers: string[], cellCount: number, column: number): string {
+  if (headers.length === cellCount) return headers[column];
+  if (headers.length === cellCount - 1) return headers[column - 1] ?? '';
+  return '';
+}
+
+function buildRow(
+  cells: string[],
+  headers: string[],
+  sectionType: FormSectionType | undefined,
+  page: number,
+  anchor: ContentAnchor,
+): ScheduleRow {
+  const label = parseAmount(cells[0]) && cells[0].replace(AMOUNT_PATTERN, '').trim() === '' ? '' : cells[0];
+  const amounts: ScheduleAmount[] = [];
+
+  cells.forEach((cell, column) => {
+    if (column === 0 && label) return;
+    const header = headerFor(headers, cells.length, column);
+    for (const match of cell.matchAll(AMOUNT_PATTERN)) {
+      const parsed = parseAmount(match[0]);
+      if (!parsed) continue;
+      const context = cell.replace(match[0], ' ');
+      let kind: ScheduleAmountKind = kindOf(header) ?? kindOf(context) ?? kindOf(label)
+        ?? (sectionType ? SECTION_KIND[sectionType] : undefined) ?? 'other';
+      // Percentages are deductibles (or coinsurance, which is not reconciled)
+      if (parsed.unit === 'percent' && kind === 'limit') kind = 'other';
+      const basis = detectBasis(header) ?? detectBasis(context) ?? detectBasis(label);
+      amounts.push({ raw: match[0].trim(), ...parsed, column, kind, ...(basis && { basis }) });
+    }
+  });
+
+  return { cells, label, amounts, page, anchor };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Tables
+// ════════════════════════════════════════════════════════════════════════
+
+/** Sections where a single labelled amount already counts as a schedule */
+const SCHEDULE_SECTIONS: FormSectionType[] = ['schedule', 'limits', 'deductibles', 'declarations'];
+
+interface TableDraft {
+  title: string;
+  sectionType?: FormSectionType;
+  page: number;
+  headers: string[];
+  rows: ScheduleRow[];
+  anchor: ContentAnchor;
+}
+
+/**
+ * Detect schedule tables page by page. A table is a run of rows — lines of
+ * two or more cells with an amount after the first — optionally headed by a
+ * line of short, amount-free cells. Tables do not span pages; a double
+ * blank line or a prose line ends one.
+ */
+export function extractScheduleTables(pages: PageText[]): Omit<FormScheduleTable, 'id'>[] {
+  const tables: Omit<FormScheduleTable, 'id'>[] = [];
+  let sectionType: FormSectionType | undefined;
+
+  const keep = (draft: TableDraft | null) => {
+    if (!draft) return;
+    const minRows = draft.sectionType && SCHEDULE_SECTIONS.includes(draft.sectionType) ? 1 : 2;
+    if (draft.rows.length >= minRows) tables.push({ index: tables.length, ...draft });
+  };
+
+  for (const page of pages) {
+    let current: TableDraft | null = null;
+    let header: { cells: string[]; anchor: ContentAnchor } | null = null;
+    let caption = '';
+    let blanks = 0;
+    let offset = 0;
+
+    for (const line of page.text.split('\n')) {
+      const lineOffset = offset;
+      offset += line.length + 1;
+      const trimmed = line.trim();
+
+      if (!trimmed) {
+        if (current && ++blanks > 1) {
+          keep(current);
+          current = null;
+        }
+        continue;
+      }
+      blanks = 0;
+
+      const cells = splitCells(trimmed);
+      const anchor = makeAnchor(trimmed.replace(/\t/g, ' '), page.pageNumber, lineOffset);
+
+      if (cells.length >= 2 && cells.slice(1).some(hasAmount)) {
+        if (!current) {
+          current = {
+            title: caption,
+            ...(sectionType && { sectionType }),
+            page: page.pageNumber,
+            headers: header?.cells ?? [],
+            rows: [],
+            anchor: header?.anchor ?? anchor,
+          };
+          header = null;
+        }
+        current.rows.push(buildRow(cells, current.headers, sectionType, page.pageNumber, anchor));
+        continue;
+      }
+
+      keep(current);
+      current = null;
+      // Header cells ("Coverage  Limit") can look like section headings
+      const section = cells.length === 1 ? detectSectionType(trimmed) : null;
+      if (section) sectionType = section.type;
+
+      if (cells.length >= 2 && !cells.some(hasAmount) && cells.every(c => c.length <= 40)) {
+        header = { cells, anchor };
+      } else {
+        header = null;
+        if (trimmed.length <= 120) caption = trimmed;
+      }
+    }
+
+    keep(current);
+  }
+
+  return tables;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Configured amounts
+// ════════════════════════════════════════════════════════════════════════
+
+function toScheduleBasis(basis: LimitBasis | undefined): ScheduleBasis | undefined {
+  switch (basis) {
+    case 'perOccurrence':
+    case 'perClaim':
+    case 'perAccident':
+    case 'perPerson':
+      return basis;
+    case 'policyTerm':
+    case 'annual':
+    case 'lifetime':
+      return 'aggregate';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Every amount the enabled limit options configure, with the basis each
+ * applies to. Scheduled item ranges and custom limits are not printed as
+ * single amounts and are skipped.
+ */
+export function configuredLimitAmounts(
+  sets: Array<{ optionSet: CoverageLimitOptionSet; options: CoverageLimitOption[] }>,
+): ConfiguredAmount[] {
+  const amounts: ConfiguredAmount[] = [];
+
+  for (const { optionSet, options } of sets) {
+    const add = (option: CoverageLimitOption, value: number, basis?: ScheduleBasis) => {
+      amounts.push({
+        kind: 'limit', value, unit: 'currency',
+        ...(basis && { basis }),
+        optionSetId: optionSet.id, optionId: option.id, optionLabel: option.label,
+      });
+    };
+
+    for (const option of options) {
+      if (!option.isEnabled) continue;
+      switch (option.structure) {
+        case 'single':
+        case 'csl':
+          add(option, option.amount, toScheduleBasis(optionSet.basisConfig?.primaryBasis));
+          break;
+        case 'occAgg':
+          add(option, option.perOccurrence, 'perOccurrence');
+          add(option, option.aggregate, 'aggregate');
+          break;
+        case 'claimAgg':
+          add(option, option.perClaim, 'perClaim');
+          add(option, option.aggregate, 'aggregate');
+          break;
+        case 'split':
+          for (const component of option.components) {
+            const basis = optionSet.basisConfig?.splitComponentBases?.[component.key]
+              ?? DEFAULT_SPLIT_COMPONENT_BASES[component.key];
+            add(option, component.amount, toScheduleBasis(basis));
+          }
+          break;
+        case 'scheduled':
+          if (option.totalCap !== undefined) add(option, option.totalCap, 'aggregate');
+          break;
+      }
+    }
+  }
+
+  return amounts;
+}
+
+/**
+ * Every amount and percentage the enabled deductible options configure.
+ * Waiting periods, disappearing and custom deductibles are skipped.
+ */
+export function configuredDeductibleAmounts(
+  sets: Array<{ optionSet: CoverageDeductibleOptionSet; options: CoverageDeductibleOption[] }>,
+): ConfiguredAmount[] {
+  const amounts: ConfiguredAmount[] = [];
+
+  for (const { optionSet, options } of sets) {
+    const add = (option: CoverageDeductibleOption, value: number | undefined, unit: ConfiguredAmount['unit'], basis?: ScheduleBasis) => {
+      if (value === undefined) return;
+      amounts.push({
+        kind: 'deductible', value, unit,
+        ...(basis && { basis }),
+        optionSetId: optionSet.id, optionId: option.id, optionLabel: option.label,
+      });
+    };
+
+    for (const option of options) {
+      if (!option.isEnabled) continue;
+      switch (option.structure) {
+        case 'flat':
+          add(option, option.amount, 'currency');
+          break;
+        case 'percentage':
+          add(option, option.percentage, 'percent');
+          break;
+        case 'percentMinMax':
+          add(option, option.percentage, 'percent');
+          add(option, option.minimumAmount, 'currency');
+          add(option, option.maximumAmount, 'currency');
+          break;
+        case 'perilSpecific':
+          for (const peril of option.perilDeductibles) {
+            add(option, peril.amount, 'currency');
+            add(option, peril.percentage, 'percent');
+          }
+          break;
+        case 'franchise':
+          add(option, option.threshold, 'currency');
+          break;
+        case 'aggregate':
+          add(option, option.annualAmount, 'currency', 'aggregate');
+          add(option, option.perClaimMaximum, 'currency', 'perClaim');
+          break;
+      }
+    }
+  }
+
+  return amounts;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Reconciliation
+// ════════════════════════════════════════════════════════════════════════
+
+function basisCompatible(a?: ScheduleBasis, b?: ScheduleBasis): boolean {
+  return !a || !b || a === b;
+}
+
+/**
+ * Compare printed limits and deductibles with the configured amounts.
+ *
+ * A printed amount matches a configured amount of the same kind, unit and
+ * value whose basis is compatible (equal, or unknown on either side). An
+ * unmatched printed amount is a mismatch when the product configures other
+ * values for its basis, otherwise it is not in the product. Configured
+ * amounts never printed are reported as not on the form.
+ */
+export function reconcileSchedules(
+  tables: FormScheduleTable[],
+  configured: ConfiguredAmount[],
+): Pick<ScheduleReconciliationReport, 'items' | 'counts' | 'consistent'> {
+  const items: ReconciliationItem[] = [];
+  const printed = new Set<ConfiguredAmount>();
+
+  for (const table of tables) {
+    for (const row of table.rows) {
+      for (const amount of row.amounts) {
+        if (amount.kind === 'other') continue;
+        const kind = amount.kind;
+        const candidates = configured.filter(c => c.kind === kind && c.unit === amount.unit);
+        const where = { formLabel: row.label, formAmount: amount, tableId: table.id, anchor: row.anchor };
+
+        const hits = candidates.filter(c => c.value === amount.value && basisCompatible(c.basis, amount.basis));
+        if (hits.length > 0) {
+          hits.forEach(h => printed.add(h));
+          items.push({ kind, status: 'matched', ...where, configured: hits[0] });
+          continue;
+        }
+
+        const expected = amount.basis
+          ? [...new Set(candidates.filter(c => c.basis === amount.basis).map(c => c.value))].sort((a, b) => a - b)
+          : [];
+        items.push(expected.length > 0
+          ? { kind, status: 'mismatch', ...where, expected }
+          : { kind, status: 'not_in_product', ...where });
+      }
+    }
+  }
+
+  for (const c of configured) {
+    if (!printed.has(c)) items.push({ kind: c.kind, status: 'not_in_form', configured: c });
+  }
+
+  const counts: Record<ReconciliationStatus, number> = { matched: 0, mismatch: 0, not_in_product: 0, not_in_form: 0 };
+  for (const item of items) counts[item.status]++;
+
+  return { items, counts, consistent: counts.mismatch === 0 && counts.not_in_product === 0 };
+}
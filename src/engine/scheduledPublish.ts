@@ -0,0 +1,239 @@
+/**
+ * Scheduled Publish Engine
+ *
+ * Time-zone arithmetic, lifecycle rules and calendar layout for scheduled
+ * change set publishes:
+ *   - A go-live is entered as a local date + time in an IANA time zone and
+ *     stored alongside the UTC instant the scheduler compares against
+ *   - At run time a failing preflight holds the schedule rather than
+ *     publishing; publish errors are retried a few times before failing
+ *   - A blocking task that reopens holds every schedule it is linked to
+ *
+ * Time-zone offsets come from Intl, so DST transitions follow the host's
+ * tz database. functions/src/api/scheduledPublish.js mirrors this module.
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import type { Task, TaskStatus } from '../types/task';
+import type { PublishPreflightIssue } from '../types/changeSetConflict';
+import type {
+  ScheduledPublish,
+  ScheduledPublishStatus,
+  ScheduleWindow,
+  ReleaseCalendarDay,
+  ReleaseCalendarMonth,
+} from '../types/scheduledPublish';
+
+/** Schedules that still hold the change set's go-live */
+export const ACTIVE_SCHEDULE_STATUSES: ScheduledPublishStatus[] = ['scheduled', 'held', 'publishing'];
+
+/** Publish attempts before a schedule is marked failed */
+export const MAX_PUBLISH_ATTEMPTS = 3;
+
+/**
+ * A 'publishing' claim older than this belongs to a run that died before
+ * finishing; the runner reclaims it and an admin may cancel it
+ */
+export const PUBLISH_CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** Default go-live time: start of day */
+export const DEFAULT_EFFECTIVE_TIME = '00:00';
+
+const OPEN_TASK_STATUSES: TaskStatus[] = ['open', 'in_progress'];
+
+// ════════════════════════════════════════════════════════════════════════
+// Time zones
+// ════════════════════════════════════════════════════════════════════════
+
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidLocalDate(date: string): boolean {
+  const m = DATE_RE.exec(date || '');
+  if (!m) return false;
+  const d = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+  return d.getUTCFullYear() === +m[1] && d.getUTCMonth() === +m[2] - 1 && d.getUTCDate() === +m[3];
+}
+
+export function isValidLocalTime(time: string): boolean {
+  return TIME_RE.test(time || '');
+}
+
+/** Wall-clock fields of `instant` in `timeZone` */
+function zonedParts(instant: Date, timeZone: string): { year: number; month: number; day: number; hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+/** Minutes `timeZone` is ahead of UTC at `instant` (e.g. -300 for EST) */
+export function timeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const p = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 60_000) * 60_000) / 60_000);
+}
+
+/**
+ * The UTC instant of a local date and time in `timeZone`. A time skipped
+ * by a DST jump resolves to the same wall-clock offset as just before it
+ * (02:30 on a spring-forward night becomes 03:30).
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  if (!isValidLocalDate(date)) throw new Error(`Invalid date: ${date}`);
+  if (!isValidLocalTime(time)) throw new Error(`Invalid time: ${time}`);
+  if (!isValidTimeZone(timeZone)) throw new Error(`Unknown time zone: ${timeZone}`);
+
+  const [y, mo, d] = date.split('-').map(Number);
+  const [h, mi] = time.split(':').map(Number);
+  const wallClock = Date.UTC(y, mo - 1, d, h, mi);
+
+  const firstOffset = timeZoneOffsetMinutes(new Date(wallClock), timeZone);
+  const guess = wallClock - firstOffset * 60_000;
+  const secondOffset = timeZoneOffsetMinutes(new Date(guess), timeZone);
+  if (secondOffset === firstOffset) return new Date(guess);
+
+  // A transition lies between the two probes: the second offset is right
+  // unless the wall-clock time falls in the skipped hour
+  const candidate = wallClock - secondOffset * 60_000;
+  return new Date(timeZoneOffsetMinutes(new Date(candidate), timeZone) === secondOffset ? candidate : guess);
+}
+
+/** YYYY-MM-DD of `instant` in `timeZone` */
+export function localDateInZone(instant: Date, timeZone: string): string {
+  const p = zonedParts(instant, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/** e.g. "Jul 1, 2026, 00:00 CDT" */
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(instant);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Lifecycle
+// ════════════════════════════════════════════════════════════════════════
+
+/** Problems with a requested go-live; empty when it can be scheduled */
+export function validateScheduleWindow(window: ScheduleWindow, now: Date = new Date()): string[] {
+  const errors: string[] = [];
+  if (!isValidTimeZone(window.timeZone)) errors.push(`Unknown time zone: ${window.timeZone || '(none)'}`);
+  if (!isValidLocalDate(window.effectiveDate)) errors.push('Effective date must be YYYY-MM-DD');
+  if (!isValidLocalTime(window.effectiveTime)) errors.push('Effective time must be HH:mm');
+  if (errors.length > 0) return errors;
+
+  const runAt = zonedTimeToUtc(window.effectiveDate, window.effectiveTime, window.timeZone);
+  if (runAt.getTime() <= now.getTime()) errors.push('Go-live must be in the future');
+  return errors;
+}
+
+/** `claimStale`: the schedule is 'publishing' but its run has stopped (see isClaimStale) */
+export function canCancelSchedule(status: ScheduledPublishStatus, claimStale = false): boolean {
+  return status === 'scheduled' || status === 'held' || (status === 'publishing' && claimStale);
+}
+
+/** Postponing a held or failed schedule is how it is resumed */
+export function canReschedule(status: ScheduledPublishStatus): boolean {
+  return status === 'scheduled' || status === 'held' || status === 'failed';
+}
+
+export function isScheduleDue(schedule: Pick<ScheduledPublish, 'status' | 'runAt'>, now: Date = new Date()): boolean {
+  return schedule.status === 'scheduled' && schedule.runAt.toMillis() <= now.getTime();
+}
+
+/** Claimed by a run that has not finished within PUBLISH_CLAIM_TIMEOUT_MS */
+export function isClaimStale(schedule: Pick<ScheduledPublish, 'status' | 'claimedAt'>, now: Date = new Date()): boolean {
+  if (schedule.status !== 'publishing') return false;
+  // Claims made before claimedAt was recorded can only be stale
+  return !schedule.claimedAt || schedule.claimedAt.toMillis() + PUBLISH_CLAIM_TIMEOUT_MS <= now.getTime();
+}
+
+/** Why preflight blocks publishing, or null when it may proceed */
+export function holdReasonFromPreflight(preflight: { canPublish: boolean; issues: PublishPreflightIssue[] }): string | null {
+  if (preflight.canPublish) return null;
+  const errors = preflight.issues.filter(i => i.type === 'error').map(i => i.message);
+  return errors.length > 0 ? errors.join('; ') : 'Publish preflight failed';
+}
+
+/** Status after a publish attempt throws; `attempts` includes the one that failed */
+export function statusAfterPublishError(attempts: number): ScheduledPublishStatus {
+  return attempts >= MAX_PUBLISH_ATTEMPTS ? 'failed' : 'scheduled';
+}
+
+/** A task that blocks publishing has gone from closed (or non-blocking) to open */
+export function isBlockingTaskReopened(
+  before: Pick<Task, 'status' | 'blocking'>,
+  after: Pick<Task, 'status' | 'blocking'>,
+): boolean {
+  const blocksNow = after.blocking && OPEN_TASK_STATUSES.includes(after.status);
+  const blockedBefore = before.blocking && OPEN_TASK_STATUSES.includes(before.status);
+  return blocksNow && !blockedBefore;
+}
+
+export function linkedChangeSetIds(task: Pick<Task, 'links'>): string[] {
+  return [...new Set((task.links || []).map(l => l.changeSetId).filter((id): id is string => !!id))];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Release calendar
+// ════════════════════════════════════════════════════════════════════════
+
+const isoDay = (d: Date) => d.toISOString().slice(0, 10);
+
+/**
+ * Monday-first month grid with each schedule on its local effective date.
+ * Entries within a day are ordered by go-live instant.
+ */
+export function buildReleaseCalendar(year: number, month: number, schedules: ScheduledPublish[]): ReleaseCalendarMonth {
+  const byDate = new Map<string, ScheduledPublish[]>();
+  for (const s of schedules) {
+    const list = byDate.get(s.effectiveDate) ?? [];
+    list.push(s);
+    byDate.set(s.effectiveDate, list);
+  }
+  for (const list of byDate.values()) list.sort((a, b) => a.runAt.toMillis() - b.runAt.toMillis());
+
+  const first = new Date(Date.UTC(year, month - 1, 1));
+  const leading = (first.getUTCDay() + 6) % 7;
+  const cursor = new Date(first.getTime() - leading * 86_400_000);
+
+  const weeks: ReleaseCalendarDay[][] = [];
+  do {
+    const week: ReleaseCalendarDay[] = [];
+    for (let i = 0; i < 7; i++) {
+      const date = isoDay(cursor);
+      week.push({ date, inMonth: cursor.getUTCMonth() === month - 1, entries: byDate.get(date) ?? [] });
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    weeks.push(week);
+  } while (cursor.getUTCMonth() === month - 1);
+
+  return { year, month, weeks };
+}
@@ -0,0 +1,410 @@
+/**
+ * Semantic Search Engine
+ *
+ * Hybrid ranking of policy-language passages:
+ *   1. Text is split into words, stop words dropped and the rest reduced
+ *      to light stems ("sewers" → "sewer", "backs" → "back"). Adjacent
+ *      stems are also indexed joined ("backs up" → "backup") so compound
+ *      spellings meet
+ *   2. BM25 scores every passage against the query stems
+ *   3. An optional embedding provider scores cosine similarity; the local
+ *      provider hashes stems and character trigrams into a fixed vector,
+ *      so near spellings and shared word stems score without a model
+ *   4. Scores are blended, and each hit carries a snippet with the matched
+ *      terms, the nearest content anchor and a deep link
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import type { ContentAnchor, FormIngestionChunk } from '../types/ingestion';
+import type { OrgClause, ClauseVersion } from '../types/clause';
+import type { Coverage } from '../types';
+import type {
+  EmbeddingProvider, HybridSearchOptions, SemanticSearchDoc, SemanticSearchHit, TextRange,
+} from '../types/semanticSearch';
+
+// ════════════════════════════════════════════════════════════════════════
+// Analysis
+// ════════════════════════════════════════════════════════════════════════
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'by', 'for', 'from', 'has', 'have',
+  'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'such', 'that', 'the', 'their', 'this',
+  'to', 'was', 'were', 'which', 'will', 'with', 'who', 'whom', 'you', 'your', 'we', 'us', 'our',
+]);
+
+const WORD_RE = /[A-Za-z0-9]+(?:'[A-Za-z]+)?/g;
+
+/** Light suffix stripping; the same stem is produced for common inflections */
+export function stem(word: string): string {
+  let w = word.toLowerCase().replace(/'s$/, '');
+  if (w.length <= 3 || /^\d/.test(w)) return w;
+
+  if (w.endsWith('ies') && w.length > 4) w = `${w.slice(0, -3)}y`;
+  else if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (/(?:ss|us|is)$/.test(w)) { /* keep */ }
+  else if (/(?:x|z|ch|sh)es$/.test(w)) w = w.slice(0, -2);
+  else if (w.endsWith('s')) w = w.slice(0, -1);
+
+  for (const suffix of ['ing', 'ed']) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 3) {
+      w = w.slice(0, -suffix.length);
+      if (/([b-df-hj-np-tv-z])\1$/.test(w) && !/(?:ll|ss|zz)$/.test(w)) w = w.slice(0, -1);
+      break;
+    }
+  }
+  if (w.endsWith('e') && w.length > 4) w = w.slice(0, -1);
+  return w;
+}
+
+export interface AnalyzedToken {
+  stem: string;
+  start: number;
+  end: number;
+}
+
+/** Non-stop-word tokens with their stems and character offsets */
+export function analyzeTokens(text: string): AnalyzedToken[] {
+  const out: AnalyzedToken[] = [];
+  for (const m of text.matchAll(WORD_RE)) {
+    const lower = m[0].toLowerCase();
+    if (STOP_WORDS.has(lower) || (lower.length < 2 && !/\d/.test(lower))) continue;
+    out.push({ stem: stem(lower), start: m.index!, end: m.index! + m[0].length });
+  }
+  return out;
+}
+
+/** Index terms: stems, plus adjacent stems joined as compounds */
+export function analyze(text: string): { terms: string[]; compounds: string[] } {
+  const terms = analyzeTokens(text).map(t => t.stem);
+  const compounds: string[] = [];
+  for (let i = 0; i + 1 < terms.length; i++) {
+    if (terms[i].length + terms[i + 1].length <= 14) compounds.push(terms[i] + terms[i + 1]);
+  }
+  return { terms, compounds };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// BM25
+// ════════════════════════════════════════════════════════════════════════
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface Bm25Index {
+  postings: Map<string, { doc: number; tf: number }[]>;
+  docLengths: number[];
+  avgLength: number;
+}
+
+export function buildBm25Index(texts: string[]): Bm25Index {
+  const postings = new Map<string, { doc: number; tf: number }[]>();
+  const docLengths: number[] = [];
+
+  texts.forEach((text, doc) => {
+    const { terms, compounds } = analyze(text);
+    docLengths.push(terms.length);
+    const tf = new Map<string, number>();
+    for (const t of [...terms, ...compounds]) tf.set(t, (tf.get(t) ?? 0) + 1);
+    for (const [term, count] of tf) {
+      const list = postings.get(term);
+      if (list) list.push({ doc, tf: count }); else postings.set(term, [{ doc, tf: count }]);
+    }
+  });
+
+  const total = docLengths.reduce((n, l) => n + l, 0);
+  return { postings, docLengths, avgLength: docLengths.length ? total / docLengths.length : 0 };
+}
+
+/** BM25 score of every document for the query */
+export function bm25Scores(index: Bm25Index, query: string): Float64Array {
+  const n = index.docLengths.length;
+  const scores = new Float64Array(n);
+  const { terms, compounds } = analyze(query);
+
+  for (const term of new Set([...terms, ...compounds])) {
+    const list = index.postings.get(term);
+    if (!list) continue;
+    const idf = Math.log(1 + (n - list.length + 0.5) / (list.length + 0.5));
+    for (const { doc, tf } of list) {
+      const norm = 1 - BM25_B + BM25_B * (index.docLengths[doc] / (index.avgLength || 1));
+      scores[doc] += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+    }
+  }
+  return scores;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Embeddings
+// ════════════════════════════════════════════════════════════════════════
+
+function fnv1a(text: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hashingEmbedding(text: string, dimensions: number): Float32Array {
+  const vec = new Float32Array(dimensions);
+  const add = (feature: string, weight: number) => {
+    const h = fnv1a(feature);
+    vec[h % dimensions] += (h & 0x80000000) ? -weight : weight;
+  };
+  for (const { stem: s } of analyzeTokens(text)) {
+    add(`w:${s}`, 1);
+    const padded = `#${s}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) add(`c:${padded.slice(i, i + 3)}`, 0.4);
+  }
+  let norm = 0;
+  for (let i = 0; i < dimensions; i++) norm += vec[i] * vec[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < dimensions; i++) vec[i] /= norm;
+  return vec;
+}
+
+/**
+ * Deterministic local provider: feature hashing of word stems and their
+ * character trigrams. No model and no network — for tests only; its
+ * vectors track shared wording, not meaning.
+ */
+export function createHashingEmbeddingProvider(dimensions = 512): EmbeddingProvider {
+  return {
+    id: `hashing-${dimensions}`,
+    dimensions,
+    embed: async texts => texts.map(t => hashingEmbedding(t, dimensions)),
+  };
+}
+
+export function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Index
+// ════════════════════════════════════════════════════════════════════════
+
+const EMBED_BATCH = 64;
+
+export interface SemanticIndex {
+  docs: SemanticSearchDoc[];
+  bm25: Bm25Index;
+  /** Set when built with an embedding provider */
+  providerId?: string;
+  vectors?: Float32Array[];
+}
+
+export async function buildSemanticIndex(
+  docs: SemanticSearchDoc[],
+  provider?: EmbeddingProvider | null,
+): Promise<SemanticIndex> {
+  const bm25 = buildBm25Index(docs.map(d => `${d.title}\n${d.text}`));
+  if (!provider) return { docs, bm25 };
+
+  const vectors: Float32Array[] = [];
+  for (let i = 0; i < docs.length; i += EMBED_BATCH) {
+    vectors.push(...await provider.embed(docs.slice(i, i + EMBED_BATCH).map(d => d.text)));
+  }
+  return { docs, bm25, providerId: provider.id, vectors };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Highlights and snippets
+// ════════════════════════════════════════════════════════════════════════
+
+const SNIPPET_LENGTH = 240;
+
+function termsMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  // "backup" ~ "back", "sewerage" ~ "sewer": one stem extends the other
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  return short.length >= 4 && long.startsWith(short);
+}
+
+/** Ranges of words in `text` matching a query term */
+export function highlightRanges(text: string, query: string): TextRange[] {
+  const queryStems = [...new Set(analyzeTokens(query).map(t => t.stem))];
+  if (queryStems.length === 0) return [];
+  return analyzeTokens(text)
+    .filter(t => queryStems.some(q => termsMatch(t.stem, q)))
+    .map(t => ({ start: t.start, end: t.end }));
+}
+
+/** The densest window of matches, cut at word boundaries */
+export function buildSnippet(
+  text: string, ranges: TextRange[], length = SNIPPET_LENGTH,
+): { snippet: string; highlights: TextRange[]; matchOffset: number | null } {
+  if (ranges.length === 0) {
+    const cut = text.length > length ? text.slice(0, text.lastIndexOf(' ', length) > 0 ? text.lastIndexOf(' ', length) : length) : text;
+    return { snippet: cut.trim() + (cut.length < text.length ? ' …' : ''), highlights: [], matchOffset: null };
+  }
+
+  let best = 0;
+  let bestCount = 0;
+  for (let i = 0; i < ranges.length; i++) {
+    let count = 0;
+    for (let j = i; j < ranges.length && ranges[j].end - ranges[i].start <= length; j++) count++;
+    if (count > bestCount) { best = i; bestCount = count; }
+  }
+
+  const first = ranges[best];
+  let start = Math.max(0, first.start - 40);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space >= 0 && space < first.start ? space + 1 : first.start;
+  }
+  let end = Math.min(text.length, start + length);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > first.end) end = space;
+  }
+
+  const prefix = start > 0 ? '… ' : '';
+  const body = text.slice(start, end).replace(/\s/g, ' ');
+  return {
+    snippet: prefix + body + (end < text.length ? ' …' : ''),
+    highlights: ranges
+      .filter(r => r.start >= start && r.end <= end)
+      .map(r => ({ start: r.start - start + prefix.length, end: r.end - start + prefix.length })),
+    matchOffset: first.start,
+  };
+}
+
+/** The last anchor starting at or before `offset`, else the first */
+export function nearestAnchor(anchors: ContentAnchor[] | undefined, offset: number | null): ContentAnchor | undefined {
+  if (!anchors?.length) return undefined;
+  if (offset === null) return anchors[0];
+  let best: ContentAnchor | undefined;
+  for (const a of anchors) if (a.offset <= offset && (!best || a.offset >= best.offset)) best = a;
+  return best ?? anchors[0];
+}
+
+/** Form viewer deep link for a form-text hit; other kinds use their own route */
+export function hitRoute(doc: SemanticSearchDoc, query: string, anchor?: ContentAnchor): string {
+  if (doc.kind !== 'formChunk' || !doc.formId || !doc.formVersionId) return doc.route;
+  const params = new URLSearchParams();
+  params.set('page', String(anchor?.page ?? doc.page ?? 1));
+  if (anchor) params.set('anchor', anchor.hash);
+  params.set('q', query);
+  return `/forms/${doc.formId}/versions/${doc.formVersionId}/view?${params.toString()}`;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Search
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Rank passages for a query. When the index carries vectors, the provider
+ * that built it must be passed to embed the query.
+ */
+export async function searchSemanticIndex(
+  index: SemanticIndex,
+  query: string,
+  provider?: EmbeddingProvider | null,
+  options: HybridSearchOptions = {},
+): Promise<SemanticSearchHit[]> {
+  const { limit = 25, kinds, bm25Weight = 0.6, minScore = 0.05 } = options;
+  if (!query.trim() || index.docs.length === 0) return [];
+
+  const bm25 = bm25Scores(index.bm25, query);
+  const maxBm25 = bm25.reduce((m, v) => Math.max(m, v), 0);
+
+  let queryVector: Float32Array | null = null;
+  if (provider && index.vectors && index.providerId === provider.id) {
+    [queryVector] = await provider.embed([query]);
+  }
+
+  const scored: { i: number; score: number; bm25: number; embedding?: number }[] = [];
+  index.docs.forEach((doc, i) => {
+    if (kinds && !kinds.includes(doc.kind)) return;
+    const lexical = maxBm25 > 0 ? bm25[i] / maxBm25 : 0;
+    if (!queryVector) {
+      if (lexical >= minScore) scored.push({ i, score: lexical, bm25: lexical });
+      return;
+    }
+    const embedding = Math.max(0, cosine(queryVector, index.vectors![i]));
+    const score = bm25Weight * lexical + (1 - bm25Weight) * embedding;
+    if (score >= minScore) scored.push({ i, score, bm25: lexical, embedding });
+  });
+
+  scored.sort((a, b) => b.score - a.score || a.i - b.i);
+
+  return scored.slice(0, limit).map(({ i, score, bm25: lexical, embedding }) => {
+    const doc = index.docs[i];
+    const { snippet, highlights, matchOffset } = buildSnippet(doc.text, highlightRanges(doc.text, query));
+    const anchor = nearestAnchor(doc.anchors, matchOffset);
+    return {
+      doc,
+      score: Math.round(score * 1000) / 1000,
+      bm25: Math.round(lexical * 1000) / 1000,
+      ...(embedding !== undefined && { embedding: Math.round(embedding * 1000) / 1000 }),
+      snippet,
+      highlights,
+      ...(anchor && { anchor }),
+      route: hitRoute(doc, query, anchor),
+    };
+  });
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Passage builders
+// ════════════════════════════════════════════════════════════════════════
+
+export function formChunkDocs(
+  version: { formId: string; formNumber: string; formTitle?: string; formVersionId: string; editionDate: string },
+  chunks: FormIngestionChunk[],
+): SemanticSearchDoc[] {
+  const title = version.editionDate ? `${version.formNumber} (${version.editionDate})` : version.formNumber;
+  return chunks
+    .filter(c => c.text?.trim())
+    .map(c => ({
+      id: `formChunk:${version.formVersionId}:${c.id}`,
+      kind: 'formChunk' as const,
+      title,
+      subtitle: c.sectionPath || version.formTitle || '',
+      text: c.text,
+      route: `/forms/${version.formId}/versions/${version.formVersionId}/view?page=${c.pageStart}`,
+      formId: version.formId,
+      formVersionId: version.formVersionId,
+      page: c.pageStart,
+      anchors: c.anchors ?? [],
+    }));
+}
+
+export function clauseVersionDoc(clause: OrgClause, version: ClauseVersion): SemanticSearchDoc {
+  return {
+    id: `clauseVersion:${clause.id}:${version.id}`,
+    kind: 'clauseVersion',
+    title: clause.canonicalName,
+    subtitle: `v${version.versionNumber}${version.sourceFormNumber ? ` · from ${version.sourceFormNumber}` : ''}`,
+    text: version.text,
+    route: `/clauses?clause=${clause.id}`,
+    clauseId: clause.id,
+    anchors: version.anchors ?? [],
+  };
+}
+
+export function coverageDoc(productId: string, productName: string, coverage: Coverage): SemanticSearchDoc | null {
+  const text = [coverage.description, coverage.scopeOfCoverage].filter(Boolean).join('\n\n');
+  if (!text.trim()) return null;
+  return {
+    id: `coverage:${productId}:${coverage.id}`,
+    kind: 'coverage',
+    title: coverage.name,
+    subtitle: [productName, coverage.coverageCode].filter(Boolean).join(' · '),
+    text,
+    route: `/coverage/${productId}`,
+    productId,
+    coverageId: coverage.id,
+  };
+}
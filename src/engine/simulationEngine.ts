@@ -32,12 +32,14 @@ import type {
 export function runUWPhase(
   rules: RuleWithVersion[],
   input: SimulationInput,
+  derivedFields?: Record<string, number>,
 ): UWPhaseResult {
   const ctx: RuleEvaluationContext = {
     inputs: input.inputs,
     state: input.stateCode,
     productVersionId: input.productVersionId,
     effectiveDate: input.effectiveDate,
+    derivedFields,
   };
 
   const result = evaluateRules(rules, ctx);
@@ -51,6 +53,8 @@ export function runUWPhase(
   }));
 
   return {
+    // Omitted rather than undefined so the result can be persisted as-is
+    ...(input.resolvedVersions && { resolvedVersions: input.resolvedVersions }),
     decision: (result.aggregateAction as UWDecision) ?? null,
     severity: result.aggregateSeverity,
     firedRuleCount: result.firedRules.length,
@@ -78,12 +82,15 @@ export function runPremiumPhase(
     state: input.stateCode,
     effectiveDate: input.effectiveDate,
     tables,
+    resolvedVersions: input.resolvedVersions,
   };
 
   const result = evaluate(steps, ctx, rateProgramVersionId);
 
   return {
     success: result.success,
+    // Omitted rather than undefined so the result can be persisted as-is
+    ...(result.resolvedVersions && { resolvedVersions: result.resolvedVersions }),
     outputs: result.outputs,
     finalPremium: result.finalPremium,
     trace: result.trace,
@@ -165,13 +172,14 @@ export interface SimulationEngineInput {
 export function runSimulation(engineInput: SimulationEngineInput): SimulationOutput {
   const startTime = performance.now();
 
-  const uwResult = runUWPhase(engineInput.rules, engineInput.input);
+  // Premium runs first so UW rules can reference rating outputs as derived fields
   const premiumResult = runPremiumPhase(
     engineInput.ratingSteps,
     engineInput.rateProgramVersionId,
     engineInput.input,
     engineInput.tables,
   );
+  const uwResult = runUWPhase(engineInput.rules, engineInput.input, premiumResult.outputs);
   const formsResult = resolveApplicableForms(engineInput.formUses, engineInput.input.stateCode);
 
   return {
@@ -179,5 +187,6 @@ export function runSimulation(engineInput: SimulationEngineInput): SimulationOut
     premiumResult,
     formsResult,
     totalExecutionTimeMs: performance.now() - startTime,
+    resolvedVersions: engineInput.input.resolvedVersions,
   };
 }
@@ -0,0 +1,771 @@
+/**
+ * Structural Diff & Merge Engine
+ *
+ * Compares two snapshots of a versioned entity using its schema from
+ * STRUCTURAL_DIFF_SCHEMAS:
+ *   - Keyed arrays are matched by key, so an inserted rating step is one
+ *     `added` change instead of every later index changing
+ *   - Condition trees are flattened by node id; a node whose parent group
+ *     changed is `moved`, and sibling order changes are `reordered`
+ *   - Cell tables are compared cell by cell, decoding dense storage
+ *   - Arrays without keys (state lists, short-rate tables) are compared
+ *     as whole values
+ *
+ * Three-way merge diffs base → ours and base → theirs, then re-applies each
+ * of our changes onto theirs. A change is a conflict when one of theirs
+ * touches the same path (or a parent of it) with a different result, or
+ * when it can no longer be applied (its element or group was removed).
+ *
+ * functions/src/services/structuralDiff.js mirrors the diff half.
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import type { VersionedEntityType } from '../types/versioning';
+import type {
+  StructuralPath,
+  StructuralChange,
+  StructuralChangeKind,
+  StructuralChangeTarget,
+  StructuralDiff,
+  EntityDiffSchema,
+  KeyedCollectionSchema,
+  ConditionTreeSchema,
+  CellTableSchema,
+  ThreeWayMerge,
+  MergeConflict,
+  MergeResolution,
+} from '../types/structuralDiff';
+import {
+  STRUCTURAL_DIFF_SCHEMAS,
+  STRUCTURAL_DIFF_METADATA_FIELDS,
+  STRUCTURAL_DIFF_NESTED_IGNORED,
+} from '../types/structuralDiff';
+
+type Doc = Record<string, unknown>;
+
+const LABEL_FIELDS = ['name', 'label', 'displayName', 'code'];
+
+// ════════════════════════════════════════════════════════════════════════
+// Value helpers
+// ════════════════════════════════════════════════════════════════════════
+
+function isPlainObject(value: unknown): value is Doc {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/** Clone plain objects and arrays; keep other values (e.g. Timestamps) by reference */
+function clonePlain<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clonePlain) as unknown as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clonePlain(v)])) as T;
+  }
+  return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** `perOccurrence` / `per_occurrence` → `Per occurrence` */
+export function humanizeField(field: string): string {
+  const words = field.replace(/_/g, ' ').replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * The comparable content of a version document: its `data` payload for
+ * entity types that keep one, otherwise the document without its version
+ * metadata (form editions, rules and tables keep their fields top-level).
+ */
+export function versionContent(version: Doc): Doc {
+  if (isPlainObject(version.data)) return version.data;
+  return Object.fromEntries(Object.entries(version).filter(([k]) => !STRUCTURAL_DIFF_METADATA_FIELDS.includes(k)));
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Paths
+// ════════════════════════════════════════════════════════════════════════
+
+/** `['steps', { key: 's2' }, 'factorValue']` → `steps[s2].factorValue` */
+export function formatStructuralPath(path: StructuralPath): string {
+  return path.map((seg, i) => (typeof seg === 'string' ? `${i === 0 ? '' : '.'}${seg}` : `[${seg.key}]`)).join('');
+}
+
+/** Inverse of formatStructuralPath; keys may contain dots but not `]` */
+export function parseStructuralPath(text: string): StructuralPath {
+  const path: StructuralPath = [];
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === '[') {
+      const end = text.indexOf(']', i);
+      path.push({ key: text.slice(i + 1, end) });
+      i = end + 1;
+    } else {
+      if (text[i] === '.') i++;
+      let end = i;
+      while (end < text.length && text[end] !== '.' && text[end] !== '[') end++;
+      path.push(text.slice(i, end));
+      i = end;
+    }
+  }
+  return path;
+}
+
+function pathsRelated(a: StructuralPath, b: StructuralPath): boolean {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    const x = a[i];
+    const y = b[i];
+    if (typeof x === 'string' ? x !== y : typeof y === 'string' || x.key !== y.key) return false;
+  }
+  return true;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Schema lookup
+// ════════════════════════════════════════════════════════════════════════
+
+interface Ctx {
+  entityType: VersionedEntityType | null;
+  schema: EntityDiffSchema;
+}
+
+function makeCtx(entityType: VersionedEntityType | null): Ctx {
+  return { entityType, schema: entityType ? STRUCTURAL_DIFF_SCHEMAS[entityType] : {} };
+}
+
+const joinPattern = (pattern: string, field: string) => (pattern ? `${pattern}.${field}` : field);
+
+function isIgnored(ctx: Ctx, pattern: string, field: string): boolean {
+  if (STRUCTURAL_DIFF_NESTED_IGNORED.includes(field)) return true;
+  return ctx.schema.ignore?.includes(joinPattern(pattern, field)) ?? false;
+}
+
+const fieldLabel = (ctx: Ctx, pattern: string, field: string) =>
+  ctx.schema.labels?.[joinPattern(pattern, field)] ?? humanizeField(field);
+
+/** Keyed collection config for the arrays at `pattern`, or null to compare them whole */
+function keyedCollection(ctx: Ctx, pattern: string, ...arrays: unknown[][]): KeyedCollectionSchema | null {
+  const configured = ctx.schema.collections?.[pattern];
+  const keyField = configured?.key ?? 'id';
+  const elements = arrays.flat();
+  if (!configured && elements.length === 0) return null;
+
+  for (const array of arrays) {
+    const keys = new Set<string>();
+    for (const el of array) {
+      if (!isPlainObject(el)) return null;
+      const key = el[keyField];
+      if (typeof key !== 'string' && typeof key !== 'number') return null;
+      if (keys.has(String(key))) return null;
+      keys.add(String(key));
+    }
+  }
+  return configured ?? {};
+}
+
+function elementLabel(el: Doc, coll: KeyedCollectionSchema): string {
+  const keyField = coll.key ?? 'id';
+  const fields = coll.labelField ? [coll.labelField] : LABEL_FIELDS;
+  const named = fields.map(f => el[f]).find(v => typeof v === 'string' && v !== '');
+  return (named as string | undefined) ?? String(el[keyField]);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Condition trees
+// ════════════════════════════════════════════════════════════════════════
+
+interface TreeEntry {
+  node: Doc;
+  parentKey: string | null;
+  index: number;
+}
+
+/** Nodes by id in pre-order, or null if any node lacks a unique id */
+function flattenTree(root: unknown, children: string): Map<string, TreeEntry> | null {
+  if (!isPlainObject(root)) return null;
+  const nodes = new Map<string, TreeEntry>();
+  const visit = (node: unknown, parentKey: string | null, index: number): boolean => {
+    if (!isPlainObject(node) || typeof node.id !== 'string' || nodes.has(node.id)) return false;
+    nodes.set(node.id, { node, parentKey, index });
+    const kids = node[children];
+    if (kids === undefined) return true;
+    return Array.isArray(kids) && kids.every((kid, i) => visit(kid, node.id as string, i));
+  };
+  return visit(root, null, 0) ? nodes : null;
+}
+
+function conditionLabel(node: Doc): string {
+  if (node.kind === 'group' || (Array.isArray(node.conditions) && !node.fieldCode)) {
+    return `${node.operator ?? 'AND'} group`;
+  }
+  const value = Array.isArray(node.value) ? node.value.join(', ') : String(node.value ?? '');
+  return [node.fieldCode, node.operator, value].filter(Boolean).join(' ');
+}
+
+/** The node without its children, except children that are new in `after` */
+function withNewChildren(node: Doc, children: string, existing: Map<string, TreeEntry>): Doc {
+  const kids = node[children];
+  if (!Array.isArray(kids)) return clonePlain(node);
+  return {
+    ...clonePlain(node),
+    [children]: kids
+      .filter(kid => isPlainObject(kid) && !existing.has(kid.id as string))
+      .map(kid => withNewChildren(kid as Doc, children, existing)),
+  };
+}
+
+function findNode(root: unknown, children: string, key: string): { node: Doc; parent: Doc | null } | null {
+  if (!isPlainObject(root)) return null;
+  if (root.id === key) return { node: root, parent: null };
+  const kids = root[children];
+  if (!Array.isArray(kids)) return null;
+  for (const kid of kids) {
+    if (isPlainObject(kid) && kid.id === key) return { node: kid, parent: root };
+    const found = findNode(kid, children, key);
+    if (found) return found;
+  }
+  return null;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Cell tables
+// ════════════════════════════════════════════════════════════════════════
+
+interface Dimension { name?: string; position?: number; values?: string[] }
+
+function sortedDimensions(dims: unknown): Dimension[] {
+  if (!Array.isArray(dims)) return [];
+  return [...dims as Dimension[]].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+}
+
+/** Every cell key of a dense table, in storage order (first dimension outermost) */
+function denseKeys(dims: Dimension[]): string[] {
+  if (dims.length === 0) return [];
+  return dims.slice(1).reduce<string[]>(
+    (keys, dim) => keys.flatMap(prefix => (dim.values ?? []).map(v => `${prefix}|${v}`)),
+    [...(dims[0].values ?? [])],
+  );
+}
+
+/** Populated cells by `row|column` key; empty cells (null value, no note) are absent */
+function readCells(storage: unknown, dims: Dimension[]): Map<string, Doc> {
+  const cells = new Map<string, Doc>();
+  if (!isPlainObject(storage)) return cells;
+  if (storage.mode === 'dense' && Array.isArray(storage.denseValues)) {
+    const values = storage.denseValues as unknown[];
+    denseKeys(dims).forEach((key, i) => {
+      if (values[i] !== null && values[i] !== undefined) cells.set(key, { value: values[i] });
+    });
+    return cells;
+  }
+  if (isPlainObject(storage.cells)) {
+    for (const [key, cell] of Object.entries(storage.cells)) {
+      if (!isPlainObject(cell)) continue;
+      if ((cell.value === null || cell.value === undefined) && !cell.note) continue;
+      cells.set(key, { value: cell.value ?? null, ...(cell.note ? { note: cell.note } : {}) });
+    }
+  }
+  return cells;
+}
+
+function cellLabel(key: string, dims: Dimension[]): string {
+  return key.split('|').map((v, i) => (dims[i]?.name ? `${dims[i].name} ${v}` : v)).join(' × ');
+}
+
+function writeCell(storage: Doc, dims: Dimension[], key: string, cell: Doc | undefined): boolean {
+  if (storage.mode === 'dense' && Array.isArray(storage.denseValues)) {
+    const index = denseKeys(dims).indexOf(key);
+    if (index < 0) return false;
+    (storage.denseValues as unknown[])[index] = cell?.value ?? null;
+    return true;
+  }
+  const cells = isPlainObject(storage.cells) ? storage.cells : (storage.cells = {}) as Doc;
+  if (cell) cells[key] = clonePlain(cell);
+  else delete cells[key];
+  return true;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Diff
+// ════════════════════════════════════════════════════════════════════════
+
+interface Loc {
+  path: StructuralPath;
+  pattern: string;
+  labels: string[];
+}
+
+interface Walk {
+  ctx: Ctx;
+  roots: { before: Doc; after: Doc };
+  out: StructuralChange[];
+}
+
+const fieldLoc = (w: Walk, at: Loc, field: string): Loc => ({
+  path: [...at.path, field],
+  pattern: joinPattern(at.pattern, field),
+  labels: [...at.labels, fieldLabel(w.ctx, at.pattern, field)],
+});
+
+const keyLoc = (at: Loc, key: string, label: string): Loc => ({
+  path: [...at.path, { key }],
+  pattern: at.pattern,
+  labels: [...at.labels, label],
+});
+
+function push(
+  w: Walk,
+  at: Loc,
+  kind: StructuralChangeKind,
+  target: StructuralChangeTarget,
+  extra: Partial<StructuralChange> = {},
+): void {
+  w.out.push({
+    kind,
+    target,
+    path: at.path,
+    pathText: formatStructuralPath(at.path),
+    label: at.labels.join(' › '),
+    section: at.labels[0] ?? '',
+    ...extra,
+  });
+}
+
+function diffObject(w: Walk, before: Doc, after: Doc, at: Loc): void {
+  const keys = [...Object.keys(before), ...Object.keys(after).filter(k => !(k in before))];
+  for (const key of keys) {
+    if (isIgnored(w.ctx, at.pattern, key)) continue;
+    diffValue(w, before[key], after[key], fieldLoc(w, at, key));
+  }
+}
+
+function diffValue(w: Walk, before: unknown, after: unknown, at: Loc): void {
+  if (before === undefined && after === undefined) return;
+
+  const tree = w.ctx.schema.conditionTrees?.[at.pattern];
+  if (tree && diffTree(w, before, after, at, tree)) return;
+
+  const table = w.ctx.schema.cellTables?.[at.pattern];
+  if (table) {
+    diffCells(w, before, after, at, table);
+    return;
+  }
+
+  if (before === undefined) {
+    push(w, at, 'added', 'field', { after });
+  } else if (after === undefined) {
+    push(w, at, 'removed', 'field', { before });
+  } else if (isPlainObject(before) && isPlainObject(after)) {
+    diffObject(w, before, after, at);
+  } else if (Array.isArray(before) && Array.isArray(after)) {
+    const coll = keyedCollection(w.ctx, at.pattern, before, after);
+    if (coll) diffKeyed(w, before as Doc[], after as Doc[], at, coll);
+    else if (!sameValue(before, after)) push(w, at, 'modified', 'field', { before, after });
+  } else if (!sameValue(before, after)) {
+    push(w, at, 'modified', 'field', { before, after });
+  }
+}
+
+function diffKeyed(w: Walk, before: Doc[], after: Doc[], at: Loc, coll: KeyedCollectionSchema): void {
+  const keyField = coll.key ?? 'id';
+  const keyOf = (el: Doc) => String(el[keyField]);
+  const beforeByKey = new Map(before.map(el => [keyOf(el), el]));
+  const afterByKey = new Map(after.map(el => [keyOf(el), el]));
+
+  after.forEach((el, index) => {
+    const key = keyOf(el);
+    const old = beforeByKey.get(key);
+    const loc = keyLoc(at, key, elementLabel(el, coll));
+    if (!old) push(w, loc, 'added', 'element', { after: el, to: { parentKey: null, index } });
+    else diffObject(w, old, el, loc);
+  });
+
+  before.forEach((el, index) => {
+    const key = keyOf(el);
+    if (!afterByKey.has(key)) {
+      push(w, keyLoc(at, key, elementLabel(el, coll)), 'removed', 'element', { before: el, from: { parentKey: null, index } });
+    }
+  });
+
+  if (coll.ordered !== false) {
+    const beforeOrder = before.map(keyOf).filter(k => afterByKey.has(k));
+    const afterOrder = after.map(keyOf).filter(k => beforeByKey.has(k));
+    if (!sameValue(beforeOrder, afterOrder)) push(w, at, 'reordered', 'element', { before: beforeOrder, after: afterOrder });
+  }
+}
+
+/** Returns false when the values are not trees with unique node ids */
+function diffTree(w: Walk, before: unknown, after: unknown, at: Loc, tree: ConditionTreeSchema): boolean {
+  const { children } = tree;
+  if (before === undefined || after === undefined) return false;
+  const beforeNodes = flattenTree(before, children);
+  const afterNodes = flattenTree(after, children);
+  if (!beforeNodes || !afterNodes) return false;
+
+  const parentLabel = (nodes: Map<string, TreeEntry>, key: string | null) => {
+    const parent = key ? nodes.get(key) : undefined;
+    return parent ? conditionLabel(parent.node) : null;
+  };
+  const ownFields = (node: Doc) => Object.fromEntries(Object.entries(node).filter(([k]) => k !== children));
+
+  for (const [key, entry] of afterNodes) {
+    const old = beforeNodes.get(key);
+    const loc = keyLoc(at, key, conditionLabel(entry.node));
+    if (!old) {
+      if (entry.parentKey && !beforeNodes.has(entry.parentKey)) continue; // inside an added group
+      push(w, loc, 'added', 'condition', {
+        after: withNewChildren(entry.node, children, beforeNodes),
+        to: { parentKey: entry.parentKey, index: entry.index },
+      });
+      continue;
+    }
+    diffObject(w, ownFields(old.node), ownFields(entry.node), loc);
+    if (old.parentKey !== entry.parentKey) {
+      push(w, loc, 'moved', 'condition', {
+        before: parentLabel(beforeNodes, old.parentKey),
+        after: parentLabel(afterNodes, entry.parentKey),
+        from: { parentKey: old.parentKey, index: old.index },
+        to: { parentKey: entry.parentKey, index: entry.index },
+      });
+    }
+  }
+
+  for (const [key, entry] of beforeNodes) {
+    if (afterNodes.has(key)) continue;
+    if (entry.parentKey && !afterNodes.has(entry.parentKey)) continue; // inside a removed group
+    push(w, keyLoc(at, key, conditionLabel(entry.node)), 'removed', 'condition', {
+      before: entry.node,
+      from: { parentKey: entry.parentKey, index: entry.index },
+    });
+  }
+
+  // Sibling order within groups present on both sides
+  for (const [key, entry] of afterNodes) {
+    const old = beforeNodes.get(key);
+    if (!old || !Array.isArray(old.node[children]) || !Array.isArray(entry.node[children])) continue;
+    const stays = (id: string) => beforeNodes.get(id)?.parentKey === key && afterNodes.get(id)?.parentKey === key;
+    const ids = (node: Doc) => (node[children] as Doc[]).map(kid => kid.id as string).filter(stays);
+    const beforeOrder = ids(old.node);
+    const afterOrder = ids(entry.node);
+    if (!sameValue(beforeOrder, afterOrder)) {
+      push(w, keyLoc(at, key, conditionLabel(entry.node)), 'reordered', 'condition', { before: beforeOrder, after: afterOrder });
+    }
+  }
+  return true;
+}
+
+function diffCells(w: Walk, before: unknown, after: unknown, at: Loc, table: CellTableSchema): void {
+  const beforeDims = sortedDimensions(w.roots.before[table.dimensionsField]);
+  const afterDims = sortedDimensions(w.roots.after[table.dimensionsField]);
+  const beforeCells = readCells(before, beforeDims);
+  const afterCells = readCells(after, afterDims);
+
+  for (const [key, cell] of afterCells) {
+    const old = beforeCells.get(key);
+    const loc = keyLoc(at, key, cellLabel(key, afterDims));
+    if (!old) push(w, loc, 'added', 'cell', { after: cell });
+    else if (!sameValue(old, cell)) push(w, loc, 'modified', 'cell', { before: old, after: cell });
+  }
+  for (const [key, cell] of beforeCells) {
+    if (!afterCells.has(key)) push(w, keyLoc(at, key, cellLabel(key, beforeDims)), 'removed', 'cell', { before: cell });
+  }
+
+  const defaults = [before, after].map(s => (isPlainObject(s) ? s.defaultValue : undefined));
+  diffValue(w, defaults[0], defaults[1], fieldLoc(w, at, 'defaultValue'));
+}
+
+function countChanges(changes: StructuralChange[]): Record<StructuralChangeKind, number> {
+  const counts: Record<StructuralChangeKind, number> = { added: 0, removed: 0, modified: 0, moved: 0, reordered: 0 };
+  for (const c of changes) counts[c.kind]++;
+  return counts;
+}
+
+/** Structural changes from `before` to `after`; pass null for schema-less comparison */
+export function diffStructures(
+  entityType: VersionedEntityType | null,
+  before: Doc,
+  after: Doc,
+): StructuralDiff {
+  const w: Walk = { ctx: makeCtx(entityType), roots: { before: before ?? {}, after: after ?? {} }, out: [] };
+  diffObject(w, w.roots.before, w.roots.after, { path: [], pattern: '', labels: [] });
+  return { entityType, changes: w.out, counts: countChanges(w.out), isIdentical: w.out.length === 0 };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Reading & applying changes
+// ════════════════════════════════════════════════════════════════════════
+
+type Slot =
+  | { type: 'field'; parent: Doc | undefined; field: string }
+  | { type: 'element'; array: Doc[] | undefined; keyField: string; key: string }
+  | { type: 'node'; root: unknown; children: string; key: string }
+  | { type: 'cell'; storage: Doc | undefined; dims: Dimension[]; key: string };
+
+function readSlot(slot: Slot): unknown {
+  switch (slot.type) {
+    case 'field': return slot.parent?.[slot.field];
+    case 'element': return slot.array?.find(el => isPlainObject(el) && String(el[slot.keyField]) === slot.key);
+    case 'node': return findNode(slot.root, slot.children, slot.key)?.node;
+    case 'cell': return readCells(slot.storage, slot.dims).get(slot.key);
+  }
+}
+
+/** The slot the last path segment names, walking keyed segments through the schema */
+function resolveSlot(ctx: Ctx, doc: Doc, path: StructuralPath): Slot | null {
+  let container: unknown = doc;
+  let pattern = '';
+  let slot: Slot | null = null;
+  for (const seg of path) {
+    if (typeof seg === 'string') {
+      pattern = joinPattern(pattern, seg);
+      slot = { type: 'field', parent: isPlainObject(container) ? container : undefined, field: seg };
+    } else if (ctx.schema.conditionTrees?.[pattern]) {
+      slot = { type: 'node', root: container, children: ctx.schema.conditionTrees[pattern].children, key: seg.key };
+    } else if (ctx.schema.cellTables?.[pattern]) {
+      const dims = sortedDimensions(doc[ctx.schema.cellTables[pattern].dimensionsField]);
+      slot = { type: 'cell', storage: isPlainObject(container) ? container : undefined, dims, key: seg.key };
+    } else {
+      const keyField = ctx.schema.collections?.[pattern]?.key ?? 'id';
+      slot = { type: 'element', array: Array.isArray(container) ? container as Doc[] : undefined, keyField, key: seg.key };
+    }
+    container = readSlot(slot);
+  }
+  return slot;
+}
+
+function valueAt(ctx: Ctx, doc: Doc, path: StructuralPath): unknown {
+  if (path.length === 0) return doc;
+  const slot = resolveSlot(ctx, doc, path);
+  return slot ? readSlot(slot) : undefined;
+}
+
+/** Move the elements named in `order` into that relative order, leaving the rest in place */
+function reorderInPlace(array: Doc[], keyOf: (el: Doc) => string, order: string[]): void {
+  const wanted = new Set(order);
+  const slots = array.map((el, i) => (wanted.has(keyOf(el)) ? i : -1)).filter(i => i >= 0);
+  const byKey = new Map(array.map(el => [keyOf(el), el]));
+  const present = order.filter(k => byKey.has(k));
+  slots.forEach((slotIndex, i) => { array[slotIndex] = byKey.get(present[i])!; });
+}
+
+/** The array a `reordered` change applies to, with the key of each element */
+function orderedArrayAt(ctx: Ctx, doc: Doc, change: StructuralChange): { array: Doc[]; keyOf: (el: Doc) => string } | null {
+  const slot = resolveSlot(ctx, doc, change.path);
+  if (!slot) return null;
+  const value = readSlot(slot);
+  if (slot.type === 'node') {
+    const kids = isPlainObject(value) ? value[slot.children] : undefined;
+    return Array.isArray(kids) ? { array: kids as Doc[], keyOf: el => String(el.id) } : null;
+  }
+  if (!Array.isArray(value)) return null;
+  const pattern = change.path.filter((seg): seg is string => typeof seg === 'string').join('.');
+  const keyField = ctx.schema.collections?.[pattern]?.key ?? 'id';
+  return { array: value as Doc[], keyOf: el => String(el[keyField]) };
+}
+
+const insertAt = <T>(array: T[], index: number, value: T) => array.splice(Math.min(index, array.length), 0, value);
+
+/** Apply one change to `doc` in place; false when its target no longer exists */
+function applyChange(ctx: Ctx, doc: Doc, change: StructuralChange): boolean {
+  if (change.kind === 'reordered') {
+    const target = orderedArrayAt(ctx, doc, change);
+    if (!target) return false;
+    reorderInPlace(target.array, target.keyOf, change.after as string[]);
+    return true;
+  }
+
+  const slot = resolveSlot(ctx, doc, change.path);
+  if (!slot) return false;
+
+  switch (slot.type) {
+    case 'field':
+      if (!slot.parent) return false;
+      if (change.after === undefined) delete slot.parent[slot.field];
+      else slot.parent[slot.field] = clonePlain(change.after);
+      return true;
+
+    case 'element': {
+      if (!slot.array) return false;
+      const index = slot.array.findIndex(el => String(el[slot.keyField]) === slot.key);
+      if (change.kind === 'removed') {
+        if (index >= 0) slot.array.splice(index, 1);
+      } else if (index >= 0) {
+        slot.array[index] = clonePlain(change.after as Doc);
+      } else {
+        insertAt(slot.array, change.to?.index ?? slot.array.length, clonePlain(change.after as Doc));
+      }
+      return true;
+    }
+
+    case 'node': {
+      const found = findNode(slot.root, slot.children, slot.key);
+      if (change.kind === 'removed') {
+        if (!found) return true;
+        if (!found.parent) return false;
+        const kids = found.parent[slot.children] as Doc[];
+        kids.splice(kids.indexOf(found.node), 1);
+        return true;
+      }
+      const target = change.to?.parentKey ? findNode(slot.root, slot.children, change.to.parentKey)?.node : null;
+      if (!target || !Array.isArray(target[slot.children])) return false;
+      if (change.kind === 'moved') {
+        if (!found?.parent || findNode(found.node, slot.children, target.id as string)) return false;
+        const from = found.parent[slot.children] as Doc[];
+        from.splice(from.indexOf(found.node), 1);
+        insertAt(target[slot.children] as Doc[], change.to!.index, found.node);
+        return true;
+      }
+      if (found) return false;
+      insertAt(target[slot.children] as Doc[], change.to!.index, clonePlain(change.after as Doc));
+      return true;
+    }
+
+    case 'cell':
+      if (!slot.storage) return false;
+      return writeCell(slot.storage, slot.dims, slot.key, change.after as Doc | undefined);
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Three-way merge
+// ════════════════════════════════════════════════════════════════════════
+
+/** Whether `doc` already has the outcome of `change` */
+function alreadyApplied(ctx: Ctx, doc: Doc, change: StructuralChange): boolean {
+  if (change.kind === 'moved') {
+    const slot = resolveSlot(ctx, doc, change.path);
+    if (slot?.type !== 'node') return false;
+    const found = findNode(slot.root, slot.children, slot.key);
+    return found !== null && (found.parent?.id ?? null) === (change.to?.parentKey ?? null);
+  }
+  if (change.kind === 'reordered') {
+    const target = orderedArrayAt(ctx, doc, change);
+    if (!target) return false;
+    const order = change.after as string[];
+    const current = target.array.map(target.keyOf).filter(k => order.includes(k));
+    return sameValue(current, order.filter(k => current.includes(k)));
+  }
+  return sameValue(valueAt(ctx, doc, change.path), change.after);
+}
+
+function overlaps(ours: StructuralChange, theirs: StructuralChange): boolean {
+  if (ours.kind === 'reordered' || theirs.kind === 'reordered' || ours.kind === 'moved' || theirs.kind === 'moved') {
+    return ours.kind === theirs.kind && ours.pathText === theirs.pathText;
+  }
+  return pathsRelated(ours.path, theirs.path);
+}
+
+/**
+ * Merge two edits of a common base. `merged` starts from theirs and takes
+ * each of our changes that theirs did not also make or touch.
+ */
+export function mergeThreeWay(
+  entityType: VersionedEntityType | null,
+  base: Doc,
+  ours: Doc,
+  theirs: Doc,
+): ThreeWayMerge {
+  const ctx = makeCtx(entityType);
+  const ourChanges = diffStructures(entityType, base, ours).changes;
+  const theirChanges = diffStructures(entityType, base, theirs).changes;
+  const merged = clonePlain(theirs ?? {});
+  const applied: StructuralChange[] = [];
+  const redundant: StructuralChange[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  const conflict = (change: StructuralChange): MergeConflict => ({
+    path: change.pathText,
+    label: change.label,
+    baseValue: valueAt(ctx, base ?? {}, change.path),
+    oursValue: valueAt(ctx, ours ?? {}, change.path),
+    theirsValue: valueAt(ctx, theirs ?? {}, change.path),
+    change,
+  });
+
+  for (const change of ourChanges) {
+    if (alreadyApplied(ctx, theirs ?? {}, change)) {
+      redundant.push(change);
+    } else if (theirChanges.some(t => overlaps(change, t)) || !applyChange(ctx, merged, change)) {
+      conflicts.push(conflict(change));
+    } else {
+      applied.push(change);
+    }
+  }
+
+  return { entityType, merged, applied, redundant, theirs: theirChanges, conflicts };
+}
+
+/** Conflict paths that have no resolution yet */
+export function unresolvedMergeConflicts(
+  merge: ThreeWayMerge,
+  resolutions: Record<string, MergeResolution>,
+): string[] {
+  return merge.conflicts.filter(c => !resolutions[c.path]).map(c => c.path);
+}
+
+/**
+ * The merged data with each conflict taking our change or keeping theirs.
+ * Throws if any conflict is unresolved or our change can no longer apply.
+ */
+export function resolveMerge(
+  merge: ThreeWayMerge,
+  resolutions: Record<string, MergeResolution>,
+): Doc {
+  const unresolved = unresolvedMergeConflicts(merge, resolutions);
+  if (unresolved.length > 0) {
+    throw new Error(`Resolve every conflict before merging: ${unresolved.join(', ')}`);
+  }
+
+  const ctx = makeCtx(merge.entityType);
+  const data = clonePlain(merge.merged);
+  for (const conflict of merge.conflicts) {
+    if (resolutions[conflict.path] !== 'ours') continue;
+    if (!applyChange(ctx, data, conflict.change)) {
+      throw new Error(`${conflict.label} cannot be kept: its parent was removed`);
+    }
+  }
+  return data;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Presentation
+// ════════════════════════════════════════════════════════════════════════
+
+/** e.g. `3 changed, 1 added, 1 moved` */
+export function summarizeStructuralDiff(diff: Pick<StructuralDiff, 'counts'>): string {
+  const labels: Record<StructuralChangeKind, string> = {
+    modified: 'changed', added: 'added', removed: 'removed', moved: 'moved', reordered: 'reordered',
+  };
+  const parts = (Object.keys(labels) as StructuralChangeKind[])
+    .filter(kind => diff.counts[kind] > 0)
+    .map(kind => `${diff.counts[kind]} ${labels[kind]}`);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
+
+/** Changes grouped by top-level section, in first-seen order */
+export function groupChangesBySection(changes: StructuralChange[]): Array<{ section: string; changes: StructuralChange[] }> {
+  const groups = new Map<string, StructuralChange[]>();
+  for (const change of changes) {
+    const list = groups.get(change.section) ?? [];
+    list.push(change);
+    groups.set(change.section, list);
+  }
+  return [...groups].map(([section, list]) => ({ section, changes: list }));
+}
+
+/** Short display form of a changed value */
+export function formatStructuralValue(change: Pick<StructuralChange, 'target'>, value: unknown): string {
+  if (value === undefined || value === null) return '—';
+  if (change.target === 'cell' && isPlainObject(value)) {
+    return value.note ? `${value.value ?? '—'} (${value.note})` : String(value.value ?? '—');
+  }
+  if (Array.isArray(value)) return value.every(v => typeof v !== 'object') ? value.join(', ') : `${value.length} items`;
+  if (isPlainObject(value)) {
+    const name = LABEL_FIELDS.map(f => value[f]).find(v => typeof v === 'string');
+    return typeof name === 'string' ? name : JSON.stringify(value);
+  }
+  return String(value);
+}
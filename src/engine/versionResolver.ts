@@ -0,0 +1,319 @@
+/**
+ * Version Resolver Engine
+ *
+ * Pure functions — no Firestore calls. The service loads every version of
+ * the rate programs, tables and rules that apply to a product; this module
+ * selects the published version in force on a date and analyses effective
+ * ranges for gaps and overlaps.
+ *
+ * Effective ranges are inclusive on both ends at day granularity, matching
+ * the rules engine scope check. A missing start or end is unbounded.
+ */
+
+import { createHash } from './hashUtils';
+import { collectTableReferences, getStepAst, parseExpression, renderExpression } from './expressionParser';
+import type { ExpressionNode, RatingStep } from '../types/ratingEngine';
+import type {
+  EffectiveDateValue,
+  EffectiveDatedVersion,
+  VersionedArtifactInput,
+  VersionResolutionRequest,
+  ResolvedVersionRef,
+  ResolvedVersionSet,
+  ResolvedVersionStamp,
+  VersionRangeIssue,
+} from '../types/versionResolution';
+
+// ════════════════════════════════════════════════════════════════════════
+// Date helpers
+// ════════════════════════════════════════════════════════════════════════
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Convert a stored effective date to a UTC day number, or null if unset */
+function toDay(value: EffectiveDateValue): number | null {
+  if (!value) return null;
+  let date: Date;
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'string') {
+    date = new Date(value);
+  } else if (typeof value === 'object' && 'toDate' in value) {
+    date = value.toDate();
+  } else {
+    return null;
+  }
+  if (Number.isNaN(date.getTime())) return null;
+  return Math.floor(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) / MS_PER_DAY);
+}
+
+function dayToIso(day: number | null): string | null {
+  return day === null ? null : new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+interface DayRange {
+  version: EffectiveDatedVersion;
+  start: number; // -Infinity when unbounded
+  end: number;   // Infinity when unbounded
+}
+
+function toRange(version: EffectiveDatedVersion): DayRange {
+  return {
+    version,
+    start: toDay(version.effectiveStart) ?? -Infinity,
+    end: toDay(version.effectiveEnd) ?? Infinity,
+  };
+}
+
+function finiteIso(day: number): string | null {
+  return Number.isFinite(day) ? dayToIso(day) : null;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Range analysis
+// ════════════════════════════════════════════════════════════════════════
+
+/** Published versions of an artifact that apply to the given state */
+function applicableVersions(artifact: VersionedArtifactInput, stateCode?: string): EffectiveDatedVersion[] {
+  return artifact.versions.filter(v =>
+    v.status === 'published' &&
+    (!stateCode || !v.stateCode || v.stateCode === stateCode),
+  );
+}
+
+/**
+ * Find gaps and overlaps between the published versions of one artifact.
+ * Versions are compared in effective-start order.
+ */
+export function analyzeEffectiveRanges(
+  artifact: VersionedArtifactInput,
+  stateCode?: string,
+): VersionRangeIssue[] {
+  const issues: VersionRangeIssue[] = [];
+  const ranges = applicableVersions(artifact, stateCode)
+    .map(toRange)
+    .sort((a, b) => a.start - b.start || a.version.versionNumber - b.version.versionNumber);
+
+  const base = {
+    artifactType: artifact.artifactType,
+    artifactId: artifact.artifactId,
+    artifactName: artifact.artifactName,
+  };
+
+  for (let i = 1; i < ranges.length; i++) {
+    const prev = ranges[i - 1];
+    const next = ranges[i];
+
+    if (next.start <= prev.end) {
+      const overlapEnd = Math.min(prev.end, next.end);
+      issues.push({
+        ...base,
+        type: 'overlap',
+        versionIds: [prev.version.id, next.version.id],
+        from: finiteIso(next.start),
+        to: finiteIso(overlapEnd),
+        message: `${artifact.artifactName}: v${prev.version.versionNumber} and v${next.version.versionNumber} are both in force from ${finiteIso(next.start) ?? 'the beginning'} to ${finiteIso(overlapEnd) ?? 'open-ended'}`,
+      });
+    } else if (next.start > prev.end + 1) {
+      issues.push({
+        ...base,
+        type: 'gap',
+        versionIds: [prev.version.id, next.version.id],
+        from: dayToIso(prev.end + 1),
+        to: dayToIso(next.start - 1),
+        message: `${artifact.artifactName}: no version in force from ${dayToIso(prev.end + 1)} to ${dayToIso(next.start - 1)} (between v${prev.version.versionNumber} and v${next.version.versionNumber})`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Resolution
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Select the published version in force on a date. When versions overlap,
+ * the highest version number wins (the overlap is reported separately).
+ */
+export function resolveEffectiveVersion(
+  versions: EffectiveDatedVersion[],
+  effectiveDate: Date,
+  stateCode?: string,
+): EffectiveDatedVersion | null {
+  const day = toDay(effectiveDate);
+  if (day === null) return null;
+
+  const inForce = versions
+    .filter(v => v.status === 'published' && (!stateCode || !v.stateCode || v.stateCode === stateCode))
+    .map(toRange)
+    .filter(r => r.start <= day && day <= r.end)
+    .sort((a, b) => b.version.versionNumber - a.version.versionNumber);
+
+  return inForce[0]?.version ?? null;
+}
+
+function toRef(artifact: VersionedArtifactInput, version: EffectiveDatedVersion): ResolvedVersionRef {
+  return {
+    artifactType: artifact.artifactType,
+    artifactId: artifact.artifactId,
+    artifactName: artifact.artifactName,
+    versionId: version.id,
+    versionNumber: version.versionNumber,
+    effectiveStart: dayToIso(toDay(version.effectiveStart)),
+    effectiveEnd: dayToIso(toDay(version.effectiveEnd)),
+  };
+}
+
+/**
+ * Resolve the exact set of published versions that apply to a product,
+ * state and effective date.
+ *
+ * Table artifacts are matched to step references by version ID: every
+ * version ID of a table is bound to the table version in force, so steps
+ * authored against an older edition read the current one.
+ */
+export function resolveVersionSet(request: VersionResolutionRequest): ResolvedVersionSet {
+  const { productId, stateCode, effectiveDate, artifacts } = request;
+  const effectiveIso = dayToIso(toDay(effectiveDate)) ?? '';
+
+  const rateProgramVersions: ResolvedVersionRef[] = [];
+  const tableVersions: ResolvedVersionRef[] = [];
+  const ruleVersions: ResolvedVersionRef[] = [];
+  const tableVersionBindings: Record<string, string> = {};
+  const issues: VersionRangeIssue[] = [];
+
+  // Deterministic order regardless of load order
+  const sorted = [...artifacts].sort((a, b) =>
+    a.artifactType.localeCompare(b.artifactType) || a.artifactId.localeCompare(b.artifactId),
+  );
+
+  for (const artifact of sorted) {
+    issues.push(...analyzeEffectiveRanges(artifact, stateCode));
+
+    const version = resolveEffectiveVersion(artifact.versions, effectiveDate, stateCode);
+    if (!version) {
+      // Rules without an applicable published version simply don't apply
+      if (artifact.artifactType !== 'rule' || applicableVersions(artifact, stateCode).length > 0) {
+        issues.push({
+          type: 'not_in_force',
+          artifactType: artifact.artifactType,
+          artifactId: artifact.artifactId,
+          artifactName: artifact.artifactName,
+          versionIds: [],
+          from: effectiveIso,
+          to: effectiveIso,
+          message: `${artifact.artifactName}: no published version in force on ${effectiveIso} in ${stateCode}`,
+        });
+      }
+      continue;
+    }
+
+    const ref = toRef(artifact, version);
+    switch (artifact.artifactType) {
+      case 'rateProgram':
+        rateProgramVersions.push(ref);
+        break;
+      case 'table':
+        tableVersions.push(ref);
+        for (const v of artifact.versions) {
+          tableVersionBindings[v.id] = version.id;
+        }
+        break;
+      case 'rule':
+        ruleVersions.push(ref);
+        break;
+    }
+  }
+
+  const resolutionHash = createHash({
+    productId,
+    stateCode,
+    effectiveDate: effectiveIso,
+    rateProgramVersionIds: rateProgramVersions.map(r => r.versionId),
+    tableVersionIds: tableVersions.map(r => r.versionId),
+    ruleVersionIds: ruleVersions.map(r => r.versionId),
+  });
+
+  return {
+    productId,
+    stateCode,
+    effectiveDate: effectiveIso,
+    rateProgramVersions,
+    tableVersions,
+    ruleVersions,
+    tableVersionBindings,
+    issues,
+    resolutionHash,
+  };
+}
+
+/** Table versions named in an expression step's lookup() calls; none for an invalid formula */
+function expressionTableVersionIds(step: RatingStep): string[] {
+  if (step.type !== 'expression' || !step.expression) return [];
+  try {
+    return collectTableReferences(getStepAst(step));
+  } catch {
+    return [];
+  }
+}
+
+/** Table version IDs a step reads: its lookup table and its lookup() calls */
+export function stepTableVersionIds(step: RatingStep): string[] {
+  return [...(step.tableVersionId ? [step.tableVersionId] : []), ...expressionTableVersionIds(step)];
+}
+
+function rebindLookups(node: ExpressionNode, bindings: Record<string, string>): ExpressionNode {
+  switch (node.kind) {
+    case 'call': {
+      const args = node.args.map(arg => rebindLookups(arg, bindings));
+      const [table] = args;
+      if (node.name === 'lookup' && table?.kind === 'string' && bindings[table.value]) {
+        args[0] = { ...table, value: bindings[table.value] };
+      }
+      return { ...node, args };
+    }
+    case 'unary':
+      return { ...node, operand: rebindLookups(node.operand, bindings) };
+    case 'binary':
+      return { ...node, left: rebindLookups(node.left, bindings), right: rebindLookups(node.right, bindings) };
+    default:
+      return node;
+  }
+}
+
+/**
+ * Rebind step table references — lookup steps and lookup() calls in
+ * expressions — to the table versions in force. Steps referencing unknown
+ * versions are returned unchanged.
+ */
+export function bindTableVersions(
+  steps: RatingStep[],
+  bindings: Record<string, string>,
+): RatingStep[] {
+  const rebinds = (id: string) => !!bindings[id] && bindings[id] !== id;
+  return steps.map(step => {
+    let bound = step;
+    if (step.tableVersionId && rebinds(step.tableVersionId)) {
+      bound = { ...bound, tableVersionId: bindings[step.tableVersionId] };
+    }
+    if (expressionTableVersionIds(step).some(rebinds)) {
+      bound = { ...bound, expression: renderExpression(rebindLookups(parseExpression(step.expression!), bindings)) };
+    }
+    return bound;
+  });
+}
+
+/** Compact stamp of a resolved set, for evaluation and simulation results */
+export function toResolvedVersionStamp(set: ResolvedVersionSet): ResolvedVersionStamp {
+  return {
+    productId: set.productId,
+    stateCode: set.stateCode,
+    effectiveDate: set.effectiveDate,
+    rateProgramVersionIds: set.rateProgramVersions.map(r => r.versionId),
+    tableVersionIds: set.tableVersions.map(r => r.versionId),
+    ruleVersionIds: set.ruleVersions.map(r => r.versionId),
+    resolutionHash: set.resolutionHash,
+  };
+}
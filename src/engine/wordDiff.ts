@@ -0,0 +1,139 @@
+/**
+ * Word Diff Engine
+ *
+ * Word-level text comparison used by the redline compare:
+ *   - similarity: Dice coefficient over word bigrams, for pairing moved or
+ *     renumbered text regardless of position
+ *   - diffWords: an LCS word diff producing equal / insert / delete runs;
+ *     the left text is reproduced exactly, the right text up to the
+ *     whitespace between unchanged words
+ *
+ * This is a pure engine — no Firestore dependencies.
+ */
+
+import type { InlineSegment } from '../types/redline';
+
+// ════════════════════════════════════════════════════════════════════════
+// Tokens
+// ════════════════════════════════════════════════════════════════════════
+
+/** Lower-cased words with punctuation stripped, for similarity */
+export function normalizedWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .map(w => w.replace(/^[^\p{L}\p{N}$%]+|[^\p{L}\p{N}$%]+$/gu, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Dice coefficient over word bigrams (unigrams for one-word texts).
+ * 1 for identical wording, 0 for nothing in common.
+ */
+export function similarity(a: string, b: string): number {
+  const grams = (text: string) => {
+    const words = normalizedWords(text);
+    const out = new Map<string, number>();
+    const keys = words.length < 2 ? words : words.slice(1).map((w, i) => `${words[i]} ${w}`);
+    for (const k of keys) out.set(k, (out.get(k) ?? 0) + 1);
+    return { out, size: keys.length };
+  };
+  const left = grams(a);
+  const right = grams(b);
+  if (left.size === 0 && right.size === 0) return 1;
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const [k, n] of left.out) shared += Math.min(n, right.out.get(k) ?? 0);
+  return (2 * shared) / (left.size + right.size);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Diff
+// ════════════════════════════════════════════════════════════════════════
+
+/** Above this many LCS cells the middle of the diff is one replace */
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Words with their trailing whitespace, so segments rebuild the text */
+function tokens(text: string): string[] {
+  return text.match(/\S+\s*|^\s+/g) ?? [];
+}
+
+const key = (token: string) => token.trimEnd();
+
+function push(segments: InlineSegment[], op: InlineSegment['op'], text: string): void {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) last.text += text;
+  else segments.push({ op, text });
+}
+
+/**
+ * Word-level diff of two texts. Deletions precede insertions within a
+ * changed run; adjacent runs of the same op are merged.
+ */
+export function diffWords(left: string, right: string): InlineSegment[] {
+  const a = tokens(left);
+  const b = tokens(right);
+  const segments: InlineSegment[] = [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && key(a[start]) === key(b[start])) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && key(a[endA - 1]) === key(b[endB - 1])) { endA--; endB--; }
+
+  push(segments, 'equal', a.slice(0, start).join(''));
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_LCS_CELLS) {
+    push(segments, 'delete', a.slice(start, endA).join(''));
+    push(segments, 'insert', b.slice(start, endB).join(''));
+  } else {
+    // lcs[i][j] = LCS length of a[start+i..endA) and b[start+j..endB)
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = key(a[start + i]) === key(b[start + j])
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    let deleted = '';
+    let inserted = '';
+    const flush = () => {
+      push(segments, 'delete', deleted);
+      push(segments, 'insert', inserted);
+      deleted = '';
+      inserted = '';
+    };
+    while (i < n || j < m) {
+      if (i < n && j < m && key(a[start + i]) === key(b[start + j])) {
+        flush();
+        push(segments, 'equal', a[start + i]);
+        i++;
+        j++;
+      } else if (j >= m || (i < n && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        deleted += a[start + i++];
+      } else {
+        inserted += b[start + j++];
+      }
+    }
+    flush();
+  }
+
+  push(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+}
+
+/** Rebuild one side of a diff */
+export function segmentsText(segments: InlineSegment[], side: 'left' | 'right'): string {
+  const skip = side === 'left' ? 'insert' : 'delete';
+  return segments.filter(s => s.op !== skip).map(s => s.text).join('');
+}
@@ -2,9 +2,10 @@
  * Deviation Hooks
  *
  * React hooks for:
- *  - useDeviationDiff   : real-time diff between base + overrides
+ *  - useDeviationDiff   : real-time layered diff (region → state → territory) over the base
  *  - useOverrideValidation : live validation errors as overrides change
  *  - useOverrideActions  : set, remove, promote, revert wrappers
+ *  - useDeviationMerge   : three-way merge onto a changed base with per-path decisions
  */
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
@@ -14,18 +15,85 @@ import type {
   DiffEntry,
   DeviationValidationError,
   OverrideCategory,
+  MergeDecision,
+  OverrideLayerGroup,
+  StateMergeResult,
 } from '../types/deviation';
 import {
-  computeDiff,
-  validateOverrides,
+  applyLayers,
+  buildStateLayers,
+  computeLayeredDiff,
+  validateLayers,
+  mergeOverrides,
 } from '../engine/deviationEngine';
 import {
   subscribeToOverrides,
+  listLayerGroups,
   setOverride,
+  setTerritoryOverride,
   removeOverride,
   promoteOverrideToBase,
+  applyStateMerges,
+  createLayerGroup,
+  updateLayerGroup,
+  deleteLayerGroup,
+  setLayerGroupOverride,
 } from '../services/deviationService';
 
+// ════════════════════════════════════════════════════════════════════════
+// Layer groups
+// ════════════════════════════════════════════════════════════════════════
+
+type LayerGroupFields = Pick<OverrideLayerGroup, 'name' | 'stateCodes'> &
+  Partial<Pick<OverrideLayerGroup, 'description' | 'priority'>>;
+
+const byPriority = (a: OverrideLayerGroup, b: OverrideLayerGroup) => a.priority - b.priority;
+
+/**
+ * Region layer groups for a product version (loaded once per version),
+ * with actions that keep the loaded list in step with each write.
+ */
+export function useLayerGroups(orgId: string, productId: string, versionId: string) {
+  const [groups, setGroups] = useState<OverrideLayerGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!orgId || !productId || !versionId) return;
+    let cancelled = false;
+    setLoading(true);
+    listLayerGroups(orgId, productId, versionId)
+      .then(gs => { if (!cancelled) setGroups(gs); })
+      .catch(() => { if (!cancelled) setGroups([]); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [orgId, productId, versionId]);
+
+  const create = useCallback(async (data: LayerGroupFields) => {
+    const group = await createLayerGroup(orgId, productId, versionId, data);
+    setGroups(prev => [...prev, group].sort(byPriority));
+  }, [orgId, productId, versionId]);
+
+  const update = useCallback(async (groupId: string, data: Partial<LayerGroupFields>) => {
+    await updateLayerGroup(orgId, productId, versionId, groupId, data);
+    setGroups(prev => prev.map(g => (g.id === groupId ? { ...g, ...data } : g)).sort(byPriority));
+  }, [orgId, productId, versionId]);
+
+  const remove = useCallback(async (groupId: string) => {
+    await deleteLayerGroup(orgId, productId, versionId, groupId);
+    setGroups(prev => prev.filter(g => g.id !== groupId));
+  }, [orgId, productId, versionId]);
+
+  /** Set or clear (value === undefined) one of a group's overrides */
+  const setGroupOverride = useCallback(async (
+    group: OverrideLayerGroup, path: string, value: unknown, baseValue: unknown,
+  ) => {
+    const overrides = await setLayerGroupOverride(orgId, productId, versionId, group, path, value, baseValue);
+    setGroups(prev => prev.map(g => (g.id === group.id ? { ...g, overrides } : g)));
+  }, [orgId, productId, versionId]);
+
+  return { groups, loading, create, update, remove, setGroupOverride };
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // useDeviationDiff
 // ════════════════════════════════════════════════════════════════════════
@@ -37,6 +105,8 @@ interface UseDeviationDiffOpts {
   stateCode: string;
   stateName: string;
   baseConfig: Record<string, unknown>;
+  /** Show the diff for one territory within the state */
+  territory?: string;
 }
 
 interface UseDeviationDiffResult {
@@ -50,9 +120,12 @@ interface UseDeviationDiffResult {
 }
 
 export function useDeviationDiff(opts: UseDeviationDiffOpts): UseDeviationDiffResult {
-  const { orgId, productId, versionId, stateCode, stateName, baseConfig } = opts;
+  const { orgId, productId, versionId, stateCode, stateName, baseConfig, territory } = opts;
   const [overrides, setOverrides] = useState<Record<string, Override>>({});
-  const [loading, setLoading] = useState(true);
+  const [territoryOverrides, setTerritoryOverrides] = useState<Record<string, Record<string, Override>>>({});
+  const [overridesLoading, setLoading] = useState(true);
+  const { groups, loading: groupsLoading } = useLayerGroups(orgId, productId, versionId);
+  const loading = overridesLoading || groupsLoading;
 
   // Subscribe to real-time override updates
   useEffect(() => {
@@ -60,19 +133,21 @@ export function useDeviationDiff(opts: UseDeviationDiffOpts): UseDeviationDiffRe
     setLoading(true);
     const unsub = subscribeToOverrides(
       orgId, productId, versionId, stateCode,
-      (ovs) => {
+      (ovs, _errs, territories) => {
         setOverrides(ovs);
+        setTerritoryOverrides(territories);
         setLoading(false);
       },
     );
     return unsub;
   }, [orgId, productId, versionId, stateCode]);
 
-  // Compute diff whenever base or overrides change
+  // Compute diff whenever base, layers or overrides change
   const diff = useMemo(() => {
     if (!baseConfig || loading) return null;
-    return computeDiff(baseConfig, overrides, stateCode, stateName);
-  }, [baseConfig, overrides, stateCode, stateName, loading]);
+    const layers = buildStateLayers(stateCode, stateName, overrides, territoryOverrides, groups, territory);
+    return computeLayeredDiff(baseConfig, layers, stateCode, stateName);
+  }, [baseConfig, overrides, territoryOverrides, groups, territory, stateCode, stateName, loading]);
 
   // Category filter helper
   const filterByCategory = useCallback(
@@ -122,16 +197,20 @@ interface UseOverrideValidationResult {
 export function useOverrideValidation(opts: UseOverrideValidationOpts): UseOverrideValidationResult {
   const { orgId, productId, versionId, stateCode, baseConfig } = opts;
   const [overrides, setOverridesState] = useState<Record<string, Override>>({});
+  const [territoryOverrides, setTerritoryOverrides] = useState<Record<string, Record<string, Override>>>({});
   const [firestoreErrors, setFirestoreErrors] = useState<DeviationValidationError[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [overridesLoading, setLoading] = useState(true);
+  const { groups, loading: groupsLoading } = useLayerGroups(orgId, productId, versionId);
+  const loading = overridesLoading || groupsLoading;
 
   useEffect(() => {
     if (!orgId || !productId || !versionId || !stateCode) return;
     setLoading(true);
     const unsub = subscribeToOverrides(
       orgId, productId, versionId, stateCode,
-      (ovs, errs) => {
+      (ovs, errs, territories) => {
         setOverridesState(ovs);
+        setTerritoryOverrides(territories);
         setFirestoreErrors(errs);
         setLoading(false);
       },
@@ -139,11 +218,12 @@ export function useOverrideValidation(opts: UseOverrideValidationOpts): UseOverr
     return unsub;
   }, [orgId, productId, versionId, stateCode]);
 
-  // Compute local validation (live, not persisted)
+  // Compute local validation across every layer (live, not persisted)
   const errors = useMemo(() => {
     if (!baseConfig || loading) return firestoreErrors;
-    return validateOverrides(baseConfig, overrides);
-  }, [baseConfig, overrides, loading, firestoreErrors]);
+    const layers = buildStateLayers(stateCode, stateCode, overrides, territoryOverrides, groups, 'all');
+    return validateLayers(baseConfig, layers);
+  }, [baseConfig, overrides, territoryOverrides, groups, stateCode, loading, firestoreErrors]);
 
   const hasErrors = errors.some(e => e.severity === 'error');
   const hasConflicts = errors.some(e => e.type === 'conflict');
@@ -161,6 +241,8 @@ interface UseOverrideActionsOpts {
   productId: string;
   versionId: string;
   stateCode: string;
+  /** Write to this territory's layer instead of the state's */
+  territory?: string;
 }
 
 interface UseOverrideActionsResult {
@@ -179,7 +261,7 @@ interface UseOverrideActionsResult {
 }
 
 export function useOverrideActions(opts: UseOverrideActionsOpts): UseOverrideActionsResult {
-  const { orgId, productId, versionId, stateCode } = opts;
+  const { orgId, productId, versionId, stateCode, territory } = opts;
   const [actionLoading, setActionLoading] = useState(false);
 
   const setField = useCallback(
@@ -191,24 +273,32 @@ export function useOverrideActions(opts: UseOverrideActionsOpts): UseOverrideAct
     ) => {
       setActionLoading(true);
       try {
-        await setOverride(orgId, productId, versionId, stateCode, path, value, baseValue, extra);
+        if (territory) {
+          await setTerritoryOverride(orgId, productId, versionId, stateCode, territory, path, value, baseValue, extra);
+        } else {
+          await setOverride(orgId, productId, versionId, stateCode, path, value, baseValue, extra);
+        }
       } finally {
         setActionLoading(false);
       }
     },
-    [orgId, productId, versionId, stateCode],
+    [orgId, productId, versionId, stateCode, territory],
   );
 
   const revertField = useCallback(
     async (path: string) => {
       setActionLoading(true);
       try {
-        await removeOverride(orgId, productId, versionId, stateCode, path);
+        if (territory) {
+          await setTerritoryOverride(orgId, productId, versionId, stateCode, territory, path, undefined, undefined);
+        } else {
+          await removeOverride(orgId, productId, versionId, stateCode, path);
+        }
       } finally {
         setActionLoading(false);
       }
     },
-    [orgId, productId, versionId, stateCode],
+    [orgId, productId, versionId, stateCode, territory],
   );
 
   const promoteField = useCallback(
@@ -227,3 +317,65 @@ export function useOverrideActions(opts: UseOverrideActionsOpts): UseOverrideAct
 
   return { setField, revertField, promoteField, actionLoading };
 }
+
+// ════════════════════════════════════════════════════════════════════════
+// useDeviationMerge
+// ════════════════════════════════════════════════════════════════════════
+
+interface UseDeviationMergeOpts {
+  orgId: string;
+  productId: string;
+  versionId: string;
+  stateCode: string;
+  stateName: string;
+  baseConfig: Record<string, unknown>;
+  overrides: Record<string, Override>;
+}
+
+interface UseDeviationMergeResult {
+  merge: StateMergeResult;
+  /** Explicit decisions; paths without one use the merge's resolution */
+  decisions: Record<string, MergeDecision>;
+  decide: (path: string, decision: MergeDecision) => void;
+  /** Apply to this state only, or bulk-apply proposals to every state */
+  apply: (allStates?: boolean) => Promise<{ changeSetId: string; merged: StateMergeResult[] }>;
+  applying: boolean;
+}
+
+export function useDeviationMerge(opts: UseDeviationMergeOpts): UseDeviationMergeResult {
+  const { orgId, productId, versionId, stateCode, stateName, baseConfig, overrides } = opts;
+  const [decisions, setDecisions] = useState<Record<string, MergeDecision>>({});
+  const [applying, setApplying] = useState(false);
+  const { groups } = useLayerGroups(orgId, productId, versionId);
+
+  // The state's overrides sit on the base plus its inherited region groups
+  const merge = useMemo(() => {
+    const regions = buildStateLayers(stateCode, stateName, {}, {}, groups);
+    return mergeOverrides(applyLayers(baseConfig, regions), overrides, stateCode, stateName);
+  }, [baseConfig, overrides, groups, stateCode, stateName]);
+
+  // Decisions are only meaningful against the merge they were made for
+  useEffect(() => { setDecisions({}); }, [merge.baseHash, stateCode]);
+
+  const decide = useCallback((path: string, decision: MergeDecision) => {
+    setDecisions(prev => ({ ...prev, [path]: decision }));
+  }, []);
+
+  const apply = useCallback(
+    async (allStates = false) => {
+      setApplying(true);
+      try {
+        return await applyStateMerges(
+          orgId, productId, versionId, baseConfig,
+          { [stateCode]: decisions },
+          allStates ? undefined : { stateCodes: [stateCode] },
+        );
+      } finally {
+        setApplying(false);
+      }
+    },
+    [orgId, productId, versionId, baseConfig, stateCode, decisions],
+  );
+
+  return { merge, decisions, decide, apply, applying };
+}
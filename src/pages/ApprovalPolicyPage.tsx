@@ -0,0 +1,339 @@
+/**
+ * ApprovalPolicyPage – /admin/approval-policy
+ *
+ * Org admins edit the approval policy as JSON. The right-hand panel
+ * renders each rule in plain words and lists validation problems as you
+ * type; saving is blocked until the policy validates.
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import styled from 'styled-components';
+import { ArrowLeftIcon, ShieldCheckIcon, XCircleIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import logger, { LOG_CATEGORIES } from '../utils/logger';
+import MainNavigation from '../components/ui/Navigation';
+import LoadingSpinner from '../components/ui/LoadingSpinner';
+import { useRoleContext } from '../context/RoleContext';
+import { getApprovalPolicy, saveApprovalPolicy } from '../services/approvalPolicyService';
+import {
+  APPROVAL_ROLE_LABELS,
+  defaultApprovalPolicy,
+  validateApprovalPolicy,
+  describeApprovalGroup,
+} from '../engine/approvalPolicy';
+import { APPROVAL_FACT_CONFIG } from '../types/approvalPolicy';
+import type { ApprovalPolicy } from '../types/approvalPolicy';
+import {
+  color, neutral, accent, space, radius, fontFamily,
+  type as t, border as borderTokens, focusRingStyle,
+} from '@/ui/tokens';
+import {
+  PageShell, PageBody, PageHeader, PageHeaderLeft, PageHeaderRight,
+  PageTitle, PageSubtitle, SectionCard, SectionTitle, Badge, Banner, BackButton,
+} from '@/ui/components';
+
+// ════════════════════════════════════════════════
+// Local styled
+// ════════════════════════════════════════════════
+
+const Container = styled.div`
+  max-width: 1200px;
+  margin: 0 auto;
+`;
+
+const Layout = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: ${space[5]};
+  @media (max-width: 1024px) { grid-template-columns: 1fr; }
+`;
+
+const Editor = styled.textarea`
+  width: 100%;
+  min-height: 560px;
+  padding: ${space[3]};
+  font-family: ${fontFamily.mono};
+  font-size: ${t.captionSm.size};
+  line-height: 1.5;
+  color: ${color.text};
+  background: ${neutral[50]};
+  border: ${borderTokens.default};
+  border-radius: ${radius.md};
+  resize: vertical;
+  &:focus { outline: none; border-color: ${accent[500]}; ${focusRingStyle} }
+`;
+
+const Button = styled.button<{ $primary?: boolean }>`
+  padding: ${space[2]} ${space[4]};
+  border-radius: ${radius.lg};
+  font-family: ${fontFamily.sans};
+  font-size: ${t.label.size};
+  font-weight: ${t.label.weight};
+  cursor: pointer;
+  border: ${({ $primary }) => ($primary ? 'none' : `1px solid ${neutral[200]}`)};
+  background: ${({ $primary }) => ($primary ? accent[500] : color.bg)};
+  color: ${({ $primary }) => ($primary ? color.textInverse : neutral[600])};
+  &:hover:not(:disabled) { filter: brightness(0.96); }
+  &:focus-visible { ${focusRingStyle} }
+  &:disabled { opacity: 0.45; cursor: not-allowed; }
+`;
+
+const RuleRow = styled.div<{ $disabled: boolean }>`
+  padding: ${space[3]} 0;
+  border-bottom: 1px solid ${neutral[100]};
+  opacity: ${({ $disabled }) => ($disabled ? 0.5 : 1)};
+  &:last-child { border-bottom: none; }
+`;
+
+const RuleName = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${space[1.5]};
+  font-size: ${t.bodySm.size};
+  font-weight: 500;
+  color: ${color.text};
+`;
+
+const RuleText = styled.div`
+  margin-top: ${space[1]};
+  font-size: ${t.captionSm.size};
+  color: ${color.textMuted};
+`;
+
+const Toggle = styled.label`
+  display: flex;
+  align-items: center;
+  gap: ${space[2]};
+  font-size: ${t.bodySm.size};
+  color: ${color.text};
+  margin-bottom: ${space[2]};
+`;
+
+const ErrorList = styled.ul`
+  margin: 0;
+  padding-left: ${space[4]};
+  font-size: ${t.captionSm.size};
+`;
+
+const FactList = styled.dl`
+  display: grid;
+  grid-template-columns: auto 1fr;
+  gap: ${space[1]} ${space[3]};
+  margin: 0;
+  font-size: ${t.captionSm.size};
+  dt { font-family: ${fontFamily.mono}; color: ${color.text}; }
+  dd { margin: 0; color: ${color.textMuted}; }
+`;
+
+// ════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════
+
+const toJson = (policy: ApprovalPolicy) => {
+  const { updatedAt: _updatedAt, updatedBy: _updatedBy, ...rest } = policy;
+  return JSON.stringify(rest, null, 2);
+};
+
+function parsePolicy(text: string): { policy: ApprovalPolicy | null; errors: string[] } {
+  try {
+    const policy = JSON.parse(text) as ApprovalPolicy;
+    return { policy, errors: validateApprovalPolicy(policy) };
+  } catch (err) {
+    return { policy: null, errors: [`Invalid JSON: ${(err as Error).message}`] };
+  }
+}
+
+// ════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════
+
+const ApprovalPolicyPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentOrgId, isOrgAdmin, loading: roleLoading } = useRoleContext();
+
+  const [text, setText] = useState('');
+  const [isDefault, setIsDefault] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!currentOrgId || roleLoading) return;
+    setLoading(true);
+    getApprovalPolicy(currentOrgId)
+      .then(({ policy, isDefault: usingDefault }) => {
+        setText(toJson(policy));
+        setIsDefault(usingDefault);
+      })
+      .catch(err => {
+        logger.error(LOG_CATEGORIES.ERROR, 'Failed to load approval policy', { orgId: currentOrgId }, err as Error);
+        setMessage({ kind: 'error', text: 'Failed to load the approval policy' });
+      })
+      .finally(() => setLoading(false));
+  }, [currentOrgId, roleLoading]);
+
+  const { policy, errors } = useMemo(() => parsePolicy(text), [text]);
+
+  const setSegregation = useCallback((key: 'noSelfApproval' | 'distinctApprovers', value: boolean) => {
+    if (!policy) return;
+    setText(toJson({ ...policy, segregation: { ...policy.segregation, [key]: value } }));
+  }, [policy]);
+
+  const handleSave = useCallback(async () => {
+    if (!currentOrgId || !policy || errors.length > 0) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      await saveApprovalPolicy(currentOrgId, policy);
+      setIsDefault(false);
+      setMessage({ kind: 'success', text: 'Approval policy saved. It applies to change sets submitted from now on.' });
+    } catch (err) {
+      setMessage({ kind: 'error', text: (err as Error).message || 'Failed to save the approval policy' });
+    } finally {
+      setSaving(false);
+    }
+  }, [currentOrgId, policy, errors]);
+
+  if (roleLoading || loading) {
+    return (
+      <PageShell>
+        <MainNavigation />
+        <PageBody><LoadingSpinner /></PageBody>
+      </PageShell>
+    );
+  }
+
+  return (
+    <PageShell>
+      <MainNavigation />
+      <PageBody>
+        <Container>
+          <div style={{ marginBottom: space[4] }}>
+            <BackButton onClick={() => navigate('/changesets')} aria-label="Back to change sets">
+              <ArrowLeftIcon />
+            </BackButton>
+          </div>
+
+          <PageHeader>
+            <PageHeaderLeft>
+              <div>
+                <PageTitle>Approval Policy</PageTitle>
+                <PageSubtitle>
+                  Rules that decide which sign-offs a change set needs when it is submitted for review
+                </PageSubtitle>
+              </div>
+            </PageHeaderLeft>
+            <PageHeaderRight>
+              <Button onClick={() => setText(toJson(defaultApprovalPolicy()))} disabled={!isOrgAdmin || saving}>
+                Reset to default
+              </Button>
+              <Button $primary onClick={handleSave} disabled={!isOrgAdmin || saving || errors.length > 0}>
+                {saving ? 'Saving…' : 'Save policy'}
+              </Button>
+            </PageHeaderRight>
+          </PageHeader>
+
+          {!isOrgAdmin && (
+            <div style={{ marginBottom: space[4] }}>
+              <Banner $variant="info">Only organization admins can change the approval policy.</Banner>
+            </div>
+          )}
+          {message && (
+            <div style={{ marginBottom: space[4] }}>
+              <Banner $variant={message.kind}>
+                {message.kind === 'success' ? <CheckCircleIcon /> : <XCircleIcon />}
+                {message.text}
+              </Banner>
+            </div>
+          )}
+
+          <Layout>
+            <SectionCard>
+              <SectionTitle>
+                Policy JSON {isDefault && <Badge $variant="neutral" $size="sm">Default</Badge>}
+              </SectionTitle>
+              <Editor
+                value={text}
+                onChange={e => setText(e.target.value)}
+                readOnly={!isOrgAdmin}
+                spellCheck={false}
+                aria-label="Approval policy JSON"
+              />
+            </SectionCard>
+
+            <div>
+              {errors.length > 0 && (
+                <div style={{ marginBottom: space[4] }}>
+                  <Banner $variant="error">
+                    <ErrorList>{errors.map(e => <li key={e}>{e}</li>)}</ErrorList>
+                  </Banner>
+                </div>
+              )}
+
+              {policy && (
+                <SectionCard style={{ marginBottom: space[4] }}>
+                  <SectionTitle><ShieldCheckIcon /> Segregation of duties</SectionTitle>
+                  <Toggle>
+                    <input
+                      type="checkbox"
+                      checked={!!policy.segregation?.noSelfApproval}
+                      disabled={!isOrgAdmin}
+                      onChange={e => setSegregation('noSelfApproval', e.target.checked)}
+                    />
+                    Authors may not approve their own change sets
+                  </Toggle>
+                  <Toggle>
+                    <input
+                      type="checkbox"
+                      checked={!!policy.segregation?.distinctApprovers}
+                      disabled={!isOrgAdmin}
+                      onChange={e => setSegregation('distinctApprovers', e.target.checked)}
+                    />
+                    One person may satisfy only one requirement per change set
+                  </Toggle>
+                  <RuleText>
+                    Prior-approval states: {(policy.priorApprovalStates || []).join(', ') || 'none'}
+                  </RuleText>
+                </SectionCard>
+              )}
+
+              {policy && errors.length === 0 && (
+                <SectionCard style={{ marginBottom: space[4] }}>
+                  <SectionTitle>Rules ({policy.rules.length})</SectionTitle>
+                  {policy.rules.map(rule => (
+                    <RuleRow key={rule.id} $disabled={!rule.enabled}>
+                      <RuleName>
+                        {rule.name}
+                        {!rule.enabled && <Badge $variant="neutral" $size="sm">Disabled</Badge>}
+                        {rule.require.noSelfApproval && <Badge $variant="neutral" $size="sm">No self-approval</Badge>}
+                      </RuleName>
+                      <RuleText>
+                        Requires {(rule.require.quorum ?? 1) > 1 ? `${rule.require.quorum} × ` : ''}
+                        {APPROVAL_ROLE_LABELS[rule.require.role]} when {describeApprovalGroup(rule.when)}
+                      </RuleText>
+                      {rule.description && <RuleText>{rule.description}</RuleText>}
+                    </RuleRow>
+                  ))}
+                </SectionCard>
+              )}
+
+              <SectionCard>
+                <SectionTitle>Facts</SectionTitle>
+                <FactList>
+                  {Object.entries(APPROVAL_FACT_CONFIG).map(([fact, cfg]) => (
+                    <React.Fragment key={fact}>
+                      <dt>{fact}</dt>
+                      <dd>{cfg.label} ({cfg.kind})</dd>
+                    </React.Fragment>
+                  ))}
+                </FactList>
+              </SectionCard>
+            </div>
+          </Layout>
+        </Container>
+      </PageBody>
+    </PageShell>
+  );
+};
+
+export default ApprovalPolicyPage;
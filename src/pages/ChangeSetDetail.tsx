@@ -20,10 +20,11 @@ import {
   ClockIcon,
   DocumentCheckIcon,
   QueueListIcon,
+  ArrowUturnLeftIcon,
 } from '@heroicons/react/24/outline';
 import MainNavigation from '../components/ui/Navigation';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
-import { AuditTimeline } from '../components/changeset';
+import { AuditTimeline, ChangeSetChangesPanel, ChangeSetConflictsPanel, ScheduledPublishPanel } from '../components/changeset';
 import { useRoleContext } from '../context/RoleContext';
 import {
   ChangeSet,
@@ -32,20 +33,27 @@ import {
   ChangeSetStatus,
   CHANGESET_STATUS_CONFIG,
   CHANGESET_ITEM_ACTION_CONFIG,
-  ApprovalRoleRequired,
 } from '../types/changeSet';
+import type { ApprovalPolicy, ApprovalRequirement } from '../types/approvalPolicy';
 import {
   getChangeSet,
   getChangeSetItems,
   getChangeSetApprovals,
-  getRequiredApprovals,
   submitForReview,
   returnToDraft,
   publishChangeSet,
+  revertChangeSet,
   approveChangeSet,
-  areAllApprovalsComplete,
   removeItemFromChangeSet,
 } from '../services/changeSetService';
+import { getApprovalPolicy, previewChangeSetApprovals } from '../services/approvalPolicyService';
+import {
+  APPROVAL_ROLE_LABELS,
+  requirementsFromApprovals,
+  summarizeApprovalProgress,
+  changeSetAuthors,
+  checkApprovalEligibility,
+} from '../engine/approvalPolicy';
 
 // ── Design System v2 ──
 import {
@@ -202,13 +210,36 @@ const ItemMeta = styled.div`
   display: flex; gap: ${space[2]}; align-items: center;
 `;
 
+const ApprovalBlock = styled.div`
+  padding: ${space[3]} 0;
+  border-bottom: 1px solid ${neutral[100]};
+  &:last-child { border-bottom: none; }
+`;
+
 const ApprovalRow = styled.div`
   display: flex;
   align-items: center;
   justify-content: space-between;
-  padding: ${space[3]} 0;
-  border-bottom: 1px solid ${neutral[100]};
-  &:last-child { border-bottom: none; }
+  gap: ${space[2]};
+`;
+
+const ReasonList = styled.ul`
+  margin: ${space[2]} 0 0 42px;
+  padding: 0;
+  list-style: none;
+  font-size: ${t.captionSm.size};
+  color: ${color.textMuted};
+`;
+
+const ReasonItem = styled.li`
+  margin-bottom: ${space[1]};
+  strong { color: ${color.text}; font-weight: 500; }
+`;
+
+const BlockedNote = styled.div`
+  margin: ${space[1.5]} 0 0 42px;
+  font-size: ${t.captionSm.size};
+  color: ${semantic.warningDark};
 `;
 
 const ApprovalInfo = styled.div`
@@ -306,14 +337,18 @@ const statusToBadge = (status: ChangeSetStatus): 'neutral' | 'accent' | 'success
 const ChangeSetDetailPage: React.FC = () => {
   const navigate = useNavigate();
   const { changeSetId } = useParams<{ changeSetId: string }>();
-  const { currentOrgId, role, loading: roleLoading } = useRoleContext();
+  const { currentOrgId, user, role, orgRole, isOrgAdmin, loading: roleLoading } = useRoleContext();
 
   const [changeSet, setChangeSet] = useState<ChangeSet | null>(null);
   const [items, setItems] = useState<ChangeSetItem[]>([]);
   const [approvals, setApprovals] = useState<ChangeSetApproval[]>([]);
+  const [policy, setPolicy] = useState<ApprovalPolicy | null>(null);
+  const [previewRequirements, setPreviewRequirements] = useState<ApprovalRequirement[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [revertOf, setRevertOf] = useState<ChangeSet | null>(null);
+  const [revertedBy, setRevertedBy] = useState<ChangeSet | null>(null);
 
   // ── Load ──
   useEffect(() => {
@@ -321,14 +356,16 @@ const ChangeSetDetailPage: React.FC = () => {
     const loadData = async () => {
       setLoading(true);
       try {
-        const [cs, itms, approvs] = await Promise.all([
+        const [cs, itms, approvs, approvalPolicy] = await Promise.all([
           getChangeSet(currentOrgId, changeSetId),
           getChangeSetItems(currentOrgId, changeSetId),
           getChangeSetApprovals(currentOrgId, changeSetId),
+          getApprovalPolicy(currentOrgId),
         ]);
         setChangeSet(cs);
         setItems(itms);
         setApprovals(approvs);
+        setPolicy(approvalPolicy.policy);
       } catch (err) {
         logger.error(LOG_CATEGORIES.ERROR, 'Failed to load change set', { changeSetId }, err as Error);
         setError('Failed to load change set');
@@ -339,13 +376,38 @@ const ChangeSetDetailPage: React.FC = () => {
     loadData();
   }, [currentOrgId, changeSetId, roleLoading]);
 
-  // ── Derived state ──
-  const requiredApprovalRoles = getRequiredApprovals(items);
-  const allApprovalsComplete = areAllApprovalsComplete(requiredApprovalRoles, approvals);
+  // ── Revert links ──
+  useEffect(() => {
+    if (!currentOrgId || !changeSet) return;
+    let cancelled = false;
+    const load = (id?: string) => (id ? getChangeSet(currentOrgId, id) : Promise.resolve(null));
+    Promise.all([load(changeSet.revertOfChangeSetId), load(changeSet.revertedByChangeSetId)])
+      .then(([of, by]) => { if (!cancelled) { setRevertOf(of); setRevertedBy(by); } })
+      .catch(err => logger.warn(LOG_CATEGORIES.DATA, 'Failed to load revert links', { changeSetId, error: String(err) }));
+    return () => { cancelled = true; };
+  }, [currentOrgId, changeSetId, changeSet]);
+
+  // ── Approval preview (drafts have no approval slots yet) ──
   const isDraft = changeSet?.status === 'draft';
+  useEffect(() => {
+    if (!currentOrgId || !changeSetId || !isDraft) return;
+    let cancelled = false;
+    previewChangeSetApprovals(currentOrgId, changeSetId, items)
+      .then(({ requirements }) => { if (!cancelled) setPreviewRequirements(requirements); })
+      .catch(err => logger.warn(LOG_CATEGORIES.DATA, 'Approval preview failed', { changeSetId, error: String(err) }));
+    return () => { cancelled = true; };
+  }, [currentOrgId, changeSetId, isDraft, items]);
+
+  // ── Derived state ──
+  const requirements = approvals.length > 0 ? requirementsFromApprovals(approvals) : previewRequirements;
+  const approvalProgress = summarizeApprovalProgress(requirements, approvals);
+  const allApprovalsComplete = approvalProgress.every(p => p.satisfied);
+  const authorUserIds = changeSet ? changeSetAuthors(changeSet, items) : [];
   const isInReview = changeSet?.status === 'ready_for_review';
   const isApproved = changeSet?.status === 'approved';
   const canPublish = isApproved && allApprovalsComplete;
+  // A rejected revert can be retried
+  const canRevert = changeSet?.status === 'published' && (!revertedBy || revertedBy.status === 'rejected');
 
   // ── Actions ──
   const handleSubmitForReview = useCallback(async () => {
@@ -354,6 +416,7 @@ const ChangeSetDetailPage: React.FC = () => {
     try {
       await submitForReview(currentOrgId, changeSetId);
       setChangeSet(prev => prev ? { ...prev, status: 'ready_for_review' } : null);
+      setApprovals(await getChangeSetApprovals(currentOrgId, changeSetId));
     } catch { setError('Failed to submit for review'); }
     finally { setActionLoading(false); }
   }, [currentOrgId, changeSetId]);
@@ -364,6 +427,7 @@ const ChangeSetDetailPage: React.FC = () => {
     try {
       await returnToDraft(currentOrgId, changeSetId);
       setChangeSet(prev => prev ? { ...prev, status: 'draft' } : null);
+      setApprovals([]);
     } catch { setError('Failed to return to draft'); }
     finally { setActionLoading(false); }
   }, [currentOrgId, changeSetId]);
@@ -374,18 +438,47 @@ const ChangeSetDetailPage: React.FC = () => {
     try {
       await publishChangeSet(currentOrgId, changeSetId);
       setChangeSet(prev => prev ? { ...prev, status: 'published' } : null);
-    } catch { setError('Failed to publish'); }
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Failed to publish');
+    }
     finally { setActionLoading(false); }
   }, [currentOrgId, changeSetId]);
 
-  const handleApprove = useCallback(async (approvalRole: ApprovalRoleRequired) => {
+  const handleRevert = useCallback(async () => {
     if (!currentOrgId || !changeSetId) return;
+    if (!window.confirm('Create a draft change set that restores the versions live before this one was published?')) return;
     setActionLoading(true);
+    setError(null);
     try {
-      await approveChangeSet(currentOrgId, changeSetId, approvalRole);
-      const newApprovals = await getChangeSetApprovals(currentOrgId, changeSetId);
+      const result = await revertChangeSet(currentOrgId, changeSetId);
+      navigate(`/changesets/${result.changeSetId}`);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Failed to revert');
+    }
+    finally { setActionLoading(false); }
+  }, [currentOrgId, changeSetId, navigate]);
+
+  // The scheduler published it: reload status and versions
+  const handleScheduledPublish = useCallback(async () => {
+    if (!currentOrgId || !changeSetId) return;
+    const cs = await getChangeSet(currentOrgId, changeSetId);
+    if (cs) setChangeSet(cs);
+  }, [currentOrgId, changeSetId]);
+
+  const handleApprove = useCallback(async (requirement: ApprovalRequirement) => {
+    if (!currentOrgId || !changeSetId) return;
+    setActionLoading(true);
+    try {
+      await approveChangeSet(currentOrgId, changeSetId, requirement.role, undefined, requirement.key);
+      const [newApprovals, cs] = await Promise.all([
+        getChangeSetApprovals(currentOrgId, changeSetId),
+        getChangeSet(currentOrgId, changeSetId),
+      ]);
       setApprovals(newApprovals);
-    } catch { setError('Failed to approve'); }
+      if (cs) setChangeSet(cs);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Failed to approve');
+    }
     finally { setActionLoading(false); }
   }, [currentOrgId, changeSetId]);
 
@@ -475,6 +568,11 @@ const ChangeSetDetailPage: React.FC = () => {
                   <PlayIcon /> Publish All
                 </ActionButton>
               )}
+              {canRevert && (
+                <ActionButton onClick={handleRevert} disabled={actionLoading}>
+                  <ArrowUturnLeftIcon /> Revert
+                </ActionButton>
+              )}
             </PageHeaderRight>
           </PageHeader>
 
@@ -488,6 +586,36 @@ const ChangeSetDetailPage: React.FC = () => {
             </div>
           )}
 
+          {/* ── Revert links ── */}
+          {(revertOf || revertedBy) && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: space[2], marginBottom: space[4] }}>
+              {revertOf && (
+                <Banner $variant="info">
+                  <ArrowUturnLeftIcon />
+                  <span>
+                    Reverts{' '}
+                    <a href={`/changesets/${revertOf.id}`} onClick={e => { e.preventDefault(); navigate(`/changesets/${revertOf.id}`); }}>
+                      {revertOf.name}
+                    </a>
+                    . Each item restores the version that was live before it published.
+                  </span>
+                </Banner>
+              )}
+              {revertedBy && (
+                <Banner $variant={revertedBy.status === 'published' ? 'warning' : 'info'}>
+                  <ArrowUturnLeftIcon />
+                  <span>
+                    Reverted by{' '}
+                    <a href={`/changesets/${revertedBy.id}`} onClick={e => { e.preventDefault(); navigate(`/changesets/${revertedBy.id}`); }}>
+                      {revertedBy.name}
+                    </a>{' '}
+                    ({CHANGESET_STATUS_CONFIG[revertedBy.status].label})
+                  </span>
+                </Banner>
+              )}
+            </div>
+          )}
+
           {/* ── Meta chips ── */}
           <MetaGrid>
             <MetaChip>
@@ -560,37 +688,70 @@ const ChangeSetDetailPage: React.FC = () => {
                 </SectionTitle>
               </CardHead>
               <CardBody>
-                {requiredApprovalRoles.length === 0 ? (
+                {approvals.length === 0 && requirements.length > 0 && (
+                  <div style={{ fontSize: t.captionSm.size, color: color.textMuted, marginBottom: space[1] }}>
+                    Preview from the current approval policy
+                    {isOrgAdmin && (
+                      <> · <a href="/admin/approval-policy" onClick={e => { e.preventDefault(); navigate('/admin/approval-policy'); }}>Edit policy</a></>
+                    )}
+                  </div>
+                )}
+                {approvalProgress.length === 0 ? (
                   <EmptyText>No approvals required</EmptyText>
                 ) : (
-                  requiredApprovalRoles.map(requiredRole => {
-                    const approval = approvals.find(a => a.roleRequired === requiredRole);
-                    const status = approval?.status || 'pending';
-                    const canApproveThis = isInReview && role === requiredRole && status === 'pending';
+                  approvalProgress.map(progress => {
+                    const { requirement } = progress;
+                    const status = progress.satisfied ? 'approved' : progress.rejected ? 'rejected' : 'pending';
+                    const eligibility = checkApprovalEligibility({
+                      requirement,
+                      approvals,
+                      userId: user?.uid || '',
+                      userRole: orgRole ?? role,
+                      authorUserIds,
+                      segregation: policy?.segregation,
+                    });
+                    const holdsRole = (orgRole ?? role) === requirement.role || (orgRole ?? role) === 'admin';
+                    const open = isInReview && !progress.satisfied && !progress.rejected;
 
                     return (
-                      <ApprovalRow key={requiredRole}>
-                        <ApprovalInfo>
-                          <ApprovalIcon $status={status}>
-                            {approvalIcon(status)}
-                          </ApprovalIcon>
-                          <div>
-                            <div style={{ fontSize: t.bodySm.size, fontWeight: 500, color: color.text, textTransform: 'capitalize' as const }}>
-                              {requiredRole.replace('_', ' ')}
-                            </div>
-                            <div style={{ fontSize: t.captionSm.size, color: color.textMuted }}>
-                              {status === 'approved' && approval?.approverName && `Approved by ${approval.approverName}`}
-                              {status === 'pending' && 'Awaiting approval'}
-                              {status === 'rejected' && 'Rejected'}
+                      <ApprovalBlock key={requirement.key}>
+                        <ApprovalRow>
+                          <ApprovalInfo>
+                            <ApprovalIcon $status={status}>
+                              {approvalIcon(status)}
+                            </ApprovalIcon>
+                            <div>
+                              <div style={{ display: 'flex', alignItems: 'center', gap: space[1.5], fontSize: t.bodySm.size, fontWeight: 500, color: color.text }}>
+                                {APPROVAL_ROLE_LABELS[requirement.role] || requirement.role}
+                                {requirement.quorum > 1 && <Badge $variant="info" $size="sm">{requirement.quorum} approvers</Badge>}
+                                {requirement.noSelfApproval && <Badge $variant="neutral" $size="sm">No self-approval</Badge>}
+                              </div>
+                              <div style={{ fontSize: t.captionSm.size, color: color.textMuted }}>
+                                {status === 'rejected' ? 'Rejected' : `${progress.approvedCount} of ${requirement.quorum} approved`}
+                                {progress.approverNames.length > 0 && ` · ${progress.approverNames.join(', ')}`}
+                              </div>
                             </div>
-                          </div>
-                        </ApprovalInfo>
-                        {canApproveThis && (
-                          <SmallButton $variant="approve" onClick={() => handleApprove(requiredRole)} disabled={actionLoading}>
-                            Approve
-                          </SmallButton>
+                          </ApprovalInfo>
+                          {open && eligibility.allowed && (
+                            <SmallButton $variant="approve" onClick={() => handleApprove(requirement)} disabled={actionLoading}>
+                              Approve
+                            </SmallButton>
+                          )}
+                        </ApprovalRow>
+                        {requirement.reasons.length > 0 && (
+                          <ReasonList aria-label={`Why ${APPROVAL_ROLE_LABELS[requirement.role]} approval is required`}>
+                            {requirement.reasons.map(reason => (
+                              <ReasonItem key={reason.ruleId}>
+                                <strong>{reason.ruleName}</strong>: {reason.explanation}
+                                {reason.itemNames.length > 0 && ` (${reason.itemNames.join(', ')})`}
+                              </ReasonItem>
+                            ))}
+                          </ReasonList>
                         )}
-                      </ApprovalRow>
+                        {open && holdsRole && !eligibility.allowed && eligibility.reason && (
+                          <BlockedNote>{eligibility.reason}</BlockedNote>
+                        )}
+                      </ApprovalBlock>
                     );
                   })
                 )}
@@ -605,6 +766,33 @@ const ChangeSetDetailPage: React.FC = () => {
             </div>
           )}
 
+          {/* ── What each item changes ── */}
+          {currentOrgId && items.length > 0 && (
+            <div style={{ marginBottom: space[4] }}>
+              <ChangeSetChangesPanel orgId={currentOrgId} items={items} />
+            </div>
+          )}
+
+          {/* ── Scheduled publish ── */}
+          {currentOrgId && changeSet && (
+            <div style={{ marginBottom: space[4] }}>
+              <ScheduledPublishPanel
+                orgId={currentOrgId}
+                changeSet={changeSet}
+                items={items}
+                canManage={isOrgAdmin || orgRole === 'product_manager'}
+                onPublished={handleScheduledPublish}
+              />
+            </div>
+          )}
+
+          {/* ── Conflicts with other change sets ── */}
+          {currentOrgId && changeSet && (
+            <div style={{ marginBottom: space[4] }}>
+              <ChangeSetConflictsPanel orgId={currentOrgId} changeSet={changeSet} items={items} />
+            </div>
+          )}
+
           {/* ── QA Gate ── */}
           {changeSetId && changeSet && (
             <div style={{ marginBottom: space[4] }}>
@@ -18,6 +18,7 @@ import {
   DocumentCheckIcon,
   ArchiveBoxIcon,
   ChevronRightIcon,
+  CalendarDaysIcon,
 } from '@heroicons/react/24/outline';
 import MainNavigation from '../components/ui/Navigation';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
@@ -122,6 +123,27 @@ const CreateBtn = styled.button`
   svg { width: 16px; height: 16px; }
 `;
 
+const CalendarBtn = styled.button`
+  all: unset;
+  display: inline-flex;
+  align-items: center;
+  gap: ${space[2]};
+  padding: ${space[2.5]} ${space[4]};
+  background: ${color.bg};
+  color: ${neutral[700]};
+  border: 1px solid ${neutral[200]};
+  border-radius: ${radius.lg};
+  font-family: ${fontFamily.sans};
+  font-size: ${t.label.size};
+  font-weight: ${t.label.weight};
+  cursor: pointer;
+  transition: all ${transition.fast};
+
+  &:hover { background: ${accent[50]}; color: ${accent[700]}; }
+  &:focus-visible { ${focusRingStyle} }
+  svg { width: 16px; height: 16px; }
+`;
+
 const List = styled.div`
   display: flex;
   flex-direction: column;
@@ -303,6 +325,10 @@ const ChangeSetsPage: React.FC = () => {
               </div>
             </PageHeaderLeft>
             <PageHeaderRight>
+              <CalendarBtn onClick={() => navigate('/releases')}>
+                <CalendarDaysIcon />
+                Release Calendar
+              </CalendarBtn>
               <CreateBtn onClick={handleCreate} disabled={creating}>
                 <PlusIcon />
                 {creating ? 'Creating…' : 'New Change Set'}
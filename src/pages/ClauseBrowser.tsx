@@ -10,6 +10,7 @@
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import styled, { keyframes } from 'styled-components';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import logger, { LOG_CATEGORIES } from '../utils/logger';
 import {
   color, neutral, accent, space, radius, shadow, fontFamily,
@@ -364,6 +365,8 @@ const StateRow = styled.span`
 // ════════════════════════════════════════════════════════════════════════
 
 const ClauseBrowser: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { currentOrgId, user } = useRoleContext();
   const currentUserId = user?.uid || '';
   const { data: products } = useProducts();
@@ -378,7 +381,7 @@ const ClauseBrowser: React.FC = () => {
   const [allTags, setAllTags] = useState<string[]>([]);
 
   // ── Detail state ──
-  const [selectedClauseId, setSelectedClauseId] = useState<string | null>(null);
+  const [selectedClauseId, setSelectedClauseId] = useState<string | null>(searchParams.get('clause'));
   const [versions, setVersions] = useState<ClauseVersion[]>([]);
   const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
   const [whereUsed, setWhereUsed] = useState<ClauseWhereUsedEntry[]>([]);
@@ -499,7 +502,10 @@ const ClauseBrowser: React.FC = () => {
           <Panel>
             <PanelHeader>
               <PanelTitle>Clauses ({filtered.length})</PanelTitle>
-              <Btn $variant="primary" onClick={() => setShowCreate(true)}>+ New</Btn>
+              <div style={{ display: 'flex', gap: space[2] }}>
+                <Btn onClick={() => navigate('/clauses/harvest')}>Harvest</Btn>
+                <Btn $variant="primary" onClick={() => setShowCreate(true)}>+ New</Btn>
+              </div>
             </PanelHeader>
             <PanelBody>
               <SearchInput
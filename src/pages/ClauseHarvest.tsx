@@ -0,0 +1,692 @@
+/**
+ * ClauseHarvest – /clauses/harvest
+ *
+ * Librarian review of a clause harvest run:
+ *   Left:  Proposed clusters of near-identical sections, by status
+ *   Right: Cluster detail — canonical wording, variant diffs against it,
+ *          occurrences; merge, split, accept or dismiss
+ *
+ * "Run harvest" scans every indexed form version and replaces the view
+ * with the new run's clusters.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import styled, { keyframes } from 'styled-components';
+import { useNavigate } from 'react-router-dom';
+import logger, { LOG_CATEGORIES } from '../utils/logger';
+import {
+  color, neutral, accent, space, radius, shadow, fontFamily,
+  type as T, border, duration, focusRingStyle, semantic,
+} from '../ui/tokens';
+import { useRoleContext } from '../context/RoleContext';
+import {
+  runClauseHarvest, getClauseHarvestRuns, getHarvestClusters,
+  mergeHarvestClusters, splitHarvestCluster, dismissHarvestCluster, acceptHarvestCluster,
+} from '../services/clauseHarvestService';
+import { diffWords } from '../engine/wordDiff';
+import type { ClauseCluster, ClauseClusterStatus, ClauseHarvestRun } from '../types/clauseHarvest';
+import { CLAUSE_CLUSTER_STATUS_CONFIG } from '../types/clauseHarvest';
+import type { ClauseType } from '../types/clause';
+import { CLAUSE_TYPE_CONFIG, CLAUSE_TYPE_OPTIONS } from '../types/clause';
+import MainNavigation from '../components/ui/Navigation';
+
+// ════════════════════════════════════════════════════════════════════════
+// Styled Components
+// ════════════════════════════════════════════════════════════════════════
+
+const fadeIn = keyframes`from{opacity:0;transform:translateY(8px)}to{opacity:1;transform:none}`;
+
+const Page = styled.main`
+  min-height: 100vh;
+  background: ${neutral[50]};
+  padding: ${space[8]} ${space[8]} ${space[16]};
+`;
+
+const Container = styled.div`max-width: 1400px; margin: 0 auto;`;
+
+const PageHeader = styled.header`
+  margin-bottom: ${space[6]};
+  display: flex;
+  align-items: flex-end;
+  justify-content: space-between;
+  gap: ${space[4]};
+`;
+
+const Title = styled.h1`
+  font-family: ${fontFamily.sans};
+  font-size: ${T.displaySm.size};
+  font-weight: ${T.displaySm.weight};
+  letter-spacing: ${T.displaySm.letterSpacing};
+  color: ${color.text};
+  margin: 0 0 ${space[1]};
+`;
+
+const Subtitle = styled.p`
+  font-size: ${T.bodyMd.size};
+  color: ${color.textSecondary};
+  margin: 0;
+`;
+
+const HeaderActions = styled.div`display: flex; align-items: center; gap: ${space[2]};`;
+
+const RunSummary = styled.div`
+  margin-bottom: ${space[4]};
+  font-size: ${T.captionSm.size};
+  color: ${color.textSecondary};
+  display: flex;
+  gap: ${space[4]};
+  flex-wrap: wrap;
+`;
+
+const ErrorBanner = styled.div`
+  margin-bottom: ${space[4]};
+  padding: ${space[3]} ${space[4]};
+  font-size: ${T.bodySm.size};
+  color: ${semantic.error};
+  background: ${semantic.error}10;
+  border: 1px solid ${semantic.error}30;
+  border-radius: ${radius.md};
+`;
+
+const Layout = styled.div`
+  display: grid;
+  grid-template-columns: 420px 1fr;
+  gap: ${space[5]};
+  animation: ${fadeIn} 0.3s ease;
+  @media (max-width: 1000px) { grid-template-columns: 1fr; }
+`;
+
+const Panel = styled.section`
+  background: ${color.bg};
+  border: ${border.default};
+  border-radius: ${radius.lg};
+  box-shadow: ${shadow.card};
+  overflow: hidden;
+`;
+
+const PanelHeader = styled.div`
+  padding: ${space[4]} ${space[5]};
+  border-bottom: ${border.light};
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: ${space[3]};
+`;
+
+const PanelTitle = styled.h2`
+  font-family: ${fontFamily.sans};
+  font-size: ${T.headingSm.size};
+  font-weight: ${T.headingSm.weight};
+  color: ${color.text};
+  margin: 0;
+`;
+
+const PanelBody = styled.div`
+  padding: ${space[4]} ${space[5]};
+  overflow-y: auto;
+  max-height: calc(100vh - 300px);
+`;
+
+const FilterRow = styled.div`
+  display: flex; gap: ${space[2]}; margin-bottom: ${space[3]}; flex-wrap: wrap;
+`;
+
+const FilterChip = styled.button<{ $active: boolean; $color?: string }>`
+  padding: ${space[0.5]} ${space[2.5]};
+  font-size: ${T.captionSm.size};
+  font-weight: 600;
+  color: ${p => p.$active ? (p.$color || accent[700]) : color.textSecondary};
+  background: ${p => p.$active ? `${p.$color || accent[500]}14` : 'transparent'};
+  border: 1px solid ${p => p.$active ? `${p.$color || accent[500]}40` : neutral[200]};
+  border-radius: ${radius.full};
+  cursor: pointer;
+  transition: all ${duration.fast};
+  &:hover { border-color: ${p => p.$color || accent[400]}; }
+`;
+
+const ClusterRow = styled.button<{ $selected: boolean }>`
+  width: 100%;
+  padding: ${space[3]} ${space[4]};
+  display: flex;
+  flex-direction: column;
+  gap: ${space[1]};
+  text-align: left;
+  background: ${p => p.$selected ? accent[50] : 'transparent'};
+  border: none;
+  border-bottom: ${border.light};
+  cursor: pointer;
+  transition: background ${duration.fast};
+  &:hover { background: ${p => p.$selected ? accent[50] : neutral[50]}; }
+`;
+
+const ClusterName = styled.div`
+  font-size: ${T.bodySm.size};
+  font-weight: 600;
+  color: ${color.text};
+`;
+
+const ClusterMeta = styled.div`
+  font-size: ${T.captionSm.size};
+  color: ${color.textSecondary};
+  display: flex;
+  align-items: center;
+  gap: ${space[2]};
+  flex-wrap: wrap;
+`;
+
+const Badge = styled.span<{ $color: string }>`
+  display: inline-flex;
+  padding: 1px ${space[2]};
+  font-size: 10px;
+  font-weight: 600;
+  color: ${p => p.$color};
+  background: ${p => `${p.$color}14`};
+  border: 1px solid ${p => `${p.$color}30`};
+  border-radius: ${radius.full};
+`;
+
+const EmptyState = styled.div`
+  padding: ${space[10]} ${space[6]};
+  text-align: center;
+  color: ${color.textMuted};
+  font-size: ${T.bodySm.size};
+`;
+
+const SectionLabel = styled.div`
+  font-size: ${T.overline.size};
+  font-weight: ${T.overline.weight};
+  letter-spacing: ${T.overline.letterSpacing};
+  color: ${color.textMuted};
+  text-transform: uppercase;
+  margin: ${space[5]} 0 ${space[2]};
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: ${space[2]};
+`;
+
+const TextBlock = styled.div`
+  padding: ${space[3]} ${space[4]};
+  font-family: ${fontFamily.sans};
+  font-size: ${T.bodySm.size};
+  line-height: 1.6;
+  color: ${color.text};
+  background: ${neutral[50]};
+  border: ${border.light};
+  border-radius: ${radius.md};
+  white-space: pre-wrap;
+  word-break: break-word;
+  max-height: 240px;
+  overflow-y: auto;
+`;
+
+const VariantCard = styled.div`
+  margin-bottom: ${space[3]};
+  border: ${border.light};
+  border-radius: ${radius.md};
+  overflow: hidden;
+`;
+
+const VariantHeader = styled.div`
+  padding: ${space[2]} ${space[3]};
+  font-size: ${T.captionSm.size};
+  color: ${color.textSecondary};
+  background: ${neutral[50]};
+  border-bottom: ${border.light};
+  display: flex;
+  gap: ${space[3]};
+`;
+
+const VariantText = styled.div`
+  padding: ${space[3]};
+  font-size: ${T.bodySm.size};
+  line-height: 1.6;
+  color: ${color.text};
+  white-space: pre-wrap;
+  word-break: break-word;
+  max-height: 200px;
+  overflow-y: auto;
+`;
+
+const Ins = styled.ins`
+  color: ${semantic.success}; background: ${semantic.success}14; text-decoration: underline;
+`;
+const Del = styled.del`
+  color: ${semantic.error}; background: ${semantic.error}10; text-decoration: line-through;
+`;
+
+const OccurrenceRow = styled.label`
+  padding: ${space[2]} ${space[3]};
+  border-bottom: ${border.light};
+  display: flex;
+  align-items: center;
+  gap: ${space[3]};
+  font-size: ${T.bodySm.size};
+  cursor: pointer;
+  &:last-child { border-bottom: none; }
+  &:hover { background: ${neutral[50]}; }
+`;
+
+const OccurrenceForm = styled.span`
+  font-family: ${fontFamily.mono};
+  font-size: ${T.captionSm.size};
+  color: ${color.textSecondary};
+  width: 160px;
+`;
+
+const OccurrenceTitle = styled.span`flex: 1; color: ${color.text};`;
+
+const PageRef = styled.span`
+  font-family: ${fontFamily.mono};
+  font-size: ${T.captionSm.size};
+  color: ${color.textMuted};
+`;
+
+const ActionRow = styled.div`
+  display: flex; gap: ${space[2]}; align-items: center; flex-wrap: wrap;
+`;
+
+const Btn = styled.button<{ $variant?: 'primary' | 'ghost' }>`
+  padding: ${space[1.5]} ${space[4]};
+  font-family: ${fontFamily.sans};
+  font-size: ${T.label.size};
+  font-weight: 600;
+  border-radius: ${radius.sm};
+  cursor: pointer;
+  transition: all ${duration.fast};
+  ${p => p.$variant === 'primary'
+    ? `color: ${color.textInverse}; background: ${accent[600]}; border: none; &:hover { background: ${accent[700]}; }`
+    : `color: ${color.textSecondary}; background: transparent; border: ${border.default}; &:hover { border-color: ${accent[400]}; color: ${accent[600]}; }`
+  }
+  &:disabled { opacity: 0.5; cursor: not-allowed; }
+  &:focus-visible { ${focusRingStyle} }
+`;
+
+const FormInput = styled.input`
+  flex: 1;
+  min-width: 200px;
+  padding: ${space[2]} ${space[3]};
+  font-family: ${fontFamily.sans};
+  font-size: ${T.bodySm.size};
+  color: ${color.text};
+  background: ${color.bg};
+  border: ${border.default};
+  border-radius: ${radius.sm};
+  outline: none;
+  &:focus { border-color: ${accent[500]}; }
+`;
+
+const FormSelect = styled.select`
+  padding: ${space[2]} ${space[3]};
+  font-family: ${fontFamily.sans};
+  font-size: ${T.bodySm.size};
+  color: ${color.text};
+  background: ${color.bg};
+  border: ${border.default};
+  border-radius: ${radius.sm};
+  outline: none;
+  max-width: 320px;
+  &:focus { border-color: ${accent[500]}; }
+`;
+
+const CheckLabel = styled.label`
+  display: inline-flex;
+  align-items: center;
+  gap: ${space[1.5]};
+  font-size: ${T.captionSm.size};
+  color: ${color.textSecondary};
+`;
+
+const Spinner = styled.div`
+  display: flex; align-items: center; justify-content: center;
+  padding: ${space[10]}; color: ${color.textMuted};
+`;
+
+// ════════════════════════════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════════════════════════════
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+const VariantDiff: React.FC<{ canonical: string; text: string }> = ({ canonical, text }) => (
+  <VariantText>
+    {diffWords(canonical, text).map((seg, i) =>
+      seg.op === 'insert' ? <Ins key={i}>{seg.text}</Ins>
+        : seg.op === 'delete' ? <Del key={i}>{seg.text}</Del>
+          : <span key={i}>{seg.text}</span>,
+    )}
+  </VariantText>
+);
+
+// ════════════════════════════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════════════════════════════
+
+const ClauseHarvest: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentOrgId, user } = useRoleContext();
+  const currentUserId = user?.uid || '';
+
+  const [runs, setRuns] = useState<ClauseHarvestRun[]>([]);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [clusters, setClusters] = useState<ClauseCluster[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ClauseClusterStatus>('proposed');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Review form for the selected cluster
+  const [checkedKeys, setCheckedKeys] = useState<Set<string>>(new Set());
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [name, setName] = useState('');
+  const [clauseType, setClauseType] = useState<ClauseType>('other');
+  const [useExisting, setUseExisting] = useState(true);
+
+  const run = runs.find(r => r.id === runId);
+  const selected = clusters.find(c => c.id === selectedId) ?? null;
+  const canonical = selected?.variants.find(v => v.isCanonical);
+
+  const visible = useMemo(
+    () => clusters.filter(c => c.status === statusFilter),
+    [clusters, statusFilter],
+  );
+  const statusCounts = useMemo(() => {
+    const counts: Record<ClauseClusterStatus, number> = { proposed: 0, accepted: 0, dismissed: 0 };
+    clusters.forEach(c => { counts[c.status]++; });
+    return counts;
+  }, [clusters]);
+
+  // ── Data loading ──
+  const loadRuns = useCallback(async () => {
+    if (!currentOrgId) return;
+    setLoading(true);
+    try {
+      const list = await getClauseHarvestRuns(currentOrgId);
+      setRuns(list);
+      setRunId(prev => prev ?? list.find(r => r.status === 'complete')?.id ?? null);
+    } catch (err) {
+      logger.warn(LOG_CATEGORIES.DATA, 'Failed to load clause harvest runs', { error: String(err) });
+    } finally {
+      setLoading(false);
+    }
+  }, [currentOrgId]);
+
+  useEffect(() => { loadRuns(); }, [loadRuns]);
+
+  const loadClusters = useCallback(async () => {
+    if (!currentOrgId || !runId) { setClusters([]); return; }
+    try {
+      setClusters(await getHarvestClusters(currentOrgId, runId));
+    } catch (err) {
+      logger.warn(LOG_CATEGORIES.DATA, 'Failed to load harvest clusters', { runId, error: String(err) });
+    }
+  }, [currentOrgId, runId]);
+
+  useEffect(() => { loadClusters(); }, [loadClusters]);
+
+  useEffect(() => {
+    setCheckedKeys(new Set());
+    setMergeTargetId('');
+    setName(selected?.proposedName ?? '');
+    setClauseType(selected?.proposedType ?? 'other');
+    setUseExisting(true);
+  }, [selected?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // ── Handlers ──
+  const act = async (label: string, fn: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      logger.warn(LOG_CATEGORIES.DATA, `Clause harvest: ${label} failed`, { runId, error: String(err) });
+      setError(`${label} failed: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRun = () => act('Harvest', async () => {
+    if (!currentOrgId || !currentUserId) return;
+    setProgress('Starting…');
+    try {
+      const result = await runClauseHarvest(currentOrgId, currentUserId, undefined,
+        (loaded, total) => setProgress(`Loaded ${loaded} of ${total} form versions`));
+      setRuns(prev => [result, ...prev.filter(r => r.id !== result.id)]);
+      setRunId(result.id);
+      setSelectedId(null);
+      setStatusFilter('proposed');
+    } finally {
+      setProgress(null);
+    }
+  });
+
+  const handleSplit = () => act('Split', async () => {
+    if (!currentOrgId || !runId || !selected) return;
+    const [, split] = await splitHarvestCluster(currentOrgId, runId, selected, [...checkedKeys]);
+    await loadClusters();
+    setSelectedId(split.id);
+  });
+
+  const handleMerge = () => act('Merge', async () => {
+    const target = clusters.find(c => c.id === mergeTargetId);
+    if (!currentOrgId || !runId || !selected || !target) return;
+    const merged = await mergeHarvestClusters(currentOrgId, runId, [selected, target]);
+    await loadClusters();
+    setSelectedId(merged.id);
+  });
+
+  const handleDismiss = () => act('Dismiss', async () => {
+    if (!currentOrgId || !runId || !selected) return;
+    await dismissHarvestCluster(currentOrgId, runId, selected.id, currentUserId);
+    await loadClusters();
+  });
+
+  const handleAccept = () => act('Accept', async () => {
+    if (!currentOrgId || !runId || !selected || !currentUserId) return;
+    await acceptHarvestCluster(currentOrgId, runId, selected, currentUserId, {
+      useExistingClause: useExisting && !!selected.existingClauseId,
+      canonicalName: name,
+      type: clauseType,
+    });
+    await loadClusters();
+  });
+
+  const toggleKey = (key: string) => setCheckedKeys(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  });
+
+  if (loading) return <Page><Spinner>Loading clause harvest...</Spinner></Page>;
+
+  const isProposed = selected?.status === 'proposed';
+
+  return (
+    <Page id="main-content">
+      <MainNavigation />
+      <Container>
+        <PageHeader>
+          <div>
+            <Title>Clause Harvest</Title>
+            <Subtitle>Find near-identical wording across the form library and promote it to shared clauses</Subtitle>
+          </div>
+          <HeaderActions>
+            {runs.length > 1 && (
+              <FormSelect value={runId ?? ''} onChange={e => { setRunId(e.target.value || null); setSelectedId(null); }}>
+                {runs.map(r => (
+                  <option key={r.id} value={r.id} disabled={r.status !== 'complete'}>
+                    {r.startedAt?.toDate?.().toLocaleString() ?? r.id} · {r.status}
+                  </option>
+                ))}
+              </FormSelect>
+            )}
+            <Btn onClick={() => navigate('/clauses')}>Clause Library</Btn>
+            <Btn $variant="primary" onClick={handleRun} disabled={busy || !currentUserId}>
+              {progress ?? 'Run harvest'}
+            </Btn>
+          </HeaderActions>
+        </PageHeader>
+
+        {error && <ErrorBanner>{error}</ErrorBanner>}
+
+        {run && (
+          <RunSummary>
+            <span>{run.formVersionCount} form versions</span>
+            <span>{run.sectionCount} sections</span>
+            <span>{run.clusterCount} clusters</span>
+            <span>{run.clusteredSectionCount} clustered sections</span>
+            <span>threshold {pct(run.options.threshold)}</span>
+          </RunSummary>
+        )}
+
+        <Layout>
+          {/* ── Left panel: clusters ── */}
+          <Panel>
+            <PanelHeader>
+              <PanelTitle>Clusters ({visible.length})</PanelTitle>
+            </PanelHeader>
+            <PanelBody>
+              <FilterRow>
+                {(Object.keys(CLAUSE_CLUSTER_STATUS_CONFIG) as ClauseClusterStatus[]).map(s => (
+                  <FilterChip
+                    key={s}
+                    $active={statusFilter === s}
+                    $color={CLAUSE_CLUSTER_STATUS_CONFIG[s].color}
+                    onClick={() => setStatusFilter(s)}
+                  >
+                    {CLAUSE_CLUSTER_STATUS_CONFIG[s].label} ({statusCounts[s]})
+                  </FilterChip>
+                ))}
+              </FilterRow>
+
+              {!run ? (
+                <EmptyState>No harvest has been run yet. Run one to find duplicate clauses.</EmptyState>
+              ) : visible.length === 0 ? (
+                <EmptyState>No {CLAUSE_CLUSTER_STATUS_CONFIG[statusFilter].label.toLowerCase()} clusters</EmptyState>
+              ) : visible.map(c => {
+                const typeCfg = CLAUSE_TYPE_CONFIG[c.proposedType];
+                return (
+                  <ClusterRow key={c.id} $selected={c.id === selectedId} onClick={() => setSelectedId(c.id)}>
+                    <ClusterName>{c.proposedName}</ClusterName>
+                    <ClusterMeta>
+                      <Badge $color={typeCfg.color}>{typeCfg.label}</Badge>
+                      <span>{c.occurrences.length} sections · {c.formCount} forms</span>
+                      <span>{c.variants.length} {c.variants.length === 1 ? 'wording' : 'wordings'}</span>
+                      {c.variants.length > 1 && <span>min {pct(c.minSimilarity)}</span>}
+                      {c.existingClauseId && <Badge $color={accent[600]}>In library</Badge>}
+                    </ClusterMeta>
+                  </ClusterRow>
+                );
+              })}
+            </PanelBody>
+          </Panel>
+
+          {/* ── Right panel: cluster detail ── */}
+          <Panel>
+            {!selected ? (
+              <EmptyState>Select a cluster to review its wording</EmptyState>
+            ) : (
+              <>
+                <PanelHeader>
+                  <PanelTitle>{selected.proposedName}</PanelTitle>
+                  <Badge $color={CLAUSE_CLUSTER_STATUS_CONFIG[selected.status].color}>
+                    {CLAUSE_CLUSTER_STATUS_CONFIG[selected.status].label}
+                  </Badge>
+                </PanelHeader>
+                <PanelBody>
+                  {isProposed && (
+                    <ActionRow>
+                      <FormInput value={name} onChange={e => setName(e.target.value)} aria-label="Clause name" />
+                      <FormSelect value={clauseType} onChange={e => setClauseType(e.target.value as ClauseType)}>
+                        {CLAUSE_TYPE_OPTIONS.map(opt => (
+                          <option key={opt.value} value={opt.value}>{opt.label}</option>
+                        ))}
+                      </FormSelect>
+                      <Btn $variant="primary" onClick={handleAccept} disabled={busy}>Accept</Btn>
+                      <Btn onClick={handleDismiss} disabled={busy}>Dismiss</Btn>
+                    </ActionRow>
+                  )}
+                  {isProposed && selected.existingClauseId && (
+                    <ActionRow style={{ marginTop: space[2] }}>
+                      <CheckLabel>
+                        <input type="checkbox" checked={useExisting} onChange={e => setUseExisting(e.target.checked)} />
+                        Link to existing clause “{selected.existingClauseName}”
+                        ({pct(selected.existingSimilarity ?? 0)} similar) instead of creating a new one
+                      </CheckLabel>
+                    </ActionRow>
+                  )}
+
+                  <SectionLabel>Canonical wording</SectionLabel>
+                  <TextBlock>{selected.canonicalText}</TextBlock>
+
+                  {selected.variants.length > 1 && (
+                    <>
+                      <SectionLabel>Variants ({selected.variants.length - 1})</SectionLabel>
+                      {selected.variants.filter(v => !v.isCanonical).map(v => (
+                        <VariantCard key={v.textHash}>
+                          <VariantHeader>
+                            <span>{pct(v.similarity)} similar</span>
+                            <span>{v.occurrenceKeys.length} {v.occurrenceKeys.length === 1 ? 'occurrence' : 'occurrences'}</span>
+                          </VariantHeader>
+                          <VariantDiff canonical={canonical?.text ?? ''} text={v.text} />
+                        </VariantCard>
+                      ))}
+                    </>
+                  )}
+
+                  <SectionLabel>
+                    <span>Occurrences ({selected.occurrences.length})</span>
+                    {isProposed && (
+                      <Btn
+                        onClick={handleSplit}
+                        disabled={busy || checkedKeys.size === 0 || checkedKeys.size === selected.occurrences.length}
+                      >
+                        Split selected ({checkedKeys.size})
+                      </Btn>
+                    )}
+                  </SectionLabel>
+                  {selected.occurrences.map(o => {
+                    const variant = selected.variants.find(v => v.occurrenceKeys.includes(o.key));
+                    return (
+                      <OccurrenceRow key={o.key}>
+                        {isProposed && (
+                          <input type="checkbox" checked={checkedKeys.has(o.key)} onChange={() => toggleKey(o.key)} />
+                        )}
+                        <OccurrenceForm>{o.formNumber} {o.editionDate}</OccurrenceForm>
+                        <OccurrenceTitle>{o.sectionTitle}</OccurrenceTitle>
+                        {variant && !variant.isCanonical && <Badge $color={semantic.warning}>variant</Badge>}
+                        {o.pageRefs.length > 0 && <PageRef>p. {o.pageRefs.join(', ')}</PageRef>}
+                      </OccurrenceRow>
+                    );
+                  })}
+
+                  {isProposed && (
+                    <>
+                      <SectionLabel>Merge</SectionLabel>
+                      <ActionRow>
+                        <FormSelect value={mergeTargetId} onChange={e => setMergeTargetId(e.target.value)}>
+                          <option value="">Merge with another cluster…</option>
+                          {clusters.filter(c => c.status === 'proposed' && c.id !== selected.id).map(c => (
+                            <option key={c.id} value={c.id}>
+                              {c.proposedName} ({c.occurrences.length} sections)
+                            </option>
+                          ))}
+                        </FormSelect>
+                        <Btn onClick={handleMerge} disabled={busy || !mergeTargetId}>Merge</Btn>
+                      </ActionRow>
+                    </>
+                  )}
+                </PanelBody>
+              </>
+            )}
+          </Panel>
+        </Layout>
+      </Container>
+    </Page>
+  );
+};
+
+export default ClauseHarvest;
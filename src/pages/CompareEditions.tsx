@@ -5,9 +5,14 @@
  *
  * Layout:
  *   Top: edition pickers (left = older, right = newer) + summary stats
- *   Center: section-by-section diff with status highlights
+ *   Center: section-by-section diff with status highlights (incl. moved / renumbered)
+ *   Edition details: structural diff of the edition metadata (edition date,
+ *   jurisdictions, PDF file)
  *   Bottom: impact candidates panel
- *   Expandable: chunk-level drill-down per section
+ *   Expandable: word-level redline per section, with each change classified
+ *   as broadening, restricting or editorial
+ *   Export: marked-up PDF / DOCX download, or a redline exhibit attached to
+ *   the active change set's filing package
  */
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
@@ -19,14 +24,22 @@ import {
 } from '../ui/tokens';
 import { useRoleContext } from '../context/RoleContext';
 import { getFormVersions, getForm } from '../services/formService';
-import { compareFormEditions } from '../services/redlineService';
+import { useChangeSet } from '../context/ChangeSetContext';
+import { compareFormEditions, saveRedlineExhibit } from '../services/redlineService';
+import { exportRedline, redlineExportFileName, chunkSegments } from '../engine/redlineExport';
+import { diffStructures, versionContent } from '../engine/structuralDiff';
+import StructuralChangeList from '../components/versioning/StructuralChangeList';
 import type { OrgForm, OrgFormVersion } from '../types/form';
 import type {
   RedlineComparisonResult, SectionDiff, ChunkDiff, ImpactCandidate,
+  RedlineExportFormat, RedlineExportLayout,
 } from '../types/redline';
 import {
   SECTION_DIFF_CONFIG,
   IMPACT_TARGET_CONFIG,
+  CHANGE_CLASSIFICATION_CONFIG,
+  REDLINE_EXPORT_FORMAT_CONFIG,
+  REDLINE_EXPORT_LAYOUT_LABELS,
 } from '../types/redline';
 import { SECTION_TYPE_CONFIG } from '../types/ingestion';
 import MainNavigation from '../components/ui/Navigation';
@@ -112,6 +125,21 @@ const StatPill = styled.div<{ $color: string }>`
   border: 1px solid ${p => `${p.$color}30`};
 `;
 
+/* Export bar */
+const ExportBar = styled.div`
+  display: flex; align-items: center; gap: ${space[3]}; flex-wrap: wrap; margin-bottom: ${space[5]};
+`;
+const ExportSelect = styled(PickerSelect)`width: auto;`;
+const BtnSecondary = styled.button<{ disabled?: boolean }>`
+  padding: ${space[2]} ${space[4]}; font-family: ${fontFamily.sans};
+  font-size: ${T.label.size}; font-weight: 600; color: ${p => p.disabled ? neutral[400] : accent[700]};
+  background: ${color.bg}; border: ${border.default}; border-radius: ${radius.sm};
+  cursor: ${p => p.disabled ? 'not-allowed' : 'pointer'};
+  &:hover:not(:disabled) { background: ${accent[50]}; }
+  &:focus-visible { ${focusRingStyle} }
+`;
+const ExportStatus = styled.span`font-size: ${T.captionSm.size}; color: ${color.textMuted};`;
+
 /* Section rows */
 const SectionRow = styled.div<{ $bg: string }>`
   display: grid; grid-template-columns: 1fr 1fr;
@@ -134,10 +162,30 @@ const SectionName = styled.span`font-size: ${T.bodySm.size}; font-weight: 600; c
 const PageRefSpan = styled.span`
   font-family: ${fontFamily.mono}; font-size: ${T.captionSm.size}; color: ${color.textMuted};
 `;
-const ChunkPreview = styled.pre`
-  font-family: ${fontFamily.mono}; font-size: 11px; color: ${color.textSecondary};
-  white-space: pre-wrap; word-break: break-word; max-height: 180px; overflow-y: auto; margin: 0;
+
+/* Redline */
+const RedlineRow = styled.div`
+  padding: ${space[3]} ${space[4]}; border-bottom: ${border.light}; background: ${neutral[25]};
+  &:last-child { border-bottom: none; }
+`;
+const RedlineMeta = styled.div`
+  display: flex; align-items: center; gap: ${space[2]}; flex-wrap: wrap; margin-bottom: ${space[2]};
+  font-size: ${T.captionSm.size}; color: ${color.textMuted};
+`;
+const RedlineText = styled.div`
+  font-family: ${fontFamily.sans}; font-size: ${T.bodySm.size}; line-height: 1.6;
+  color: ${color.text}; white-space: pre-wrap; word-break: break-word; max-height: 320px; overflow-y: auto;
+`;
+const Ins = styled.ins`
+  color: ${semantic.success}; background: ${semantic.success}14; text-decoration: underline;
+`;
+const Del = styled.del`
+  color: ${semantic.error}; background: ${semantic.error}10; text-decoration: line-through;
 `;
+const ChangeItem = styled.li`
+  font-size: ${T.captionSm.size}; color: ${color.textSecondary}; margin-bottom: ${space[1]};
+`;
+
 const ExpandBtn = styled.button`
   font-size: ${T.captionSm.size}; color: ${accent[600]}; background: none;
   border: none; cursor: pointer; margin-top: ${space[1]};
@@ -171,6 +219,44 @@ const SEVERITY_COLORS: Record<string, string> = {
   low: '#3B82F6',
 };
 
+const ChunkRedline: React.FC<{ diff: ChunkDiff }> = ({ diff: cd }) => {
+  const cfg = SECTION_DIFF_CONFIG[cd.status];
+  const from = cd.leftChunk?.sectionPath;
+  const to = cd.rightChunk?.sectionPath;
+  return (
+    <RedlineRow>
+      <RedlineMeta>
+        <DiffBadge $color={cfg.color}>{cfg.label}</DiffBadge>
+        {cd.status === 'moved' && from !== to && <span>{from || 'General'} → {to || 'General'}</span>}
+        {cd.similarity !== undefined && <span>{Math.round(cd.similarity * 100)}% similar</span>}
+        {cd.leftChunk && <PageRefSpan>p.{cd.leftChunk.pageStart}</PageRefSpan>}
+        {cd.rightChunk && <PageRefSpan>→ p.{cd.rightChunk.pageStart}</PageRefSpan>}
+      </RedlineMeta>
+      <RedlineText>
+        {chunkSegments(cd).map((seg, i) =>
+          seg.op === 'insert' ? <Ins key={i}>{seg.text}</Ins>
+            : seg.op === 'delete' ? <Del key={i}>{seg.text}</Del>
+              : <span key={i}>{seg.text}</span>,
+        )}
+      </RedlineText>
+      {cd.changes && cd.changes.some(c => c.classification !== 'editorial') && (
+        <ul style={{ margin: `${space[2]} 0 0`, paddingLeft: space[4] }}>
+          {cd.changes.filter(c => c.classification !== 'editorial').map((c, i) => {
+            const ccfg = CHANGE_CLASSIFICATION_CONFIG[c.classification];
+            return (
+              <ChangeItem key={i}>
+                <DiffBadge $color={ccfg.color}>{ccfg.label}</DiffBadge>{' '}
+                {c.deleted && <Del>{c.deleted}</Del>}{c.deleted && c.inserted && ' → '}
+                {c.inserted && <Ins>{c.inserted}</Ins>} <em>({c.reason})</em>
+              </ChangeItem>
+            );
+          })}
+        </ul>
+      )}
+    </RedlineRow>
+  );
+};
+
 // ════════════════════════════════════════════════════════════════════════
 // Component
 // ════════════════════════════════════════════════════════════════════════
@@ -178,7 +264,8 @@ const SEVERITY_COLORS: Record<string, string> = {
 const CompareEditions: React.FC = () => {
   const { formId } = useParams<{ formId: string }>();
   const navigate = useNavigate();
-  const { currentOrgId } = useRoleContext();
+  const { currentOrgId, isOrgProductManager } = useRoleContext();
+  const { activeChangeSet } = useChangeSet();
 
   const [form, setForm] = useState<OrgForm | null>(null);
   const [versions, setVersions] = useState<OrgFormVersion[]>([]);
@@ -188,6 +275,9 @@ const CompareEditions: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
+  const [exportLayout, setExportLayout] = useState<RedlineExportLayout>('inline');
+  const [exporting, setExporting] = useState(false);
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
 
   // Load form + versions
   useEffect(() => {
@@ -222,6 +312,52 @@ const CompareEditions: React.FC = () => {
     setLoading(false);
   }, [currentOrgId, formId, leftId, rightId]);
 
+  const handleDownload = useCallback(async (format: RedlineExportFormat) => {
+    if (!result) return;
+    setExporting(true);
+    setExportStatus(null);
+    try {
+      const bytes = await exportRedline(result, format, { layout: exportLayout });
+      const fsMod = await import('file-saver');
+      const saveAs = fsMod.saveAs || fsMod.default;
+      saveAs(
+        new Blob([new Uint8Array(bytes)], { type: REDLINE_EXPORT_FORMAT_CONFIG[format].mimeType }),
+        redlineExportFileName(result, format),
+      );
+    } catch (e) {
+      console.error('Redline export failed:', e);
+      setExportStatus('Export failed');
+    }
+    setExporting(false);
+  }, [result, exportLayout]);
+
+  const handleAttach = useCallback(async () => {
+    if (!result || !currentOrgId || !activeChangeSet) return;
+    setExporting(true);
+    setExportStatus(null);
+    try {
+      const exhibit = await saveRedlineExhibit(currentOrgId, result, 'pdf', exportLayout, activeChangeSet.id);
+      setExportStatus(`${exhibit.fileName} attached to ${activeChangeSet.name}`);
+    } catch (e) {
+      console.error('Attaching redline failed:', e);
+      setExportStatus('Attaching the redline failed');
+    }
+    setExporting(false);
+  }, [result, currentOrgId, activeChangeSet, exportLayout]);
+
+  // Edition metadata changes between the compared editions
+  const editionDiff = useMemo(() => {
+    if (!result) return null;
+    const left = versions.find(v => v.id === result.leftVersionId);
+    const right = versions.find(v => v.id === result.rightVersionId);
+    if (!left || !right) return null;
+    return diffStructures(
+      'form',
+      versionContent(left as unknown as Record<string, unknown>),
+      versionContent(right as unknown as Record<string, unknown>),
+    );
+  }, [result, versions]);
+
   const toggleSection = (key: string) => {
     setExpandedSections(prev => {
       const next = new Set(prev);
@@ -230,13 +366,15 @@ const CompareEditions: React.FC = () => {
     });
   };
 
-  // Chunk drill-down per section
-  const getChunkDiffsForSection = (sectionKey: string): ChunkDiff[] => {
+  // Chunk drill-down per section: chunks from either side of the section
+  const getChunkDiffsForSection = (diff: SectionDiff): ChunkDiff[] => {
     if (!result) return [];
-    return result.chunkDiffs.filter(cd => {
-      const chunkSection = cd.leftChunk?.sectionPath || cd.rightChunk?.sectionPath || '';
-      return chunkSection === sectionKey;
-    });
+    const leftPath = diff.leftSection?.path;
+    const rightPath = diff.rightSection?.path;
+    return result.chunkDiffs.filter(cd =>
+      (cd.leftChunk && cd.leftChunk.sectionPath === leftPath) ||
+      (cd.rightChunk && cd.rightChunk.sectionPath === rightPath),
+    );
   };
 
   if (initialLoading) return <Page><Spinner>Loading...</Spinner></Page>;
@@ -309,12 +447,71 @@ const CompareEditions: React.FC = () => {
             <StatPill $color={SECTION_DIFF_CONFIG.removed.color}>
               {st.removedSections} removed
             </StatPill>
+            <StatPill $color={SECTION_DIFF_CONFIG.moved.color}>
+              {st.movedSections} moved
+            </StatPill>
+            <StatPill $color={CHANGE_CLASSIFICATION_CONFIG.broadening.color}>
+              {st.broadeningChanges} broadening
+            </StatPill>
+            <StatPill $color={CHANGE_CLASSIFICATION_CONFIG.restricting.color}>
+              {st.restrictingChanges} restricting
+            </StatPill>
+            <StatPill $color={CHANGE_CLASSIFICATION_CONFIG.editorial.color}>
+              {st.editorialChanges} editorial
+            </StatPill>
             <StatPill $color="#6366F1">
               {st.impactCandidateCount} impact candidates
             </StatPill>
           </StatsBar>
         )}
 
+        {/* ── Export ── */}
+        {result && (
+          <ExportBar>
+            <ExportSelect
+              aria-label="Redline layout"
+              value={exportLayout}
+              onChange={e => setExportLayout(e.target.value as RedlineExportLayout)}
+            >
+              {(Object.keys(REDLINE_EXPORT_LAYOUT_LABELS) as RedlineExportLayout[]).map(l => (
+                <option key={l} value={l}>{REDLINE_EXPORT_LAYOUT_LABELS[l]}</option>
+              ))}
+            </ExportSelect>
+            {(Object.keys(REDLINE_EXPORT_FORMAT_CONFIG) as RedlineExportFormat[]).map(f => (
+              <BtnSecondary key={f} disabled={exporting} onClick={() => handleDownload(f)}>
+                Download {REDLINE_EXPORT_FORMAT_CONFIG[f].label}
+              </BtnSecondary>
+            ))}
+            {activeChangeSet && (
+              <BtnPrimary
+                disabled={exporting || !isOrgProductManager}
+                title={isOrgProductManager ? undefined : 'Only product managers can attach redline exhibits'}
+                onClick={handleAttach}
+              >
+                Attach PDF to {activeChangeSet.name}
+              </BtnPrimary>
+            )}
+            {exporting && <ExportStatus>Generating…</ExportStatus>}
+            {exportStatus && <ExportStatus>{exportStatus}</ExportStatus>}
+          </ExportBar>
+        )}
+
+        {/* ── Edition details ── */}
+        {result && editionDiff && !editionDiff.isIdentical && (
+          <Panel>
+            <PanelHeader>
+              <PanelTitle>Edition Details</PanelTitle>
+            </PanelHeader>
+            <div style={{ padding: `${space[2]} ${space[5]} ${space[4]}` }}>
+              <StructuralChangeList
+                diff={editionDiff}
+                leftLabel={`${result.leftEditionDate} (older)`}
+                rightLabel={`${result.rightEditionDate} (newer)`}
+              />
+            </div>
+          </Panel>
+        )}
+
         {/* ── Section diffs ── */}
         {result && (
           <Panel>
@@ -337,7 +534,7 @@ const CompareEditions: React.FC = () => {
                 const cfg = SECTION_DIFF_CONFIG[diff.status];
                 const typeCfg = SECTION_TYPE_CONFIG[diff.sectionType] || SECTION_TYPE_CONFIG.general;
                 const expanded = expandedSections.has(diff.matchKey);
-                const chunkDiffs = expanded ? getChunkDiffsForSection(diff.matchKey) : [];
+                const chunkDiffs = expanded ? getChunkDiffsForSection(diff) : [];
 
                 return (
                   <React.Fragment key={diff.matchKey}>
@@ -349,7 +546,7 @@ const CompareEditions: React.FC = () => {
                             <SectionHeading>
                               <DiffBadge $color={cfg.color}>{cfg.label}</DiffBadge>
                               <DiffBadge $color={typeCfg.color}>{typeCfg.label}</DiffBadge>
-                              <SectionName>{diff.title}</SectionName>
+                              <SectionName>{diff.leftSection.title}</SectionName>
                             </SectionHeading>
                             {diff.leftPages && (
                               <PageRefSpan>
@@ -357,7 +554,7 @@ const CompareEditions: React.FC = () => {
                               </PageRefSpan>
                             )}
                             <ExpandBtn onClick={() => toggleSection(diff.matchKey)}>
-                              {expanded ? 'Hide text' : 'Show text'}
+                              {expanded ? 'Hide redline' : 'Show redline'}
                             </ExpandBtn>
                           </>
                         ) : (
@@ -372,7 +569,10 @@ const CompareEditions: React.FC = () => {
                             <SectionHeading>
                               <DiffBadge $color={cfg.color}>{cfg.label}</DiffBadge>
                               <DiffBadge $color={typeCfg.color}>{typeCfg.label}</DiffBadge>
-                              <SectionName>{diff.title}</SectionName>
+                              <SectionName>{diff.rightSection.title}</SectionName>
+                              {diff.similarity !== undefined && diff.similarity < 1 && (
+                                <PageRefSpan>{Math.round(diff.similarity * 100)}% similar</PageRefSpan>
+                              )}
                             </SectionHeading>
                             {diff.rightPages && (
                               <PageRefSpan>
@@ -380,7 +580,7 @@ const CompareEditions: React.FC = () => {
                               </PageRefSpan>
                             )}
                             <ExpandBtn onClick={() => toggleSection(diff.matchKey)}>
-                              {expanded ? 'Hide text' : 'Show text'}
+                              {expanded ? 'Hide redline' : 'Show redline'}
                             </ExpandBtn>
                           </>
                         ) : (
@@ -389,33 +589,10 @@ const CompareEditions: React.FC = () => {
                       </SectionSide>
                     </SectionRow>
 
-                    {/* Chunk drill-down */}
-                    {expanded && chunkDiffs.length > 0 && (
-                      <SectionRow $bg={neutral[25]}>
-                        <SectionSide>
-                          {chunkDiffs.map((cd, i) => (
-                            <div key={i} style={{ marginBottom: space[3] }}>
-                              <DiffBadge $color={SECTION_DIFF_CONFIG[cd.status]?.color || neutral[400]}>
-                                {cd.status}
-                              </DiffBadge>
-                              {cd.leftText && <ChunkPreview>{cd.leftText}</ChunkPreview>}
-                              {!cd.leftText && <ChunkPreview>— empty —</ChunkPreview>}
-                            </div>
-                          ))}
-                        </SectionSide>
-                        <SectionSide>
-                          {chunkDiffs.map((cd, i) => (
-                            <div key={i} style={{ marginBottom: space[3] }}>
-                              <DiffBadge $color={SECTION_DIFF_CONFIG[cd.status]?.color || neutral[400]}>
-                                {cd.status}
-                              </DiffBadge>
-                              {cd.rightText && <ChunkPreview>{cd.rightText}</ChunkPreview>}
-                              {!cd.rightText && <ChunkPreview>— empty —</ChunkPreview>}
-                            </div>
-                          ))}
-                        </SectionSide>
-                      </SectionRow>
-                    )}
+                    {/* Word-level redline */}
+                    {expanded && chunkDiffs.map(cd => (
+                      <ChunkRedline key={`${cd.matchKey}::${cd.rightChunk?.index ?? ''}`} diff={cd} />
+                    ))}
                   </React.Fragment>
                 );
               })}
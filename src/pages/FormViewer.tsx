@@ -0,0 +1,387 @@
+/**
+ * FormViewer – /forms/:formId/versions/:versionId/view?page=&anchor=&q=
+ *
+ * Renders one page of a form edition's PDF with search terms highlighted
+ * on the page, beside the ingested passages of that page. Opened from
+ * search hits: `page` selects the page, `anchor` (a ContentAnchor hash)
+ * marks the cited passage and `q` supplies the terms to highlight.
+ */
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import styled from 'styled-components';
+import {
+  color, neutral, accent, space, radius, shadow, fontFamily, type as T,
+  border, semantic,
+} from '../ui/tokens';
+import { useRoleContext } from '../context/RoleContext';
+import { getIngestionReport, loadPdfJs } from '../services/ingestionService';
+import { getForm, getFormVersion } from '../services/formService';
+import { getDownloadURL, ref } from 'firebase/storage';
+import { storage } from '../firebase';
+import { highlightRanges } from '../engine/semanticSearch';
+import type { FormIngestionChunk } from '../types/ingestion';
+import type { TextRange } from '../types/semanticSearch';
+import type { OrgForm, OrgFormVersion } from '../types/form';
+import MainNavigation from '../components/ui/Navigation';
+
+// ════════════════════════════════════════════════════════════════════════
+// Styled Components
+// ════════════════════════════════════════════════════════════════════════
+
+const Page = styled.main`
+  min-height: 100vh;
+  background: ${neutral[50]};
+  padding: ${space[8]} ${space[8]} ${space[16]};
+`;
+
+const Container = styled.div`max-width: 1400px; margin: 0 auto;`;
+
+const BackLink = styled.button`
+  display: inline-flex;
+  align-items: center;
+  gap: ${space[1]};
+  font-size: ${T.caption.size};
+  color: ${color.textSecondary};
+  background: none;
+  border: none;
+  cursor: pointer;
+  margin-bottom: ${space[4]};
+  &:hover { color: ${accent[600]}; }
+`;
+
+const PageHeader = styled.header`
+  margin-bottom: ${space[5]};
+  display: flex;
+  align-items: flex-end;
+  justify-content: space-between;
+  gap: ${space[4]};
+  flex-wrap: wrap;
+`;
+
+const Title = styled.h1`
+  font-family: ${fontFamily.sans};
+  font-size: ${T.displaySm.size};
+  font-weight: ${T.displaySm.weight};
+  color: ${color.text};
+  margin: 0 0 ${space[1]};
+`;
+
+const Subtitle = styled.p`
+  font-size: ${T.bodyMd.size};
+  color: ${color.textSecondary};
+  margin: 0;
+`;
+
+const Toolbar = styled.div`display: flex; align-items: center; gap: ${space[2]};`;
+
+const PageLabel = styled.span`
+  font-family: ${fontFamily.mono};
+  font-size: ${T.captionSm.size};
+  color: ${color.textSecondary};
+  min-width: 90px;
+  text-align: center;
+`;
+
+const Btn = styled.button`
+  padding: ${space[1.5]} ${space[3]};
+  font-size: ${T.label.size};
+  font-weight: 600;
+  color: ${color.textSecondary};
+  background: ${color.bg};
+  border: ${border.default};
+  border-radius: ${radius.sm};
+  cursor: pointer;
+  &:hover:not(:disabled) { border-color: ${accent[400]}; color: ${accent[600]}; }
+  &:disabled { opacity: 0.5; cursor: not-allowed; }
+`;
+
+const QueryInput = styled.input`
+  width: 260px;
+  padding: ${space[1.5]} ${space[3]};
+  font-size: ${T.bodySm.size};
+  color: ${color.text};
+  background: ${color.bg};
+  border: ${border.default};
+  border-radius: ${radius.sm};
+  outline: none;
+  &:focus { border-color: ${accent[500]}; }
+`;
+
+const Layout = styled.div`
+  display: grid;
+  grid-template-columns: minmax(0, 1fr) 400px;
+  gap: ${space[5]};
+  @media (max-width: 1100px) { grid-template-columns: 1fr; }
+`;
+
+const Panel = styled.section`
+  background: ${color.bg};
+  border: ${border.default};
+  border-radius: ${radius.lg};
+  box-shadow: ${shadow.card};
+  overflow: hidden;
+`;
+
+const PanelBody = styled.div`
+  padding: ${space[4]};
+  overflow: auto;
+  max-height: calc(100vh - 240px);
+`;
+
+const PageStage = styled.div`
+  position: relative;
+  display: inline-block;
+  box-shadow: ${shadow.card};
+  canvas { display: block; }
+`;
+
+const HitBox = styled.div<{ $anchor?: boolean }>`
+  position: absolute;
+  pointer-events: none;
+  background: ${p => p.$anchor ? `${accent[500]}22` : `${semantic.warning}66`};
+  border-radius: 2px;
+  ${p => p.$anchor && `border-left: 3px solid ${accent[600]};`}
+`;
+
+const SectionLabel = styled.div`
+  font-size: ${T.overline.size};
+  font-weight: ${T.overline.weight};
+  letter-spacing: ${T.overline.letterSpacing};
+  color: ${color.textMuted};
+  text-transform: uppercase;
+  margin-bottom: ${space[3]};
+`;
+
+const Passage = styled.div<{ $target: boolean }>`
+  padding: ${space[3]};
+  margin-bottom: ${space[3]};
+  border: 1px solid ${p => p.$target ? accent[400] : neutral[200]};
+  background: ${p => p.$target ? accent[50] : 'transparent'};
+  border-radius: ${radius.md};
+`;
+
+const PassageMeta = styled.div`
+  font-size: ${T.captionSm.size};
+  color: ${color.textMuted};
+  margin-bottom: ${space[1.5]};
+`;
+
+const PassageText = styled.div`
+  font-size: ${T.bodySm.size};
+  line-height: 1.6;
+  color: ${color.text};
+  white-space: pre-wrap;
+  word-break: break-word;
+`;
+
+const Mark = styled.mark`
+  background: ${semantic.warning}55;
+  color: inherit;
+  border-radius: 2px;
+`;
+
+const Notice = styled.div`
+  padding: ${space[10]} ${space[6]};
+  text-align: center;
+  color: ${color.textMuted};
+  font-size: ${T.bodySm.size};
+`;
+
+// ════════════════════════════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════════════════════════════
+
+const RENDER_SCALE = 1.4;
+
+interface Box { left: number; top: number; width: number; height: number; anchor: boolean }
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/** Text with the given ranges wrapped in <mark> */
+const Highlighted: React.FC<{ text: string; ranges: TextRange[] }> = ({ text, ranges }) => {
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  ranges.forEach((r, i) => {
+    if (r.start > pos) parts.push(text.slice(pos, r.start));
+    parts.push(<Mark key={i}>{text.slice(r.start, r.end)}</Mark>);
+    pos = r.end;
+  });
+  parts.push(text.slice(pos));
+  return <>{parts}</>;
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════════════════════════════
+
+const FormViewer: React.FC = () => {
+  const { formId, versionId } = useParams<{ formId: string; versionId: string }>();
+  const [params, setParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { currentOrgId } = useRoleContext();
+
+  const pageNumber = Math.max(1, Number(params.get('page')) || 1);
+  const anchorHash = params.get('anchor');
+  const queryText = params.get('q') ?? '';
+
+  const [form, setForm] = useState<OrgForm | null>(null);
+  const [version, setVersion] = useState<OrgFormVersion | null>(null);
+  const [chunks, setChunks] = useState<FormIngestionChunk[]>([]);
+  const [pdf, setPdf] = useState<any>(null);
+  const [pdfError, setPdfError] = useState<string | null>(null);
+  const [boxes, setBoxes] = useState<Box[]>([]);
+  const [draftQuery, setDraftQuery] = useState(queryText);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const targetRef = useRef<HTMLDivElement>(null);
+
+  // ── Load form, version, passages and the PDF ──
+  useEffect(() => {
+    if (!currentOrgId || !formId || !versionId) return;
+    let cancelled = false;
+    (async () => {
+      const [f, v, report] = await Promise.all([
+        getForm(currentOrgId, formId),
+        getFormVersion(currentOrgId, formId, versionId),
+        getIngestionReport(currentOrgId, formId, versionId),
+      ]);
+      if (cancelled) return;
+      setForm(f);
+      setVersion(v);
+      setChunks(report?.chunks ?? []);
+
+      if (!v?.storagePath) { setPdfError('No PDF is stored for this edition'); return; }
+      try {
+        const url = await getDownloadURL(ref(storage, v.storagePath));
+        const pdfjs = await loadPdfJs();
+        const doc = await pdfjs.getDocument({ url }).promise;
+        if (!cancelled) setPdf(doc);
+      } catch (err) {
+        if (!cancelled) setPdfError(`Could not open the PDF: ${(err as Error).message}`);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [currentOrgId, formId, versionId]);
+
+  const pageChunks = useMemo(
+    () => chunks.filter(c => c.pageStart <= pageNumber && c.pageEnd >= pageNumber),
+    [chunks, pageNumber],
+  );
+  const anchor = useMemo(
+    () => chunks.flatMap(c => c.anchors ?? []).find(a => a.hash === anchorHash),
+    [chunks, anchorHash],
+  );
+
+  // ── Render the page and place highlight boxes over matching text ──
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+    let cancelled = false;
+    (async () => {
+      const pdfjs = await loadPdfJs();
+      const page = await pdf.getPage(Math.min(pageNumber, pdf.numPages));
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const canvas = canvasRef.current!;
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+
+      const content = await page.getTextContent();
+      const anchorText = anchor ? normalize(anchor.anchorText) : '';
+      const next: Box[] = [];
+      for (const item of content.items as { str: string; transform: number[]; width: number }[]) {
+        if (!item.str?.trim()) continue;
+        const tx = pdfjs.Util.transform(viewport.transform, item.transform);
+        const height = Math.hypot(tx[2], tx[3]);
+        const width = item.width * viewport.scale;
+        const left = tx[4];
+        const top = tx[5] - height;
+
+        const itemText = normalize(item.str);
+        if (anchorText && itemText.length >= 8 && anchorText.includes(itemText)) {
+          next.push({ left, top, width, height, anchor: true });
+        }
+        for (const r of highlightRanges(item.str, queryText)) {
+          const perChar = width / item.str.length;
+          next.push({ left: left + r.start * perChar, top, width: (r.end - r.start) * perChar, height, anchor: false });
+        }
+      }
+      if (!cancelled) setBoxes(next);
+    })().catch(err => { if (!cancelled) setPdfError(`Could not render page ${pageNumber}: ${err.message}`); });
+    return () => { cancelled = true; };
+  }, [pdf, pageNumber, queryText, anchor]);
+
+  useEffect(() => {
+    targetRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [pageChunks, anchorHash]);
+
+  const setParam = (key: string, value: string | null) => {
+    const next = new URLSearchParams(params);
+    if (value) next.set(key, value); else next.delete(key);
+    setParams(next, { replace: true });
+  };
+
+  const pageCount = pdf?.numPages ?? Math.max(1, ...chunks.map(c => c.pageEnd));
+
+  return (
+    <Page id="main-content">
+      <MainNavigation />
+      <Container>
+        <BackLink onClick={() => navigate(-1)}>← Back</BackLink>
+        <PageHeader>
+          <div>
+            <Title>{form?.formNumber ?? 'Form'}{version?.editionDate ? ` (${version.editionDate})` : ''}</Title>
+            <Subtitle>{form?.title}</Subtitle>
+          </div>
+          <Toolbar>
+            <QueryInput
+              placeholder="Highlight terms..."
+              value={draftQuery}
+              onChange={e => setDraftQuery(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') setParam('q', draftQuery.trim() || null); }}
+            />
+            <Btn disabled={pageNumber <= 1} onClick={() => setParam('page', String(pageNumber - 1))}>‹ Prev</Btn>
+            <PageLabel>Page {pageNumber} of {pageCount}</PageLabel>
+            <Btn disabled={pageNumber >= pageCount} onClick={() => setParam('page', String(pageNumber + 1))}>Next ›</Btn>
+          </Toolbar>
+        </PageHeader>
+
+        <Layout>
+          <Panel>
+            <PanelBody>
+              {pdfError ? <Notice>{pdfError}</Notice> : (
+                <PageStage>
+                  <canvas ref={canvasRef} />
+                  {boxes.map((b, i) => (
+                    <HitBox key={i} $anchor={b.anchor} style={{ left: b.left, top: b.top, width: b.width, height: b.height }} />
+                  ))}
+                </PageStage>
+              )}
+            </PanelBody>
+          </Panel>
+
+          <Panel>
+            <PanelBody>
+              <SectionLabel>Passages on this page ({pageChunks.length})</SectionLabel>
+              {pageChunks.length === 0 ? <Notice>No ingested text on this page</Notice> : pageChunks.map(c => {
+                const isTarget = !!anchorHash && (c.anchors ?? []).some(a => a.hash === anchorHash);
+                return (
+                  <Passage key={c.id} $target={isTarget} ref={isTarget ? targetRef : undefined}>
+                    <PassageMeta>
+                      {c.sectionPath || 'General'} · p.{c.pageStart}{c.pageEnd !== c.pageStart ? `-${c.pageEnd}` : ''}
+                      {isTarget && anchor && <> · #{anchor.slug}</>}
+                    </PassageMeta>
+                    <PassageText>
+                      <Highlighted text={c.text} ranges={highlightRanges(c.text, queryText)} />
+                    </PassageText>
+                  </Passage>
+                );
+              })}
+            </PanelBody>
+          </Panel>
+        </Layout>
+      </Container>
+    </Page>
+  );
+};
+
+export default FormViewer;
@@ -4,6 +4,7 @@
  * Displays the contract truth layer ingestion report for a form edition:
  *   - Quality score + warnings
  *   - Detected sections with types and page refs
+ *   - Extracted schedule tables (limits, deductibles) with their cells
  *   - Chunk list with anchors
  *   - Re-ingest button
  */
@@ -16,7 +17,8 @@ import {
   border, duration, focusRingStyle, semantic,
 } from '../ui/tokens';
 import { useRoleContext } from '../context/RoleContext';
-import { getIngestionReport, runIngestion } from '../services/ingestionService';
+import { useRole } from '../hooks/useRole';
+import { getIngestionReport, runIngestion, reingestWithOcr } from '../services/ingestionService';
 import { getForm, getFormVersion } from '../services/formService';
 import { getDownloadURL, ref } from 'firebase/storage';
 import { storage } from '../firebase';
@@ -220,6 +222,21 @@ const PageRef = styled.span`
   color: ${color.textMuted};
 `;
 
+// ── Schedules ──
+
+const ScheduleGrid = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: ${T.captionSm.size};
+  th, td {
+    padding: ${space[1]} ${space[4]};
+    text-align: left;
+    border-bottom: ${border.light};
+  }
+  th { color: ${color.textMuted}; font-weight: 600; }
+  td { color: ${color.text}; }
+`;
+
 // ── Chunks ──
 
 const ChunkCard = styled.div<{ $expanded: boolean }>`
@@ -341,12 +358,14 @@ const IngestionReportPage: React.FC = () => {
   const { formId, versionId } = useParams<{ formId: string; versionId: string }>();
   const navigate = useNavigate();
   const { currentOrgId } = useRoleContext();
+  const { canWriteProducts: canEdit } = useRole();
 
   const [report, setReport] = useState<IngestionReport | null>(null);
   const [form, setForm] = useState<OrgForm | null>(null);
   const [version, setVersion] = useState<OrgFormVersion | null>(null);
   const [loading, setLoading] = useState(true);
   const [ingesting, setIngesting] = useState(false);
+  const [ocrNotice, setOcrNotice] = useState<string | null>(null);
   const [expandedChunks, setExpandedChunks] = useState<Set<number>>(new Set());
 
   // ── Load report + form metadata ──
@@ -372,10 +391,30 @@ const IngestionReportPage: React.FC = () => {
     return () => { cancelled = true; };
   }, [currentOrgId, formId, versionId]);
 
+  // ── Versions ingested before OCR was available: re-ingest with OCR on request ──
+  const handleOcrReingest = useCallback(async () => {
+    if (!currentOrgId || !formId || !versionId || !version?.storagePath || ingesting) return;
+    setIngesting(true);
+    setOcrNotice(null);
+    try {
+      const url = await getDownloadURL(ref(storage, version.storagePath));
+      const improved = await reingestWithOcr({ orgId: currentOrgId, formId, formVersionId: versionId, pdfUrl: url });
+      // Without an improvement only the OCR outcome was recorded; reload it
+      const next = improved ?? await getIngestionReport(currentOrgId, formId, versionId);
+      if (next) setReport(next);
+      if (!improved) setOcrNotice('OCR did not improve the ingestion; the text-layer reading was kept.');
+    } catch (err) {
+      console.error('OCR re-ingestion failed:', err);
+      setOcrNotice('OCR re-ingestion failed. Try again, or re-ingest without OCR.');
+    }
+    setIngesting(false);
+  }, [currentOrgId, formId, versionId, version, ingesting]);
+
   // ── Run ingestion ──
   const handleIngest = useCallback(async () => {
     if (!currentOrgId || !formId || !versionId || !version?.storagePath || ingesting) return;
     setIngesting(true);
+    setOcrNotice(null);
     try {
       const url = await getDownloadURL(ref(storage, version.storagePath));
       const result = await runIngestion({
@@ -404,6 +443,8 @@ const IngestionReportPage: React.FC = () => {
 
   const ing = report?.ingestion;
   const statusConfig = ing?.status ? INGESTION_STATUS_CONFIG[ing.status] : null;
+  const offerOcr = ing?.status === 'completed' && !ing.ocr
+    && !!ing.warnings?.some(w => w.type === 'low_text_density' || w.type === 'ocr_artifacts');
 
   return (
     <Page id="main-content">
@@ -421,10 +462,26 @@ const IngestionReportPage: React.FC = () => {
 
         {/* ── Actions ── */}
         <div style={{ display: 'flex', gap: space[3], marginBottom: space[6] }}>
-          <ButtonPrimary onClick={handleIngest} disabled={ingesting || !version?.storagePath}>
-            <SpinIcon $spinning={ingesting}>&#x21bb;</SpinIcon>
-            {ingesting ? 'Ingesting...' : report ? 'Re-Ingest' : 'Run Ingestion'}
-          </ButtonPrimary>
+          {canEdit && (
+            <ButtonPrimary onClick={handleIngest} disabled={ingesting || !version?.storagePath}>
+              <SpinIcon $spinning={ingesting}>&#x21bb;</SpinIcon>
+              {ingesting ? 'Ingesting...' : report ? 'Re-Ingest' : 'Run Ingestion'}
+            </ButtonPrimary>
+          )}
+          {canEdit && offerOcr && (
+            <ButtonPrimary
+              onClick={handleOcrReingest}
+              disabled={ingesting || !version?.storagePath}
+              title="This version was read from its text layer only; sparse or garbled pages may read better with OCR"
+            >
+              Re-Ingest with OCR
+            </ButtonPrimary>
+          )}
+          {ocrNotice && (
+            <span style={{ fontSize: T.captionSm.size, color: color.textMuted, alignSelf: 'center' }}>
+              {ocrNotice}
+            </span>
+          )}
           {!version?.storagePath && (
             <span style={{ fontSize: T.captionSm.size, color: semantic.warning, alignSelf: 'center' }}>
               No PDF uploaded for this version
@@ -474,10 +531,26 @@ const IngestionReportPage: React.FC = () => {
                       <StatValue>{ing?.sectionCount ?? 0}</StatValue>
                       <StatLabel>Sections</StatLabel>
                     </StatCard>
+                    <StatCard>
+                      <StatValue>{ing?.scheduleCount ?? report.schedules.length}</StatValue>
+                      <StatLabel>Schedules</StatLabel>
+                    </StatCard>
                     <StatCard>
                       <StatValue>{report.totalAnchors}</StatValue>
                       <StatLabel>Anchors</StatLabel>
                     </StatCard>
+                    {ing?.extractionConfidence !== undefined && (
+                      <StatCard>
+                        <StatValue>{ing.extractionConfidence}%</StatValue>
+                        <StatLabel>Extraction confidence</StatLabel>
+                      </StatCard>
+                    )}
+                    {ing?.ocr && (
+                      <StatCard title={ing.ocr.improved ? `Text-only score was ${ing.ocr.textOnlyScore}` : 'OCR did not improve the score'}>
+                        <StatValue>{ing.ocr.pagesReplaced}/{ing.ocr.pagesProcessed}</StatValue>
+                        <StatLabel>Pages read by OCR</StatLabel>
+                      </StatCard>
+                    )}
                   </StatGrid>
                 </ScoreGrid>
               </PanelBody>
@@ -525,6 +598,41 @@ const IngestionReportPage: React.FC = () => {
               )}
             </Panel>
 
+            {/* ── Schedules ── */}
+            {report.schedules.length > 0 && (
+              <Panel>
+                <PanelHeader>
+                  <PanelTitle>Schedules ({report.schedules.length})</PanelTitle>
+                </PanelHeader>
+                {report.schedules.map(table => {
+                  const cfg = SECTION_TYPE_CONFIG[table.sectionType || 'schedule'];
+                  return (
+                    <div key={table.id}>
+                      <SectionRow>
+                        <SectionBadge $color={cfg.color}>{cfg.label}</SectionBadge>
+                        <SectionTitle>{table.title || 'Untitled schedule'}</SectionTitle>
+                        <AnchorTag title={table.anchor.hash}>#{table.anchor.slug}</AnchorTag>
+                        <PageRef>p.{table.page}</PageRef>
+                        <ChunkMeta>{table.rows.length} rows</ChunkMeta>
+                      </SectionRow>
+                      <ScheduleGrid>
+                        {table.headers.length > 0 && (
+                          <thead>
+                            <tr>{table.headers.map((h, i) => <th key={i}>{h}</th>)}</tr>
+                          </thead>
+                        )}
+                        <tbody>
+                          {table.rows.map((row, i) => (
+                            <tr key={i}>{row.cells.map((cell, j) => <td key={j}>{cell}</td>)}</tr>
+                          ))}
+                        </tbody>
+                      </ScheduleGrid>
+                    </div>
+                  );
+                })}
+              </Panel>
+            )}
+
             {/* ── Chunks ── */}
             <Panel>
               <PanelHeader>
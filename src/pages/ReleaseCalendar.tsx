@@ -0,0 +1,309 @@
+/**
+ * ReleaseCalendar – /releases
+ *
+ * Month view of scheduled change set publishes, each on its local go-live
+ * date. Held and failed schedules are listed above the grid since they
+ * need someone to act before they can go live. Org admins can run the
+ * due schedules immediately (the only way to fire them in the emulator).
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import styled from 'styled-components';
+import { ArrowLeftIcon, ChevronLeftIcon, ChevronRightIcon, PauseCircleIcon, PlayIcon } from '@heroicons/react/24/outline';
+import logger, { LOG_CATEGORIES } from '../utils/logger';
+import MainNavigation from '../components/ui/Navigation';
+import LoadingSpinner from '../components/ui/LoadingSpinner';
+import { useRoleContext } from '../context/RoleContext';
+import { listScheduledPublishes, runScheduledPublishesNow } from '../services/scheduledPublishService';
+import { buildReleaseCalendar, formatInTimeZone } from '../engine/scheduledPublish';
+import { SCHEDULED_PUBLISH_STATUS_CONFIG } from '../types/scheduledPublish';
+import type { ScheduledPublish } from '../types/scheduledPublish';
+import {
+  color, neutral, accent, space, radius, fontFamily,
+  type as t, border as borderTokens, focusRingStyle,
+} from '@/ui/tokens';
+import {
+  PageShell, PageBody, PageHeader, PageHeaderLeft, PageHeaderRight,
+  PageTitle, PageSubtitle, SectionCard, SectionTitle, Banner, BackButton,
+} from '@/ui/components';
+
+// ════════════════════════════════════════════════
+// Local styled
+// ════════════════════════════════════════════════
+
+const Container = styled.div`
+  max-width: 1200px;
+  margin: 0 auto;
+`;
+
+const Button = styled.button<{ $primary?: boolean }>`
+  display: inline-flex;
+  align-items: center;
+  gap: ${space[1.5]};
+  padding: ${space[2]} ${space[3]};
+  border-radius: ${radius.lg};
+  font-family: ${fontFamily.sans};
+  font-size: ${t.label.size};
+  font-weight: ${t.label.weight};
+  cursor: pointer;
+  border: ${({ $primary }) => ($primary ? 'none' : `1px solid ${neutral[200]}`)};
+  background: ${({ $primary }) => ($primary ? accent[500] : color.bg)};
+  color: ${({ $primary }) => ($primary ? color.textInverse : neutral[600])};
+  &:hover:not(:disabled) { filter: brightness(0.96); }
+  &:focus-visible { ${focusRingStyle} }
+  &:disabled { opacity: 0.45; cursor: not-allowed; }
+  svg { width: 16px; height: 16px; }
+`;
+
+const MonthBar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${space[3]};
+  margin-bottom: ${space[3]};
+  font-family: ${fontFamily.sans};
+  font-size: ${t.headingSm.size};
+  font-weight: ${t.headingSm.weight};
+  color: ${color.text};
+  label { margin-left: auto; font-size: ${t.caption.size}; font-weight: 400; color: ${color.textMuted}; }
+`;
+
+const Grid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(7, 1fr);
+  border-top: ${borderTokens.default};
+  border-left: ${borderTokens.default};
+`;
+
+const DayHead = styled.div`
+  padding: ${space[1.5]} ${space[2]};
+  font-family: ${fontFamily.sans};
+  font-size: ${t.captionSm.size};
+  font-weight: 600;
+  color: ${color.textMuted};
+  background: ${neutral[50]};
+  border-right: ${borderTokens.default};
+  border-bottom: ${borderTokens.default};
+`;
+
+const Day = styled.div<{ $inMonth: boolean; $today: boolean }>`
+  min-height: 96px;
+  padding: ${space[1.5]};
+  border-right: ${borderTokens.default};
+  border-bottom: ${borderTokens.default};
+  background: ${({ $inMonth }) => ($inMonth ? color.bg : neutral[50])};
+  font-family: ${fontFamily.sans};
+  font-size: ${t.captionSm.size};
+  color: ${({ $inMonth }) => ($inMonth ? color.text : color.textMuted)};
+  > span {
+    display: inline-block;
+    margin-bottom: ${space[1]};
+    font-weight: ${({ $today }) => ($today ? 700 : 400)};
+    color: ${({ $today }) => ($today ? accent[600] : 'inherit')};
+  }
+`;
+
+const Entry = styled(Link)<{ $color: string }>`
+  display: block;
+  margin-bottom: ${space[1]};
+  padding: 2px ${space[1.5]};
+  border-radius: ${radius.sm};
+  border-left: 3px solid ${({ $color }) => $color};
+  background: ${neutral[100]};
+  color: ${color.text};
+  text-decoration: none;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  &:hover { background: ${accent[50]}; }
+  &:focus-visible { ${focusRingStyle} }
+`;
+
+const AttentionRow = styled.div`
+  display: flex;
+  gap: ${space[2]};
+  align-items: flex-start;
+  padding: ${space[2]} 0;
+  border-bottom: 1px solid ${neutral[100]};
+  font-family: ${fontFamily.sans};
+  font-size: ${t.caption.size};
+  color: ${color.text};
+  svg { width: 16px; height: 16px; flex-shrink: 0; color: ${accent[500]}; }
+  a { color: ${accent[600]}; font-weight: 600; }
+`;
+
+// ════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DAY_MS = 86_400_000;
+
+const monthLabel = (year: number, month: number) =>
+  new Date(Date.UTC(year, month - 1, 1)).toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const goLive = (s: ScheduledPublish) => formatInTimeZone(s.runAt.toDate(), s.timeZone);
+
+// ════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════
+
+export default function ReleaseCalendar() {
+  const navigate = useNavigate();
+  const { currentOrgId, isOrgAdmin, loading: roleLoading } = useRoleContext();
+  const now = new Date();
+  const [cursor, setCursor] = useState({ year: now.getFullYear(), month: now.getMonth() + 1 });
+  const [schedules, setSchedules] = useState<ScheduledPublish[]>([]);
+  const [showCancelled, setShowCancelled] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [message, setMessage] = useState<{ variant: 'success' | 'error'; text: string } | null>(null);
+
+  const load = useCallback(async () => {
+    if (!currentOrgId) return;
+    setLoading(true);
+    try {
+      // Go-lives are placed by local date, which can sit up to a day either
+      // side of the UTC instant, so pad the query by a day beyond the grid
+      const grid = buildReleaseCalendar(cursor.year, cursor.month, []);
+      const first = new Date(`${grid.weeks[0][0].date}T00:00:00Z`);
+      const last = new Date(`${grid.weeks[grid.weeks.length - 1][6].date}T00:00:00Z`);
+      setSchedules(await listScheduledPublishes(
+        currentOrgId, new Date(first.getTime() - DAY_MS), new Date(last.getTime() + 2 * DAY_MS),
+      ));
+    } catch (err) {
+      logger.error(LOG_CATEGORIES.ERROR, 'Failed to load release calendar', { orgId: currentOrgId }, err as Error);
+      setMessage({ variant: 'error', text: 'Failed to load scheduled publishes' });
+    } finally {
+      setLoading(false);
+    }
+  }, [currentOrgId, cursor]);
+
+  useEffect(() => { if (!roleLoading) load(); }, [load, roleLoading]);
+
+  const calendar = useMemo(
+    () => buildReleaseCalendar(cursor.year, cursor.month, schedules.filter(s => showCancelled || s.status !== 'cancelled')),
+    [cursor, schedules, showCancelled],
+  );
+  const needsAttention = schedules.filter(s => s.status === 'held' || s.status === 'failed');
+
+  const shiftMonth = (delta: number) => setCursor(({ year, month }) => {
+    const index = year * 12 + (month - 1) + delta;
+    return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+  });
+
+  const handleRunNow = async () => {
+    if (!currentOrgId) return;
+    setRunning(true);
+    setMessage(null);
+    try {
+      const summary = await runScheduledPublishesNow(currentOrgId);
+      setMessage({
+        variant: 'success',
+        text: `${summary.due} due${summary.reclaimed ? `, ${summary.reclaimed} stalled` : ''}: ${summary.published} published, ${summary.held} held, ${summary.retried} to retry, ${summary.failed} failed`,
+      });
+      await load();
+    } catch (err) {
+      setMessage({ variant: 'error', text: (err as Error).message });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const todayIso = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+  if (roleLoading) {
+    return (
+      <PageShell>
+        <MainNavigation />
+        <PageBody><LoadingSpinner /></PageBody>
+      </PageShell>
+    );
+  }
+
+  return (
+    <PageShell>
+      <MainNavigation />
+      <PageBody>
+        <Container>
+          <div style={{ marginBottom: space[4] }}>
+            <BackButton onClick={() => navigate('/changesets')} aria-label="Back to change sets">
+              <ArrowLeftIcon />
+            </BackButton>
+          </div>
+
+          <PageHeader>
+            <PageHeaderLeft>
+              <div>
+                <PageTitle>Release Calendar</PageTitle>
+                <PageSubtitle>Scheduled change set go-lives, on their local effective dates</PageSubtitle>
+              </div>
+            </PageHeaderLeft>
+            <PageHeaderRight>
+              {isOrgAdmin && (
+                <Button onClick={handleRunNow} disabled={running}>
+                  <PlayIcon /> {running ? 'Running…' : 'Run due now'}
+                </Button>
+              )}
+            </PageHeaderRight>
+          </PageHeader>
+
+          {message && (
+            <div style={{ marginBottom: space[4] }}>
+              <Banner $variant={message.variant}>{message.text}</Banner>
+            </div>
+          )}
+
+          {needsAttention.length > 0 && (
+            <SectionCard style={{ marginBottom: space[4] }}>
+              <SectionTitle>Needs attention</SectionTitle>
+              {needsAttention.map(s => (
+                <AttentionRow key={s.id}>
+                  <PauseCircleIcon />
+                  <div>
+                    <Link to={`/changesets/${s.changeSetId}`}>{s.changeSetName || s.changeSetId}</Link>{' '}
+                    ({SCHEDULED_PUBLISH_STATUS_CONFIG[s.status].label}, {goLive(s)}):{' '}
+                    {s.status === 'held' ? s.holdReason : s.lastError}
+                  </div>
+                </AttentionRow>
+              ))}
+            </SectionCard>
+          )}
+
+          <SectionCard>
+            <MonthBar>
+              <Button onClick={() => shiftMonth(-1)} aria-label="Previous month"><ChevronLeftIcon /></Button>
+              {monthLabel(cursor.year, cursor.month)}
+              <Button onClick={() => shiftMonth(1)} aria-label="Next month"><ChevronRightIcon /></Button>
+              <label>
+                <input type="checkbox" checked={showCancelled} onChange={e => setShowCancelled(e.target.checked)} />{' '}
+                Show cancelled
+              </label>
+            </MonthBar>
+
+            {loading ? <LoadingSpinner /> : (
+              <Grid>
+                {WEEKDAYS.map(d => <DayHead key={d}>{d}</DayHead>)}
+                {calendar.weeks.flat().map(day => (
+                  <Day key={day.date} $inMonth={day.inMonth} $today={day.date === todayIso}>
+                    <span>{Number(day.date.slice(8))}</span>
+                    {day.entries.map(s => (
+                      <Entry
+                        key={s.id}
+                        to={`/changesets/${s.changeSetId}`}
+                        $color={SCHEDULED_PUBLISH_STATUS_CONFIG[s.status].color}
+                        title={`${s.changeSetName} · ${goLive(s)} (${s.timeZone}) · ${SCHEDULED_PUBLISH_STATUS_CONFIG[s.status].label}`}
+                      >
+                        {s.effectiveTime} {s.changeSetName || s.changeSetId}
+                      </Entry>
+                    ))}
+                  </Day>
+                ))}
+              </Grid>
+            )}
+          </SectionCard>
+        </Container>
+      </PageBody>
+    </PageShell>
+  );
+}
@@ -0,0 +1,580 @@
+/**
+ * SearchPage – /search?q=&tab=
+ *
+ * Two result tabs over the same query:
+ *   - Artifacts (default): the cross-artifact search index, with facet
+ *     filters for type, product, state and status kept in the URL.
+ *     Org admins can rebuild the index from here and watch its progress.
+ *   - Policy text (`tab=text`): full-text search over form wording
+ *     (ingestion chunks), clause versions and coverage descriptions, ranked
+ *     by the hybrid BM25 + embedding index. Form-text hits open the form
+ *     viewer at the cited page and anchor with the query highlighted.
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import styled from 'styled-components';
+import {
+  color, neutral, accent, space, radius, shadow, fontFamily, type as T,
+  border, duration, focusRingStyle, semantic,
+} from '../ui/tokens';
+import { useRoleContext } from '../context/RoleContext';
+import { semanticSearch, getSemanticSearchIndex } from '../services/semanticSearchService';
+import {
+  searchArtifactsFaceted, routeForResult,
+  startSearchReindex, subscribeToSearchReindexJob, getRecentSearchReindexJobs,
+} from '../services/searchService';
+import useProducts from '../hooks/useProducts';
+import type { SemanticDocKind, SemanticSearchHit, TextRange } from '../types/semanticSearch';
+import { SEMANTIC_DOC_KIND_CONFIG } from '../types/semanticSearch';
+import type {
+  FacetedSearchResponse, SearchableArtifactType, SearchReindexJob,
+} from '../types/search';
+import { ARTIFACT_TYPE_LABELS } from '../types/search';
+import MainNavigation from '../components/ui/Navigation';
+
+// ════════════════════════════════════════════════════════════════════════
+// Styled Components
+// ════════════════════════════════════════════════════════════════════════
+
+const Page = styled.main`
+  min-height: 100vh;
+  background: ${neutral[50]};
+  padding: ${space[8]} ${space[8]} ${space[16]};
+`;
+
+const Container = styled.div`max-width: 960px; margin: 0 auto;`;
+
+const Title = styled.h1`
+  font-family: ${fontFamily.sans};
+  font-size: ${T.displaySm.size};
+  font-weight: ${T.displaySm.weight};
+  color: ${color.text};
+  margin: 0 0 ${space[4]};
+`;
+
+const SearchRow = styled.form`display: flex; gap: ${space[2]}; margin-bottom: ${space[3]};`;
+
+const SearchInput = styled.input`
+  flex: 1;
+  padding: ${space[2.5]} ${space[4]};
+  font-size: ${T.bodyMd.size};
+  color: ${color.text};
+  background: ${color.bg};
+  border: ${border.default};
+  border-radius: ${radius.md};
+  outline: none;
+  &:focus { border-color: ${accent[500]}; ${focusRingStyle} }
+`;
+
+const Btn = styled.button<{ $variant?: 'primary' | 'ghost' }>`
+  padding: ${space[2]} ${space[4]};
+  font-size: ${T.label.size};
+  font-weight: 600;
+  border-radius: ${radius.sm};
+  cursor: pointer;
+  transition: all ${duration.fast};
+  ${p => p.$variant === 'primary'
+    ? `color: ${color.textInverse}; background: ${accent[600]}; border: none; &:hover { background: ${accent[700]}; }`
+    : `color: ${color.textSecondary}; background: transparent; border: ${border.default}; &:hover { border-color: ${accent[400]}; color: ${accent[600]}; }`
+  }
+  &:disabled { opacity: 0.5; cursor: not-allowed; }
+`;
+
+const FilterRow = styled.div`
+  display: flex; gap: ${space[2]}; align-items: center; flex-wrap: wrap; margin-bottom: ${space[5]};
+`;
+
+const FilterChip = styled.button<{ $active: boolean; $color?: string }>`
+  padding: ${space[0.5]} ${space[2.5]};
+  font-size: ${T.captionSm.size};
+  font-weight: 600;
+  color: ${p => p.$active ? (p.$color || accent[700]) : color.textSecondary};
+  background: ${p => p.$active ? `${p.$color || accent[500]}14` : 'transparent'};
+  border: 1px solid ${p => p.$active ? `${p.$color || accent[500]}40` : neutral[200]};
+  border-radius: ${radius.full};
+  cursor: pointer;
+`;
+
+const Meta = styled.span`
+  margin-left: auto;
+  font-size: ${T.captionSm.size};
+  color: ${color.textMuted};
+`;
+
+const HitCard = styled.button`
+  display: block;
+  width: 100%;
+  text-align: left;
+  padding: ${space[4]} ${space[5]};
+  margin-bottom: ${space[3]};
+  background: ${color.bg};
+  border: ${border.default};
+  border-radius: ${radius.lg};
+  box-shadow: ${shadow.card};
+  cursor: pointer;
+  transition: border-color ${duration.fast};
+  &:hover { border-color: ${accent[400]}; }
+  &:focus-visible { ${focusRingStyle} }
+`;
+
+const HitHeader = styled.div`
+  display: flex; align-items: center; gap: ${space[2]}; margin-bottom: ${space[1]}; flex-wrap: wrap;
+`;
+
+const HitTitle = styled.span`
+  font-size: ${T.bodyMd.size};
+  font-weight: 600;
+  color: ${color.text};
+`;
+
+const HitSubtitle = styled.div`
+  font-size: ${T.captionSm.size};
+  color: ${color.textSecondary};
+  margin-bottom: ${space[2]};
+`;
+
+const Snippet = styled.div`
+  font-size: ${T.bodySm.size};
+  line-height: 1.6;
+  color: ${color.text};
+`;
+
+const Mark = styled.mark`
+  background: ${semantic.warning}55;
+  color: inherit;
+  border-radius: 2px;
+`;
+
+const Badge = styled.span<{ $color: string }>`
+  padding: 1px ${space[2]};
+  font-size: 10px;
+  font-weight: 600;
+  color: ${p => p.$color};
+  background: ${p => `${p.$color}14`};
+  border: 1px solid ${p => `${p.$color}30`};
+  border-radius: ${radius.full};
+`;
+
+const Score = styled.span`
+  margin-left: auto;
+  font-family: ${fontFamily.mono};
+  font-size: ${T.captionSm.size};
+  color: ${color.textMuted};
+`;
+
+const AnchorTag = styled.span`
+  font-family: ${fontFamily.mono};
+  font-size: ${T.captionSm.size};
+  color: ${accent[600]};
+`;
+
+const Tabs = styled.div`
+  display: flex; gap: ${space[1]}; margin-bottom: ${space[4]}; border-bottom: ${border.default};
+`;
+
+const Tab = styled.button<{ $active: boolean }>`
+  padding: ${space[2]} ${space[4]};
+  font-size: ${T.label.size};
+  font-weight: 600;
+  color: ${p => p.$active ? accent[700] : color.textSecondary};
+  background: none;
+  border: none;
+  border-bottom: 2px solid ${p => p.$active ? accent[500] : 'transparent'};
+  margin-bottom: -1px;
+  cursor: pointer;
+`;
+
+const Layout = styled.div`
+  display: grid; grid-template-columns: 220px 1fr; gap: ${space[6]}; align-items: start;
+`;
+
+const FacetPanel = styled.aside`
+  position: sticky; top: ${space[4]};
+  display: flex; flex-direction: column; gap: ${space[4]};
+`;
+
+const FacetGroup = styled.div`display: flex; flex-direction: column; gap: ${space[1]};`;
+
+const FacetHeading = styled.div`
+  font-size: ${T.overline.size};
+  font-weight: ${T.overline.weight};
+  letter-spacing: ${T.overline.letterSpacing};
+  text-transform: uppercase;
+  color: ${color.textMuted};
+  margin-bottom: ${space[1]};
+`;
+
+const FacetOption = styled.button<{ $active: boolean }>`
+  display: flex; justify-content: space-between; gap: ${space[2]};
+  padding: ${space[1]} ${space[2]};
+  font-size: ${T.captionSm.size};
+  text-align: left;
+  color: ${p => p.$active ? accent[700] : color.text};
+  background: ${p => p.$active ? `${accent[500]}14` : 'transparent'};
+  border: none;
+  border-radius: ${radius.sm};
+  cursor: pointer;
+  &:hover { background: ${neutral[100]}; }
+  span:last-child { color: ${color.textMuted}; font-family: ${fontFamily.mono}; }
+`;
+
+const ReindexCard = styled.div`
+  padding: ${space[3]};
+  background: ${color.bg};
+  border: ${border.default};
+  border-radius: ${radius.md};
+  font-size: ${T.captionSm.size};
+  color: ${color.textSecondary};
+  display: flex; flex-direction: column; gap: ${space[2]};
+`;
+
+const ProgressTrack = styled.div`
+  height: 6px; background: ${neutral[100]}; border-radius: ${radius.full}; overflow: hidden;
+`;
+
+const ProgressFill = styled.div<{ $pct: number; $failed?: boolean }>`
+  height: 100%;
+  width: ${p => p.$pct}%;
+  background: ${p => p.$failed ? semantic.error : accent[500]};
+  transition: width ${duration.normal};
+`;
+
+const Notice = styled.div`
+  padding: ${space[10]} ${space[6]};
+  text-align: center;
+  color: ${color.textMuted};
+  font-size: ${T.bodySm.size};
+`;
+
+// ════════════════════════════════════════════════════════════════════════
+// Helpers
+// ════════════════════════════════════════════════════════════════════════
+
+const KINDS = Object.keys(SEMANTIC_DOC_KIND_CONFIG) as SemanticDocKind[];
+
+type FacetKey = 'type' | 'product' | 'state' | 'status';
+
+const EMPTY_RESPONSE: FacetedSearchResponse = {
+  results: [], facets: { type: {}, productId: {}, state: {}, status: {} }, total: 0,
+};
+
+/** Facet values ordered by count, then name */
+const byCount = (counts: Record<string, number>) =>
+  Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
+function jobPercent(job: SearchReindexJob): number {
+  if (job.status === 'completed') return 100;
+  return job.total ? Math.round((job.processed / job.total) * 100) : 0;
+}
+
+const Highlighted: React.FC<{ text: string; ranges: TextRange[] }> = ({ text, ranges }) => {
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  ranges.forEach((r, i) => {
+    if (r.start > pos) parts.push(text.slice(pos, r.start));
+    parts.push(<Mark key={i}>{text.slice(r.start, r.end)}</Mark>);
+    pos = r.end;
+  });
+  parts.push(text.slice(pos));
+  return <>{parts}</>;
+};
+
+function scoreTitle(hit: SemanticSearchHit): string {
+  const parts = [`BM25 ${hit.bm25.toFixed(2)}`];
+  if (hit.embedding !== undefined) parts.push(`embedding ${hit.embedding.toFixed(2)}`);
+  return parts.join(' · ');
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Component
+// ════════════════════════════════════════════════════════════════════════
+
+const SearchPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [params, setParams] = useSearchParams();
+  const { currentOrgId, isOrgAdmin } = useRoleContext();
+  const { data: products } = useProducts();
+
+  const queryText = params.get('q') ?? '';
+  const tab = params.get('tab') === 'text' ? 'text' : 'artifacts';
+  const [draft, setDraft] = useState(queryText);
+
+  // ── Policy text ──
+  const [kinds, setKinds] = useState<SemanticDocKind[]>([]);
+  const [hits, setHits] = useState<SemanticSearchHit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ── Artifacts ──
+  const facetFilter = {
+    type: params.get('type') || '',
+    product: params.get('product') || '',
+    state: params.get('state') || '',
+    status: params.get('status') || '',
+  };
+  const [artifacts, setArtifacts] = useState<FacetedSearchResponse>(EMPTY_RESPONSE);
+  const [artifactsLoading, setArtifactsLoading] = useState(false);
+  const [artifactsError, setArtifactsError] = useState<string | null>(null);
+
+  // ── Reindex ──
+  const [job, setJob] = useState<SearchReindexJob | null>(null);
+  const [reindexError, setReindexError] = useState<string | null>(null);
+  const unsubJobRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => { setDraft(queryText); }, [queryText]);
+
+  useEffect(() => {
+    if (tab !== 'text' || !currentOrgId || !queryText.trim()) { setHits([]); return; }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    semanticSearch(currentOrgId, queryText, { limit: 50 })
+      .then(res => { if (!cancelled) setHits(res); })
+      .catch(err => { if (!cancelled) setError((err as Error).message); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [currentOrgId, queryText, rebuilding, tab]);
+
+  useEffect(() => {
+    if (tab !== 'artifacts' || !currentOrgId || !queryText.trim()) { setArtifacts(EMPTY_RESPONSE); return; }
+    let cancelled = false;
+    setArtifactsLoading(true);
+    setArtifactsError(null);
+    searchArtifactsFaceted({
+      orgId: currentOrgId,
+      query: queryText,
+      limit: 100,
+      ...(facetFilter.type ? { types: [facetFilter.type as SearchableArtifactType] } : {}),
+      ...(facetFilter.product ? { productId: facetFilter.product } : {}),
+      ...(facetFilter.state ? { state: facetFilter.state } : {}),
+      ...(facetFilter.status ? { status: facetFilter.status } : {}),
+    })
+      .then(res => { if (!cancelled) setArtifacts(res); })
+      .catch(err => { if (!cancelled) setArtifactsError((err as Error).message); })
+      .finally(() => { if (!cancelled) setArtifactsLoading(false); });
+    return () => { cancelled = true; };
+  }, [currentOrgId, queryText, tab, facetFilter.type, facetFilter.product, facetFilter.state, facetFilter.status]);
+
+  // Show the latest reindex run to admins, and follow it while it runs
+  useEffect(() => {
+    if (!currentOrgId || !isOrgAdmin) return;
+    let cancelled = false;
+    getRecentSearchReindexJobs(currentOrgId, 1)
+      .then(([latest]) => {
+        if (cancelled || !latest) return;
+        setJob(latest);
+        if (latest.status === 'running') {
+          unsubJobRef.current?.();
+          unsubJobRef.current = subscribeToSearchReindexJob(currentOrgId, latest.id, next => { if (next) setJob(next); });
+        }
+      })
+      .catch(() => { /* no history yet */ });
+    return () => {
+      cancelled = true;
+      unsubJobRef.current?.();
+      unsubJobRef.current = null;
+    };
+  }, [currentOrgId, isOrgAdmin]);
+
+  const visible = useMemo(
+    () => kinds.length ? hits.filter(h => kinds.includes(h.doc.kind)) : hits,
+    [hits, kinds],
+  );
+
+  const productNames = useMemo(
+    () => new Map(products.map(p => [p.id, p.name])),
+    [products],
+  );
+
+  const updateParams = (patch: Record<string, string>) => {
+    const next = new URLSearchParams(params);
+    Object.entries(patch).forEach(([k, v]) => { if (v) next.set(k, v); else next.delete(k); });
+    setParams(next);
+  };
+
+  const toggleFacet = (key: FacetKey, value: string) =>
+    updateParams({ [key]: facetFilter[key] === value ? '' : value });
+
+  const handleRebuild = async () => {
+    if (!currentOrgId) return;
+    setRebuilding(true);
+    try {
+      await getSemanticSearchIndex(currentOrgId, { rebuild: true });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  const handleReindex = () => {
+    if (!currentOrgId) return;
+    setReindexError(null);
+    const { jobId, done } = startSearchReindex(currentOrgId);
+    unsubJobRef.current?.();
+    unsubJobRef.current = subscribeToSearchReindexJob(currentOrgId, jobId, next => { if (next) setJob(next); });
+    done
+      .then(final => setJob(prev => prev ? { ...prev, ...final } : prev))
+      .catch(err => setReindexError((err as Error).message));
+  };
+
+  const toggleKind = (kind: SemanticDocKind) =>
+    setKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]);
+
+  const renderFacet = (
+    key: FacetKey, heading: string, counts: Record<string, number>, label: (value: string) => string,
+  ) => {
+    const entries = byCount(counts);
+    if (entries.length === 0) return null;
+    return (
+      <FacetGroup>
+        <FacetHeading>{heading}</FacetHeading>
+        {entries.map(([value, n]) => (
+          <FacetOption
+            key={value}
+            $active={facetFilter[key] === value}
+            aria-pressed={facetFilter[key] === value}
+            onClick={() => toggleFacet(key, value)}
+          >
+            <span>{label(value)}</span><span>{n}</span>
+          </FacetOption>
+        ))}
+      </FacetGroup>
+    );
+  };
+
+  const reindexRunning = job?.status === 'running';
+
+  return (
+    <Page id="main-content">
+      <MainNavigation />
+      <Container>
+        <Title>Search</Title>
+        <SearchRow onSubmit={e => { e.preventDefault(); updateParams({ q: draft.trim() }); }}>
+          <SearchInput
+            autoFocus
+            placeholder={tab === 'text' ? 'e.g. "water damage from sewer backup"' : 'Search products, forms, clauses, scenarios…'}
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+          />
+          <Btn $variant="primary" type="submit">Search</Btn>
+          {tab === 'text' && (
+            <Btn type="button" onClick={handleRebuild} disabled={rebuilding}>
+              {rebuilding ? 'Rebuilding…' : 'Rebuild index'}
+            </Btn>
+          )}
+        </SearchRow>
+
+        <Tabs role="tablist">
+          <Tab role="tab" $active={tab === 'artifacts'} aria-selected={tab === 'artifacts'} onClick={() => updateParams({ tab: '' })}>
+            Artifacts
+          </Tab>
+          <Tab role="tab" $active={tab === 'text'} aria-selected={tab === 'text'} onClick={() => updateParams({ tab: 'text' })}>
+            Policy text
+          </Tab>
+        </Tabs>
+
+        {tab === 'artifacts' ? (
+          <Layout>
+            <FacetPanel aria-label="Filter results">
+              {renderFacet('type', 'Type', artifacts.facets.type as Record<string, number>,
+                v => ARTIFACT_TYPE_LABELS[v as SearchableArtifactType] || v)}
+              {renderFacet('product', 'Product', artifacts.facets.productId, v => productNames.get(v) || v)}
+              {renderFacet('state', 'State', artifacts.facets.state, v => v)}
+              {renderFacet('status', 'Status', artifacts.facets.status, v => v.replace(/_/g, ' '))}
+
+              {isOrgAdmin && (
+                <ReindexCard>
+                  <FacetHeading>Search index</FacetHeading>
+                  {job ? (
+                    <>
+                      <ProgressTrack>
+                        <ProgressFill $pct={jobPercent(job)} $failed={job.status === 'failed'} />
+                      </ProgressTrack>
+                      <span>
+                        {job.status === 'running'
+                          ? `Indexing ${job.currentType ? ARTIFACT_TYPE_LABELS[job.currentType] : ''}… ${job.processed}/${job.total}`
+                          : job.status === 'failed'
+                            ? `Reindex failed: ${job.error || 'unknown error'}`
+                            : `Last reindex: ${job.processed} indexed, ${job.removed} stale removed`}
+                      </span>
+                    </>
+                  ) : <span>Rebuild every entry from source data.</span>}
+                  {reindexError && <span>{reindexError}</span>}
+                  <Btn type="button" onClick={handleReindex} disabled={reindexRunning}>
+                    {reindexRunning ? 'Reindexing…' : 'Reindex all'}
+                  </Btn>
+                </ReindexCard>
+              )}
+            </FacetPanel>
+
+            <div>
+              <FilterRow>
+                {queryText && !artifactsLoading && (
+                  <Meta>{artifacts.results.length} of {artifacts.total} results</Meta>
+                )}
+              </FilterRow>
+              {artifactsError ? <Notice>Search failed: {artifactsError}</Notice>
+                : !queryText ? <Notice>Search products, coverages, forms, clauses, rules, tables, scenarios, filings and more</Notice>
+                  : artifactsLoading ? <Notice>Searching…</Notice>
+                    : artifacts.results.length === 0 ? <Notice>No artifacts match "{queryText}"</Notice>
+                      : artifacts.results.map(r => (
+                        <HitCard key={r.id} onClick={() => navigate(routeForResult(r))}>
+                          <HitHeader>
+                            <Badge $color={accent[600]}>{ARTIFACT_TYPE_LABELS[r.type] || r.type}</Badge>
+                            <HitTitle>{r.title}</HitTitle>
+                            {r.bodyMatch && <AnchorTag>matched in text</AnchorTag>}
+                            {r.status && <Score>{r.status.replace(/_/g, ' ')}</Score>}
+                          </HitHeader>
+                          {r.subtitle && <HitSubtitle>{r.subtitle}</HitSubtitle>}
+                        </HitCard>
+                      ))}
+            </div>
+          </Layout>
+        ) : (
+          <>
+            <FilterRow>
+              {KINDS.map(kind => (
+                <FilterChip
+                  key={kind}
+                  $active={kinds.includes(kind)}
+                  $color={SEMANTIC_DOC_KIND_CONFIG[kind].color}
+                  onClick={() => toggleKind(kind)}
+                >
+                  {SEMANTIC_DOC_KIND_CONFIG[kind].label} ({hits.filter(h => h.doc.kind === kind).length})
+                </FilterChip>
+              ))}
+              {queryText && !loading && <Meta>{visible.length} results</Meta>}
+            </FilterRow>
+
+            {error ? <Notice>Search failed: {error}</Notice>
+              : !queryText ? <Notice>Search form wording, clauses and coverage descriptions by meaning, not just exact words</Notice>
+                : loading ? <Notice>Searching… (the first search builds the index)</Notice>
+                  : visible.length === 0 ? <Notice>No passages match "{queryText}"</Notice>
+                    : visible.map(hit => {
+                      const cfg = SEMANTIC_DOC_KIND_CONFIG[hit.doc.kind];
+                      const page = hit.anchor?.page ?? hit.doc.page;
+                      return (
+                        <HitCard key={hit.doc.id} onClick={() => navigate(hit.route)}>
+                          <HitHeader>
+                            <Badge $color={cfg.color}>{cfg.label}</Badge>
+                            <HitTitle>{hit.doc.title}</HitTitle>
+                            {page !== undefined && <AnchorTag>p.{page}</AnchorTag>}
+                            {hit.anchor && <AnchorTag>#{hit.anchor.slug}</AnchorTag>}
+                            <Score title={scoreTitle(hit)}>{Math.round(hit.score * 100)}%</Score>
+                          </HitHeader>
+                          {hit.doc.subtitle && <HitSubtitle>{hit.doc.subtitle}</HitSubtitle>}
+                          <Snippet><Highlighted text={hit.snippet} ranges={hit.highlights} /></Snippet>
+                        </HitCard>
+                      );
+                    })}
+          </>
+        )}
+      </Container>
+    </Page>
+  );
+};
+
+export default SearchPage;
@@ -16,14 +16,16 @@ import { useRoleContext } from '../context/RoleContext';
 import useProducts from '../hooks/useProducts';
 import { Product } from '../types/index';
 import { versioningService } from '../services/versioningService';
-import { getRatePrograms, getSteps } from '../services/rateProgramService';
-import { loadAllRulesForReadiness } from '../services/rulesEngineService';
+import { getRatePrograms } from '../services/rateProgramService';
+import { resolveVersionsForRating } from '../services/versionResolverService';
+import { loadResolvedRulesForEvaluation } from '../services/rulesEngineService';
 import { getFormUses } from '../services/formService';
 import { US_STATES } from '../services/stateAvailabilityService';
 import {
   createSimulation, listSimulations, deleteSimulation,
 } from '../services/simulationService';
 import { runUWPhase, runPremiumPhase, resolveApplicableForms } from '../engine/simulationEngine';
+import { toResolvedVersionStamp } from '../engine/versionResolver';
 import type { FormUseRecord } from '../engine/simulationEngine';
 import type { RateProgram, RatingStep } from '../types/ratingEngine';
 import type { VersionedDocument } from '../types/versioning';
@@ -610,43 +612,39 @@ const SimulatePage: React.FC = () => {
     const startTime = performance.now();
 
     try {
-      // Phase 1: UW Rules
-      const allRules = await loadAllRulesForReadiness(currentOrgId);
-      const publishedRules = allRules.filter(
-        r => r.version.status === 'published' && r.version.scope.productVersionId === selectedVersionId,
+      // Resolve the published versions in force on the effective date; both
+      // phases evaluate exactly this set and carry the same stamp
+      const { versionSet, stepsByRateProgramVersion } = await resolveVersionsForRating(
+        currentOrgId, selectedProductId, selectedVersionId, selectedState, new Date(effectiveDate),
       );
-      const uw = runUWPhase(publishedRules, {
+      const simulationInput = {
         productId: selectedProductId,
         productVersionId: selectedVersionId,
         stateCode: selectedState,
         effectiveDate: new Date(effectiveDate),
         inputs: inputsMap,
-      });
-      setUwResult(uw);
+        resolvedVersions: toResolvedVersionStamp(versionSet),
+      };
 
-      // Phase 2: Premium
+      // Phase 2: Premium (rated first so UW rules can reference its outputs)
       let premium: PremiumPhaseResult | null = null;
       if (selectedRateProgramId) {
-        // Find the published version for the rate program
-        const rpVersions = await versioningService.getVersions(
-          currentOrgId, 'rateProgram', selectedRateProgramId, selectedProductId,
+        const resolvedVersion = versionSet.rateProgramVersions.find(
+          r => r.artifactId === selectedRateProgramId,
         );
-        const publishedVersion = rpVersions.find((v: any) => v.status === 'published') || rpVersions[0];
-        if (publishedVersion) {
-          const steps = await getSteps(currentOrgId, selectedRateProgramId, publishedVersion.id);
-          premium = runPremiumPhase(steps, publishedVersion.id, {
-            productId: selectedProductId,
-            productVersionId: selectedVersionId,
-            stateCode: selectedState,
-            effectiveDate: new Date(effectiveDate),
-            inputs: inputsMap,
-          });
+        if (resolvedVersion) {
+          premium = runPremiumPhase(
+            stepsByRateProgramVersion[resolvedVersion.versionId] ?? [],
+            resolvedVersion.versionId,
+            simulationInput,
+          );
         } else {
           premium = {
             success: false,
+            resolvedVersions: simulationInput.resolvedVersions,
             outputs: {},
             trace: [],
-            errors: [{ code: 'NO_VERSION', message: 'No published rate program version found' }],
+            errors: [{ code: 'NO_VERSION', message: `No published rate program version in force on ${effectiveDate} in ${selectedState}` }],
             warnings: [],
             executionTimeMs: 0,
             resultHash: '',
@@ -655,6 +653,7 @@ const SimulatePage: React.FC = () => {
       } else {
         premium = {
           success: true,
+          resolvedVersions: simulationInput.resolvedVersions,
           outputs: {},
           trace: [],
           errors: [],
@@ -665,6 +664,11 @@ const SimulatePage: React.FC = () => {
       }
       setPremiumResult(premium);
 
+      // Phase 1: UW Rules, with rating outputs available as derived fields
+      const resolvedRules = await loadResolvedRulesForEvaluation(currentOrgId, versionSet.ruleVersions);
+      const uw = runUWPhase(resolvedRules, simulationInput, premium.outputs);
+      setUwResult(uw);
+
       // Phase 3: Forms
       const rawFormUses = await getFormUses(currentOrgId, {
         productVersionId: selectedVersionId,
@@ -713,6 +717,7 @@ const SimulatePage: React.FC = () => {
         finalPremium: premiumResult?.finalPremium,
         applicableFormCount: formsResult?.totalFormCount,
         totalExecutionTimeMs: totalTimeMs,
+        ...(uwResult.resolvedVersions && { resolvedVersions: uwResult.resolvedVersions }),
       });
 
       setSavedSims(prev => [sim, ...prev]);
@@ -17,12 +17,15 @@ import {
   ExclamationTriangleIcon,
   AdjustmentsHorizontalIcon,
   ArrowLeftIcon,
+  RectangleGroupIcon,
 } from '@heroicons/react/24/outline';
 import { colors } from '@components/common/DesignSystem';
 import { StateProgramMatrix } from '@/components/states/StateProgramMatrix';
 import { StateProgramMap } from '@/components/states/StateProgramMap';
 import StateDeviationsList from '@/components/states/StateDeviationsList';
 import StateDeviationsPanel from '@/components/states/StateDeviationsPanel';
+import OverrideLayerGroupsPanel from '@/components/states/OverrideLayerGroupsPanel';
+import { listTerritories } from '@/services/deviationService';
 import { useRoleContext } from '@/context/RoleContext';
 import MainNavigation from '@/components/ui/Navigation';
 import {
@@ -243,7 +246,7 @@ const EmptyStateText = styled.p`
 // Component
 // ============================================================================
 
-type ViewMode = 'matrix' | 'map' | 'deviations';
+type ViewMode = 'matrix' | 'map' | 'deviations' | 'groups';
 
 export const StatePrograms: React.FC = () => {
   const { productId, productVersionId } = useParams<{
@@ -264,11 +267,26 @@ export const StatePrograms: React.FC = () => {
 
   // Deviations state
   const [selectedState, setSelectedState] = useState<{ code: string; name: string } | null>(null);
+  // Empty edits the state layer; otherwise that territory's layer within the state
+  const [selectedTerritory, setSelectedTerritory] = useState('');
+  const [territories, setTerritories] = useState<string[]>([]);
   // Placeholder base config — in production this comes from the product version
   const [baseConfig] = useState<Record<string, unknown>>({});
 
   const orgId = currentOrg?.id || '';
 
+  // Load the selected state's existing territory layers
+  useEffect(() => {
+    setSelectedTerritory('');
+    setTerritories([]);
+    if (!orgId || !productId || !productVersionId || !selectedState) return;
+    let cancelled = false;
+    listTerritories(orgId, productId, productVersionId, selectedState.code)
+      .then(list => { if (!cancelled) setTerritories(list); })
+      .catch(err => console.error('Error loading territories:', err));
+    return () => { cancelled = true; };
+  }, [orgId, productId, productVersionId, selectedState]);
+
   // Load summary
   const loadSummary = useCallback(async () => {
     if (!orgId || !productId || !productVersionId) return;
@@ -349,6 +367,13 @@ export const StatePrograms: React.FC = () => {
               <AdjustmentsHorizontalIcon />
               Deviations
             </ViewToggleButton>
+            <ViewToggleButton
+              $active={viewMode === 'groups'}
+              onClick={() => setViewMode('groups')}
+            >
+              <RectangleGroupIcon />
+              Region Groups
+            </ViewToggleButton>
           </ViewToggle>
 
           <SecondaryButton onClick={loadSummary}>
@@ -415,6 +440,38 @@ export const StatePrograms: React.FC = () => {
                 <ArrowLeftIcon style={{ width: 16, height: 16 }} />
                 Back to state list
               </button>
+              <label
+                style={{
+                  display: 'flex', alignItems: 'center', gap: 8,
+                  fontSize: 13, color: colors.gray600, marginBottom: 16,
+                }}
+              >
+                Territory
+                <input
+                  list="state-territories"
+                  value={selectedTerritory}
+                  onChange={e => setSelectedTerritory(e.target.value.trim())}
+                  placeholder="State level"
+                  style={{
+                    padding: '6px 10px', fontSize: 13, width: 160,
+                    border: `1px solid ${colors.gray300}`, borderRadius: 6,
+                  }}
+                />
+                <datalist id="state-territories">
+                  {territories.map(code => <option key={code} value={code} />)}
+                </datalist>
+                {selectedTerritory && (
+                  <button
+                    onClick={() => setSelectedTerritory('')}
+                    style={{
+                      border: 'none', background: 'none', cursor: 'pointer',
+                      fontSize: 13, color: colors.primary, padding: 0,
+                    }}
+                  >
+                    State level
+                  </button>
+                )}
+              </label>
               <StateDeviationsPanel
                 orgId={orgId}
                 productId={productId}
@@ -422,6 +479,7 @@ export const StatePrograms: React.FC = () => {
                 stateCode={selectedState.code}
                 stateName={selectedState.name}
                 baseConfig={baseConfig}
+                territory={selectedTerritory || undefined}
               />
             </div>
           ) : (
@@ -433,6 +491,13 @@ export const StatePrograms: React.FC = () => {
               onSelectState={(code, name) => setSelectedState({ code, name })}
             />
           )
+        ) : viewMode === 'groups' ? (
+          <OverrideLayerGroupsPanel
+            orgId={orgId}
+            productId={productId}
+            versionId={productVersionId}
+            baseConfig={baseConfig}
+          />
         ) : viewMode === 'matrix' ? (
           <StateProgramMatrix
             productId={productId}
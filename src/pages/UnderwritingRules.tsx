@@ -4,7 +4,7 @@
  *
  * Layout:
  *  - Left: Rule list with type filter
- *  - Right: Rule builder + scenario runner (tabbed)
+ *  - Right: Rule builder + scenario runner (tabbed), or rule set analysis
  */
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
@@ -25,6 +25,7 @@ import {
   PlayIcon,
   ArrowPathIcon,
   XMarkIcon,
+  ArrowsRightLeftIcon,
 } from '@heroicons/react/24/outline';
 import MainNavigation from '../components/ui/Navigation';
 import { PageContainer, PageContent } from '../components/ui/PageContainer';
@@ -34,6 +35,8 @@ import { useRole } from '../hooks/useRole';
 import useProducts from '../hooks/useProducts';
 import { RuleBuilder } from '../components/rules/RuleBuilder';
 import { RuleScenarioRunner } from '../components/rules/RuleScenarioRunner';
+import { RuleSetAnalysisPanel } from '../components/rules/RuleSetAnalysisPanel';
+import { LegacyRuleMigrationPanel } from '../components/rules/LegacyRuleMigrationPanel';
 import { validateRuleVersion } from '../engine/rulesEngine';
 import type { RuleWithVersion } from '../engine/rulesEngine';
 import {
@@ -421,7 +424,7 @@ const ModalActions = styled.div`
 // ============================================================================
 
 const UnderwritingRules: React.FC = () => {
-  const { user, currentOrg, canWriteProducts } = useRole();
+  const { user, currentOrg, canWriteProducts, isOrgAdmin } = useRole();
   const orgId = currentOrg?.id;
   const { data: products } = useProducts();
 
@@ -466,6 +469,10 @@ const UnderwritingRules: React.FC = () => {
   // Scenario runner rules
   const [publishedRules, setPublishedRules] = useState<RuleWithVersion[]>([]);
 
+  // Rule set analysis view
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [showMigration, setShowMigration] = useState(false);
+
   // ── Data subscriptions ────────────────────────────────────────────────
 
   useEffect(() => {
@@ -568,6 +575,19 @@ const UnderwritingRules: React.FC = () => {
     return filtered;
   }, [rules, typeFilter, productFilter, searchQuery]);
 
+  // Analysis covers the selected product's published rules
+  const analysisRules = useMemo(() => {
+    if (productFilter === 'all') return publishedRules;
+    const productRuleIds = new Set(rules.filter(r => r.productId === productFilter).map(r => r.id));
+    return publishedRules.filter(r => productRuleIds.has(r.ruleId));
+  }, [publishedRules, rules, productFilter]);
+
+  const handleSelectRule = (ruleId: string) => {
+    setSelectedRuleId(ruleId);
+    setShowAnalysis(false);
+    setShowMigration(false);
+  };
+
   const handleCreateRule = async () => {
     if (!orgId || !user || !newRuleName.trim()) return;
     const ruleId = await createRule(orgId, { name: newRuleName.trim(), type: newRuleType, description: newRuleDesc, productId: newRuleProductId || undefined }, user.uid);
@@ -723,12 +743,38 @@ const UnderwritingRules: React.FC = () => {
                 </div>
               )}
 
+              <div style={{ padding: '8px 16px 0' }}>
+                <Button
+                  variant={showAnalysis ? 'primary' : 'secondary'}
+                  size="sm"
+                  onClick={() => { setShowAnalysis(v => !v); setShowMigration(false); }}
+                  style={{ width: '100%', justifyContent: 'center' }}
+                >
+                  <FunnelIcon style={{ width: 14, height: 14 }} />
+                  Analyze Rule Set
+                </Button>
+              </div>
+
+              {isOrgAdmin && (
+                <div style={{ padding: '8px 16px 0' }}>
+                  <Button
+                    variant={showMigration ? 'primary' : 'secondary'}
+                    size="sm"
+                    onClick={() => { setShowMigration(v => !v); setShowAnalysis(false); }}
+                    style={{ width: '100%', justifyContent: 'center' }}
+                  >
+                    <ArrowsRightLeftIcon style={{ width: 14, height: 14 }} />
+                    Migrate Legacy Rules
+                  </Button>
+                </div>
+              )}
+
               <RuleList>
                 {filteredRules.map(rule => (
                   <RuleItem
                     key={rule.id}
                     $selected={rule.id === selectedRuleId}
-                    onClick={() => setSelectedRuleId(rule.id)}
+                    onClick={() => handleSelectRule(rule.id)}
                   >
                     <RuleName>{rule.name}</RuleName>
                     <RuleMeta>
@@ -752,7 +798,21 @@ const UnderwritingRules: React.FC = () => {
 
           {/* Main Panel */}
           <MainPanel>
-            {selectedRule && selectedVersion ? (
+            {showMigration && orgId && user ? (
+              <LegacyRuleMigrationPanel
+                orgId={orgId}
+                userId={user.uid}
+                products={products}
+                dictionaryFields={dictionaryFields}
+                onSelectRule={handleSelectRule}
+              />
+            ) : showAnalysis ? (
+              <RuleSetAnalysisPanel
+                rules={analysisRules}
+                dictionaryFields={dictionaryFields}
+                onSelectRule={handleSelectRule}
+              />
+            ) : selectedRule && selectedVersion ? (
               <>
                 {/* Rule Header – Editable name & description */}
                 <RuleHeaderSection>
@@ -293,6 +293,20 @@ export function orgSearchIndexPath(orgId: string): string {
   return `orgs/${orgId}/searchIndex`;
 }
 
+/**
+ * Build path to org search reindex job collection
+ */
+export function orgSearchIndexJobsPath(orgId: string): string {
+  return `orgs/${orgId}/searchIndexJobs`;
+}
+
+/**
+ * Build path to a single search reindex job
+ */
+export function searchIndexJobDocPath(orgId: string, jobId: string): string {
+  return `orgs/${orgId}/searchIndexJobs/${jobId}`;
+}
+
 /**
  * Build path to a specific search index document
  */
@@ -434,6 +448,34 @@ export function qaRunDocPath(orgId: string, runId: string): string {
   return `orgs/${orgId}/qaRuns/${runId}`;
 }
 
+// ============================================================================
+// Rate Impact Exhibits
+// ============================================================================
+
+export function orgRateImpactExhibitsPath(orgId: string): string {
+  return `orgs/${orgId}/rateImpactExhibits`;
+}
+
+export function rateImpactExhibitDocPath(orgId: string, exhibitId: string): string {
+  return `orgs/${orgId}/rateImpactExhibits/${exhibitId}`;
+}
+
+// ============================================================================
+// Redline Exhibits
+// ============================================================================
+
+export function orgRedlineExhibitsPath(orgId: string): string {
+  return `orgs/${orgId}/redlineExhibits`;
+}
+
+export function redlineExhibitDocPath(orgId: string, exhibitId: string): string {
+  return `orgs/${orgId}/redlineExhibits/${exhibitId}`;
+}
+
+export function redlineExhibitStoragePath(orgId: string, exhibitId: string, fileName: string): string {
+  return `orgs/${orgId}/redlineExhibits/${exhibitId}/${fileName}`;
+}
+
 // ============================================================================
 // Simulations
 // ============================================================================
@@ -457,7 +499,7 @@ export function orgAnalyticsPath(orgId: string): string {
 }
 
 // ============================================================================
-// Ingestion – Chunks & Sections (sub-collections of form versions)
+// Ingestion – Chunks, Sections & Schedules (sub-collections of form versions)
 // ============================================================================
 
 export function formVersionChunksPath(orgId: string, formId: string, versionId: string): string {
@@ -476,6 +518,10 @@ export function formVersionSectionDocPath(orgId: string, formId: string, version
   return `orgs/${orgId}/forms/${formId}/versions/${versionId}/sections/${sectionId}`;
 }
 
+export function formVersionSchedulesPath(orgId: string, formId: string, versionId: string): string {
+  return `orgs/${orgId}/forms/${formId}/versions/${versionId}/schedules`;
+}
+
 // ============================================================================
 // Clause Library
 // ============================================================================
@@ -504,6 +550,22 @@ export function clauseLinkDocPath(orgId: string, linkId: string): string {
   return `orgs/${orgId}/clauseLinks/${linkId}`;
 }
 
+export function orgClauseHarvestRunsPath(orgId: string): string {
+  return `orgs/${orgId}/clauseHarvestRuns`;
+}
+
+export function clauseHarvestRunDocPath(orgId: string, runId: string): string {
+  return `orgs/${orgId}/clauseHarvestRuns/${runId}`;
+}
+
+export function clauseHarvestClustersPath(orgId: string, runId: string): string {
+  return `orgs/${orgId}/clauseHarvestRuns/${runId}/clusters`;
+}
+
+export function clauseHarvestClusterDocPath(orgId: string, runId: string, clusterId: string): string {
+  return `orgs/${orgId}/clauseHarvestRuns/${runId}/clusters/${clusterId}`;
+}
+
 // ============================================================================
 // Trace Links (clause → implementation traceability)
 // ============================================================================
@@ -515,3 +577,23 @@ export function orgTraceLinksPath(orgId: string): string {
 export function traceLinkDocPath(orgId: string, traceId: string): string {
   return `orgs/${orgId}/traceLinks/${traceId}`;
 }
+
+// ============================================================================
+// Approval Policy
+// ============================================================================
+
+export function approvalPolicyDocPath(orgId: string): string {
+  return `orgs/${orgId}/settings/approvalPolicy`;
+}
+
+// ============================================================================
+// Scheduled Publishes
+// ============================================================================
+
+export function orgScheduledPublishesPath(orgId: string): string {
+  return `orgs/${orgId}/scheduledPublishes`;
+}
+
+export function scheduledPublishDocPath(orgId: string, scheduleId: string): string {
+  return `orgs/${orgId}/scheduledPublishes/${scheduleId}`;
+}
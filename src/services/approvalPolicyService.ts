@@ -0,0 +1,118 @@
+/**
+ * Approval Policy Service
+ *
+ * Reads and saves the org's approval policy and previews the approvals a
+ * change set would need. Submission evaluates the same policy server-side
+ * (submitChangeSetForReview) and stores the result on the approval slots.
+ *
+ * Paths:
+ *   orgs/{orgId}/settings/approvalPolicy
+ */
+
+import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import { approvalPolicyDocPath } from '../repositories/paths';
+import { versioningService } from './versioningService';
+import { listRateImpactExhibits } from './rateImpactService';
+import {
+  defaultApprovalPolicy,
+  validateApprovalPolicy,
+  evaluateApprovalPolicy,
+  extractItemStates,
+  maxPremiumImpactPct,
+} from '../engine/approvalPolicy';
+import type { ApprovalPolicy, ApprovalPolicyInput, ApprovalRequirement } from '../types/approvalPolicy';
+import type { ChangeSetItem } from '../types/changeSet';
+import type { VersionedEntityType } from '../types/versioning';
+
+// ════════════════════════════════════════════════════════════════════════
+// Policy CRUD
+// ════════════════════════════════════════════════════════════════════════
+
+/** The org's saved policy, or the default (fixed per-type roles) */
+export async function getApprovalPolicy(orgId: string): Promise<{ policy: ApprovalPolicy; isDefault: boolean }> {
+  const snap = await getDoc(doc(db, approvalPolicyDocPath(orgId)));
+  const data = snap.exists() ? (snap.data() as ApprovalPolicy) : null;
+  if (!data || !Array.isArray(data.rules)) return { policy: defaultApprovalPolicy(), isDefault: true };
+
+  return {
+    policy: {
+      ...data,
+      priorApprovalStates: data.priorApprovalStates || [],
+      segregation: { noSelfApproval: false, distinctApprovers: false, ...data.segregation },
+    },
+    isDefault: false,
+  };
+}
+
+/** Validate and save the policy; throws with every validation problem */
+export async function saveApprovalPolicy(orgId: string, policy: ApprovalPolicy): Promise<void> {
+  const errors = validateApprovalPolicy(policy);
+  if (errors.length > 0) throw new Error(errors.join('\n'));
+
+  const { updatedAt: _updatedAt, updatedBy: _updatedBy, ...rest } = policy;
+  // Round-trip through JSON to drop undefined fields Firestore rejects
+  await setDoc(doc(db, approvalPolicyDocPath(orgId)), {
+    ...JSON.parse(JSON.stringify(rest)),
+    updatedAt: serverTimestamp(),
+    updatedBy: auth.currentUser?.uid || 'unknown',
+  });
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Preview
+// ════════════════════════════════════════════════════════════════════════
+
+async function loadItemStates(orgId: string, item: ChangeSetItem): Promise<string[]> {
+  if (item.artifactType === 'stateProgram') return extractItemStates(item, null);
+
+  // Coverage and data dictionary ids are `{productId}:{id}`
+  const [parentId, entityId] = item.artifactId.includes(':')
+    ? item.artifactId.split(':')
+    : [undefined, item.artifactId];
+  try {
+    const version = await versioningService.getVersion<Record<string, unknown>>(
+      orgId, item.artifactType as VersionedEntityType, entityId, item.versionId, parentId,
+    );
+    return extractItemStates(item, version as unknown as Record<string, unknown>);
+  } catch {
+    return [];
+  }
+}
+
+/** Gather the facts the policy evaluates for a change set */
+export async function buildApprovalPolicyInput(
+  orgId: string,
+  changeSetId: string,
+  items: ChangeSetItem[],
+): Promise<ApprovalPolicyInput> {
+  const [states, exhibits] = await Promise.all([
+    Promise.all(items.map(item => loadItemStates(orgId, item))),
+    listRateImpactExhibits(orgId, { changeSetId }).catch(() => []),
+  ]);
+
+  return {
+    itemCount: items.length,
+    items: items.map((item, i) => ({
+      id: item.id,
+      name: item.artifactName || item.artifactId,
+      artifactType: item.artifactType,
+      action: item.action,
+      states: states[i],
+    })),
+    premiumImpactPct: maxPremiumImpactPct(exhibits),
+  };
+}
+
+/** The approvals a draft change set would need if submitted now */
+export async function previewChangeSetApprovals(
+  orgId: string,
+  changeSetId: string,
+  items: ChangeSetItem[],
+): Promise<{ policy: ApprovalPolicy; requirements: ApprovalRequirement[] }> {
+  const [{ policy }, input] = await Promise.all([
+    getApprovalPolicy(orgId),
+    buildApprovalPolicyInput(orgId, changeSetId, items),
+  ]);
+  return { policy, requirements: evaluateApprovalPolicy(policy, input) };
+}
@@ -0,0 +1,152 @@
+/**
+ * Change Set Rebase Service
+ *
+ * Rebases a change set item whose draft was branched from a superseded
+ * published version: plans the three-way merge (base → draft re-applied
+ * onto the latest published version) and, once every field conflict is
+ * resolved, writes the merged data back to the draft and moves its base.
+ *
+ * Content is merged in each entity's own layout: the `data` payload, the
+ * top-level fields of rule and table versions, and the steps subcollection
+ * of rate program versions. Form editions and state programs are reported
+ * as needing manual rework.
+ */
+
+import { auth } from '../firebase';
+import logger, { LOG_CATEGORIES } from '../utils/logger';
+import { versioningService } from './versioningService';
+import { replaceSteps } from './rateProgramService';
+import { changeSetItemEntity, branchedFrom, loadVersionContent, type ItemEntity } from './structuralDiffService';
+import { findStaleBase, planRebase, applyRebaseResolutions } from '../engine/changeSetRebase';
+import type { ChangeSet, ChangeSetItem } from '../types/changeSet';
+import type { RatingStep } from '../types/ratingEngine';
+import type { VersionedEntityType, VersionedDocument } from '../types/versioning';
+import type { RebasePlan, RebaseResolution, StaleBaseResult, VersionRef } from '../types/changeSetConflict';
+
+const REBASABLE_TYPES: VersionedEntityType[] = ['product', 'coverage', 'rule', 'rateProgram', 'table', 'dataDictionary'];
+
+type VersionDoc = VersionedDocument<Record<string, unknown>> & { clonedFrom?: string | { versionId?: string } };
+
+/** Entity coordinates for an item, refusing types whose versions cannot be rebased */
+function itemEntity(item: ChangeSetItem): ItemEntity {
+  const entity = changeSetItemEntity(item);
+  if (!entity || !REBASABLE_TYPES.includes(entity.entityType)) {
+    throw new Error(
+      `${item.artifactName || item.artifactId} (${item.artifactType}) cannot be rebased automatically; `
+      + 'create a new draft from the latest published version and re-apply the changes',
+    );
+  }
+  return entity;
+}
+
+function toVersionRef(v: VersionDoc): VersionRef {
+  const clonedFromVersionId = branchedFrom(v);
+  return {
+    id: v.id,
+    versionNumber: v.versionNumber,
+    status: v.status,
+    ...(clonedFromVersionId ? { clonedFromVersionId } : {}),
+  };
+}
+
+/**
+ * Steps merge by ID. Drafts cloned before step IDs were carried over share
+ * none with their base, and merging them would duplicate every step.
+ */
+function assertStepsShareIdentity(item: ChangeSetItem, base: Record<string, unknown>, ours: Record<string, unknown>): void {
+  const baseIds = new Set(((base.steps ?? []) as RatingStep[]).map(s => s.id));
+  const ourSteps = (ours.steps ?? []) as RatingStep[];
+  if (baseIds.size > 0 && ourSteps.length > 0 && !ourSteps.some(s => baseIds.has(s.id))) {
+    throw new Error(
+      `${item.artifactName || item.artifactId} was copied without its step identities and cannot be rebased automatically; `
+      + 'create a new draft from the latest published version and re-apply the changes',
+    );
+  }
+}
+
+export interface ItemRebasePreview {
+  item: ChangeSetItem;
+  stale: StaleBaseResult;
+  plan: RebasePlan;
+}
+
+/**
+ * Plan the rebase of one item onto the latest published version.
+ * Throws if the item is already up to date.
+ */
+export async function planChangeSetItemRebase(orgId: string, item: ChangeSetItem): Promise<ItemRebasePreview> {
+  const { entityType, entityId, parentId } = itemEntity(item);
+  const versions = await versioningService.getVersions<Record<string, unknown>>(orgId, entityType, entityId, parentId) as VersionDoc[];
+
+  const draft = versions.find(v => v.id === item.versionId);
+  if (!draft) throw new Error('Draft version not found');
+
+  const stale = findStaleBase(toVersionRef(draft), versions.map(toVersionRef));
+  if (!stale.stale || !stale.latestPublishedVersionId) {
+    throw new Error(`${item.artifactName || item.artifactId} is already based on the latest published version`);
+  }
+
+  const base = stale.baseVersionId ? versions.find(v => v.id === stale.baseVersionId) : null;
+  const latest = versions.find(v => v.id === stale.latestPublishedVersionId)!;
+  const entity = { entityType, entityId, parentId };
+
+  const [baseContent, ours, theirs] = await Promise.all([
+    base ? loadVersionContent(orgId, entity, base) : Promise.resolve({}),
+    loadVersionContent(orgId, entity, draft),
+    loadVersionContent(orgId, entity, latest),
+  ]);
+  if (entityType === 'rateProgram') assertStepsShareIdentity(item, baseContent, ours);
+
+  const plan = planRebase({
+    baseVersionId: stale.baseVersionId ?? '',
+    targetVersionId: latest.id,
+    entityType,
+    base: baseContent,
+    ours,
+    theirs,
+  });
+
+  return { item, stale, plan };
+}
+
+/**
+ * Write the rebased data to the item's draft. The change set must be a
+ * draft so approvals are collected against the rebased content.
+ */
+export async function applyChangeSetItemRebase(
+  orgId: string,
+  changeSet: Pick<ChangeSet, 'status'>,
+  preview: ItemRebasePreview,
+  resolutions: Record<string, RebaseResolution>,
+): Promise<void> {
+  if (changeSet.status !== 'draft') {
+    throw new Error('Return the change set to draft before rebasing');
+  }
+
+  const { item, plan } = preview;
+  const content = applyRebaseResolutions(plan, resolutions);
+  const { entityType, entityId, parentId } = itemEntity(item);
+
+  // Steps first: the draft only stops being stale once its document moves its base
+  if (entityType === 'rateProgram') {
+    await replaceSteps(orgId, entityId, item.versionId, (content.steps ?? []) as RatingStep[]);
+  }
+
+  await versioningService.rebaseVersion({
+    orgId,
+    entityType,
+    entityId,
+    versionId: item.versionId,
+    content,
+    baseVersionId: plan.targetVersionId,
+    userId: auth.currentUser?.uid || 'unknown',
+  }, parentId);
+
+  logger.info(LOG_CATEGORIES.DATA, 'Change set item rebased', {
+    changeSetId: item.changeSetId,
+    itemId: item.id,
+    onto: plan.targetVersionId,
+    applied: plan.appliedPaths.length,
+    conflicts: plan.conflicts.length,
+  });
+}
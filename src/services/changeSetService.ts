@@ -31,6 +31,8 @@ import {
   APPROVAL_RULES,
 } from '../types/changeSet';
 import { VersionedEntityType } from '../types/versioning';
+import type { PublishPreflightResult } from '../types/changeSetConflict';
+import type { RevertChangeSetResult } from '../types/changeSetRevert';
 
 // ============================================================================
 // Collection Paths
@@ -329,6 +331,16 @@ export const returnToDraft = async (
   logger.info(LOG_CATEGORIES.DATA, 'ChangeSet returned to draft', { changeSetId, reason });
 };
 
+/**
+ * Publish readiness: status, approvals, blocking tasks, and conflicts with
+ * other change sets (overlapping artifacts and stale draft bases)
+ */
+export const getPublishPreflight = async (orgId: string, changeSetId: string): Promise<PublishPreflightResult> => {
+  const callable = httpsCallable<{ orgId: string; changeSetId: string }, PublishPreflightResult>(functions, 'getPublishPreflight');
+  const result = await callable({ orgId, changeSetId });
+  return result.data;
+};
+
 /**
  * Publish a ChangeSet (publishes all draft versions).
  *
@@ -352,6 +364,26 @@ export const publishChangeSet = async (orgId: string, changeSetId: string): Prom
   }
 };
 
+/**
+ * Revert a published ChangeSet. The server creates a draft change set that
+ * restores each item's previously published version as a new draft; it is
+ * reviewed, approved and published like any other change set.
+ */
+export const revertChangeSet = async (orgId: string, changeSetId: string): Promise<RevertChangeSetResult> => {
+  const callable = httpsCallable<{ orgId: string; changeSetId: string }, RevertChangeSetResult>(functions, 'revertChangeSet');
+
+  try {
+    const result = await callable({ orgId, changeSetId });
+    logger.info(LOG_CATEGORIES.DATA, 'ChangeSet revert created', {
+      changeSetId, orgId, revertChangeSetId: result.data.changeSetId, restoredCount: result.data.restoredCount,
+    });
+    return result.data;
+  } catch (err) {
+    logger.error(LOG_CATEGORIES.DATA, 'ChangeSet revert failed', { changeSetId, orgId }, err instanceof Error ? err : null);
+    throw err;
+  }
+};
+
 // ============================================================================
 // Approvals
 // ============================================================================
@@ -386,21 +418,23 @@ export const getChangeSetApprovals = async (
 };
 
 /**
- * Approve a ChangeSet (as a specific role)
+ * Approve a ChangeSet (as a specific role). Pass `requirementKey` to
+ * approve a specific approval-policy requirement.
  */
 export const approveChangeSet = async (
   orgId: string,
   changeSetId: string,
   role: ApprovalRoleRequired,
-  notes?: string
+  notes?: string,
+  requirementKey?: string
 ): Promise<void> => {
   const correlationId = generateCorrelationId();
   const scopedLog = logger.withCorrelation(correlationId);
 
-  scopedLog.info(LOG_CATEGORIES.DATA, 'ChangeSet approval started', { changeSetId, role, orgId });
+  scopedLog.info(LOG_CATEGORIES.DATA, 'ChangeSet approval started', { changeSetId, role, requirementKey, orgId });
 
   const callable = httpsCallable(functions, 'approveChangeSet');
-  await callable({ orgId, changeSetId, role, notes, correlationId });
+  await callable({ orgId, changeSetId, role, requirementKey: requirementKey ?? role, notes, correlationId });
 
   scopedLog.info(LOG_CATEGORIES.DATA, 'ChangeSet approved', { changeSetId, role, orgId });
 };
@@ -0,0 +1,347 @@
+/**
+ * Clause Harvest Service
+ *
+ * Batch job that harvests reusable clauses from the whole form library:
+ *   1. Loads ingested sections + chunks of every indexed form version
+ *   2. Loads the latest text of existing library clauses
+ *   3. Clusters near-identical sections with the clause harvest engine
+ *   4. Stores the run and its proposed clusters for librarian review
+ *
+ * Review actions merge / split clusters, dismiss them, or accept them —
+ * creating (or reusing) an OrgClause with a form_version ClauseLink to
+ * every occurrence.
+ *
+ * Paths:
+ *   orgs/{orgId}/clauseHarvestRuns/{runId}
+ *   orgs/{orgId}/clauseHarvestRuns/{runId}/clusters/{clusterId}
+ */
+
+import {
+  collection, doc, getDoc, getDocs, setDoc, updateDoc, query, orderBy, limit,
+  writeBatch, Timestamp,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import {
+  formVersionChunksPath, formVersionSectionsPath,
+  orgClauseHarvestRunsPath, clauseHarvestRunDocPath,
+  clauseHarvestClustersPath, clauseHarvestClusterDocPath,
+  orgClausesPath, clauseVersionsPath, orgClauseLinksPath,
+} from '../repositories/paths';
+import { getForms, getFormVersions } from './formService';
+import {
+  getClauses, getClauseVersions, getClauseLinksByVersion,
+  buildClauseDoc, buildClauseVersionDoc, buildClauseLinkDoc,
+} from './clauseService';
+import {
+  harvestClauses, matchExistingClauses, mergeClusters, splitCluster, toHarvestSections,
+} from '../engine/clauseHarvest';
+import type { FormIngestionChunk, FormIngestionSection } from '../types/ingestion';
+import type { ClauseType } from '../types/clause';
+import type {
+  ClauseCluster, ClauseHarvestOptions, ClauseHarvestRun, ExistingClauseText, HarvestSection,
+} from '../types/clauseHarvest';
+import { DEFAULT_CLAUSE_HARVEST_OPTIONS } from '../types/clauseHarvest';
+
+const BATCH_SIZE = 400;
+
+// ════════════════════════════════════════════════════════════════════════
+// Data loaders
+// ════════════════════════════════════════════════════════════════════════
+
+async function loadVersionSections(
+  orgId: string,
+  version: { formId: string; formNumber: string; formVersionId: string; editionDate: string },
+): Promise<HarvestSection[]> {
+  const { formId, formVersionId } = version;
+  const [chunksSnap, sectionsSnap] = await Promise.all([
+    getDocs(query(collection(db, formVersionChunksPath(orgId, formId, formVersionId)), orderBy('index'))),
+    getDocs(query(collection(db, formVersionSectionsPath(orgId, formId, formVersionId)), orderBy('order'))),
+  ]);
+  const chunks = chunksSnap.docs.map(d => ({ id: d.id, ...d.data() } as FormIngestionChunk));
+  const sections = sectionsSnap.docs.map(d => ({ id: d.id, ...d.data() } as FormIngestionSection));
+  return toHarvestSections(version, sections, chunks);
+}
+
+/** Latest version text of every active library clause */
+async function loadExistingClauseTexts(orgId: string): Promise<ExistingClauseText[]> {
+  const clauses = await getClauses(orgId, { archived: false });
+  const out: ExistingClauseText[] = [];
+  for (const clause of clauses) {
+    const [latest] = await getClauseVersions(orgId, clause.id);
+    if (latest?.text) {
+      out.push({
+        clauseId: clause.id,
+        clauseName: clause.canonicalName,
+        clauseVersionId: latest.id,
+        text: latest.text,
+      });
+    }
+  }
+  return out;
+}
+
+async function writeClusters(orgId: string, runId: string, clusters: ClauseCluster[]): Promise<void> {
+  for (let i = 0; i < clusters.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const { id, ...data } of clusters.slice(i, i + BATCH_SIZE)) {
+      batch.set(doc(db, clauseHarvestClusterDocPath(orgId, runId, id)), data);
+    }
+    await batch.commit();
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Harvest runs
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Harvest clauses across every indexed form version. `onProgress` is
+ * called as form versions are loaded.
+ */
+export async function runClauseHarvest(
+  orgId: string,
+  userId: string,
+  options?: Partial<ClauseHarvestOptions>,
+  onProgress?: (loaded: number, total: number) => void,
+): Promise<ClauseHarvestRun> {
+  const runRef = doc(collection(db, orgClauseHarvestRunsPath(orgId)));
+  const resolved = { ...DEFAULT_CLAUSE_HARVEST_OPTIONS, ...options };
+  const run: Omit<ClauseHarvestRun, 'id'> = {
+    status: 'running',
+    options: resolved,
+    formVersionCount: 0,
+    sectionCount: 0,
+    clusterCount: 0,
+    clusteredSectionCount: 0,
+    startedAt: Timestamp.now(),
+    createdBy: userId,
+  };
+  await setDoc(runRef, run);
+
+  try {
+    const forms = await getForms(orgId, { archived: false });
+    const versions = (await Promise.all(forms.map(async form =>
+      (await getFormVersions(orgId, form.id))
+        .filter(v => v.indexingStatus === 'completed')
+        .map(v => ({
+          formId: form.id,
+          formNumber: form.formNumber,
+          formVersionId: v.id,
+          editionDate: v.editionDate || '',
+        })),
+    ))).flat();
+
+    const sections: HarvestSection[] = [];
+    for (let i = 0; i < versions.length; i++) {
+      sections.push(...await loadVersionSections(orgId, versions[i]));
+      onProgress?.(i + 1, versions.length);
+    }
+
+    const existing = await loadExistingClauseTexts(orgId);
+    const clusters = matchExistingClauses(harvestClauses(sections, resolved), existing, resolved);
+    await writeClusters(orgId, runRef.id, clusters);
+
+    const completed = {
+      status: 'complete' as const,
+      formVersionCount: versions.length,
+      sectionCount: sections.length,
+      clusterCount: clusters.length,
+      clusteredSectionCount: clusters.reduce((n, c) => n + c.occurrences.length, 0),
+      completedAt: Timestamp.now(),
+    };
+    await updateDoc(runRef, completed);
+    return { id: runRef.id, ...run, ...completed };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    await updateDoc(runRef, { status: 'failed', error, completedAt: Timestamp.now() });
+    throw err;
+  }
+}
+
+export async function getClauseHarvestRuns(orgId: string, max = 20): Promise<ClauseHarvestRun[]> {
+  const snap = await getDocs(
+    query(collection(db, orgClauseHarvestRunsPath(orgId)), orderBy('startedAt', 'desc'), limit(max)),
+  );
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as ClauseHarvestRun));
+}
+
+export async function getClauseHarvestRun(orgId: string, runId: string): Promise<ClauseHarvestRun | null> {
+  const snap = await getDoc(doc(db, clauseHarvestRunDocPath(orgId, runId)));
+  return snap.exists() ? { id: snap.id, ...snap.data() } as ClauseHarvestRun : null;
+}
+
+/** Clusters of a run, largest first */
+export async function getHarvestClusters(orgId: string, runId: string): Promise<ClauseCluster[]> {
+  const snap = await getDocs(collection(db, clauseHarvestClustersPath(orgId, runId)));
+  return snap.docs
+    .map(d => ({ id: d.id, ...d.data() } as ClauseCluster))
+    .sort((a, b) => b.occurrences.length - a.occurrences.length || a.id.localeCompare(b.id));
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Librarian edits
+// ════════════════════════════════════════════════════════════════════════
+
+/** Replace `removed` clusters with `added` in one batch and keep the run counts current */
+async function replaceClusters(
+  orgId: string, runId: string, removed: ClauseCluster[], added: ClauseCluster[],
+): Promise<void> {
+  const batch = writeBatch(db);
+  for (const c of removed) batch.delete(doc(db, clauseHarvestClusterDocPath(orgId, runId, c.id)));
+  for (const { id, ...data } of added) batch.set(doc(db, clauseHarvestClusterDocPath(orgId, runId, id)), data);
+  await batch.commit();
+
+  const clusters = await getHarvestClusters(orgId, runId);
+  await updateDoc(doc(db, clauseHarvestRunDocPath(orgId, runId)), {
+    clusterCount: clusters.length,
+    clusteredSectionCount: clusters.reduce((n, c) => n + c.occurrences.length, 0),
+  });
+}
+
+/** Merge proposed clusters into one; the canonical wording is recomputed */
+export async function mergeHarvestClusters(
+  orgId: string, runId: string, clusters: ClauseCluster[],
+): Promise<ClauseCluster> {
+  if (clusters.some(c => c.status !== 'proposed')) throw new Error('Only proposed clusters can be merged');
+  const run = await getClauseHarvestRun(orgId, runId);
+  const [merged] = matchExistingClauses(
+    [mergeClusters(clusters, run?.options)],
+    await loadExistingClauseTexts(orgId),
+    run?.options,
+  );
+  await replaceClusters(orgId, runId, clusters, [merged]);
+  return merged;
+}
+
+/** Split the given occurrences out of a proposed cluster into a new cluster */
+export async function splitHarvestCluster(
+  orgId: string, runId: string, cluster: ClauseCluster, occurrenceKeys: string[],
+): Promise<[ClauseCluster, ClauseCluster]> {
+  if (cluster.status !== 'proposed') throw new Error('Only proposed clusters can be split');
+  const run = await getClauseHarvestRun(orgId, runId);
+  const [rest, split] = matchExistingClauses(
+    splitCluster(cluster, occurrenceKeys, run?.options),
+    await loadExistingClauseTexts(orgId),
+    run?.options,
+  );
+  await replaceClusters(orgId, runId, [cluster], [rest, split]);
+  return [rest, split];
+}
+
+export async function dismissHarvestCluster(
+  orgId: string, runId: string, clusterId: string, userId: string,
+): Promise<void> {
+  await updateDoc(doc(db, clauseHarvestClusterDocPath(orgId, runId, clusterId)), {
+    status: 'dismissed',
+    reviewedAt: Timestamp.now(),
+    reviewedBy: userId,
+  });
+}
+
+export interface AcceptHarvestClusterOptions {
+  /** Link occurrences to the matched library clause instead of creating one */
+  useExistingClause?: boolean;
+  canonicalName?: string;
+  type?: ClauseType;
+  tags?: string[];
+}
+
+/**
+ * Accept a cluster: create a clause whose first version is the canonical
+ * wording (or reuse the matched library clause) and link it to every
+ * occurrence, with the occurrence's section and anchor. Returns the clause ID.
+ *
+ * The clause, its version, the links and the cluster status are written in
+ * one batch unless the cluster has more occurrences than a batch holds. Then
+ * the first batch records the clause on the cluster, and an interrupted
+ * accept resumes with that clause; occurrences already linked are skipped.
+ */
+export async function acceptHarvestCluster(
+  orgId: string,
+  runId: string,
+  cluster: ClauseCluster,
+  userId: string,
+  options: AcceptHarvestClusterOptions = {},
+): Promise<string> {
+  const clusterRef = doc(db, clauseHarvestClusterDocPath(orgId, runId, cluster.id));
+  // The stored cluster says whether an earlier accept already picked a clause
+  const stored = (await getDoc(clusterRef)).data() as Omit<ClauseCluster, 'id'> | undefined;
+  if (stored?.status !== 'proposed') throw new Error('Only proposed clusters can be accepted');
+
+  const name = options.canonicalName?.trim() || cluster.proposedName;
+  const type = options.type ?? cluster.proposedType;
+  const now = Timestamp.now();
+  let batch = writeBatch(db);
+  let writes = 0;
+  let clauseId: string;
+  let clauseVersionId: string;
+
+  if (stored.acceptedClauseId && stored.acceptedClauseVersionId) {
+    clauseId = stored.acceptedClauseId;
+    clauseVersionId = stored.acceptedClauseVersionId;
+  } else if (options.useExistingClause && cluster.existingClauseId) {
+    const [latest] = await getClauseVersions(orgId, cluster.existingClauseId);
+    if (!latest) throw new Error(`Clause "${cluster.existingClauseName}" has no versions`);
+    clauseId = cluster.existingClauseId;
+    clauseVersionId = latest.id;
+  } else {
+    const canonical = cluster.variants.find(v => v.isCanonical);
+    const source = cluster.occurrences.find(o => canonical?.occurrenceKeys.includes(o.key));
+    const clauseRef = doc(collection(db, orgClausesPath(orgId)));
+    const versionRef = doc(collection(db, clauseVersionsPath(orgId, clauseRef.id)));
+    clauseId = clauseRef.id;
+    clauseVersionId = versionRef.id;
+
+    batch.set(clauseRef, {
+      ...buildClauseDoc(orgId, {
+        canonicalName: name,
+        type,
+        tags: options.tags ?? cluster.proposedTags,
+        description: `Harvested from ${cluster.occurrences.length} sections across ${cluster.formCount} forms`,
+      }, userId, now),
+      versionCount: 1,
+      latestDraftVersionId: versionRef.id,
+    });
+    batch.set(versionRef, buildClauseVersionDoc(clauseId, 1, {
+      text: cluster.canonicalText,
+      anchors: source?.anchor ? [source.anchor] : [],
+      ...(source && { sourceFormVersionId: source.formVersionId, sourceFormNumber: source.formNumber }),
+      summary: 'Canonical wording from clause harvest',
+    }, userId, now));
+    writes += 2;
+  }
+  batch.update(clusterRef, { acceptedClauseId: clauseId, acceptedClauseVersionId: clauseVersionId });
+  writes++;
+
+  // Keyed like occurrences: `${formVersionId}:${sectionId}`
+  const linked = new Set(
+    (await getClauseLinksByVersion(orgId, clauseVersionId))
+      .filter(l => l.formVersionId && l.sectionId)
+      .map(l => `${l.formVersionId}:${l.sectionId}`),
+  );
+  for (const o of cluster.occurrences) {
+    if (linked.has(o.key)) continue;
+    linked.add(o.key);
+    if (writes >= BATCH_SIZE) {
+      await batch.commit();
+      batch = writeBatch(db);
+      writes = 0;
+    }
+    batch.set(doc(collection(db, orgClauseLinksPath(orgId))), buildClauseLinkDoc(orgId, {
+      clauseId,
+      clauseVersionId,
+      targetType: 'form_version',
+      formVersionId: o.formVersionId,
+      sectionId: o.sectionId,
+      ...(o.anchor && { anchor: o.anchor }),
+      clauseName: name,
+      clauseType: type,
+      targetLabel: `${o.formNumber}${o.editionDate ? ` (${o.editionDate})` : ''} · ${o.sectionTitle}`,
+    }, userId, now));
+    writes++;
+  }
+
+  batch.update(clusterRef, { status: 'accepted', reviewedAt: now, reviewedBy: userId });
+  await batch.commit();
+  return clauseId;
+}
@@ -27,22 +27,45 @@ import type { VersionStatus } from '../types/versioning';
 import type { ContentAnchor } from '../types/ingestion';
 
 // ════════════════════════════════════════════════════════════════════════
-// Clause CRUD
+// Document builders (shared with batched writers)
 // ════════════════════════════════════════════════════════════════════════
 
-export async function createClause(
-  orgId: string,
-  data: {
-    canonicalName: string;
-    type: ClauseType;
-    tags?: string[];
-    description?: string;
-  },
-  userId: string,
-): Promise<string> {
-  const colRef = collection(db, orgClausesPath(orgId));
-  const now = Timestamp.now();
-  const docRef = await addDoc(colRef, {
+export interface NewClauseData {
+  canonicalName: string;
+  type: ClauseType;
+  tags?: string[];
+  description?: string;
+}
+
+export interface NewClauseVersionData {
+  text: string;
+  anchors?: ContentAnchor[];
+  sourceFormVersionId?: string;
+  sourceFormNumber?: string;
+  effectiveStart?: string | null;
+  effectiveEnd?: string | null;
+  summary?: string;
+  notes?: string;
+}
+
+export interface NewClauseLinkData {
+  clauseId: string;
+  clauseVersionId: string;
+  targetType: ClauseLinkTargetType;
+  productVersionId?: string;
+  coverageVersionId?: string;
+  ruleVersionId?: string;
+  formVersionId?: string;
+  sectionId?: string;
+  anchor?: ContentAnchor;
+  stateCode?: string;
+  clauseName?: string;
+  clauseType?: ClauseType;
+  targetLabel?: string;
+}
+
+export function buildClauseDoc(orgId: string, data: NewClauseData, userId: string, now: Timestamp) {
+  return {
     orgId,
     canonicalName: data.canonicalName,
     type: data.type,
@@ -54,7 +77,51 @@ export async function createClause(
     createdBy: userId,
     updatedAt: now,
     updatedBy: userId,
-  });
+  };
+}
+
+export function buildClauseVersionDoc(
+  clauseId: string, versionNumber: number, data: NewClauseVersionData, userId: string, now: Timestamp,
+) {
+  return {
+    clauseId,
+    versionNumber,
+    text: data.text,
+    anchors: data.anchors || [],
+    sourceFormVersionId: data.sourceFormVersionId || null,
+    sourceFormNumber: data.sourceFormNumber || null,
+    status: 'draft' as VersionStatus,
+    effectiveStart: data.effectiveStart ?? null,
+    effectiveEnd: data.effectiveEnd ?? null,
+    summary: data.summary || '',
+    notes: data.notes || '',
+    createdAt: now,
+    createdBy: userId,
+    updatedAt: now,
+    updatedBy: userId,
+  };
+}
+
+export function buildClauseLinkDoc(orgId: string, data: NewClauseLinkData, userId: string, now: Timestamp) {
+  return {
+    orgId,
+    ...data,
+    createdAt: now,
+    createdBy: userId,
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Clause CRUD
+// ════════════════════════════════════════════════════════════════════════
+
+export async function createClause(
+  orgId: string,
+  data: NewClauseData,
+  userId: string,
+): Promise<string> {
+  const colRef = collection(db, orgClausesPath(orgId));
+  const docRef = await addDoc(colRef, buildClauseDoc(orgId, data, userId, Timestamp.now()));
   return docRef.id;
 }
 
@@ -130,16 +197,7 @@ export async function deleteClause(orgId: string, clauseId: string): Promise<voi
 export async function createClauseVersion(
   orgId: string,
   clauseId: string,
-  data: {
-    text: string;
-    anchors?: ContentAnchor[];
-    sourceFormVersionId?: string;
-    sourceFormNumber?: string;
-    effectiveStart?: string | null;
-    effectiveEnd?: string | null;
-    summary?: string;
-    notes?: string;
-  },
+  data: NewClauseVersionData,
   userId: string,
 ): Promise<string> {
   const clause = await getClause(orgId, clauseId);
@@ -147,23 +205,7 @@ export async function createClauseVersion(
   const versionsRef = collection(db, clauseVersionsPath(orgId, clauseId));
   const now = Timestamp.now();
 
-  const docRef = await addDoc(versionsRef, {
-    clauseId,
-    versionNumber,
-    text: data.text,
-    anchors: data.anchors || [],
-    sourceFormVersionId: data.sourceFormVersionId || null,
-    sourceFormNumber: data.sourceFormNumber || null,
-    status: 'draft' as VersionStatus,
-    effectiveStart: data.effectiveStart ?? null,
-    effectiveEnd: data.effectiveEnd ?? null,
-    summary: data.summary || '',
-    notes: data.notes || '',
-    createdAt: now,
-    createdBy: userId,
-    updatedAt: now,
-    updatedBy: userId,
-  });
+  const docRef = await addDoc(versionsRef, buildClauseVersionDoc(clauseId, versionNumber, data, userId, now));
 
   // Update parent clause
   const clauseRef = doc(db, clauseDocPath(orgId, clauseId));
@@ -229,28 +271,11 @@ export async function transitionClauseVersion(
 
 export async function createClauseLink(
   orgId: string,
-  data: {
-    clauseId: string;
-    clauseVersionId: string;
-    targetType: ClauseLinkTargetType;
-    productVersionId?: string;
-    coverageVersionId?: string;
-    ruleVersionId?: string;
-    formVersionId?: string;
-    stateCode?: string;
-    clauseName?: string;
-    clauseType?: ClauseType;
-    targetLabel?: string;
-  },
+  data: NewClauseLinkData,
   userId: string,
 ): Promise<string> {
   const colRef = collection(db, orgClauseLinksPath(orgId));
-  const docRef = await addDoc(colRef, {
-    orgId,
-    ...data,
-    createdAt: Timestamp.now(),
-    createdBy: userId,
-  });
+  const docRef = await addDoc(colRef, buildClauseLinkDoc(orgId, data, userId, Timestamp.now()));
   return docRef.id;
 }
 
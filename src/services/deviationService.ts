@@ -2,15 +2,26 @@
  * Deviation Service
  *
  * Firestore-backed service for managing state overrides,
- * computing snapshots, promoting/reverting, and fetching diffs.
+ * computing snapshots, promoting/reverting, fetching diffs, and
+ * merging overrides onto a changed base product.
  *
- * Works against the augmented statePrograms/{stateCode} document.
+ * Works against the augmented statePrograms/{stateCode} document and the
+ * region layer groups inherited by many states:
+ *   .../versions/{versionId}/overrideLayerGroups/{groupId}
  */
 
 import {
+  collection,
   doc,
+  addDoc,
   getDoc,
+  getDocs,
   updateDoc,
+  deleteDoc,
+  query,
+  orderBy,
+  writeBatch,
+  FieldPath,
   serverTimestamp,
   Timestamp,
   Unsubscribe,
@@ -23,25 +34,35 @@ import type {
   OverrideCategory,
   DiffResult,
   DeviationValidationError,
+  MergeDecision,
+  OverrideLayer,
+  OverrideLayerGroup,
+  OverrideOp,
+  StateMergeResult,
   StateProgramOverrideFields,
 } from '../types/deviation';
 
 import {
-  applyOverrides,
-  computeDiff,
+  applyLayers,
+  buildStateLayers,
+  computeLayeredDiff,
+  validateLayers,
   validateOverrides,
   hashObject,
   getNestedValue,
-  setNestedValue,
+  applyOverrides,
   pathToLabel,
   inferCategory,
   deepEqual,
+  mergeOverrides,
+  applyMergeDecisions,
 } from '../engine/deviationEngine';
 
 import {
   fetchStatePrograms,
   getStateProgramPath,
 } from './stateProgramService';
+import { addItemToChangeSet, getOrCreateActiveChangeSet } from './changeSetService';
 
 // ════════════════════════════════════════════════════════════════════════
 // Helpers
@@ -53,6 +74,13 @@ function requireAuth(): string {
   return uid;
 }
 
+/** Region layer groups live beside the state programs of a product version */
+export const getOverrideLayerGroupsPath = (
+  orgId: string,
+  productId: string,
+  versionId: string,
+): string => `orgs/${orgId}/products/${productId}/versions/${versionId}/overrideLayerGroups`;
+
 // ════════════════════════════════════════════════════════════════════════
 // Read overrides from a state program
 // ════════════════════════════════════════════════════════════════════════
@@ -81,15 +109,20 @@ export function subscribeToOverrides(
   productId: string,
   versionId: string,
   stateCode: string,
-  callback: (overrides: Record<string, Override>, validationErrors: DeviationValidationError[]) => void,
+  callback: (
+    overrides: Record<string, Override>,
+    validationErrors: DeviationValidationError[],
+    territoryOverrides: Record<string, Record<string, Override>>,
+  ) => void,
 ): Unsubscribe {
   const path = getStateProgramPath(orgId, productId, versionId, stateCode);
   return safeOnSnapshot(doc(db, path), (snap) => {
-    if (!snap.exists()) { callback({}, []); return; }
+    if (!snap.exists()) { callback({}, [], {}); return; }
     const data = snap.data();
     callback(
       (data.overrides as Record<string, Override>) || {},
       (data.deviationValidationErrors as DeviationValidationError[]) || [],
+      (data.territoryOverrides as Record<string, Record<string, Override>>) || {},
     );
   });
 }
@@ -110,7 +143,13 @@ export async function setOverride(
   overridePath: string,
   value: unknown,
   baseValue: unknown,
-  opts?: { fieldLabel?: string; category?: OverrideCategory; note?: string },
+  opts?: {
+    fieldLabel?: string;
+    category?: OverrideCategory;
+    note?: string;
+    op?: OverrideOp;
+    insertAfter?: string | null;
+  },
 ): Promise<void> {
   const uid = requireAuth();
   const docPath = getStateProgramPath(orgId, productId, versionId, stateCode);
@@ -124,16 +163,53 @@ export async function setOverride(
     updatedBy: uid,
     updatedAt: Timestamp.now(),
     note: opts?.note,
+    ...(opts?.op && opts.op !== 'set' && { op: opts.op }),
+    ...(opts?.op === 'insert' && opts.insertAfter !== undefined && { insertAfter: opts.insertAfter }),
   };
 
-  await updateDoc(doc(db, docPath), {
-    [`overrides.${overridePath}`]: override,
-    [`overrideNotes.${overridePath}`]: opts?.note || '',
-    updatedAt: serverTimestamp(),
-    updatedBy: uid,
-  });
+  // Override paths contain '.' and list selectors, so address the map key
+  // with a FieldPath rather than a dotted string
+  await updateDoc(
+    doc(db, docPath),
+    new FieldPath('overrides', overridePath), override,
+    new FieldPath('overrideNotes', overridePath), opts?.note || '',
+    'updatedAt', serverTimestamp(),
+    'updatedBy', uid,
+  );
+
+  logger.info(LOG_CATEGORIES.DATA, 'Override set', { stateCode, path: overridePath, op: opts?.op || 'set' });
+}
+
+/**
+ * Add a state-only list item, e.g. `limitOptions[id=ny-extra]`.
+ * `insertAfter` is the key of the preceding sibling (null = first).
+ */
+export async function insertListItemOverride(
+  orgId: string,
+  productId: string,
+  versionId: string,
+  stateCode: string,
+  itemPath: string,
+  item: Record<string, unknown>,
+  opts?: { fieldLabel?: string; category?: OverrideCategory; note?: string; insertAfter?: string | null },
+): Promise<void> {
+  await setOverride(orgId, productId, versionId, stateCode, itemPath, item, null, { ...opts, op: 'insert' });
+}
 
-  logger.info(LOG_CATEGORIES.DATA, 'Override set', { stateCode, path: overridePath });
+/**
+ * Drop a base list item for this state. `baseItem` is the item as it is in
+ * the base now, captured for conflict detection.
+ */
+export async function removeListItemOverride(
+  orgId: string,
+  productId: string,
+  versionId: string,
+  stateCode: string,
+  itemPath: string,
+  baseItem: unknown,
+  opts?: { fieldLabel?: string; category?: OverrideCategory; note?: string },
+): Promise<void> {
+  await setOverride(orgId, productId, versionId, stateCode, itemPath, null, baseItem, { ...opts, op: 'remove' });
 }
 
 /**
@@ -197,7 +273,9 @@ export async function bulkSetOverrides(
 // ════════════════════════════════════════════════════════════════════════
 
 /**
- * Compute the full diff for one state, given the current base config.
+ * Compute the full diff for one state (optionally one of its territories),
+ * given the current base config. Region groups the state inherits apply
+ * beneath the state's own overrides.
  */
 export async function getStateDiff(
   orgId: string,
@@ -206,9 +284,10 @@ export async function getStateDiff(
   stateCode: string,
   stateName: string,
   baseConfig: Record<string, unknown>,
+  territory?: string,
 ): Promise<DiffResult> {
-  const overrides = await getOverrides(orgId, productId, versionId, stateCode);
-  return computeDiff(baseConfig, overrides, stateCode, stateName);
+  const layers = await getStateLayers(orgId, productId, versionId, stateCode, territory);
+  return computeLayeredDiff(baseConfig, layers, stateCode, stateName);
 }
 
 /**
@@ -223,8 +302,8 @@ export async function runDeviationValidation(
   baseConfig: Record<string, unknown>,
 ): Promise<DeviationValidationError[]> {
   const uid = requireAuth();
-  const overrides = await getOverrides(orgId, productId, versionId, stateCode);
-  const errors = validateOverrides(baseConfig, overrides);
+  const layers = await getStateLayers(orgId, productId, versionId, stateCode, 'all');
+  const errors = validateLayers(baseConfig, layers);
 
   // Compute snapshot hash for conflict detection
   const hash = await hashObject(baseConfig);
@@ -293,8 +372,8 @@ export async function promoteOverrideToBase(
   const ov = overrides[overridePath];
   if (!ov) throw new Error(`Override not found at path: ${overridePath}`);
 
-  // Apply to base
-  const newBaseConfig = setNestedValue(currentBaseConfig, overridePath, ov.value);
+  // Apply to base (inserts and removals included)
+  const newBaseConfig = applyOverrides(currentBaseConfig, { [overridePath]: ov });
 
   // Remove the override from the promoting state
   await removeOverride(orgId, productId, versionId, stateCode, overridePath);
@@ -319,7 +398,7 @@ export async function promoteOverrideToBase(
 // ════════════════════════════════════════════════════════════════════════
 
 /**
- * Compute the effective (merged) config for a state.
+ * Compute the effective (merged) config for a state, or one of its territories.
  */
 export async function getEffectiveConfig(
   orgId: string,
@@ -327,7 +406,303 @@ export async function getEffectiveConfig(
   versionId: string,
   stateCode: string,
   baseConfig: Record<string, unknown>,
+  territory?: string,
 ): Promise<Record<string, unknown>> {
-  const overrides = await getOverrides(orgId, productId, versionId, stateCode);
-  return applyOverrides(baseConfig, overrides);
+  const layers = await getStateLayers(orgId, productId, versionId, stateCode, territory);
+  return applyLayers(baseConfig, layers);
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Override layers (region groups, territories)
+// ════════════════════════════════════════════════════════════════════════
+
+export async function listLayerGroups(
+  orgId: string,
+  productId: string,
+  versionId: string,
+): Promise<OverrideLayerGroup[]> {
+  const snap = await getDocs(query(
+    collection(db, getOverrideLayerGroupsPath(orgId, productId, versionId)),
+    orderBy('priority', 'asc'),
+  ));
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as OverrideLayerGroup));
+}
+
+export async function createLayerGroup(
+  orgId: string,
+  productId: string,
+  versionId: string,
+  data: Pick<OverrideLayerGroup, 'name' | 'stateCodes'> & Partial<Pick<OverrideLayerGroup, 'description' | 'priority' | 'overrides'>>,
+): Promise<OverrideLayerGroup> {
+  const uid = requireAuth();
+  const now = Timestamp.now();
+  const group: Omit<OverrideLayerGroup, 'id'> = {
+    name: data.name,
+    ...(data.description && { description: data.description }),
+    stateCodes: data.stateCodes,
+    priority: data.priority ?? 0,
+    overrides: data.overrides || {},
+    createdAt: now,
+    createdBy: uid,
+    updatedAt: now,
+    updatedBy: uid,
+  };
+  const ref = await addDoc(collection(db, getOverrideLayerGroupsPath(orgId, productId, versionId)), group);
+
+  logger.info(LOG_CATEGORIES.DATA, 'Override layer group created', { groupId: ref.id, states: data.stateCodes });
+  return { id: ref.id, ...group };
+}
+
+export async function updateLayerGroup(
+  orgId: string,
+  productId: string,
+  versionId: string,
+  groupId: string,
+  data: Partial<Pick<OverrideLayerGroup, 'name' | 'description' | 'stateCodes' | 'priority' | 'overrides'>>,
+): Promise<void> {
+  const uid = requireAuth();
+  await updateDoc(doc(db, getOverrideLayerGroupsPath(orgId, productId, versionId), groupId), {
+    ...data,
+    updatedAt: Timestamp.now(),
+    updatedBy: uid,
+  });
+}
+
+export async function deleteLayerGroup(
+  orgId: string,
+  productId: string,
+  versionId: string,
+  groupId: string,
+): Promise<void> {
+  await deleteDoc(doc(db, getOverrideLayerGroupsPath(orgId, productId, versionId), groupId));
+  logger.info(LOG_CATEGORIES.DATA, 'Override layer group deleted', { groupId });
+}
+
+/**
+ * Set or clear (value === undefined) one override of a region group.
+ * `baseValue` is the product base value the group replaces.
+ */
+export async function setLayerGroupOverride(
+  orgId: string,
+  productId: string,
+  versionId: string,
+  group: OverrideLayerGroup,
+  overridePath: string,
+  value: unknown,
+  baseValue: unknown,
+): Promise<Record<string, Override>> {
+  const uid = requireAuth();
+  const overrides = { ...group.overrides };
+  if (value === undefined) {
+    delete overrides[overridePath];
+  } else {
+    overrides[overridePath] = {
+      path: overridePath,
+      baseValue,
+      value,
+      fieldLabel: pathToLabel(overridePath),
+      category: inferCategory(overridePath),
+      updatedBy: uid,
+      updatedAt: Timestamp.now(),
+    };
+  }
+  await updateLayerGroup(orgId, productId, versionId, group.id, { overrides });
+  return overrides;
+}
+
+/** Territories of a state that carry their own overrides */
+export async function listTerritories(
+  orgId: string,
+  productId: string,
+  versionId: string,
+  stateCode: string,
+): Promise<string[]> {
+  const snap = await getDoc(doc(db, getStateProgramPath(orgId, productId, versionId, stateCode)));
+  const data = (snap.exists() ? snap.data() : {}) as Partial<StateProgramOverrideFields>;
+  return Object.keys(data.territoryOverrides || {}).sort();
+}
+
+/**
+ * Layers that apply to a state, lowest precedence first once ordered:
+ * inherited region groups, the state itself and (optionally) territories.
+ */
+export async function getStateLayers(
+  orgId: string,
+  productId: string,
+  versionId: string,
+  stateCode: string,
+  territory?: string,
+): Promise<OverrideLayer[]> {
+  const [snap, groups] = await Promise.all([
+    getDoc(doc(db, getStateProgramPath(orgId, productId, versionId, stateCode))),
+    listLayerGroups(orgId, productId, versionId),
+  ]);
+  const data = (snap.exists() ? snap.data() : {}) as Partial<StateProgramOverrideFields> & { stateName?: string };
+  return buildStateLayers(
+    stateCode, data.stateName || stateCode,
+    data.overrides || {}, data.territoryOverrides || {},
+    groups, territory,
+  );
+}
+
+/**
+ * Set or clear (value === undefined) a territory-level override.
+ * `baseValue` is the state's effective value beneath the territory.
+ */
+export async function setTerritoryOverride(
+  orgId: string,
+  productId: string,
+  versionId: string,
+  stateCode: string,
+  territory: string,
+  overridePath: string,
+  value: unknown,
+  baseValue: unknown,
+  opts?: { fieldLabel?: string; category?: OverrideCategory; note?: string },
+): Promise<void> {
+  const uid = requireAuth();
+  const docPath = getStateProgramPath(orgId, productId, versionId, stateCode);
+  const snap = await getDoc(doc(db, docPath));
+  if (!snap.exists()) return;
+
+  const all = { ...((snap.data().territoryOverrides as StateProgramOverrideFields['territoryOverrides']) || {}) };
+  const overrides = { ...(all[territory] || {}) };
+  if (value === undefined) {
+    delete overrides[overridePath];
+  } else {
+    overrides[overridePath] = {
+      path: overridePath,
+      baseValue,
+      value,
+      fieldLabel: opts?.fieldLabel || pathToLabel(overridePath),
+      category: opts?.category || inferCategory(overridePath),
+      updatedBy: uid,
+      updatedAt: Timestamp.now(),
+      ...(opts?.note && { note: opts.note }),
+    };
+  }
+  if (Object.keys(overrides).length > 0) all[territory] = overrides;
+  else delete all[territory];
+
+  await updateDoc(doc(db, docPath), {
+    territoryOverrides: all,
+    updatedAt: serverTimestamp(),
+    updatedBy: uid,
+  });
+
+  logger.info(LOG_CATEGORIES.DATA, 'Territory override set', { stateCode, territory, path: overridePath });
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Three-way merge onto a changed base
+// ════════════════════════════════════════════════════════════════════════
+
+/** The base a state's own overrides sit on: product base plus inherited region groups */
+function regionBase(
+  baseConfig: Record<string, unknown>,
+  stateCode: string,
+  groups: OverrideLayerGroup[],
+): Record<string, unknown> {
+  const regions = buildStateLayers(stateCode, stateCode, {}, {}, groups).filter(l => l.kind === 'region');
+  return applyLayers(baseConfig, regions);
+}
+
+/**
+ * Merge every state's overrides onto a new base config (read-only).
+ * Only states with at least one auto-resolved or conflicting path are returned.
+ */
+export async function previewStateMerges(
+  orgId: string,
+  productId: string,
+  versionId: string,
+  newBaseConfig: Record<string, unknown>,
+): Promise<StateMergeResult[]> {
+  const [programs, groups] = await Promise.all([
+    fetchStatePrograms(orgId, productId, versionId),
+    listLayerGroups(orgId, productId, versionId),
+  ]);
+  const results: StateMergeResult[] = [];
+
+  for (const program of programs) {
+    const overrides = (program as unknown as Partial<StateProgramOverrideFields>).overrides || {};
+    if (Object.keys(overrides).length === 0) continue;
+    const stateBase = regionBase(newBaseConfig, program.stateCode, groups);
+    const merge = mergeOverrides(stateBase, overrides, program.stateCode, program.stateName || program.stateCode);
+    if (merge.entries.some(e => e.status !== 'unchanged')) results.push(merge);
+  }
+
+  return results;
+}
+
+/**
+ * Apply merge decisions across states in one batch and record each merged
+ * state program in a change set (the caller's, or the active draft).
+ *
+ * Paths without a decision take the merge's auto or proposed resolution,
+ * so passing no decisions bulk-accepts every proposal.
+ */
+export async function applyStateMerges(
+  orgId: string,
+  productId: string,
+  versionId: string,
+  newBaseConfig: Record<string, unknown>,
+  decisionsByState: Record<string, Record<string, MergeDecision>> = {},
+  opts?: { changeSetId?: string; stateCodes?: string[] },
+): Promise<{ changeSetId: string; merged: StateMergeResult[] }> {
+  const uid = requireAuth();
+  const [programs, groups] = await Promise.all([
+    fetchStatePrograms(orgId, productId, versionId),
+    listLayerGroups(orgId, productId, versionId),
+  ]);
+  const stamp = { updatedBy: uid, updatedAt: Timestamp.now() };
+  const baseHash = await hashObject(newBaseConfig);
+  const batch = writeBatch(db);
+  const merged: StateMergeResult[] = [];
+
+  for (const program of programs) {
+    if (opts?.stateCodes && !opts.stateCodes.includes(program.stateCode)) continue;
+    const overrides = (program as unknown as Partial<StateProgramOverrideFields>).overrides || {};
+    const stateBase = regionBase(newBaseConfig, program.stateCode, groups);
+    const merge = mergeOverrides(stateBase, overrides, program.stateCode, program.stateName || program.stateCode);
+    if (!merge.entries.some(e => e.status !== 'unchanged')) continue;
+
+    const nextOverrides = applyMergeDecisions(overrides, merge, decisionsByState[program.stateCode] || {}, stamp);
+    const notes: Record<string, string> = {};
+    for (const [path, ov] of Object.entries(nextOverrides)) {
+      notes[path] = ov.note || '';
+    }
+
+    batch.update(doc(db, getStateProgramPath(orgId, productId, versionId, program.stateCode)), {
+      overrides: nextOverrides,
+      overrideNotes: notes,
+      deviationValidationErrors: validateOverrides(stateBase, nextOverrides),
+      computedSnapshotHash: baseHash,
+      updatedAt: serverTimestamp(),
+      updatedBy: uid,
+    });
+    merged.push(merge);
+  }
+
+  if (merged.length === 0) {
+    return { changeSetId: opts?.changeSetId || '', merged };
+  }
+
+  await batch.commit();
+
+  const changeSetId = opts?.changeSetId || (await getOrCreateActiveChangeSet(orgId)).id;
+  for (const merge of merged) {
+    await addItemToChangeSet(orgId, changeSetId, {
+      artifactType: 'stateProgram',
+      artifactId: `${productId}__${merge.stateCode}`,
+      artifactName: `State Program – ${merge.stateCode}`,
+      versionId,
+      action: 'update',
+    });
+  }
+
+  logger.info(LOG_CATEGORIES.DATA, 'State deviations merged onto new base', {
+    productId, changeSetId, states: merged.map(m => m.stateCode),
+  });
+
+  return { changeSetId, merged };
 }
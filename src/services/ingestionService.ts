@@ -2,14 +2,20 @@
  * Ingestion Service
  *
  * Orchestrates the contract truth layer pipeline:
- *   1. Extracts page-level text from PDF (via pdfjs-dist)
- *   2. Runs the ingestion engine (pure computation)
- *   3. Persists chunks, sections, and ingestion metadata to Firestore
+ *   1. Extracts page-level text from PDF (via pdfjs-dist) in reading order
+ *   2. Re-reads sparse or garbled pages with OCR (tesseract.js)
+ *   3. Runs the ingestion engine (pure computation)
+ *   4. Extracts schedule tables (limits, deductibles) with their cell structure
+ *   5. Persists chunks, sections, schedules, and ingestion metadata to Firestore
+ *
+ * Extracted schedules can then be reconciled against a coverage's limit and
+ * deductible option sets.
  *
  * Firestore paths:
  *   orgs/{orgId}/forms/{formId}/versions/{fvId}                      — ingestion metadata (nested field)
  *   orgs/{orgId}/forms/{formId}/versions/{fvId}/chunks/{chunkId}     — text chunks
  *   orgs/{orgId}/forms/{formId}/versions/{fvId}/sections/{sectionId} — detected sections
+ *   orgs/{orgId}/forms/{formId}/versions/{fvId}/schedules/{tableId}  — schedule tables
  */
 
 import {
@@ -18,12 +24,24 @@ import {
 } from 'firebase/firestore';
 import { db, auth } from '../firebase';
 import {
-  formVersionsPath, formVersionChunksPath, formVersionSectionsPath,
+  formVersionsPath, formVersionChunksPath, formVersionSectionsPath, formVersionSchedulesPath,
 } from '../repositories/paths';
-import { runIngestionPipeline, type PageText, type IngestionInput } from '../engine/ingestionEngine';
+import {
+  runIngestionPipeline, textLayerConfidence,
+  type PageText, type IngestionInput, type IngestionResult,
+} from '../engine/ingestionEngine';
+import {
+  reconstructReadingOrder, needsOcr, preferOcr, type PositionedText,
+} from '../engine/pageLayout';
+import {
+  extractScheduleTables, configuredLimitAmounts, configuredDeductibleAmounts, reconcileSchedules,
+} from '../engine/scheduleExtraction';
+import { getLimitOptionSets, getLimitOptionSetWithOptions } from './limitOptionService';
+import { fetchDeductibleOptionSets, fetchDeductibleOptions } from './deductibleOptionsService';
 import type {
   IngestionMetadata, IngestionPipelineStatus, FormIngestionChunk,
-  FormIngestionSection, IngestionReport,
+  FormIngestionSection, FormScheduleTable, IngestionReport, OcrPassSummary,
+  ScheduleReconciliationReport,
 } from '../types/ingestion';
 import type { OrgFormVersion } from '../types/form';
 
@@ -33,7 +51,8 @@ import type { OrgFormVersion } from '../types/form';
 
 let pdfjsLib: any = null;
 
-async function loadPdfJs(): Promise<any> {
+/** pdfjs-dist, loaded on first use with the worker configured */
+export async function loadPdfJs(): Promise<any> {
   if (pdfjsLib) return pdfjsLib;
   pdfjsLib = await import(/* webpackChunkName: "pdfjs" */ 'pdfjs-dist');
   if (typeof window !== 'undefined') {
@@ -44,20 +63,40 @@ async function loadPdfJs(): Promise<any> {
 
 /**
  * Extract page-level text from a PDF ArrayBuffer.
- * Returns one PageText per page with char count.
+ * Text items are re-ordered by layout (lines, columns) rather than taken in
+ * content-stream order. Returns one PageText per page with char count and a
+ * text-layer confidence.
  */
 export async function extractPagesFromBuffer(buffer: ArrayBuffer): Promise<PageText[]> {
   const pdfjs = await loadPdfJs();
-  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer), disableFontFace: true }).promise;
+  // pdfjs may detach the buffer it is given; keep the caller's copy usable for OCR
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer.slice(0)), disableFontFace: true }).promise;
   const pages: PageText[] = [];
 
   const maxPages = Math.min(pdf.numPages, 100);
   for (let i = 1; i <= maxPages; i++) {
     try {
       const page = await pdf.getPage(i);
+      const { width } = page.getViewport({ scale: 1 });
       const content = await page.getTextContent();
-      const text = content.items.map((item: any) => item.str).join(' ');
-      pages.push({ pageNumber: i, text, charCount: text.length });
+      const items: PositionedText[] = content.items
+        .filter((item: any) => typeof item.str === 'string')
+        .map((item: any) => ({
+          str: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height || Math.abs(item.transform[3]),
+        }));
+      const layout = reconstructReadingOrder(items, width);
+      pages.push({
+        pageNumber: i,
+        text: layout.text,
+        charCount: layout.text.length,
+        source: 'text',
+        confidence: textLayerConfidence(layout.text),
+        columnCount: layout.columnCount,
+      });
       page.cleanup();
     } catch {
       pages.push({ pageNumber: i, text: `[Error extracting page ${i}]`, charCount: 0 });
@@ -68,14 +107,99 @@ export async function extractPagesFromBuffer(buffer: ArrayBuffer): Promise<PageT
   return pages;
 }
 
+async function fetchPdf(url: string): Promise<ArrayBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch PDF: ${response.status}`);
+  return response.arrayBuffer();
+}
+
 /**
  * Extract page-level text from a Firebase Storage URL.
  */
 export async function extractPagesFromUrl(url: string): Promise<PageText[]> {
-  const response = await fetch(url);
-  if (!response.ok) throw new Error(`Failed to fetch PDF: ${response.status}`);
-  const buffer = await response.arrayBuffer();
-  return extractPagesFromBuffer(buffer);
+  return extractPagesFromBuffer(await fetchPdf(url));
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// OCR fallback (browser-side via tesseract.js)
+// ════════════════════════════════════════════════════════════════════════
+
+/** Render scale for OCR; ~2x gives tesseract roughly 150 dpi on letter pages */
+const OCR_RENDER_SCALE = 2;
+
+/**
+ * Where the self-hosted tesseract worker, core and English data are served
+ * (see the tesseract-assets plugin in vite.config.ts); nothing is fetched
+ * from a CDN.
+ */
+function tesseractPaths() {
+  const base = `${window.location.origin}/tesseract`;
+  return { workerPath: `${base}/worker.min.js`, corePath: base, langPath: base };
+}
+
+/**
+ * OCR the given pages. Each page is rendered to a canvas and read with a
+ * single English tesseract worker, which is terminated afterwards.
+ */
+export async function ocrPages(buffer: ArrayBuffer, pageNumbers: number[]): Promise<PageText[]> {
+  if (pageNumbers.length === 0) return [];
+  const pdfjs = await loadPdfJs();
+  const { createWorker } = await import(/* webpackChunkName: "tesseract" */ 'tesseract.js');
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer.slice(0)), disableFontFace: true }).promise;
+  const worker = await createWorker('eng', undefined, tesseractPaths());
+  const results: PageText[] = [];
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      try {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        await page.render({ canvas, canvasContext: canvas.getContext('2d'), viewport }).promise;
+
+        const { data } = await worker.recognize(canvas);
+        const text = data.text.replace(/[ \t]+\n/g, '\n').trim();
+        results.push({
+          pageNumber,
+          text,
+          charCount: text.length,
+          source: 'ocr',
+          confidence: Math.round(data.confidence) / 100,
+        });
+        page.cleanup();
+      } catch {
+        // Leave the text-layer reading in place for pages OCR cannot read
+      }
+    }
+  } finally {
+    await worker.terminate();
+    pdf.destroy();
+  }
+
+  return results;
+}
+
+/**
+ * Replace OCR candidates with their OCR reading where it is better.
+ */
+async function applyOcr(
+  buffer: ArrayBuffer,
+  pages: PageText[],
+): Promise<{ pages: PageText[]; pagesProcessed: number; pagesReplaced: number }> {
+  const candidates = pages.filter(needsOcr).map(p => p.pageNumber);
+  const ocr = new Map((await ocrPages(buffer, candidates)).map(p => [p.pageNumber, p]));
+
+  let pagesReplaced = 0;
+  const merged = pages.map(page => {
+    const read = ocr.get(page.pageNumber);
+    if (!read || !preferOcr(page, read)) return page;
+    pagesReplaced++;
+    return read;
+  });
+
+  return { pages: merged, pagesProcessed: candidates.length, pagesReplaced };
 }
 
 // ════════════════════════════════════════════════════════════════════════
@@ -136,17 +260,37 @@ async function persistSections(
   return ids;
 }
 
-/** Delete all existing chunks and sections before re-ingestion */
+async function persistSchedules(
+  orgId: string, formId: string, versionId: string,
+  tables: Omit<FormScheduleTable, 'id'>[],
+): Promise<string[]> {
+  if (tables.length === 0) return [];
+  const colRef = collection(db, formVersionSchedulesPath(orgId, formId, versionId));
+  const ids: string[] = [];
+
+  const batch = writeBatch(db);
+  for (const table of tables) {
+    const ref = doc(colRef);
+    batch.set(ref, table);
+    ids.push(ref.id);
+  }
+  await batch.commit();
+
+  return ids;
+}
+
+/** Delete all existing chunks, sections and schedules before re-ingestion */
 async function clearPreviousIngestion(
   orgId: string, formId: string, versionId: string,
 ): Promise<void> {
   const chunksSnap = await getDocs(collection(db, formVersionChunksPath(orgId, formId, versionId)));
   const sectionsSnap = await getDocs(collection(db, formVersionSectionsPath(orgId, formId, versionId)));
+  const schedulesSnap = await getDocs(collection(db, formVersionSchedulesPath(orgId, formId, versionId)));
 
-  if (chunksSnap.size + sectionsSnap.size === 0) return;
+  if (chunksSnap.size + sectionsSnap.size + schedulesSnap.size === 0) return;
 
   const batchSize = 450;
-  const allDocs = [...chunksSnap.docs, ...sectionsSnap.docs];
+  const allDocs = [...chunksSnap.docs, ...sectionsSnap.docs, ...schedulesSnap.docs];
   for (let i = 0; i < allDocs.length; i += batchSize) {
     const batch = writeBatch(db);
     allDocs.slice(i, i + batchSize).forEach(d => batch.delete(d.ref));
@@ -165,20 +309,88 @@ export interface RunIngestionOptions {
   /** Provide either a buffer or a URL */
   pdfBuffer?: ArrayBuffer;
   pdfUrl?: string;
+  /** Re-read sparse or garbled pages with OCR (default true) */
+  ocr?: boolean;
+}
+
+/**
+ * Replace a version's chunks, sections and schedules with a pipeline result
+ * and mark the ingestion completed. Schedules are extracted from the pages
+ * the result was built from. Returns the in-memory report for the UI.
+ */
+async function persistIngestionResult(
+  orgId: string, formId: string, formVersionId: string,
+  result: IngestionResult,
+  pages: PageText[],
+  ocr?: OcrPassSummary,
+): Promise<IngestionReport> {
+  await clearPreviousIngestion(orgId, formId, formVersionId);
+
+  const schedules = extractScheduleTables(pages);
+  const chunkIds = await persistChunks(orgId, formId, formVersionId, result.chunks);
+  const sectionIds = await persistSections(orgId, formId, formVersionId, result.sections);
+  const scheduleIds = await persistSchedules(orgId, formId, formVersionId, schedules);
+
+  // Also store combined extracted text on the version doc for legacy compatibility
+  const combinedText = result.chunks.map(c => c.text).join('\n\n');
+  const versionRef = doc(db, formVersionsPath(orgId, formId), formVersionId);
+  await updateDoc(versionRef, {
+    extractedText: combinedText,
+    indexingStatus: 'completed',
+  });
+
+  const metadata: Partial<IngestionMetadata> = {
+    status: 'completed',
+    qualityScore: result.qualityScore,
+    warnings: result.warnings,
+    totalPages: result.totalPages,
+    totalCharacters: result.totalCharacters,
+    chunkCount: result.chunks.length,
+    sectionCount: result.sections.length,
+    scheduleCount: schedules.length,
+    pageExtraction: result.pageExtraction,
+    ...(result.extractionConfidence !== null && { extractionConfidence: result.extractionConfidence }),
+    ...(ocr && { ocr }),
+    completedAt: Timestamp.now(),
+  };
+  await updateIngestionMetadata(orgId, formId, formVersionId, metadata);
+
+  // Build report (in-memory, for UI)
+  const versionSnap = await getDoc(versionRef);
+  const version = versionSnap.exists() ? (versionSnap.data() as any) : {};
+
+  const sectionTypeCounts: Record<string, number> = {};
+  for (const s of result.sections) {
+    sectionTypeCounts[s.type] = (sectionTypeCounts[s.type] || 0) + 1;
+  }
+
+  return {
+    formId,
+    formNumber: version.formNumber || '',
+    formTitle: version.title || '',
+    formVersionId,
+    editionDate: version.editionDate || '',
+    ingestion: { ...version.ingestion, ...metadata } as IngestionMetadata,
+    chunks: result.chunks.map((c, i) => ({ ...c, id: chunkIds[i] || `chunk-${i}` })),
+    sections: result.sections.map((s, i) => ({ ...s, id: sectionIds[i] || `section-${i}` })),
+    schedules: schedules.map((t, i) => ({ ...t, id: scheduleIds[i] || `schedule-${i}` })),
+    totalAnchors: result.chunks.reduce((sum, c) => sum + c.anchors.length, 0),
+    sectionTypeCounts: sectionTypeCounts as any,
+  };
 }
 
 /**
  * Run the full ingestion pipeline for a form version:
  *   1. Update status → 'extracting'
- *   2. Extract pages from PDF
- *   3. Update status → 'chunking'
- *   4. Run engine pipeline
- *   5. Clear previous chunks/sections
- *   6. Persist new chunks/sections
+ *   2. Extract pages from PDF in reading order
+ *   3. Update status → 'ocr' and re-read sparse / garbled pages, if any
+ *   4. Update status → 'chunking'
+ *   5. Run engine pipeline (text-only and with OCR; the higher score wins)
+ *   6. Replace previous chunks/sections/schedules with the result
  *   7. Update status → 'completed' (or 'failed')
  */
 export async function runIngestion(options: RunIngestionOptions): Promise<IngestionReport | null> {
-  const { orgId, formId, formVersionId, pdfBuffer, pdfUrl } = options;
+  const { orgId, formId, formVersionId, pdfBuffer, pdfUrl, ocr = true } = options;
   const uid = auth.currentUser?.uid || 'system';
 
   try {
@@ -190,73 +402,47 @@ export async function runIngestion(options: RunIngestionOptions): Promise<Ingest
     });
 
     // 2. Extract pages
-    let pages: PageText[];
+    let buffer: ArrayBuffer;
     if (pdfBuffer) {
-      pages = await extractPagesFromBuffer(pdfBuffer);
+      buffer = pdfBuffer;
     } else if (pdfUrl) {
-      pages = await extractPagesFromUrl(pdfUrl);
+      buffer = await fetchPdf(pdfUrl);
     } else {
       throw new Error('No PDF source provided (buffer or URL required)');
     }
+    const pages = await extractPagesFromBuffer(buffer);
+    const input: IngestionInput = { pages, formId, formVersionId };
+    let result = runIngestionPipeline(input);
+    let resultPages = pages;
+    let ocrSummary: OcrPassSummary | undefined;
+
+    // 3. OCR pass over low-density pages
+    if (ocr && pages.some(needsOcr)) {
+      await updateIngestionMetadata(orgId, formId, formVersionId, {
+        status: 'ocr' as IngestionPipelineStatus,
+      });
+      const read = await applyOcr(buffer, pages);
+      const withOcr = read.pagesReplaced > 0 ? runIngestionPipeline({ ...input, pages: read.pages }) : null;
+      const improved = withOcr !== null && withOcr.qualityScore > result.qualityScore;
+      ocrSummary = {
+        pagesProcessed: read.pagesProcessed,
+        pagesReplaced: improved ? read.pagesReplaced : 0,
+        textOnlyScore: result.qualityScore,
+        improved,
+      };
+      if (improved) {
+        result = withOcr;
+        resultPages = read.pages;
+      }
+    }
 
-    // 3. Mark chunking
+    // 4. Mark chunking
     await updateIngestionMetadata(orgId, formId, formVersionId, {
       status: 'chunking' as IngestionPipelineStatus,
     });
 
-    // 4. Run engine
-    const input: IngestionInput = { pages, formId, formVersionId };
-    const result = runIngestionPipeline(input);
-
-    // 5. Clear previous
-    await clearPreviousIngestion(orgId, formId, formVersionId);
-
-    // 6. Persist
-    const chunkIds = await persistChunks(orgId, formId, formVersionId, result.chunks);
-    const sectionIds = await persistSections(orgId, formId, formVersionId, result.sections);
-
-    // Also store combined extracted text on the version doc for legacy compatibility
-    const combinedText = result.chunks.map(c => c.text).join('\n\n');
-    const versionRef = doc(db, formVersionsPath(orgId, formId), formVersionId);
-    await updateDoc(versionRef, {
-      extractedText: combinedText,
-      indexingStatus: 'completed',
-    });
-
-    // 7. Mark completed
-    const metadata: Partial<IngestionMetadata> = {
-      status: 'completed',
-      qualityScore: result.qualityScore,
-      warnings: result.warnings,
-      totalPages: result.totalPages,
-      totalCharacters: result.totalCharacters,
-      chunkCount: result.chunks.length,
-      sectionCount: result.sections.length,
-      completedAt: Timestamp.now(),
-    };
-    await updateIngestionMetadata(orgId, formId, formVersionId, metadata);
-
-    // Build report (in-memory, for UI)
-    const versionSnap = await getDoc(versionRef);
-    const version = versionSnap.exists() ? (versionSnap.data() as any) : {};
-
-    const sectionTypeCounts: Record<string, number> = {};
-    for (const s of result.sections) {
-      sectionTypeCounts[s.type] = (sectionTypeCounts[s.type] || 0) + 1;
-    }
-
-    return {
-      formId,
-      formNumber: version.formNumber || '',
-      formTitle: version.title || '',
-      formVersionId,
-      editionDate: version.editionDate || '',
-      ingestion: metadata as IngestionMetadata,
-      chunks: result.chunks.map((c, i) => ({ ...c, id: chunkIds[i] || `chunk-${i}` })),
-      sections: result.sections.map((s, i) => ({ ...s, id: sectionIds[i] || `section-${i}` })),
-      totalAnchors: result.chunks.reduce((sum, c) => sum + c.anchors.length, 0),
-      sectionTypeCounts: sectionTypeCounts as any,
-    };
+    // 5–7. Persist and mark completed
+    return await persistIngestionResult(orgId, formId, formVersionId, result, resultPages, ocrSummary);
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : String(err);
     await updateIngestionMetadata(orgId, formId, formVersionId, {
@@ -268,6 +454,43 @@ export async function runIngestion(options: RunIngestionOptions): Promise<Ingest
   }
 }
 
+/**
+ * Re-ingest an already-ingested version with OCR. The stored chunks and
+ * sections are replaced only when the OCR reading scores higher than the
+ * current ingestion; otherwise only the OCR outcome is recorded (so the
+ * pass is not repeated) and null is returned.
+ */
+export async function reingestWithOcr(
+  options: Omit<RunIngestionOptions, 'ocr'>,
+): Promise<IngestionReport | null> {
+  const { orgId, formId, formVersionId, pdfBuffer, pdfUrl } = options;
+  const versionSnap = await getDoc(doc(db, formVersionsPath(orgId, formId), formVersionId));
+  const current = versionSnap.exists() ? (versionSnap.data().ingestion as IngestionMetadata | undefined) : undefined;
+  if (!current || current.status !== 'completed') return runIngestion(options);
+
+  const buffer = pdfBuffer ?? (pdfUrl ? await fetchPdf(pdfUrl) : null);
+  if (!buffer) throw new Error('No PDF source provided (buffer or URL required)');
+
+  const pages = await extractPagesFromBuffer(buffer);
+  const read = await applyOcr(buffer, pages);
+  const result = read.pagesReplaced > 0
+    ? runIngestionPipeline({ pages: read.pages, formId, formVersionId })
+    : null;
+  const improved = result !== null && result.qualityScore > current.qualityScore;
+  const summary: OcrPassSummary = {
+    pagesProcessed: read.pagesProcessed,
+    pagesReplaced: improved ? read.pagesReplaced : 0,
+    textOnlyScore: current.qualityScore,
+    improved,
+  };
+
+  if (!improved) {
+    await updateIngestionMetadata(orgId, formId, formVersionId, { ocr: summary });
+    return null;
+  }
+  return persistIngestionResult(orgId, formId, formVersionId, result, read.pages, summary);
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // Read helpers
 // ════════════════════════════════════════════════════════════════════════
@@ -295,6 +518,8 @@ export async function getIngestionReport(
   );
   const sections = sectionsSnap.docs.map(d => ({ id: d.id, ...d.data() } as FormIngestionSection));
 
+  const schedules = await getFormSchedules(orgId, formId, formVersionId);
+
   const sectionTypeCounts: Record<string, number> = {};
   for (const s of sections) {
     sectionTypeCounts[s.type] = (sectionTypeCounts[s.type] || 0) + 1;
@@ -309,7 +534,62 @@ export async function getIngestionReport(
     ingestion,
     chunks,
     sections,
+    schedules,
     totalAnchors: chunks.reduce((sum, c) => sum + (c.anchors?.length || 0), 0),
     sectionTypeCounts: sectionTypeCounts as any,
   };
 }
+
+/** Schedule tables extracted from a form version, in document order */
+export async function getFormSchedules(
+  orgId: string, formId: string, formVersionId: string,
+): Promise<FormScheduleTable[]> {
+  const snap = await getDocs(
+    query(collection(db, formVersionSchedulesPath(orgId, formId, formVersionId)), orderBy('index')),
+  );
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as FormScheduleTable));
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Limit / deductible reconciliation
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Compare the limits and deductibles printed in a form version's schedules
+ * with the limit and deductible option sets configured on a coverage.
+ * Every printed item carries the anchor of the row it was read from.
+ */
+export async function reconcileFormSchedules(
+  orgId: string, formId: string, formVersionId: string,
+  productId: string, coverageId: string,
+): Promise<ScheduleReconciliationReport> {
+  const [schedules, limitSets, deductibleSets] = await Promise.all([
+    getFormSchedules(orgId, formId, formVersionId),
+    getLimitOptionSets(productId, coverageId),
+    fetchDeductibleOptionSets(productId, coverageId),
+  ]);
+
+  const limits = await Promise.all(
+    limitSets.map(set => getLimitOptionSetWithOptions(productId, coverageId, set.id)),
+  );
+  const deductibles = await Promise.all(
+    deductibleSets.map(async optionSet => ({
+      optionSet,
+      options: await fetchDeductibleOptions(productId, coverageId, optionSet.id),
+    })),
+  );
+
+  const configured = [
+    ...configuredLimitAmounts(limits.filter((l): l is NonNullable<typeof l> => l !== null)),
+    ...configuredDeductibleAmounts(deductibles),
+  ];
+
+  return {
+    formId,
+    formVersionId,
+    productId,
+    coverageId,
+    ...reconcileSchedules(schedules, configured),
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Rate Impact Service
+ *
+ * Reads policy samples (CSV / XLSX) for rate-impact analysis and stores the
+ * resulting exhibits. Exhibits attached to a change set are picked up by the
+ * filing package build.
+ *
+ * Paths:
+ *   orgs/{orgId}/rateImpactExhibits/{exhibitId}
+ */
+
+import {
+  collection, doc, addDoc, getDocs, updateDoc, deleteDoc,
+  query, where, orderBy, Timestamp,
+} from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import { orgRateImpactExhibitsPath, rateImpactExhibitDocPath } from '../repositories/paths';
+import type { RateImpactExhibit } from '../types/rateImpact';
+
+// ════════════════════════════════════════════════════════════════════════
+// Policy sample upload
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Read the first sheet of a CSV or XLSX file into rows keyed by header.
+ * Feed the rows to `parsePolicySample` from the rate impact engine.
+ */
+export async function readPolicySampleFile(file: File): Promise<Record<string, unknown>[]> {
+  const XLSXmod = await import('xlsx');
+  const XLSX = XLSXmod.default || XLSXmod;
+
+  const buf = await file.arrayBuffer();
+  // raw: CSV text is not type-guessed, so codes like "007" keep their zeros
+  const wb = XLSX.read(buf, { cellDates: true, raw: true });
+  const ws = wb.Sheets[wb.SheetNames[0]];
+  if (!ws) throw new Error('The file has no sheets');
+  return XLSX.utils.sheet_to_json<Record<string, unknown>>(ws, { defval: '' });
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Exhibit CRUD
+// ════════════════════════════════════════════════════════════════════════
+
+export async function saveRateImpactExhibit(
+  orgId: string,
+  data: Omit<RateImpactExhibit, 'id' | 'createdAt' | 'createdBy'>,
+): Promise<RateImpactExhibit> {
+  const uid = auth.currentUser?.uid;
+  if (!uid) throw new Error('Not authenticated');
+
+  const now = Timestamp.now();
+  const ref = await addDoc(collection(db, orgRateImpactExhibitsPath(orgId)), {
+    ...data,
+    createdAt: now,
+    createdBy: uid,
+  });
+
+  return { id: ref.id, ...data, createdAt: now, createdBy: uid };
+}
+
+export async function listRateImpactExhibits(
+  orgId: string,
+  filters?: { changeSetId?: string; rateProgramId?: string },
+): Promise<RateImpactExhibit[]> {
+  let q = query(collection(db, orgRateImpactExhibitsPath(orgId)), orderBy('createdAt', 'desc'));
+
+  if (filters?.changeSetId) {
+    q = query(collection(db, orgRateImpactExhibitsPath(orgId)),
+      where('changeSetId', '==', filters.changeSetId),
+      orderBy('createdAt', 'desc'));
+  } else if (filters?.rateProgramId) {
+    q = query(collection(db, orgRateImpactExhibitsPath(orgId)),
+      where('rateProgramId', '==', filters.rateProgramId),
+      orderBy('createdAt', 'desc'));
+  }
+
+  const snap = await getDocs(q);
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as RateImpactExhibit));
+}
+
+/**
+ * Attach an exhibit to a change set so its filing package includes it,
+ * or detach it by passing null.
+ */
+export async function attachRateImpactExhibit(
+  orgId: string,
+  exhibitId: string,
+  changeSetId: string | null,
+): Promise<void> {
+  await updateDoc(doc(db, rateImpactExhibitDocPath(orgId, exhibitId)), { changeSetId });
+}
+
+export async function deleteRateImpactExhibit(orgId: string, exhibitId: string): Promise<void> {
+  await deleteDoc(doc(db, rateImpactExhibitDocPath(orgId, exhibitId)));
+}
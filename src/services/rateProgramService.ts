@@ -28,8 +28,9 @@ import type {
   RatingStep,
   RatingTestCase,
 } from '../types/ratingEngine';
-import { hashSteps } from '../engine/hashUtils';
+import { hashRateProgram } from '../engine/hashUtils';
 import { validateDeterminism } from '../engine/ratingEngine';
+import { getTables, getVersions as getTableVersions } from './tableService';
 import type { DeterminismValidationResult } from '../types/ratingEngine';
 
 // ============================================================================
@@ -231,6 +232,13 @@ export async function updateVersion(
   await updateDoc(docRef, data);
 }
 
+/** Every table version in the org, so lookups of unknown tables are caught */
+async function loadTableVersionIds(orgId: string): Promise<string[]> {
+  const tables = await getTables(orgId);
+  const versions = await Promise.all(tables.map(t => getTableVersions(orgId, t.id)));
+  return versions.flat().map(v => v.id);
+}
+
 /**
  * Validate a rate program version for determinism issues.
  * Call this before publishing to ensure the program will produce
@@ -242,8 +250,11 @@ export async function validateVersion(
   versionId: string,
   availableFieldCodes: string[]
 ): Promise<DeterminismValidationResult> {
-  const steps = await getSteps(orgId, rateProgramId, versionId);
-  return validateDeterminism(steps, availableFieldCodes);
+  const [steps, tableVersionIds] = await Promise.all([
+    getSteps(orgId, rateProgramId, versionId),
+    loadTableVersionIds(orgId),
+  ]);
+  return validateDeterminism(steps, availableFieldCodes, tableVersionIds);
 }
 
 /**
@@ -261,17 +272,22 @@ export async function publishVersion(
 ): Promise<void> {
   const versionRef = doc(db, getRateProgramVersionsPath(orgId, rateProgramId), versionId);
 
-  // Get steps to compute hash and validate
-  const steps = await getSteps(orgId, rateProgramId, versionId);
+  // Get steps and the aggregation stage to compute hash and validate
+  const [version, steps, tableVersionIds] = await Promise.all([
+    getVersion(orgId, rateProgramId, versionId),
+    getSteps(orgId, rateProgramId, versionId),
+    loadTableVersionIds(orgId),
+  ]);
 
   // Validate determinism before publishing
-  const validation = validateDeterminism(steps, availableFieldCodes);
+  const validation = validateDeterminism(steps, availableFieldCodes, tableVersionIds);
   if (!validation.isValid) {
     const errorMessages = validation.errors.map(e => e.message).join('; ');
     throw new Error(`Cannot publish: determinism validation failed. ${errorMessages}`);
   }
 
-  const stepsHash = hashSteps(steps as unknown as { id: string; [key: string]: unknown }[]);
+  // Aggregation changes multi-unit premiums, so it is part of the hash
+  const stepsHash = hashRateProgram(steps, version?.aggregation);
 
   await updateDoc(versionRef, {
     status: 'published' as RateProgramVersionStatus,
@@ -355,6 +371,29 @@ export async function deleteStep(
   await deleteDoc(docRef);
 }
 
+/**
+ * Replace a version's steps with `steps`, keeping each step's ID so steps
+ * stay identifiable across versions. Steps not in the list are deleted.
+ */
+export async function replaceSteps(
+  orgId: string,
+  rateProgramId: string,
+  versionId: string,
+  steps: RatingStep[]
+): Promise<void> {
+  const path = getStepsPath(orgId, rateProgramId, versionId);
+  const existing = await getDocs(collection(db, path));
+  const keep = new Set(steps.map(s => s.id));
+  const batch = writeBatch(db);
+
+  existing.docs.filter(d => !keep.has(d.id)).forEach(d => batch.delete(d.ref));
+  for (const { id, ...step } of steps) {
+    batch.set(doc(db, path, id), { ...step, rateProgramVersionId: versionId, updatedAt: Timestamp.now() });
+  }
+
+  await batch.commit();
+}
+
 export async function reorderSteps(
   orgId: string,
   rateProgramId: string,
@@ -426,13 +465,26 @@ export async function cloneVersion(
   // Create new version
   const newVersionId = await createVersion(orgId, rateProgramId, userId);
 
-  // Copy all steps from source version
+  // Carry over the aggregation stage so multi-unit rating keeps working
+  const source = await getVersion(orgId, rateProgramId, sourceVersionId);
+  if (source?.aggregation) {
+    await updateVersion(orgId, rateProgramId, newVersionId, { aggregation: source.aggregation });
+  }
+
+  // Copy all steps from source version under the same IDs, so a step can
+  // be matched across versions when diffing or rebasing
   const sourceSteps = await getSteps(orgId, rateProgramId, sourceVersionId);
+  const batch = writeBatch(db);
 
   for (const step of sourceSteps) {
     const { id, rateProgramVersionId, createdAt, updatedAt, ...stepData } = step;
-    await addStep(orgId, rateProgramId, newVersionId, stepData);
+    batch.set(doc(db, getStepsPath(orgId, rateProgramId, newVersionId), id), {
+      ...stepData,
+      rateProgramVersionId: newVersionId,
+      createdAt: Timestamp.now(),
+    });
   }
+  await batch.commit();
 
   return newVersionId;
 }
@@ -6,21 +6,35 @@
  *   2. Loads form-use links and clause links for impact analysis
  *   3. Feeds everything into the redline engine
  *   4. Returns the RedlineComparisonResult
+ *
+ * It also stores marked-up PDF / DOCX exports of a comparison as redline
+ * exhibits; exhibits attached to a change set are picked up by the filing
+ * package build.
+ *
+ * Paths:
+ *   orgs/{orgId}/redlineExhibits/{exhibitId}
+ *   /orgs/{orgId}/redlineExhibits/{exhibitId}/{fileName}   (Storage)
  */
 
 import {
-  collection, getDocs, query, where, orderBy,
+  collection, doc, getDocs, setDoc, updateDoc, deleteDoc, query, where, orderBy, Timestamp,
 } from 'firebase/firestore';
-import { db } from '../firebase';
+import { ref, uploadBytes, deleteObject } from 'firebase/storage';
+import { db, auth, storage } from '../firebase';
 import {
   formVersionChunksPath, formVersionSectionsPath, orgFormUsesPath, orgClauseLinksPath,
+  orgRedlineExhibitsPath, redlineExhibitDocPath, redlineExhibitStoragePath,
 } from '../repositories/paths';
 import { getForm, getFormVersion } from './formService';
 import { runRedlineComparison, type RedlineInput } from '../engine/redlineEngine';
+import { exportRedline, redlineExportFileName } from '../engine/redlineExport';
 import type { FormIngestionChunk, FormIngestionSection } from '../types/ingestion';
 import type { FormUse } from '../types/form';
 import type { ClauseLink } from '../types/clause';
-import type { RedlineComparisonResult } from '../types/redline';
+import type {
+  RedlineComparisonResult, RedlineExhibit, RedlineExportFormat, RedlineExportLayout,
+} from '../types/redline';
+import { REDLINE_EXPORT_FORMAT_CONFIG, REDLINE_EXPORT_LAYOUT_LABELS } from '../types/redline';
 
 // ════════════════════════════════════════════════════════════════════════
 // Data loaders
@@ -121,3 +135,90 @@ export async function compareFormEditions(
 
   return runRedlineComparison(input);
 }
+
+// ════════════════════════════════════════════════════════════════════════
+// Redline exhibits
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Render a comparison to PDF / DOCX, upload the file and record it as an
+ * exhibit, attached to `changeSetId` when given.
+ */
+export async function saveRedlineExhibit(
+  orgId: string,
+  result: RedlineComparisonResult,
+  format: RedlineExportFormat,
+  layout: RedlineExportLayout,
+  changeSetId?: string | null,
+): Promise<RedlineExhibit> {
+  const uid = auth.currentUser?.uid;
+  if (!uid) throw new Error('Not authenticated');
+
+  const bytes = await exportRedline(result, format, { layout });
+  const { mimeType } = REDLINE_EXPORT_FORMAT_CONFIG[format];
+  const fileName = redlineExportFileName(result, format);
+
+  const exhibitRef = doc(collection(db, orgRedlineExhibitsPath(orgId)));
+  const storagePath = redlineExhibitStoragePath(orgId, exhibitRef.id, fileName);
+  await uploadBytes(ref(storage, storagePath), bytes, { contentType: mimeType });
+
+  const data: Omit<RedlineExhibit, 'id'> = {
+    title: `${result.formNumber} Redline (${REDLINE_EXPORT_LAYOUT_LABELS[layout]}): ` +
+      `${result.leftEditionDate} → ${result.rightEditionDate}`,
+    formId: result.formId,
+    formNumber: result.formNumber,
+    leftVersionId: result.leftVersionId,
+    leftEditionDate: result.leftEditionDate,
+    rightVersionId: result.rightVersionId,
+    rightEditionDate: result.rightEditionDate,
+    format,
+    layout,
+    fileName,
+    storagePath,
+    mimeType,
+    sizeBytes: bytes.length,
+    stats: result.stats,
+    changeSetId: changeSetId ?? null,
+    createdAt: Timestamp.now(),
+    createdBy: uid,
+  };
+  await setDoc(exhibitRef, data);
+  return { id: exhibitRef.id, ...data };
+}
+
+export async function listRedlineExhibits(
+  orgId: string,
+  filters?: { changeSetId?: string; formId?: string },
+): Promise<RedlineExhibit[]> {
+  let q = query(collection(db, orgRedlineExhibitsPath(orgId)), orderBy('createdAt', 'desc'));
+
+  if (filters?.changeSetId) {
+    q = query(collection(db, orgRedlineExhibitsPath(orgId)),
+      where('changeSetId', '==', filters.changeSetId),
+      orderBy('createdAt', 'desc'));
+  } else if (filters?.formId) {
+    q = query(collection(db, orgRedlineExhibitsPath(orgId)),
+      where('formId', '==', filters.formId),
+      orderBy('createdAt', 'desc'));
+  }
+
+  const snap = await getDocs(q);
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as RedlineExhibit));
+}
+
+/**
+ * Attach an exhibit to a change set so its filing package includes it,
+ * or detach it by passing null.
+ */
+export async function attachRedlineExhibit(
+  orgId: string,
+  exhibitId: string,
+  changeSetId: string | null,
+): Promise<void> {
+  await updateDoc(doc(db, redlineExhibitDocPath(orgId, exhibitId)), { changeSetId });
+}
+
+export async function deleteRedlineExhibit(orgId: string, exhibit: RedlineExhibit): Promise<void> {
+  await deleteObject(ref(storage, exhibit.storagePath)).catch(() => undefined);
+  await deleteDoc(doc(db, redlineExhibitDocPath(orgId, exhibit.id)));
+}
@@ -0,0 +1,159 @@
+/**
+ * Rule Migration Service
+ *
+ * Migrates legacy Rules DSL rules (top-level `rules` collection) into the
+ * versioned underwriting rules engine. Converted rules are created as draft
+ * versions and added to a change set; nothing is published.
+ *
+ * A dry run converts and checks equivalence without writing anything.
+ *
+ * Created rules record the legacy rule they came from, so re-running a
+ * migration skips rules that were already migrated and reports them.
+ */
+
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from '../firebase';
+import type { Rule } from '../types';
+import type { RuleEvaluationContext as DslEvaluationContext } from '../types/rulesDsl';
+import type {
+  MigratedRuleRecord,
+  RuleMigrationOptions,
+  RuleMigrationReport,
+} from '../types/ruleMigration';
+import { convertLegacyRule, checkRuleEquivalence, indexMigratedRules } from '../engine/ruleMigration';
+import { evaluateRule } from './ruleBuilderService';
+import { createRule, createRuleVersion, getRules } from './rulesEngineService';
+import { addItemToChangeSet, getOrCreateActiveChangeSet } from './changeSetService';
+import logger, { LOG_CATEGORIES } from '../utils/logger';
+
+export interface LegacyRuleMigrationRequest extends RuleMigrationOptions {
+  orgId: string;
+  productId: string;
+  userId: string;
+  /** Convert and check equivalence only; create nothing */
+  dryRun: boolean;
+  /** Target change set; defaults to the user's active draft change set */
+  changeSetId?: string;
+  /** Limit the migration to these legacy rule IDs */
+  legacyRuleIds?: string[];
+  /** Extra inputs to evaluate both representations on, besides generated probes */
+  sampleContexts?: DslEvaluationContext[];
+}
+
+/** Load legacy DSL rules for a product */
+export async function loadLegacyRules(productId: string): Promise<Rule[]> {
+  const snapshot = await getDocs(query(collection(db, 'rules'), where('productId', '==', productId)));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Rule));
+}
+
+/**
+ * Convert a product's legacy rules, check each conversion for equivalence,
+ * and (unless dry-running) create draft engine rules in a change set.
+ *
+ * Rules with conversion errors or equivalence mismatches are never written.
+ * Rules an earlier run migrated are reported in `alreadyMigrated` instead.
+ */
+export async function migrateLegacyRules(
+  request: LegacyRuleMigrationRequest,
+): Promise<RuleMigrationReport> {
+  const { orgId, productId, userId, dryRun } = request;
+
+  let rules = await loadLegacyRules(productId);
+  if (request.legacyRuleIds) {
+    const wanted = new Set(request.legacyRuleIds);
+    rules = rules.filter(r => wanted.has(r.id));
+  }
+  rules.sort((a, b) => a.name.localeCompare(b.name));
+
+  const conversions = rules.map(rule => convertLegacyRule(rule, request));
+  const equivalence = rules.map((rule, i) =>
+    checkRuleEquivalence(rule, conversions[i], evaluateRule, request.sampleContexts),
+  );
+
+  const report: RuleMigrationReport = {
+    dryRun,
+    changeSetId: null,
+    conversions,
+    issues: conversions.flatMap(c => c.issues),
+    equivalence,
+    migrated: [],
+    alreadyMigrated: [],
+    convertedCount: 0,
+    skippedCount: 0,
+    errors: [],
+  };
+
+  const ready = conversions.filter((c, i) => c.convertible && equivalence[i].equivalent);
+  report.skippedCount = conversions.length - ready.length;
+
+  const existing = indexMigratedRules(await getRules(orgId));
+  const pending = ready.filter(c => {
+    const rule = existing.get(c.legacyRuleId);
+    if (!rule?.versionCount) return true;
+    report.alreadyMigrated.push({ legacyRuleId: c.legacyRuleId, ruleId: rule.id });
+    return false;
+  });
+
+  if (dryRun) {
+    report.convertedCount = pending.length;
+    return report;
+  }
+
+  const changeSetId = request.changeSetId ?? (await getOrCreateActiveChangeSet(orgId)).id;
+  report.changeSetId = changeSetId;
+
+  const legacyById = new Map(rules.map(r => [r.id, r]));
+  for (const conversion of pending) {
+    const legacy = legacyById.get(conversion.legacyRuleId);
+    try {
+      // Resume a rule an earlier run created but never versioned
+      const ruleId = existing.get(conversion.legacyRuleId)?.id ?? await createRule(orgId, {
+        name: conversion.legacyRuleName,
+        description: legacy?.condition ?? '',
+        type: conversion.ruleType,
+        productId,
+        legacyRuleId: conversion.legacyRuleId,
+      }, userId);
+
+      const ruleVersionId = await createRuleVersion(orgId, ruleId, {
+        conditions: conversion.conditions,
+        outcome: conversion.outcome,
+        scope: conversion.scope,
+        effectiveStart: conversion.effectiveStart,
+        effectiveEnd: conversion.effectiveEnd,
+        summary: 'Migrated from legacy rule',
+        notes: `Legacy rule ${conversion.legacyRuleId}`,
+      }, userId);
+
+      await addItemToChangeSet(orgId, changeSetId, {
+        artifactType: 'rule',
+        artifactId: ruleId,
+        artifactName: conversion.legacyRuleName,
+        versionId: ruleVersionId,
+        action: 'create',
+      });
+
+      const record: MigratedRuleRecord = { legacyRuleId: conversion.legacyRuleId, ruleId, ruleVersionId };
+      report.migrated.push(record);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error';
+      report.errors.push(`Failed to migrate "${conversion.legacyRuleName}": ${msg}`);
+      logger.error(LOG_CATEGORIES.DATA, 'Legacy rule migration failed', {
+        legacyRuleId: conversion.legacyRuleId,
+      }, err as Error);
+    }
+  }
+
+  report.convertedCount = report.migrated.length;
+
+  logger.info(LOG_CATEGORIES.DATA, 'Legacy rules migrated', {
+    productId,
+    changeSetId,
+    migratedCount: report.migrated.length,
+    skippedCount: report.skippedCount,
+    alreadyMigratedCount: report.alreadyMigrated.length,
+    errorCount: report.errors.length,
+  });
+
+  return report;
+}
@@ -24,6 +24,7 @@ import {
   Unsubscribe,
 } from 'firebase/firestore';
 import { db, safeOnSnapshot } from '../firebase';
+import { versioningService } from './versioningService';
 import type {
   UnderwritingRule,
   UnderwritingRuleVersion,
@@ -33,6 +34,7 @@ import type {
   RuleOutcome,
   RuleScope,
 } from '../types/rulesEngine';
+import type { ResolvedVersionRef } from '../types/versionResolution';
 
 // ============================================================================
 // Collection Paths
@@ -50,7 +52,7 @@ const getRuleVersionsPath = (orgId: string, ruleId: string) =>
 
 export async function createRule(
   orgId: string,
-  data: { name: string; description?: string; type: UnderwritingRuleType; productId?: string },
+  data: { name: string; description?: string; type: UnderwritingRuleType; productId?: string; legacyRuleId?: string },
   userId: string,
 ): Promise<string> {
   const colRef = collection(db, getRulesPath(orgId));
@@ -62,6 +64,7 @@ export async function createRule(
     description: data.description || '',
     type: data.type,
     productId: data.productId || null,
+    ...(data.legacyRuleId && { legacyRuleId: data.legacyRuleId }),
     versionCount: 0,
     archived: false,
     createdAt: now,
@@ -319,30 +322,58 @@ export function subscribeToRuleVersions(
 
 /**
  * Load all published rule versions for a given org, suitable for evaluation.
+ * With a productId, only that product's rules: those tagged with it, or
+ * untagged rules whose published version is scoped to one of its versions.
  * Returns RuleWithVersion[] ready for the rules engine.
  */
 export async function loadPublishedRulesForEvaluation(
   orgId: string,
+  filters?: { productId?: string },
 ): Promise<import('../engine/rulesEngine').RuleWithVersion[]> {
   const rules = await getRules(orgId, { archived: false });
+  const productVersionIds = filters?.productId
+    ? new Set((await versioningService.getVersions(orgId, 'product', filters.productId)).map(v => v.id))
+    : null;
   const result: import('../engine/rulesEngine').RuleWithVersion[] = [];
 
   for (const rule of rules) {
     if (!rule.latestPublishedVersionId) continue;
+    if (filters?.productId && rule.productId && rule.productId !== filters.productId) continue;
     const version = await getRuleVersion(orgId, rule.id, rule.latestPublishedVersionId);
-    if (version && version.status === 'published') {
-      result.push({
-        ruleId: rule.id,
-        ruleName: rule.name,
-        ruleType: rule.type,
-        version,
-      });
-    }
+    if (!version || version.status !== 'published') continue;
+    if (productVersionIds && !rule.productId && !productVersionIds.has(version.scope?.productVersionId)) continue;
+    result.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      ruleType: rule.type,
+      version,
+    });
   }
 
   return result;
 }
 
+/**
+ * Load exactly the rule versions resolved for an effective date, so the
+ * rules evaluated match the versions stamped on the result.
+ */
+export async function loadResolvedRulesForEvaluation(
+  orgId: string,
+  ruleVersions: ResolvedVersionRef[],
+): Promise<import('../engine/rulesEngine').RuleWithVersion[]> {
+  const loaded = await Promise.all(ruleVersions.map(async ref => {
+    const [rule, version] = await Promise.all([
+      getRule(orgId, ref.artifactId),
+      getRuleVersion(orgId, ref.artifactId, ref.versionId),
+    ]);
+    if (!rule || !version) {
+      throw new Error(`Resolved rule version ${ref.artifactName} v${ref.versionNumber} could not be loaded`);
+    }
+    return { ruleId: rule.id, ruleName: rule.name, ruleType: rule.type, version };
+  }));
+  return loaded;
+}
+
 /**
  * Load all rule versions (any status) for readiness checks.
  */
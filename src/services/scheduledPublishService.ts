@@ -0,0 +1,164 @@
+/**
+ * Scheduled Publish Service
+ *
+ * Schedules, postpones and cancels effective-dated change set publishes
+ * (all via Cloud Functions, which own the schedule documents) and reads
+ * schedules for the change set page and the release calendar.
+ *
+ * Paths:
+ *   orgs/{orgId}/scheduledPublishes/{scheduleId}
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { collection, doc, getDoc, getDocs, query, where, orderBy, Timestamp } from 'firebase/firestore';
+import { functions, db, isAuthReady, safeOnSnapshot } from '../firebase';
+import logger, { LOG_CATEGORIES } from '../utils/logger';
+import { orgScheduledPublishesPath } from '../repositories/paths';
+import { validateScheduleWindow, isValidTimeZone } from '../engine/scheduledPublish';
+import type { ChangeSetItem } from '../types/changeSet';
+import type {
+  ScheduledPublish,
+  ScheduledPublishStatus,
+  ScheduleWindow,
+  ScheduledPublishRunSummary,
+} from '../types/scheduledPublish';
+
+// ════════════════════════════════════════════════════════════════════════
+// Commands
+// ════════════════════════════════════════════════════════════════════════
+
+/** Schedule an approved change set to publish at a local go-live */
+export async function schedulePublish(
+  orgId: string,
+  changeSetId: string,
+  window: ScheduleWindow,
+): Promise<{ scheduleId: string; runAt: string }> {
+  const errors = validateScheduleWindow(window);
+  if (errors.length > 0) throw new Error(errors.join('; '));
+
+  const callable = httpsCallable<{ orgId: string; changeSetId: string } & ScheduleWindow, { scheduleId: string; runAt: string }>(
+    functions, 'schedulePublish',
+  );
+  const result = await callable({ orgId, changeSetId, ...window });
+  logger.info(LOG_CATEGORIES.DATA, 'Change set publish scheduled', { changeSetId, ...window });
+  return result.data;
+}
+
+/**
+ * Move a schedule to a new go-live. Resumes a held or failed schedule if
+ * preflight now passes; otherwise it stays held and `holdReason` says why.
+ */
+export async function postponeScheduledPublish(
+  orgId: string,
+  scheduleId: string,
+  window: ScheduleWindow,
+  note?: string,
+): Promise<{ status: ScheduledPublishStatus; runAt: string; holdReason?: string }> {
+  const errors = validateScheduleWindow(window);
+  if (errors.length > 0) throw new Error(errors.join('; '));
+
+  const callable = httpsCallable<
+    { orgId: string; scheduleId: string; note?: string } & ScheduleWindow,
+    { status: ScheduledPublishStatus; runAt: string; holdReason?: string }
+  >(functions, 'postponeScheduledPublish');
+  const result = await callable({ orgId, scheduleId, ...window, ...(note ? { note } : {}) });
+  logger.info(LOG_CATEGORIES.DATA, 'Scheduled publish moved', { scheduleId, ...window, status: result.data.status });
+  return result.data;
+}
+
+export async function cancelScheduledPublish(orgId: string, scheduleId: string, reason?: string): Promise<void> {
+  const callable = httpsCallable(functions, 'cancelScheduledPublish');
+  await callable({ orgId, scheduleId, ...(reason ? { reason } : {}) });
+  logger.info(LOG_CATEGORIES.DATA, 'Scheduled publish cancelled', { scheduleId });
+}
+
+/**
+ * Run the org's due schedules now (admin). `asOf` is honoured only by the
+ * Functions emulator, to exercise a go-live ahead of time.
+ */
+export async function runScheduledPublishesNow(orgId: string, asOf?: Date): Promise<ScheduledPublishRunSummary> {
+  const callable = httpsCallable<{ orgId: string; asOf?: string }, ScheduledPublishRunSummary>(
+    functions, 'runScheduledPublishesNow',
+  );
+  const result = await callable({ orgId, ...(asOf ? { asOf: asOf.toISOString() } : {}) });
+  return result.data;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Queries
+// ════════════════════════════════════════════════════════════════════════
+
+const toSchedule = (d: { id: string; data: () => unknown }) => ({ id: d.id, ...(d.data() as object) } as ScheduledPublish);
+
+/** Schedules whose go-live falls in [from, to), in go-live order */
+export async function listScheduledPublishes(orgId: string, from: Date, to: Date): Promise<ScheduledPublish[]> {
+  const snap = await getDocs(query(
+    collection(db, orgScheduledPublishesPath(orgId)),
+    where('runAt', '>=', Timestamp.fromDate(from)),
+    where('runAt', '<', Timestamp.fromDate(to)),
+    orderBy('runAt', 'asc'),
+  ));
+  return snap.docs.map(toSchedule);
+}
+
+/**
+ * Subscribe to a change set's schedules, newest first (at most one is
+ * active; the rest are history).
+ */
+export function subscribeToChangeSetSchedules(
+  orgId: string,
+  changeSetId: string,
+  callback: (schedules: ScheduledPublish[]) => void,
+): () => void {
+  if (!isAuthReady()) {
+    callback([]);
+    return () => {};
+  }
+
+  return safeOnSnapshot(
+    query(collection(db, orgScheduledPublishesPath(orgId)), where('changeSetId', '==', changeSetId)),
+    (snapshot) => {
+      const schedules = snapshot.docs.map(toSchedule)
+        .sort((a, b) => (b.createdAt?.toMillis?.() ?? 0) - (a.createdAt?.toMillis?.() ?? 0));
+      callback(schedules);
+    },
+    (err) => {
+      logger.warn(LOG_CATEGORIES.DATA, 'Scheduled publish subscription failed', { changeSetId, error: String(err) });
+      callback([]);
+    },
+  );
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Defaults
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * The time zone a go-live is entered in: the products' time zone when
+ * every product the change set touches agrees on one, else the browser's.
+ */
+export async function defaultScheduleTimeZone(orgId: string, items: ChangeSetItem[]): Promise<string> {
+  const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+  // Coverage and data dictionary ids are `{productId}:{id}`
+  const productIds = new Set<string>();
+  for (const item of items) {
+    if (item.artifactType === 'product') productIds.add(item.artifactId);
+    else if (item.artifactType === 'coverage' || item.artifactType === 'dataDictionary') {
+      productIds.add(item.artifactId.split(':')[0]);
+    }
+  }
+
+  const zones = new Set<string>();
+  for (const productId of productIds) {
+    try {
+      const snap = await getDoc(doc(db, `orgs/${orgId}/products/${productId}`));
+      const timeZone = snap.exists() ? (snap.data().timeZone as string | undefined) : undefined;
+      if (timeZone && isValidTimeZone(timeZone)) zones.add(timeZone);
+    } catch {
+      // Unreadable product: fall back to the browser zone
+    }
+  }
+
+  return zones.size === 1 ? [...zones][0] : browserZone;
+}
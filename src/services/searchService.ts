@@ -3,111 +3,160 @@
  *
  * Client-side Firestore query layer for cross-artifact search.
  * Queries the `orgs/{orgId}/searchIndex` collection using
- * `array-contains` on the `prefixes[]` field for type-ahead,
- * with optional type filtering.
+ * `array-contains` on the `prefixes[]` field for type-ahead and on
+ * `bodyTokens[]` for form / clause wording, with optional type and
+ * facet (product, state, status) filtering.
+ *
+ * Also starts and watches admin reindex jobs (`reindexSearch` callable).
  */
 
 import {
   collection,
+  doc,
   query,
   where,
   orderBy,
   limit as firestoreLimit,
   getDocs,
+  type QueryDocumentSnapshot,
 } from 'firebase/firestore';
-import { db } from '../firebase';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions, safeOnSnapshot } from '../firebase';
+import { orgSearchIndexPath, orgSearchIndexJobsPath, searchIndexJobDocPath } from '../repositories/paths';
 import { tokenise } from '../utils/searchTokens';
+import {
+  scoreSearchDoc,
+  toSearchResult,
+  applyFacetFilters,
+  countFacets,
+} from '../utils/searchResults';
+import logger, { LOG_CATEGORIES } from '../utils/logger';
 import type {
   SearchQuery,
   SearchResult,
   SearchIndexDoc,
   SearchableArtifactType,
+  FacetedSearchResponse,
+  SearchReindexJob,
 } from '../types/search';
+import { MAX_PREFIX_LENGTH } from '../types/search';
 
 // ════════════════════════════════════════════════════════════════════════
 // Core search
 // ════════════════════════════════════════════════════════════════════════
 
+type ScoredResult = SearchResult & { _score: number };
+
 /**
- * Search the index for matching artifacts.
+ * Fetch candidates for the longest query token and score them.
  *
- * Strategy:
- *  1. Tokenise the raw query.
- *  2. Take the first token and use `array-contains` on `prefixes`.
- *     (Firestore only allows one `array-contains` per query.)
- *  3. Client-side filter: check that every remaining token exists
- *     in the document's `tokens[]` or `prefixes[]`.
- *  4. Rank: exact token match > prefix match > partial.
+ * Two queries run side by side (Firestore only allows one
+ * `array-contains` per query):
+ *  - `prefixes` contains the token, cut to MAX_PREFIX_LENGTH since
+ *    longer prefixes are never stored;
+ *  - `bodyTokens` contains the whole token.
+ * Every query token must then match client-side (see scoreSearchDoc).
  */
-export async function searchArtifacts(params: SearchQuery): Promise<SearchResult[]> {
-  const { orgId, query: rawQuery, types, limit: maxResults = 25 } = params;
-
-  if (!orgId || !rawQuery || rawQuery.trim().length === 0) return [];
-
+async function fetchScored(
+  orgId: string,
+  rawQuery: string,
+  fetchLimit: number,
+  types?: SearchableArtifactType[],
+): Promise<ScoredResult[]> {
   const queryTokens = tokenise(rawQuery);
   if (queryTokens.length === 0) return [];
 
-  // Use the first (most specific / longest) token for the Firestore query.
   // Sort by length descending so the longest token is the primary filter.
   const sorted = [...queryTokens].sort((a, b) => b.length - a.length);
   const primaryToken = sorted[0];
 
-  // Build Firestore query
-  const colRef = collection(db, `orgs/${orgId}/searchIndex`);
-  const constraints: Parameters<typeof query>[1][] = [
-    where('prefixes', 'array-contains', primaryToken),
-    orderBy('updatedAt', 'desc'),
-    firestoreLimit(Math.min(maxResults * 3, 100)), // over-fetch for client filter
-  ];
-
-  // Type filter (only if specific types requested)
-  if (types && types.length > 0 && types.length <= 10) {
-    constraints.push(where('type', 'in', types));
-  }
-
-  const q = query(colRef, ...constraints);
-  const snap = await getDocs(q);
+  const colRef = collection(db, orgSearchIndexPath(orgId));
+  const build = (field: 'prefixes' | 'bodyTokens', value: string) => {
+    const constraints: Parameters<typeof query>[1][] = [
+      where(field, 'array-contains', value),
+      orderBy('updatedAt', 'desc'),
+      firestoreLimit(fetchLimit),
+    ];
+    // Type filter (only if specific types requested)
+    if (types && types.length > 0 && types.length <= 10) {
+      constraints.push(where('type', 'in', types));
+    }
+    return query(colRef, ...constraints);
+  };
 
-  // Client-side multi-token filter + scoring
-  const scored: Array<SearchResult & { _score: number }> = [];
+  const [prefixSnap, bodySnap] = await Promise.all([
+    getDocs(build('prefixes', primaryToken.slice(0, MAX_PREFIX_LENGTH))),
+    getDocs(build('bodyTokens', primaryToken)).catch((err) => {
+      // Body matching is additive; a missing index must not break type-ahead
+      logger.warn(LOG_CATEGORIES.DATA, 'Body-text search query failed', { orgId, error: String(err) });
+      return null;
+    }),
+  ]);
 
-  snap.forEach((docSnap) => {
+  const seen = new Set<string>();
+  const scored: ScoredResult[] = [];
+  const consider = (docSnap: QueryDocumentSnapshot) => {
+    if (seen.has(docSnap.id)) return;
+    seen.add(docSnap.id);
     const d = docSnap.data() as SearchIndexDoc;
-
-    // Check all query tokens match
-    const allMatch = sorted.every((tok) =>
-      d.tokens.includes(tok) || d.prefixes.includes(tok)
-    );
-    if (!allMatch) return;
-
-    // Score: exact token hits are worth more than prefix hits
-    let score = 0;
-    for (const tok of sorted) {
-      if (d.tokens.includes(tok)) score += 10;
-      else if (d.prefixes.includes(tok)) score += 3;
-    }
-    // Boost exact title match
-    if (d.title.toLowerCase().includes(rawQuery.toLowerCase())) score += 20;
-
-    scored.push({
-      id: docSnap.id,
-      type: d.type,
-      artifactId: d.artifactId,
-      versionId: d.versionId,
-      title: d.title,
-      subtitle: d.subtitle,
-      route: d.route,
-      parentId: d.parentId,
-      parentType: d.parentType,
-      _score: score,
-    });
-  });
+    const match = scoreSearchDoc(d, sorted, rawQuery);
+    if (!match) return;
+    scored.push({ ...toSearchResult(docSnap.id, d, match.bodyMatch), _score: match.score });
+  };
+  prefixSnap.forEach(consider);
+  bodySnap?.forEach(consider);
 
   // Sort by score descending, then by title
   scored.sort((a, b) => b._score - a._score || a.title.localeCompare(b.title));
+  return scored;
+}
+
+const stripScore = ({ _score, ...rest }: ScoredResult): SearchResult => rest;
 
-  // Strip internal _score and limit
-  return scored.slice(0, maxResults).map(({ _score, ...rest }) => rest);
+/**
+ * Search the index for matching artifacts.
+ *
+ * Strategy:
+ *  1. Tokenise the raw query.
+ *  2. Take the longest token and query `prefixes` and `bodyTokens`.
+ *  3. Client-side filter: check that every remaining token exists
+ *     in the document's `tokens[]`, `prefixes[]` or `bodyTokens[]`.
+ *  4. Rank: exact token match > prefix match > body text.
+ *  5. Apply product / state / status facet filters.
+ */
+export async function searchArtifacts(params: SearchQuery): Promise<SearchResult[]> {
+  const { orgId, query: rawQuery, types, limit: maxResults = 25 } = params;
+
+  if (!orgId || !rawQuery || rawQuery.trim().length === 0) return [];
+
+  const scored = await fetchScored(orgId, rawQuery, Math.min(maxResults * 3, 100), types); // over-fetch for client filter
+  const filtered = applyFacetFilters(scored.map(stripScore), params);
+
+  return filtered.slice(0, maxResults);
+}
+
+/**
+ * Faceted search for the palette chips and the results page.
+ * Type filtering happens client-side so the type counts cover every type.
+ */
+export async function searchArtifactsFaceted(params: SearchQuery): Promise<FacetedSearchResponse> {
+  const { orgId, query: rawQuery, limit: maxResults = 50 } = params;
+  const empty: FacetedSearchResponse = {
+    results: [],
+    facets: { type: {}, productId: {}, state: {}, status: {} },
+    total: 0,
+  };
+
+  if (!orgId || !rawQuery || rawQuery.trim().length === 0) return empty;
+
+  const all = (await fetchScored(orgId, rawQuery, 100)).map(stripScore);
+  const filtered = applyFacetFilters(all, params);
+
+  return {
+    results: filtered.slice(0, maxResults),
+    facets: countFacets(all),
+    total: all.length,
+  };
 }
 
 // ════════════════════════════════════════════════════════════════════════
@@ -125,7 +174,7 @@ export async function findWhereUsed(
 ): Promise<SearchResult[]> {
   if (!orgId || !artifactId) return [];
 
-  const colRef = collection(db, `orgs/${orgId}/searchIndex`);
+  const colRef = collection(db, orgSearchIndexPath(orgId));
   const constraints: Parameters<typeof query>[1][] = [
     where('parentId', '==', artifactId),
     firestoreLimit(50),
@@ -139,18 +188,7 @@ export async function findWhereUsed(
 
   const results: SearchResult[] = [];
   snap.forEach((docSnap) => {
-    const d = docSnap.data() as SearchIndexDoc;
-    results.push({
-      id: docSnap.id,
-      type: d.type,
-      artifactId: d.artifactId,
-      versionId: d.versionId,
-      title: d.title,
-      subtitle: d.subtitle,
-      route: d.route,
-      parentId: d.parentId,
-      parentType: d.parentType,
-    });
+    results.push(toSearchResult(docSnap.id, docSnap.data() as SearchIndexDoc));
   });
 
   return results;
@@ -179,6 +217,66 @@ export function routeForResult(result: SearchResult): string {
     case 'changeset':   return `/changesets/${result.artifactId}`;
     case 'stateProgram':return `/products/${result.parentId}/states/${result.artifactId}`;
     case 'task':        return `/tasks/${result.artifactId}`;
+    case 'clause':      return `/clauses?clause=${result.artifactId}`;
+    case 'dataDictionaryField': return '/data-dictionary';
+    case 'scenario':    return result.productIds?.[0] ? `/pricing/${result.productIds[0]}` : '/products';
+    case 'filingPackage': return '/filings';
+    case 'endorsement':
+    case 'coverageTemplate': return '/coverage-library';
     default:            return '/';
   }
 }
+
+// ════════════════════════════════════════════════════════════════════════
+// Reindex (admin)
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Start a backfill / reindex run for the org (admins only).
+ *
+ * The job ID is allocated client-side so callers can subscribe to
+ * progress before the (long-running) callable returns.
+ */
+export function startSearchReindex(
+  orgId: string,
+  types?: SearchableArtifactType[],
+): { jobId: string; done: Promise<SearchReindexJob> } {
+  const jobId = doc(collection(db, orgSearchIndexJobsPath(orgId))).id;
+  const callable = httpsCallable<
+    { orgId: string; jobId: string; types?: SearchableArtifactType[] },
+    SearchReindexJob
+  >(functions, 'reindexSearch');
+
+  const done = callable({ orgId, jobId, ...(types?.length ? { types } : {}) }).then((res) => {
+    logger.info(LOG_CATEGORIES.DATA, 'Search reindex completed', { orgId, jobId, processed: res.data.processed });
+    return res.data;
+  });
+
+  return { jobId, done };
+}
+
+/** Watch a reindex job's progress document */
+export function subscribeToSearchReindexJob(
+  orgId: string,
+  jobId: string,
+  callback: (job: SearchReindexJob | null) => void,
+): () => void {
+  return safeOnSnapshot(
+    doc(db, searchIndexJobDocPath(orgId, jobId)),
+    (snap) => callback(snap.exists() ? ({ id: snap.id, ...snap.data() } as SearchReindexJob) : null),
+    (err) => {
+      logger.warn(LOG_CATEGORIES.DATA, 'Reindex job subscription failed', { orgId, jobId, error: String(err) });
+      callback(null);
+    },
+  );
+}
+
+/** The most recent reindex jobs, newest first */
+export async function getRecentSearchReindexJobs(orgId: string, max = 5): Promise<SearchReindexJob[]> {
+  const snap = await getDocs(query(
+    collection(db, orgSearchIndexJobsPath(orgId)),
+    orderBy('startedAt', 'desc'),
+    firestoreLimit(max),
+  ));
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as SearchReindexJob));
+}
@@ -0,0 +1,219 @@
+/**
+ * Semantic Search Service
+ *
+ * Builds and queries the in-memory hybrid search index over policy
+ * language (see engine/semanticSearch):
+ *   - Ingestion chunks of every indexed form version
+ *   - The latest version of every active library clause
+ *   - Coverage descriptions of every product
+ *
+ * The index is built once per org and cached for INDEX_TTL_MS. Form text
+ * is the bulk of it, so each ingested form version's passages are persisted
+ * in IndexedDB, keyed by when its ingestion completed: a rebuild downloads
+ * chunks only for versions ingested since.
+ *
+ * Search is BM25-only until `setEmbeddingProvider` configures a
+ * model-backed provider; doing so drops cached indexes built without it.
+ * The hashing provider in engine/semanticSearch is a test stand-in, not a
+ * production embedder.
+ */
+
+import { collection, getDocs, query, orderBy, type Timestamp } from 'firebase/firestore';
+import { db } from '../firebase';
+import {
+  orgProductsPath, orgCoveragesPath, formVersionChunksPath,
+} from '../repositories/paths';
+import { getForms, getFormVersions } from './formService';
+import { getClauses, getClauseVersions } from './clauseService';
+import {
+  buildSemanticIndex, searchSemanticIndex,
+  formChunkDocs, clauseVersionDoc, coverageDoc, type SemanticIndex,
+} from '../engine/semanticSearch';
+import type { Coverage } from '../types';
+import type { FormIngestionChunk, IngestionMetadata } from '../types/ingestion';
+import type { OrgFormVersion } from '../types/form';
+import type {
+  EmbeddingProvider, HybridSearchOptions, SemanticSearchDoc, SemanticSearchHit,
+} from '../types/semanticSearch';
+
+const INDEX_TTL_MS = 10 * 60 * 1000;
+
+let provider: EmbeddingProvider | null = null;
+const indexCache = new Map<string, { index: SemanticIndex; builtAt: number }>();
+const pending = new Map<string, Promise<SemanticIndex>>();
+
+// ════════════════════════════════════════════════════════════════════════
+// Provider
+// ════════════════════════════════════════════════════════════════════════
+
+export function setEmbeddingProvider(next: EmbeddingProvider | null): void {
+  if (next?.id === provider?.id) return;
+  provider = next;
+  indexCache.clear();
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  return provider;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Persisted form text
+// ════════════════════════════════════════════════════════════════════════
+
+const DOC_CACHE_DB = 'semanticSearch';
+const DOC_CACHE_STORE = 'formTextDocs';
+
+interface CachedFormTextDocs {
+  /** orgId/formVersionId */
+  key: string;
+  /** Ingestion completion time (ms) the docs were built from */
+  stamp: number;
+  docs: SemanticSearchDoc[];
+}
+
+let docCache: Promise<IDBDatabase | null> | null = null;
+
+/** The IndexedDB cache, or null where IndexedDB is unavailable */
+function openDocCache(): Promise<IDBDatabase | null> {
+  if (!docCache) {
+    docCache = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DOC_CACHE_DB, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(DOC_CACHE_STORE, { keyPath: 'key' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+  return docCache;
+}
+
+async function readCachedDocs(key: string): Promise<CachedFormTextDocs | undefined> {
+  const idb = await openDocCache();
+  if (!idb) return undefined;
+  return new Promise(resolve => {
+    const request = idb.transaction(DOC_CACHE_STORE).objectStore(DOC_CACHE_STORE).get(key);
+    request.onsuccess = () => resolve(request.result as CachedFormTextDocs | undefined);
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+async function writeCachedDocs(entry: CachedFormTextDocs): Promise<void> {
+  const idb = await openDocCache();
+  if (!idb) return;
+  await new Promise<void>(resolve => {
+    const tx = idb.transaction(DOC_CACHE_STORE, 'readwrite');
+    tx.objectStore(DOC_CACHE_STORE).put(entry);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => resolve();
+  });
+}
+
+/** When the version's current chunks were written; re-ingestion changes it */
+function ingestionStamp(version: OrgFormVersion): number {
+  const completedAt = (version as OrgFormVersion & { ingestion?: IngestionMetadata }).ingestion?.completedAt;
+  return (completedAt ?? (version.updatedAt as Timestamp | undefined))?.toMillis?.() ?? 0;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Data loaders
+// ════════════════════════════════════════════════════════════════════════
+
+async function loadFormTextDocs(orgId: string): Promise<SemanticSearchDoc[]> {
+  const forms = await getForms(orgId, { archived: false });
+  const perForm = await Promise.all(forms.map(async form => {
+    const versions = (await getFormVersions(orgId, form.id)).filter(v => v.indexingStatus === 'completed');
+    const perVersion = await Promise.all(versions.map(async version => {
+      const key = `${orgId}/${version.id}`;
+      const stamp = ingestionStamp(version);
+      const cached = await readCachedDocs(key);
+      if (cached && stamp > 0 && cached.stamp === stamp) return cached.docs;
+
+      const snap = await getDocs(
+        query(collection(db, formVersionChunksPath(orgId, form.id, version.id)), orderBy('index')),
+      );
+      const chunks = snap.docs.map(d => ({ id: d.id, ...d.data() } as FormIngestionChunk));
+      const docs = formChunkDocs({
+        formId: form.id,
+        formNumber: form.formNumber,
+        formTitle: form.title,
+        formVersionId: version.id,
+        editionDate: version.editionDate || '',
+      }, chunks);
+      if (stamp > 0) await writeCachedDocs({ key, stamp, docs });
+      return docs;
+    }));
+    return perVersion.flat();
+  }));
+  return perForm.flat();
+}
+
+async function loadClauseDocs(orgId: string): Promise<SemanticSearchDoc[]> {
+  const clauses = await getClauses(orgId, { archived: false });
+  const docs = await Promise.all(clauses.map(async clause => {
+    const [latest] = await getClauseVersions(orgId, clause.id);
+    return latest?.text ? clauseVersionDoc(clause, latest) : null;
+  }));
+  return docs.filter((d): d is SemanticSearchDoc => d !== null);
+}
+
+async function loadCoverageDocs(orgId: string): Promise<SemanticSearchDoc[]> {
+  const productsSnap = await getDocs(collection(db, orgProductsPath(orgId)));
+  const perProduct = await Promise.all(productsSnap.docs.map(async p => {
+    const snap = await getDocs(collection(db, orgCoveragesPath(orgId, p.id)));
+    return snap.docs
+      .map(d => coverageDoc(p.id, (p.data().name as string) || '', { id: d.id, ...d.data() } as Coverage))
+      .filter((d): d is SemanticSearchDoc => d !== null);
+  }));
+  return perProduct.flat();
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Index + search
+// ════════════════════════════════════════════════════════════════════════
+
+/** The org's index, built on first use and rebuilt when stale or on request */
+export async function getSemanticSearchIndex(
+  orgId: string, options?: { rebuild?: boolean },
+): Promise<SemanticIndex> {
+  const cached = indexCache.get(orgId);
+  if (cached && !options?.rebuild && Date.now() - cached.builtAt < INDEX_TTL_MS) return cached.index;
+
+  const inFlight = pending.get(orgId);
+  if (inFlight) return inFlight;
+
+  const build = (async () => {
+    const [formDocs, clauseDocs, coverageDocs] = await Promise.all([
+      loadFormTextDocs(orgId),
+      loadClauseDocs(orgId),
+      loadCoverageDocs(orgId),
+    ]);
+    const index = await buildSemanticIndex([...formDocs, ...clauseDocs, ...coverageDocs], provider);
+    indexCache.set(orgId, { index, builtAt: Date.now() });
+    return index;
+  })();
+
+  pending.set(orgId, build);
+  try {
+    return await build;
+  } finally {
+    pending.delete(orgId);
+  }
+}
+
+export function invalidateSemanticSearchIndex(orgId: string): void {
+  indexCache.delete(orgId);
+}
+
+/**
+ * Search form text, clauses and coverage descriptions. Form-text hits link
+ * to the form viewer at the matched page and anchor.
+ */
+export async function semanticSearch(
+  orgId: string,
+  queryText: string,
+  options?: HybridSearchOptions,
+): Promise<SemanticSearchHit[]> {
+  if (!orgId || !queryText.trim()) return [];
+  const index = await getSemanticSearchIndex(orgId);
+  return searchSemanticIndex(index, queryText, provider, options);
+}
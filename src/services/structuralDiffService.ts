@@ -0,0 +1,96 @@
+/**
+ * Structural Diff Service
+ *
+ * Loads version snapshots for the structural diff engine: version content
+ * with metadata stripped, plus the rating steps of rate program versions,
+ * which live in a subcollection rather than on the version document.
+ */
+
+import { versioningService } from './versioningService';
+import { getSteps } from './rateProgramService';
+import { diffStructures, versionContent } from '../engine/structuralDiff';
+import type { ChangeSetItem } from '../types/changeSet';
+import type { VersionedEntityType, VersionedDocument } from '../types/versioning';
+import type { ItemStructuralDiff } from '../types/structuralDiff';
+
+const VERSIONED_TYPES: VersionedEntityType[] = ['product', 'coverage', 'form', 'rule', 'rateProgram', 'table', 'dataDictionary'];
+
+type VersionDoc = VersionedDocument<Record<string, unknown>> & { clonedFrom?: string | { versionId?: string } };
+
+export interface ItemEntity {
+  entityType: VersionedEntityType;
+  entityId: string;
+  parentId?: string;
+}
+
+/**
+ * Entity coordinates for a change set item, or null when the artifact type
+ * is not versioned. Coverage and data dictionary ids are `{productId}:{id}`.
+ */
+export function changeSetItemEntity(item: Pick<ChangeSetItem, 'artifactType' | 'artifactId'>): ItemEntity | null {
+  if (!VERSIONED_TYPES.includes(item.artifactType as VersionedEntityType)) return null;
+  const entityType = item.artifactType as VersionedEntityType;
+  if (entityType === 'coverage' || entityType === 'dataDictionary') {
+    const [parentId, entityId] = item.artifactId.split(':');
+    return { entityType, entityId, parentId };
+  }
+  return { entityType, entityId: item.artifactId };
+}
+
+/** Diffable content of a version */
+export async function loadVersionContent(
+  orgId: string,
+  entity: ItemEntity,
+  version: VersionDoc,
+): Promise<Record<string, unknown>> {
+  const content = versionContent(version as unknown as Record<string, unknown>);
+  if (entity.entityType !== 'rateProgram') return content;
+  const steps = await getSteps(orgId, entity.entityId, version.id);
+  return { ...content, steps };
+}
+
+/** The version a draft was branched from; tables record it as `clonedFrom.versionId` */
+export function branchedFrom(version: VersionDoc): string | null {
+  if (version.clonedFromVersionId) return version.clonedFromVersionId;
+  if (typeof version.clonedFrom === 'string') return version.clonedFrom;
+  return version.clonedFrom?.versionId ?? null;
+}
+
+/**
+ * The changes a change set item makes. The base is the version the draft
+ * was branched from, else the newest published version before it; items
+ * that create their artifact diff against empty content.
+ */
+export async function diffChangeSetItem(orgId: string, item: ChangeSetItem): Promise<ItemStructuralDiff> {
+  const entity = changeSetItemEntity(item);
+  if (!entity) {
+    throw new Error(`${item.artifactName || item.artifactId} (${item.artifactType}) is not versioned`);
+  }
+
+  const versions = await versioningService.getVersions<Record<string, unknown>>(
+    orgId, entity.entityType, entity.entityId, entity.parentId,
+  ) as VersionDoc[];
+  const version = versions.find(v => v.id === item.versionId);
+  if (!version) throw new Error('Version not found');
+
+  const baseId = branchedFrom(version);
+  const base = item.action === 'create'
+    ? null
+    : (baseId ? versions.find(v => v.id === baseId) : undefined)
+      ?? versions.find(v => v.versionNumber < version.versionNumber && (v.status === 'published' || v.status === 'archived'))
+      ?? null;
+
+  const [before, after] = await Promise.all([
+    base ? loadVersionContent(orgId, entity, base) : Promise.resolve({}),
+    loadVersionContent(orgId, entity, version),
+  ]);
+
+  return {
+    itemId: item.id,
+    versionId: version.id,
+    versionNumber: version.versionNumber ?? null,
+    baseVersionId: base?.id ?? null,
+    baseVersionNumber: base?.versionNumber ?? null,
+    diff: diffStructures(entity.entityType, before, after),
+  };
+}
@@ -22,6 +22,8 @@ import {
   Unsubscribe,
 } from 'firebase/firestore';
 import { db, safeOnSnapshot } from '../firebase';
+import { toRatingTableData } from '../engine/ratingEngine';
+import type { RatingTableData } from '../types/ratingEngine';
 import type {
   RatingTable,
   TableVersion,
@@ -553,6 +555,30 @@ export function exportToCSV(
   return rows.join('\n');
 }
 
+// ============================================================================
+// Rating Engine Tables
+// ============================================================================
+
+/**
+ * Load the given table versions in the form the rating engine looks up,
+ * keyed by table version ID. Unknown IDs are left out.
+ */
+export async function loadRatingTables(
+  orgId: string,
+  tableVersionIds: string[]
+): Promise<Map<string, RatingTableData>> {
+  const wanted = new Set(tableVersionIds);
+  const result = new Map<string, RatingTableData>();
+  if (wanted.size === 0) return result;
+
+  const tables = await getTables(orgId);
+  const versions = (await Promise.all(tables.map(t => getVersions(orgId, t.id)))).flat();
+  for (const version of versions) {
+    if (wanted.has(version.id)) result.set(version.id, toRatingTableData(version));
+  }
+  return result;
+}
+
 // ============================================================================
 // Cell Operations
 // ============================================================================
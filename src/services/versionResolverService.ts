@@ -0,0 +1,153 @@
+/**
+ * Version Resolver Service
+ *
+ * Loads the rate programs, rating tables and underwriting rules that apply to
+ * a product and hands them to the version resolver engine, which selects the
+ * published versions in force on a policy effective date.
+ *
+ * Rules are org-level; their versions are scoped to a product version, so
+ * only versions scoped to the product version being rated take part.
+ */
+
+import {
+  getRatePrograms,
+  getVersions as getRateProgramVersions,
+  getSteps,
+} from './rateProgramService';
+import { getTables, getVersions as getTableVersions } from './tableService';
+import { getRules, getRuleVersions } from './rulesEngineService';
+import {
+  resolveEffectiveVersion,
+  resolveVersionSet,
+  bindTableVersions,
+  stepTableVersionIds,
+} from '../engine/versionResolver';
+import type { RatingStep } from '../types/ratingEngine';
+import type {
+  VersionedArtifactInput,
+  ResolvedVersionSet,
+} from '../types/versionResolution';
+import logger, { LOG_CATEGORIES } from '../utils/logger';
+
+/** Resolved version set plus the steps of the resolved rate program versions */
+export interface ResolvedRatingVersions {
+  versionSet: ResolvedVersionSet;
+  /** Steps keyed by rate program version ID, with table references rebound */
+  stepsByRateProgramVersion: Record<string, RatingStep[]>;
+}
+
+async function loadRateProgramArtifacts(
+  orgId: string,
+  productId: string,
+  stateCode: string,
+): Promise<VersionedArtifactInput[]> {
+  const programs = (await getRatePrograms(orgId, 'active')).filter(p =>
+    p.productId === productId &&
+    (p.scope !== 'state' || !p.scopeId || p.scopeId === stateCode),
+  );
+
+  return Promise.all(programs.map(async program => ({
+    artifactType: 'rateProgram' as const,
+    artifactId: program.id,
+    artifactName: program.name,
+    versions: await getRateProgramVersions(orgId, program.id),
+  })));
+}
+
+async function loadRuleArtifacts(
+  orgId: string,
+  productVersionId: string,
+): Promise<VersionedArtifactInput[]> {
+  const rules = await getRules(orgId, { archived: false });
+
+  const artifacts = await Promise.all(rules.map(async rule => {
+    const versions = (await getRuleVersions(orgId, rule.id))
+      .filter(v => v.scope?.productVersionId === productVersionId);
+    return {
+      artifactType: 'rule' as const,
+      artifactId: rule.id,
+      artifactName: rule.name,
+      versions: versions.map(v => ({
+        id: v.id,
+        versionNumber: v.versionNumber,
+        status: v.status,
+        effectiveStart: v.effectiveStart,
+        effectiveEnd: v.effectiveEnd,
+        stateCode: v.scope?.stateCode ?? null,
+      })),
+    };
+  }));
+
+  return artifacts.filter(a => a.versions.length > 0);
+}
+
+/** Load tables whose versions are referenced by any of the given steps */
+async function loadTableArtifacts(
+  orgId: string,
+  steps: RatingStep[],
+): Promise<VersionedArtifactInput[]> {
+  const referenced = new Set(steps.flatMap(stepTableVersionIds));
+  if (referenced.size === 0) return [];
+
+  const tables = await getTables(orgId);
+  const artifacts = await Promise.all(tables.map(async table => ({
+    artifactType: 'table' as const,
+    artifactId: table.id,
+    artifactName: table.name,
+    versions: await getTableVersions(orgId, table.id),
+  })));
+
+  return artifacts.filter(a => a.versions.some(v => referenced.has(v.id)));
+}
+
+/**
+ * Resolve the published rate program, table and rule versions in force for
+ * a product version, state and effective date, and load the resolved rating
+ * steps.
+ */
+export async function resolveVersionsForRating(
+  orgId: string,
+  productId: string,
+  productVersionId: string,
+  stateCode: string,
+  effectiveDate: Date,
+): Promise<ResolvedRatingVersions> {
+  const [rateProgramArtifacts, ruleArtifacts] = await Promise.all([
+    loadRateProgramArtifacts(orgId, productId, stateCode),
+    loadRuleArtifacts(orgId, productVersionId),
+  ]);
+
+  // Steps of the rate program versions in force determine which tables apply
+  const rawSteps: Record<string, RatingStep[]> = {};
+  for (const artifact of rateProgramArtifacts) {
+    const version = resolveEffectiveVersion(artifact.versions, effectiveDate, stateCode);
+    if (version) {
+      rawSteps[version.id] = await getSteps(orgId, artifact.artifactId, version.id);
+    }
+  }
+
+  const tableArtifacts = await loadTableArtifacts(orgId, Object.values(rawSteps).flat());
+
+  const versionSet = resolveVersionSet({
+    productId,
+    stateCode,
+    effectiveDate,
+    artifacts: [...rateProgramArtifacts, ...tableArtifacts, ...ruleArtifacts],
+  });
+
+  if (versionSet.issues.length > 0) {
+    logger.warn(LOG_CATEGORIES.DATA, 'Effective range issues during version resolution', {
+      productId,
+      stateCode,
+      effectiveDate: versionSet.effectiveDate,
+      issueCount: versionSet.issues.length,
+    });
+  }
+
+  const stepsByRateProgramVersion: Record<string, RatingStep[]> = {};
+  for (const [versionId, steps] of Object.entries(rawSteps)) {
+    stepsByRateProgramVersion[versionId] = bindTableVersions(steps, versionSet.tableVersionBindings);
+  }
+
+  return { versionSet, stepsByRateProgramVersion };
+}
@@ -17,6 +17,7 @@ import {
   Timestamp,
   writeBatch,
   serverTimestamp,
+  deleteField,
 } from 'firebase/firestore';
 import { db } from '@/firebase';
 import {
@@ -34,6 +35,8 @@ import {
   compareVersions,
   cloneForNewVersion,
 } from '@/utils/versioningUtils';
+import { diffStructures, versionContent } from '@/engine/structuralDiff';
+import { rebasedVersionFields } from '@/engine/changeSetRebase';
 import logger, { LOG_CATEGORIES } from '@/utils/logger';
 
 // ============================================================================
@@ -50,6 +53,8 @@ export interface CreateVersionParams<T> {
   notes?: string;
   effectiveStart?: string;
   effectiveEnd?: string;
+  /** Version this draft was branched from (used for stale-base detection) */
+  clonedFromVersionId?: string;
 }
 
 export interface UpdateVersionParams<T> {
@@ -195,7 +200,7 @@ class VersioningService {
     params: CreateVersionParams<T>,
     parentId?: string
   ): Promise<VersionedDocument<T>> {
-    const { orgId, entityType, entityId, data, userId, summary, notes, effectiveStart, effectiveEnd } = params;
+    const { orgId, entityType, entityId, data, userId, summary, notes, effectiveStart, effectiveEnd, clonedFromVersionId } = params;
     const path = getVersionsCollectionPath(orgId, entityType, entityId, parentId);
 
     // Get existing versions to determine next version number
@@ -218,6 +223,7 @@ class VersioningService {
       updatedBy: userId,
       summary: summary || `Version ${nextVersionNumber}`,
       notes,
+      ...(clonedFromVersionId ? { clonedFromVersionId } : {}),
       data,
     };
 
@@ -314,9 +320,40 @@ class VersioningService {
       notes: `Cloned from version ${source.versionNumber}`,
       effectiveStart: source.effectiveStart,
       effectiveEnd: source.effectiveEnd,
+      clonedFromVersionId: sourceVersionId,
     }, parentId);
   }
 
+  /**
+   * Replace a draft's content with its rebased content, in the entity's own
+   * layout (`data` or top-level fields), and move its base to
+   * `baseVersionId` (the published version it was rebased onto).
+   * Rate program steps are not on the version document; write them first.
+   */
+  async rebaseVersion(
+    params: { orgId: string; entityType: VersionedEntityType; entityId: string; versionId: string; content: Record<string, unknown>; baseVersionId: string; userId: string },
+    parentId?: string
+  ): Promise<void> {
+    const { orgId, entityType, entityId, versionId, content, baseVersionId, userId } = params;
+    const current = await this.getVersion<Record<string, unknown>>(orgId, entityType, entityId, versionId, parentId);
+    if (!current) throw new Error('Version not found');
+    if (!isVersionEditable(current.status)) {
+      throw new Error(`Cannot rebase version with status: ${current.status}`);
+    }
+
+    const { set, remove } = rebasedVersionFields(entityType, current as unknown as Record<string, unknown>, content);
+    const path = getVersionsCollectionPath(orgId, entityType, entityId, parentId);
+    await updateDoc(doc(db, path, versionId), {
+      ...set,
+      ...Object.fromEntries(remove.map(field => [field, deleteField()])),
+      clonedFromVersionId: baseVersionId,
+      updatedAt: serverTimestamp(),
+      updatedBy: userId,
+    });
+
+    logger.info(LOG_CATEGORIES.DATA, 'Version rebased', { entityType, entityId, versionId, baseVersionId });
+  }
+
   /**
    * Compare two versions
    */
@@ -337,12 +374,19 @@ class VersioningService {
       throw new Error('One or both versions not found');
     }
 
-    return compareVersions(
-      leftVersionId,
-      leftVersion.data as Record<string, unknown>,
-      rightVersionId,
-      rightVersion.data as Record<string, unknown>
-    );
+    return {
+      ...compareVersions(
+        leftVersionId,
+        leftVersion.data as Record<string, unknown>,
+        rightVersionId,
+        rightVersion.data as Record<string, unknown>
+      ),
+      structural: diffStructures(
+        entityType,
+        versionContent(leftVersion as unknown as Record<string, unknown>),
+        versionContent(rightVersion as unknown as Record<string, unknown>)
+      ),
+    };
   }
 }
 
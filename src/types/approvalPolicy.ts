@@ -0,0 +1,177 @@
+/**
+ * Approval Policy Types
+ *
+ * Data model:
+ *   orgs/{orgId}/settings/approvalPolicy   — the org's approval policy
+ *
+ * An approval policy is a list of rules. Each rule has a `when` condition
+ * group (same AND/OR shape as the rules DSL) over facts about a change set
+ * and its items, and a `require` clause naming the role, the quorum of
+ * distinct approvers and whether authors may approve.
+ *
+ * Submitting a change set for review evaluates the policy and creates one
+ * approval slot per required approver; each slot records the rules that
+ * caused it so reviewers can see why it is needed.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import type { ConditionOperator, LogicalOperator } from './rulesDsl';
+import type { ApprovalRoleRequired } from './changeSet';
+
+// ════════════════════════════════════════════════════════════════════════
+// Facts
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Facts a policy condition can test.
+ *
+ * `item.*` facts make a rule match per item; a rule that only tests
+ * `changeSet.*` facts matches once for the whole change set.
+ */
+export type ApprovalFact =
+  | 'item.artifactType'
+  | 'item.action'
+  | 'item.states'
+  | 'item.priorApproval'
+  | 'changeSet.itemCount'
+  | 'changeSet.artifactTypes'
+  | 'changeSet.states'
+  | 'changeSet.priorApproval'
+  | 'changeSet.premiumImpactPct';
+
+export const APPROVAL_FACT_CONFIG: Record<ApprovalFact, { label: string; kind: 'string' | 'list' | 'number' | 'boolean' }> = {
+  'item.artifactType':          { label: 'artifact type',                    kind: 'string' },
+  'item.action':                { label: 'item action',                      kind: 'string' },
+  'item.states':                { label: 'item states',                      kind: 'list' },
+  'item.priorApproval':         { label: 'item is in a prior-approval state', kind: 'boolean' },
+  'changeSet.itemCount':        { label: 'item count',                       kind: 'number' },
+  'changeSet.artifactTypes':    { label: 'artifact types in the change set', kind: 'list' },
+  'changeSet.states':           { label: 'states in the change set',         kind: 'list' },
+  'changeSet.priorApproval':    { label: 'change set touches a prior-approval state', kind: 'boolean' },
+  'changeSet.premiumImpactPct': { label: 'premium impact %',                 kind: 'number' },
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// Conditions
+// ════════════════════════════════════════════════════════════════════════
+
+export type ApprovalConditionOperator = Extract<
+  ConditionOperator,
+  'equals' | 'notEquals' | 'in' | 'notIn' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'exists' | 'notExists'
+>;
+
+/**
+ * One comparison. For list facts, `equals`/`in` match when any element
+ * matches and `contains` tests membership of a single value.
+ * Numeric comparisons use the absolute value of `premiumImpactPct`.
+ */
+export interface ApprovalCondition {
+  fact: ApprovalFact;
+  operator: ApprovalConditionOperator;
+  value?: string | number | boolean | string[];
+}
+
+export interface ApprovalConditionGroup {
+  op: LogicalOperator;
+  /** An empty AND group always matches */
+  conditions: Array<ApprovalCondition | ApprovalConditionGroup>;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Rules and policy
+// ════════════════════════════════════════════════════════════════════════
+
+export interface ApprovalRequirementSpec {
+  role: ApprovalRoleRequired;
+  /** Distinct approvers needed (default 1) */
+  quorum?: number;
+  /** Authors of the change set (owner, creator, anyone who added an item) may not approve */
+  noSelfApproval?: boolean;
+}
+
+export interface ApprovalPolicyRule {
+  id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  when: ApprovalConditionGroup;
+  require: ApprovalRequirementSpec;
+}
+
+export interface ApprovalSegregation {
+  /** Applies noSelfApproval to every requirement */
+  noSelfApproval: boolean;
+  /** One person may satisfy at most one requirement on a change set */
+  distinctApprovers: boolean;
+}
+
+export interface ApprovalPolicy {
+  /** Schema version for forward compatibility */
+  version: number;
+  rules: ApprovalPolicyRule[];
+  /** States where filings need prior approval (drives the priorApproval facts) */
+  priorApprovalStates: string[];
+  segregation: ApprovalSegregation;
+  updatedAt?: Timestamp;
+  updatedBy?: string;
+}
+
+export const APPROVAL_POLICY_VERSION = 1;
+
+// ════════════════════════════════════════════════════════════════════════
+// Evaluation results
+// ════════════════════════════════════════════════════════════════════════
+
+/** Why a requirement exists: one entry per matching rule */
+export interface ApprovalReason {
+  ruleId: string;
+  ruleName: string;
+  /** Human-readable rendering of the rule's condition */
+  explanation: string;
+  /** Items that matched (empty for change-set-level rules) */
+  itemIds: string[];
+  itemNames: string[];
+}
+
+/**
+ * A role that must sign off, merged across every rule that asked for it:
+ * the largest quorum wins and noSelfApproval applies if any rule set it.
+ */
+export interface ApprovalRequirement {
+  /** Stable key; also stored on each approval slot */
+  key: string;
+  role: ApprovalRoleRequired;
+  quorum: number;
+  noSelfApproval: boolean;
+  reasons: ApprovalReason[];
+}
+
+/** Facts for one change set, gathered by the service layer */
+export interface ApprovalPolicyInput {
+  itemCount: number;
+  items: Array<{
+    id: string;
+    name: string;
+    artifactType: string;
+    action: string;
+    states: string[];
+  }>;
+  /** Largest absolute premium change across attached rate-impact exhibits, or null */
+  premiumImpactPct: number | null;
+}
+
+/** Progress of one requirement against its approval slots */
+export interface ApprovalRequirementProgress {
+  requirement: ApprovalRequirement;
+  approvedCount: number;
+  rejected: boolean;
+  approverUserIds: string[];
+  approverNames: string[];
+  satisfied: boolean;
+}
+
+/** Result of checking whether a user may approve a requirement */
+export interface ApprovalEligibility {
+  allowed: boolean;
+  reason?: string;
+}
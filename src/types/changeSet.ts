@@ -5,6 +5,7 @@
 
 import { Timestamp } from 'firebase/firestore';
 import { VersionedEntityType } from './versioning';
+import type { ApprovalReason } from './approvalPolicy';
 
 // ============================================================================
 // ChangeSet Status
@@ -101,6 +102,10 @@ export interface ChangeSet {
   /** Counts for quick display */
   itemCount?: number;
   pendingApprovalCount?: number;
+  /** Published change set this one reverts */
+  revertOfChangeSetId?: string;
+  /** Change set created to revert this one */
+  revertedByChangeSetId?: string;
 }
 
 /**
@@ -131,6 +136,15 @@ export interface ChangeSetApproval {
   decidedAt?: Timestamp;
   notes?: string;
   createdAt: Timestamp;
+  /** Policy requirement this slot belongs to (absent on legacy per-role slots) */
+  requirementKey?: string;
+  /** 1-based slot number within the requirement */
+  slot?: number;
+  /** Distinct approvers the requirement needs */
+  quorum?: number;
+  noSelfApproval?: boolean;
+  /** Policy rules that caused the requirement */
+  reasons?: ApprovalReason[];
 }
 
 // ============================================================================
@@ -141,7 +155,8 @@ export type AuditLogAction =
   | 'CREATE' | 'UPDATE' | 'DELETE' | 'ARCHIVE'
   | 'APPROVE' | 'REJECT' | 'PUBLISH' | 'FILE'
   | 'ADD_TO_CHANGESET' | 'REMOVE_FROM_CHANGESET'
-  | 'SUBMIT_FOR_REVIEW' | 'RETURN_TO_DRAFT';
+  | 'SUBMIT_FOR_REVIEW' | 'RETURN_TO_DRAFT'
+  | 'REVERT';
 
 export type AuditLogEntityType =
   | 'product' | 'coverage' | 'form' | 'rule' | 'rateProgram' | 'table' | 'dataDictionary'
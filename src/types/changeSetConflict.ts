@@ -0,0 +1,120 @@
+/**
+ * Change Set Conflict & Rebase Types
+ *
+ * Two change sets can hold draft versions of the same artifact. The one
+ * that publishes second would overwrite the first, so:
+ *   - Overlaps: another open change set holds an item for the same artifact
+ *   - Stale bases: the draft was branched from a version that is no longer
+ *     the latest published one (someone else published in between)
+ *
+ * A stale draft is rebased by re-applying its field-level diff (base →
+ * draft) onto the latest published version. Fields both sides changed are
+ * surfaced as conflicts for the author to resolve.
+ */
+
+import type { ChangeSetStatus, ChangeSetItem } from './changeSet';
+import type { ThreeWayMerge } from './structuralDiff';
+
+// ════════════════════════════════════════════════════════════════════════
+// Detection
+// ════════════════════════════════════════════════════════════════════════
+
+/** Minimal version shape needed for stale-base detection */
+export interface VersionRef {
+  id: string;
+  versionNumber: number;
+  status: string;
+  clonedFromVersionId?: string;
+}
+
+export interface StaleBaseResult {
+  stale: boolean;
+  /** Version the draft was branched from (recorded or inferred) */
+  baseVersionId: string | null;
+  baseVersionNumber: number | null;
+  /** Whether baseVersionId was inferred from version numbers */
+  baseInferred: boolean;
+  latestPublishedVersionId: string | null;
+  latestPublishedVersionNumber: number | null;
+}
+
+/** Another open change set holding the same artifact */
+export interface ChangeSetOverlap {
+  itemId: string;
+  artifactType: ChangeSetItem['artifactType'];
+  artifactId: string;
+  artifactName?: string;
+  versionId: string;
+  otherChangeSetId: string;
+  otherChangeSetName: string;
+  otherChangeSetStatus: ChangeSetStatus;
+  otherVersionId: string;
+  /** Both change sets hold the very same version document */
+  sameVersion: boolean;
+}
+
+/** A draft branched from a superseded published version */
+export interface StaleChangeSetItem extends StaleBaseResult {
+  itemId: string;
+  artifactType: ChangeSetItem['artifactType'];
+  artifactId: string;
+  artifactName?: string;
+  versionId: string;
+}
+
+export interface ChangeSetConflictReport {
+  overlaps: ChangeSetOverlap[];
+  staleItems: StaleChangeSetItem[];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Rebase
+// ════════════════════════════════════════════════════════════════════════
+
+/** A field both the draft and the newly published version changed */
+export interface RebaseFieldConflict {
+  path: string;
+  /** e.g. `Rating steps › Territory factor › Factor value` */
+  label: string;
+  baseValue: unknown;
+  /** Value in the draft being rebased */
+  oursValue: unknown;
+  /** Value in the latest published version */
+  theirsValue: unknown;
+}
+
+export type RebaseResolution = 'ours' | 'theirs';
+
+export interface RebasePlan {
+  baseVersionId: string;
+  targetVersionId: string;
+  /** Latest published data with the draft's non-conflicting changes applied */
+  mergedData: Record<string, unknown>;
+  /** Draft changes re-applied cleanly */
+  appliedPaths: string[];
+  /** Draft changes the published version already contains */
+  redundantPaths: string[];
+  conflicts: RebaseFieldConflict[];
+  /** The underlying structural merge, used to apply resolutions */
+  merge: ThreeWayMerge;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Publish preflight
+// ════════════════════════════════════════════════════════════════════════
+
+export interface PublishPreflightIssue {
+  type: 'error' | 'warning';
+  message: string;
+}
+
+/** Result of the getPublishPreflight callable */
+export interface PublishPreflightResult {
+  canPublish: boolean;
+  issues: PublishPreflightIssue[];
+  itemCount: number;
+  approvalCount: number;
+  approvedCount: number;
+  blockingTaskCount: number;
+  conflicts: ChangeSetConflictReport;
+}
@@ -0,0 +1,64 @@
+/**
+ * Change Set Revert Types
+ *
+ * Reverting a published change set creates a new draft change set that
+ * restores, for each item, the version that was live before the change set
+ * published. Each restored version is a new draft copied from that earlier
+ * version, so the reversal goes through the normal approval, preflight and
+ * publish path.
+ *
+ * Items are skipped (and listed in the revert change set's description)
+ * when there is nothing safe to restore: the artifact was first published
+ * by the change set, or a later change set has published it again.
+ */
+
+import type { ChangeSetItem } from './changeSet';
+
+/** Minimal version shape needed to pick a revert target */
+export interface RevertVersionRef {
+  id: string;
+  versionNumber: number;
+  status: string;
+  /** When the version was published (null if it never was) */
+  publishedAtMs: number | null;
+}
+
+export type RevertSkipReason =
+  | 'not_versioned'   // artifact type has no version history to restore from
+  | 'not_published'   // the item's version is missing or was never published
+  | 'superseded'      // a later change set published the artifact again
+  | 'first_version';  // no earlier published version exists
+
+export const REVERT_SKIP_REASON_LABELS: Record<RevertSkipReason, string> = {
+  not_versioned: 'has no version history to restore',
+  not_published: 'was not published by this change set',
+  superseded: 'has been published again since',
+  first_version: 'was first published by this change set; deprecate it instead',
+};
+
+export interface RevertItemPlan {
+  itemId: string;
+  artifactType: ChangeSetItem['artifactType'];
+  artifactId: string;
+  artifactName?: string;
+  /** Version the change set published */
+  publishedVersionId: string;
+  /** Earlier published version to restore, or null when skipped */
+  restore: RevertVersionRef | null;
+  skipReason?: RevertSkipReason;
+  /** e.g. the version number that superseded it */
+  skipDetail?: string;
+}
+
+export interface ChangeSetRevertPlan {
+  items: RevertItemPlan[];
+  restorable: RevertItemPlan[];
+  skipped: RevertItemPlan[];
+}
+
+/** Result of the revertChangeSet callable */
+export interface RevertChangeSetResult {
+  changeSetId: string;
+  restoredCount: number;
+  skipped: Array<{ artifactName: string; reason: RevertSkipReason; detail?: string }>;
+}
@@ -160,6 +160,9 @@ export interface ClauseLink {
   coverageVersionId?: string;
   ruleVersionId?: string;
   formVersionId?: string;
+  /** Form section and anchor within the form version, for links to one occurrence */
+  sectionId?: string;
+  anchor?: ContentAnchor;
 
   /** Optional: state code for state-specific usage */
   stateCode?: string;
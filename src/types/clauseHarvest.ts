@@ -0,0 +1,157 @@
+/**
+ * Clause Harvest Types
+ *
+ * Batch harvesting of reusable clauses from the ingested form library.
+ * Sections from every form version are clustered by near-identical wording
+ * (word shingles + MinHash); each cluster proposes a canonical OrgClause
+ * with ClauseLinks to every occurrence. A librarian reviews the clusters —
+ * merging, splitting, accepting or dismissing them.
+ *
+ * Data model:
+ *   orgs/{orgId}/clauseHarvestRuns/{runId}                       — one harvest run
+ *   orgs/{orgId}/clauseHarvestRuns/{runId}/clusters/{clusterId}  — proposed clusters
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import type { FormSectionType, ContentAnchor } from './ingestion';
+import type { ClauseType } from './clause';
+
+// ════════════════════════════════════════════════════════════════════════
+// Options
+// ════════════════════════════════════════════════════════════════════════
+
+export interface ClauseHarvestOptions {
+  /** Words per shingle */
+  shingleSize: number;
+  /** MinHash signature length; must be a multiple of `bands` */
+  numHashes: number;
+  /** LSH bands: more bands find lower-similarity candidates */
+  bands: number;
+  /** Minimum Jaccard similarity of shingle sets to join a cluster */
+  threshold: number;
+  /** Sections shorter than this many words are not harvested */
+  minWords: number;
+  /** Clusters need at least this many occurrences */
+  minOccurrences: number;
+}
+
+export const DEFAULT_CLAUSE_HARVEST_OPTIONS: ClauseHarvestOptions = {
+  shingleSize: 5,
+  numHashes: 64,
+  bands: 16,
+  threshold: 0.8,
+  minWords: 15,
+  minOccurrences: 2,
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// Occurrences and variants
+// ════════════════════════════════════════════════════════════════════════
+
+/** One ingested section of one form version */
+export interface ClauseOccurrence {
+  /** `${formVersionId}:${sectionId}` */
+  key: string;
+  formId: string;
+  formNumber: string;
+  formVersionId: string;
+  editionDate: string;
+  sectionId: string;
+  sectionPath: string;
+  sectionTitle: string;
+  sectionType: FormSectionType;
+  pageRefs: number[];
+  anchor?: ContentAnchor;
+}
+
+/** An occurrence with its text, as fed to the harvester */
+export interface HarvestSection extends ClauseOccurrence {
+  text: string;
+}
+
+/** One distinct wording within a cluster */
+export interface ClauseVariant {
+  /** Hash of the whitespace-normalised text */
+  textHash: string;
+  text: string;
+  occurrenceKeys: string[];
+  /** Jaccard similarity to the canonical wording, 0-1 */
+  similarity: number;
+  isCanonical: boolean;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Clusters
+// ════════════════════════════════════════════════════════════════════════
+
+export type ClauseClusterStatus = 'proposed' | 'accepted' | 'dismissed';
+
+export const CLAUSE_CLUSTER_STATUS_CONFIG: Record<ClauseClusterStatus, { label: string; color: string }> = {
+  proposed:  { label: 'Proposed',  color: '#6366F1' },
+  accepted:  { label: 'Accepted',  color: '#10B981' },
+  dismissed: { label: 'Dismissed', color: '#94A3B8' },
+};
+
+/**
+ * A group of near-identical sections, proposing one canonical clause.
+ * Occurrence text lives on the variants, so large clusters stay small.
+ */
+export interface ClauseCluster {
+  /** Deterministic: derived from the member occurrence keys */
+  id: string;
+  status: ClauseClusterStatus;
+
+  proposedName: string;
+  proposedType: ClauseType;
+  proposedTags: string[];
+
+  canonicalText: string;
+  canonicalTextHash: string;
+  occurrences: ClauseOccurrence[];
+  variants: ClauseVariant[];
+
+  /** Distinct forms the clause appears on */
+  formCount: number;
+  /** Lowest variant similarity to the canonical wording */
+  minSimilarity: number;
+
+  /** An existing library clause with matching wording */
+  existingClauseId?: string;
+  existingClauseName?: string;
+  existingSimilarity?: number;
+
+  /** Set when acceptance starts, so an interrupted accept resumes with the same clause */
+  acceptedClauseId?: string;
+  acceptedClauseVersionId?: string;
+  reviewedAt?: Timestamp;
+  reviewedBy?: string;
+}
+
+/** Latest text of an existing library clause, for matching clusters against */
+export interface ExistingClauseText {
+  clauseId: string;
+  clauseName: string;
+  clauseVersionId: string;
+  text: string;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Runs
+// ════════════════════════════════════════════════════════════════════════
+
+export type ClauseHarvestRunStatus = 'running' | 'complete' | 'failed';
+
+export interface ClauseHarvestRun {
+  id: string;
+  status: ClauseHarvestRunStatus;
+  options: ClauseHarvestOptions;
+  formVersionCount: number;
+  sectionCount: number;
+  clusterCount: number;
+  /** Sections that fell into a cluster */
+  clusteredSectionCount: number;
+  error?: string;
+  startedAt: Timestamp;
+  completedAt?: Timestamp;
+  createdBy: string;
+}
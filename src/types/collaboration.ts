@@ -87,7 +87,11 @@ export type NotificationType =
   | 'approval_requested'
   | 'approved'
   | 'rejected'
-  | 'published';
+  | 'published'
+  | 'publish_scheduled'
+  | 'publish_held'
+  | 'publish_cancelled'
+  | 'publish_failed';
 
 export interface AppNotification {
   id: string;
@@ -121,4 +125,8 @@ export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
   approved: 'Approved',
   rejected: 'Rejected',
   published: 'Published',
+  publish_scheduled: 'Publish scheduled',
+  publish_held: 'Scheduled publish on hold',
+  publish_cancelled: 'Scheduled publish cancelled',
+  publish_failed: 'Scheduled publish failed',
 };
@@ -5,12 +5,19 @@
  * Each override is a patch keyed by a dot-path into the base config,
  * with provenance (who, when, why) and a content-hash for conflict detection.
  *
+ * Overrides are applied in layers, lowest precedence first:
+ *   product base → region groups → state → territory
+ *
  * Firestore augmentation on:
  *   .../statePrograms/{stateCode}
  *     overrides      – Record<dotPath, Override>
  *     overrideNotes  – Record<dotPath, string>
+ *     territoryOverrides – Record<territoryCode, Record<dotPath, Override>>
  *     computedSnapshotHash – string
  *     validationErrors – DeviationValidationError[]
+ *
+ * Region layer groups:
+ *   .../versions/{versionId}/overrideLayerGroups/{groupId}
  */
 
 import { Timestamp } from 'firebase/firestore';
@@ -38,8 +45,28 @@ export type OverrideCategory =
  * `baseValue` is captured at the time the override was created (for conflict detection).
  * `value` is the state-specific replacement.
  */
+/**
+ * What an override does at its path:
+ *  - set    – replace the value (default)
+ *  - insert – add a list item addressed by key, e.g. `limitOptions[id=abc]`
+ *  - remove – drop the list item (or key) at the path
+ */
+export type OverrideOp = 'set' | 'insert' | 'remove';
+
+/**
+ * One parsed segment of an override path. List items are addressed by
+ * index (`steps[2]`) or, preferably, by a stable key (`steps[id=abc]`).
+ */
+export type PathSegment =
+  | { key: string }
+  | { index: number }
+  | { match: { field: string; value: string } };
+
 export interface Override {
-  /** Dot-path into the base config object */
+  /**
+   * Dot-path into the base config object. List items use selectors:
+   * `limitOptions[id=abc].perOccurrence`, `forms[0]`.
+   */
   path: string;
   /** The base product value at time of override creation */
   baseValue: unknown;
@@ -54,6 +81,69 @@ export interface Override {
   updatedAt: Timestamp;
   /** User-facing note explaining why this state differs */
   note?: string;
+  /** Defaults to 'set'. Removals store `value: null`, inserts `baseValue: null`. */
+  op?: OverrideOp;
+  /** Inserts only: key of the sibling to follow (null = first, absent = last) */
+  insertAfter?: string | null;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Override layers
+// ════════════════════════════════════════════════════════════════════════
+
+export type OverrideLayerKind = 'region' | 'state' | 'territory';
+
+/** Higher wins. The product base sits below every layer. */
+export const OVERRIDE_LAYER_PRECEDENCE: Record<OverrideLayerKind, number> = {
+  region: 1,
+  state: 2,
+  territory: 3,
+};
+
+export const OVERRIDE_LAYER_LABELS: Record<OverrideLayerKind, string> = {
+  region: 'Region',
+  state: 'State',
+  territory: 'Territory',
+};
+
+/**
+ * One named set of overrides applied on top of the layers beneath it.
+ * Each override's `baseValue` is captured against the effective value of
+ * the layers beneath, so conflicts are detected per layer.
+ */
+export interface OverrideLayer {
+  id: string;
+  name: string;
+  kind: OverrideLayerKind;
+  /** Orders layers of the same kind; higher wins (default 0) */
+  priority?: number;
+  overrides: Record<string, Override>;
+}
+
+/**
+ * A reusable region layer (e.g. "Gulf Coast") inherited by many states.
+ */
+export interface OverrideLayerGroup {
+  id: string;
+  name: string;
+  description?: string;
+  /** States that inherit this group */
+  stateCodes: string[];
+  /** Orders overlapping groups; higher wins */
+  priority: number;
+  overrides: Record<string, Override>;
+  createdAt: Timestamp;
+  createdBy: string;
+  updatedAt: Timestamp;
+  updatedBy: string;
+}
+
+/** One layer's value for a path, as shown in the diff */
+export interface LayerValue {
+  layerId: string;
+  layerName: string;
+  kind: OverrideLayerKind;
+  value: unknown;
 }
 
 // ════════════════════════════════════════════════════════════════════════
@@ -101,6 +191,12 @@ export interface DiffEntry {
   conflictBaseValue?: unknown;
   /** Original base value when the override was captured */
   originalBaseValue?: unknown;
+  /** Layer the effective value came from (absent when inherited from base) */
+  sourceLayerId?: string;
+  sourceLayerName?: string;
+  sourceLayerKind?: OverrideLayerKind;
+  /** Every layer that sets this path, lowest precedence first */
+  layerValues?: LayerValue[];
 }
 
 /**
@@ -114,6 +210,14 @@ export interface DiffResult {
   conflictCount: number;
   /** Hash of the base config used to compute this diff */
   baseHash: string;
+  /** Layers applied, lowest precedence first */
+  layers?: Array<{
+    id: string;
+    name: string;
+    kind: OverrideLayerKind;
+    overrideCount: number;
+    conflictCount: number;
+  }>;
 }
 
 // ════════════════════════════════════════════════════════════════════════
@@ -138,6 +242,9 @@ export interface DeviationValidationError {
   baseValue?: unknown;
   /** The override value that is now stale/invalid */
   overrideValue?: unknown;
+  /** Layer the override belongs to (layered validation only) */
+  layerId?: string;
+  layerName?: string;
 }
 
 // ════════════════════════════════════════════════════════════════════════
@@ -164,6 +271,65 @@ export interface RevertAction {
   baseValue: unknown;
 }
 
+// ════════════════════════════════════════════════════════════════════════
+// Three-way merge (old base × new base × state override)
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * How one override path is carried onto the new base:
+ *  - accept_base: drop the override, the state inherits the new base value
+ *  - keep_state:  keep the state value, re-anchored on the new base
+ *  - edit:        replace the state value (e.g. a merged object or rescaled factor)
+ */
+export type MergeResolution = 'accept_base' | 'keep_state' | 'edit';
+
+export const MERGE_RESOLUTION_LABELS: Record<MergeResolution, string> = {
+  accept_base: 'Accept base',
+  keep_state: 'Keep state',
+  edit: 'Edit',
+};
+
+export type MergeEntryStatus =
+  | 'unchanged'       // Base did not change at this path
+  | 'auto_resolved'   // Only one side changed, or both made the same change
+  | 'conflict';       // Base and state both changed — resolution is a proposal
+
+/**
+ * One override path in a three-way merge.
+ * `oldBaseValue` is the base value captured when the override was set.
+ */
+export interface MergeEntry {
+  path: string;
+  fieldLabel: string;
+  category: OverrideCategory;
+  status: MergeEntryStatus;
+  oldBaseValue: unknown;
+  newBaseValue: unknown;
+  stateValue: unknown;
+  /** Applied automatically (auto_resolved) or proposed (conflict) */
+  resolution: MergeResolution;
+  /** Effective value for the state under `resolution` */
+  resolvedValue: unknown;
+  /** Why this resolution was chosen */
+  reason: string;
+}
+
+export interface StateMergeResult {
+  stateCode: string;
+  stateName: string;
+  entries: MergeEntry[];
+  autoResolvedCount: number;
+  conflictCount: number;
+  /** Hash of the new base config the merge was computed against */
+  baseHash: string;
+}
+
+/** Analyst's choice for one path; `value` is required for 'edit' */
+export interface MergeDecision {
+  resolution: MergeResolution;
+  value?: unknown;
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // Augmented StateProgram shape (extends existing StateProgram)
 // ════════════════════════════════════════════════════════════════════════
@@ -177,6 +343,8 @@ export interface StateProgramOverrideFields {
   overrides: Record<string, Override>;
   /** Short notes per override (convenience for quick display) */
   overrideNotes: Record<string, string>;
+  /** Territory-level exceptions, keyed by territory code then dot-path */
+  territoryOverrides?: Record<string, Record<string, Override>>;
   /** Hash of the last computed snapshot for conflict detection */
   computedSnapshotHash: string;
   /** Deviation-specific validation errors */
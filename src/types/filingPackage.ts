@@ -54,6 +54,8 @@ export interface ArtifactSnapshot {
   action: ChangeSetItemAction;
   /** JSON hash of the version data at build time (for tamper detection) */
   contentHash: string;
+  /** Structural changes against the version the draft was branched from */
+  changeCount?: number;
 }
 
 // ════════════════════════════════════════════════════════════════════════
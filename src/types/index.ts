@@ -110,6 +110,8 @@ export interface Product {
   version?: number;                 // Version number for tracking changes
   effectiveDate?: Timestamp | Date;  // When this product becomes effective
   expirationDate?: Timestamp | Date; // When this product expires
+  /** IANA time zone for go-lives (e.g. 'America/Chicago'); scheduled publishes default to it */
+  timeZone?: string;
 
   // Denormalized Statistics (maintained by CF triggers)
   /** Count of coverages in this product */
@@ -11,6 +11,7 @@
  *     → ingestion: { status, qualityScore, warnings[], completedAt }
  *   orgs/{orgId}/forms/{formId}/versions/{fvId}/chunks/{chunkId}
  *   orgs/{orgId}/forms/{formId}/versions/{fvId}/sections/{sectionId}
+ *   orgs/{orgId}/forms/{formId}/versions/{fvId}/schedules/{tableId}
  */
 
 import { Timestamp } from 'firebase/firestore';
@@ -22,6 +23,7 @@ import { Timestamp } from 'firebase/firestore';
 export type IngestionPipelineStatus =
   | 'pending'        // Not yet started
   | 'extracting'     // Extracting text from PDF
+  | 'ocr'            // Re-reading sparse / garbled pages with OCR
   | 'chunking'       // Splitting into chunks + detecting sections
   | 'completed'      // Successfully ingested
   | 'failed';        // Pipeline failed
@@ -29,6 +31,7 @@ export type IngestionPipelineStatus =
 export const INGESTION_STATUS_CONFIG: Record<IngestionPipelineStatus, { label: string; color: string }> = {
   pending:    { label: 'Pending',    color: '#6B7280' },
   extracting: { label: 'Extracting', color: '#3B82F6' },
+  ocr:        { label: 'Running OCR', color: '#0EA5E9' },
   chunking:   { label: 'Chunking',   color: '#8B5CF6' },
   completed:  { label: 'Completed',  color: '#10B981' },
   failed:     { label: 'Failed',     color: '#EF4444' },
@@ -42,7 +45,9 @@ export type IngestionWarningType =
   | 'large_gap'              // Large gap in page numbering
   | 'encoding_issue'         // Non-UTF8 or mojibake characters
   | 'truncated'              // PDF had pages that could not be read
-  | 'no_structure_detected'; // No insurance sections found
+  | 'no_structure_detected'  // No insurance sections found
+  | 'ocr_applied'            // Page text was recovered by OCR
+  | 'low_confidence';        // OCR text on a page is unreliable
 
 export interface IngestionWarning {
   type: IngestionWarningType;
@@ -53,6 +58,28 @@ export interface IngestionWarning {
   severity: 'info' | 'warning' | 'error';
 }
 
+/** How one page's text was obtained */
+export interface PageExtractionSummary {
+  pageNumber: number;
+  source: 'text' | 'ocr';
+  /** 0-100 */
+  confidence: number;
+  columnCount: number;
+  charCount: number;
+}
+
+/** Outcome of the OCR pass over low-density pages */
+export interface OcrPassSummary {
+  /** Pages re-read with OCR */
+  pagesProcessed: number;
+  /** Pages whose OCR text replaced the text layer */
+  pagesReplaced: number;
+  /** Quality score of the text-layer-only ingestion */
+  textOnlyScore: number;
+  /** Whether the OCR result was kept (it scored higher) */
+  improved: boolean;
+}
+
 /** Stored on the OrgFormVersion document as a nested object */
 export interface IngestionMetadata {
   status: IngestionPipelineStatus;
@@ -67,6 +94,14 @@ export interface IngestionMetadata {
   chunkCount: number;
   /** Number of sections detected */
   sectionCount: number;
+  /** Number of schedule tables extracted */
+  scheduleCount?: number;
+  /** Per-page extraction source and confidence */
+  pageExtraction?: PageExtractionSummary[];
+  /** Mean page extraction confidence, 0-100 */
+  extractionConfidence?: number;
+  /** Present when an OCR pass ran */
+  ocr?: OcrPassSummary;
   /** Pipeline timing */
   startedAt?: Timestamp;
   completedAt?: Timestamp;
@@ -175,6 +210,109 @@ export interface FormIngestionSection {
   chunkIds: string[];
 }
 
+// ════════════════════════════════════════════════════════════════════════
+// Schedule tables (sub-collection of form version)
+// ════════════════════════════════════════════════════════════════════════
+
+/** What a printed amount applies to, read from its column header or row label */
+export type ScheduleBasis = 'perOccurrence' | 'perClaim' | 'perAccident' | 'perPerson' | 'aggregate';
+
+export type ScheduleAmountKind = 'limit' | 'deductible' | 'other';
+
+/** A dollar amount or percentage printed in a schedule cell */
+export interface ScheduleAmount {
+  /** Text as printed, e.g. "$1,000,000" or "2%" */
+  raw: string;
+  value: number;
+  unit: 'currency' | 'percent';
+  /** Cell index within the row */
+  column: number;
+  /** From the column header, the cell, the row label or the section, in that order */
+  kind: ScheduleAmountKind;
+  basis?: ScheduleBasis;
+}
+
+export interface ScheduleRow {
+  /** Cell texts, left to right */
+  cells: string[];
+  /** First cell — what the row describes (empty when it holds an amount) */
+  label: string;
+  amounts: ScheduleAmount[];
+  page: number;
+  /** Offset is within the page text */
+  anchor: ContentAnchor;
+}
+
+export interface FormScheduleTable {
+  id: string;
+  /** Ordering index (0-based) */
+  index: number;
+  /** Caption line above the table, if any */
+  title: string;
+  /** Section the table sits in */
+  sectionType?: FormSectionType;
+  page: number;
+  /** Column headers; empty when the table has no header row */
+  headers: string[];
+  rows: ScheduleRow[];
+  anchor: ContentAnchor;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Limit / deductible reconciliation (computed, not persisted)
+// ════════════════════════════════════════════════════════════════════════
+
+export type ReconciliationStatus =
+  | 'matched'          // Printed amount is a configured option value
+  | 'mismatch'         // Printed amount differs from the configured values for its basis
+  | 'not_in_product'   // Printed amount has no configured counterpart
+  | 'not_in_form';     // Configured option value is not printed on the form
+
+export const RECONCILIATION_STATUS_CONFIG: Record<ReconciliationStatus, { label: string; color: string }> = {
+  matched:        { label: 'Matched',        color: '#10B981' },
+  mismatch:       { label: 'Mismatch',       color: '#EF4444' },
+  not_in_product: { label: 'Not in product', color: '#F59E0B' },
+  not_in_form:    { label: 'Not on form',    color: '#6B7280' },
+};
+
+/** An amount configured on one of the coverage's option sets */
+export interface ConfiguredAmount {
+  kind: 'limit' | 'deductible';
+  value: number;
+  unit: 'currency' | 'percent';
+  basis?: ScheduleBasis;
+  optionSetId: string;
+  optionId: string;
+  optionLabel: string;
+}
+
+export interface ReconciliationItem {
+  kind: 'limit' | 'deductible';
+  status: ReconciliationStatus;
+  /** Printed side (absent for not_in_form) */
+  formLabel?: string;
+  formAmount?: ScheduleAmount;
+  tableId?: string;
+  /** Where the amount is printed */
+  anchor?: ContentAnchor;
+  /** Configured side (absent for not_in_product / mismatch) */
+  configured?: ConfiguredAmount;
+  /** Configured values for the same basis, for mismatches */
+  expected?: number[];
+}
+
+export interface ScheduleReconciliationReport {
+  formId: string;
+  formVersionId: string;
+  productId: string;
+  coverageId: string;
+  items: ReconciliationItem[];
+  counts: Record<ReconciliationStatus, number>;
+  /** No mismatches and nothing printed that the product lacks */
+  consistent: boolean;
+  generatedAt: string;
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // Ingestion report (computed, not persisted — for UI display)
 // ════════════════════════════════════════════════════════════════════════
@@ -194,6 +332,8 @@ export interface IngestionReport {
   chunks: FormIngestionChunk[];
   /** Sections detected */
   sections: FormIngestionSection[];
+  /** Schedule tables extracted */
+  schedules: FormScheduleTable[];
 
   /** Aggregate stats */
   totalAnchors: number;
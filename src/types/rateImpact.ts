@@ -0,0 +1,184 @@
+/**
+ * Rate Impact Types
+ *
+ * Data model:
+ *   orgs/{orgId}/rateImpactExhibits/{exhibitId}   — saved rate-impact exhibits
+ *
+ * A rate-impact analysis rates a sample book of policies with both the
+ * published (current) and draft (proposed) rate program versions and
+ * summarises the change: overall premium movement, the distribution of
+ * per-policy changes, segment movements, capping and off-balance.
+ *
+ * Exhibits attached to a change set are included in its filing package.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+
+// ════════════════════════════════════════════════════════════════════════
+// Policy Sample
+// ════════════════════════════════════════════════════════════════════════
+
+export type RateImpactSegmentDimension = 'state' | 'class' | 'territory';
+
+export const RATE_IMPACT_SEGMENT_LABELS: Record<RateImpactSegmentDimension, string> = {
+  state: 'State',
+  class: 'Class',
+  territory: 'Territory',
+};
+
+/** One policy from the uploaded sample */
+export interface RateImpactPolicy {
+  policyId: string;
+  stateCode?: string;
+  classCode?: string;
+  territory?: string;
+  /** Rating inputs keyed by field code (every column except the policy ID) */
+  inputs: Record<string, string | number | boolean | null>;
+}
+
+/** Which sample columns identify the policy and its segments */
+export interface RateImpactColumnMapping {
+  policyId: string;
+  stateCode?: string;
+  classCode?: string;
+  territory?: string;
+  /** Other columns holding codes (e.g. text fields of the data dictionary), kept as text */
+  codeColumns?: string[];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Per-policy results
+// ════════════════════════════════════════════════════════════════════════
+
+export interface PolicyImpactResult {
+  policyId: string;
+  stateCode?: string;
+  classCode?: string;
+  territory?: string;
+  currentPremium: number;
+  proposedPremium: number;
+  /** Proposed premium after the change caps are applied */
+  cappedPremium: number;
+  /** Uncapped change, in percent */
+  changePct: number;
+  cappedChangePct: number;
+  /** Which cap bound this policy, if any */
+  capped: 'increase' | 'decrease' | null;
+}
+
+/** A policy that could not be rated by one of the versions */
+export interface RateImpactFailure {
+  policyId: string;
+  version: 'current' | 'proposed';
+  message: string;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Aggregates
+// ════════════════════════════════════════════════════════════════════════
+
+export interface RateImpactSummary {
+  policyCount: number;
+  ratedCount: number;
+  failedCount: number;
+  currentPremium: number;
+  proposedPremium: number;
+  /** Premium-weighted overall change, in percent */
+  changePct: number;
+  /** Unweighted mean of per-policy changes, in percent */
+  averageChangePct: number;
+  medianChangePct: number;
+  minChangePct: number;
+  maxChangePct: number;
+  increasedCount: number;
+  decreasedCount: number;
+  unchangedCount: number;
+}
+
+/** Half-open change interval [min, max); null means unbounded */
+export interface HistogramBucket {
+  label: string;
+  min: number | null;
+  max: number | null;
+  count: number;
+  /** Share of rated policies, in percent */
+  pctOfPolicies: number;
+}
+
+export interface SegmentImpact {
+  dimension: RateImpactSegmentDimension;
+  key: string;
+  policyCount: number;
+  currentPremium: number;
+  proposedPremium: number;
+  changePct: number;
+}
+
+/** Maximum per-policy movement, in percent (e.g. 15 = ±15%) */
+export interface RateImpactCaps {
+  maxIncreasePct?: number;
+  maxDecreasePct?: number;
+}
+
+export interface CappingAnalysis {
+  maxIncreasePct: number | null;
+  maxDecreasePct: number | null;
+  cappedIncreaseCount: number;
+  cappedDecreaseCount: number;
+  uncappedPremium: number;
+  cappedPremium: number;
+  cappedChangePct: number;
+  /**
+   * Factor on proposed rates that restores the uncapped premium level
+   * (uncapped ÷ capped); 1 when no policy is capped.
+   */
+  offBalanceFactor: number;
+}
+
+/** The aggregates computed over a set of rated policies */
+export interface RateImpactAggregates {
+  summary: RateImpactSummary;
+  histogram: HistogramBucket[];
+  segments: SegmentImpact[];
+  capping: CappingAnalysis;
+}
+
+/** Exhibit figures for the policies of one state */
+export interface RateImpactStateFigures extends RateImpactAggregates {
+  topMovers: PolicyImpactResult[];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Exhibit document
+// ════════════════════════════════════════════════════════════════════════
+
+export interface RateImpactExhibit {
+  id: string;
+  title: string;
+  rateProgramId: string;
+  rateProgramName?: string;
+  currentVersionId: string;
+  proposedVersionId: string;
+  /** ISO date the sample was rated as of */
+  effectiveDate: string;
+  /** Output field compared between versions */
+  premiumField: string;
+  sampleFileName?: string;
+  summary: RateImpactSummary;
+  histogram: HistogramBucket[];
+  segments: SegmentImpact[];
+  capping: CappingAnalysis;
+  /** Largest movers by absolute change (the full book is not stored) */
+  topMovers: PolicyImpactResult[];
+  failures: RateImpactFailure[];
+  /**
+   * Figures by state code, used by state-scoped filing packages. Absent when
+   * the sample had no state column (or the exhibit predates them).
+   */
+  stateFigures?: Record<string, RateImpactStateFigures>;
+  /** Change set whose filing package includes this exhibit */
+  changeSetId?: string | null;
+  resultHash: string;
+  createdAt: Timestamp;
+  createdBy: string;
+}
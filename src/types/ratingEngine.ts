@@ -6,6 +6,8 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
+import type { DimensionRange } from './table';
+import type { ResolvedVersionStamp } from './versionResolution';
 
 // ============================================================================
 // Step Types
@@ -20,7 +22,8 @@ export type RatingStepType =
   | 'expression'   // Mathematical expression
   | 'minmax'       // Min/max capping
   | 'fee'          // Fixed fee or surcharge
-  | 'conditional'; // Conditional logic
+  | 'conditional'  // Conditional logic
+  | 'termAdjustment'; // Earned/unearned premium for a partial policy term
 
 /** Rounding modes for step results */
 export type RoundingMode = 
@@ -31,6 +34,25 @@ export type RoundingMode =
   | 'bankers'      // Banker's rounding (half to even)
   | 'truncate';    // Truncate decimal places
 
+/** How a table lookup step resolves dimension values to cells */
+export type TableLookupMode =
+  | 'exact'        // String match on every dimension value
+  | 'range'        // Numeric inputs bucketed into DimensionRange bounds
+  | 'interpolate'  // Interpolate between numeric breakpoints
+  | 'nearestLower'; // Greatest numeric breakpoint at or below the input
+
+/** Scale used when interpolating between breakpoints */
+export type InterpolationScale = 'linear' | 'log';
+
+/** How premium is earned when a policy is endorsed or cancelled mid-term */
+export type EarningMethod =
+  | 'proRata'      // Earned in proportion to days in force
+  | 'shortRate'    // Earned per a short-rate table (penalizes early cancellation)
+  | 'flat';        // Flat cancel: nothing earned, full return
+
+/** Policy transaction being rated */
+export type PolicyTransactionType = 'new_business' | 'renewal' | 'endorsement' | 'cancellation';
+
 /** Status of a rate program version */
 export type RateProgramVersionStatus = 'draft' | 'pending_review' | 'approved' | 'published' | 'archived';
 
@@ -66,8 +88,10 @@ export interface RateProgramVersion {
   createdBy: string;
   publishedAt?: Timestamp | Date;
   publishedBy?: string;
-  /** Hash of steps for determinism verification */
+  /** Hash of steps and aggregation stage for determinism verification */
   stepsHash?: string;
+  /** Roll-up of exposure units to policy level, for multi-unit rating */
+  aggregation?: PolicyAggregation;
 }
 
 // ============================================================================
@@ -103,6 +127,10 @@ export interface RatingStep {
   /** For 'tableLookup' type: table reference and lookup config */
   tableVersionId?: string;
   lookupDimensions?: TableLookupDimension[];
+  /** Lookup mode (defaults to 'exact') */
+  lookupMode?: TableLookupMode;
+  /** For 'interpolate' mode: interpolation scale (defaults to 'linear') */
+  interpolationScale?: InterpolationScale;
   
   /** For 'expression' type: the formula */
   expression?: string;
@@ -121,6 +149,17 @@ export interface RatingStep {
   condition?: StepCondition;
   thenValue?: number;
   elseValue?: number;
+
+  /** For 'termAdjustment' type: earning method applied to the full-term premium in inputs[0] */
+  earningMethod?: EarningMethod;
+  /** For 'shortRate' method: earned percentages by percent of term elapsed */
+  shortRateTable?: ShortRateEntry[];
+  /** Minimum earned premium amount (pro-rata and short-rate only) */
+  minimumEarnedPremium?: number;
+  /** Minimum earned premium as a fraction (0-1, not a percent) of the full-term premium */
+  minimumEarnedFraction?: number;
+  /** Field that receives the unearned premium (outputFieldCode receives earned) */
+  unearnedFieldCode?: string;
   
   // Rounding configuration
   roundingMode: RoundingMode;
@@ -141,6 +180,12 @@ export interface TableLookupDimension {
   fieldCode: string;
 }
 
+/** Short-rate table row: up to `termPercent` of the term elapsed, `earnedPercent` is earned */
+export interface ShortRateEntry {
+  termPercent: number;
+  earnedPercent: number;
+}
+
 /** Condition for conditional steps */
 export interface StepCondition {
   fieldCode: string;
@@ -149,6 +194,45 @@ export interface StepCondition {
   valueEnd?: number; // For 'between' operator
 }
 
+// ============================================================================
+// Expression Language
+// ============================================================================
+
+/** Binary operators supported in 'expression' step formulas */
+export type ExpressionBinaryOperator =
+  | '+' | '-' | '*' | '/' | '%' | '^'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | '&&' | '||';
+
+/** Unary operators supported in 'expression' step formulas */
+export type ExpressionUnaryOperator = '-' | '+' | '!';
+
+/** Parsed expression AST node. `column` is 1-based into the source formula. */
+export type ExpressionNode =
+  | { kind: 'number'; value: number; column: number }
+  | { kind: 'string'; value: string; column: number }
+  | { kind: 'field'; name: string; column: number }
+  | { kind: 'unary'; operator: ExpressionUnaryOperator; operand: ExpressionNode; column: number }
+  | { kind: 'binary'; operator: ExpressionBinaryOperator; left: ExpressionNode; right: ExpressionNode; column: number }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; column: number };
+
+/** Error codes raised by the expression tokenizer, parser and evaluator */
+export type ExpressionErrorCode =
+  | 'UNEXPECTED_CHARACTER'
+  | 'UNTERMINATED_STRING'
+  | 'UNEXPECTED_TOKEN'
+  | 'UNEXPECTED_END'
+  | 'EXPECTED_TOKEN'
+  | 'UNKNOWN_FUNCTION'
+  | 'WRONG_ARGUMENT_COUNT'
+  | 'INVALID_ARGUMENT'
+  | 'UNKNOWN_FIELD'
+  | 'TYPE_ERROR'
+  | 'DIVISION_BY_ZERO'
+  | 'TABLE_NOT_FOUND'
+  | 'LOOKUP_MISS'
+  | 'NON_FINITE_RESULT';
+
 // ============================================================================
 // Evaluation Context & Results
 // ============================================================================
@@ -163,6 +247,39 @@ export interface EvaluationContext {
   effectiveDate: Date;
   /** Table data cache (tableVersionId -> table data) */
   tables?: Map<string, RatingTableData>;
+  /** Policy term, required by 'termAdjustment' steps */
+  policyTerm?: PolicyTerm;
+  /** Versions resolved for the effective date, stamped onto the result */
+  resolvedVersions?: ResolvedVersionStamp;
+}
+
+/** Policy period and the transaction being rated within it */
+export interface PolicyTerm {
+  effectiveDate: Date;
+  expirationDate: Date;
+  /**
+   * Endorsement or cancellation date. Defaults to the expiration date: with
+   * no transaction date (new business, renewal) the full term is earned.
+   */
+  transactionDate?: Date;
+  transactionType?: PolicyTransactionType;
+}
+
+/** How a 'termAdjustment' step split premium into earned and unearned */
+export interface TermAdjustmentDetail {
+  method: EarningMethod;
+  transactionType?: PolicyTransactionType;
+  termDays: number;
+  daysInForce: number;
+  /** Fraction of the full-term premium earned before minimums */
+  earnedFraction: number;
+  /** For 'shortRate': the table row applied */
+  shortRateEntry?: ShortRateEntry;
+  fullTermPremium: number;
+  /** Minimum earned premium that raised the earned amount, if it applied */
+  minimumApplied?: number;
+  earnedPremium: number;
+  unearnedPremium: number;
 }
 
 /** Rating table data structure */
@@ -178,6 +295,35 @@ export interface RatingTableDimension {
   name: string;
   fieldCode: string;
   values: string[];
+  /** Value type; numeric dimensions can be interpolated (defaults to inferring from values) */
+  valueType?: 'string' | 'number' | 'range';
+  /** For range type: bucket bounds, labels match entries in `values` */
+  ranges?: DimensionRange[];
+}
+
+/** How one dimension was resolved during a table lookup */
+export interface DimensionResolution {
+  fieldCode: string;
+  inputValue: string | number;
+  method: 'exact' | 'range' | 'interpolate' | 'nearestLower';
+  /** For 'exact', 'range' and 'nearestLower': the matched dimension value */
+  matchedValue?: string;
+  /** For 'range': the bucket the input fell into */
+  range?: DimensionRange;
+  /** For 'interpolate': the bracketing breakpoints and position between them */
+  lowerBreakpoint?: string;
+  upperBreakpoint?: string;
+  /** 0 at the lower breakpoint, 1 at the upper breakpoint */
+  fraction?: number;
+}
+
+/** Detail of a table lookup, recorded in the step trace */
+export interface TableLookupDetail {
+  mode: TableLookupMode;
+  interpolationScale?: InterpolationScale;
+  dimensions: DimensionResolution[];
+  /** Cells that contributed to the result, with their weights (sum to 1) */
+  cells: { key: string; value: number; weight: number }[];
 }
 
 // ============================================================================
@@ -210,9 +356,15 @@ export interface StepTraceEntry {
   /** For table lookups: the lookup key used */
   tableLookupKey?: string;
 
+  /** For table lookups: chosen bucket or interpolation endpoints */
+  tableLookupDetail?: TableLookupDetail;
+
   /** For expressions: the evaluated expression */
   evaluatedExpression?: string;
 
+  /** For term adjustments: earning method breakdown */
+  termDetail?: TermAdjustmentDetail;
+
   /** Rounding applied */
   preRoundingValue?: number;
   roundingMode?: RoundingMode;
@@ -254,6 +406,9 @@ export interface EvaluationResult {
   evaluatedAt: Date;
   rateProgramVersionId: string;
   stepsHash: string;
+
+  /** Published versions the evaluation was resolved against */
+  resolvedVersions?: ResolvedVersionStamp;
 }
 
 /** Evaluation error */
@@ -265,6 +420,101 @@ export interface EvaluationError {
   fieldCode?: string;
 }
 
+// ============================================================================
+// Multi-Unit (Per-Exposure) Evaluation
+// ============================================================================
+
+/** A rateable exposure: one coverage on one building at one location */
+export interface ExposureUnit {
+  id: string;
+  locationId?: string;
+  buildingId?: string;
+  coverageId?: string;
+  label?: string;
+  /** Unit-level inputs, layered over the policy-level inputs */
+  inputs: Record<string, string | number | boolean | null>;
+  /** State override for this unit (defaults to the policy state) */
+  state?: string;
+}
+
+/** How unit-level values are combined into a policy-level value */
+export type AggregationMethod = 'sum' | 'max' | 'min';
+
+/** Rolls a unit-level field up to a policy-level field */
+export interface AggregationRule {
+  id: string;
+  name: string;
+  method: AggregationMethod;
+  /** Unit-level output field to roll up */
+  sourceFieldCode: string;
+  /** Policy-level field produced */
+  outputFieldCode: string;
+  /** Minimum premium applied after roll-up */
+  minimumPremium?: number;
+}
+
+/** Aggregation stage configuration, run after every unit has been rated */
+export interface PolicyAggregation {
+  rules: AggregationRule[];
+  /** Policy-level steps (fees, policy minimums) that may reference aggregated fields */
+  policySteps?: RatingStep[];
+}
+
+/** Input context for rating several exposure units */
+export interface MultiUnitEvaluationContext extends Omit<EvaluationContext, 'inputs'> {
+  /** Policy-level inputs shared by every unit */
+  policyInputs: Record<string, string | number | boolean | null>;
+  units: ExposureUnit[];
+}
+
+/** Evaluation of the step graph for one exposure unit */
+export interface UnitEvaluationResult {
+  unitId: string;
+  locationId?: string;
+  buildingId?: string;
+  coverageId?: string;
+  label?: string;
+  result: EvaluationResult;
+}
+
+/** Trace entry for one aggregation rule */
+export interface AggregationTraceEntry {
+  ruleId: string;
+  ruleName: string;
+  method: AggregationMethod;
+  sourceFieldCode: string;
+  outputFieldCode: string;
+  /** Per-unit contributions (units missing the source field are listed as null) */
+  contributions: { unitId: string; value: number | null }[];
+  /** Value before any minimum premium */
+  aggregatedValue: number | null;
+  /** Minimum premium that raised the value, if it applied */
+  minimumApplied?: number;
+  outputValue: number | null;
+}
+
+/** Result of rating several exposure units and rolling them up */
+export interface PolicyEvaluationResult {
+  success: boolean;
+  /** Policy-level outputs (aggregated fields and policy step outputs) */
+  outputs: Record<string, number>;
+  finalPremium?: number;
+  /** Per-unit subtrees */
+  units: UnitEvaluationResult[];
+  /** How unit values rolled up */
+  aggregationTrace: AggregationTraceEntry[];
+  /** Trace of policy-level steps */
+  policyTrace: StepTraceEntry[];
+  errors: EvaluationError[];
+  warnings: string[];
+  executionTimeMs: number;
+  resultHash: string;
+  evaluatedAt: Date;
+  rateProgramVersionId: string;
+  stepsHash: string;
+  resolvedVersions?: ResolvedVersionStamp;
+}
+
 // ============================================================================
 // Validation Types
 // ============================================================================
@@ -280,10 +530,12 @@ export interface DeterminismValidationResult {
 
 /** Determinism validation error */
 export interface DeterminismError {
-  code: 'CYCLE_DETECTED' | 'MISSING_INPUT' | 'UNDEFINED_FIELD' | 'INVALID_EXPRESSION' | 'TABLE_NOT_FOUND';
+  code: 'CYCLE_DETECTED' | 'MISSING_INPUT' | 'UNDEFINED_FIELD' | 'INVALID_EXPRESSION' | 'UNDECLARED_INPUT' | 'TABLE_NOT_FOUND';
   message: string;
   stepIds?: string[];
   fieldCodes?: string[];
+  /** For expression errors: 1-based column in the formula */
+  column?: number;
 }
 
 /** Determinism validation warning */
@@ -317,6 +569,12 @@ export interface RatingTestCase {
   state?: string;
   expectedOutputs: Record<string, number>;
   expectedFinalPremium?: number;
+  /** Policy term for endorsement and cancellation cases */
+  policyTerm?: PolicyTerm;
+  /** Exposure units for multi-unit rating (inputs become policy-level inputs) */
+  units?: ExposureUnit[];
+  /** Expected outputs per unit, keyed by unit ID then field code */
+  expectedUnitOutputs?: Record<string, Record<string, number>>;
   tolerance?: number; // For floating point comparison
   createdAt: Date;
   createdBy: string;
@@ -328,6 +586,8 @@ export interface TestRunResult {
   passed: boolean;
   actualOutputs: Record<string, number>;
   actualFinalPremium?: number;
+  /** Actual outputs per unit for multi-unit test cases */
+  actualUnitOutputs?: Record<string, Record<string, number>>;
   differences: TestDifference[];
   executionTimeMs: number;
   runAt: Date;
@@ -336,6 +596,8 @@ export interface TestRunResult {
 /** Difference between expected and actual */
 export interface TestDifference {
   fieldCode: string;
+  /** Exposure unit the difference belongs to (absent for policy-level fields) */
+  unitId?: string;
   expected: number;
   actual: number;
   difference: number;
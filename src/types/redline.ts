@@ -5,9 +5,17 @@
  * impact analysis.
  *
  * The comparison is driven by the ingestion pipeline's anchors and section
- * hashes so it survives re-ordering and cosmetic formatting changes.
+ * hashes so it survives re-ordering and cosmetic formatting changes. Content
+ * similarity pairs sections and chunks that were renumbered or moved, and
+ * modified chunks carry a word-level redline with classified changes.
+ *
+ * Redlines export as marked-up PDF / DOCX exhibits:
+ *   orgs/{orgId}/redlineExhibits/{exhibitId}   — exhibit metadata
+ *   /orgs/{orgId}/redlineExhibits/{exhibitId}/{fileName}   — the file (Storage)
+ * Exhibits attached to a change set are included in its filing package.
  */
 
+import { Timestamp } from 'firebase/firestore';
 import type { FormSectionType, FormIngestionSection, FormIngestionChunk, ContentAnchor } from './ingestion';
 import type { ClauseLink } from './clause';
 import type { FormUse } from './form';
@@ -20,13 +28,15 @@ export type SectionDiffStatus =
   | 'unchanged' // Same hash in both editions
   | 'modified'  // Same anchor slug, different content hash
   | 'added'     // Present only in the "right" (newer) edition
-  | 'removed';  // Present only in the "left" (older) edition
+  | 'removed'   // Present only in the "left" (older) edition
+  | 'moved';    // Matched by content under another heading or position (renumbered / relocated)
 
 export const SECTION_DIFF_CONFIG: Record<SectionDiffStatus, { label: string; color: string; bgColor: string }> = {
   unchanged: { label: 'Unchanged', color: '#10B981', bgColor: '#10B98110' },
   modified:  { label: 'Modified',  color: '#F59E0B', bgColor: '#F59E0B14' },
   added:     { label: 'Added',     color: '#3B82F6', bgColor: '#3B82F614' },
   removed:   { label: 'Removed',   color: '#EF4444', bgColor: '#EF444414' },
+  moved:     { label: 'Moved',     color: '#8B5CF6', bgColor: '#8B5CF614' },
 };
 
 /**
@@ -48,9 +58,12 @@ export interface SectionDiff {
   /** Human-readable section title */
   title: string;
 
-  /** For 'modified': which chunk hashes changed */
+  /** For 'modified' (and edited 'moved'): which chunk hashes changed */
   changedChunkHashes?: { left: string; right: string }[];
 
+  /** For 'moved': content similarity of the paired sections, 0-1 */
+  similarity?: number;
+
   /** Page references (left, right) */
   leftPages?: number[];
   rightPages?: number[];
@@ -60,7 +73,31 @@ export interface SectionDiff {
 // Chunk-level diff (for drill-down)
 // ════════════════════════════════════════════════════════════════════════
 
-export type ChunkDiffStatus = 'unchanged' | 'modified' | 'added' | 'removed';
+export type ChunkDiffStatus = SectionDiffStatus;
+
+/** A run of words in an inline redline */
+export interface InlineSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/** Effect of a wording change on the scope of cover */
+export type ChangeClassification = 'broadening' | 'restricting' | 'editorial';
+
+export const CHANGE_CLASSIFICATION_CONFIG: Record<ChangeClassification, { label: string; color: string }> = {
+  broadening:  { label: 'Broadening',  color: '#10B981' },
+  restricting: { label: 'Restricting', color: '#EF4444' },
+  editorial:   { label: 'Editorial',   color: '#64748B' },
+};
+
+/** One contiguous edit (deleted and/or inserted words) within a chunk */
+export interface WordChange {
+  deleted: string;
+  inserted: string;
+  classification: ChangeClassification;
+  /** Which heuristic decided the classification, e.g. 'adds "not"' */
+  reason: string;
+}
 
 export interface ChunkDiff {
   matchKey: string;
@@ -69,6 +106,12 @@ export interface ChunkDiff {
   rightChunk: FormIngestionChunk | null;
   leftText: string;
   rightText: string;
+  /** For paired chunks: content similarity, 0-1 */
+  similarity?: number;
+  /** For paired chunks whose text differs: word-level redline */
+  inline?: InlineSegment[];
+  /** Classified edits within the redline */
+  changes?: WordChange[];
 }
 
 // ════════════════════════════════════════════════════════════════════════
@@ -136,12 +179,68 @@ export interface RedlineStats {
   modifiedSections: number;
   addedSections: number;
   removedSections: number;
+  movedSections: number;
 
   totalChunks: number;
   unchangedChunks: number;
   modifiedChunks: number;
   addedChunks: number;
   removedChunks: number;
+  movedChunks: number;
+
+  /** Classified word-level changes across all chunks */
+  broadeningChanges: number;
+  restrictingChanges: number;
+  editorialChanges: number;
 
   impactCandidateCount: number;
 }
+
+// ════════════════════════════════════════════════════════════════════════
+// Export (filing exhibits)
+// ════════════════════════════════════════════════════════════════════════
+
+export type RedlineExportFormat = 'pdf' | 'docx';
+
+/** Inline: one marked-up text. Side by side: old edition left, new edition right */
+export type RedlineExportLayout = 'inline' | 'sideBySide';
+
+export const REDLINE_EXPORT_FORMAT_CONFIG: Record<RedlineExportFormat, {
+  label: string; mimeType: string; extension: string;
+}> = {
+  pdf:  { label: 'PDF',  mimeType: 'application/pdf', extension: 'pdf' },
+  docx: {
+    label: 'Word (DOCX)',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: 'docx',
+  },
+};
+
+export const REDLINE_EXPORT_LAYOUT_LABELS: Record<RedlineExportLayout, string> = {
+  inline: 'Inline',
+  sideBySide: 'Side by side',
+};
+
+/** A saved redline export */
+export interface RedlineExhibit {
+  id: string;
+  title: string;
+  formId: string;
+  formNumber: string;
+  leftVersionId: string;
+  leftEditionDate: string;
+  rightVersionId: string;
+  rightEditionDate: string;
+  format: RedlineExportFormat;
+  layout: RedlineExportLayout;
+  fileName: string;
+  /** Storage path of the exported file */
+  storagePath: string;
+  mimeType: string;
+  sizeBytes: number;
+  stats: RedlineStats;
+  /** Change set whose filing package includes this exhibit */
+  changeSetId?: string | null;
+  createdAt: Timestamp;
+  createdBy: string;
+}
@@ -0,0 +1,129 @@
+/**
+ * Legacy Rule Migration Types
+ *
+ * Converts IF/THEN rules written in the legacy Rules DSL (src/types/rulesDsl.ts)
+ * into condition trees for the versioned underwriting rules engine. Every
+ * construct that cannot be expressed faithfully is reported, and a dry run
+ * evaluates both representations on the same inputs to prove equivalence.
+ */
+
+import type {
+  ConditionGroup,
+  RuleOutcome,
+  RuleScope,
+  UnderwritingRuleType,
+} from './rulesEngine';
+import type { RuleEvaluationContext as DslEvaluationContext } from './rulesDsl';
+
+// ============================================================================
+// Conversion Issues
+// ============================================================================
+
+/** The part of a legacy rule an issue refers to */
+export type MigrationConstruct =
+  | 'logic'     // Rule has no programmable logic
+  | 'operator'  // Condition operator has no engine equivalent
+  | 'value'     // Condition value cannot be represented
+  | 'group'     // Condition group semantics differ
+  | 'field'     // Field path mapping problem
+  | 'action'    // THEN action has no engine outcome
+  | 'else'      // ELSE branch (the engine only fires on true)
+  | 'scope';    // State / effective date applicability
+
+/**
+ * 'error'   – the rule is not converted
+ * 'warning' – the rule is converted, but something was dropped or approximated
+ */
+export type MigrationIssueSeverity = 'error' | 'warning';
+
+export interface RuleMigrationIssue {
+  legacyRuleId: string;
+  legacyRuleName: string;
+  severity: MigrationIssueSeverity;
+  construct: MigrationConstruct;
+  message: string;
+  /** Path within the legacy logic, e.g. "if.conditions[1]" or "then[0]" */
+  path?: string;
+}
+
+// ============================================================================
+// Conversion Output
+// ============================================================================
+
+/** Options controlling how legacy rules are converted */
+export interface RuleMigrationOptions {
+  /** Product version the drafts are scoped to */
+  productVersionId: string;
+  /** Explicit DSL field path → Data Dictionary field code mapping */
+  fieldMapping?: Record<string, string>;
+  /** Known Data Dictionary codes; unknown mapped codes are reported */
+  availableFieldCodes?: string[];
+}
+
+/** One legacy rule converted to the engine model */
+export interface RuleConversion {
+  legacyRuleId: string;
+  legacyRuleName: string;
+  /** False when any 'error' issue was raised; nothing is written for it */
+  convertible: boolean;
+  ruleType: UnderwritingRuleType;
+  conditions: ConditionGroup;
+  outcome: RuleOutcome;
+  scope: RuleScope;
+  effectiveStart: string | null;
+  effectiveEnd: string | null;
+  /** DSL field path → engine field code, for every path the rule reads */
+  fieldMapping: Record<string, string>;
+  issues: RuleMigrationIssue[];
+}
+
+// ============================================================================
+// Equivalence (dry run)
+// ============================================================================
+
+/** Result of evaluating both representations on one input */
+export interface EquivalenceCaseResult {
+  /** Nested DSL context the legacy evaluator saw */
+  context: DslEvaluationContext;
+  /** Flat inputs the engine saw */
+  inputs: Record<string, string | number | boolean | null>;
+  legacyMatched: boolean;
+  engineFired: boolean;
+  equivalent: boolean;
+}
+
+export interface RuleEquivalenceReport {
+  legacyRuleId: string;
+  legacyRuleName: string;
+  casesEvaluated: number;
+  equivalent: boolean;
+  /** Only the cases where the two representations disagree */
+  mismatches: EquivalenceCaseResult[];
+}
+
+// ============================================================================
+// Migration Report
+// ============================================================================
+
+/** A draft rule version created by a (non dry-run) migration */
+export interface MigratedRuleRecord {
+  legacyRuleId: string;
+  ruleId: string;
+  ruleVersionId: string;
+}
+
+export interface RuleMigrationReport {
+  dryRun: boolean;
+  changeSetId: string | null;
+  conversions: RuleConversion[];
+  /** Every issue across every rule */
+  issues: RuleMigrationIssue[];
+  equivalence: RuleEquivalenceReport[];
+  migrated: MigratedRuleRecord[];
+  /** Legacy rules an earlier run already migrated; not written again */
+  alreadyMigrated: Pick<MigratedRuleRecord, 'legacyRuleId' | 'ruleId'>[];
+  convertedCount: number;
+  skippedCount: number;
+  /** Failures while writing drafts */
+  errors: string[];
+}
@@ -40,8 +40,34 @@ export type ConditionOperator =
   | 'in'       // value is in list
   | 'notIn'    // value is not in list
   | 'contains' // string contains substring
+  | 'startsWith' // string starts with prefix
+  | 'endsWith' // string ends with suffix
+  | 'matches'  // string matches regular expression
   | 'isTrue'   // boolean true
-  | 'isFalse'; // boolean false
+  | 'isFalse'  // boolean false
+  | 'exists'   // field has a value
+  | 'notExists' // field is missing or null
+  | 'dateBefore' // date is before a calendar date
+  | 'dateAfter'  // date is after a calendar date
+  | 'withinLast' // date is within N units before the effective date
+  | 'withinNext' // date is within N units after the effective date
+  | 'olderThan'; // date is more than N units before the effective date
+
+/** Operators that take no comparison value */
+export const VALUELESS_OPERATORS: ConditionOperator[] = ['isTrue', 'isFalse', 'exists', 'notExists'];
+
+/** Operators that compare a date field relative to the effective date */
+export const RELATIVE_DATE_OPERATORS: ConditionOperator[] = ['withinLast', 'withinNext', 'olderThan'];
+
+/** Unit for relative date operators */
+export type DateOffsetUnit = 'days' | 'months' | 'years';
+
+/**
+ * Prefix for derived field references, e.g. "derived.final_premium".
+ * Derived fields are supplied by the caller (typically rating-engine
+ * outputs) rather than the Data Dictionary.
+ */
+export const DERIVED_FIELD_PREFIX = 'derived.';
 
 /** Logical combinator for condition groups */
 export type LogicalOperator = 'AND' | 'OR';
@@ -62,6 +88,10 @@ export interface ConditionLeaf {
   value: string | number | boolean | (string | number)[];
   /** Second bound for 'between' operator */
   valueEnd?: number;
+  /** Unit for relative date operators (default: 'days') */
+  dateUnit?: DateOffsetUnit;
+  /** Compare against another field's value instead of `value` */
+  compareToField?: string;
 }
 
 /** A group of conditions joined by AND / OR */
@@ -120,6 +150,8 @@ export interface UnderwritingRule {
   type: UnderwritingRuleType;
   /** Product this rule is scoped to (denormalized for list/filter display) */
   productId?: string;
+  /** Legacy DSL rule this rule was migrated from */
+  legacyRuleId?: string;
   /** Quick-access pointer to the latest published version */
   latestPublishedVersionId?: string;
   /** Quick-access pointer to the latest draft version */
@@ -185,8 +217,10 @@ export interface RuleEvaluationContext {
   productVersionId: string;
   /** Coverage version ID for scope filtering (optional) */
   coverageVersionId?: string;
-  /** Effective date for date-range filtering */
+  /** Effective date for date-range filtering and relative date operators */
   effectiveDate: Date;
+  /** Derived values (e.g. rating outputs), referenced as "derived.<code>" */
+  derivedFields?: Record<string, string | number | boolean | null>;
 }
 
 /** Trace entry for a single condition leaf evaluation */
@@ -197,6 +231,12 @@ export interface ConditionTraceEntry {
   expectedValue: string | number | boolean | (string | number)[];
   actualValue: string | number | boolean | null;
   result: boolean;
+  /** Field the comparison value was read from, when `compareToField` is set */
+  comparedFieldCode?: string;
+  /** For date operators: the boundary date the actual value was compared to (ISO) */
+  referenceDate?: string;
+  /** Why the leaf could not be evaluated (unparseable date, invalid pattern) */
+  note?: string;
 }
 
 /** Trace entry for a single rule evaluation */
@@ -277,6 +317,50 @@ export interface RuleReadinessIssue {
   ruleNames?: string[];
 }
 
+// ============================================================================
+// Rule Set Analysis (static, across rules)
+// ============================================================================
+
+export type RuleSetFindingType =
+  | 'conflict'       // Two rules fire on the same input with contradictory actions
+  | 'dead_rule'      // A rule's conditions can never all be true
+  | 'shadowed_rule'; // Every input that fires the rule also fires a broader decline rule
+
+export const RULE_SET_FINDING_CONFIG: Record<RuleSetFindingType, { label: string; color: string }> = {
+  conflict:      { label: 'Conflict',      color: '#EF4444' },
+  dead_rule:     { label: 'Dead rule',     color: '#F59E0B' },
+  shadowed_rule: { label: 'Shadowed rule', color: '#6366F1' },
+};
+
+/** A concrete input demonstrating a finding */
+export interface RuleWitness {
+  inputs: Record<string, string | number | boolean | null>;
+  /** Values for "derived." field references, when any are involved */
+  derivedFields?: Record<string, string | number | boolean | null>;
+}
+
+export interface RuleSetFinding {
+  type: RuleSetFindingType;
+  severity: RuleSeverity;
+  ruleIds: string[];
+  ruleNames: string[];
+  message: string;
+  /** Input that fires the rules involved (conflicts and shadowed rules) */
+  witness?: RuleWitness;
+  /** Fields whose constraints cause the finding (dead rules) */
+  fieldCodes?: string[];
+}
+
+export interface RuleSetAnalysisReport {
+  stateCode: string | null;
+  /** ISO date used to resolve relative date operators */
+  effectiveDate: string;
+  rulesAnalyzed: number;
+  /** Rules too complex to analyze (condition tree expands too far) */
+  skippedRules: { ruleId: string; ruleName: string; reason: string }[];
+  findings: RuleSetFinding[];
+}
+
 // ============================================================================
 // Helpers for creating empty structures (used by UI builder)
 // ============================================================================
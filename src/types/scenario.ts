@@ -14,7 +14,7 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
-import type { EvaluationResult, StepTraceEntry } from './ratingEngine';
+import type { EvaluationResult, StepTraceEntry, ExposureUnit, PolicyTransactionType } from './ratingEngine';
 
 // ════════════════════════════════════════════════════════════════════════
 // Scenario
@@ -42,8 +42,17 @@ export interface Scenario {
   inputs: Record<string, string | number | boolean | null>;
   /** State code for state-scoped evaluation */
   stateCode?: string;
+  /** Policy term (ISO dates) for endorsement and cancellation scenarios */
+  policyEffectiveDate?: string;
+  policyExpirationDate?: string;
+  transactionDate?: string;
+  transactionType?: PolicyTransactionType;
   /** Expected outputs keyed by field code */
   expectedOutputs: Record<string, number>;
+  /** Exposure units for multi-unit rating (`inputs` become policy-level inputs) */
+  units?: ExposureUnit[];
+  /** Expected outputs per unit, keyed by unit ID then field code */
+  expectedUnitOutputs?: Record<string, Record<string, number>>;
   /** Absolute tolerance for numeric comparison (default 0.01) */
   tolerance: number;
   /** Tags for filtering and categorization */
@@ -59,6 +68,42 @@ export interface Scenario {
   updatedBy: string;
 }
 
+// ════════════════════════════════════════════════════════════════════════
+// Scenario Generation
+// ════════════════════════════════════════════════════════════════════════
+
+/** Where a generated boundary value was derived from */
+export type ScenarioBoundarySource =
+  | 'table_dimension'  // A table dimension value or numeric breakpoint
+  | 'table_range'      // A table dimension range bound
+  | 'step_condition'   // A conditional step threshold
+  | 'rule_condition';  // An underwriting rule comparison
+
+/** One input value worth testing, with the cut-point it exercises */
+export interface ScenarioBoundaryValue {
+  fieldCode: string;
+  value: string | number;
+  /** 'boundary' = on or inside a cut-point; 'edge_case' = just outside the covered domain */
+  tag: Extract<ScenarioTag, 'boundary' | 'edge_case'>;
+  source: ScenarioBoundarySource;
+  /** Step or rule the cut-point belongs to */
+  sourceName: string;
+  /** e.g. "min of range 26-50" */
+  description: string;
+}
+
+/** A proposed scenario, with expected outputs seeded from the published version */
+export interface GeneratedScenario {
+  name: string;
+  description: string;
+  inputs: Record<string, string | number | boolean | null>;
+  stateCode?: string;
+  expectedOutputs: Record<string, number>;
+  tags: ScenarioTag[];
+  /** Boundary values this scenario exercises */
+  covers: ScenarioBoundaryValue[];
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // QA Run
 // ════════════════════════════════════════════════════════════════════════
@@ -85,6 +130,8 @@ export interface QARunScenarioResult {
   diffs: ScenarioFieldDiff[];
   /** Baseline outputs from the published version (for compare) */
   baselineOutputs?: Record<string, number>;
+  /** Actual outputs per exposure unit (multi-unit scenarios only) */
+  actualUnitOutputs?: Record<string, Record<string, number>>;
   /** Error message if evaluation failed */
   errorMessage?: string;
   /** Execution time in ms */
@@ -95,6 +142,8 @@ export interface QARunScenarioResult {
 
 export interface ScenarioFieldDiff {
   fieldCode: string;
+  /** Exposure unit the diff belongs to (absent for policy-level fields) */
+  unitId?: string;
   expected: number;
   actual: number;
   delta: number;
@@ -0,0 +1,127 @@
+/**
+ * Scheduled Publish Types
+ *
+ * Data model:
+ *   orgs/{orgId}/scheduledPublishes/{scheduleId}   — one go-live per change set
+ *
+ * An approved change set can be scheduled to publish at a local date and
+ * time in a named time zone (e.g. 2026-07-01 00:00 America/Chicago). The
+ * scheduler re-runs the publish preflight when the schedule comes due and
+ * publishes in one batch; if preflight fails — or a blocking task linked
+ * to the change set reopens beforehand — the schedule is put on hold
+ * instead, and the change set stays unpublished until someone reschedules.
+ *
+ * Schedules are written only by Cloud Functions.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+
+// ════════════════════════════════════════════════════════════════════════
+// Status
+// ════════════════════════════════════════════════════════════════════════
+
+export type ScheduledPublishStatus =
+  | 'scheduled'   // waiting for runAt
+  | 'held'        // preflight failed or a blocker reopened; needs a reschedule
+  | 'publishing'  // claimed by a scheduler run
+  | 'published'
+  | 'failed'      // publish errored on every attempt
+  | 'cancelled';
+
+export const SCHEDULED_PUBLISH_STATUS_CONFIG: Record<ScheduledPublishStatus, { label: string; color: string }> = {
+  scheduled: { label: 'Scheduled', color: '#3B82F6' },
+  held: { label: 'On hold', color: '#F59E0B' },
+  publishing: { label: 'Publishing', color: '#8B5CF6' },
+  published: { label: 'Published', color: '#10B981' },
+  failed: { label: 'Failed', color: '#EF4444' },
+  cancelled: { label: 'Cancelled', color: '#6B7280' },
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// Document
+// ════════════════════════════════════════════════════════════════════════
+
+export type ScheduledPublishAction = 'scheduled' | 'postponed' | 'held' | 'cancelled' | 'published' | 'retry' | 'failed';
+
+/** One entry in a schedule's history */
+export interface ScheduledPublishEvent {
+  action: ScheduledPublishAction;
+  at: Timestamp;
+  actorUserId: string;
+  /** Run time in effect after this event */
+  runAt?: Timestamp;
+  note?: string;
+}
+
+export interface ScheduledPublish {
+  id: string;
+  orgId: string;
+  changeSetId: string;
+  changeSetName: string;
+  /** Local go-live date (YYYY-MM-DD) in `timeZone` */
+  effectiveDate: string;
+  /** Local go-live time (HH:mm) in `timeZone` */
+  effectiveTime: string;
+  /** IANA time zone, e.g. "America/New_York" */
+  timeZone: string;
+  /** UTC instant of effectiveDate + effectiveTime in timeZone */
+  runAt: Timestamp;
+  status: ScheduledPublishStatus;
+  /** Why the schedule is on hold */
+  holdReason?: string;
+  /** Publish attempts that threw */
+  attempts: number;
+  lastError?: string;
+  /** When the current scheduler run claimed it; set while 'publishing' */
+  claimedAt?: Timestamp;
+  publishedAt?: Timestamp;
+  publishedCount?: number;
+  history: ScheduledPublishEvent[];
+  createdAt: Timestamp;
+  createdBy: string;
+  createdByName?: string;
+  updatedAt: Timestamp;
+  updatedBy: string;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Callables
+// ════════════════════════════════════════════════════════════════════════
+
+/** Local go-live moment as entered by the user */
+export interface ScheduleWindow {
+  effectiveDate: string;
+  effectiveTime: string;
+  timeZone: string;
+}
+
+/** Result of the runScheduledPublishesNow callable and the scheduler */
+export interface ScheduledPublishRunSummary {
+  due: number;
+  /** Stalled 'publishing' claims picked up again */
+  reclaimed: number;
+  published: number;
+  held: number;
+  retried: number;
+  failed: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Release calendar
+// ════════════════════════════════════════════════════════════════════════
+
+export interface ReleaseCalendarDay {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Day belongs to the displayed month (vs. leading/trailing padding) */
+  inMonth: boolean;
+  entries: ScheduledPublish[];
+}
+
+/** A month grid, Monday-first, as whole weeks */
+export interface ReleaseCalendarMonth {
+  year: number;
+  /** 1–12 */
+  month: number;
+  weeks: ReleaseCalendarDay[][];
+}
@@ -22,7 +22,13 @@ export type SearchableArtifactType =
   | 'table'
   | 'changeset'
   | 'task'
-  | 'stateProgram';
+  | 'stateProgram'
+  | 'clause'
+  | 'dataDictionaryField'
+  | 'scenario'
+  | 'filingPackage'
+  | 'endorsement'
+  | 'coverageTemplate';
 
 // ════════════════════════════════════════════════════════════════════════
 // Index document (what lives in Firestore)
@@ -71,6 +77,20 @@ export interface SearchIndexDoc {
   /** Optional: parent artifact info for "where used" context */
   parentId?: string;
   parentType?: SearchableArtifactType;
+
+  /**
+   * Whole-word tokens from long-form body text (form and clause wording),
+   * ranked by frequency with stop words removed. Matched exactly — body
+   * text gets no prefixes. Bounded to MAX_BODY_TOKENS_PER_DOC items.
+   */
+  bodyTokens?: string[];
+
+  /** Facets: products the artifact belongs to or applies to */
+  productIds?: string[];
+  /** Facets: state codes the artifact applies to */
+  states?: string[];
+  /** Facets: lifecycle status (draft, published, active, archived, …) */
+  status?: string;
 }
 
 // ════════════════════════════════════════════════════════════════════════
@@ -86,6 +106,10 @@ export interface SearchQuery {
   types?: SearchableArtifactType[];
   /** Max results (default 25) */
   limit?: number;
+  /** Optional facet filters (applied after the token match) */
+  productId?: string;
+  state?: string;
+  status?: string;
 }
 
 /** A single result row returned to the UI */
@@ -99,6 +123,60 @@ export interface SearchResult {
   route?: string;
   parentId?: string;
   parentType?: SearchableArtifactType;
+  productIds?: string[];
+  states?: string[];
+  status?: string;
+  /** True when the match came from body text rather than the title/keywords */
+  bodyMatch?: boolean;
+}
+
+/** Result counts per facet value, computed before facet filters apply */
+export interface SearchFacetCounts {
+  type: Partial<Record<SearchableArtifactType, number>>;
+  productId: Record<string, number>;
+  state: Record<string, number>;
+  status: Record<string, number>;
+}
+
+/** Facet-filtered results plus the counts used to render facet chips */
+export interface FacetedSearchResponse {
+  results: SearchResult[];
+  facets: SearchFacetCounts;
+  /** Matches before facet filters and the result limit */
+  total: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Reindex jobs
+// ════════════════════════════════════════════════════════════════════════
+
+export type SearchReindexStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * Progress record for a backfill / reindex run.
+ *
+ * Firestore path:  orgs/{orgId}/searchIndexJobs/{jobId}
+ * Written by the `reindexSearch` callable as it walks each collection.
+ */
+export interface SearchReindexJob {
+  id: string;
+  status: SearchReindexStatus;
+  /** Artifact types being rebuilt (all when the request named none) */
+  types: SearchableArtifactType[];
+  /** Source documents discovered so far */
+  total: number;
+  /** Source documents indexed so far */
+  processed: number;
+  /** Documents indexed per artifact type */
+  byType: Partial<Record<SearchableArtifactType, number>>;
+  /** Type currently being walked */
+  currentType?: SearchableArtifactType | null;
+  /** Index entries removed because their source no longer exists */
+  removed: number;
+  error?: string | null;
+  requestedBy: string;
+  startedAt: Timestamp;
+  completedAt?: Timestamp | null;
 }
 
 // ════════════════════════════════════════════════════════════════════════
@@ -151,6 +229,11 @@ export const MAX_PREFIXES_PER_DOC = 80;
  */
 export const MAX_PREFIX_LENGTH = 8;
 
+/**
+ * Max body-text tokens per document (most frequent first).
+ */
+export const MAX_BODY_TOKENS_PER_DOC = 400;
+
 /**
  * Human-readable labels for each artifact type.
  */
@@ -164,4 +247,10 @@ export const ARTIFACT_TYPE_LABELS: Record<SearchableArtifactType, string> = {
   changeset: 'Change Set',
   task: 'Task',
   stateProgram: 'State Program',
+  clause: 'Clause',
+  dataDictionaryField: 'Data Field',
+  scenario: 'QA Scenario',
+  filingPackage: 'Filing Package',
+  endorsement: 'Endorsement',
+  coverageTemplate: 'Coverage Template',
 };
@@ -0,0 +1,104 @@
+/**
+ * Semantic Search Types
+ *
+ * Hybrid full-text search over policy language: form ingestion chunks,
+ * clause versions and coverage descriptions. Each passage is scored with
+ * BM25 over stemmed terms and, when an embedding provider is configured,
+ * cosine similarity of embeddings; the two are blended into one score.
+ *
+ * The index is built in the browser from Firestore data and held in
+ * memory; form-text passages are also kept in IndexedDB so rebuilds skip
+ * versions already read. Nothing is written back to Firestore.
+ */
+
+import type { ContentAnchor } from './ingestion';
+
+// ════════════════════════════════════════════════════════════════════════
+// Indexed passages
+// ════════════════════════════════════════════════════════════════════════
+
+export type SemanticDocKind = 'formChunk' | 'clauseVersion' | 'coverage';
+
+export const SEMANTIC_DOC_KIND_CONFIG: Record<SemanticDocKind, { label: string; color: string }> = {
+  formChunk:     { label: 'Form text',  color: '#6366F1' },
+  clauseVersion: { label: 'Clause',     color: '#10B981' },
+  coverage:      { label: 'Coverage',   color: '#F59E0B' },
+};
+
+/** One searchable passage */
+export interface SemanticSearchDoc {
+  /** Unique across kinds, e.g. "formChunk:{versionId}:{chunkId}" */
+  id: string;
+  kind: SemanticDocKind;
+  /** Primary label, e.g. "CG 00 01 (04/13)" or a clause name */
+  title: string;
+  /** Secondary label, e.g. the section path */
+  subtitle: string;
+  text: string;
+  /** Where the result opens */
+  route: string;
+
+  formId?: string;
+  formVersionId?: string;
+  /** Page the passage starts on */
+  page?: number;
+  /** Anchors inside `text`, offsets relative to it */
+  anchors?: ContentAnchor[];
+
+  clauseId?: string;
+  productId?: string;
+  coverageId?: string;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Embeddings
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Turns text into fixed-length vectors. Implementations may call a remote
+ * model; the index only needs vectors whose cosine tracks meaning.
+ */
+export interface EmbeddingProvider {
+  /** Stable identifier; indexes built with another provider are rebuilt */
+  id: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Queries and hits
+// ════════════════════════════════════════════════════════════════════════
+
+export interface HybridSearchOptions {
+  /** Max hits (default 25) */
+  limit?: number;
+  kinds?: SemanticDocKind[];
+  /** Weight of the normalised BM25 score; the embedding score gets 1 − this (default 0.6) */
+  bm25Weight?: number;
+  /** Hits scoring below this are dropped (default 0.05) */
+  minScore?: number;
+}
+
+/** A character range in a passage or snippet */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SemanticSearchHit {
+  doc: SemanticSearchDoc;
+  /** Blended score, 0-1 */
+  score: number;
+  /** BM25 normalised by the best BM25 score of the query, 0-1 */
+  bm25: number;
+  /** Cosine similarity, when an embedding provider is configured */
+  embedding?: number;
+  /** A window of the passage around the best match */
+  snippet: string;
+  /** Matched terms within `snippet` */
+  highlights: TextRange[];
+  /** The anchor nearest before the best match */
+  anchor?: ContentAnchor;
+  /** Route to the hit, deep-linked to the page / anchor for form text */
+  route: string;
+}
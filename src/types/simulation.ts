@@ -13,6 +13,7 @@
 import { Timestamp } from 'firebase/firestore';
 import type { RuleAction, RuleSeverity, RuleTraceEntry } from './rulesEngine';
 import type { StepTraceEntry, EvaluationError } from './ratingEngine';
+import type { ResolvedVersionStamp } from './versionResolution';
 
 // ════════════════════════════════════════════════════════════════════════
 // Simulation
@@ -42,6 +43,8 @@ export const UW_DECISION_CONFIG: Record<UWDecision, { label: string; color: stri
 // ════════════════════════════════════════════════════════════════════════
 
 export interface UWPhaseResult {
+  /** Published versions the rules were resolved against */
+  resolvedVersions?: ResolvedVersionStamp;
   decision: UWDecision | null;
   severity: RuleSeverity | null;
   firedRuleCount: number;
@@ -62,6 +65,8 @@ export interface UWPhaseResult {
 
 export interface PremiumPhaseResult {
   success: boolean;
+  /** Published versions the premium was rated against */
+  resolvedVersions?: ResolvedVersionStamp;
   outputs: Record<string, number>;
   finalPremium?: number;
   /** Step-level trace for drill-down */
@@ -121,6 +126,9 @@ export interface Simulation {
   applicableFormCount?: number;
   totalExecutionTimeMs?: number;
 
+  /** Published versions resolved for the effective date */
+  resolvedVersions?: ResolvedVersionStamp;
+
   /** Error (if status = 'error') */
   errorMessage?: string;
 
@@ -141,6 +149,8 @@ export interface SimulationInput {
   stateCode: string;
   effectiveDate: Date;
   inputs: Record<string, string | number | boolean | null>;
+  /** Versions resolved for the effective date (stamped into the output) */
+  resolvedVersions?: ResolvedVersionStamp;
 }
 
 export interface SimulationOutput {
@@ -148,4 +158,6 @@ export interface SimulationOutput {
   premiumResult: PremiumPhaseResult;
   formsResult: FormsPhaseResult;
   totalExecutionTimeMs: number;
+  /** Published versions the simulation was resolved against */
+  resolvedVersions?: ResolvedVersionStamp;
 }
@@ -0,0 +1,245 @@
+/**
+ * Structural Diff Types
+ *
+ * A schema-aware change model shared by every versioned entity type.
+ * Instead of flat dotted paths, changes address:
+ *  - elements of keyed arrays by their key (rating steps, limit options,
+ *    table dimensions — anything whose elements carry an `id`)
+ *  - nodes of condition trees by node id, so a condition moved to another
+ *    group is one `moved` change rather than a removal plus an addition
+ *  - table cells by `row|column` key, whether storage is sparse or dense
+ *
+ * The same model drives three-way merges: each side's changes against the
+ * common base are re-applied onto the other side, and overlapping changes
+ * that end in different values are conflicts.
+ */
+
+import type { VersionedEntityType } from './versioning';
+
+// ════════════════════════════════════════════════════════════════════════
+// Paths
+// ════════════════════════════════════════════════════════════════════════
+
+/** An object field, or the element / node / cell with the given key */
+export type StructuralPathSegment = string | { key: string };
+
+export type StructuralPath = StructuralPathSegment[];
+
+// ════════════════════════════════════════════════════════════════════════
+// Changes
+// ════════════════════════════════════════════════════════════════════════
+
+export type StructuralChangeKind =
+  | 'added'
+  | 'removed'
+  | 'modified'
+  | 'moved'       // condition node now sits in a different group
+  | 'reordered';  // same keyed elements, different order
+
+export type StructuralChangeTarget = 'field' | 'element' | 'condition' | 'cell';
+
+export const STRUCTURAL_CHANGE_KIND_CONFIG: Record<StructuralChangeKind, { label: string; color: string }> = {
+  added:     { label: 'Added',     color: '#10B981' },
+  removed:   { label: 'Removed',   color: '#EF4444' },
+  modified:  { label: 'Changed',   color: '#3B82F6' },
+  moved:     { label: 'Moved',     color: '#8B5CF6' },
+  reordered: { label: 'Reordered', color: '#F59E0B' },
+};
+
+/** Where a condition node or keyed element sits */
+export interface StructuralPosition {
+  /** Parent group node id (condition trees only) */
+  parentKey: string | null;
+  index: number;
+}
+
+export interface StructuralChange {
+  kind: StructuralChangeKind;
+  target: StructuralChangeTarget;
+  path: StructuralPath;
+  /** e.g. `steps[s2].factorValue`; plain object paths read like `limits.perOccurrence` */
+  pathText: string;
+  /** e.g. `Rating steps › Territory factor › Factor value` */
+  label: string;
+  /** Label of the top-level field, for grouping */
+  section: string;
+  before?: unknown;
+  after?: unknown;
+  /** Position before a move, or of a removed element */
+  from?: StructuralPosition;
+  /** Position after a move, or of an added element */
+  to?: StructuralPosition;
+}
+
+export interface StructuralDiff {
+  entityType: VersionedEntityType | null;
+  changes: StructuralChange[];
+  counts: Record<StructuralChangeKind, number>;
+  isIdentical: boolean;
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Three-way merge
+// ════════════════════════════════════════════════════════════════════════
+
+export type MergeResolution = 'ours' | 'theirs';
+
+export interface MergeConflict {
+  path: string;
+  label: string;
+  baseValue: unknown;
+  oursValue: unknown;
+  theirsValue: unknown;
+  /** Our change, re-applied when the conflict is resolved as 'ours' */
+  change: StructuralChange;
+}
+
+export interface ThreeWayMerge {
+  entityType: VersionedEntityType | null;
+  /** Theirs with our non-conflicting changes applied */
+  merged: Record<string, unknown>;
+  /** Our changes applied cleanly */
+  applied: StructuralChange[];
+  /** Our changes theirs already contains */
+  redundant: StructuralChange[];
+  /** Their changes against the base, for display */
+  theirs: StructuralChange[];
+  conflicts: MergeConflict[];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Schemas
+// ════════════════════════════════════════════════════════════════════════
+
+/**
+ * Field patterns are paths with keys dropped: `steps.condition.value`
+ * matches `steps[s2].condition.value`.
+ */
+export interface KeyedCollectionSchema {
+  /** Element field holding its identity (default `id`) */
+  key?: string;
+  /** Element field that names it (default: name, label, displayName, code, key) */
+  labelField?: string;
+  /**
+   * Whether array position is meaningful (default true). Collections that
+   * carry their own order field (`order`, `displayOrder`) set this false so
+   * a reorder shows as changes to that field.
+   */
+  ordered?: boolean;
+}
+
+export interface ConditionTreeSchema {
+  /** Group field holding child nodes */
+  children: string;
+}
+
+export interface CellTableSchema {
+  /** Top-level field holding the dimensions (sorted by `position`) */
+  dimensionsField: string;
+}
+
+export interface EntityDiffSchema {
+  /** Field patterns never compared, beyond version metadata */
+  ignore?: string[];
+  /** Labels by field pattern; unlabeled fields are humanized */
+  labels?: Record<string, string>;
+  collections?: Record<string, KeyedCollectionSchema>;
+  conditionTrees?: Record<string, ConditionTreeSchema>;
+  cellTables?: Record<string, CellTableSchema>;
+}
+
+/** Version bookkeeping that is never part of a structural diff */
+export const STRUCTURAL_DIFF_METADATA_FIELDS = [
+  'id', 'versionNumber', 'status',
+  'createdAt', 'createdBy', 'updatedAt', 'updatedBy',
+  'publishedAt', 'publishedBy',
+  'summary', 'notes',
+  'clonedFrom', 'clonedFromVersionId', 'restoredFromVersionId',
+];
+
+/** Bookkeeping fields skipped at any depth */
+export const STRUCTURAL_DIFF_NESTED_IGNORED = ['id', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy'];
+
+export const STRUCTURAL_DIFF_SCHEMAS: Record<VersionedEntityType, EntityDiffSchema> = {
+  product: {
+    labels: { name: 'Name', description: 'Description', lineOfBusiness: 'Line of business', states: 'States' },
+  },
+  coverage: {
+    labels: {
+      limitOptionSets: 'Limit option sets',
+      'limitOptionSets.options': 'Options',
+      'limitOptionSets.sublimits': 'Sublimits',
+      deductibleOptionSets: 'Deductible option sets',
+      'deductibleOptionSets.options': 'Options',
+      states: 'States',
+    },
+    collections: {
+      limitOptionSets: {},
+      'limitOptionSets.options': { labelField: 'label', ordered: false },
+      'limitOptionSets.sublimits': { labelField: 'label', ordered: false },
+      deductibleOptionSets: {},
+      'deductibleOptionSets.options': { labelField: 'label', ordered: false },
+    },
+  },
+  form: {
+    ignore: ['formId', 'storagePath', 'extractedText', 'indexingStatus'],
+    labels: { editionDate: 'Edition date', jurisdiction: 'Jurisdictions', checksum: 'PDF file' },
+  },
+  rule: {
+    labels: {
+      conditions: 'Conditions',
+      'conditions.fieldCode': 'Field',
+      'conditions.operator': 'Operator',
+      'conditions.value': 'Value',
+      'conditions.valueEnd': 'Upper bound',
+      'conditions.compareToField': 'Compare to field',
+      outcome: 'Outcome',
+      scope: 'Scope',
+      'scope.stateCode': 'State',
+    },
+    conditionTrees: { conditions: { children: 'conditions' } },
+  },
+  rateProgram: {
+    ignore: ['stepsHash', 'rateProgramId', 'steps.rateProgramVersionId'],
+    labels: {
+      steps: 'Rating steps',
+      'steps.order': 'Order',
+      'steps.outputFieldCode': 'Output field',
+      'steps.factorValue': 'Factor value',
+      'steps.constantValue': 'Constant value',
+      'steps.tableVersionId': 'Table version',
+      'steps.lookupDimensions': 'Lookup dimensions',
+      'steps.roundingMode': 'Rounding',
+      'steps.roundingPrecision': 'Rounding precision',
+      'steps.shortRateTable': 'Short-rate table',
+    },
+    collections: {
+      steps: { ordered: false },
+      'steps.lookupDimensions': { key: 'dimensionName', labelField: 'dimensionName' },
+    },
+  },
+  table: {
+    ignore: ['tableId', 'stats'],
+    labels: { dimensions: 'Dimensions', 'dimensions.values': 'Values', cellStorage: 'Cells', 'cellStorage.defaultValue': 'Default value' },
+    collections: { dimensions: {} },
+    cellTables: { cellStorage: { dimensionsField: 'dimensions' } },
+  },
+  dataDictionary: {
+    labels: { displayName: 'Display name', allowedValues: 'Allowed values' },
+  },
+};
+
+// ════════════════════════════════════════════════════════════════════════
+// Change set items
+// ════════════════════════════════════════════════════════════════════════
+
+/** What one change set item changes, against the version its draft was branched from */
+export interface ItemStructuralDiff {
+  itemId: string;
+  versionId: string;
+  versionNumber: number | null;
+  /** Null when the item creates the artifact */
+  baseVersionId: string | null;
+  baseVersionNumber: number | null;
+  diff: StructuralDiff;
+}
@@ -0,0 +1,120 @@
+/**
+ * Version Resolution Types
+ *
+ * Selects the published rate program, table and rule versions in force for a
+ * product, state and policy effective date, and reports gaps and overlaps in
+ * their effective ranges. The resolved version IDs are stamped onto rating
+ * and simulation results so historical quotes can be reproduced exactly.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+
+// ════════════════════════════════════════════════════════════════════════
+// Inputs
+// ════════════════════════════════════════════════════════════════════════
+
+/** Artifact kinds the resolver selects versions for */
+export type ResolvableArtifactType = 'rateProgram' | 'table' | 'rule';
+
+export const RESOLVABLE_ARTIFACT_LABELS: Record<ResolvableArtifactType, string> = {
+  rateProgram: 'Rate Program',
+  table: 'Rating Table',
+  rule: 'Underwriting Rule',
+};
+
+/** Effective date as stored on the various version documents */
+export type EffectiveDateValue = Timestamp | Date | string | null | undefined;
+
+/** Minimal view of a version document needed for resolution */
+export interface EffectiveDatedVersion {
+  id: string;
+  versionNumber: number;
+  status: string;
+  effectiveStart?: EffectiveDateValue;
+  effectiveEnd?: EffectiveDateValue;
+  /** State restriction on the version itself (rule scopes); null = all states */
+  stateCode?: string | null;
+}
+
+/** An artifact and all of its versions */
+export interface VersionedArtifactInput {
+  artifactType: ResolvableArtifactType;
+  artifactId: string;
+  artifactName: string;
+  versions: EffectiveDatedVersion[];
+}
+
+export interface VersionResolutionRequest {
+  productId: string;
+  stateCode: string;
+  effectiveDate: Date;
+  artifacts: VersionedArtifactInput[];
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Outputs
+// ════════════════════════════════════════════════════════════════════════
+
+/** The version of one artifact in force on the requested date */
+export interface ResolvedVersionRef {
+  artifactType: ResolvableArtifactType;
+  artifactId: string;
+  artifactName: string;
+  versionId: string;
+  versionNumber: number;
+  /** ISO dates, null = unbounded */
+  effectiveStart: string | null;
+  effectiveEnd: string | null;
+}
+
+export type VersionRangeIssueType =
+  | 'gap'          // Dates between two published versions covered by neither
+  | 'overlap'      // Two published versions in force on the same dates
+  | 'not_in_force'; // No published version in force on the requested date
+
+export const VERSION_RANGE_ISSUE_CONFIG: Record<VersionRangeIssueType, { label: string; color: string }> = {
+  gap:          { label: 'Gap',          color: '#F59E0B' },
+  overlap:      { label: 'Overlap',      color: '#EF4444' },
+  not_in_force: { label: 'Not in force', color: '#EF4444' },
+};
+
+export interface VersionRangeIssue {
+  type: VersionRangeIssueType;
+  artifactType: ResolvableArtifactType;
+  artifactId: string;
+  artifactName: string;
+  /** Versions involved (both sides of a gap or overlap) */
+  versionIds: string[];
+  /** ISO date range affected, null = unbounded */
+  from: string | null;
+  to: string | null;
+  message: string;
+}
+
+/** Complete set of versions that apply to a product, state and date */
+export interface ResolvedVersionSet {
+  productId: string;
+  stateCode: string;
+  /** ISO date (yyyy-mm-dd) */
+  effectiveDate: string;
+  rateProgramVersions: ResolvedVersionRef[];
+  tableVersions: ResolvedVersionRef[];
+  ruleVersions: ResolvedVersionRef[];
+  /** Step tableVersionId references rebound to the table version in force */
+  tableVersionBindings: Record<string, string>;
+  /** Gaps and overlaps across every artifact, plus artifacts not in force */
+  issues: VersionRangeIssue[];
+  /** Deterministic hash of the resolved version IDs */
+  resolutionHash: string;
+}
+
+/** Compact record of resolved versions, stamped on evaluation results */
+export interface ResolvedVersionStamp {
+  productId: string;
+  stateCode: string;
+  effectiveDate: string;
+  rateProgramVersionIds: string[];
+  tableVersionIds: string[];
+  ruleVersionIds: string[];
+  resolutionHash: string;
+}
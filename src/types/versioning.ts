@@ -4,6 +4,7 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
+import type { StructuralDiff } from './structuralDiff';
 
 // ============================================================================
 // Version Status
@@ -101,6 +102,9 @@ export interface VersionMetadata {
   /** If cloned, the source version ID */
   clonedFromVersionId?: string;
   
+  /** If created by reverting a change set, the earlier version it restores */
+  restoredFromVersionId?: string;
+  
   /** ID of the user who published this version (if published) */
   publishedBy?: string;
   
@@ -183,5 +187,8 @@ export interface VersionComparisonResult {
   
   /** Number of fields changed */
   changeCount: number;
+
+  /** Schema-aware changes (keyed elements, condition moves, table cells) */
+  structural?: StructuralDiff;
 }
 
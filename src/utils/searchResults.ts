@@ -0,0 +1,119 @@
+/**
+ * Search Result Matching, Scoring & Facets
+ *
+ * Pure utility functions (no Firebase dependency) applied to searchIndex
+ * docs after the Firestore `array-contains` fetch:
+ *  - Every query token must match the doc's tokens (exact or leading),
+ *    its prefixes, or its body-text tokens.
+ *  - Title/keyword hits outrank body-text hits.
+ *  - Facet counts are taken before facet filters so the UI can show how
+ *    many results each chip would leave.
+ */
+
+import type {
+  SearchIndexDoc,
+  SearchResult,
+  SearchFacetCounts,
+  SearchableArtifactType,
+} from '../types/search';
+
+// ════════════════════════════════════════════════════════════════════════
+// Scoring
+// ════════════════════════════════════════════════════════════════════════
+
+const EXACT_TOKEN_SCORE = 10;
+const PREFIX_SCORE = 3;
+const BODY_TOKEN_SCORE = 2;
+const TITLE_PHRASE_BOOST = 20;
+
+/**
+ * Score a candidate doc against the tokenised query.
+ * Returns null when any query token fails to match.
+ */
+export function scoreSearchDoc(
+  d: SearchIndexDoc,
+  queryTokens: string[],
+  rawQuery: string,
+): { score: number; bodyMatch: boolean } | null {
+  const tokens = d.tokens || [];
+  const prefixes = d.prefixes || [];
+  const bodyTokens = d.bodyTokens || [];
+
+  let score = 0;
+  let bodyMatch = false;
+  for (const tok of queryTokens) {
+    if (tokens.includes(tok)) score += EXACT_TOKEN_SCORE;
+    else if (prefixes.includes(tok) || tokens.some(t => t.startsWith(tok))) score += PREFIX_SCORE;
+    else if (bodyTokens.includes(tok)) { score += BODY_TOKEN_SCORE; bodyMatch = true; }
+    else return null;
+  }
+
+  // Boost exact title match
+  if (d.title.toLowerCase().includes(rawQuery.trim().toLowerCase())) score += TITLE_PHRASE_BOOST;
+
+  return { score, bodyMatch };
+}
+
+/** Map an index doc to the result row the UI renders */
+export function toSearchResult(id: string, d: SearchIndexDoc, bodyMatch = false): SearchResult {
+  return {
+    id,
+    type: d.type,
+    artifactId: d.artifactId,
+    versionId: d.versionId,
+    title: d.title,
+    subtitle: d.subtitle,
+    route: d.route,
+    parentId: d.parentId,
+    parentType: d.parentType,
+    productIds: d.productIds,
+    states: d.states,
+    status: d.status,
+    ...(bodyMatch ? { bodyMatch } : {}),
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════
+// Facets
+// ════════════════════════════════════════════════════════════════════════
+
+export interface SearchFacetFilters {
+  types?: SearchableArtifactType[];
+  productId?: string;
+  state?: string;
+  status?: string;
+}
+
+/** The product a result belongs to: its own facet list, else its parent product */
+function resultProductIds(r: SearchResult): string[] {
+  if (r.productIds?.length) return r.productIds;
+  if (r.type === 'product') return [r.artifactId];
+  if (r.parentType === 'product' && r.parentId) return [r.parentId];
+  return [];
+}
+
+export function matchesFacets(r: SearchResult, filters: SearchFacetFilters): boolean {
+  if (filters.types?.length && !filters.types.includes(r.type)) return false;
+  if (filters.productId && !resultProductIds(r).includes(filters.productId)) return false;
+  if (filters.state && !(r.states || []).includes(filters.state)) return false;
+  if (filters.status && r.status !== filters.status) return false;
+  return true;
+}
+
+export function applyFacetFilters(results: SearchResult[], filters: SearchFacetFilters): SearchResult[] {
+  return results.filter(r => matchesFacets(r, filters));
+}
+
+/** Count results per type, product, state and status */
+export function countFacets(results: SearchResult[]): SearchFacetCounts {
+  const facets: SearchFacetCounts = { type: {}, productId: {}, state: {}, status: {} };
+  const bump = (bucket: Record<string, number>, key: string) => { bucket[key] = (bucket[key] ?? 0) + 1; };
+
+  for (const r of results) {
+    facets.type[r.type] = (facets.type[r.type] ?? 0) + 1;
+    for (const p of new Set(resultProductIds(r))) bump(facets.productId, p);
+    for (const s of new Set(r.states || [])) bump(facets.state, s);
+    if (r.status) bump(facets.status, r.status);
+  }
+  return facets;
+}
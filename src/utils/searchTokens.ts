@@ -9,12 +9,15 @@
  *  - Short noise words (<=2 chars) are dropped unless they look like a code ("CA", "NY").
  *  - Prefixes are the leading 1..MAX_PREFIX_LENGTH characters of each token.
  *  - Both arrays are bounded to prevent Firestore doc bloat.
+ *  - Body text (form / clause wording) yields a separate `bodyTokens[]`
+ *    array: whole words only, stop words dropped, most frequent first.
  */
 
 import {
   MAX_TOKENS_PER_DOC,
   MAX_PREFIXES_PER_DOC,
   MAX_PREFIX_LENGTH,
+  MAX_BODY_TOKENS_PER_DOC,
 } from '../types/search';
 
 // ════════════════════════════════════════════════════════════════════════
@@ -126,6 +129,42 @@ export function generatePrefixes(tokens: string[]): string[] {
   return out;
 }
 
+// ════════════════════════════════════════════════════════════════════════
+// Body text
+// ════════════════════════════════════════════════════════════════════════
+
+/** Words too common in policy wording to be worth an index slot */
+const BODY_STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'any', 'all', 'this', 'that',
+  'with', 'from', 'which', 'will', 'shall', 'such', 'other', 'under', 'been',
+  'has', 'have', 'was', 'were', 'who', 'whom', 'its', 'our', 'you', 'your',
+  'into', 'than', 'then', 'there', 'these', 'those', 'each', 'only', 'also',
+  'may', 'must', 'does', 'did', 'can', 'their', 'them', 'they', 'what', 'when',
+  'where', 'would', 'could', 'upon', 'out', 'over', 'more', 'most', 'same',
+]);
+
+/**
+ * Tokens for long-form body text. Unlike `generateTokens`, every word is
+ * counted and the MAX_BODY_TOKENS_PER_DOC most frequent survive (ties keep
+ * first-appearance order); stop words and bare numbers are dropped.
+ */
+export function generateBodyTokens(text: string | undefined | null): string[] {
+  if (!text) return [];
+
+  const counts = new Map<string, number>();
+  for (const part of text.split(SPLIT_RE)) {
+    const lower = part.toLowerCase();
+    if (lower.length <= 2 || BODY_STOP_WORDS.has(lower) || /^\d+$/.test(lower)) continue;
+    counts.set(lower, (counts.get(lower) ?? 0) + 1);
+  }
+
+  // Map iteration is insertion order, and the sort is stable
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_BODY_TOKENS_PER_DOC)
+    .map(([token]) => token);
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // Convenience: build both at once
 // ════════════════════════════════════════════════════════════════════════
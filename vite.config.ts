@@ -2,7 +2,40 @@ import { defineConfig } from 'vitest/config';
 import react from '@vitejs/plugin-react';
 import { visualizer } from 'rollup-plugin-visualizer';
 import path from 'path';
-import { copyFileSync } from 'fs';
+import { copyFileSync, createReadStream, existsSync, mkdirSync, readdirSync } from 'fs';
+import type { Plugin } from 'vite';
+
+// Self-hosted OCR assets, served under /tesseract/ so tesseract.js never
+// fetches its worker, core or language data from a CDN
+const TESSERACT_ASSETS: Record<string, string> = {
+  'worker.min.js': 'node_modules/tesseract.js/dist/worker.min.js',
+  'eng.traineddata.gz': 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+  ...Object.fromEntries(
+    readdirSync(path.resolve(__dirname, 'node_modules/tesseract.js-core'))
+      .filter(file => file.endsWith('.wasm.js'))
+      .map(file => [file, `node_modules/tesseract.js-core/${file}`]),
+  ),
+};
+
+const tesseractAssets = (): Plugin => ({
+  name: 'tesseract-assets',
+  configureServer(server) {
+    server.middlewares.use('/tesseract', (req, res, next) => {
+      const source = TESSERACT_ASSETS[(req.url || '').replace(/^\//, '').split('?')[0]];
+      if (!source) return next();
+      res.setHeader('Content-Type', source.endsWith('.gz') ? 'application/octet-stream' : 'text/javascript');
+      createReadStream(path.resolve(__dirname, source)).pipe(res);
+    });
+  },
+  closeBundle() {
+    const dest = path.resolve(__dirname, 'build/tesseract');
+    if (!existsSync(dest)) mkdirSync(dest, { recursive: true });
+    for (const [file, source] of Object.entries(TESSERACT_ASSETS)) {
+      copyFileSync(path.resolve(__dirname, source), path.join(dest, file));
+    }
+    console.log('✅ Tesseract OCR assets copied to build directory');
+  },
+});
 
 // Build plugins array
 const plugins = [
@@ -40,6 +73,7 @@ const plugins = [
       }
     },
   },
+  tesseractAssets(),
 ];
 
 // Add bundle analyzer in analyze mode